@@ -7,7 +7,7 @@
  * and clock, so canned pages drive it instead of the live API.
  */
 import { describe, it, expect } from 'vitest';
-import { scanUntilMatch } from '../client.js';
+import { drainPages, scanUntilMatch } from '../client.js';
 import {
   isKnownEventType,
   assertKnownEventType,
@@ -144,6 +144,84 @@ describe('scanUntilMatch', () => {
   });
 });
 
+describe('drainPages', () => {
+  it('concatenates every page until the endpoint drains (truncated=false)', async () => {
+    const first = `${BASE}?pageSize=2`;
+    const pages: Record<string, Page> = {
+      [first]: { events: [{ id: 'a' }, { id: 'b' }], nextLink: `${BASE}?continuation=tok2` },
+      [`${BASE}?continuation=tok2`]: { events: [], nextLink: `${BASE}?continuation=tok3` },
+      [`${BASE}?continuation=tok3`]: { events: [{ id: 'c' }] },
+    };
+
+    const res = await drainPages(first, BASE, ROOMY, fakeFetcher(pages), fakeClock());
+
+    expect(res.items).toEqual([{ id: 'a' }, { id: 'b' }, { id: 'c' }]);
+    expect(res.scannedPages).toBe(3);
+    expect(res.truncated).toBe(false);
+    expect(res.nextLink).toBeUndefined();
+  });
+
+  it('stops at the page budget, flags truncated and keeps the unfollowed nextLink', async () => {
+    const first = `${BASE}?pageSize=1`;
+    const link = (n: number) => `${BASE}?continuation=tok${n}`;
+    const pages: Record<string, Page> = {
+      [first]: { sessions: [{ id: 1 }], nextLink: link(2) },
+      [link(2)]: { sessions: [{ id: 2 }], nextLink: link(3) },
+    };
+
+    const res = await drainPages(first, BASE, { maxPages: 2, wallClockMs: 60_000 }, fakeFetcher(pages), fakeClock());
+
+    expect(res.items).toEqual([{ id: 1 }, { id: 2 }]);
+    expect(res.truncated).toBe(true);
+    expect(res.nextLink).toBe(link(3));
+  });
+
+  it('stops paging once maxItems rows are collected', async () => {
+    const first = `${BASE}?pageSize=2`;
+    const link = (n: number) => `${BASE}?continuation=tok${n}`;
+    const pages: Record<string, Page> = {
+      [first]: { sessions: [{ id: 1 }, { id: 2 }], nextLink: link(2) },
+      [link(2)]: { sessions: [{ id: 3 }, { id: 4 }], nextLink: link(3) },
+    };
+
+    const exact = await drainPages(first, BASE, { ...ROOMY, maxItems: 2 }, fakeFetcher(pages), fakeClock());
+    expect(exact).toEqual({ items: [{ id: 1 }, { id: 2 }], scannedPages: 1, truncated: true, nextLink: link(2) });
+
+    // Cut mid-page: still truncated, but no nextLink — resuming would skip row 4.
+    const cut = await drainPages(first, BASE, { ...ROOMY, maxItems: 3 }, fakeFetcher(pages), fakeClock());
+    expect(cut).toEqual({ items: [{ id: 1 }, { id: 2 }, { id: 3 }], scannedPages: 2, truncated: true });
+  });
+
+  it('reports a drained endpoint that fills maxItems exactly as not truncated', async () => {
+    const first = `${BASE}?pageSize=2`;
+    const pages: Record<string, Page> = { [first]: { sessions: [{ id: 1 }, { id: 2 }] } };
+
+    const res = await drainPages(first, BASE, { ...ROOMY, maxItems: 2 }, fakeFetcher(pages), fakeClock());
+    expect(res.truncated).toBe(false);
+  });
+
+  it('ends the walk as drained when stopAfterPage says the rest is out of range', async () => {
+    const first = `${BASE}?pageSize=1`;
+    const link = (n: number) => `${BASE}?continuation=tok${n}`;
+    const pages: Record<string, Page> = {
+      [first]: { events: [{ id: 1 }], nextLink: link(2) },
+      [link(2)]: { events: [], nextLink: link(3) },
+    };
+
+    const res = await drainPages(first, BASE, { ...ROOMY, stopAfterPage: (page) => page.length === 0 }, fakeFetcher(pages), fakeClock());
+    expect(res).toEqual({ items: [{ id: 1 }], scannedPages: 2, truncated: false });
+  });
+
+  it('rejects a nextLink that points at a different base path', async () => {
+    const first = `${BASE}?pageSize=1`;
+    const pages: Record<string, Page> = {
+      [first]: { events: [{ id: 1 }], nextLink: '/api/global/raw/tables/TenantConfiguration?continuation=x' },
+    };
+
+    await expect(drainPages(first, BASE, ROOMY, fakeFetcher(pages), fakeClock())).rejects.toThrow(/does not match/);
+  });
+});
+
 describe('event-type validation', () => {
   it('accepts known event types', () => {
     expect(isKnownEventType('app_install_failed')).toBe(true);
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Cassette, CassetteMissError, Scrubber, runWithCassette } from '../cassette.js';
+import { apiFetch, ApiError, runWithCaller } from '../client.js';
+
+const TENANT = '7d1b5a8e-0c41-4f0a-9a55-2b6f0c1e9a01';
+const OTHER = 'A1B2C3D4-0000-4000-8000-1234567890AB';
+const JWT = 'eyJhbGciOiJub25lIn0.eyJ0aWQiOiJ4In0.c2ln';
+const caller = { token: 'test-token', isGlobalAdmin: true };
+
+afterEach(() => vi.unstubAllGlobals());
+
+describe('Scrubber', () => {
+  it('replaces learned tenant IDs everywhere, case-insensitively, with stable placeholders', () => {
+    const s = new Scrubber([TENANT]);
+    s.learn(`{"PartitionKey":"${OTHER}_abc","TenantId":"${OTHER}"}`);
+    expect(s.scrub(`/api/x?tenantId=${TENANT.toUpperCase()} ${OTHER.toLowerCase()}`))
+      .toBe('/api/x?tenantId=00000000-0000-4000-8000-000000000001 00000000-0000-4000-8000-000000000002');
+  });
+
+  it('redacts tokens and SAS signatures and maps continuations consistently', () => {
+    const s = new Scrubber();
+    const out = s.scrub(`{"token":"${JWT}","url":"https://blob/x?sv=1&sig=abc%2B"}`);
+    expect(out).toBe('{"token":"<redacted-token>","url":"https://blob/x?sv=1&sig=<redacted>"}');
+    expect(s.scrub('/a?continuation=Zm9v&x=1')).toBe('/a?continuation=cassette-cont-1&x=1');
+    expect(s.scrub('"nextLink":"/a?continuation=YmFy"')).toBe('"nextLink":"/a?continuation=cassette-cont-2"');
+    expect(s.scrub('/a?continuation=Zm9v')).toBe('/a?continuation=cassette-cont-1');
+  });
+});
+
+describe('apiFetch under a cassette', () => {
+  it('records scrubbed responses and replays them without the network, in order', async () => {
+    const bodies = [
+      { tenantId: TENANT, nextLink: '/api/raw/events?pageSize=1&continuation=c1', events: [1] },
+      { tenantId: TENANT, nextLink: null, events: [2] },
+    ];
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify(bodies.shift()), { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const recorder = Cassette.recorder('backend.example');
+    await runWithCaller(caller, () => runWithCassette(recorder, async () => {
+      await apiFetch('/api/raw/events?pageSize=1');
+      await apiFetch('/api/raw/events?pageSize=1');
+    }));
+    const file = join(mkdtempSync(join(tmpdir(), 'cassette-')), 'c.json');
+    recorder.save(file);
+    const saved = readFileSync(file, 'utf-8');
+    expect(saved).not.toContain(TENANT);
+    expect(saved).toContain('continuation=cassette-cont-1');
+
+    fetchMock.mockClear();
+    const replay = Cassette.load(file);
+    const pages = await runWithCaller(caller, () => runWithCassette(replay, async () => [
+      await apiFetch('/api/raw/events?pageSize=1'),
+      await apiFetch('/api/raw/events?pageSize=1'),
+      await apiFetch('/api/raw/events?pageSize=1'),
+    ])) as Array<{ events: number[]; tenantId: string }>;
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(pages.map((p) => p.events[0])).toEqual([1, 2, 2]);
+    expect(pages[0].tenantId).toBe('00000000-0000-4000-8000-000000000001');
+  });
+
+  it('scrubs a tenant ID named only by a later response out of the earlier ones too', async () => {
+    const bodies = [
+      { owner: OTHER, events: [] },
+      { tenantId: OTHER, events: [] },
+    ];
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify(bodies.shift()), { status: 200 })));
+
+    const recorder = Cassette.recorder('backend.example');
+    await runWithCaller(caller, () => runWithCassette(recorder, async () => {
+      await apiFetch('/api/sessions/a');
+      await apiFetch('/api/sessions/b');
+    }));
+    const file = join(mkdtempSync(join(tmpdir(), 'cassette-')), 'c.json');
+    recorder.save(file);
+    const saved = readFileSync(file, 'utf-8');
+    expect(saved.toLowerCase()).not.toContain(OTHER.toLowerCase());
+    expect((JSON.parse(saved) as { interactions: Array<{ body: string }> }).interactions[0].body)
+      .toContain('00000000-0000-4000-8000-000000000001');
+  });
+
+  it('replays error statuses as ApiError and refuses unrecorded requests', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('{"error":"nope"}', { status: 403 })));
+    const recorder = Cassette.recorder('backend.example');
+    await runWithCaller(caller, () => runWithCassette(recorder, () => apiFetch('/api/sessions/x').catch(() => undefined)));
+    const file = join(mkdtempSync(join(tmpdir(), 'cassette-')), 'c.json');
+    recorder.save(file);
+
+    const replay = Cassette.load(file);
+    await runWithCaller(caller, () => runWithCassette(replay, async () => {
+      await expect(apiFetch('/api/sessions/x')).rejects.toMatchObject({ constructor: ApiError, status: 403 });
+      await expect(apiFetch('/api/sessions/y')).rejects.toBeInstanceOf(CassetteMissError);
+    }));
+  });
+});
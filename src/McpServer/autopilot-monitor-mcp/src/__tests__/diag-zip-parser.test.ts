@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import { deflateRawSync } from 'node:zlib';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { listZipEntries, readZipEntry, ZipFormatError } from '../zip-reader.js';
+import { compileImeLogPatterns, loadImeLogPatterns, splitImeLogEntries, type CompiledImePattern } from '../ime-log-patterns.js';
+import { parseDiagnosticsZip } from '../diag-zip-parser.js';
+import { parseDiagnosticsZipInWorker } from '../diag-zip-worker.js';
+
+const RULES_ROOT = resolve(dirname(fileURLToPath(import.meta.url)), '..', '..', '..', '..', '..', 'rules');
+
+/** Minimal PKZIP writer (local headers + central directory, CRC left 0 — the reader never checks it). */
+function buildZip(files: Record<string, string>, deflate = true): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const [name, content] of Object.entries(files)) {
+    const raw = Buffer.from(content, 'utf-8');
+    const data = deflate ? deflateRawSync(raw) : raw;
+    const nameBuf = Buffer.from(name, 'utf-8');
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(deflate ? 8 : 0, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(nameBuf.length, 26);
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(deflate ? 8 : 0, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(nameBuf.length, 28);
+    central.writeUInt32LE(offset, 42);
+    locals.push(local, nameBuf, data);
+    centrals.push(central, nameBuf);
+    offset += 30 + nameBuf.length + data.length;
+  }
+  const cd = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(Object.keys(files).length, 8);
+  eocd.writeUInt16LE(Object.keys(files).length, 10);
+  eocd.writeUInt32LE(cd.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, cd, eocd]);
+}
+
+const cmtrace = (message: string, date = '2-8-2026', time = '10:00:05.1234567', type = 1) =>
+  `<![LOG[${message}]LOG]!><time="${time}" date="${date}" component="AppWorkload" context="" type="${type}" thread="5" file="">`;
+
+const APP_ID = 'a1b2c3d4-0000-1111-2222-333344445555';
+
+let shipped: CompiledImePattern[] = [];
+
+describe('zip-reader', () => {
+  it('reads stored and deflated entries and normalizes backslash paths', () => {
+    for (const deflate of [true, false]) {
+      const zip = buildZip({ 'AgentLogs\\agent_20260208.log': 'hello' }, deflate);
+      const [entry] = listZipEntries(zip);
+      expect(entry.name).toBe('AgentLogs/agent_20260208.log');
+      expect(readZipEntry(zip, entry, 1024).toString()).toBe('hello');
+    }
+  });
+
+  it('rejects non-ZIP input and oversized entries', () => {
+    expect(() => listZipEntries(Buffer.from('definitely not a zip archive'))).toThrow(ZipFormatError);
+    const zip = buildZip({ 'big.log': 'x'.repeat(100) });
+    expect(() => readZipEntry(zip, listZipEntries(zip)[0], 10)).toThrow(/limit 10/);
+  });
+});
+
+describe('ime-log-patterns', () => {
+  it('compiles every shipped pattern as a JavaScript regex', async () => {
+    const { patterns, invalid } = compileImeLogPatterns(await loadImeLogPatterns(RULES_ROOT));
+    expect(invalid).toEqual([]);
+    expect(patterns.length).toBeGreaterThan(50);
+    shipped = patterns;
+  });
+
+  it('reassembles multiline CMTrace entries and keeps raw lines', () => {
+    const text = [
+      cmtrace('single'),
+      '<![LOG[write output done. output = line1',
+      'line2]LOG]!><time="7:01:02.5" date="12-31-2025" component="AgentExecutor" context="" type="3" thread="9" file="">',
+      'plain text line',
+    ].join('\r\n');
+    expect(splitImeLogEntries(text)).toEqual([
+      expect.objectContaining({ line: 1, message: 'single', localTimestamp: '2026-02-08T10:00:05.123' }),
+      expect.objectContaining({ line: 2, message: 'write output done. output = line1\nline2', localTimestamp: '2025-12-31T07:01:02.500', type: 3 }),
+      expect.objectContaining({ line: 4, message: 'plain text line', localTimestamp: null }),
+    ]);
+  });
+});
+
+describe('parseDiagnosticsZip', () => {
+  const files = {
+    'sessioninfo.txt': 'SessionId: s-1\r\nAgentVersion=2.0.626',
+    'AgentState/final-status.json': JSON.stringify({ outcome: 'Failed' }),
+    'AgentLogs/agent_20260208.log': [
+      '[2026-02-08 09:00:00.000] [INFO] Agent started',
+      '[2026-02-08 09:00:07.000] [ERROR] Upload failed',
+      '   at EventUploadService.Flush()',
+    ].join('\n'),
+    'AgentState/journal.jsonl': JSON.stringify({
+      StepIndex: 3, OccurredAtUtc: '2026-02-08T09:00:06Z', Trigger: 'EspPhaseChanged',
+      FromStage: 'EspDeviceSetup', ToStage: 'EspAccountSetup', Taken: true,
+    }),
+    'ImeLogs/AppWorkload.log': [
+      cmtrace('[Win32App] In EspPhase: DeviceSetup'),
+      cmtrace(`[Win32App] Admin did NOT set mapping for lpExitCode: 1603 of app: ${APP_ID}`, '2-8-2026', '10:00:09.0', 3),
+      cmtrace('nothing interesting'),
+    ].join('\n'),
+  };
+
+  it('merges agent, journal and IME pattern matches into one UTC timeline', () => {
+    const result = parseDiagnosticsZip(buildZip(files), shipped, { imeUtcOffsetMinutes: 60 });
+
+    expect(result.archive).toEqual(expect.objectContaining({ entryCount: 5, agentGeneration: 'v2', truncatedArchive: false }));
+    expect(result.sessionInfo).toEqual({ SessionId: 's-1', AgentVersion: '2.0.626' });
+    expect(result.finalStatus).toEqual({ outcome: 'Failed' });
+    expect(result.files.find((f) => f.path === 'ImeLogs/AppWorkload.log')?.mapPath).toBe('ImeLogs/AppWorkload*.log');
+    expect(result.missingExpected).toContain('AgentState/signal-log.jsonl');
+    expect(result.missingExpected).not.toContain('AgentState/final-status.json');
+
+    const rows = result.timeline.map((t) => [t.timestamp, t.source, t.patternId ?? t.level]);
+    expect(rows[0]).toEqual(['2026-02-08T09:00:05.123Z', 'ime', 'IME-ESP-PHASE']);
+    expect(rows).toContainEqual(['2026-02-08T09:00:06.000Z', 'journal', 'INFO']);
+    expect(rows.some(([, source, level]) => source === 'agent' && level === 'INFO')).toBe(false);
+
+    const agentError = result.timeline.find((t) => t.source === 'agent')!;
+    expect(agentError.message).toBe('Upload failed\n   at EventUploadService.Flush()');
+
+    const unmapped = result.timeline.find((t) => t.patternId === 'IME-ERROR-UNMAPPED-EXIT')!;
+    expect(unmapped).toEqual(expect.objectContaining({ level: 'ERROR', action: 'updateStateError' }));
+    expect(unmapped.groups).toEqual(expect.objectContaining({ exitCode: '1603', id: APP_ID }));
+    expect(result.imePatternStats.linesScanned).toBe(3);
+    expect(result.imePatternStats.usedAgentMatchLog).toBe(false);
+  });
+
+  it('honours source filters, time window and maxEntries', () => {
+    const result = parseDiagnosticsZip(buildZip(files), shipped, {
+      sources: ['agent', 'journal'], agentLogMinLevel: 'INFO', from: '2026-02-08T09:00:01Z', maxEntries: 1,
+    });
+    expect(result.timeline).toEqual([expect.objectContaining({ source: 'journal' })]);
+    expect(result.timelineCounts).toEqual({ agent: 1, ime: 0, journal: 1, signal: 0 });
+    expect(result.timelineTruncated).toBe(true);
+  });
+
+  it('falls back to the agent match log when the raw IME logs are missing', () => {
+    const zip = buildZip({
+      'AgentLogs/ime_pattern_matches.log': `[AppWorkload.log] [IME-ESP-PHASE] ${cmtrace('[Win32App] The EspPhase: AccountSetup')}`,
+      '_TRUNCATED.txt': 'size cap',
+    });
+    const result = parseDiagnosticsZip(zip, shipped);
+    expect(result.archive).toEqual(expect.objectContaining({ truncatedArchive: true, agentGeneration: 'v1' }));
+    expect(result.imePatternStats.usedAgentMatchLog).toBe(true);
+    expect(result.timeline).toEqual([
+      expect.objectContaining({ patternId: 'IME-ESP-PHASE', groups: { espPhase: 'AccountSetup' } }),
+    ]);
+  });
+});
+
+describe('parseDiagnosticsZipInWorker', () => {
+  it('returns the same result as the in-process parse', async () => {
+    const zip = buildZip({
+      'AgentLogs/agent_20260208.log': '[2026-02-08 09:00:07.000] [ERROR] Upload failed',
+      'ImeLogs/AppWorkload.log': cmtrace('[Win32App] In EspPhase: DeviceSetup'),
+    });
+    expect(await parseDiagnosticsZipInWorker(zip, shipped)).toEqual(parseDiagnosticsZip(zip, shipped));
+  });
+
+  it('keeps ZipFormatError across the thread boundary', async () => {
+    await expect(parseDiagnosticsZipInWorker(Buffer.from('definitely not a zip archive'), shipped)).rejects.toThrow(ZipFormatError);
+  });
+});
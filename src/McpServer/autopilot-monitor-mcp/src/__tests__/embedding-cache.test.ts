@@ -0,0 +1,90 @@
+/**
+ * Content-hash embedding cache + incremental reindex. Model-free: every test keeps the corpus
+ * text inside the cache, so VectorSearchProvider.reindex never needs to load the transformer —
+ * which is itself the property under test (unchanged text must not be re-embedded).
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { EmbeddingCache, contentHash } from '../embedding-cache.js';
+import { MODEL_NAME, VectorSearchProvider, type PrecomputedDocument } from '../vector-search-provider.js';
+import { FuseSearchProvider } from '../fuse-search-provider.js';
+import type { SearchDocument } from '../search-provider.js';
+
+const doc = (id: string, text: string, metadata: Record<string, unknown> = {}): SearchDocument => ({ id, text, metadata });
+const embedded = (d: SearchDocument, embedding: number[]): PrecomputedDocument => ({ ...d, embedding });
+
+let dir: string | undefined;
+afterEach(() => {
+  if (dir) rmSync(dir, { recursive: true, force: true });
+  dir = undefined;
+});
+
+describe('EmbeddingCache', () => {
+  it('keys by text content and persists atomically, bound to the model', () => {
+    dir = mkdtempSync(join(tmpdir(), 'emb-cache-'));
+    const path = join(dir, 'cache.json');
+    const cache = new EmbeddingCache(MODEL_NAME, path);
+    cache.set('TPM not ready', [1, 0]);
+    cache.save();
+    expect(Object.keys(JSON.parse(readFileSync(path, 'utf-8')).entries)).toEqual([contentHash('TPM not ready')]);
+
+    const restored = new EmbeddingCache(MODEL_NAME, path);
+    expect(restored.load()).toBe(1);
+    expect(restored.get('TPM not ready')).toEqual([1, 0]);
+
+    // Vectors from a different model are never trusted.
+    expect(new EmbeddingCache('other/model', path).load()).toBe(0);
+    writeFileSync(path, '{not json');
+    expect(new EmbeddingCache(MODEL_NAME, path).load()).toBe(0);
+  });
+
+  it('retain() drops entries for text no longer in the corpus', () => {
+    const cache = new EmbeddingCache(MODEL_NAME);
+    cache.set('a', [1]);
+    cache.set('b', [2]);
+    expect(cache.retain(['a'])).toBe(1);
+    expect(cache.get('b')).toBeUndefined();
+  });
+});
+
+describe('VectorSearchProvider.reindex', () => {
+  it('reuses vectors for unchanged text and swaps in metadata edits and removals without embedding', async () => {
+    const provider = new VectorSearchProvider();
+    provider.indexPrecomputed([
+      embedded(doc('rule-1', 'TPM not ready', { title: 'old' }), [1, 0]),
+      embedded(doc('rule-2', 'ESP timeout'), [0, 1]),
+    ]);
+
+    const stats = await provider.reindex([doc('rule-1', 'TPM not ready', { title: 'new' })]);
+    expect(stats).toEqual({ total: 1, embedded: 0, reused: 1, removed: 1 });
+    expect(provider.size).toBe(1);
+    expect(provider.serialize()[0]).toEqual(expect.objectContaining({ id: 'rule-1', metadata: { title: 'new' }, embedding: [1, 0] }));
+    expect(provider.lexicalMatch(['esp timeout'])).toEqual([]);
+  });
+
+  it('picks up vectors seeded from a stale precomputed index (renamed rule, same text)', async () => {
+    const cache = new EmbeddingCache(MODEL_NAME);
+    cache.seed([embedded(doc('OLD-ID', 'Proxy requires authentication'), [0.6, 0.8])]);
+    const provider = new VectorSearchProvider(cache);
+    const stats = await provider.reindex([doc('NEW-ID', 'Proxy requires authentication')]);
+    expect(stats.embedded).toBe(0);
+    expect(provider.serialize()[0].embedding).toEqual([0.6, 0.8]);
+  });
+
+  it('rejects a cache bound to another model', () => {
+    expect(() => new VectorSearchProvider(new EmbeddingCache('other/model'))).toThrow(/bound to other\/model/);
+  });
+});
+
+describe('FuseSearchProvider.reindex', () => {
+  it('replaces the corpus so edited text is searchable immediately', async () => {
+    const provider = new FuseSearchProvider();
+    await provider.index([doc('rule-1', 'TPM not ready')]);
+    const stats = await provider.reindex([doc('rule-1', 'BitLocker escrow failed'), doc('rule-2', 'ESP timeout')]);
+    expect(stats).toEqual({ total: 2, embedded: 0, reused: 0, removed: 0 });
+    expect((await provider.search('BitLocker escrow'))[0]?.id).toBe('rule-1');
+    expect(await provider.search('TPM not ready')).toEqual([]);
+  });
+});
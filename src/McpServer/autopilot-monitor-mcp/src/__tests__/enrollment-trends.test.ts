@@ -0,0 +1,96 @@
+/**
+ * Unit tests for the get_enrollment_trends engine: bucketing, baseline scoring and anomaly
+ * attribution. Pure — sessions and app events are generated, no backend.
+ */
+import { describe, it, expect } from 'vitest';
+import { buildEnrollmentTrends, rankContributors, scoreAgainstBaseline, type TrendOptions } from '../enrollment-trends.js';
+
+const DAY = 86_400_000;
+const FROM = Date.parse('2026-02-02T00:00:00Z'); // a Monday
+
+let seq = 0;
+function session(day: number, status: string, model = 'Surface Pro 9', extra: Record<string, unknown> = {}) {
+  return {
+    sessionId: `s-${++seq}`,
+    status,
+    model,
+    agentVersion: '2.0.600',
+    startedAt: new Date(FROM + day * DAY + 3_600_000).toISOString(),
+    durationSeconds: 1800,
+    ...extra,
+  };
+}
+
+/** 20 sessions a day, 2 failed (10%), for `days` days. */
+function steadyFleet(days: number) {
+  const rows = [];
+  for (let d = 0; d < days; d++) {
+    for (let i = 0; i < 18; i++) rows.push(session(d, 'Succeeded'));
+    rows.push(session(d, 'Failed'), session(d, 'Failed', 'Latitude 7440'));
+  }
+  return rows;
+}
+
+const opts = (overrides: Partial<TrendOptions> = {}): TrendOptions => ({
+  bucket: 'day', method: 'zscore', from: FROM, to: FROM + 14 * DAY,
+  baselineBuckets: 7, threshold: 3, minSessions: 5, maxApps: 5, ...overrides,
+});
+
+describe('scoreAgainstBaseline', () => {
+  it('needs a minimal baseline and floors a flat spread', () => {
+    expect(scoreAgainstBaseline(0.5, [0.1, 0.1], 'zscore')).toBeNull();
+    expect(scoreAgainstBaseline(0.2, [0.1, 0.1, 0.1], 'zscore')!.score).toBeCloseTo(20);
+    expect(scoreAgainstBaseline(0.1, [0.1, 0.1, 0.9, 0.1], 'seasonal')!.baseline).toBe(0.1);
+  });
+});
+
+describe('rankContributors', () => {
+  it('ranks values by excess over their baseline share', () => {
+    const ranked = rankContributors(['A', 'A', 'A', 'B'], ['A', 'B', 'B', 'B']);
+    expect(ranked).toEqual([{ value: 'A', count: 3, expected: 1, excess: 2 }]);
+  });
+});
+
+describe('buildEnrollmentTrends', () => {
+  it('flags a failure-rate spike and attributes it to the model and app behind it', () => {
+    const sessions = steadyFleet(14);
+    const appEvents: Array<Record<string, unknown>> = [];
+    // Day 12: eight extra Dell failures, each with a failed Company Portal install.
+    for (let i = 0; i < 8; i++) {
+      const s = session(12, 'Failed', 'Dell Pro 14', { agentVersion: '2.0.626' });
+      sessions.push(s);
+      appEvents.push({ SessionId: s.sessionId, Source: 'Company Portal', Timestamp: s.startedAt });
+    }
+    appEvents.push({ SessionId: sessions[0].sessionId, Source: 'Teams', Timestamp: sessions[0].startedAt });
+
+    const result = buildEnrollmentTrends(sessions, appEvents, opts());
+    expect(result.buckets).toHaveLength(14);
+    expect(result.series.failureRate[0]).toEqual({ t: '2026-02-02', value: 0.1, n: 20 });
+
+    const spike = result.anomalies.find((a) => a.metric === 'failureRate');
+    expect(spike).toEqual(expect.objectContaining({ t: '2026-02-14', direction: 'up', value: 0.3571 }));
+    expect(spike!.contributors.models![0]).toEqual(expect.objectContaining({ value: 'Dell Pro 14', count: 8 }));
+    expect(spike!.contributors.agentVersions![0].value).toBe('2.0.626');
+    expect(spike!.contributors.apps![0].value).toBe('Company Portal');
+    expect(Object.keys(result.series.appInstallFailures)).toEqual(['Company Portal', 'Teams']);
+  });
+
+  it('leaves thin buckets unscored and finds nothing in a steady fleet', () => {
+    const sessions = [...steadyFleet(14), session(14, 'Failed'), session(14, 'Failed')];
+    const result = buildEnrollmentTrends(sessions, [], opts({ to: FROM + 15 * DAY }));
+    expect(result.series.failureRate[14]).toEqual({ t: '2026-02-16', value: null, n: 2 });
+    expect(result.anomalies).toEqual([]);
+  });
+
+  it('seasonal baselines compare a weekday only with the same weekday', () => {
+    // Mondays are always 30% failures; every other day 10%. A z-score would cry wolf each Monday.
+    const sessions = steadyFleet(28);
+    for (let week = 0; week < 4; week++) {
+      for (let i = 0; i < 5; i++) sessions.push(session(week * 7, 'Failed'));
+    }
+    const seasonal = buildEnrollmentTrends(sessions, [], opts({ method: 'seasonal', to: FROM + 28 * DAY, baselineBuckets: 3 }));
+    expect(seasonal.anomalies.filter((a) => a.metric === 'failureRate')).toEqual([]);
+    const zscore = buildEnrollmentTrends(sessions, [], opts({ to: FROM + 28 * DAY, baselineBuckets: 6 }));
+    expect(zscore.anomalies.filter((a) => a.metric === 'failureRate').length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Unit tests for the cluster_failures engine (failure-clusters.ts). Pure functions over canned
+ * failed-session / event payloads — no backend or token needed.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  clusterFailures,
+  fingerprintFailure,
+  fingerprintKey,
+  normalizeFailureReason,
+  type FailedSessionSample,
+} from '../failure-clusters.js';
+
+type Row = Record<string, unknown>;
+
+const ev = (timestamp: string, eventType: string, extra: Row = {}): Row => ({ timestamp, eventType, ...extra });
+
+const teamsFailure = (sessionId: string, model: string, agentVersion = '2.0.626'): FailedSessionSample => ({
+  session: { sessionId, model, agentVersion, failureReason: 'ESP app timeout', currentPhase: 99, startedAt: `2024-01-0${sessionId.length}T10:00:00Z` },
+  events: [
+    ev('2024-01-01T10:00:00Z', 'phase_transition', { phase: 1 }),
+    ev('2024-01-01T10:05:00Z', 'app_install_started', { phase: 3, data: { appName: 'Teams' } }),
+    ev('2024-01-01T10:20:00Z', 'app_install_failed', { phase: 3, severity: 'Error', data: { appName: 'Teams', errorCode: '0x87D1041C' } }),
+    ev('2024-01-01T10:21:00Z', 'enrollment_failed', { phase: 99, severity: 'Critical' }),
+  ],
+});
+
+describe('normalizeFailureReason', () => {
+  it('masks GUIDs and timestamps but keeps error codes', () => {
+    expect(normalizeFailureReason(
+      'App 1b4e28ba-2fa1-11d2-883f-0016d3cca427 failed at 2024-01-01T10:00:00Z with 0x80070002',
+    )).toBe('App <guid> failed at <time> with 0x80070002');
+  });
+
+  it('returns null for empty input', () => {
+    expect(normalizeFailureReason('')).toBeNull();
+    expect(normalizeFailureReason(undefined)).toBeNull();
+  });
+});
+
+describe('fingerprintFailure', () => {
+  it('derives last real phase, failing app and first error code from the event stream', () => {
+    const f = fingerprintFailure(teamsFailure('s1', 'Latitude 7440'));
+    expect(f).toEqual({
+      failureReason: 'ESP app timeout',
+      lastPhase: '3',
+      failingApp: 'Teams',
+      firstErrorEventType: 'app_install_failed',
+      firstErrorCode: '0x87D1041C',
+    });
+  });
+
+  it('falls back to session currentPhase when no events were fetched', () => {
+    const f = fingerprintFailure(
+      { session: { failureReason: 'Timeout', currentPhase: 4, enrollmentType: 'v1' }, events: null },
+      (p) => `phase-${String(p)}`,
+    );
+    expect(f.lastPhase).toBe('phase-4');
+    expect(f.failingApp).toBeNull();
+    expect(f.firstErrorEventType).toBeNull();
+  });
+
+  it('skips a benign health-script detection report when picking the first error', () => {
+    const f = fingerprintFailure({
+      session: {},
+      events: [
+        ev('2024-01-01T10:00:00Z', 'script_failed', {
+          severity: 'Error', data: { scriptType: 'remediation', scriptPart: 'detection', exitCode: 1 },
+        }),
+        ev('2024-01-01T10:01:00Z', 'error_detected', { severity: 'Error', data: { hresult: '0x80004005' } }),
+      ],
+    });
+    expect(f.firstErrorEventType).toBe('error_detected');
+    expect(f.firstErrorCode).toBe('0x80004005');
+  });
+
+  it('keys distinguish null from the string "null"', () => {
+    const base = { failureReason: null, lastPhase: null, failingApp: null, firstErrorEventType: null, firstErrorCode: null };
+    expect(fingerprintKey(base)).not.toBe(fingerprintKey({ ...base, failureReason: 'null' }));
+  });
+});
+
+describe('clusterFailures', () => {
+  const other: FailedSessionSample = {
+    session: { sessionId: 'x1', model: 'Surface Pro 9', agentVersion: '2.0.600', failureReason: 'Hybrid join timed out' },
+    events: null,
+  };
+
+  it('ranks clusters by size with share, examples and model/agent facets', () => {
+    const result = clusterFailures([
+      teamsFailure('s1', 'Latitude 7440'),
+      other,
+      teamsFailure('s22', 'Latitude 7440'),
+      teamsFailure('s333', 'EliteBook 840', '2.0.600'),
+    ], 10);
+
+    expect(result.totalSessions).toBe(4);
+    expect(result.clusterCount).toBe(2);
+    const [top, second] = result.clusters;
+    expect(top.count).toBe(3);
+    expect(top.share).toBe(0.75);
+    expect(top.exampleSessionIds).toEqual(['s1', 's22', 's333']);
+    expect(top.models).toEqual([{ value: 'Latitude 7440', count: 2 }, { value: 'EliteBook 840', count: 1 }]);
+    expect(top.agentVersions[0]).toEqual({ value: '2.0.626', count: 2 });
+    expect(top.firstSeen).toBe('2024-01-02T10:00:00Z');
+    expect(top.lastSeen).toBe('2024-01-04T10:00:00Z');
+    expect(second.exampleSessionIds).toEqual(['x1']);
+  });
+
+  it('caps the returned clusters and reports how many were omitted', () => {
+    const result = clusterFailures([teamsFailure('s1', 'A'), teamsFailure('s2', 'A'), other], 1);
+    expect(result.clusters).toHaveLength(1);
+    expect(result.clusters[0].count).toBe(2);
+    expect(result.omittedClusters).toBe(1);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Reciprocal-rank fusion in the hybrid search provider. The semantic half is a canned stub (no
+ * model load); the fuzzy half is the real Fuse provider so exact-title behavior is realistic.
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { HybridSearchProvider, fuseRankings } from '../hybrid-search-provider.js';
+import { FuseSearchProvider } from '../fuse-search-provider.js';
+import type { SearchDocument, SearchProvider, SearchResult } from '../search-provider.js';
+
+const doc = (id: string, text: string, title = id): SearchDocument => ({ id, text, metadata: { type: 'analyze-rule', title } });
+const hit = (d: SearchDocument, score: number): SearchResult => ({ ...d, score });
+
+const DOCS = [
+  doc('ANALYZE-APP-001', 'Win32 app install timed out while ESP was waiting for the app', 'App install timeout'),
+  doc('ANALYZE-TPM-002', 'TPM attestation failed with 0x80280036 during device setup', 'TPM attestation failure'),
+  doc('ANALYZE-NET-003', 'Proxy requires authentication (407) for the Intune service endpoints', 'Proxy authentication required'),
+];
+
+/** Semantic stub: returns the canned ranking regardless of query, honoring topK/minScore. */
+function semanticStub(ranking: SearchResult[], opts: { throws?: boolean } = {}): SearchProvider {
+  return {
+    name: 'vector/stub',
+    semanticCapable: true,
+    size: DOCS.length,
+    index: async () => {},
+    search: async (_q, o = {}) => {
+      if (opts.throws) throw new Error('model unavailable');
+      return ranking.filter((r) => r.score >= (o.minScore ?? 0)).slice(0, o.topK ?? 5);
+    },
+  };
+}
+
+async function hybrid(semantic: SearchProvider): Promise<HybridSearchProvider> {
+  const fuzzy = new FuseSearchProvider();
+  await fuzzy.index(DOCS);
+  return new HybridSearchProvider(semantic, fuzzy);
+}
+
+describe('fuseRankings', () => {
+  it('calibrates to 1.0 for rank 1 everywhere and splits shares per backend', () => {
+    const [a, b] = DOCS;
+    const fused = fuseRankings(
+      [
+        { backend: 'vector', weight: 1, results: [hit(a, 0.8), hit(b, 0.4)] },
+        { backend: 'fuse', weight: 1, results: [hit(a, 0.9)] },
+      ],
+      [],
+    );
+    expect(fused.map((r) => r.id)).toEqual([a.id, b.id]);
+    expect(fused[0].score).toBeCloseTo(1, 6);
+    expect(fused[0].contributions).toEqual([
+      { backend: 'vector', rank: 1, backendScore: 0.8, share: 0.5 },
+      { backend: 'fuse', rank: 1, backendScore: 0.9, share: 0.5 },
+    ]);
+    // Rank 2 in one of two backends, measured against the default 20-candidate window.
+    const rankWeight = (rank: number) => 1 / (60 + rank) - 1 / 81;
+    expect(fused[1].score).toBeCloseTo(rankWeight(2) / rankWeight(1) / 2, 6);
+  });
+
+  it('spreads one-backend candidates across the window so minScore 0.3 filters', () => {
+    const docs = Array.from({ length: 20 }, (_, i) => doc(`D${i + 1}`, `doc ${i + 1}`));
+    const fused = fuseRankings(
+      [
+        { backend: 'vector', weight: 1, results: docs.map((d) => hit(d, 0.5)) },
+        { backend: 'fuse', weight: 1, results: [] },
+      ],
+      [],
+    );
+    const score = (id: string) => fused.find((r) => r.id === id)!.score;
+    expect(score('D1')).toBeCloseTo(0.5, 6);
+    // Raw RRF would still give rank 10 ~0.43 and rank 20 ~0.38.
+    expect(score('D10')).toBeLessThan(0.3);
+    expect(score('D20')).toBeLessThan(0.05);
+  });
+
+  it('counts an empty backend as evidence, drops a failed one, and pins literal hits to 1.0', () => {
+    const [a, b] = DOCS;
+    const fused = fuseRankings(
+      [
+        { backend: 'vector', weight: 1, results: [hit(a, 0.5)] },
+        { backend: 'fuse', weight: 1, results: [] },
+      ],
+      [hit(b, 1)],
+    );
+    expect(fused.map((r) => [r.id, r.score])).toEqual([[b.id, 1], [a.id, 0.5]]);
+    expect(fused[0].contributions).toEqual([{ backend: 'error-code', rank: 1, backendScore: 1, share: 1 }]);
+
+    const failed = fuseRankings([{ backend: 'vector', weight: 1, results: null }, { backend: 'fuse', weight: 1, results: [hit(a, 0.7)] }], []);
+    expect(failed[0].score).toBe(1);
+  });
+});
+
+describe('HybridSearchProvider', () => {
+  it('surfaces an exact title the semantic ranking buried, with per-backend contributions', async () => {
+    const [app, tpm, net] = DOCS;
+    const provider = await hybrid(semanticStub([hit(app, 0.45), hit(tpm, 0.3), hit(net, 0.21)]));
+    const results = await provider.search('Proxy authentication required', { topK: 3, minScore: 0 });
+
+    const top = results[0];
+    expect(top.id).toBe(net.id);
+    expect(top.contributions?.map((c) => c.backend)).toEqual(['vector/stub', 'fuse']);
+    expect(top.score).toBeGreaterThan(results[1].score);
+    expect(results.every((r) => r.score >= 0 && r.score <= 1)).toBe(true);
+    expect(provider.semanticCapable).toBe(false);
+    expect(provider.name).toBe('hybrid(vector/stub+fuse)');
+  });
+
+  it('pins documents naming an error code verbatim to 1.0', async () => {
+    const [app] = DOCS;
+    const provider = await hybrid(semanticStub([hit(app, 0.3)]));
+    const results = await provider.search('why 0x80280036?', { topK: 5, minScore: 0.25 });
+    expect(results[0]).toEqual(expect.objectContaining({ id: 'ANALYZE-TPM-002', score: 1 }));
+    expect(results[0].contributions?.some((c) => c.backend === 'error-code')).toBe(true);
+  });
+
+  it('drops semantic candidates below the noise floor and degrades to fuzzy when the embedder fails', async () => {
+    const [app] = DOCS;
+    const floored = await hybrid(semanticStub([hit(app, 0.1)]));
+    expect(await floored.search('zzqqxx', { minScore: 0 })).toEqual([]);
+
+    const log = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const degraded = await hybrid(semanticStub([], { throws: true }));
+    const results = await degraded.search('Proxy authentication required', { minScore: 0 });
+    expect(results[0]).toEqual(expect.objectContaining({ id: 'ANALYZE-NET-003', score: 1 }));
+    expect(results[0].contributions?.map((c) => c.backend)).toEqual(['fuse']);
+    // The fallback is logged once per outage, not on every query.
+    await degraded.search('TPM attestation failure', { minScore: 0 });
+    expect(log).toHaveBeenCalledTimes(1);
+    expect(String(log.mock.calls[0][0])).toContain('falling back to fuse');
+    log.mockRestore();
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Knowledge-base watch mode: debounced, serialized hot reload over a temp rules/ tree. The
+ * provider is the real Fuse backend (reindex is cheap and model-free).
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { watchKnowledgeBase, type KnowledgeWatcher } from '../knowledge-watcher.js';
+import { FuseSearchProvider } from '../fuse-search-provider.js';
+import { loadKnowledgeDocs } from '../knowledge-base.js';
+import type { ReindexStats, SearchProvider } from '../search-provider.js';
+
+const rule = (ruleId: string, title: string) =>
+  JSON.stringify({ ruleId, title, description: title, severity: 'high', category: 'device' });
+
+let root: string | undefined;
+let watcher: KnowledgeWatcher | undefined;
+afterEach(() => {
+  watcher?.close();
+  if (root) rmSync(root, { recursive: true, force: true });
+  watcher = undefined;
+  root = undefined;
+});
+
+async function setup(): Promise<{ rulesRoot: string; provider: FuseSearchProvider }> {
+  root = mkdtempSync(join(tmpdir(), 'kb-watch-'));
+  mkdirSync(join(root, 'analyze'));
+  writeFileSync(join(root, 'analyze', 'A.json'), rule('ANALYZE-A', 'TPM attestation failure'));
+  const provider = new FuseSearchProvider();
+  await provider.index(await loadKnowledgeDocs(root));
+  return { rulesRoot: root, provider };
+}
+
+describe('watchKnowledgeBase', () => {
+  it('hot-reloads when a rule file changes', async () => {
+    const { rulesRoot, provider } = await setup();
+    const reloaded = new Promise<ReindexStats>((resolve) => {
+      watcher = watchKnowledgeBase(rulesRoot, provider, { debounceMs: 20, onReload: resolve });
+    });
+    expect(watcher!.watchedDirs).toBe(1);
+
+    writeFileSync(join(rulesRoot, 'analyze', 'A.json'), rule('ANALYZE-A', 'BitLocker escrow failure'));
+    writeFileSync(join(rulesRoot, 'analyze', 'B.json'), rule('ANALYZE-B', 'Proxy authentication required'));
+    writeFileSync(join(rulesRoot, 'analyze', 'B.json.swp'), 'editor noise');
+
+    expect(await reloaded).toEqual(expect.objectContaining({ total: 2 }));
+    expect((await provider.search('BitLocker escrow'))[0]?.id).toBe('ANALYZE-A');
+  });
+
+  it('keeps the current index when the reload yields nothing or fails', async () => {
+    const { rulesRoot, provider } = await setup();
+    watcher = watchKnowledgeBase(rulesRoot, provider, { load: async () => [] });
+    expect(await watcher.reloadNow()).toBeNull();
+    watcher.close();
+
+    watcher = watchKnowledgeBase(rulesRoot, provider, { load: async () => { throw new Error('disk gone'); } });
+    expect(await watcher.reloadNow()).toBeNull();
+    expect(provider.size).toBe(1);
+  });
+
+  it('serializes overlapping reloads and coalesces the ones queued behind a running reload', async () => {
+    const { rulesRoot } = await setup();
+    let running = 0;
+    let maxConcurrent = 0;
+    let reindexes = 0;
+    const provider: SearchProvider = {
+      name: 'slow', semanticCapable: false, size: 0,
+      index: async () => {}, search: async () => [],
+      reindex: async (docs) => {
+        reindexes++;
+        maxConcurrent = Math.max(maxConcurrent, ++running);
+        await new Promise((r) => setTimeout(r, 20));
+        running--;
+        return { total: docs.length, embedded: 0, reused: 0, removed: 0 };
+      },
+    };
+    watcher = watchKnowledgeBase(rulesRoot, provider);
+    await Promise.all([watcher.reloadNow(), watcher.reloadNow(), watcher.reloadNow()]);
+    expect(maxConcurrent).toBe(1);
+    // One reload plus exactly one follow-up for the two requests made while it ran.
+    expect(reindexes).toBe(2);
+  });
+
+  it('refuses a backend that cannot reindex', () => {
+    const provider: SearchProvider = { name: 'static', semanticCapable: false, size: 0, index: async () => {}, search: async () => [] };
+    expect(() => watchKnowledgeBase('/nonexistent', provider)).toThrow(/does not support reindex/);
+  });
+});
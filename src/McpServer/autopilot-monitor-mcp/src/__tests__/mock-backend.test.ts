@@ -0,0 +1,323 @@
+/**
+ * The local mock backend: seeding, tenant scoping, nextLink pagination, and MCP tools running
+ * end-to-end against it. The mock listens on an ephemeral loopback port; tool tests redirect the
+ * client's fetch from API_BASE_URL to it, so nothing leaves the machine and no token is needed.
+ */
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach, onTestFinished } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { API_BASE_URL } from '../config.js';
+import { registerTools } from '../tools.js';
+import { drainPages, runWithCaller } from '../client.js';
+import { MOCK_TENANTS, MOCK_USERS, mintMockToken, seedFixtures, type MockUser } from '../mock-backend/fixtures.js';
+import { startMockBackend, type RunningMockBackend } from '../mock-backend/server.js';
+
+const NOW = Date.parse('2026-03-02T12:00:00Z');
+const [CONTOSO, , NORTHWIND] = MOCK_TENANTS.map((t) => t.tenantId);
+const user = (upn: string) => MOCK_USERS.find((u) => u.upn === upn)!;
+const TENANT_ADMIN = user('admin@contoso.example');
+const GA = user('ga@fabrikam.example');
+const MSP = user('msp@fabrikam.example');
+const VIEWER = user('viewer@northwind.example');
+
+let backend: RunningMockBackend;
+beforeAll(async () => { backend = await startMockBackend(0, { now: NOW, sessionsPerTenant: 40 }); });
+afterAll(async () => { await backend.close(); });
+afterEach(() => vi.unstubAllGlobals());
+
+async function get(path: string, as: MockUser): Promise<{ status: number; body: Record<string, unknown> }> {
+  return send('GET', path, as);
+}
+
+async function send(method: string, path: string, as: MockUser, body?: unknown, on = backend): Promise<{ status: number; body: Record<string, unknown> }> {
+  const res = await fetch(`${on.url}${path}`, {
+    method,
+    headers: { Authorization: `Bearer ${mintMockToken(as)}`, 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: res.status, body: await res.json() as Record<string, unknown> };
+}
+
+describe('fixtures', () => {
+  it('are deterministic per seed and anchored at `now`', () => {
+    const a = seedFixtures({ now: NOW, sessionsPerTenant: 10 });
+    const b = seedFixtures({ now: NOW, sessionsPerTenant: 10 });
+    expect(a.sessions).toEqual(b.sessions);
+    expect(seedFixtures({ now: NOW, sessionsPerTenant: 10, seed: 7 }).sessions).not.toEqual(a.sessions);
+    expect(a.sessions).toHaveLength(30);
+    expect(a.sessions.every((s) => Date.parse(s.startedAt) < NOW)).toBe(true);
+    expect(a.sessions.every((s) => (a.events.get(s.sessionId) ?? []).length > 0)).toBe(true);
+  });
+});
+
+describe('tenant scoping', () => {
+  it('binds tenant routes to the caller and guards foreign tenants', async () => {
+    const own = await get('/api/search/sessions?pageSize=1000', TENANT_ADMIN);
+    expect((own.body.sessions as Array<{ tenantId: string }>).every((s) => s.tenantId === CONTOSO)).toBe(true);
+    expect(own.body.count).toBe(40);
+
+    const foreignId = backend.dataset.sessions.find((s) => s.tenantId === NORTHWIND)!.sessionId;
+    expect((await get(`/api/sessions/${foreignId}?tenantId=${NORTHWIND}`, TENANT_ADMIN)).status).toBe(403);
+    expect((await get(`/api/sessions/${foreignId}`, TENANT_ADMIN)).status).toBe(404);
+    expect((await get(`/api/sessions/${foreignId}?tenantId=${NORTHWIND}`, MSP)).status).toBe(200);
+  });
+
+  it('gives platform roles every tenant on /api/global and holds delegated callers to their managed set', async () => {
+    expect((await get('/api/global/search/sessions?pageSize=1000', GA)).body.count).toBe(120);
+    expect((await get('/api/global/search/sessions', TENANT_ADMIN)).status).toBe(403);
+    expect((await get('/api/global/search/sessions', MSP)).body).toEqual({ success: false, message: 'tenantId is required for delegated access' });
+    expect((await get(`/api/global/search/sessions?tenantId=${NORTHWIND}`, MSP)).status).toBe(200);
+    expect((await get(`/api/global/raw/events?eventType=agent_started&tenantId=${MOCK_TENANTS[1].tenantId}`, MSP)).body)
+      .toEqual({ error: expect.stringMatching(/not in your delegated scope/) });
+  });
+
+  it('reports unknown callers and unserved routes explicitly', async () => {
+    expect((await fetch(`${backend.url}/api/sessions`)).status).toBe(401);
+    const unserved = await get('/api/metrics/ime-versions', GA);
+    expect(unserved).toEqual({ status: 501, body: { success: false, message: 'Not implemented by the mock backend: GET /api/metrics/ime-versions' } });
+  });
+});
+
+describe('pagination', () => {
+  const fetchAs = (as: MockUser) => async (path: string) => (await get(path, as)).body;
+
+  it('walks nextLink to exhaustion with every row exactly once and the filters preserved', async () => {
+    const base = '/api/global/search/sessions';
+    const drained = await drainPages(`${base}?status=Succeeded&pageSize=7`, base, { maxPages: 50, wallClockMs: 10_000 }, fetchAs(GA));
+    const expected = backend.dataset.sessions.filter((s) => s.status === 'Succeeded');
+    expect(drained.truncated).toBe(false);
+    expect(drained.scannedPages).toBe(Math.ceil(expected.length / 7));
+    expect((drained.items as Array<{ sessionId: string }>).map((s) => s.sessionId)).toEqual(expected.map((s) => s.sessionId));
+  });
+
+  it('rejects a continuation replayed with different filters', async () => {
+    const first = await get('/api/global/search/sessions?status=Failed&pageSize=2', GA);
+    const tampered = String(first.body.nextLink).replace('status=Failed', 'status=Succeeded');
+    expect(await get(tampered, GA)).toEqual({
+      status: 400,
+      body: { success: false, message: expect.stringMatching(/fingerprint mismatch/) },
+    });
+  });
+
+  it('serves raw rows in the PascalCase entity shape with the fields projection', async () => {
+    const page = await get('/api/global/raw/events?eventType=app_install_failed&fields=SessionId,Source&pageSize=3', GA);
+    expect(page.body.events).toHaveLength(3);
+    expect(Object.keys((page.body.events as object[])[0]).sort()).toEqual(['SessionId', 'Source']);
+    expect(page.body.nextLink).toMatch(/^\/api\/global\/raw\/events\?pageSize=3&continuation=.+&eventType=app_install_failed&fields=SessionId%2CSource$/);
+  });
+});
+
+describe('web app routes', () => {
+  it('derives dashboard stats and app metrics from the seeded sessions', async () => {
+    const { body } = await get('/api/stats/sessions?days=3650', TENANT_ADMIN);
+    const contoso = backend.dataset.sessions.filter((s) => s.tenantId === CONTOSO);
+    expect(body.stats).toMatchObject({
+      totalLastNDays: contoso.length,
+      failedLastNDays: contoso.filter((s) => s.status === 'Failed').length,
+      activeCount: contoso.filter((s) => s.status === 'InProgress').length,
+    });
+
+    const apps = (await get('/api/metrics/app?days=3650', TENANT_ADMIN)).body as { totalApps: number; topFailingApps: Array<{ topFailureCodes: Array<{ code: string }> }> };
+    expect(apps.totalApps).toBeGreaterThan(0);
+    expect(apps.topFailingApps[0].topFailureCodes[0].code).toBe('0x87D1041C');
+  });
+
+  it('applies tenant config and member writes only for the tenant admin and answers `{ error }` where the backend does', async () => {
+    expect((await send('PUT', `/api/config/${NORTHWIND}`, VIEWER, { dataRetentionDays: 30 })).status).toBe(403);
+    expect((await get('/api/config/all', TENANT_ADMIN)).status).toBe(403);
+    expect((await get(`/api/tenants/${NORTHWIND}/admins`, TENANT_ADMIN)).body).toEqual({ error: 'Tenant Admin or Global Admin role required' });
+
+    const saved = await send('PUT', `/api/config/${CONTOSO}`, TENANT_ADMIN, { dataRetentionDays: 30 });
+    expect(saved.body.config).toMatchObject({ tenantId: CONTOSO, dataRetentionDays: 30, updatedBy: TENANT_ADMIN.upn });
+    expect((await get(`/api/config/${CONTOSO}`, TENANT_ADMIN)).body.dataRetentionDays).toBe(30);
+    const audit = await get('/api/audit/logs', TENANT_ADMIN);
+    expect((audit.body.logs as Array<{ entityType: string }>)[0].entityType).toBe('TenantConfiguration');
+  });
+
+  it('runs session analysis with the tenant\'s rule toggles', async () => {
+    const isolated = await startMockBackend(0, { now: NOW, sessionsPerTenant: 40 });
+    onTestFinished(() => isolated.close());
+    const failed = isolated.dataset.sessions.find((s) => s.tenantId === CONTOSO && String(s.failureReason).startsWith('App install failed'))!;
+    const ruleIds = async () => ((await send('GET', `/api/sessions/${failed.sessionId}/analysis`, TENANT_ADMIN, undefined, isolated)).body
+      .results as Array<{ ruleId: string }>).map((r) => r.ruleId);
+
+    expect(await ruleIds()).toContain('ANALYZE-ENRL-001');
+    expect((await send('PUT', '/api/rules/analyze/ANALYZE-ENRL-001', TENANT_ADMIN, { enabled: false }, isolated)).body).toEqual({ success: true, message: 'Rule updated' });
+    expect(await ruleIds()).not.toContain('ANALYZE-ENRL-001');
+
+    const rules = (await send('GET', '/api/rules/analyze', TENANT_ADMIN, undefined, isolated)).body.rules as Array<{ ruleId: string; enabled: boolean; isBuiltIn: boolean }>;
+    expect(rules.find((r) => r.ruleId === 'ANALYZE-ENRL-001')).toMatchObject({ enabled: false, isBuiltIn: true });
+    expect((await send('DELETE', '/api/rules/analyze/ANALYZE-ENRL-001', TENANT_ADMIN, undefined, isolated)).status).toBe(400);
+  });
+
+  it('answers 503 for features that need Azure rather than faking them', async () => {
+    expect(await send('POST', '/api/global/backups/trigger', GA)).toEqual({
+      status: 503,
+      body: { success: false, message: 'Needs the Azure backend, not available against the mock backend: Backups' },
+    });
+    expect((await get('/api/global/backups', GA)).body).toEqual({ backupIds: [] });
+  });
+});
+
+describe('MCP tools end-to-end', () => {
+  type ToolHandler = (args: Record<string, unknown>, extra: unknown) => Promise<{ content?: Array<{ text?: string }>; isError?: boolean }>;
+
+  function handlerFor(name: string, ga: boolean, delegated = false): ToolHandler {
+    const server = new McpServer({ name: 'test', version: '0.0.0' });
+    registerTools(server, undefined, undefined, ga, ga, delegated);
+    return (server as unknown as { _registeredTools: Record<string, { handler: ToolHandler }> })._registeredTools[name].handler;
+  }
+
+  /** Sends the client's backend calls to the mock instead of API_BASE_URL. */
+  function routeToMock() {
+    const realFetch = globalThis.fetch;
+    vi.stubGlobal('fetch', (url: string | URL, init?: RequestInit) =>
+      realFetch(String(url).replace(API_BASE_URL, backend.url), init));
+  }
+
+  const call = async (name: string, as: MockUser, args: Record<string, unknown>) => {
+    routeToMock();
+    const caller = {
+      token: mintMockToken(as),
+      isGlobalAdmin: as.globalRole === 'GlobalAdmin',
+      upn: as.upn,
+      tenantId: as.tenantId,
+      delegatedTenantIds: as.delegatedTenantIds,
+    };
+    const delegated = !!as.delegatedTenantIds?.length;
+    const result = await runWithCaller(caller, () => handlerFor(name, caller.isGlobalAdmin, delegated)(args, { signal: new AbortController().signal }));
+    expect(result.isError).toBeFalsy();
+    return JSON.parse(result.content![0].text!) as Record<string, unknown>;
+  };
+
+  it('search_events finds seeded app install failures across tenants', async () => {
+    const data = await call('search_events', GA, { query: 'app install failed', depth: 'deep' });
+    const results = data.results as Array<{ eventType: string; sessionId: string }>;
+    expect(results.length).toBeGreaterThan(0);
+    expect(results[0].eventType).toBe('app_install_failed');
+    const failedIds = new Set(backend.dataset.sessions.filter((s) => s.status === 'Failed').map((s) => s.sessionId));
+    expect(results.every((r) => failedIds.has(r.sessionId))).toBe(true);
+  });
+
+  it('get_session_summary combines the session, its events and rule analysis for a tenant admin', async () => {
+    const failed = backend.dataset.sessions.find((s) => s.tenantId === CONTOSO && String(s.failureReason).startsWith('App install failed'))!;
+    const data = await call('get_session_summary', TENANT_ADMIN, { sessionId: failed.sessionId }) as {
+      overview: { device: { serialNumber: string } };
+      analysis: { issues: Array<{ ruleTitle: string }> };
+    };
+    expect(data.overview.device.serialNumber).toBe(failed.serialNumber);
+    // Real rules from rules/analyze, evaluated by the mock over the seeded events.
+    expect(data.analysis.issues.map((i) => i.ruleTitle)).toEqual(['Win32 App Detection Script Failure', 'Enrollment Failed']);
+  });
+
+  it('get_session_incident_report renders the failed app, fired rules and a missing vulnerability report', async () => {
+    const failed = backend.dataset.sessions.find((s) => s.tenantId === CONTOSO && String(s.failureReason).startsWith('App install failed'))!;
+    const md = await call('get_session_incident_report', TENANT_ADMIN, { sessionId: failed.sessionId, format: 'markdown' }) as { format: string; report: string };
+    expect(md.format).toBe('markdown');
+    expect(md.report).toContain(`| Serial number | ${failed.serialNumber} |`);
+    expect(md.report).toMatch(/## Failing apps\n\n\| App \| Error code .*\n.*\n\| .+ \| 0x87D1041C \| NotDetected \| 1 \|/);
+    expect(md.report).toContain('Win32 App Detection Script Failure');
+    // The mock stores no vulnerability reports; the rest of the report still renders.
+    expect(md.report).toContain('_No vulnerability report for this session._');
+
+    const html = await call('get_session_incident_report', TENANT_ADMIN, { sessionId: failed.sessionId, format: 'html' }) as { report: string };
+    expect(html.report.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html.report).toContain('<h2>Failing apps</h2>');
+  });
+
+  it('dry_run_analyze_rule skips a session whose events cannot be read instead of failing the run', async () => {
+    const rulesRoot = resolve(dirname(fileURLToPath(import.meta.url)), '..', '..', '..', '..', '..', 'rules');
+    const rule = JSON.parse(readFileSync(join(rulesRoot, 'analyze', 'ANALYZE-APP-012.json'), 'utf-8'));
+    // The first session's events answer 404 (deleted between the list and the fetch); the rest pass through.
+    const realFetch = globalThis.fetch;
+    let failed = 0;
+    vi.stubGlobal('fetch', (url: string | URL, init?: RequestInit) =>
+      /\/api\/sessions\/[^/]+\/events/.test(String(url)) && failed++ === 0
+        ? Promise.resolve(new Response(JSON.stringify({ success: false, message: 'Session not found' }), { status: 404 }))
+        : realFetch(url, init));
+
+    const data = await call('dry_run_analyze_rule', TENANT_ADMIN, { rule, maxSessions: 5 });
+    expect(data).toMatchObject({
+      valid: true,
+      sessionsEvaluated: 4,
+      sessionsWithUnavailableEvents: 1,
+      sessionsNotEvaluated: 0,
+      truncated: true,
+      // maxSessions=5 fits in the first 200-row page — no further page is fetched.
+      scannedPages: 1,
+    });
+  });
+
+  it('cluster_failures reads every events page, so lastPhase comes from the end of the stream', async () => {
+    const args = { startedAfter: '2020-01-01T00:00:00Z', maxSessions: 500, maxClusters: 15, includeEvents: true };
+    const whole = await call('cluster_failures', TENANT_ADMIN, args);
+
+    // Same sweep with 3-event pages: the tool must follow nextLink to the last page of each session.
+    const realFetch = globalThis.fetch;
+    let eventPages = 0;
+    vi.stubGlobal('fetch', (url: string | URL, init?: RequestInit) => {
+      if (!/\/api\/sessions\/[^/]+\/events/.test(String(url))) return realFetch(url, init);
+      eventPages++;
+      return realFetch(String(url).replace('pageSize=1000', 'pageSize=3'), init);
+    });
+    const paged = await call('cluster_failures', TENANT_ADMIN, args);
+
+    expect(eventPages).toBeGreaterThan(Number(whole.sessionsClustered));
+    expect(paged).toMatchObject({ sessionsWithTruncatedEvents: 0, eventsUnavailable: 0 });
+    expect(paged.clusters).toEqual(whole.clusters);
+  });
+
+  it('get_enrollment_trends stops the app-failure walk once the tenant index has passed the window', async () => {
+    const from = new Date(NOW - 7 * 86_400_000).toISOString();
+    const args = {
+      bucket: 'day', startedAfter: from, startedBefore: new Date(NOW).toISOString(), method: 'zscore',
+      threshold: 3, minSessions: 5, includeApps: true, maxApps: 5,
+    };
+    // Backend order: newest sessions first, out-of-window events dropped per page — page 2 holds
+    // only sessions from before the window, and page 3 must never be fetched.
+    const realFetch = globalThis.fetch;
+    const eventPages: string[] = [];
+    vi.stubGlobal('fetch', (url: string | URL, init?: RequestInit) => {
+      const u = new URL(String(url));
+      if (u.pathname !== '/api/raw/events') return realFetch(url, init);
+      eventPages.push(u.search);
+      const page = Number(u.searchParams.get('continuation') ?? 1);
+      const events = page === 1
+        ? [{ SessionId: 'recent', Source: 'Contoso VPN', Timestamp: new Date(NOW - 86_400_000).toISOString() }]
+        : [];
+      return Promise.resolve(Response.json({ count: events.length, events, nextLink: `/api/raw/events?continuation=${page + 1}` }));
+    });
+    const data = await call('get_enrollment_trends', TENANT_ADMIN, args);
+
+    expect(eventPages).toHaveLength(2);
+    expect(eventPages[0]).toContain('pageSize=200');
+    expect(data).toMatchObject({ truncated: false, coveredFrom: from, appFailureEventsScanned: 1 });
+  });
+
+  it('benchmark_tenants ranks an MSP\'s managed tenants and anonymizes all but the focus one', async () => {
+    // The window counts back from now; pin the clock (Date only — timers stay real) to the seed's now.
+    vi.useFakeTimers({ toFake: ['Date'], now: NOW });
+    onTestFinished(() => { vi.useRealTimers(); });
+    const args = { days: 30, anonymize: true, focusTenantId: NORTHWIND, minSessions: 10, topApps: 3 };
+    const data = await call('benchmark_tenants', MSP, args) as {
+      pool: { tenants: number; terminalSessions: number };
+      tenants: Array<{ label: string; tenantId: string | null; isFocus: boolean; rank: number | null; topFailingApps: unknown[] | null }>;
+    };
+    // No tenantIds: defaults to the MSP's managed set (Contoso, Northwind), never Fabrikam.
+    expect(data.pool.tenants).toBe(2);
+    expect(data.tenants.map((t) => t.isFocus).sort()).toEqual([false, true]);
+    const peer = data.tenants.find((t) => !t.isFocus)!;
+    expect(peer).toMatchObject({ label: 'Peer 1', tenantId: null });
+    expect(data.tenants.find((t) => t.isFocus)!.tenantId).toBe(NORTHWIND);
+    expect(data.tenants.every((t) => t.rank !== null && Array.isArray(t.topFailingApps))).toBe(true);
+    expect(JSON.stringify(data)).not.toContain(CONTOSO);
+
+    routeToMock();
+    const caller = { token: mintMockToken(MSP), isGlobalAdmin: false, delegatedTenantIds: MSP.delegatedTenantIds };
+    const outside = await runWithCaller(caller, () => handlerFor('benchmark_tenants', false, true)(
+      { ...args, tenantIds: [CONTOSO, MOCK_TENANTS[1].tenantId] }, { signal: new AbortController().signal }));
+    expect(outside.isError).toBe(true);
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * OData filter validation (odata-filter.ts): parsing, schema checks, rewrites of common mistakes,
+ * the structured `where` form, client-side evaluation, and the query_table / query_raw_events
+ * wiring. Tool tests stub fetch (query_table) or run against the mock backend (query_raw_events).
+ */
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from 'vitest';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+import { existsSync, readFileSync } from 'node:fs';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { API_BASE_URL } from '../config.js';
+import { runWithCaller } from '../client.js';
+import { matchesFilter, ODataFilterError, prepareFilter } from '../odata-filter.js';
+import { TABLE_SCHEMAS } from '../table-schemas.js';
+import { invokeRegisteredTool, registerTools } from '../tools.js';
+import { MOCK_USERS, mintMockToken } from '../mock-backend/fixtures.js';
+import { startMockBackend, type RunningMockBackend } from '../mock-backend/server.js';
+
+const prep = (table: string, filter: string) => prepareFilter({ table, filter })!;
+const rejects = (table: string, filter: string) => {
+  try {
+    prepareFilter({ table, filter });
+  } catch (err) {
+    expect(err).toBeInstanceOf(ODataFilterError);
+    return (err as Error).message;
+  }
+  throw new Error(`expected "${filter}" to be rejected`);
+};
+
+describe('prepareFilter', () => {
+  it('passes a valid filter through unchanged with no rewrites', () => {
+    const p = prep('Sessions', "Status eq 'Failed' and StartedAt ge datetime'2026-01-15T00:00:00Z'");
+    expect(p.filter).toBe("Status eq 'Failed' and StartedAt ge datetime'2026-01-15T00:00:00Z'");
+    expect(p.rewrites).toEqual([]);
+    expect(p.columns).toEqual(['Status', 'StartedAt']);
+  });
+
+  it('rewrites symbolic operators, double quotes, column case and quoted dates', () => {
+    const p = prep('Sessions', 'status == "Failed" && StartedAt >= \'2026-01-01\'');
+    expect(p.filter).toBe("Status eq 'Failed' and StartedAt ge datetime'2026-01-01T00:00:00Z'");
+    expect(p.rewrites).toEqual(expect.arrayContaining([
+      expect.stringContaining('"==" → "eq"'),
+      expect.stringContaining('double-quoted strings'),
+      expect.stringContaining('status → Status'),
+      expect.stringContaining("StartedAt '2026-01-01' → datetime'2026-01-01T00:00:00Z'"),
+    ]));
+  });
+
+  it('types literals to the column: Int64 suffix, enum names, numeric strings, GUID strings', () => {
+    expect(prep('Events', "Sequence gt 5 and Severity eq 'error' and Phase le '3'").filter)
+      .toBe('Sequence gt 5L and Severity eq 3 and Phase le 3');
+    expect(prep('Sessions', "TenantId eq guid'11111111-2222-3333-4444-555555555555'").filter)
+      .toBe("TenantId eq '11111111-2222-3333-4444-555555555555'");
+    expect(prep('Sessions', 'OsBuild eq 26100 and IsHybridJoin eq \'true\'').filter).toBe("OsBuild eq '26100' and IsHybridJoin eq true");
+  });
+
+  it('desugars startswith, in, bare booleans and literal-first comparisons', () => {
+    expect(prep('Sessions', "startswith(DeviceName,'LAB-')").filter).toBe("DeviceName ge 'LAB-' and DeviceName lt 'LAB.'");
+    expect(prep('Sessions', "Status in ('Failed','Stalled') and IsHybridJoin").filter)
+      .toBe("(Status eq 'Failed' or Status eq 'Stalled') and IsHybridJoin eq true");
+    expect(prep('Sessions', '5 < EventCount').filter).toBe('EventCount gt 5');
+  });
+
+  it('keeps precedence and not() when serializing', () => {
+    expect(prep('Sessions', "not (Status eq 'Failed' or Status eq 'Stalled') and EventCount gt 0").filter)
+      .toBe("not (Status eq 'Failed' or Status eq 'Stalled') and EventCount gt 0");
+    expect(prep('Sessions', "Status eq 'O''Brien'").filter).toBe("Status eq 'O''Brien'");
+  });
+
+  it('rejects unknown columns with a suggestion and a caret at the position', () => {
+    const msg = rejects('Sessions', "EventCount gt 1 and Stauts eq 'Failed'");
+    expect(msg).toMatch(/^Invalid OData filter at position 20: Sessions has no column "Stauts"\. Did you mean: Status\?/);
+    expect(msg.split('\n').slice(1)).toEqual(["  EventCount gt 1 and Stauts eq 'Failed'", `  ${' '.repeat(20)}^`]);
+  });
+
+  it('points literal type errors at the literal and suggests an integer that keeps the comparison', () => {
+    const msg = rejects('Sessions', 'EventCount eq true');
+    expect(msg).toMatch(/^Invalid OData filter at position 14: EventCount is an Int32 column; true is a Boolean\./);
+    expect(msg.split('\n')[2]).toBe(`  ${' '.repeat(14)}^`);
+    expect(rejects('Sessions', 'EventCount in (1, true)')).toMatch(/position 18: /);
+    expect(rejects('Sessions', "5 lt EventCount and EventCount eq 'x'")).toMatch(/position 34: /);
+    expect(rejects('Sessions', 'EventCount gt 100.5')).toMatch(/Use an integer: EventCount gt 100\.$/m);
+    expect(rejects('Sessions', 'EventCount ge 100.5')).toMatch(/Use an integer: EventCount ge 101\.$/m);
+    expect(rejects('Sessions', 'RebootCount lt 2.5')).toMatch(/Use an integer: RebootCount lt 3\.$/m);
+  });
+
+  it('rejects what Table Storage cannot do, saying what to do instead', () => {
+    expect(rejects('Sessions', "contains(DeviceName,'LAB')")).toMatch(/contains\(\) is not supported by Azure Table Storage: there is no substring search/);
+    expect(rejects('Sessions', 'FailureReason eq null')).toMatch(/does not support null comparisons/);
+    expect(rejects('Sessions', 'EventCount gt StartedAt')).toMatch(/cannot compare two columns/);
+    expect(rejects('Events', "Severity eq 'Fatal'")).toMatch(/'Fatal' is not one of Trace=-1, Debug=0, Info=1, Warning=2, Error=3, Critical=4/);
+    expect(rejects('Sessions', "StartedAt ge 'last week'")).toMatch(/StartedAt is a DateTime column; 'last week' is a String\. Use StartedAt ge datetime'/);
+    expect(rejects('Sessions', "Status eq 'Failed")).toMatch(/position 10: unterminated string literal/);
+    expect(rejects('Sessions', "Status eq 'Failed' and")).toMatch(/found the end of the filter/);
+    const many = Array.from({ length: 16 }, (_, i) => `EventCount ne ${i}`).join(' and ');
+    expect(rejects('Sessions', many)).toMatch(/16 comparisons .* at most 15/);
+  });
+
+  it('checks syntax and literals but not column names on unlisted tables', () => {
+    expect(prep('AuditLogs', 'Anything eq 3 and At ge 2026-03-01T10:00:00Z').filter).toBe("Anything eq 3 and At ge datetime'2026-03-01T10:00:00Z'");
+    expect(prep('DeviceSnapshot', "Props_hardware_spec ne ''").filter).toBe("Props_hardware_spec ne ''");
+    expect(rejects('AuditLogs', "At ge datetime'yesterday'")).toMatch(/not an ISO 8601 date/);
+  });
+
+  it('builds OData from structured where clauses, AND-ed with any filter', () => {
+    const p = prepareFilter({
+      table: 'Sessions',
+      filter: 'EventCount gt 10',
+      where: [
+        { column: 'Status', op: 'in', value: ['Failed', 'Stalled'] },
+        { column: 'StartedAt', op: 'ge', value: '2026-02-01' },
+        { column: 'DeviceName', op: 'startsWith', value: 'LAB-' },
+      ],
+    })!;
+    expect(p.filter).toBe("EventCount gt 10 and (Status eq 'Failed' or Status eq 'Stalled') and StartedAt ge datetime'2026-02-01T00:00:00Z' and DeviceName ge 'LAB-' and DeviceName lt 'LAB.'");
+    expect(() => prepareFilter({ table: 'Sessions', where: [{ column: 'Status', op: 'eq', value: ['a'] }] }))
+      .toThrow('Invalid where[0] (Status eq): a list value needs op "in", not "eq".');
+    expect(prepareFilter({ table: 'Sessions' })).toBeUndefined();
+  });
+});
+
+describe('matchesFilter', () => {
+  it('evaluates with Table Storage semantics', () => {
+    const { expression } = prep('Events', "Severity ge 'Warning' and startswith(EventType,'app_') and Timestamp lt '2026-03-02'");
+    expect(matchesFilter(expression, { Severity: 3, EventType: 'app_install_failed', Timestamp: '2026-03-01T08:00:00Z' })).toBe(true);
+    expect(matchesFilter(expression, { Severity: 1, EventType: 'app_install_failed', Timestamp: '2026-03-01T08:00:00Z' })).toBe(false);
+    expect(matchesFilter(expression, { Severity: 3, EventType: 'esp_failure', Timestamp: '2026-03-01T08:00:00Z' })).toBe(false);
+    // A missing property never matches a comparison.
+    expect(matchesFilter(prep('Events', 'CausedBySignalOrdinal ne 4').expression, {})).toBe(false);
+  });
+});
+
+describe('table schemas', () => {
+  it('names only tables that exist in Constants.TableNames', () => {
+    let dir = dirname(fileURLToPath(import.meta.url));
+    while (!existsSync(join(dir, 'AutopilotMonitor.sln')) && dirname(dir) !== dir) dir = dirname(dir);
+    const constants = join(dir, 'src', 'Shared', 'AutopilotMonitor.Shared', 'Constants.cs');
+    if (!existsSync(constants)) return; // isolated package — nothing to compare against
+    const source = readFileSync(constants, 'utf-8');
+    const body = source.slice(source.indexOf('class TableNames'));
+    const tables = new Set([...body.matchAll(/public const string \w+\s*=\s*"(\w+)"/g)].map((m) => m[1]));
+    expect(Object.keys(TABLE_SCHEMAS).filter((t) => !tables.has(t))).toEqual([]);
+  });
+});
+
+describe('tool wiring', () => {
+  const ga = MOCK_USERS.find((u) => u.globalRole === 'GlobalAdmin')!;
+  const caller = { token: mintMockToken(ga), upn: ga.upn, isGlobalAdmin: true };
+
+  async function call(tool: string, args: Record<string, unknown>) {
+    const server = new McpServer({ name: 'test', version: '0.0.0' });
+    registerTools(server, undefined, undefined, true, true, false);
+    const result = await runWithCaller(caller, () => invokeRegisteredTool(server, tool, args));
+    const first = result.content[0];
+    return { isError: result.isError, text: first?.type === 'text' ? first.text : '' };
+  }
+
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('query_table sends the normalized filter and reports the rewrites', async () => {
+    const urls: string[] = [];
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+      urls.push(String(url));
+      return new Response(JSON.stringify({ table: 'Sessions', count: 0, entities: [], nextLink: null }), { status: 200 });
+    }));
+    const res = await call('query_table', { tableName: 'Sessions', filter: 'status == "Failed"', where: [{ column: 'EventCount', op: 'gt', value: 100 }] });
+    expect(new URL(urls[0]).searchParams.get('filter')).toBe("Status eq 'Failed' and EventCount gt 100");
+    expect(JSON.parse(res.text)).toMatchObject({ appliedFilter: "Status eq 'Failed' and EventCount gt 100", filterRewrites: expect.any(Array) });
+  });
+
+  it('query_table rejects an invalid filter without calling the backend', async () => {
+    const fetchSpy = vi.fn();
+    vi.stubGlobal('fetch', fetchSpy);
+    const res = await call('query_table', { tableName: 'Events', filter: "contains(Message,'0x80070')" });
+    expect(res.isError).toBe(true);
+    expect(res.text).toMatch(/contains\(\) is not supported/);
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  describe('query_raw_events against the mock backend', () => {
+    let backend: RunningMockBackend;
+    beforeAll(async () => { backend = await startMockBackend(0, { now: Date.parse('2026-03-02T12:00:00Z'), sessionsPerTenant: 10 }); });
+    afterAll(async () => { await backend.close(); });
+
+    it('filters each page client-side and keeps the caller\'s projection', async () => {
+      const realFetch = globalThis.fetch;
+      vi.stubGlobal('fetch', (url: string | URL, init?: RequestInit) => realFetch(String(url).replace(API_BASE_URL, backend.url), init));
+      const session = backend.dataset.sessions[0];
+      const res = await call('query_raw_events', {
+        sessionId: session.sessionId, tenantId: session.tenantId, fields: 'EventType', filter: "Phase == 'DeviceSetup'",
+      });
+      const data = JSON.parse(res.text) as { events: Record<string, unknown>[]; count: number; appliedFilter: string };
+      expect(data.appliedFilter).toBe('Phase eq 2');
+      const expected = (backend.dataset.events.get(session.sessionId) ?? []).filter((e) => e.phase === 2);
+      expect(expected.length).toBeGreaterThan(0);
+      expect(data.events.map((e) => e.EventType)).toEqual(expected.map((e) => e.eventType));
+      expect(data.count).toBe(expected.length);
+      // Phase was fetched only so the filter could read it.
+      for (const row of data.events) expect(row).not.toHaveProperty('Phase');
+    });
+  });
+});
@@ -5,7 +5,7 @@
  * are fake vectors; nothing here loads the transformer.
  */
 import { describe, it, expect } from 'vitest';
-import { hashDocs, validatePrecomputedIndex, type PrecomputedIndexFile } from '../precomputed-index.js';
+import { hashDocs, seedableEntries, validatePrecomputedIndex, type PrecomputedIndexFile } from '../precomputed-index.js';
 import { VectorSearchProvider, type PrecomputedDocument } from '../vector-search-provider.js';
 import type { SearchDocument } from '../search-provider.js';
 
@@ -106,6 +106,21 @@ describe('validatePrecomputedIndex', () => {
   });
 });
 
+describe('seedableEntries', () => {
+  it('salvages vectors from a stale file built with the same model', () => {
+    const stale = validFile();
+    stale.knowledgeBase.docsHash = 'stale';
+    expect(validatePrecomputedIndex(stale, MODEL, KB_DOCS, ET_DOCS).ok).toBe(false);
+    expect(seedableEntries(stale, MODEL).map((e) => e.id)).toEqual(['rule-1', 'rule-2', 'et-1']);
+  });
+
+  it('never reuses vectors from another model or a malformed file', () => {
+    expect(seedableEntries(validFile(), 'other/model')).toEqual([]);
+    expect(seedableEntries({ model: MODEL, knowledgeBase: { entries: 'nope' } }, MODEL)).toEqual([]);
+    expect(seedableEntries(null, MODEL)).toEqual([]);
+  });
+});
+
 describe('VectorSearchProvider serialize/hydrate roundtrip', () => {
   it('indexPrecomputed restores exactly what serialize exported, without the model', () => {
     const source = new VectorSearchProvider();
@@ -0,0 +1,201 @@
+/**
+ * Declarative prompt library: the shipped prompts/ folder (schema-valid, every planned tool exists
+ * for the roles that see it), template rendering, typed argument validation, tenant-specific
+ * visibility, and validation failures / hot reload over a temp folder.
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import { copyFileSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { PROMPTS_DIR } from '../config.js';
+import { registerTools } from '../tools.js';
+import { registerPrompts } from '../prompts.js';
+import {
+  PromptLibraryError,
+  getPromptLibrary,
+  loadPromptLibrary,
+  renderPrompt,
+  renderTemplate,
+  setPromptLibrary,
+  watchPromptLibrary,
+  type PromptLibraryWatcher,
+} from '../prompt-library.js';
+
+const SID = 'e259c121-1234-4abc-9def-0123456789ab';
+
+function toolNames(ga: boolean): Set<string> {
+  const server = new McpServer({ name: 'test', version: '0.0.0' });
+  registerTools(server, undefined, undefined, ga, ga, false);
+  return new Set(Object.keys((server as unknown as { _registeredTools: Record<string, unknown> })._registeredTools));
+}
+
+interface CapturedPrompt {
+  config: { argsSchema: Record<string, z.ZodTypeAny> };
+  handler: (args: Record<string, string | undefined>) => { messages: Array<{ content: { text: string } }>; _meta: unknown };
+}
+
+function capturePrompts(ga: boolean, tenants: string[] = [], library = getPromptLibrary()): Record<string, CapturedPrompt> {
+  const prompts: Record<string, CapturedPrompt> = {};
+  const fake = {
+    registerPrompt: (name: string, config: CapturedPrompt['config'], handler: CapturedPrompt['handler']) => {
+      prompts[name] = { config, handler };
+    },
+  };
+  registerPrompts(fake as never, ga, tenants, library);
+  return prompts;
+}
+
+let root: string | undefined;
+let watcher: PromptLibraryWatcher | undefined;
+afterEach(() => {
+  watcher?.close();
+  if (root) rmSync(root, { recursive: true, force: true });
+  watcher = undefined;
+  root = undefined;
+  setPromptLibrary(undefined);
+});
+
+function tempLibrary(files: Record<string, string>): string {
+  root = mkdtempSync(join(tmpdir(), 'prompts-'));
+  mkdirSync(join(root, 'schema'));
+  copyFileSync(join(PROMPTS_DIR, 'schema', 'prompt.schema.json'), join(root, 'schema', 'prompt.schema.json'));
+  for (const [name, text] of Object.entries(files)) writeFileSync(join(root, name), text);
+  return root;
+}
+
+const minimal = (name: string, extra = '') => `name: ${name}\nversion: 1\ntitle: T\ndescription: D\nintro: Hello\n${extra}`;
+
+describe('shipped prompt library', () => {
+  it('loads every prompt file', () => {
+    expect(getPromptLibrary().prompts.map((p) => p.name)).toEqual([
+      'compare-agent-versions',
+      'cve-exposure-audit',
+      'debug-session',
+      'hybrid-join-triage',
+      'investigate-failed-session',
+      'kiosk-rollout-check',
+    ]);
+  });
+
+  it('only plans tools the prompt audience can see', () => {
+    const ga = toolNames(true);
+    const tenant = toolNames(false);
+    for (const prompt of getPromptLibrary().prompts) {
+      for (const step of prompt.steps) {
+        const catalog = prompt.gaOnly || step.gaOnly ? ga : tenant;
+        for (const tool of step.tools) expect(catalog.has(tool), `${prompt.name} plans unknown tool ${tool}`).toBe(true);
+      }
+    }
+  });
+
+  it('hides GA-only prompts and steps from tenant users', () => {
+    expect(Object.keys(capturePrompts(false))).not.toContain('compare-agent-versions');
+    expect(Object.keys(capturePrompts(true))).toContain('compare-agent-versions');
+
+    const tenantText = capturePrompts(false)['debug-session'].handler({ sessionId: SID }).messages[0].content.text;
+    const gaText = capturePrompts(true)['debug-session'].handler({ sessionId: SID }).messages[0].content.text;
+    expect(tenantText).not.toContain('query_backend_logs');
+    expect(gaText).toContain('4. If the problem looks like a backend ingest/upload issue');
+  });
+
+  it('renders conditional sections, defaults and the version', () => {
+    const debug = capturePrompts(false)['debug-session'].handler({ sessionId: SID, tenantId: 't1', question: 'why?' });
+    expect(debug.messages[0].content.text).toMatch(
+      new RegExp(`^Debug enrollment session ${SID} \\(tenant t1\\)\\. Focus: why\\?\\.\n\nDo a correlated`),
+    );
+    expect(debug.messages[0].content.text).toContain(`1. Call get_session_summary(sessionId="${SID}", tenantId="t1") first`);
+    expect(debug._meta).toEqual({ 'autopilot-monitor/prompt': { name: 'debug-session', version: 1 } });
+
+    const cve = (ga: boolean, args: Record<string, string>) =>
+      capturePrompts(ga)['cve-exposure-audit'].handler(args).messages[0].content.text.split('\n')[0];
+    expect(cve(true, { cveId: 'CVE-2024-1' })).toBe('Audit fleet exposure to CVE-2024-1 across all tenants.');
+    expect(cve(false, { cveId: 'CVE-2024-1' })).toBe('Audit fleet exposure to CVE-2024-1 in your tenant.');
+    expect(cve(true, { cveId: 'CVE-2024-1', tenantId: 't1' })).toBe('Audit fleet exposure to CVE-2024-1 within tenant t1.');
+
+    const compare = capturePrompts(true)['compare-agent-versions'].handler({}).messages[0].content.text;
+    expect(compare).toContain('1. Call get_platform_metrics(days=30)');
+  });
+
+  it('validates typed arguments on the wire strings', () => {
+    const schema = (name: string, ga = true) => z.object(capturePrompts(ga)[name].config.argsSchema);
+    expect(schema('compare-agent-versions').safeParse({ days: '7' }).success).toBe(true);
+    expect(schema('compare-agent-versions').safeParse({}).success).toBe(true);
+    expect(schema('compare-agent-versions').safeParse({ days: '0' }).error?.issues[0].message).toBe('days must be at least 1');
+    expect(schema('compare-agent-versions').safeParse({ days: 'week' }).success).toBe(false);
+    expect(schema('debug-session').safeParse({ sessionId: 'not-a-uuid' }).success).toBe(false);
+    expect(schema('debug-session').safeParse({}).success).toBe(false);
+    // GA wording differs from the tenant description.
+    expect(schema('debug-session', true).shape.tenantId.description).toContain('Global Admin');
+    expect(schema('debug-session', false).shape.tenantId.description).toBe('Optional tenant ID. Defaults to your tenant.');
+  });
+});
+
+describe('renderTemplate', () => {
+  it('treats empty and "false" as unset and nests sections', () => {
+    const t = '{{#a}}A{{#b}}+B{{/b}}{{^b}}-B{{/b}}{{/a}}{{^a}}none{{/a}}';
+    expect(renderTemplate(t, { a: 'x', b: 'y' })).toBe('A+B');
+    expect(renderTemplate(t, { a: 'x', b: 'false' })).toBe('A-B');
+    expect(renderTemplate(t, { a: '' })).toBe('none');
+  });
+});
+
+describe('loadPromptLibrary', () => {
+  it('reports every schema and semantic problem with its file', () => {
+    const dir = tempLibrary({
+      'a.yaml': minimal('alpha', 'colour: red\n'),
+      'b.yaml': minimal('beta', 'steps:\n  - text: "Use {{missing}} and {{#ga}}x"\n'),
+      'c.json': JSON.stringify({ name: 'alpha', version: 1, title: 'T', description: 'D', intro: 'Hi' }),
+      'd.yml': minimal('delta', 'arguments:\n  - name: days\n    type: integer\n    min: 5\n    default: 2\n    description: Days\n'),
+      'notes.txt': 'ignored',
+    });
+    try {
+      loadPromptLibrary(dir);
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(PromptLibraryError);
+      expect((err as PromptLibraryError).problems).toEqual([
+        'a.yaml: (prompt): unknown property "colour"',
+        'b.yaml: steps/0: {{#ga}} is never closed',
+        'd.yml: argument "days": default must be at least 5',
+      ]);
+    }
+    writeFileSync(join(dir, 'a.yaml'), minimal('alpha'));
+    writeFileSync(join(dir, 'b.yaml'), minimal('beta', 'steps:\n  - text: "Use {{missing}}"\n'));
+    rmSync(join(dir, 'd.yml'));
+    expect(() => loadPromptLibrary(dir)).toThrow(/b\.yaml: steps\/0: \{\{missing\}\} is not a declared argument[\s\S]*c\.json: prompt name "alpha" is already defined in a\.yaml/);
+  });
+
+  it('offers tenant-specific playbooks only to matching tenants', () => {
+    const library = loadPromptLibrary(tempLibrary({
+      'kiosk.yaml': minimal('store-kiosk', 'tenantIds: [Contoso-ID]\n'),
+      'common.yaml': minimal('common'),
+    }));
+    expect(Object.keys(capturePrompts(false, ['other'], library))).toEqual(['common']);
+    expect(Object.keys(capturePrompts(false, ['other', 'contoso-id'], library))).toEqual(['common', 'store-kiosk']);
+    expect(Object.keys(capturePrompts(true, [], library))).toEqual(['common', 'store-kiosk']);
+  });
+});
+
+describe('watchPromptLibrary', () => {
+  it('swaps in a valid library and keeps the current one on a broken reload', () => {
+    const dir = tempLibrary({ 'a.yaml': minimal('alpha') });
+    setPromptLibrary(loadPromptLibrary(dir));
+    watcher = watchPromptLibrary(dir, { debounceMs: 10_000 });
+
+    writeFileSync(join(dir, 'b.yaml'), minimal('beta'));
+    expect(watcher.reloadNow()?.prompts.map((p) => p.name)).toEqual(['alpha', 'beta']);
+
+    writeFileSync(join(dir, 'b.yaml'), 'name: beta\nversion: one\n');
+    expect(watcher.reloadNow()).toBeNull();
+    expect(getPromptLibrary().prompts.map((p) => p.name)).toEqual(['alpha', 'beta']);
+  });
+
+  it('renders a file-defined prompt end to end', () => {
+    const library = loadPromptLibrary(tempLibrary({
+      'p.yaml': minimal('p', 'arguments:\n  - name: mode\n    type: enum\n    values: [fast, deep]\n    default: fast\n    description: Mode\nsteps:\n  - text: "Search ({{mode}})"\nreport: Done.\n'),
+    }));
+    expect(renderPrompt(library.prompts[0], {}, false)).toBe('Hello\n\n1. Search (fast)\n\nDone.');
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { summarizeDryRun, validateAnalyzeRule, type DryRunSessionResult } from '../rule-dry-run.js';
+import { evaluateAnalyzeRule, type EvaluableRule, type EvaluatorEvent } from '../rule-evaluator.js';
+
+const RULES_ROOT = resolve(dirname(fileURLToPath(import.meta.url)), '..', '..', '..', '..', '..', 'rules');
+const loadRule = (id: string) =>
+  JSON.parse(readFileSync(join(RULES_ROOT, 'analyze', `${id}.json`), 'utf-8')) as EvaluableRule;
+
+let seq = 0;
+const ev = (timestamp: string, eventType: string, data: Record<string, unknown> = {}): EvaluatorEvent =>
+  ({ eventId: `e${++seq}`, eventType, timestamp, sequence: seq, message: '', data });
+
+describe('validateAnalyzeRule', () => {
+  it('accepts a shipped rule', () => {
+    expect(validateAnalyzeRule(loadRule('ANALYZE-APP-012'), RULES_ROOT)).toEqual([]);
+  });
+
+  it('reports each schema violation with its JSON path', () => {
+    const { conditions: _omit, ...rule } = { ...loadRule('ANALYZE-APP-012'), ruleId: 'app-12', typo: 1 };
+    const errors = validateAnalyzeRule(rule, RULES_ROOT);
+    expect(errors).toEqual(expect.arrayContaining([
+      expect.stringMatching(/^\/ruleId: /),
+      expect.stringMatching(/conditions/),
+      '(rule): unknown property "typo"',
+    ]));
+  });
+});
+
+describe('summarizeDryRun', () => {
+  const rule: EvaluableRule = {
+    ruleId: 'ANALYZE-TEST-001',
+    title: 'Proxy auth',
+    explanation: 'Proxy returned {{statusCode}}.',
+    conditions: [
+      { signal: 'proxy_407', source: 'event_data', eventType: 'network_error', dataField: 'statusCode', operator: 'equals', value: '407', required: true },
+    ],
+  };
+  const run = (sessionId: string, events: EvaluatorEvent[]): DryRunSessionResult =>
+    ({ sessionId, model: 'Surface Pro 9', evaluation: evaluateAnalyzeRule(rule, events) });
+
+  it('computes hit rate, outcomes and interpolated examples', () => {
+    const summary = summarizeDryRun(rule, [
+      run('s1', [ev('2024-01-01T10:00:00Z', 'network_error', { statusCode: 407 })]),
+      run('s2', [ev('2024-01-01T10:00:00Z', 'network_error', { statusCode: 500 })]),
+      run('s3', []),
+    ]);
+    expect(summary).toEqual(expect.objectContaining({
+      sessionsEvaluated: 3,
+      fired: 1,
+      hitRate: 0.333,
+      conditionMatchCounts: { proxy_407: 1 },
+      confidenceDistribution: [{ range: '50-59', count: 1 }],
+      matchedSessionsTruncated: false,
+    }));
+    expect(summary.outcomes.required_condition_failed).toBe(2);
+    expect(summary.matchedSessions).toEqual([{ sessionId: 's1', model: 'Surface Pro 9', confidence: 50, status: undefined, tenantId: undefined }]);
+    expect(summary.examples[0].explanation).toBe('Proxy returned 407.');
+  });
+
+  it('reports a zero hit rate for an empty sample', () => {
+    expect(summarizeDryRun(rule, []).hitRate).toBe(0);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync, readdirSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { evaluateAnalyzeRule, evaluateAnalyzeRules, type EvaluableRule, type EvaluatorEvent } from '../rule-evaluator.js';
+
+const RULES_DIR = resolve(dirname(fileURLToPath(import.meta.url)), '..', '..', '..', '..', '..', 'rules', 'analyze');
+const loadRule = (id: string) => JSON.parse(readFileSync(join(RULES_DIR, `${id}.json`), 'utf-8')) as EvaluableRule;
+
+let seq = 0;
+const ev = (timestamp: string, eventType: string, data: Record<string, unknown> = {}): EvaluatorEvent =>
+  ({ eventId: `e${++seq}`, eventType, timestamp, sequence: seq, message: '', data });
+
+describe('evaluateAnalyzeRule (MCP mirror)', () => {
+  it('fires a shipped correlation rule with backend-shaped evidence', () => {
+    const result = evaluateAnalyzeRule(loadRule('ANALYZE-APP-012'), [
+      ev('2024-01-01T10:00:00Z', 'app_install_failed', { appId: 'app-1', errorPatternId: 'IME-ERROR-UNMAPPED-EXIT' }),
+      ev('2024-01-01T10:01:00Z', 'app_install_completed', { appId: 'app-1' }),
+    ]);
+    expect(result.outcome).toBe('fired');
+    expect(result.confidence).toBe(80);
+    expect(result.matchedConditions.enforcement_error_resolved).toEqual(
+      expect.objectContaining({ joinValue: 'app-1', timeDeltaSeconds: 60, totalMatches: 1 }),
+    );
+  });
+
+  it('explains a miss per condition instead of returning nothing', () => {
+    const rule: EvaluableRule = {
+      ruleId: 'ANALYZE-TEST-001',
+      title: 'Proxy auth',
+      conditions: [
+        { signal: 'proxy_407', source: 'event_data', eventType: 'network_error', dataField: 'statusCode', operator: 'equals', value: '407', required: true },
+        { signal: 'any_error', source: 'event_type', eventType: 'error_detected' },
+      ],
+    };
+    const result = evaluateAnalyzeRule(rule, [ev('2024-01-01T10:00:00Z', 'network_error', { statusCode: 500 })]);
+    expect(result.fired).toBe(false);
+    expect(result.outcome).toBe('required_condition_failed');
+    expect(result.conditions).toEqual([
+      expect.objectContaining({ signal: 'proxy_407', evaluated: true, matched: false, evidence: 'no matching data' }),
+      expect.objectContaining({ signal: 'any_error', evaluated: false }),
+    ]);
+  });
+
+  it('evaluates every shipped analyze rule without throwing', () => {
+    const rules = readdirSync(RULES_DIR).filter((f) => f.endsWith('.json')).map((f) => loadRule(f.replace(/\.json$/, '')));
+    const results = evaluateAnalyzeRules(rules, [ev('2024-01-01T10:00:00Z', 'agent_started')]);
+    expect(results).toHaveLength(rules.length);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Relevance metrics, report formatting, and the fuse provider held to the committed baseline
+ * (search-eval/baseline.json). A failure in the last block means a ranking change made search
+ * worse on the labelled queries; if it is intended, refresh the baseline with
+ * `npm run search-eval -- --update-baseline` and include the printed table in the PR.
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { MOCK_USERS, mintMockToken } from '../mock-backend/fixtures.js';
+import { startMockBackend, type RunningMockBackend } from '../mock-backend/server.js';
+import {
+  EVAL_MOCK_FIXTURE, evaluateSuite, formatScoreTable, loadQuerySet, mergeBaseline, ndcgAtK, precisionAtK, recallAtK,
+  type EvalReport, type EvalSuiteName,
+} from '../search-eval.js';
+
+const HERE = dirname(fileURLToPath(import.meta.url));
+const EVAL_DIR = resolve(HERE, 'search-eval');
+const RULES_ROOT = resolve(HERE, '..', '..', '..', '..', '..', 'rules');
+
+describe('metrics', () => {
+  const relevant = { a: 3, b: 1, c: 2 };
+
+  it('precision@k and recall@k count labelled hits in the top k', () => {
+    expect(precisionAtK(['a', 'x', 'b', 'y'], relevant, 4)).toBe(0.5);
+    expect(recallAtK(['a', 'x', 'b', 'y'], relevant, 4)).toBeCloseTo(2 / 3);
+    expect(precisionAtK(['a'], relevant, 5)).toBe(0.2); // a short list is not rewarded for its brevity
+    expect(recallAtK(['a'], {}, 5)).toBe(0);
+  });
+
+  it('nDCG@k is 1 for the ideal ordering and discounts relevant hits ranked late', () => {
+    expect(ndcgAtK(['a', 'c', 'b'], relevant, 3)).toBeCloseTo(1);
+    const swapped = ndcgAtK(['b', 'c', 'a'], relevant, 3);
+    expect(swapped).toBeLessThan(1);
+    // DCG(1,2,3) / DCG(3,2,1) with gain 2^g − 1 and discount log2(rank + 1).
+    expect(swapped).toBeCloseTo((1 + 3 / Math.log2(3) + 7 / 2) / (7 + 3 / Math.log2(3) + 1 / 2));
+    expect(ndcgAtK(['x', 'y'], relevant, 2)).toBe(0);
+  });
+});
+
+describe('reporting', () => {
+  const before: EvalReport = {
+    k: 5,
+    suites: {
+      search_knowledge: [
+        { provider: 'fuse', precision: 0.2, recall: 0.5, ndcg: 0.7, queries: [] },
+        { provider: 'vector', precision: 0.4, recall: 0.8, ndcg: 0.9, queries: [] },
+      ],
+    },
+  };
+  const after: EvalReport = {
+    k: 5,
+    suites: {
+      search_knowledge: [
+        { provider: 'fuse', precision: 0.25, recall: 0.5, ndcg: 0.65, queries: [] },
+        { provider: 'vector', unavailable: 'fetch failed' },
+      ],
+    },
+  };
+
+  it('prints each metric with its delta against the baseline', () => {
+    expect(formatScoreTable(after, before).split('\n')).toEqual([
+      '| suite | provider | P@5 | R@5 | nDCG@5 |',
+      '|---|---|---|---|---|',
+      '| search_knowledge | fuse | 0.250 (+0.050) | 0.500 (+0.000) | 0.650 (-0.050) |',
+      '| search_knowledge | vector | — | — | — (unavailable: fetch failed) |',
+    ]);
+  });
+
+  it('keeps a provider\'s baseline when this run could not evaluate it', () => {
+    const merged = mergeBaseline(before, after);
+    expect(merged.suites.search_knowledge).toEqual([after.suites.search_knowledge![0], before.suites.search_knowledge![1]]);
+    expect(mergeBaseline(before, { ...after, k: 10 })).toEqual({ ...after, k: 10 });
+  });
+});
+
+describe('fuse provider against the baseline', () => {
+  let backend: RunningMockBackend;
+  beforeAll(async () => { backend = await startMockBackend(0, EVAL_MOCK_FIXTURE); });
+  afterAll(async () => { await backend.close(); });
+
+  const baseline = JSON.parse(readFileSync(resolve(EVAL_DIR, 'baseline.json'), 'utf-8')) as EvalReport;
+  const ga = MOCK_USERS.find((u) => u.globalRole === 'GlobalAdmin')!;
+
+  it.each([
+    ['search_knowledge', 'knowledge-queries.json'],
+    ['search_events', 'event-queries.json'],
+  ] as Array<[EvalSuiteName, string]>)('%s does not regress', async (suite, file) => {
+    const score = await evaluateSuite(loadQuerySet(resolve(EVAL_DIR, file)), 'fuse', baseline.k, {
+      rulesDir: RULES_ROOT,
+      api: { url: backend.url, token: mintMockToken(ga) },
+    });
+    const prior = baseline.suites[suite]!.find((s) => s.provider === 'fuse')!;
+    if ('unavailable' in score || 'unavailable' in prior) throw new Error('fuse must always be evaluable');
+    expect(score.precision).toBeGreaterThanOrEqual(prior.precision);
+    expect(score.recall).toBeGreaterThanOrEqual(prior.recall);
+    expect(score.ndcg).toBeGreaterThanOrEqual(prior.ndcg);
+  });
+});
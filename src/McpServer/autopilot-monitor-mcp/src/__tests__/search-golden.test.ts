@@ -0,0 +1,27 @@
+/**
+ * search_events ranking against the recorded golden set (cassettes/search-golden.json). Each case
+ * replays its cassette — no network, no token — so a failure here means the RANKING changed, not
+ * the data. If the change is intended, re-record: `npm run record-cassettes -- --update-golden`.
+ *
+ * The cassettes are mock-backend fixtures (seeded synthetic sessions, `source` 127.0.0.1:7391), not
+ * real tenant data, and `expectedTop` is a snapshot of the ranking rather than hand-labelled relevance.
+ */
+import { describe, it, expect, beforeAll } from 'vitest';
+import { fileURLToPath } from 'node:url';
+import { Cassette } from '../cassette.js';
+import type { SearchProvider } from '../search-provider.js';
+import { buildGoldenEventTypeIndex, cassettePath, loadGoldenSet, runGoldenCase } from '../search-golden.js';
+
+const GOLDEN_FILE = fileURLToPath(new URL('./cassettes/search-golden.json', import.meta.url));
+const golden = loadGoldenSet(GOLDEN_FILE);
+
+let eventTypeIndex: SearchProvider;
+beforeAll(async () => { eventTypeIndex = await buildGoldenEventTypeIndex(); });
+
+describe('search_events golden set (mock-backend fixtures, not real tenant data)', () => {
+  it.each(golden.cases.map((c) => [c.name, c] as const))('%s', async (_name, c) => {
+    expect(c.expectedTop).toHaveLength(golden.topN);
+    const top = await runGoldenCase(golden, c, Cassette.load(cassettePath(GOLDEN_FILE, c)), eventTypeIndex);
+    expect(top).toEqual(c.expectedTop);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Unit tests for the aggregate_sessions engine: grouping, metrics and the otherGroups fold.
+ * Pure — session rows are canned, no backend.
+ */
+import { describe, it, expect } from 'vitest';
+import { AGGREGATE_METRICS, aggregateSessions, isoWeek, percentile, sessionDurationSeconds } from '../session-aggregation.js';
+
+const row = (status: string, model: string, extra: Record<string, unknown> = {}) => ({ status, model, ...extra });
+
+describe('helpers', () => {
+  it('labels ISO weeks, including the year boundary', () => {
+    expect(isoWeek('2026-03-02T08:00:00Z')).toBe('2026-W10');
+    expect(isoWeek('2027-01-01T00:00:00Z')).toBe('2026-W53');
+    expect(isoWeek('2024-12-30T00:00:00Z')).toBe('2025-W01');
+    expect(isoWeek('garbage')).toBeNull();
+  });
+
+  it('uses nearest-rank percentiles and derives duration from timestamps when durationSeconds is absent', () => {
+    expect(percentile([10, 20, 30, 40], 50)).toBe(20);
+    expect(percentile([10, 20, 30, 40], 90)).toBe(40);
+    expect(percentile([], 50)).toBeNull();
+    expect(sessionDurationSeconds({ startedAt: '2026-03-01T10:00:00Z', completedAt: '2026-03-01T10:30:00Z' })).toBe(1800);
+    expect(sessionDurationSeconds({ startedAt: '2026-03-01T10:00:00Z' })).toBeNull();
+  });
+});
+
+describe('aggregateSessions', () => {
+  const rows = [
+    row('Succeeded', 'Surface Pro 9', { durationSeconds: 1200, rebootCount: 2 }),
+    row('Succeeded', 'Surface Pro 9', { durationSeconds: 1800, rebootCount: 4 }),
+    row('Failed', 'Surface Pro 9', { durationSeconds: 3600, failureReason: 'ESP timeout for 3f2504e0-4f89-11d3-9a0c-0305e82c3301' }),
+    row('InProgress', 'Surface Pro 9'),
+    row('Failed', 'Latitude 7440', { failureReason: 'ESP timeout for 7c9e6679-7425-40de-944b-e07fc1f90ae7' }),
+    row('Succeeded', ''),
+  ];
+
+  it('computes every metric per group; in-flight sessions count but do not dilute the success rate', () => {
+    const result = aggregateSessions(rows, ['model'], [...AGGREGATE_METRICS], 10);
+    expect(result.sessionsAggregated).toBe(6);
+    expect(result.groups[0]).toEqual({
+      key: { model: 'Surface Pro 9' },
+      count: 4,
+      successRate: 0.6667,
+      durationP50Seconds: 1800,
+      durationP90Seconds: 3600,
+      meanReboots: 3,
+    });
+    // A missing dimension value is its own (null) group, so counts add up.
+    expect(result.groups.map((g) => g.key.model)).toEqual(['Surface Pro 9', 'Latitude 7440', null]);
+  });
+
+  it('groups normalized failure reasons and multi-dimension keys', () => {
+    const byReason = aggregateSessions(rows.filter((r) => r.status === 'Failed'), ['failureReason'], ['count'], 10);
+    expect(byReason.groups).toEqual([{ key: { failureReason: 'ESP timeout for <guid>' }, count: 2 }]);
+
+    const byBoth = aggregateSessions(rows, ['model', 'status'], ['count'], 10);
+    expect(byBoth.groups[0]).toEqual({ key: { model: 'Surface Pro 9', status: 'Succeeded' }, count: 2 });
+  });
+
+  it('folds groups beyond maxGroups into otherGroups and orders weeks chronologically', () => {
+    const result = aggregateSessions(rows, ['model'], ['count', 'successRate'], 1);
+    expect(result.groupCount).toBe(3);
+    expect(result.otherGroups).toEqual({ key: {}, count: 2, successRate: 0.5 });
+
+    const weekly = aggregateSessions([
+      row('Succeeded', 'a', { startedAt: '2026-03-10T00:00:00Z' }),
+      row('Succeeded', 'a', { startedAt: '2026-03-02T00:00:00Z' }),
+      row('Succeeded', 'a', { startedAt: '2026-03-11T00:00:00Z' }),
+    ], ['week'], ['count'], 10);
+    expect(weekly.groups.map((g) => [g.key.week, g.count])).toEqual([['2026-W10', 1], ['2026-W11', 2]]);
+  });
+});
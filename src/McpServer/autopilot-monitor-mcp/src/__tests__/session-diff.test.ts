@@ -0,0 +1,108 @@
+/**
+ * Unit tests for the compare_sessions diff engine (session-diff.ts). Pure functions over
+ * canned session / event / analysis payloads — no backend or token needed.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  compareSessions,
+  computeAppOutcomes,
+  computePhaseDurations,
+  extractDeviceProperties,
+  type SessionSide,
+} from '../session-diff.js';
+
+type Row = Record<string, unknown>;
+
+const ev = (timestamp: string, eventType: string, extra: Row = {}): Row => ({ timestamp, eventType, ...extra });
+
+describe('computePhaseDurations', () => {
+  it('measures each phase from its first event to the next phase\'s first event', () => {
+    const d = computePhaseDurations([
+      ev('2024-01-01T10:00:00Z', 'phase_transition', { phaseName: 'Device Preparation' }),
+      ev('2024-01-01T10:01:00Z', 'x', { phaseName: 'Device Preparation' }),
+      ev('2024-01-01T10:05:00Z', 'phase_transition', { phaseName: 'Device Setup' }),
+      ev('2024-01-01T10:15:00Z', 'enrollment_complete', { phaseName: 'Device Setup' }),
+    ]);
+    expect(d.get('Device Preparation')).toBe(300);
+    expect(d.get('Device Setup')).toBe(600);
+  });
+
+  it('sums a revisited phase and orders out-of-order input by timestamp', () => {
+    const d = computePhaseDurations([
+      ev('2024-01-01T10:10:00Z', 'b', { phase: 2 }),
+      ev('2024-01-01T10:00:00Z', 'a', { phase: 1 }),
+      ev('2024-01-01T10:20:00Z', 'c', { phase: 1 }),
+      ev('2024-01-01T10:30:00Z', 'd', { phase: 1 }),
+    ]);
+    expect(d.get('1')).toBe(600 + 600);
+    expect(d.get('2')).toBe(600);
+  });
+});
+
+describe('computeAppOutcomes', () => {
+  it('keeps the last terminal outcome and ignores a later started signal', () => {
+    const out = computeAppOutcomes([
+      ev('2024-01-01T10:00:00Z', 'app_install_started', { data: { appName: 'Teams' } }),
+      ev('2024-01-01T10:01:00Z', 'app_install_failed', { data: { appName: 'Teams' } }),
+      ev('2024-01-01T10:02:00Z', 'app_install_started', { data: { appName: 'Teams' } }),
+      ev('2024-01-01T10:00:00Z', 'app_install_started', { source: 'Office' }),
+      ev('2024-01-01T10:03:00Z', 'app_install_completed', { source: 'Office' }),
+    ]);
+    expect(out.get('Teams')).toBe('failed');
+    expect(out.get('Office')).toBe('completed');
+  });
+});
+
+describe('extractDeviceProperties', () => {
+  it('flattens the latest hardware_spec / tpm_status payload into eventType.key notation', () => {
+    const props = extractDeviceProperties([
+      ev('2024-01-01T10:00:00Z', 'hardware_spec', { data: { ramTotalGB: 8 } }),
+      ev('2024-01-01T11:00:00Z', 'hardware_spec', { data: { ramTotalGB: 16 } }),
+      ev('2024-01-01T10:00:00Z', 'tpm_status', { data: { specVersion: '2.0' } }),
+    ]);
+    expect(props.get('hardware_spec.ramTotalGB')).toBe(16);
+    expect(props.get('tpm_status.specVersion')).toBe('2.0');
+  });
+});
+
+describe('compareSessions', () => {
+  const failing: SessionSide = {
+    session: { status: 'Failed', model: 'Latitude 7440', agentVersion: '2.0.626' },
+    events: [
+      ev('2024-01-01T10:00:00Z', 'app_install_failed', { data: { appName: 'Teams' } }),
+      ev('2024-01-01T10:00:01Z', 'error_detected'),
+      ev('2024-01-01T10:00:02Z', 'tpm_status', { data: { specVersion: '1.2' } }),
+    ],
+    analysis: { results: [{ ruleId: 'ANALYZE-TPM-001', ruleTitle: 'TPM too old', severity: 'high' }] },
+  };
+  const healthy: SessionSide = {
+    session: { status: 'Succeeded', model: 'Latitude 7440', agentVersion: '2.0.626' },
+    events: [
+      ev('2024-01-01T10:00:00Z', 'app_install_completed', { data: { appName: 'Teams' } }),
+      ev('2024-01-01T10:00:01Z', 'enrollment_complete'),
+      ev('2024-01-01T10:00:02Z', 'tpm_status', { data: { specVersion: '2.0' } }),
+    ],
+    analysis: null,
+  };
+
+  it('reports overview, app, event-type, device-property and rule differences', () => {
+    const diff = compareSessions(failing, healthy);
+
+    expect(diff.overviewDifferences).toEqual([{ key: 'status', a: 'Failed', b: 'Succeeded' }]);
+    expect(diff.appInstalls.differing).toEqual([{ app: 'Teams', a: 'failed', b: 'completed' }]);
+    expect(diff.eventTypes.onlyInA.map((e) => e.eventType)).toEqual(['app_install_failed', 'error_detected']);
+    expect(diff.eventTypes.onlyInB.map((e) => e.eventType)).toEqual(['app_install_completed', 'enrollment_complete']);
+    expect(diff.deviceProperties).toEqual([{ key: 'tpm_status.specVersion', a: '1.2', b: '2.0' }]);
+    expect(diff.rules.onlyInA.map((r) => r.ruleId)).toEqual(['ANALYZE-TPM-001']);
+    expect(diff.rules.onlyInB).toEqual([]);
+  });
+
+  it('is empty for identical sides', () => {
+    const diff = compareSessions(healthy, healthy);
+    expect(diff.overviewDifferences).toEqual([]);
+    expect(diff.appInstalls.differing).toEqual([]);
+    expect(diff.appInstalls.identicalCount).toBe(1);
+    expect(diff.eventTypes.onlyInA).toEqual([]);
+    expect(diff.deviceProperties).toEqual([]);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Session timeline subscriptions: URI parsing, stall assessment and the poll → notify loop.
+ * Backend-free: the registry gets an injected session-record fetcher.
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { ApiError, getCallerContext, type CallerContext } from '../client.js';
+import {
+  SessionSubscriptionRegistry,
+  assessLiveness,
+  parseTimelineUri,
+  timelineFingerprint,
+} from '../session-subscriptions.js';
+
+const SESSION_ID = '0b6f2a4e-6f1d-4a3e-9c41-2f4b1d9e7a10';
+const URI = `session://${SESSION_ID}/timeline`;
+const CALLER: CallerContext = { token: 't1', upn: 'a@contoso.com', isGlobalAdmin: false };
+const NOW = Date.parse('2026-03-01T12:00:00Z');
+
+const record = (overrides: Record<string, unknown> = {}) => ({
+  sessionId: SESSION_ID, status: 'InProgress', currentPhase: 2, eventCount: 10, lastEventAt: '2026-03-01T11:58:00Z', ...overrides,
+});
+
+function setup(responses: Array<Record<string, unknown> | Error>) {
+  const seenTokens: Array<string | undefined> = [];
+  const fetchSession = vi.fn(async () => {
+    seenTokens.push(getCallerContext()?.token);
+    const next = responses.shift();
+    if (next instanceof Error) throw next;
+    return next ?? record();
+  });
+  const notified: string[] = [];
+  const registry = new SessionSubscriptionRegistry({ pollMs: 60_000, maxPerSession: 2, fetchSession });
+  registry.attach('mcp-1', CALLER, async (uri) => { notified.push(uri); });
+  return { registry, notified, seenTokens, fetchSession };
+}
+
+describe('parseTimelineUri', () => {
+  it('accepts a session id with an optional tenantId and rejects anything else', () => {
+    expect(parseTimelineUri(URI)).toEqual({ sessionId: SESSION_ID, tenantId: undefined });
+    expect(parseTimelineUri(`${URI}?tenantId=contoso`)).toEqual({ sessionId: SESSION_ID, tenantId: 'contoso' });
+    expect(parseTimelineUri('session://not-a-guid/timeline')).toBeNull();
+    expect(parseTimelineUri(`session://${SESSION_ID}/events`)).toBeNull();
+  });
+});
+
+describe('assessLiveness', () => {
+  it('flags a silent in-progress session as stalled but never a finished one', () => {
+    expect(assessLiveness(record(), NOW)).toEqual({ status: 'InProgress', terminal: false, stalled: false, minutesSinceLastEvent: 2 });
+    expect(assessLiveness(record({ lastEventAt: '2026-03-01T11:30:00Z' }), NOW).stalled).toBe(true);
+    expect(assessLiveness(record({ status: 'Succeeded', lastEventAt: '2026-03-01T09:00:00Z' }), NOW).stalled).toBe(false);
+    expect(assessLiveness(record({ status: 'Stalled' }), NOW).stalled).toBe(true);
+  });
+
+  it('changes the fingerprint when the session crosses the stall threshold without new events', () => {
+    expect(timelineFingerprint(record(), NOW)).not.toBe(timelineFingerprint(record(), NOW + 20 * 60_000));
+  });
+});
+
+describe('SessionSubscriptionRegistry', () => {
+  it('notifies on change only, under the latest caller context, and stops after completion', async () => {
+    const { registry, notified, seenTokens } = setup([
+      record(),
+      record(),
+      record({ eventCount: 12, lastEventAt: new Date().toISOString() }),
+      record({ status: 'Succeeded', eventCount: 14 }),
+    ]);
+    await registry.subscribe('mcp-1', URI, SESSION_ID, undefined);
+    expect(registry.countFor('mcp-1')).toBe(1);
+
+    await registry.poll('mcp-1', URI);
+    expect(notified).toEqual([]);
+
+    registry.updateCaller('mcp-1', { ...CALLER, token: 't2' });
+    await registry.poll('mcp-1', URI);
+    expect(notified).toEqual([URI]);
+
+    await registry.poll('mcp-1', URI);
+    expect(notified).toEqual([URI, URI]);
+    expect(registry.countFor('mcp-1')).toBe(0);
+    expect(seenTokens).toEqual(['t1', 't1', 't2', 't2']);
+  });
+
+  it('refuses finished sessions and enforces the per-session cap', async () => {
+    const { registry } = setup([record({ status: 'Failed' })]);
+    await expect(registry.subscribe('mcp-1', URI, SESSION_ID, undefined)).rejects.toThrow(/already finished/);
+
+    await registry.subscribe('mcp-1', `${URI}?tenantId=a`, SESSION_ID, 'a');
+    await registry.subscribe('mcp-1', `${URI}?tenantId=b`, SESSION_ID, 'b');
+    await expect(registry.subscribe('mcp-1', `${URI}?tenantId=c`, SESSION_ID, 'c')).rejects.toThrow(/limit reached/);
+    registry.detach('mcp-1');
+    expect(registry.size).toBe(0);
+  });
+
+  it('drops a subscription the backend no longer authorizes but retries transient failures', async () => {
+    const { registry } = setup([record(), new Error('socket hang up'), new ApiError(403, 'forbidden')]);
+    const log = vi.spyOn(console, 'error').mockImplementation(() => {});
+    await registry.subscribe('mcp-1', URI, SESSION_ID, undefined);
+    await registry.poll('mcp-1', URI);
+    expect(registry.countFor('mcp-1')).toBe(1);
+    await registry.poll('mcp-1', URI);
+    expect(registry.countFor('mcp-1')).toBe(0);
+    log.mockRestore();
+  });
+});
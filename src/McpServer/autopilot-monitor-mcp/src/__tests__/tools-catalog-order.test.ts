@@ -62,13 +62,20 @@ describe('role catalog snapshot — privilege-leak guard', () => {
   // This is the source of truth. A new tool MUST be added here, or the GA test
   // fails — that failure is the deliberate prompt to decide its role placement.
   const GA_FULL = [
+    'aggregate_sessions',
+    'benchmark_tenants',
+    'cluster_failures',
+    'compare_sessions',
+    'dry_run_analyze_rule',
     'get_api_usage',
     'get_app_install_metrics',
     'get_audit_logs',
+    'get_enrollment_trends',
     'get_geographic_metrics',
     'get_geographic_sessions',
     'get_ime_version_history',
     'get_metrics',
+    'get_my_usage',
     'get_ops_events',
     'get_platform_metrics',
     'get_resource',
@@ -76,6 +83,7 @@ describe('role catalog snapshot — privilege-leak guard', () => {
     'get_session',
     'get_session_diagnostics',
     'get_session_events',
+    'get_session_incident_report',
     'get_session_summary',
     'get_software_inventory',
     'get_usage_metrics',
@@ -84,6 +92,7 @@ describe('role catalog snapshot — privilege-leak guard', () => {
     'list_session_reports',
     'list_tables',
     'list_tenants',
+    'parse_diagnostics_zip',
     'query_backend_logs',
     'query_raw_events',
     'query_raw_sessions',
@@ -121,6 +130,10 @@ describe('role catalog snapshot — privilege-leak guard', () => {
   // user sees is tenant-boundable and stays.
   const DELEGATED_HIDDEN = ['get_ime_version_history'];
 
+  // Peer comparison across several tenants: meaningless for a plain tenant user (one tenant), so
+  // only a platform caller or a delegated (MSP) caller — bounded to its managed set — sees it.
+  const CROSS_TENANT_ONLY = ['benchmark_tenants'];
+
   const without = (set: string[], remove: string[]) => set.filter((n) => !remove.includes(n));
 
   it('Global Admin sees exactly the master set', () => {
@@ -131,13 +144,13 @@ describe('role catalog snapshot — privilege-leak guard', () => {
     expect(registeredToolNames(true, false)).toEqual(without(GA_FULL, RAW_GA_STRICT));
   });
 
-  it('tenant user = GA minus all platform-only tools', () => {
-    expect(registeredToolNames(false, false, false)).toEqual(without(GA_FULL, PLATFORM_ONLY));
+  it('tenant user = GA minus all platform-only and cross-tenant tools', () => {
+    expect(registeredToolNames(false, false, false)).toEqual(without(GA_FULL, [...PLATFORM_ONLY, ...CROSS_TENANT_ONLY]));
   });
 
-  it('delegated (MSP) caller = tenant user minus the global IME archive', () => {
-    const tenant = without(GA_FULL, PLATFORM_ONLY);
-    expect(registeredToolNames(false, false, true)).toEqual(without(tenant, DELEGATED_HIDDEN));
+  it('delegated (MSP) caller = GA minus platform-only tools and the global IME archive', () => {
+    const nonPlatform = without(GA_FULL, PLATFORM_ONLY);
+    expect(registeredToolNames(false, false, true)).toEqual(without(nonPlatform, DELEGATED_HIDDEN));
   });
 
   // ── Consistency of the difference lists themselves (catch stale entries). ──
@@ -146,6 +159,7 @@ describe('role catalog snapshot — privilege-leak guard', () => {
       ['RAW_GA_STRICT', RAW_GA_STRICT],
       ['PLATFORM_ONLY', PLATFORM_ONLY],
       ['DELEGATED_HIDDEN', DELEGATED_HIDDEN],
+      ['CROSS_TENANT_ONLY', CROSS_TENANT_ONLY],
     ] as const) {
       const stale = list.filter((n) => !GA_FULL.includes(n));
       expect(stale, `${label} lists tools not present in the GA master set`).toEqual([]);
@@ -0,0 +1,152 @@
+/**
+ * Opt-in write tools: role gating of the catalog, dry-run by default, confirmed execution, and the
+ * audit trail. Session actions run end-to-end against the mock backend (which enforces the tenant
+ * Admin/Operator role like the real one); block_device uses a stubbed fetch.
+ */
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { API_BASE_URL } from '../config.js';
+import { runWithCaller, type CallerContext } from '../client.js';
+import { invokeRegisteredTool, registerTools } from '../tools.js';
+import { writeCapabilities } from '../tools/write.js';
+import { writeAuditLog } from '../write-audit.js';
+import { MOCK_USERS, mintMockToken, type MockUser } from '../mock-backend/fixtures.js';
+import { startMockBackend, type RunningMockBackend } from '../mock-backend/server.js';
+
+const user = (upn: string) => MOCK_USERS.find((u) => u.upn === upn)!;
+const ADMIN = user('admin@contoso.example');
+const VIEWER = user('viewer@northwind.example');
+const GA = user('ga@fabrikam.example');
+
+const callerOf = (u: MockUser): CallerContext => ({
+  token: mintMockToken(u),
+  upn: u.upn,
+  tenantId: u.tenantId,
+  isGlobalAdmin: u.globalRole === 'GlobalAdmin',
+});
+
+/** Registers the catalog as `caller` would see it (write tools on) and calls `tool` as them. */
+async function call(caller: CallerContext, tool: string, args: Record<string, unknown>): Promise<{ data: Record<string, unknown>; isError?: boolean; text: string }> {
+  return runWithCaller(caller, async () => {
+    const server = new McpServer({ name: 'test', version: '0.0.0' });
+    registerTools(server, undefined, undefined, caller.isGlobalAdmin, caller.isGlobalAdmin, false, true);
+    const result = await invokeRegisteredTool(server, tool, args);
+    const first = result.content[0];
+    const text = first?.type === 'text' ? first.text : '';
+    return { data: result.isError ? {} : JSON.parse(text) as Record<string, unknown>, isError: result.isError, text };
+  });
+}
+
+function toolNames(caller: CallerContext | undefined, writeTools = true): string[] {
+  const build = () => {
+    const server = new McpServer({ name: 'test', version: '0.0.0' });
+    registerTools(server, undefined, undefined, caller?.isGlobalAdmin ?? false, caller?.isGlobalAdmin ?? false, false, writeTools);
+    return Object.keys((server as unknown as { _registeredTools: Record<string, unknown> })._registeredTools);
+  };
+  return caller ? runWithCaller(caller, build) : build();
+}
+
+const WRITE_TOOLS = ['block_device', 'get_write_audit_log', 'mark_session_failed', 'mark_session_succeeded', 'reanalyze_session', 'rescan_session_vulnerabilities'];
+
+afterEach(() => vi.unstubAllGlobals());
+
+describe('role gating', () => {
+  it('maps roles to write capabilities', () => {
+    const base = { token: 't' };
+    expect(writeCapabilities(undefined)).toEqual({ sessionActions: false, blockDevice: false });
+    expect(writeCapabilities({ ...base, isGlobalAdmin: true })).toEqual({ sessionActions: true, blockDevice: true });
+    expect(writeCapabilities({ ...base, isGlobalAdmin: false, isGlobalReader: true })).toEqual({ sessionActions: false, blockDevice: false });
+    expect(writeCapabilities({ ...base, isGlobalAdmin: false, delegatedTenantIds: ['t1'], delegatedRole: 'DelegatedAdmin' }))
+      .toEqual({ sessionActions: true, blockDevice: false });
+    expect(writeCapabilities({ ...base, isGlobalAdmin: false, delegatedTenantIds: ['t1'], delegatedRole: 'DelegatedReader' }))
+      .toEqual({ sessionActions: false, blockDevice: false });
+    expect(writeCapabilities({ ...base, isGlobalAdmin: false })).toEqual({ sessionActions: true, blockDevice: false });
+  });
+
+  it('registers write tools only when enabled and only those the role can use', () => {
+    expect(toolNames(callerOf(GA), false).filter((n) => WRITE_TOOLS.includes(n))).toEqual([]);
+    expect(toolNames(callerOf(GA)).filter((n) => WRITE_TOOLS.includes(n))).toEqual(WRITE_TOOLS);
+    expect(toolNames(callerOf(ADMIN)).filter((n) => WRITE_TOOLS.includes(n))).toEqual(WRITE_TOOLS.filter((n) => n !== 'block_device'));
+    expect(toolNames({ ...callerOf(GA), isGlobalAdmin: false, isGlobalReader: true }).filter((n) => WRITE_TOOLS.includes(n))).toEqual([]);
+  });
+});
+
+describe('session actions against the mock backend', () => {
+  let backend: RunningMockBackend;
+  beforeAll(async () => { backend = await startMockBackend(0, { now: Date.parse('2026-03-02T12:00:00Z'), sessionsPerTenant: 20 }); });
+  afterAll(async () => { await backend.close(); });
+
+  function routeToMock() {
+    const realFetch = globalThis.fetch;
+    vi.stubGlobal('fetch', (url: string | URL, init?: RequestInit) => realFetch(String(url).replace(API_BASE_URL, backend.url), init));
+  }
+
+  it('previews without changing anything, then applies on confirm and audits both', async () => {
+    routeToMock();
+    const target = backend.dataset.sessions.find((s) => s.tenantId === ADMIN.tenantId && s.status === 'Succeeded')!;
+
+    const preview = await call(callerOf(ADMIN), 'mark_session_failed', { sessionId: target.sessionId });
+    expect(preview.data).toMatchObject({
+      dryRun: true,
+      request: `POST /api/sessions/${target.sessionId}/mark-failed`,
+      current: { status: 'Succeeded', serialNumber: target.serialNumber },
+      effect: 'Status Succeeded → Failed.',
+    });
+    expect(target.status).toBe('Succeeded');
+
+    const done = await call(callerOf(ADMIN), 'mark_session_failed', { sessionId: target.sessionId, confirm: true });
+    expect(done.data).toMatchObject({ dryRun: false, before: { status: 'Succeeded' }, after: { status: 'Failed' } });
+    expect(target.status).toBe('Failed');
+
+    expect(writeAuditLog.list({ upn: ADMIN.upn, limit: 2 })).toEqual([
+      expect.objectContaining({ tool: 'mark_session_failed', mode: 'execute', outcome: 'succeeded', target: { sessionId: target.sessionId, tenantId: ADMIN.tenantId } }),
+      expect.objectContaining({ tool: 'mark_session_failed', mode: 'dry-run', outcome: 'previewed' }),
+    ]);
+  });
+
+  it('surfaces the backend\'s role check and audits the failed attempt', async () => {
+    routeToMock();
+    const target = backend.dataset.sessions.find((s) => s.tenantId === VIEWER.tenantId)!;
+    const denied = await call(callerOf(VIEWER), 'mark_session_succeeded', { sessionId: target.sessionId, confirm: true });
+    expect(denied.isError).toBe(true);
+    expect(denied.text).toMatch(/Admin or Operator role required/);
+    expect(writeAuditLog.list({ upn: VIEWER.upn, limit: 1 })[0]).toMatchObject({ outcome: 'failed', status: 403 });
+
+    const own = await call(callerOf(VIEWER), 'get_write_audit_log', {});
+    expect(own.data.scope).toBe('you');
+    expect((own.data.entries as Array<{ upn: string }>).every((e) => e.upn === VIEWER.upn)).toBe(true);
+  });
+
+  it('reanalyze_session reports the stored results and, on confirm, what changed', async () => {
+    routeToMock();
+    const failed = backend.dataset.sessions.find((s) => s.tenantId === ADMIN.tenantId && String(s.failureReason).startsWith('App install failed'))!;
+    const preview = await call(callerOf(ADMIN), 'reanalyze_session', { sessionId: failed.sessionId });
+    expect(preview.data.current).toMatchObject({ ruleIds: expect.arrayContaining(['ANALYZE-ENRL-001']) });
+    const done = await call(callerOf(ADMIN), 'reanalyze_session', { sessionId: failed.sessionId, confirm: true });
+    expect(done.data).toMatchObject({ dryRun: false, addedRuleIds: [], clearedRuleIds: [] });
+  });
+});
+
+describe('block_device', () => {
+  it('previews an existing block and posts a Block (never Kill) on confirm', async () => {
+    const requests: Array<{ url: string; method: string; body?: string }> = [];
+    vi.stubGlobal('fetch', vi.fn(async (url: string, init?: RequestInit) => {
+      requests.push({ url: String(url), method: init?.method ?? 'GET', body: init?.body as string | undefined });
+      const body = String(url).includes('/blocked')
+        ? { success: true, blocked: [{ serialNumber: 'SN-1', unblockAt: '2026-03-03T00:00:00Z', action: 'Block' }] }
+        : { success: true, message: 'Device SN-1 blocked for 48 hours.', unblockAt: '2026-03-04T12:00:00Z', action: 'Block' };
+      return new Response(JSON.stringify(body), { status: 200 });
+    }));
+    const ga = callerOf(GA);
+
+    const preview = await call(ga, 'block_device', { serialNumber: 'sn-1', tenantId: 'tenant-a', durationHours: 48 });
+    expect(preview.data).toMatchObject({ dryRun: true, current: { blocked: true, unblockAt: '2026-03-03T00:00:00Z' } });
+    expect(requests.map((r) => r.method)).toEqual(['GET']);
+
+    const done = await call(ga, 'block_device', { serialNumber: 'sn-1', tenantId: 'tenant-a', durationHours: 48, reason: 'looping', confirm: true });
+    expect(done.data).toMatchObject({ dryRun: false, unblockAt: '2026-03-04T12:00:00Z' });
+    const post = requests.find((r) => r.method === 'POST')!;
+    expect(post.url).toBe(`${API_BASE_URL}/api/devices/block`);
+    expect(JSON.parse(post.body!)).toEqual({ tenantId: 'tenant-a', serialNumber: 'sn-1', durationHours: 48, reason: 'looping', action: 'Block' });
+  });
+});
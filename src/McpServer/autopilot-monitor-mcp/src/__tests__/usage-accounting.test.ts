@@ -0,0 +1,90 @@
+/**
+ * Usage accounting: tenant attribution, per-day ledger, quotas and the get_my_usage reports.
+ * Backend-free — ledgers are constructed with explicit quotas and driven directly or through a
+ * stubbed fetch (apiFetch books every request on the caller's ledger).
+ */
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { apiFetch, runWithCaller } from '../client.js';
+import {
+  CROSS_TENANT_KEY,
+  QuotaExceededError,
+  UsageLedger,
+  attributeTenant,
+  buildTenantUsageReport,
+  buildUserUsageReport,
+  runAccountedToolCall,
+  usageLedger,
+} from '../usage-accounting.js';
+
+const MSP = { upn: 'msp@fabrikam.com', homeTenantId: 'fabrikam' };
+const NOW = Date.parse('2026-03-02T10:00:00Z');
+const noQuotas = { toolCalls: 0, backendPages: 0, backendBytes: 0 };
+
+afterEach(() => vi.unstubAllGlobals());
+
+describe('attributeTenant', () => {
+  it('books on the explicit tenantId, else cross-tenant on /api/global, else the home tenant', () => {
+    expect(attributeTenant('/api/global/raw/sessions?tenantId=Contoso&limit=5', 'fabrikam')).toBe('contoso');
+    expect(attributeTenant('/api/global/search/sessions', 'fabrikam')).toBe(CROSS_TENANT_KEY);
+    expect(attributeTenant('/api/sessions/abc/events', 'fabrikam')).toBe('fabrikam');
+  });
+});
+
+describe('UsageLedger', () => {
+  it('splits an MSP admin\'s spend by the customer each request was for', () => {
+    const ledger = new UsageLedger(noQuotas, noQuotas);
+    ledger.recordBackendCall(MSP, 'contoso', 'search_sessions', 1000, NOW);
+    ledger.recordBackendCall(MSP, 'contoso', 'search_sessions', 500, NOW);
+    ledger.recordBackendCall(MSP, 'northwind', 'get_session', 200, NOW);
+    ledger.recordToolCall(MSP, 'search_sessions', { isError: false, responseBytes: 40, pagesByTenant: new Map([['contoso', 2]]) }, NOW);
+
+    const report = buildUserUsageReport(ledger, MSP, 1, NOW) as { byTenant: Array<Record<string, unknown>> };
+    expect(report.byTenant.map((r) => [r.tenantId, r.backendPages, r.backendBytes, r.toolCalls])).toEqual([
+      ['contoso', 2, 1500, 1],
+      ['northwind', 1, 200, 0],
+    ]);
+
+    const tenants = buildTenantUsageReport(ledger, 1, 5, NOW) as { tenants: Array<{ tenantId: string; topUsers: Array<{ upn: string }> }> };
+    expect(tenants.tenants[0]).toEqual(expect.objectContaining({ tenantId: 'contoso', topUsers: [expect.objectContaining({ upn: MSP.upn })] }));
+  });
+
+  it('enforces daily user and tenant quotas, exempts get_my_usage and resets at UTC midnight', () => {
+    const ledger = new UsageLedger({ toolCalls: 2, backendPages: 0, backendBytes: 0 }, { toolCalls: 0, backendPages: 1, backendBytes: 0 });
+    ledger.recordToolCall(MSP, 'get_session', { isError: false, responseBytes: 0 }, NOW);
+    ledger.recordToolCall(MSP, 'get_session', { isError: false, responseBytes: 0 }, NOW);
+    expect(() => ledger.assertToolCallAllowed(MSP, 'get_session', NOW)).toThrow(QuotaExceededError);
+    expect(() => ledger.assertToolCallAllowed(MSP, 'get_my_usage', NOW)).not.toThrow();
+    expect(() => ledger.assertToolCallAllowed(MSP, 'get_session', NOW + 86_400_000)).not.toThrow();
+
+    ledger.recordBackendCall(MSP, 'contoso', 'get_session', 10, NOW);
+    expect(() => ledger.assertBackendCallAllowed(MSP, 'contoso', 'get_session', NOW)).toThrow(/tenant contoso/);
+    expect(() => ledger.assertBackendCallAllowed(MSP, 'northwind', 'get_session', NOW)).not.toThrow();
+
+    const report = buildUserUsageReport(ledger, MSP, 1, NOW) as { quotas: Record<string, unknown> };
+    expect(report.quotas).toEqual({ toolCalls: { limit: 2, used: 2, remaining: 0 } });
+  });
+
+  it('keeps at most a week of history', () => {
+    const ledger = new UsageLedger(noQuotas, noQuotas);
+    ledger.recordToolCall(MSP, 'get_session', { isError: false, responseBytes: 0 }, NOW - 10 * 86_400_000);
+    ledger.recordToolCall(MSP, 'get_session', { isError: false, responseBytes: 0 }, NOW);
+    expect(ledger.userUsage(MSP.upn, 30, NOW).filter((d) => d.usage)).toHaveLength(1);
+  });
+});
+
+describe('apiFetch accounting', () => {
+  it('books each backend page and the call itself on the tenant it targeted', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => ({ ok: true, status: 200, text: async () => '{"sessions":[]}' }) as unknown as Response));
+    const caller = { token: 't', upn: 'acct-test@fabrikam.com', tenantId: 'fabrikam', isGlobalAdmin: false };
+    const subject = { upn: caller.upn, homeTenantId: caller.tenantId };
+
+    await runWithCaller(caller, () => runAccountedToolCall(subject, 'query_raw_sessions', async () => {
+      await apiFetch('/api/global/raw/sessions?tenantId=contoso');
+      await apiFetch('/api/global/raw/sessions?tenantId=contoso&continuation=x');
+      return { content: [{ type: 'text', text: 'ok' }] };
+    }));
+
+    const [today] = usageLedger.userUsage(caller.upn, 1);
+    expect(today.usage?.byTenant.get('contoso')).toEqual(expect.objectContaining({ toolCalls: 1, backendPages: 2, backendBytes: 30, responseBytes: 2 }));
+  });
+});
@@ -428,6 +428,8 @@ export function accessGuard(req: Request, res: Response, next: NextFunction): vo
       runWithCaller(
         {
           token,
+          upn,
+          tenantId: claims.tid?.toLowerCase(),
           isGlobalAdmin: result.isGlobalAdmin,
           isGlobalReader: result.isGlobalReader,
           delegatedTenantIds: result.delegatedTenantIds,
@@ -0,0 +1,166 @@
+/**
+ * Record/replay of backend responses ("cassettes") for deterministic tool regression tests.
+ *
+ * Inside `runWithCassette`, every `apiFetch` either RECORDS the live response into the cassette or
+ * REPLAYS a recorded one instead of touching the network. Recorded cassettes are scrubbed when
+ * they are saved, so they can be committed:
+ *   - bearer tokens (JWTs anywhere in a body) and SAS signatures are redacted;
+ *   - tenant IDs — learned from `tenantId` / `TenantId` fields, raw `PartitionKey`s, `tenantId=`
+ *     query params and the caller's own tenant — become stable placeholder GUIDs
+ *     (00000000-0000-4000-8000-000000000001, …) everywhere they occur, paths included;
+ *   - `continuation=` values become `cassette-cont-N`. The backend binds them to the caller's
+ *     tenant, so they would leak it in encoded form.
+ * Scrubbing is applied to request paths too, and consistently within one cassette, so a tool that
+ * follows a recorded nextLink during replay asks for exactly the scrubbed path that was recorded.
+ * It runs over the whole cassette at save time, after every interaction has been learned from, so a
+ * tenant ID first revealed by a later response is still replaced in the earlier ones.
+ *
+ * Replay matches on method + path; repeated requests for the same path consume the recordings in
+ * order (the last one is reused once exhausted). A request with no recording throws
+ * CassetteMissError rather than reaching the network — re-record when a tool's query shape changes.
+ */
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { readFileSync, writeFileSync } from 'node:fs';
+
+export interface CassetteInteraction {
+  method: string;
+  path: string;
+  status: number;
+  body: string;
+}
+
+export interface CassetteFile {
+  version: 1;
+  /** Backend host the interactions were recorded from. */
+  source: string;
+  recordedAt: string;
+  interactions: CassetteInteraction[];
+}
+
+export class CassetteMissError extends Error {
+  constructor(method: string, path: string) {
+    super(`No recorded response for ${method} ${path} in the active cassette — re-record it (npm run record-cassettes).`);
+    this.name = 'CassetteMissError';
+  }
+}
+
+const GUID = '[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}';
+const TENANT_SOURCES = [
+  new RegExp(`"tenantId"\\s*:\\s*"(${GUID})"`, 'gi'),
+  new RegExp(`"PartitionKey"\\s*:\\s*"(${GUID})`, 'g'),
+  new RegExp(`[?&]tenantId=(${GUID})`, 'gi'),
+];
+const JWT = /eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g;
+const SAS_SIGNATURE = /([?&]sig=)[^&"\s]+/g;
+const CONTINUATION = /([?&]continuation=)([^&"\s]+)/g;
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Consistent, per-cassette replacement of secrets and tenant identity. */
+export class Scrubber {
+  private readonly tenants = new Map<string, string>();
+  private readonly continuations = new Map<string, string>();
+
+  constructor(knownTenantIds: string[] = []) {
+    for (const id of knownTenantIds) this.addTenant(id);
+  }
+
+  private addTenant(id: string): void {
+    const key = id.toLowerCase();
+    if (!this.tenants.has(key)) {
+      this.tenants.set(key, `00000000-0000-4000-8000-${String(this.tenants.size + 1).padStart(12, '0')}`);
+    }
+  }
+
+  /** Registers every tenant ID `text` reveals so later scrubs replace it wherever it appears. */
+  learn(text: string): void {
+    for (const pattern of TENANT_SOURCES) {
+      for (const match of text.matchAll(pattern)) this.addTenant(match[1]);
+    }
+  }
+
+  scrub(text: string): string {
+    let out = text
+      .replace(JWT, '<redacted-token>')
+      .replace(SAS_SIGNATURE, '$1<redacted>')
+      .replace(CONTINUATION, (_m, prefix: string, value: string) => {
+        let placeholder = this.continuations.get(value);
+        if (!placeholder) {
+          placeholder = `cassette-cont-${this.continuations.size + 1}`;
+          this.continuations.set(value, placeholder);
+        }
+        return prefix + placeholder;
+      });
+    for (const [real, placeholder] of this.tenants) {
+      out = out.replace(new RegExp(escapeRegExp(real), 'gi'), placeholder);
+    }
+    return out;
+  }
+}
+
+export class Cassette {
+  private readonly queues = new Map<string, { items: CassetteInteraction[]; next: number }>();
+
+  private constructor(
+    readonly mode: 'record' | 'replay',
+    private readonly file: CassetteFile,
+    private readonly scrubber: Scrubber,
+  ) {
+    for (const interaction of file.interactions) {
+      const key = `${interaction.method} ${interaction.path}`;
+      const queue = this.queues.get(key) ?? { items: [], next: 0 };
+      queue.items.push(interaction);
+      this.queues.set(key, queue);
+    }
+  }
+
+  /** An empty cassette that records; `knownTenantIds` (e.g. the caller's tid) are scrubbed even if no response names them. */
+  static recorder(source: string, knownTenantIds: string[] = []): Cassette {
+    return new Cassette('record', { version: 1, source, recordedAt: new Date().toISOString(), interactions: [] }, new Scrubber(knownTenantIds));
+  }
+
+  static load(path: string): Cassette {
+    const file = JSON.parse(readFileSync(path, 'utf-8')) as CassetteFile;
+    if (file.version !== 1 || !Array.isArray(file.interactions)) throw new Error(`${path} is not a version-1 cassette`);
+    return new Cassette('replay', file, new Scrubber());
+  }
+
+  /** While recording these are still unscrubbed — only {@link save} writes the scrubbed form. */
+  get interactions(): readonly CassetteInteraction[] {
+    return this.file.interactions;
+  }
+
+  /** Scrubs an arbitrary string with this cassette's mapping (e.g. a tool argument naming a tenant). */
+  scrub(text: string): string {
+    return this.scrubber.scrub(text);
+  }
+
+  record(method: string, path: string, status: number, body: string): void {
+    this.scrubber.learn(path);
+    this.scrubber.learn(body);
+    this.file.interactions.push({ method, path, status, body });
+  }
+
+  replay(method: string, path: string): { ok: boolean; status: number; text: string } {
+    const queue = this.queues.get(`${method} ${path}`);
+    if (!queue) throw new CassetteMissError(method, path);
+    const interaction = queue.items[Math.min(queue.next++, queue.items.length - 1)];
+    return { ok: interaction.status >= 200 && interaction.status < 300, status: interaction.status, text: interaction.body };
+  }
+
+  save(path: string): void {
+    const interactions = this.file.interactions.map((i) => ({ ...i, path: this.scrubber.scrub(i.path), body: this.scrubber.scrub(i.body) }));
+    writeFileSync(path, `${JSON.stringify({ ...this.file, interactions }, null, 2)}\n`);
+  }
+}
+
+const cassetteStore = new AsyncLocalStorage<Cassette>();
+
+/** Runs `fn` with every backend call inside it recorded into / replayed from `cassette`. */
+export function runWithCassette<T>(cassette: Cassette, fn: () => T): T {
+  return cassetteStore.run(cassette, fn);
+}
+
+export function getActiveCassette(): Cassette | undefined {
+  return cassetteStore.getStore();
+}
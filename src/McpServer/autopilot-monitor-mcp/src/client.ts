@@ -1,5 +1,7 @@
 import { AsyncLocalStorage } from 'node:async_hooks';
 import { API_BASE_URL } from './config.js';
+import { attributeTenant, usageLedger } from './usage-accounting.js';
+import { getActiveCassette } from './cassette.js';
 
 const BASE_URL = API_BASE_URL;
 
@@ -43,9 +45,13 @@ export class ApiError extends Error {
  * Concurrent sessions cannot overwrite each other's context even when
  * async operations interleave on the event loop.
  */
-interface CallerContext {
+export interface CallerContext {
   token: string;
-  /** True only for a platform Global Admin (write tier — not currently used by the read-only MCP). */
+  /** Lowercased UPN from the validated token — binds stateful MCP sessions to their owner and keys usage accounting. */
+  upn?: string;
+  /** Home tenant (`tid` claim) — where usage of tenant-scoped /api/* requests is booked. */
+  tenantId?: string;
+  /** True only for a platform Global Admin (write tier — gates block_device among the opt-in write tools). */
   isGlobalAdmin: boolean;
   /** True for the read-only Global Reader platform tier. */
   isGlobalReader?: boolean;
@@ -56,7 +62,7 @@ interface CallerContext {
    * `enforceDelegatedTenant`. Absent/empty ⇒ not delegated.
    */
   delegatedTenantIds?: string[];
-  /** Strongest delegated role ("DelegatedAdmin" | "DelegatedReader"); informational (read-only server). */
+  /** Strongest delegated role ("DelegatedAdmin" | "DelegatedReader"); only the opt-in write tools key off it. */
   delegatedRole?: string;
 }
 
@@ -71,6 +77,15 @@ export function runWithCaller<T>(ctx: CallerContext, fn: () => T): T {
   return callerStore.run(ctx, fn);
 }
 
+/**
+ * Snapshot of the active caller context, for work that outlives the request (resource
+ * subscription polls re-enter it via runWithCaller). undefined outside a request.
+ */
+export function getCallerContext(): CallerContext | undefined {
+  const store = callerStore.getStore();
+  return store ? { ...store } : undefined;
+}
+
 export function getCurrentToken(): string | undefined {
   return callerStore.getStore()?.token;
 }
@@ -219,15 +234,35 @@ async function apiFetch(path: string, options: RequestInit = {}): Promise<unknow
   const toolName = getCurrentToolName();
   if (toolName) headers['X-MCP-Tool-Name'] = toolName;
 
+  // Usage accounting (usage-accounting.ts): every request is one backend page booked on the tenant
+  // it is for; the quota check runs first so a multi-page drain stops at the limit.
+  const caller = callerStore.getStore();
+  const subject = caller?.upn ? { upn: caller.upn, homeTenantId: caller.tenantId } : undefined;
+  const tenantKey = subject ? attributeTenant(path, subject.homeTenantId) : '';
+  if (subject) usageLedger.assertBackendCallAllowed(subject, tenantKey, toolName);
+
   // Apply timeout to prevent hanging on unresponsive backend
   const signal = options.signal ?? AbortSignal.timeout(API_TIMEOUT_MS);
 
-  const res = await fetch(url, { ...options, headers, signal });
+  // Record/replay (cassette.ts): a replaying cassette answers instead of the network; a recording
+  // one keeps a scrubbed copy of the live response.
+  const method = (options.method ?? 'GET').toUpperCase();
+  const cassette = getActiveCassette();
+  let res: { ok: boolean; status: number };
+  let text: string;
+  if (cassette?.mode === 'replay') {
+    ({ text, ...res } = cassette.replay(method, path));
+  } else {
+    const live = await fetch(url, { ...options, headers, signal });
+    text = await live.text();
+    res = live;
+    cassette?.record(method, path, live.status, text);
+  }
+  if (subject) usageLedger.recordBackendCall(subject, tenantKey, toolName, Buffer.byteLength(text));
   if (!res.ok) {
-    const text = await res.text();
     throw new ApiError(res.status, text);
   }
-  return res.json();
+  return JSON.parse(text);
 }
 
 function buildQuery(params: Record<string, string | number | boolean | undefined | null>): string {
@@ -389,3 +424,76 @@ export async function scanUntilMatch(
     path = followNextLink(basePath, {}, nextLink);
   }
 }
+
+/**
+ * {@link drainPages} budget. `maxItems` stops the walk as soon as that many rows are in hand, for
+ * callers that only keep a prefix (a `maxSessions` cap) — no page is fetched just to be sliced away.
+ * `stopAfterPage` ends it as drained once a page shows the rest of the walk is out of range, for
+ * walks whose page order the caller knows (newest first, say).
+ */
+export interface DrainBudget extends ScanBudget {
+  maxItems?: number;
+  stopAfterPage?: (pageItems: unknown[]) => boolean;
+}
+
+/** Result of {@link drainPages}: every item collected plus an honest recall flag. */
+export interface DrainResult {
+  items: unknown[];
+  /** Backend pages fetched (including the first). */
+  scannedPages: number;
+  /**
+   * True when more rows remain than were returned: the budget ran out while a `nextLink` remained,
+   * or `maxItems` cut the walk short — `items` is a prefix, not the full set.
+   */
+  truncated: boolean;
+  /**
+   * The unfollowed nextLink when truncated, so a caller can surface it as a continuation. Omitted
+   * when `maxItems` cut a page mid-way: resuming from it would skip that page's remaining rows.
+   */
+  nextLink?: string;
+}
+
+/**
+ * Walks a paginated list endpoint to exhaustion (or the budget) and concatenates every page's
+ * items. Where {@link scanUntilMatch} stops at the first non-empty page (the model pages on), this
+ * is for tools that aggregate server-side and need the WHOLE set in one call — session compare,
+ * clustering, aggregation. Same page-boundary guarantees: each nextLink is followed verbatim via
+ * followNextLink (path-equality enforced), so no row is split, duplicated or skipped; `truncated`
+ * is set only when rows were left behind, never when the endpoint drained or `stopAfterPage`
+ * ended the walk.
+ */
+export async function drainPages(
+  firstPath: string,
+  basePath: string,
+  budget: DrainBudget = DEFAULT_SCAN_BUDGET,
+  fetchPage: PageFetcher = defaultPageFetcher,
+  now: () => number = Date.now,
+): Promise<DrainResult> {
+  const deadline = now() + budget.wallClockMs;
+  const items: unknown[] = [];
+  let path = firstPath;
+  let scannedPages = 0;
+
+  for (;;) {
+    const page = await fetchPage(path);
+    scannedPages++;
+    const pageItems = extractItems(page) ?? [];
+    items.push(...pageItems);
+
+    const nextLink = typeof page.nextLink === 'string' && page.nextLink ? page.nextLink : undefined;
+    if (budget.maxItems !== undefined && items.length >= budget.maxItems) {
+      const cutMidPage = items.length > budget.maxItems;
+      return {
+        items: items.slice(0, budget.maxItems),
+        scannedPages,
+        truncated: cutMidPage || !!nextLink,
+        ...(nextLink && !cutMidPage ? { nextLink } : {}),
+      };
+    }
+    if (!nextLink || budget.stopAfterPage?.(pageItems)) return { items, scannedPages, truncated: false };
+    if (scannedPages >= budget.maxPages || now() > deadline) {
+      return { items, scannedPages, truncated: true, nextLink };
+    }
+    path = followNextLink(basePath, {}, nextLink);
+  }
+}
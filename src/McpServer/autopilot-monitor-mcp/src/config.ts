@@ -9,6 +9,8 @@
  * fast in production rather than defaulting (matching the fail-fast posture in
  * oauth.ts).
  */
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
 import type { Request } from 'express';
 
 const DEFAULT_API_BASE_URL = 'https://autopilotmonitor-api.azurewebsites.net';
@@ -28,6 +30,63 @@ function resolveApiBaseUrl(): string {
 /** Resolved backend API base URL (no trailing slash). */
 export const API_BASE_URL = resolveApiBaseUrl();
 
+/**
+ * Root of the rules/ tree (analyze, gather, ime-log-patterns, schema). The container
+ * pins it via RULES_DIR; in a repo checkout it resolves to the top-level rules/ folder.
+ */
+export const RULES_DIR = process.env.RULES_DIR
+  ?? resolve(dirname(fileURLToPath(import.meta.url)), '..', '..', '..', '..', 'rules');
+
+/**
+ * Folder of declarative MCP prompt definitions (*.yaml / *.yml / *.json, validated against
+ * schema/prompt.schema.json — see prompt-library.ts). Defaults to the package's prompts/ folder;
+ * a deployment points it elsewhere to ship its own playbooks without a code change.
+ */
+export const PROMPTS_DIR = process.env.PROMPTS_DIR?.trim()
+  || resolve(dirname(fileURLToPath(import.meta.url)), '..', 'prompts');
+
+/**
+ * PROMPTS_WATCH=1 hot-reloads the prompt library when files under PROMPTS_DIR change (playbook-author
+ * dev loop, the prompt counterpart of KNOWLEDGE_WATCH). Off by default.
+ */
+export const PROMPTS_WATCH = ['1', 'true'].includes(process.env.PROMPTS_WATCH?.trim().toLowerCase() ?? '');
+
+/**
+ * Directory parse_diagnostics_zip may read local ZIPs from (its `path` input). Unset — the hosted
+ * default — disables path input entirely: a remote caller must never be able to make the server
+ * open arbitrary files on its own disk. Self-hosted / local dev installs opt in by pointing it at
+ * a download folder; paths are confined to this directory.
+ */
+export const DIAG_ZIP_LOCAL_DIR = process.env.DIAG_ZIP_LOCAL_DIR?.trim() || undefined;
+
+/**
+ * Optional on-disk content-hash embedding cache for the knowledge base (see embedding-cache.ts).
+ * When set, a restart with edited rules — which rejects the build-time search-index.json as
+ * stale — re-embeds only the changed documents instead of the whole corpus.
+ */
+export const EMBEDDING_CACHE_PATH = process.env.EMBEDDING_CACHE_PATH?.trim() || undefined;
+
+/**
+ * KNOWLEDGE_WATCH=1 hot-reloads the search index when files under RULES_DIR change (rule-author
+ * dev loop; see knowledge-watcher.ts). Off by default — the hosted image's rules never change.
+ */
+export const KNOWLEDGE_WATCH = ['1', 'true'].includes(process.env.KNOWLEDGE_WATCH?.trim().toLowerCase() ?? '');
+
+/**
+ * MCP_STATEFUL_SESSIONS=1 switches /mcp to session-bound Streamable HTTP (Mcp-Session-Id, GET
+ * SSE stream) so clients can subscribe to live resources like session://{id}/timeline. Off by
+ * default: the hosted deployment scales out behind a load balancer without session affinity, and
+ * session state pinned to one replica would break there. Single-replica/self-hosted installs opt in.
+ */
+export const STATEFUL_SESSIONS = ['1', 'true'].includes(process.env.MCP_STATEFUL_SESSIONS?.trim().toLowerCase() ?? '');
+
+/**
+ * MCP_WRITE_TOOLS=1 registers the session-triage write tools (tools/write.ts: mark failed/succeeded,
+ * re-run analysis, rescan vulnerabilities, block a device) for callers whose role can use them. Off
+ * by default: the hosted server stays read-only unless an operator opts in for the deployment.
+ */
+export const WRITE_TOOLS_ENABLED = ['1', 'true'].includes(process.env.MCP_WRITE_TOOLS?.trim().toLowerCase() ?? '');
+
 /**
  * Parse a positive-integer environment variable, falling back to `fallback`
  * for missing, non-numeric, or non-positive values. A bare `parseInt` returns
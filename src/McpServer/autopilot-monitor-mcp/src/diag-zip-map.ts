@@ -3,9 +3,13 @@
  *
  * Returned by `get_session_diagnostics` and the `get_resource(name="diag_zip_layout")`
  * catalog so an AI client knows what to expect inside the ZIP it downloads locally —
- * without the backend or MCP server ever unzipping/parsing the archive (that would burn
- * server CPU on multi-hundred-MB IME logs). The client downloads the raw ZIP, extracts
- * it locally, and uses this map to decide what to read first and how (grep vs full read).
+ * the backend never unzips/parses the archive (that would burn server CPU on multi-hundred-MB
+ * IME logs). The client downloads the raw ZIP, extracts it locally, and uses this map to
+ * decide what to read first and how (grep vs full read). Clients without a local shell use
+ * `parse_diagnostics_zip` instead — the one place the MCP server does parse an archive, on a
+ * worker thread (diag-zip-worker.ts) so the shared event loop keeps serving other requests. It
+ * classifies archive entries against this same map (diag-zip-parser.ts) — so path strings here
+ * must stay machine-matchable (`*`, YYYYMMDD, " / " and " + " alternates, "(v1)"/"(v2)" suffixes).
  *
  * This is a fixed convention map, NOT a per-archive manifest — it costs nothing to produce
  * (no ZIP read). The actual file set varies: V1 agents omit AgentState/AgentSpool; upload
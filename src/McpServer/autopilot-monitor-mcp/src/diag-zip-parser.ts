@@ -0,0 +1,371 @@
+/**
+ * Server-side parse of an agent diagnostics ZIP into one normalized timeline — the engine behind
+ * parse_diagnostics_zip, for clients with no local shell to unzip and grep the archive themselves.
+ *
+ * Which files are read is driven by DIAG_ZIP_MAP (the same layout contract the download tools
+ * hand to shell-capable clients): every archive entry is classified against the map, and the
+ * result reports which expected files were present, missing, or skipped for size. The parsed
+ * sources are merged chronologically:
+ *   - agent   AgentLogs/agent_YYYYMMDD.log lines (UTC), filtered by a minimum level
+ *   - ime     IME log entries that match a rules/ime-log-patterns regex (ime-log-patterns.ts);
+ *             falls back to the agent's own ime_pattern_matches.log when the raw IME logs were
+ *             dropped from the archive
+ *   - journal AgentState/journal.jsonl DecisionCore transitions
+ *   - signal  AgentState/signal-log.jsonl ingested signals
+ * final-status.json and sessioninfo.txt are returned as structured side data, not timeline rows.
+ *
+ * The parse is synchronous (inflateRawSync, every IME pattern per line) — the tool runs it through
+ * diag-zip-worker.ts so a large archive never blocks the shared event loop.
+ */
+import { DIAG_ZIP_MAP } from './diag-zip-map.js';
+import { listZipEntries, readZipEntry, type ZipEntry } from './zip-reader.js';
+import { matchImeMessage, splitImeLogEntries, type CompiledImePattern } from './ime-log-patterns.js';
+
+export type TimelineSource = 'agent' | 'ime' | 'journal' | 'signal';
+export type AgentLogLevel = 'TRACE' | 'VERBOSE' | 'DEBUG' | 'INFO' | 'WARN' | 'ERROR';
+
+const LEVEL_RANK: Record<AgentLogLevel, number> = { TRACE: 0, VERBOSE: 1, DEBUG: 2, INFO: 3, WARN: 4, ERROR: 5 };
+/** Timeline rows returned when the caller doesn't pass maxEntries — shared with the tool's schema default. */
+export const DEFAULT_MAX_TIMELINE_ENTRIES = 300;
+/** Per-message cap — a multiline CMTrace record (DO telemetry JSON, script output) can run to many KB. */
+const MAX_MESSAGE_CHARS = 500;
+/** IME log files the agent tails (ImeLogTracker.LogFilePatterns); other ImeLogs/* files are inventory-only. */
+const IME_TRACKED_FILE = /^ImeLogs\/(?:_?IntuneManagementExtension|AppWorkload|AgentExecutor|HealthScripts)(?:-\d{8}-\d{6})?\.log$/i;
+const AGENT_LOG_FILE = /^AgentLogs\/agent_\d{8}\.log$/i;
+const IME_MATCH_LOG_FILE = /^AgentLogs\/(?:ime_pattern_matches|ime-matches)\.log$/i;
+const AGENT_LOG_LINE = /^\[(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}(?:\.\d+)?)\] \[([A-Z]+)\] ?(.*)$/;
+const IME_MATCH_LINE = /^\[([^\]]*)\] \[([^\]]+)\] (.*)$/s;
+
+export interface TimelineEntry {
+  /** ISO-8601 UTC; null when the source line carries no parseable time. */
+  timestamp: string | null;
+  source: TimelineSource;
+  file: string;
+  line: number;
+  level?: string;
+  message: string;
+  patternId?: string;
+  action?: string | null;
+  groups?: Record<string, string>;
+}
+
+export interface DiagZipFile {
+  path: string;
+  sizeBytes: number;
+  /** The DIAG_ZIP_MAP entry this file belongs to (null = not in the map, e.g. an extra IME log). */
+  mapPath: string | null;
+  parsedAs: TimelineSource | 'final-status' | 'sessioninfo' | null;
+  skippedReason?: string;
+}
+
+export interface ParseDiagZipOptions {
+  /** Minimum agent-log level kept in the timeline (default WARN). */
+  agentLogMinLevel?: AgentLogLevel;
+  sources?: TimelineSource[];
+  /** Inclusive ISO window applied to timestamped entries; undated entries are always kept. */
+  from?: string;
+  to?: string;
+  maxEntries?: number;
+  /** Largest single entry inflated, in bytes (bigger files are listed with skippedReason). */
+  maxFileBytes?: number;
+  /**
+   * Device UTC offset in minutes (e.g. 60 for CET). CMTrace timestamps are device-local wall clock;
+   * the offset converts them to UTC so they merge correctly with the UTC agent log.
+   */
+  imeUtcOffsetMinutes?: number;
+}
+
+export interface DiagZipParseResult {
+  archive: { entryCount: number; totalBytes: number; truncatedArchive: boolean; agentGeneration: 'v1' | 'v2' };
+  files: DiagZipFile[];
+  /** DIAG_ZIP_MAP files expected for this agent generation but absent from the archive. */
+  missingExpected: string[];
+  finalStatus: unknown;
+  sessionInfo: Record<string, string> | null;
+  imePatternStats: { linesScanned: number; linesMatched: number; usedAgentMatchLog: boolean; byPattern: Array<{ patternId: string; count: number }> };
+  timelineCounts: Record<TimelineSource, number>;
+  timeline: TimelineEntry[];
+  timelineTruncated: boolean;
+}
+
+// ── DIAG_ZIP_MAP classification ─────────────────────────────
+
+/**
+ * Turn a human-readable map path ("AgentSpool/spool.jsonl + upload-cursor.json",
+ * "AgentLogs/ime_pattern_matches.log (v2) / ime-matches.log (v1)", "ImeLogs/AppWorkload*.log",
+ * "AdditionalLogs/") into matchers. Bare alternates inherit the first alternate's folder.
+ */
+function mapPathMatchers(mapPath: string): RegExp[] {
+  const parts = mapPath.split(/\s+[/+]\s+/).map((p) => p.replace(/\s*\(v\d\)\s*$/, '').trim());
+  const folder = parts[0].includes('/') ? parts[0].slice(0, parts[0].lastIndexOf('/') + 1) : '';
+  return parts.map((p) => {
+    const full = p.includes('/') ? p : folder + p;
+    const body = full
+      .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+      .replace(/YYYYMMDD/g, '\\d{8}')
+      .replace(/\*/g, '[^/]*');
+    return new RegExp(`^${body}${full.endsWith('/') ? '' : '$'}`, 'i');
+  });
+}
+
+const MAP_MATCHERS = DIAG_ZIP_MAP.files.map((f) => ({ file: f, matchers: mapPathMatchers(f.path) }));
+
+function mapEntryFor(path: string) {
+  return MAP_MATCHERS.find((m) => m.matchers.some((re) => re.test(path)));
+}
+
+// ── Per-source parsers ──────────────────────────────────────
+
+const clip = (s: string) => (s.length > MAX_MESSAGE_CHARS ? `${s.slice(0, MAX_MESSAGE_CHARS)}…` : s);
+
+function parseAgentLog(text: string, file: string, minLevel: AgentLogLevel): TimelineEntry[] {
+  const out: TimelineEntry[] = [];
+  let last: TimelineEntry | null = null;
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const m = AGENT_LOG_LINE.exec(raw);
+    if (!m) {
+      // Continuation (stack trace, wrapped payload) of the previous kept line.
+      if (last && raw.trim()) last.message = clip(`${last.message}\n${raw}`);
+      return;
+    }
+    const level = m[3] as AgentLogLevel;
+    if ((LEVEL_RANK[level] ?? LEVEL_RANK.INFO) < LEVEL_RANK[minLevel]) {
+      last = null;
+      return;
+    }
+    last = { timestamp: `${m[1]}T${m[2]}Z`, source: 'agent', file, line: i + 1, level, message: clip(m[4]) };
+    out.push(last);
+  });
+  return out;
+}
+
+function localToUtc(local: string | null, offsetMinutes: number): string | null {
+  if (!local) return null;
+  const ms = Date.parse(`${local}Z`);
+  return Number.isNaN(ms) ? null : new Date(ms - offsetMinutes * 60_000).toISOString();
+}
+
+function cmTraceLevel(type: number | null): string | undefined {
+  return type === 3 ? 'ERROR' : type === 2 ? 'WARN' : type === 1 ? 'INFO' : undefined;
+}
+
+function pickField(record: Record<string, unknown>, name: string): unknown {
+  // DecisionCore serializes PascalCase (Newtonsoft defaults); accept camelCase too.
+  return record[name] ?? record[name.charAt(0).toLowerCase() + name.slice(1)];
+}
+
+function parseJsonl(text: string, file: string, source: 'journal' | 'signal'): TimelineEntry[] {
+  const out: TimelineEntry[] = [];
+  text.split(/\r?\n/).forEach((raw, i) => {
+    if (!raw.trim()) return;
+    let rec: Record<string, unknown>;
+    try {
+      rec = JSON.parse(raw) as Record<string, unknown>;
+    } catch {
+      return;
+    }
+    const at = pickField(rec, 'OccurredAtUtc');
+    const timestamp = typeof at === 'string' && !Number.isNaN(Date.parse(at)) ? new Date(at).toISOString() : null;
+    if (source === 'journal') {
+      const deadEnd = pickField(rec, 'DeadEndReason');
+      const taken = pickField(rec, 'Taken') !== false;
+      out.push({
+        timestamp, source, file, line: i + 1,
+        level: taken ? 'INFO' : 'WARN',
+        message: clip(
+          `#${String(pickField(rec, 'StepIndex') ?? '?')} ${String(pickField(rec, 'Trigger') ?? '')}: ` +
+          `${String(pickField(rec, 'FromStage') ?? '?')} → ${String(pickField(rec, 'ToStage') ?? '?')}` +
+          (taken ? '' : ` (not taken${deadEnd ? `: ${String(deadEnd)}` : ''})`),
+        ),
+      });
+    } else {
+      const origin = pickField(rec, 'SourceOrigin');
+      out.push({
+        timestamp, source, file, line: i + 1,
+        message: clip(`${String(pickField(rec, 'Kind') ?? 'signal')}` +
+          ` #${String(pickField(rec, 'SessionSignalOrdinal') ?? '?')}` + (origin ? ` from ${String(origin)}` : '')),
+      });
+    }
+  });
+  return out;
+}
+
+function parseSessionInfo(text: string): Record<string, string> {
+  const info: Record<string, string> = {};
+  for (const raw of text.split(/\r?\n/)) {
+    const m = /^\s*([^:=]+?)\s*[:=]\s*(.*)$/.exec(raw);
+    if (m) info[m[1]] = m[2].trim();
+  }
+  return info;
+}
+
+// ── Public API ───────────────────────────────────────────────
+
+export function parseDiagnosticsZip(
+  zip: Buffer,
+  patterns: CompiledImePattern[],
+  options: ParseDiagZipOptions = {},
+): DiagZipParseResult {
+  const {
+    agentLogMinLevel = 'WARN',
+    sources = ['agent', 'ime', 'journal', 'signal'],
+    maxEntries = DEFAULT_MAX_TIMELINE_ENTRIES,
+    maxFileBytes = 64 * 1024 * 1024,
+    imeUtcOffsetMinutes = 0,
+  } = options;
+  const entries = listZipEntries(zip).filter((e) => !e.name.endsWith('/'));
+  const agentGeneration = entries.some((e) => /^AgentState\//i.test(e.name)) ? 'v2' : 'v1';
+
+  const files: DiagZipFile[] = [];
+  const timeline: TimelineEntry[] = [];
+  const patternCounts = new Map<string, number>();
+  let finalStatus: unknown = null;
+  let sessionInfo: Record<string, string> | null = null;
+  let linesScanned = 0;
+  let linesMatched = 0;
+  let imeLogsParsed = false;
+  const matchLogs: Array<{ entry: ZipEntry; file: DiagZipFile }> = [];
+
+  const read = (entry: ZipEntry, file: DiagZipFile): string | null => {
+    try {
+      return readZipEntry(zip, entry, maxFileBytes).toString('utf-8');
+    } catch (e) {
+      file.skippedReason = (e as Error).message;
+      file.parsedAs = null;
+      return null;
+    }
+  };
+  const recordImeMatches = (
+    message: string, localTs: string | null, level: string | undefined, file: string, line: number,
+    only?: string,
+  ) => {
+    let matches = matchImeMessage(message, only ? patterns.filter((p) => p.patternId === only) : patterns);
+    // The agent already matched this line; keep it even if today's regex (or a retired pattern) disagrees.
+    if (matches.length === 0 && only) {
+      const known = patterns.find((p) => p.patternId === only);
+      matches = [{ patternId: only, category: known?.category ?? 'unknown', action: known?.action ?? null, groups: {} }];
+    }
+    if (matches.length === 0) return;
+    linesMatched++;
+    for (const m of matches) {
+      patternCounts.set(m.patternId, (patternCounts.get(m.patternId) ?? 0) + 1);
+      timeline.push({
+        timestamp: localToUtc(localTs, imeUtcOffsetMinutes), source: 'ime', file, line, level,
+        message: clip(message), patternId: m.patternId, action: m.action, groups: m.groups,
+      });
+    }
+  };
+
+  for (const entry of entries) {
+    const file: DiagZipFile = {
+      path: entry.name,
+      sizeBytes: entry.uncompressedSize,
+      mapPath: mapEntryFor(entry.name)?.file.path ?? null,
+      parsedAs: null,
+    };
+    files.push(file);
+    const name = entry.name;
+
+    if (/(^|\/)final-status\.json$/i.test(name)) {
+      file.parsedAs = 'final-status';
+      const text = read(entry, file);
+      try { if (text !== null) finalStatus = JSON.parse(text); } catch { file.skippedReason = 'invalid JSON'; }
+    } else if (/^sessioninfo\.txt$/i.test(name)) {
+      file.parsedAs = 'sessioninfo';
+      const text = read(entry, file);
+      if (text !== null) sessionInfo = parseSessionInfo(text);
+    } else if (AGENT_LOG_FILE.test(name) && sources.includes('agent')) {
+      file.parsedAs = 'agent';
+      const text = read(entry, file);
+      if (text !== null) timeline.push(...parseAgentLog(text, name, agentLogMinLevel));
+    } else if (/^AgentState\/journal\.jsonl$/i.test(name) && sources.includes('journal')) {
+      file.parsedAs = 'journal';
+      const text = read(entry, file);
+      if (text !== null) timeline.push(...parseJsonl(text, name, 'journal'));
+    } else if (/^AgentState\/signal-log\.jsonl$/i.test(name) && sources.includes('signal')) {
+      file.parsedAs = 'signal';
+      const text = read(entry, file);
+      if (text !== null) timeline.push(...parseJsonl(text, name, 'signal'));
+    } else if (IME_TRACKED_FILE.test(name) && sources.includes('ime')) {
+      file.parsedAs = 'ime';
+      const text = read(entry, file);
+      if (text === null) continue;
+      imeLogsParsed = true;
+      for (const e of splitImeLogEntries(text)) {
+        linesScanned++;
+        recordImeMatches(e.message, e.localTimestamp, cmTraceLevel(e.type), name, e.line);
+      }
+    } else if (IME_MATCH_LOG_FILE.test(name) && sources.includes('ime')) {
+      matchLogs.push({ entry, file });
+    }
+  }
+
+  // Size caps / upload mode can drop the raw IME logs; the agent's own match log still carries
+  // every line it matched ("[sourceFile] [patternId] rawLine") — re-run just that pattern for groups.
+  const usedAgentMatchLog = !imeLogsParsed && matchLogs.length > 0;
+  if (usedAgentMatchLog) {
+    for (const { entry, file } of matchLogs) {
+      file.parsedAs = 'ime';
+      const text = read(entry, file);
+      if (text === null) continue;
+      text.split(/\r?\n(?=\[)/).forEach((raw, i) => {
+        const m = IME_MATCH_LINE.exec(raw);
+        if (!m) return;
+        linesScanned++;
+        const [parsed] = splitImeLogEntries(m[3]);
+        if (!parsed) return;
+        recordImeMatches(parsed.message, parsed.localTimestamp, cmTraceLevel(parsed.type), `${entry.name} (${m[1]})`, i + 1, m[2]);
+      });
+    }
+  }
+
+  const fromMs = options.from ? Date.parse(options.from) : -Infinity;
+  const toMs = options.to ? Date.parse(options.to) : Infinity;
+  const windowed = timeline
+    .filter((t) => {
+      if (!t.timestamp) return true;
+      const ms = Date.parse(t.timestamp);
+      return ms >= fromMs && ms <= toMs;
+    })
+    // Stable chronological merge; undated rows sort last in file order.
+    .map((t, i) => ({ t, i }))
+    .sort((a, b) => {
+      const ta = a.t.timestamp ? Date.parse(a.t.timestamp) : Infinity;
+      const tb = b.t.timestamp ? Date.parse(b.t.timestamp) : Infinity;
+      return ta - tb || a.i - b.i;
+    })
+    .map(({ t }) => t);
+
+  const timelineCounts: Record<TimelineSource, number> = { agent: 0, ime: 0, journal: 0, signal: 0 };
+  for (const t of windowed) timelineCounts[t.source]++;
+
+  const present = new Set(files.map((f) => f.mapPath).filter(Boolean));
+  const missingExpected = DIAG_ZIP_MAP.files
+    .filter((f) => f.appliesTo === 'v1+v2' || (f.appliesTo === 'v2' && agentGeneration === 'v2'))
+    .filter((f) => !f.path.endsWith('/') && !present.has(f.path))
+    .map((f) => f.path);
+
+  return {
+    archive: {
+      entryCount: entries.length,
+      totalBytes: entries.reduce((sum, e) => sum + e.uncompressedSize, 0),
+      truncatedArchive: entries.some((e) => /(^|\/)_TRUNCATED\.txt$/i.test(e.name)),
+      agentGeneration,
+    },
+    files,
+    missingExpected,
+    finalStatus,
+    sessionInfo,
+    imePatternStats: {
+      linesScanned,
+      linesMatched,
+      usedAgentMatchLog,
+      byPattern: [...patternCounts.entries()]
+        .map(([patternId, count]) => ({ patternId, count }))
+        .sort((a, b) => b.count - a.count || a.patternId.localeCompare(b.patternId)),
+    },
+    timelineCounts,
+    timeline: windowed.slice(0, maxEntries),
+    timelineTruncated: windowed.length > maxEntries,
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * Runs parseDiagnosticsZip on a worker thread for parse_diagnostics_zip.
+ *
+ * The parse is CPU-bound and synchronous — inflating every log and running the IME pattern set
+ * over each entry takes seconds on a multi-hundred-MB archive, and the HTTP transport serves every
+ * user from one event loop. Each call gets its own short-lived worker (parses are rare; a pool
+ * would hold memory for nothing) that is terminated on completion or after PARSE_TIMEOUT_MS.
+ *
+ * This file is both the launcher (imported by the tool) and the worker entry point: the worker
+ * re-loads it with `workerData.diagZipParse` set. Under tsx / vitest the module is a .ts file, so
+ * the worker registers the tsx loader (a devDependency) before loading it.
+ */
+import { isMainThread, parentPort, Worker, workerData } from 'node:worker_threads';
+import { fileURLToPath } from 'node:url';
+import { parseDiagnosticsZip, type DiagZipParseResult, type ParseDiagZipOptions } from './diag-zip-parser.js';
+import type { CompiledImePattern } from './ime-log-patterns.js';
+import { ZipFormatError } from './zip-reader.js';
+
+/** Hard ceiling for one parse — the worker is killed and the tool reports the timeout. */
+export const PARSE_TIMEOUT_MS = 60_000;
+
+interface ParseJob {
+  diagZipParse: true;
+  zip: Uint8Array;
+  patterns: CompiledImePattern[];
+  options: ParseDiagZipOptions;
+}
+
+type ParseReply =
+  | { ok: true; result: DiagZipParseResult }
+  | { ok: false; name: string; message: string };
+
+if (!isMainThread && parentPort && (workerData as Partial<ParseJob> | null)?.diagZipParse) {
+  const job = workerData as ParseJob;
+  let reply: ParseReply;
+  try {
+    const zip = Buffer.from(job.zip.buffer, job.zip.byteOffset, job.zip.byteLength);
+    reply = { ok: true, result: parseDiagnosticsZip(zip, job.patterns, job.options) };
+  } catch (e) {
+    const err = e as Error;
+    reply = { ok: false, name: err.name, message: err.message };
+  }
+  parentPort.postMessage(reply);
+}
+
+/** parseDiagnosticsZip off the event loop. Errors keep their message (and ZipFormatError its class). */
+export function parseDiagnosticsZipInWorker(
+  zip: Buffer,
+  patterns: CompiledImePattern[],
+  options: ParseDiagZipOptions = {},
+  timeoutMs = PARSE_TIMEOUT_MS,
+): Promise<DiagZipParseResult> {
+  const job: ParseJob = { diagZipParse: true, zip, patterns, options };
+  const worker = import.meta.url.endsWith('.ts')
+    // Worker execArgv loaders don't apply to the entry module itself — register tsx first, then load.
+    ? new Worker(
+      `import('tsx/esm/api').then((tsx) => { tsx.register(); return import(${JSON.stringify(import.meta.url)}); });`,
+      { eval: true, workerData: job },
+    )
+    : new Worker(fileURLToPath(import.meta.url), { workerData: job });
+
+  return new Promise<DiagZipParseResult>((resolve, reject) => {
+    let settled = false;
+    const settle = (fn: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      void worker.terminate();
+      fn();
+    };
+    const timer = setTimeout(
+      () => settle(() => reject(new Error(`Diagnostics ZIP parse exceeded ${timeoutMs / 1000}s — narrow with sources or a smaller archive.`))),
+      timeoutMs,
+    );
+    worker.once('message', (reply: ParseReply) => settle(() => {
+      if (reply.ok) resolve(reply.result);
+      else reject(reply.name === 'ZipFormatError' ? new ZipFormatError(reply.message) : new Error(reply.message));
+    }));
+    worker.once('error', (err) => settle(() => reject(err)));
+    worker.once('exit', (code) => settle(() => reject(new Error(`Diagnostics ZIP parser exited with code ${code}.`))));
+  });
+}
@@ -0,0 +1,103 @@
+/**
+ * Content-hash keyed embedding cache — the incremental half of knowledge-base indexing.
+ *
+ * An embedding depends only on the document TEXT and the model, so the cache key is
+ * sha256(text) and the whole cache is bound to one model name. Re-indexing after a rule edit then
+ * embeds only documents whose text actually changed (or is new); everything else is a map lookup.
+ * Metadata is deliberately NOT part of the key: results carry the current document's metadata
+ * verbatim, so a metadata-only edit needs no new vector.
+ *
+ * Optionally persisted as JSON (EMBEDDING_CACHE_PATH) so a restart with edited rules — where the
+ * build-time search-index.json is rejected as stale — still re-embeds only the delta. The file is
+ * written atomically (temp file + rename) and a model mismatch or malformed file is discarded,
+ * never trusted.
+ */
+
+import { createHash } from 'node:crypto';
+import { readFileSync, renameSync, writeFileSync } from 'node:fs';
+import type { PrecomputedDocument } from './vector-search-provider.js';
+
+interface EmbeddingCacheFile {
+  model: string;
+  entries: Record<string, number[]>;
+}
+
+/** Cache key for a document's embedding. */
+export function contentHash(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+export class EmbeddingCache {
+  private entries = new Map<string, number[]>();
+
+  constructor(readonly model: string, private readonly path?: string) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get persistent(): boolean {
+    return this.path !== undefined;
+  }
+
+  get(text: string): number[] | undefined {
+    return this.entries.get(contentHash(text));
+  }
+
+  set(text: string, embedding: number[]): void {
+    this.entries.set(contentHash(text), embedding);
+  }
+
+  /** Seed from already-embedded documents (e.g. a stale precomputed index computed with the same model). */
+  seed(docs: PrecomputedDocument[]): void {
+    for (const d of docs) {
+      if (typeof d.text === 'string' && Array.isArray(d.embedding)) this.set(d.text, d.embedding);
+    }
+  }
+
+  /** Drop every entry whose text is not in `liveTexts` — keeps the file bounded as rules churn. */
+  retain(liveTexts: Iterable<string>): number {
+    const keep = new Set([...liveTexts].map(contentHash));
+    let removed = 0;
+    for (const key of this.entries.keys()) {
+      if (!keep.has(key)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  /** Load the persisted file, if any. Returns the number of entries restored (0 on miss/mismatch). */
+  load(): number {
+    if (!this.path) return 0;
+    let parsed: Partial<EmbeddingCacheFile>;
+    try {
+      parsed = JSON.parse(readFileSync(this.path, 'utf-8')) as Partial<EmbeddingCacheFile>;
+    } catch {
+      return 0;
+    }
+    if (parsed.model !== this.model || !parsed.entries || typeof parsed.entries !== 'object') return 0;
+    let restored = 0;
+    for (const [key, vec] of Object.entries(parsed.entries)) {
+      if (Array.isArray(vec)) {
+        this.entries.set(key, vec);
+        restored++;
+      }
+    }
+    return restored;
+  }
+
+  /** Persist atomically. A no-op for an in-memory cache; failures are logged, never thrown. */
+  save(): void {
+    if (!this.path) return;
+    const file: EmbeddingCacheFile = { model: this.model, entries: Object.fromEntries(this.entries) };
+    const tmp = `${this.path}.${process.pid}.tmp`;
+    try {
+      writeFileSync(tmp, JSON.stringify(file));
+      renameSync(tmp, this.path);
+    } catch (err) {
+      console.error(`[embedding-cache] Failed to persist ${this.path}:`, err);
+    }
+  }
+}
@@ -0,0 +1,280 @@
+/**
+ * Time-series + anomaly detection over enrollment data — the engine behind the `get_enrollment_trends`
+ * tool. get_metrics and friends return snapshots, so "failure rate doubled since Tuesday" was left to
+ * the reader; this module buckets sessions (and app_install_failed events) into daily or hourly
+ * series, scores every bucket against a rolling baseline and explains each anomaly with the models,
+ * apps and agent versions that contributed more than their baseline share.
+ *
+ * Baselines (only PRIOR buckets ever feed a bucket's baseline, so an incident never masks itself):
+ *   - zscore:   mean / standard deviation of the preceding `baselineBuckets` buckets.
+ *   - seasonal: median of the same weekday (daily) / hour-of-day (hourly) over the preceding
+ *               `baselineBuckets` seasons, scaled by the median absolute deviation — robust to
+ *               the Monday rush and the overnight lull that trip a plain z-score.
+ * Rate metrics skip buckets with fewer than `minSessions` sessions: two failures out of three
+ * sessions at 3 a.m. is noise, not an incident.
+ *
+ * Pure and backend-free: the tool drains the session list and the app_install_failed events for the
+ * window and hands both in.
+ */
+
+type Row = Record<string, unknown>;
+
+export type TrendBucket = 'day' | 'hour';
+export type AnomalyMethod = 'zscore' | 'seasonal';
+export type TrendMetric = 'failureRate' | 'medianDurationSeconds' | 'appInstallFailures';
+export type AttributionDimension = 'models' | 'apps' | 'agentVersions';
+
+/** Lean session projection the series and attribution read. */
+export const TREND_SESSION_FIELDS = 'sessionId,status,model,agentVersion,startedAt,completedAt,durationSeconds';
+/** Lean raw-event projection for app_install_failed rows (stored column names). */
+export const TREND_APP_EVENT_FIELDS = 'SessionId,Source,Timestamp';
+
+export interface TrendOptions {
+  bucket: TrendBucket;
+  method: AnomalyMethod;
+  /** Window start (inclusive) and end (exclusive), epoch ms. */
+  from: number;
+  to: number;
+  /** Prior buckets (zscore) or prior seasons (seasonal) in the baseline. */
+  baselineBuckets: number;
+  /** |score| at or above which a bucket is an anomaly. */
+  threshold: number;
+  /** Rate metrics ignore buckets with fewer sessions than this. */
+  minSessions: number;
+  /** Apps tracked as their own series (most failures first). */
+  maxApps: number;
+}
+
+export interface TrendPoint {
+  t: string;
+  value: number | null;
+  /** Sample behind the value: sessions (failureRate), finished sessions (duration), failures (apps). */
+  n: number;
+}
+
+export interface Contributor {
+  value: string;
+  count: number;
+  expected: number;
+  excess: number;
+}
+
+export interface TrendAnomaly {
+  metric: TrendMetric;
+  app?: string;
+  t: string;
+  value: number;
+  baseline: number;
+  score: number;
+  direction: 'up' | 'down';
+  contributors: Partial<Record<AttributionDimension, Contributor[]>>;
+}
+
+export interface TrendResult {
+  bucket: TrendBucket;
+  method: AnomalyMethod;
+  buckets: string[];
+  series: {
+    failureRate: TrendPoint[];
+    medianDurationSeconds: TrendPoint[];
+    appInstallFailures: Record<string, TrendPoint[]>;
+  };
+  anomalies: TrendAnomaly[];
+}
+
+const BUCKET_MS: Record<TrendBucket, number> = { day: 86_400_000, hour: 3_600_000 };
+/** Buckets per season: a week of days, a day of hours. */
+const SEASON_LENGTH: Record<TrendBucket, number> = { day: 7, hour: 24 };
+/** Baseline points required before a bucket is scored at all. */
+const MIN_BASELINE_POINTS = 3;
+const MAX_CONTRIBUTORS = 3;
+/** 1.4826 × MAD estimates σ for normally distributed data. */
+const MAD_SCALE = 1.4826;
+
+const str = (v: unknown): string | null => (v == null || v === '' ? null : String(v));
+const round = (n: number, digits = 4) => Math.round(n * 10 ** digits) / 10 ** digits;
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const s = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(s.length / 2);
+  return s.length % 2 ? s[mid] : (s[mid - 1] + s[mid]) / 2;
+}
+
+function durationSeconds(row: Row): number | null {
+  const d = Number(row.durationSeconds);
+  if (row.durationSeconds != null && Number.isFinite(d) && d >= 0) return d;
+  const start = Date.parse(String(row.startedAt ?? ''));
+  const end = Date.parse(String(row.completedAt ?? ''));
+  return Number.isNaN(start) || Number.isNaN(end) || end < start ? null : Math.round((end - start) / 1000);
+}
+
+/** Score of `value` against a baseline series, or null when the baseline is too thin to judge. */
+export function scoreAgainstBaseline(value: number, baseline: number[], method: AnomalyMethod): { baseline: number; score: number } | null {
+  if (baseline.length < MIN_BASELINE_POINTS) return null;
+  if (method === 'zscore') {
+    const mean = baseline.reduce((a, b) => a + b, 0) / baseline.length;
+    const sd = Math.sqrt(baseline.reduce((a, b) => a + (b - mean) ** 2, 0) / baseline.length);
+    // A perfectly flat baseline would make any wiggle infinite; floor the spread at 5% of the level.
+    const spread = Math.max(sd, Math.abs(mean) * 0.05, 1e-9);
+    return { baseline: mean, score: (value - mean) / spread };
+  }
+  const m = median(baseline)!;
+  const mad = median(baseline.map((b) => Math.abs(b - m)))! * MAD_SCALE;
+  const spread = Math.max(mad, Math.abs(m) * 0.05, 1e-9);
+  return { baseline: m, score: (value - m) / spread };
+}
+
+/** Indices of the buckets forming bucket i's baseline. */
+function baselineIndices(i: number, opts: TrendOptions): number[] {
+  const out: number[] = [];
+  if (opts.method === 'zscore') {
+    for (let j = Math.max(0, i - opts.baselineBuckets); j < i; j++) out.push(j);
+  } else {
+    const season = SEASON_LENGTH[opts.bucket];
+    for (let k = 1; k <= opts.baselineBuckets && i - k * season >= 0; k++) out.push(i - k * season);
+  }
+  return out;
+}
+
+/** Values whose share of the bucket's incidents exceeds their baseline share, largest excess first. */
+export function rankContributors(bucketValues: Array<string | null>, baselineValues: Array<string | null>): Contributor[] {
+  const count = (vals: Array<string | null>) => {
+    const m = new Map<string, number>();
+    for (const v of vals) m.set(v ?? '(unknown)', (m.get(v ?? '(unknown)') ?? 0) + 1);
+    return m;
+  };
+  const inBucket = count(bucketValues);
+  const inBaseline = count(baselineValues);
+  const total = bucketValues.length;
+  const baseTotal = baselineValues.length;
+  return [...inBucket.entries()]
+    .map(([value, c]) => {
+      const expected = baseTotal ? ((inBaseline.get(value) ?? 0) / baseTotal) * total : 0;
+      return { value, count: c, expected: round(expected, 2), excess: round(c - expected, 2) };
+    })
+    .filter((c) => c.excess > 0)
+    .sort((a, b) => b.excess - a.excess || b.count - a.count)
+    .slice(0, MAX_CONTRIBUTORS);
+}
+
+export function buildEnrollmentTrends(sessions: Row[], appFailureEvents: Row[], opts: TrendOptions): TrendResult {
+  const size = BUCKET_MS[opts.bucket];
+  const start = Math.floor(opts.from / size) * size;
+  const count = Math.max(1, Math.ceil((opts.to - start) / size));
+  const label = (ms: number) => {
+    const iso = new Date(ms).toISOString();
+    return opts.bucket === 'day' ? iso.slice(0, 10) : `${iso.slice(0, 13)}:00Z`;
+  };
+  const labels = Array.from({ length: count }, (_, i) => label(start + i * size));
+  const indexOf = (ts: unknown): number | null => {
+    const ms = Date.parse(String(ts ?? ''));
+    if (Number.isNaN(ms) || ms < start || ms >= opts.to) return null;
+    return Math.floor((ms - start) / size);
+  };
+
+  const sessionsById = new Map<string, Row>();
+  const byBucket: Row[][] = labels.map(() => []);
+  for (const s of sessions) {
+    const i = indexOf(s.startedAt);
+    if (i === null) continue;
+    byBucket[i].push(s);
+    if (s.sessionId) sessionsById.set(String(s.sessionId).toLowerCase(), s);
+  }
+
+  const appEventsByBucket: Row[][] = labels.map(() => []);
+  const appTotals = new Map<string, number>();
+  for (const e of appFailureEvents) {
+    const i = indexOf(e.Timestamp ?? e.timestamp);
+    if (i === null) continue;
+    appEventsByBucket[i].push(e);
+    const app = appOf(e);
+    appTotals.set(app, (appTotals.get(app) ?? 0) + 1);
+  }
+  const trackedApps = [...appTotals.entries()].sort((a, b) => b[1] - a[1]).slice(0, opts.maxApps).map(([a]) => a);
+
+  // Per-bucket incident rows for each metric: what attribution compares against the baseline.
+  const failed = byBucket.map((rows) => rows.filter((r) => r.status === 'Failed'));
+  const finished = byBucket.map((rows) => rows.filter((r) => r.status === 'Failed' || r.status === 'Succeeded'));
+
+  const failureRate: TrendPoint[] = labels.map((t, i) => ({
+    t,
+    value: finished[i].length >= opts.minSessions ? round(failed[i].length / finished[i].length) : null,
+    n: finished[i].length,
+  }));
+  const durations = byBucket.map((rows) => rows.map(durationSeconds).filter((d): d is number => d !== null));
+  const medianDurationSeconds: TrendPoint[] = labels.map((t, i) => ({
+    t,
+    value: durations[i].length >= opts.minSessions ? median(durations[i]) : null,
+    n: durations[i].length,
+  }));
+  // App failures are normalized per started session, so a busy Monday is not an "anomaly" by volume alone.
+  const appInstallFailures: Record<string, TrendPoint[]> = {};
+  for (const app of trackedApps) {
+    appInstallFailures[app] = labels.map((t, i) => {
+      const n = appEventsByBucket[i].filter((e) => appOf(e) === app).length;
+      return { t, value: byBucket[i].length >= opts.minSessions ? round(n / byBucket[i].length) : null, n };
+    });
+  }
+
+  const sessionOf = (e: Row) => sessionsById.get(String(e.SessionId ?? e.sessionId ?? '').toLowerCase());
+  const attribute = (incidents: (i: number) => { sessions: Row[]; appEvents: Row[] }, i: number, base: number[]) => {
+    const now = incidents(i);
+    const prior = base.map(incidents);
+    const priorSessions = prior.flatMap((p) => p.sessions);
+    const priorApps = prior.flatMap((p) => p.appEvents);
+    const contributors: TrendAnomaly['contributors'] = {
+      models: rankContributors(now.sessions.map((s) => str(s.model)), priorSessions.map((s) => str(s.model))),
+      agentVersions: rankContributors(now.sessions.map((s) => str(s.agentVersion)), priorSessions.map((s) => str(s.agentVersion))),
+    };
+    if (now.appEvents.length) contributors.apps = rankContributors(now.appEvents.map(appOf), priorApps.map(appOf));
+    return contributors;
+  };
+
+  const anomalies: TrendAnomaly[] = [];
+  const scan = (
+    metric: TrendMetric,
+    series: TrendPoint[],
+    incidents: (i: number) => { sessions: Row[]; appEvents: Row[] },
+    app?: string,
+  ) => {
+    series.forEach((p, i) => {
+      if (p.value === null) return;
+      const base = baselineIndices(i, opts).filter((j) => series[j].value !== null);
+      const scored = scoreAgainstBaseline(p.value, base.map((j) => series[j].value!), opts.method);
+      if (!scored || Math.abs(scored.score) < opts.threshold) return;
+      anomalies.push({
+        metric,
+        ...(app ? { app } : {}),
+        t: p.t,
+        value: p.value,
+        baseline: round(scored.baseline),
+        score: round(scored.score, 2),
+        direction: scored.score > 0 ? 'up' : 'down',
+        contributors: attribute(incidents, i, base),
+      });
+    });
+  };
+
+  scan('failureRate', failureRate, (i) => ({ sessions: failed[i], appEvents: appEventsByBucket[i] }));
+  // Duration incidents = sessions slower than the window-wide median, the same yardstick for the
+  // anomalous bucket and its baseline.
+  const windowMedianDuration = median(durations.flat()) ?? 0;
+  scan('medianDurationSeconds', medianDurationSeconds, (i) => ({
+    sessions: byBucket[i].filter((r) => (durationSeconds(r) ?? -1) > windowMedianDuration),
+    appEvents: [],
+  }));
+  for (const app of trackedApps) {
+    scan('appInstallFailures', appInstallFailures[app], (i) => {
+      const events = appEventsByBucket[i].filter((e) => appOf(e) === app);
+      return { sessions: events.map(sessionOf).filter((s): s is Row => !!s), appEvents: events };
+    }, app);
+  }
+
+  anomalies.sort((a, b) => Math.abs(b.score) - Math.abs(a.score));
+  return { bucket: opts.bucket, method: opts.method, buckets: labels, series: { failureRate, medianDurationSeconds, appInstallFailures }, anomalies };
+}
+
+function appOf(e: Row): string {
+  return str(e.Source ?? e.source ?? e.appName) ?? '(unknown app)';
+}
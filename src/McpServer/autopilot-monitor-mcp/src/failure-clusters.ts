@@ -0,0 +1,199 @@
+/**
+ * Fingerprinting + ranking of failed sessions — the engine behind the `cluster_failures` tool.
+ * "Why did 40 devices fail this week" used to mean a flat search_sessions page plus dozens of
+ * get_session_summary calls, with the grouping done in the model's head. This module groups the
+ * failures deterministically so the model only has to explain the top clusters.
+ *
+ * Pure and backend-free: the tool pages through the failed sessions, optionally pulls each one's
+ * event stream, and hands both in. A session whose events could not be fetched still clusters on
+ * its session-level fields (failingApp / firstError stay null).
+ */
+import { isBenignHealthDetectionReport } from './tools/shared.js';
+
+type Row = Record<string, unknown>;
+
+/** Event-data keys that carry an error / exit code, in precedence order. */
+const ERROR_CODE_KEYS = ['errorCode', 'hresult', 'exitCode'] as const;
+/** Phase sentinels that say nothing about WHERE a session stopped (-1 = Unknown, 99 = Failed). */
+const NON_INFORMATIVE_PHASES = new Set(['-1', '99']);
+
+const MAX_EXAMPLE_SESSIONS = 5;
+const MAX_FACET_VALUES = 5;
+const MAX_FAILURE_REASON_CHARS = 200;
+
+export interface FailureFingerprint {
+  failureReason: string | null;
+  lastPhase: string | null;
+  failingApp: string | null;
+  firstErrorEventType: string | null;
+  firstErrorCode: string | null;
+}
+
+export interface FailedSessionSample {
+  session: Row;
+  /** Event stream of the session, or null when it was not fetched / not available. */
+  events: Row[] | null;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface FailureCluster {
+  fingerprint: FailureFingerprint;
+  count: number;
+  /** Fraction of all clustered sessions (0..1, 3 decimals). */
+  share: number;
+  exampleSessionIds: string[];
+  models: FacetCount[];
+  agentVersions: FacetCount[];
+  firstSeen: string | null;
+  lastSeen: string | null;
+}
+
+export interface ClusterResult {
+  totalSessions: number;
+  clusterCount: number;
+  clusters: FailureCluster[];
+  /** Clusters beyond maxClusters that were dropped from `clusters` (smallest first). */
+  omittedClusters: number;
+}
+
+const ts = (e: Row): number => Date.parse(String(e.timestamp ?? ''));
+
+const str = (v: unknown): string | null => (v == null || v === '' ? null : String(v));
+
+/**
+ * Collapse the per-device noise in a failure reason (GUIDs, timestamps) so two devices failing the
+ * same way share a fingerprint. Error codes are deliberately kept — they ARE the signal.
+ */
+export function normalizeFailureReason(reason: unknown): string | null {
+  const s = str(reason);
+  if (!s) return null;
+  return s
+    .replace(/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<guid>')
+    .replace(/\b\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?/g, '<time>')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_FAILURE_REASON_CHARS);
+}
+
+function errorCode(e: Row): string | null {
+  const d = (e.data ?? {}) as Row;
+  for (const k of ERROR_CODE_KEYS) {
+    const v = str(d[k]);
+    if (v) return v;
+  }
+  return null;
+}
+
+function isError(e: Row): boolean {
+  const sev = String(e.severity ?? '');
+  if (sev !== 'Error' && sev !== 'Critical') return false;
+  return !isBenignHealthDetectionReport(String(e.eventType ?? ''), e.data as Row | undefined);
+}
+
+/**
+ * Fingerprint one failed session. With events: lastPhase is the phase of the latest event that
+ * carries a real phase, failingApp the first app_install_failed, firstError the earliest
+ * Error/Critical event. Without events: lastPhase falls back to the session's currentPhase.
+ */
+export function fingerprintFailure(
+  sample: FailedSessionSample,
+  phaseLabel: (phase: unknown, enrollmentType: unknown) => string = (p) => String(p),
+): FailureFingerprint {
+  const s = sample.session;
+  const timed = (sample.events ?? []).filter((e) => !Number.isNaN(ts(e))).sort((a, b) => ts(a) - ts(b));
+
+  let lastPhaseRaw: unknown = null;
+  for (let i = timed.length - 1; i >= 0; i--) {
+    const p = timed[i].phase;
+    if (p != null && !NON_INFORMATIVE_PHASES.has(String(p))) { lastPhaseRaw = p; break; }
+  }
+  if (lastPhaseRaw == null && s.currentPhase != null) lastPhaseRaw = s.currentPhase;
+
+  const failedApp = timed.find((e) => e.eventType === 'app_install_failed');
+  const appData = (failedApp?.data ?? {}) as Row;
+  const firstError = timed.find(isError);
+
+  return {
+    failureReason: normalizeFailureReason(s.failureReason),
+    lastPhase: lastPhaseRaw == null ? null : phaseLabel(lastPhaseRaw, s.enrollmentType),
+    failingApp: failedApp ? str(appData.appName ?? appData.appId ?? failedApp.source) : null,
+    firstErrorEventType: firstError ? str(firstError.eventType) : null,
+    firstErrorCode: firstError ? errorCode(firstError) : null,
+  };
+}
+
+/** Stable grouping key — field order fixed, null rendered distinctly from the string "null". */
+export function fingerprintKey(f: FailureFingerprint): string {
+  return JSON.stringify([f.failureReason, f.lastPhase, f.failingApp, f.firstErrorEventType, f.firstErrorCode]);
+}
+
+function topFacets(counts: Map<string, number>): FacetCount[] {
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, MAX_FACET_VALUES)
+    .map(([value, count]) => ({ value, count }));
+}
+
+/** Group failed sessions by fingerprint and rank the clusters by size (largest first). */
+export function clusterFailures(
+  samples: FailedSessionSample[],
+  maxClusters: number,
+  phaseLabel?: (phase: unknown, enrollmentType: unknown) => string,
+): ClusterResult {
+  interface Acc {
+    fingerprint: FailureFingerprint;
+    count: number;
+    sessionIds: string[];
+    models: Map<string, number>;
+    agentVersions: Map<string, number>;
+    startedAt: string[];
+  }
+  const groups = new Map<string, Acc>();
+  for (const sample of samples) {
+    const fingerprint = fingerprintFailure(sample, phaseLabel);
+    const key = fingerprintKey(fingerprint);
+    let acc = groups.get(key);
+    if (!acc) {
+      acc = { fingerprint, count: 0, sessionIds: [], models: new Map(), agentVersions: new Map(), startedAt: [] };
+      groups.set(key, acc);
+    }
+    acc.count++;
+    const s = sample.session;
+    const id = str(s.sessionId);
+    if (id) acc.sessionIds.push(id);
+    const model = str(s.model) ?? 'Unknown';
+    acc.models.set(model, (acc.models.get(model) ?? 0) + 1);
+    const agent = str(s.agentVersion) ?? 'Unknown';
+    acc.agentVersions.set(agent, (acc.agentVersions.get(agent) ?? 0) + 1);
+    const started = str(s.startedAt);
+    if (started) acc.startedAt.push(started);
+  }
+
+  const total = samples.length;
+  const ranked = [...groups.values()]
+    .map((acc): FailureCluster => {
+      const sorted = [...acc.startedAt].sort();
+      return {
+        fingerprint: acc.fingerprint,
+        count: acc.count,
+        share: total ? Math.round((acc.count / total) * 1000) / 1000 : 0,
+        exampleSessionIds: acc.sessionIds.slice(0, MAX_EXAMPLE_SESSIONS),
+        models: topFacets(acc.models),
+        agentVersions: topFacets(acc.agentVersions),
+        firstSeen: sorted[0] ?? null,
+        lastSeen: sorted[sorted.length - 1] ?? null,
+      };
+    })
+    .sort((a, b) => b.count - a.count || (b.lastSeen ?? '').localeCompare(a.lastSeen ?? ''));
+
+  return {
+    totalSessions: total,
+    clusterCount: ranked.length,
+    clusters: ranked.slice(0, maxClusters),
+    omittedClusters: Math.max(0, ranked.length - maxClusters),
+  };
+}
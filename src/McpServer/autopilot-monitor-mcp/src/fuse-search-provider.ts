@@ -7,7 +7,7 @@
  */
 
 import Fuse from 'fuse.js';
-import type { SearchDocument, SearchOptions, SearchProvider, SearchResult } from './search-provider.js';
+import type { ReindexStats, SearchDocument, SearchOptions, SearchProvider, SearchResult } from './search-provider.js';
 import { scanLexical } from './search-provider.js';
 
 export class FuseSearchProvider implements SearchProvider {
@@ -24,7 +24,22 @@ export class FuseSearchProvider implements SearchProvider {
 
   async index(docs: SearchDocument[]): Promise<void> {
     this.documents.push(...docs);
-    this.fuse = new Fuse(this.documents, {
+    this.fuse = this.buildFuse(this.documents);
+  }
+
+  /** Rebuilding a Fuse index is milliseconds — a reindex simply swaps in a fresh one. */
+  async reindex(docs: SearchDocument[]): Promise<ReindexStats> {
+    const liveIds = new Set(docs.map((d) => d.id));
+    const removed = this.documents.filter((d) => !liveIds.has(d.id)).length;
+    const documents = [...docs];
+    const fuse = this.buildFuse(documents);
+    this.documents = documents;
+    this.fuse = fuse;
+    return { total: documents.length, embedded: 0, reused: 0, removed };
+  }
+
+  private buildFuse(documents: SearchDocument[]): Fuse<SearchDocument> {
+    return new Fuse(documents, {
       keys: [
         { name: 'text', weight: 0.7 },
         { name: 'id', weight: 0.15 },
@@ -0,0 +1,191 @@
+/**
+ * SearchProvider that runs a semantic (vector) and a fuzzy-text (Fuse) provider side by side and
+ * merges their rankings with reciprocal-rank fusion.
+ *
+ * Why: the two backends fail in opposite directions. Embeddings are great for intent queries
+ * ("app stuck downloading") but rank an exact rule title or ID below loosely related rules; Fuse
+ * nails exact titles/IDs but knows nothing about meaning. Their scores live on different scales
+ * (cosine vs inverted Fuse distance — see SearchProvider.semanticCapable), so they cannot simply
+ * be added. RRF sidesteps that by fusing RANKS: each backend contributes weight / (k + rank).
+ *
+ * Calibrated score: raw RRF barely separates candidates (with k=60, rank 40 still earns 60% of
+ * rank 1's weight), so a 0.3 minScore would keep nearly everything. Each rank's weight is first
+ * measured against the candidate window — 1/(k+rank) minus what a document just past the cut would
+ * get — so rank 1 keeps its full weight and the last candidate close to none. The fused sum is then
+ * divided by the best attainable sum (rank 1 in every backend that ran), giving 0..1 where 1.0 =
+ * "every backend ranked this first" and 0.5 = "one of two backends ranked it first, the other did
+ * not return it". A backend that returned nothing still counts (finding nothing is evidence); only a
+ * backend that FAILED drops out of the denominator, and that fallback is logged.
+ * Opaque error codes are handled by the literal lexicalMatch list: a document naming the code
+ * verbatim is exact evidence and is pinned to 1.0, matching scanLexical's convention.
+ *
+ * Fused scores are NOT cosines, so `semanticCapable` is false — consumers with cosine-calibrated
+ * thresholds (event-type candidate selection) must keep a plain vector index.
+ */
+
+import type { BackendContribution, ReindexStats, SearchDocument, SearchOptions, SearchProvider, SearchResult } from './search-provider.js';
+import { extractErrorCodeNeedles } from './search-provider.js';
+
+/** Standard RRF damping constant (Cormack et al.) — flattens the gap between adjacent ranks. */
+const DEFAULT_RRF_K = 60;
+/** Each backend is asked for this many candidates per requested result (min MIN_CANDIDATES). */
+const CANDIDATE_MULTIPLIER = 4;
+const MIN_CANDIDATES = 20;
+/**
+ * Per-backend noise floors for candidates. Without them the vector backend always returns a
+ * rank-1 document — even for a nonsense query — and RRF would promote it to a 0.5 fused score.
+ * The semantic floor sits just under the ~0.25 band where relevant-but-marginal MiniLM hits land;
+ * the fuzzy floor is the Fuse provider's own default.
+ */
+const DEFAULT_SEMANTIC_FLOOR = 0.2;
+const DEFAULT_FUZZY_FLOOR = 0.3;
+const ERROR_CODE_BACKEND = 'error-code';
+
+export interface HybridSearchConfig {
+  rrfK?: number;
+  semanticWeight?: number;
+  fuzzyWeight?: number;
+  semanticFloor?: number;
+  fuzzyFloor?: number;
+}
+
+interface RankedList {
+  backend: string;
+  weight: number;
+  /** null = the backend failed (excluded from calibration); [] = it ran and found nothing. */
+  results: SearchResult[] | null;
+}
+
+/**
+ * Fuse ranked lists into calibrated 0..1 scores. Exported for unit tests; `exact` hits (literal
+ * error-code matches) are pinned to 1.0 and do not count toward the calibration denominator.
+ * `depth` is the candidate window each backend was asked for (widened to the longest list).
+ */
+export function fuseRankings(lists: RankedList[], exact: SearchResult[], rrfK = DEFAULT_RRF_K, depth = MIN_CANDIDATES): SearchResult[] {
+  const active = lists.filter((l): l is RankedList & { results: SearchResult[] } => l.results !== null);
+  const window = Math.max(depth, ...active.map((l) => l.results.length));
+  // A document past the window would rank window+1 — it is the zero point, not 1/(k+window+1).
+  const rankWeight = (rank: number) => 1 / (rrfK + rank) - 1 / (rrfK + window + 1);
+  const maxAttainable = active.reduce((sum, l) => sum + l.weight * rankWeight(1), 0);
+
+  const fused = new Map<string, SearchResult & { contributions: BackendContribution[] }>();
+  const entry = (r: SearchResult) => {
+    let e = fused.get(r.id);
+    if (!e) {
+      e = { id: r.id, text: r.text, metadata: r.metadata, score: 0, contributions: [] };
+      fused.set(r.id, e);
+    }
+    return e;
+  };
+
+  if (maxAttainable > 0) {
+    for (const list of active) {
+      list.results.forEach((r, i) => {
+        const share = list.weight * rankWeight(i + 1) / maxAttainable;
+        const e = entry(r);
+        e.score += share;
+        e.contributions.push({ backend: list.backend, rank: i + 1, backendScore: round3(r.score), share });
+      });
+    }
+  }
+  for (const r of exact) {
+    const e = entry(r);
+    // Exact evidence tops out the score; the literal match is credited with whatever the rank
+    // fusion left on the table, so the shares still sum to the score.
+    e.contributions.push({ backend: ERROR_CODE_BACKEND, rank: 1, backendScore: 1, share: Math.max(0, 1 - e.score) });
+    e.score = 1;
+  }
+
+  return [...fused.values()]
+    .map((e) => ({ ...e, score: Math.min(1, e.score), contributions: e.contributions.map((c) => ({ ...c, share: round3(c.share) })) }))
+    .sort((a, b) => b.score - a.score || b.contributions.length - a.contributions.length || a.id.localeCompare(b.id));
+}
+
+function round3(n: number): number {
+  return Math.round(n * 1000) / 1000;
+}
+
+export class HybridSearchProvider implements SearchProvider {
+  readonly name: string;
+  // Fused rank scores are not embedding cosines — see the header comment.
+  readonly semanticCapable = false;
+  private readonly config: Required<HybridSearchConfig>;
+  /** Logs the semantic fallback once per outage instead of on every query. */
+  private semanticDown = false;
+
+  constructor(
+    private readonly semantic: SearchProvider,
+    private readonly fuzzy: SearchProvider,
+    config: HybridSearchConfig = {},
+  ) {
+    this.name = `hybrid(${semantic.name}+${fuzzy.name})`;
+    this.config = {
+      rrfK: config.rrfK ?? DEFAULT_RRF_K,
+      semanticWeight: config.semanticWeight ?? 1,
+      fuzzyWeight: config.fuzzyWeight ?? 1,
+      semanticFloor: config.semanticFloor ?? DEFAULT_SEMANTIC_FLOOR,
+      fuzzyFloor: config.fuzzyFloor ?? DEFAULT_FUZZY_FLOOR,
+    };
+  }
+
+  get size(): number {
+    return this.semantic.size;
+  }
+
+  async index(docs: SearchDocument[]): Promise<void> {
+    await this.semantic.index(docs);
+    await this.fuzzy.index(docs);
+  }
+
+  /** Reindex both halves; the stats come from the semantic half (the only one that embeds). */
+  async reindex(docs: SearchDocument[]): Promise<ReindexStats> {
+    if (!this.semantic.reindex || !this.fuzzy.reindex) {
+      throw new Error(`[hybrid-search] ${this.name}: both backends must support reindex`);
+    }
+    const stats = await this.semantic.reindex(docs);
+    await this.fuzzy.reindex(docs);
+    return stats;
+  }
+
+  async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const { topK = 5, minScore = 0.3 } = options;
+    const depth = Math.max(topK * CANDIDATE_MULTIPLIER, MIN_CANDIDATES);
+
+    const [semantic, fuzzy] = await Promise.all([
+      // An embedder failure (model load) must not take the fuzzy half down with it — the result
+      // contributions show the semantic backend missing.
+      this.semantic.search(query, { topK: depth, minScore: this.config.semanticFloor }).then(
+        (results) => {
+          if (this.semanticDown) console.error(`[hybrid-search] ${this.semantic.name} recovered — semantic ranking restored.`);
+          this.semanticDown = false;
+          return results;
+        },
+        (err) => {
+          if (!this.semanticDown) console.error(`[hybrid-search] ${this.semantic.name} failed — falling back to ${this.fuzzy.name} results only:`, err);
+          this.semanticDown = true;
+          return null;
+        },
+      ),
+      this.fuzzy.search(query, { topK: depth, minScore: this.config.fuzzyFloor }),
+    ]);
+    const needles = extractErrorCodeNeedles(query);
+    const exact = needles.length > 0 ? this.lexicalMatch(needles) : [];
+
+    return fuseRankings(
+      [
+        { backend: this.semantic.name, weight: this.config.semanticWeight, results: semantic },
+        { backend: this.fuzzy.name, weight: this.config.fuzzyWeight, results: fuzzy },
+      ],
+      exact,
+      this.config.rrfK,
+      depth,
+    )
+      .filter((r) => r.score >= minScore)
+      .slice(0, topK);
+  }
+
+  /** Literal substring fallback for opaque error-code tokens — see SearchProvider.lexicalMatch. */
+  lexicalMatch(needles: string[]): SearchResult[] {
+    return this.fuzzy.lexicalMatch?.(needles) ?? this.semantic.lexicalMatch?.(needles) ?? [];
+  }
+}
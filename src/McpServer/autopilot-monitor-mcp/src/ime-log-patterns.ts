@@ -0,0 +1,188 @@
+/**
+ * Offline IME log matching — the agent's ImeLogTracker pattern pass, re-run over log text the
+ * server was handed (parse_diagnostics_zip). Keep in lock-step with the agent:
+ *   - CMTrace entries may span several physical lines; they are reassembled with '\n' until the
+ *     closing `]LOG]!>` (CmTraceLogParser + the multiline buffer, capped at 100 lines).
+ *   - Non-CMTrace lines are matched raw.
+ *   - `{GUID}` in a pattern expands to the standard `(?<id>…)` GUID capture (see expandGuidPlaceholder).
+ *   - Regexes are case-insensitive and dot-all (RegexOptions.IgnoreCase | Singleline).
+ *   - EVERY enabled pattern is tried against every entry (the agent does not stop at the first
+ *     hit). Categories only gate patterns by live ESP phase on the device; offline there is no
+ *     phase state, so all categories are active and the category is reported instead.
+ */
+import { readdir, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+const GUID_BODY = '[a-z0-9]{8}-[a-z0-9]{4}-[a-z0-9]{4}-[a-z0-9]{4}-[a-z0-9]{12}';
+/** Mirrors the agent's GuidPattern constant. */
+const GUID_PATTERN = `(?<id>${GUID_BODY})`;
+/** Mirrors ImeLogTracker.MaxMultiLineBufferLines — a longer "entry" is treated as corrupt and dropped. */
+const MAX_MULTILINE_LINES = 100;
+const CMTRACE_REGEX =
+  /^<!\[LOG\[(?<message>.*)\]LOG\]!><time="(?<time>[\d:.]+)"\s+date="(?<date>[\d-]+)"\s+component="(?<component>[^"]*)"\s+context="[^"]*"\s+type="(?<type>\d+)"\s+thread="(?<thread>\d+)"\s+file="[^"]*">/s;
+
+export interface ImeLogPatternDef {
+  patternId: string;
+  category: string;
+  pattern: string;
+  action?: string;
+  description?: string;
+  enabled?: boolean;
+  parameters?: Record<string, string>;
+}
+
+export interface CompiledImePattern {
+  patternId: string;
+  category: string;
+  action: string | null;
+  parameters: Record<string, string>;
+  regex: RegExp;
+}
+
+export interface ImeLogEntry {
+  /** 1-based physical line where the entry starts. */
+  line: number;
+  /** Message text matched against the patterns (the CMTrace payload, or the raw line). */
+  message: string;
+  /** Device-local wall clock from the CMTrace header ("yyyy-MM-ddTHH:mm:ss.fff"), null for raw lines. */
+  localTimestamp: string | null;
+  component: string | null;
+  /** CMTrace type: 1 = Info, 2 = Warning, 3 = Error. */
+  type: number | null;
+}
+
+export interface ImePatternMatch {
+  patternId: string;
+  category: string;
+  action: string | null;
+  groups: Record<string, string>;
+}
+
+/** Load every pattern file under rules/ime-log-patterns (single-pattern or `{ rules: [...] }` bundle). */
+export async function loadImeLogPatterns(rulesRoot: string): Promise<ImeLogPatternDef[]> {
+  const dir = join(rulesRoot, 'ime-log-patterns');
+  let files: string[];
+  try {
+    files = await readdir(dir);
+  } catch {
+    return [];
+  }
+  const defs: ImeLogPatternDef[] = [];
+  for (const f of files.filter((n) => n.endsWith('.json')).sort()) {
+    try {
+      const parsed = JSON.parse(await readFile(join(dir, f), 'utf-8')) as ImeLogPatternDef | { rules: ImeLogPatternDef[] };
+      defs.push(...('rules' in parsed ? parsed.rules : [parsed]));
+    } catch {
+      // skip malformed files (same tolerance as the knowledge-base loader)
+    }
+  }
+  return defs;
+}
+
+/**
+ * Expand `{GUID}`. Several patterns wrap it as `(?<id>{GUID})`, which nests two groups named `id`:
+ * .NET accepts the duplicate name, JavaScript rejects the whole regex — so when the author already
+ * names the capture, expand to the bare GUID body instead.
+ */
+function expandGuidPlaceholder(pattern: string): string {
+  return pattern.replaceAll('{GUID}', pattern.includes('(?<id>') ? GUID_BODY : GUID_PATTERN);
+}
+
+/**
+ * Compile enabled patterns. A pattern whose regex JavaScript cannot compile (a .NET-only construct)
+ * is reported in `invalid` rather than thrown, so one bad file never disables the whole pass.
+ */
+export function compileImeLogPatterns(defs: ImeLogPatternDef[]): { patterns: CompiledImePattern[]; invalid: Array<{ patternId: string; error: string }> } {
+  const patterns: CompiledImePattern[] = [];
+  const invalid: Array<{ patternId: string; error: string }> = [];
+  for (const def of defs) {
+    if (def.enabled === false) continue;
+    try {
+      patterns.push({
+        patternId: def.patternId,
+        category: def.category,
+        action: def.action ?? null,
+        parameters: def.parameters ?? {},
+        regex: new RegExp(expandGuidPlaceholder(def.pattern), 'is'),
+      });
+    } catch (e) {
+      invalid.push({ patternId: def.patternId, error: (e as Error).message });
+    }
+  }
+  return { patterns, invalid };
+}
+
+let compiledCache: { rulesRoot: string; promise: Promise<ReturnType<typeof compileImeLogPatterns>> } | undefined;
+
+/** Load + compile the shipped patterns once per process (the rules/ folder is baked into the image). */
+export function getCompiledImeLogPatterns(rulesRoot: string): Promise<ReturnType<typeof compileImeLogPatterns>> {
+  if (compiledCache?.rulesRoot !== rulesRoot) {
+    compiledCache = { rulesRoot, promise: loadImeLogPatterns(rulesRoot).then(compileImeLogPatterns) };
+  }
+  return compiledCache.promise;
+}
+
+/** "M-d-yyyy" + "H:mm:ss.fffffff" → "yyyy-MM-ddTHH:mm:ss.fff" (still device-local time). */
+function cmTraceLocalTimestamp(date: string, time: string): string | null {
+  const d = /^(\d{1,2})-(\d{1,2})-(\d{4})$/.exec(date);
+  const t = /^(\d{1,2}):(\d{2}):(\d{2})(?:\.(\d+))?$/.exec(time);
+  if (!d || !t) return null;
+  const pad = (v: string, n = 2) => v.padStart(n, '0');
+  const ms = (t[4] ?? '').slice(0, 3).padEnd(3, '0');
+  return `${d[3]}-${pad(d[1])}-${pad(d[2])}T${pad(t[1])}:${t[2]}:${t[3]}.${ms}`;
+}
+
+/** Split IME log text into entries, reassembling multiline CMTrace records. */
+export function splitImeLogEntries(text: string): ImeLogEntry[] {
+  const lines = text.split(/\r?\n/);
+  const entries: ImeLogEntry[] = [];
+  let buffer: string[] | null = null;
+  let bufferStart = 0;
+
+  const emit = (raw: string, line: number) => {
+    const m = raw.startsWith('<![LOG[') ? CMTRACE_REGEX.exec(raw) : null;
+    if (m?.groups) {
+      if (!m.groups.message) return;
+      entries.push({
+        line,
+        message: m.groups.message,
+        localTimestamp: cmTraceLocalTimestamp(m.groups.date, m.groups.time),
+        component: m.groups.component,
+        type: Number(m.groups.type),
+      });
+    } else if (raw) {
+      entries.push({ line, message: raw, localTimestamp: null, component: null, type: null });
+    }
+  };
+
+  lines.forEach((line, i) => {
+    if (buffer) {
+      buffer.push(line);
+      if (line.includes(']LOG]!>')) {
+        emit(buffer.join('\n'), bufferStart);
+        buffer = null;
+      } else if (buffer.length >= MAX_MULTILINE_LINES) {
+        buffer = null;
+      }
+    } else if (line.startsWith('<![LOG[') && !line.includes(']LOG]!>')) {
+      buffer = [line];
+      bufferStart = i + 1;
+    } else {
+      emit(line, i + 1);
+    }
+  });
+  return entries;
+}
+
+/** Every pattern that matches `message`, with its named groups (unset groups omitted). */
+export function matchImeMessage(message: string, patterns: CompiledImePattern[]): ImePatternMatch[] {
+  const matches: ImePatternMatch[] = [];
+  for (const p of patterns) {
+    const m = p.regex.exec(message);
+    if (!m) continue;
+    const groups: Record<string, string> = {};
+    for (const [k, v] of Object.entries(m.groups ?? {})) if (v !== undefined) groups[k] = v;
+    matches.push({ patternId: p.patternId, category: p.category, action: p.action, groups });
+  }
+  return matches;
+}
@@ -0,0 +1,559 @@
+/**
+ * MCP-side mirror of the web's `lib/incidentReport.ts` (used by the session page's
+ * Report Session dialog) — keep the two in lock-step.
+ *
+ * Session incident report: a fixed-layout summary of one enrollment session
+ * that service desk staff paste into a ticket (Markdown) or attach to it
+ * (standalone HTML), built from session metadata, the event timeline, the
+ * rule analysis results and the stored vulnerability report. Served by the
+ * get_session_incident_report tool, so an agent and the portal hand out the
+ * same report.
+ *
+ * Deterministic by construction: no clock reads (the caller passes
+ * `generatedAt`) and all timestamps are rendered in UTC.
+ */
+import { interpolateRuleTemplate } from './interpolate-rule-template.js';
+
+export interface IncidentReportSession {
+  sessionId: string;
+  tenantId?: string;
+  deviceName?: string;
+  serialNumber?: string;
+  manufacturer?: string;
+  model?: string;
+  status?: string;
+  currentPhase?: number;
+  enrollmentType?: string;
+  startedAt?: string;
+  completedAt?: string;
+  durationSeconds?: number;
+  failureReason?: string;
+  failureSource?: string;
+  isPreProvisioned?: boolean;
+  isHybridJoin?: boolean;
+  isUserDriven?: boolean;
+  agentVersion?: string;
+  osName?: string;
+  osBuild?: string;
+  osDisplayVersion?: string;
+  osEdition?: string;
+}
+
+export interface IncidentReportEvent {
+  timestamp: string;
+  eventType: string;
+  severity: string;
+  phase: number;
+  message: string;
+  source?: string;
+  data?: Record<string, unknown>;
+}
+
+export interface IncidentReportRuleResult {
+  ruleId: string;
+  ruleTitle: string;
+  severity: string;
+  category?: string;
+  confidenceScore?: number;
+  explanation?: string;
+  remediation?: { title: string; steps: string[] }[];
+  relatedDocs?: { title: string; url: string }[];
+  matchedConditions?: Record<string, unknown>;
+}
+
+export interface IncidentReportInput {
+  session: IncidentReportSession;
+  events: IncidentReportEvent[];
+  ruleResults: IncidentReportRuleResult[];
+  /** Stored vulnerability report (`{ findings: [...] }`); null/undefined = none for this session. */
+  vulnerabilityReport?: unknown;
+  /** ISO timestamp printed in the report header. */
+  generatedAt: string;
+  /** Cap on the key-event excerpt (default 25). */
+  keyEventLimit?: number;
+}
+
+export interface IncidentPhase {
+  phase: number;
+  name: string;
+  startedAt: string;
+  endedAt: string;
+  durationSeconds: number;
+  eventCount: number;
+  errorCount: number;
+}
+
+export interface IncidentFailingApp {
+  appName: string;
+  errorCode: string | null;
+  detectionResult: string | null;
+  failedAttempts: number;
+  lastFailureAt: string;
+  message: string;
+}
+
+export interface IncidentRule {
+  ruleId: string;
+  title: string;
+  severity: string;
+  category: string | null;
+  confidenceScore: number | null;
+  explanation: string;
+  remediation: { title: string; steps: string[] }[];
+  relatedDocs: { title: string; url: string }[];
+}
+
+export interface IncidentKeyEvent {
+  timestamp: string;
+  phase: string;
+  severity: string;
+  eventType: string;
+  message: string;
+}
+
+export interface IncidentVulnerabilitySummary {
+  findingCount: number;
+  cveCount: number;
+  kevCount: number;
+  bySeverity: Record<'critical' | 'high' | 'medium' | 'low' | 'info', number>;
+  topFindings: { software: string; version: string; maxCvss: number; maxSeverity: string; cveCount: number; kevCount: number }[];
+}
+
+export interface IncidentReport {
+  title: string;
+  generatedAt: string;
+  metadata: [string, string][];
+  phases: IncidentPhase[];
+  failingApps: IncidentFailingApp[];
+  rules: IncidentRule[];
+  keyEvents: IncidentKeyEvent[];
+  /** Key events that matched but fell outside keyEventLimit. */
+  keyEventsOmitted: number;
+  /** null = no vulnerability report is stored for the session. */
+  vulnerabilities: IncidentVulnerabilitySummary | null;
+}
+
+// Mirrors the backend EnrollmentPhase enum; phase 3 is 'App Installation' on V2.
+const PHASE_NAMES: Record<number, string> = {
+  [-1]: 'Unknown', 0: 'Start', 1: 'Device Preparation', 2: 'Device Setup', 3: 'Apps (Device)',
+  4: 'Account Setup', 5: 'Apps (User)', 6: 'Finalizing Setup', 7: 'Complete', 99: 'Failed',
+};
+const SEVERITY_RANK: Record<string, number> = { Trace: -1, Debug: 0, Info: 1, Warning: 2, Error: 3, Critical: 4 };
+const RULE_SEVERITY_ORDER: Record<string, number> = { critical: 0, high: 1, warning: 2, medium: 2, low: 3, info: 4 };
+const CVE_SEVERITY_ORDER: Record<string, number> = { critical: 0, high: 1, medium: 2, low: 3, info: 4 };
+// Phase-defining events always make the excerpt; errors outrank them, warnings follow.
+const PHASE_EVENT_TYPES = new Set([
+  'phase_transition', 'esp_phase_changed', 'enrollment_type_detected',
+  'enrollment_complete', 'enrollment_failed', 'desktop_arrived',
+]);
+const APP_TERMINAL_EVENT_TYPES = new Set(['app_install_completed', 'app_install_failed', 'app_install_skipped']);
+const MAX_MESSAGE_CHARS = 200;
+
+function phaseLabel(phase: number, enrollmentType: string | undefined): string {
+  if (phase === 3 && enrollmentType === 'v2') return 'App Installation';
+  return PHASE_NAMES[phase] ?? String(phase);
+}
+
+function byTimestamp<T extends { timestamp: string }>(a: T, b: T): number {
+  return a.timestamp.localeCompare(b.timestamp);
+}
+
+function seconds(from: string, to: string): number {
+  const ms = Date.parse(to) - Date.parse(from);
+  return Number.isFinite(ms) && ms > 0 ? Math.round(ms / 1000) : 0;
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+function str(value: unknown): string | null {
+  return value === undefined || value === null || value === '' ? null : String(value);
+}
+
+function buildPhases(events: IncidentReportEvent[], enrollmentType: string | undefined): IncidentPhase[] {
+  const phases: IncidentPhase[] = [];
+  const byPhase = new Map<number, IncidentPhase>();
+  for (const e of events) {
+    if (typeof e.phase !== 'number' || e.phase < 0) continue;
+    let p = byPhase.get(e.phase);
+    if (!p) {
+      p = { phase: e.phase, name: phaseLabel(e.phase, enrollmentType), startedAt: e.timestamp, endedAt: e.timestamp, durationSeconds: 0, eventCount: 0, errorCount: 0 };
+      byPhase.set(e.phase, p);
+      phases.push(p);
+    }
+    p.endedAt = e.timestamp;
+    p.eventCount++;
+    if ((SEVERITY_RANK[e.severity] ?? -1) >= 3) p.errorCount++;
+  }
+  // A phase lasts until the next one starts; the last one until its last event.
+  phases.forEach((p, i) => {
+    p.durationSeconds = seconds(p.startedAt, phases[i + 1]?.startedAt ?? p.endedAt);
+  });
+  return phases;
+}
+
+function buildFailingApps(events: IncidentReportEvent[]): IncidentFailingApp[] {
+  const apps = new Map<string, { last: IncidentReportEvent; failures: IncidentReportEvent[] }>();
+  for (const e of events) {
+    if (!APP_TERMINAL_EVENT_TYPES.has(e.eventType)) continue;
+    const key = str(e.data?.appName) ?? str(e.data?.appId) ?? e.source ?? 'Unknown app';
+    const entry = apps.get(key) ?? { last: e, failures: [] };
+    entry.last = e;
+    if (e.eventType === 'app_install_failed') entry.failures.push(e);
+    apps.set(key, entry);
+  }
+  // Only apps whose final outcome is a failure — a retry that later succeeded is not failing.
+  return [...apps.entries()]
+    .filter(([, a]) => a.last.eventType === 'app_install_failed')
+    .map(([appName, a]) => ({
+      appName,
+      errorCode: str(a.last.data?.errorCode) ?? str(a.last.data?.exitCode),
+      detectionResult: str(a.last.data?.detectionResult),
+      failedAttempts: a.failures.length,
+      lastFailureAt: a.last.timestamp,
+      message: truncate(a.last.message ?? '', MAX_MESSAGE_CHARS),
+    }));
+}
+
+function buildRules(results: IncidentReportRuleResult[]): IncidentRule[] {
+  return [...results]
+    .sort((a, b) =>
+      (RULE_SEVERITY_ORDER[a.severity?.toLowerCase()] ?? 5) - (RULE_SEVERITY_ORDER[b.severity?.toLowerCase()] ?? 5)
+      || (b.confidenceScore ?? 0) - (a.confidenceScore ?? 0))
+    .map((r) => ({
+      ruleId: r.ruleId,
+      title: r.ruleTitle,
+      severity: r.severity,
+      category: r.category ?? null,
+      confidenceScore: r.confidenceScore ?? null,
+      explanation: interpolateRuleTemplate(r.explanation, r.matchedConditions),
+      remediation: (r.remediation ?? []).map((step) => ({
+        title: interpolateRuleTemplate(step.title, r.matchedConditions),
+        steps: (step.steps ?? []).map((s) => interpolateRuleTemplate(s, r.matchedConditions)),
+      })),
+      relatedDocs: r.relatedDocs ?? [],
+    }));
+}
+
+function buildKeyEvents(events: IncidentReportEvent[], limit: number, enrollmentType: string | undefined): { keyEvents: IncidentKeyEvent[]; omitted: number } {
+  const relevance = (e: IncidentReportEvent): number => {
+    const sev = SEVERITY_RANK[e.severity] ?? -1;
+    if (sev >= 3) return 100;
+    if (PHASE_EVENT_TYPES.has(e.eventType)) return 60;
+    if (sev === 2) return 30;
+    return 0;
+  };
+  const matching = events.filter((e) => relevance(e) > 0);
+  const kept = [...matching]
+    .sort((a, b) => relevance(b) - relevance(a) || byTimestamp(a, b))
+    .slice(0, limit)
+    .sort(byTimestamp);
+  return {
+    keyEvents: kept.map((e) => ({
+      timestamp: e.timestamp,
+      phase: phaseLabel(e.phase, enrollmentType),
+      severity: e.severity,
+      eventType: e.eventType,
+      message: truncate(e.message ?? '', MAX_MESSAGE_CHARS),
+    })),
+    omitted: matching.length - kept.length,
+  };
+}
+
+function cveSeverity(cve: Record<string, unknown>): string {
+  const s = String(cve.severity ?? cve.cvssSeverity ?? '').toLowerCase();
+  if (s === 'moderate') return 'medium';
+  if (s in CVE_SEVERITY_ORDER) return s;
+  const cvss = Number(cve.cvss ?? cve.cvssScore ?? 0);
+  if (cvss >= 9) return 'critical';
+  if (cvss >= 7) return 'high';
+  if (cvss >= 4) return 'medium';
+  return cvss > 0 ? 'low' : 'info';
+}
+
+function buildVulnerabilities(report: unknown): IncidentVulnerabilitySummary | null {
+  if (!report || typeof report !== 'object') return null;
+  const findings = (report as { findings?: unknown }).findings;
+  const summary: IncidentVulnerabilitySummary = {
+    findingCount: 0, cveCount: 0, kevCount: 0,
+    bySeverity: { critical: 0, high: 0, medium: 0, low: 0, info: 0 },
+    topFindings: [],
+  };
+  const seen = new Set<string>();
+  for (const f of Array.isArray(findings) ? findings as Record<string, unknown>[] : []) {
+    const cves = (f.cves ?? f.vulnerabilities ?? []) as Record<string, unknown>[];
+    const top = {
+      software: String(f.softwareName ?? f.software ?? 'Unknown'),
+      version: String(f.installedVersion ?? f.version ?? ''),
+      maxCvss: 0, maxSeverity: 'info', cveCount: cves.length, kevCount: 0,
+    };
+    for (const c of cves) {
+      const sev = cveSeverity(c);
+      const kev = Boolean(c.kev ?? c.isKev);
+      top.maxCvss = Math.max(top.maxCvss, Number(c.cvss ?? c.cvssScore ?? 0) || 0);
+      if (CVE_SEVERITY_ORDER[sev] < CVE_SEVERITY_ORDER[top.maxSeverity]) top.maxSeverity = sev;
+      if (kev) top.kevCount++;
+      // Count each CVE once even when several packages share it.
+      const id = String(c.cveId ?? c.id ?? '');
+      if (id && seen.has(id)) continue;
+      if (id) seen.add(id);
+      summary.cveCount++;
+      summary.bySeverity[sev as keyof IncidentVulnerabilitySummary['bySeverity']]++;
+      if (kev) summary.kevCount++;
+    }
+    summary.findingCount++;
+    summary.topFindings.push(top);
+  }
+  summary.topFindings = summary.topFindings
+    .filter((f) => f.cveCount > 0)
+    .sort((a, b) => b.kevCount - a.kevCount || b.maxCvss - a.maxCvss)
+    .slice(0, 5);
+  return summary;
+}
+
+function yesNo(value: boolean | undefined): string | null {
+  return value === undefined ? null : value ? 'yes' : 'no';
+}
+
+function buildMetadata(s: IncidentReportSession): [string, string][] {
+  const hardware = [s.manufacturer, s.model].filter(Boolean).join(' ');
+  const os = [s.osName, s.osDisplayVersion, s.osEdition, s.osBuild && `(build ${s.osBuild})`].filter(Boolean).join(' ');
+  const status = s.failureReason ? `${s.status ?? 'Unknown'} — ${s.failureReason}` : s.status ?? null;
+  const rows: [string, string | null][] = [
+    ['Session ID', s.sessionId],
+    ['Tenant ID', str(s.tenantId)],
+    ['Device', str(s.deviceName)],
+    ['Serial number', str(s.serialNumber)],
+    ['Hardware', hardware || null],
+    ['Operating system', os || null],
+    ['Enrollment type', s.enrollmentType === 'v2' ? 'Autopilot device preparation (v2)' : 'Autopilot (v1)'],
+    ['Pre-provisioned', yesNo(s.isPreProvisioned)],
+    ['Hybrid join', yesNo(s.isHybridJoin)],
+    ['User-driven', yesNo(s.isUserDriven)],
+    ['Status', status],
+    ['Failure source', str(s.failureSource)],
+    ['Current phase', s.currentPhase === undefined ? null : phaseLabel(s.currentPhase, s.enrollmentType)],
+    ['Started', s.startedAt ? formatTime(s.startedAt) : null],
+    ['Completed', s.completedAt ? formatTime(s.completedAt) : null],
+    ['Duration', s.durationSeconds ? formatDuration(s.durationSeconds) : null],
+    ['Agent version', str(s.agentVersion)],
+  ];
+  return rows.filter((r): r is [string, string] => r[1] !== null);
+}
+
+/** `2026-03-01T08:00:05.123Z` → `2026-03-01 08:00:05 UTC`; unparseable input is returned as-is. */
+export function formatTime(iso: string): string {
+  const ms = Date.parse(iso);
+  if (Number.isNaN(ms)) return iso;
+  return `${new Date(ms).toISOString().slice(0, 19).replace('T', ' ')} UTC`;
+}
+
+/** 3723 → `1h 02m 03s`, 65 → `1m 05s`, 9 → `9s`. */
+export function formatDuration(totalSeconds: number): string {
+  const s = Math.max(0, Math.round(totalSeconds));
+  const h = Math.floor(s / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  const sec = String(s % 60).padStart(2, '0');
+  if (h > 0) return `${h}h ${String(m).padStart(2, '0')}m ${sec}s`;
+  if (m > 0) return `${m}m ${sec}s`;
+  return `${s}s`;
+}
+
+export function buildIncidentReport(input: IncidentReportInput): IncidentReport {
+  const { session } = input;
+  const events = [...input.events].sort(byTimestamp);
+  const { keyEvents, omitted } = buildKeyEvents(events, input.keyEventLimit ?? 25, session.enrollmentType);
+  return {
+    title: `Incident report: ${session.deviceName || session.serialNumber || session.sessionId} (${session.status ?? 'Unknown'})`,
+    generatedAt: input.generatedAt,
+    metadata: buildMetadata(session),
+    phases: buildPhases(events, session.enrollmentType),
+    failingApps: buildFailingApps(events),
+    rules: buildRules(input.ruleResults),
+    keyEvents,
+    keyEventsOmitted: omitted,
+    vulnerabilities: buildVulnerabilities(input.vulnerabilityReport),
+  };
+}
+
+// ── Rendering ──────────────────────────────────────────────────────────────
+// Markdown and HTML share the table layouts below so the two formats never drift.
+
+type Table = [header: string[], rows: string[][]];
+
+function phaseTable(report: IncidentReport): Table {
+  return [
+    ['Phase', 'Started', 'Ended', 'Duration', 'Events', 'Errors'],
+    report.phases.map((p) => [p.name, formatTime(p.startedAt), formatTime(p.endedAt), formatDuration(p.durationSeconds), String(p.eventCount), String(p.errorCount)]),
+  ];
+}
+
+function appTable(report: IncidentReport): Table {
+  return [
+    ['App', 'Error code', 'Detection', 'Failed attempts', 'Last failure', 'Message'],
+    report.failingApps.map((a) => [a.appName, a.errorCode ?? '—', a.detectionResult ?? '—', String(a.failedAttempts), formatTime(a.lastFailureAt), a.message]),
+  ];
+}
+
+function keyEventTable(report: IncidentReport): Table {
+  return [
+    ['Time', 'Phase', 'Severity', 'Event', 'Message'],
+    report.keyEvents.map((e) => [formatTime(e.timestamp), e.phase, e.severity, e.eventType, e.message]),
+  ];
+}
+
+function vulnerabilityTable(v: IncidentVulnerabilitySummary): Table {
+  return [
+    ['Software', 'Version', 'CVEs', 'Known exploited', 'Max CVSS', 'Max severity'],
+    v.topFindings.map((f) => [f.software, f.version || '—', String(f.cveCount), String(f.kevCount), f.maxCvss.toFixed(1), f.maxSeverity]),
+  ];
+}
+
+function vulnerabilityLines(v: IncidentVulnerabilitySummary): string[] {
+  const sev = v.bySeverity;
+  return [
+    `${v.findingCount} vulnerable software package${v.findingCount === 1 ? '' : 's'}, ${v.cveCount} CVE${v.cveCount === 1 ? '' : 's'} (${v.kevCount} known exploited)`,
+    `Critical ${sev.critical} · High ${sev.high} · Medium ${sev.medium} · Low ${sev.low}`,
+  ];
+}
+
+function keyEventsHeading(report: IncidentReport): string {
+  return report.keyEventsOmitted > 0 ? `Key events (${report.keyEventsOmitted} lower-priority events omitted)` : 'Key events';
+}
+
+function ruleSubtitle(r: IncidentRule): string[] {
+  return [r.category ?? '', r.confidenceScore === null ? '' : `confidence ${r.confidenceScore}%`].filter(Boolean);
+}
+
+// ── Markdown ───────────────────────────────────────────────────────────────
+
+function mdCell(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function mdTable([header, rows]: Table): string[] {
+  return [
+    `| ${header.join(' | ')} |`,
+    `|${header.map(() => '---').join('|')}|`,
+    ...rows.map((r) => `| ${r.map(mdCell).join(' | ')} |`),
+  ];
+}
+
+export function renderIncidentMarkdown(report: IncidentReport): string {
+  const out: string[] = [`# ${report.title}`, '', `_Generated ${formatTime(report.generatedAt)} by Autopilot Monitor_`, ''];
+
+  out.push('## Session', '', ...mdTable([['Field', 'Value'], report.metadata]), '');
+
+  out.push('## Phase timeline', '');
+  out.push(...(report.phases.length === 0 ? ['_No phase events recorded._'] : mdTable(phaseTable(report))), '');
+
+  out.push('## Failing apps', '');
+  out.push(...(report.failingApps.length === 0 ? ['_No app ended in a failed install._'] : mdTable(appTable(report))), '');
+
+  out.push('## Analysis rules fired', '');
+  if (report.rules.length === 0) out.push('_No analysis rules fired._', '');
+  for (const r of report.rules) {
+    out.push(`### [${r.severity}] ${r.title}`, '', [`\`${r.ruleId}\``, ...ruleSubtitle(r)].join(' · '), '');
+    if (r.explanation) out.push(r.explanation, '');
+    for (const rem of r.remediation) {
+      out.push(`**Remediation: ${rem.title}**`, '', ...rem.steps.map((s, i) => `${i + 1}. ${s}`), '');
+    }
+    if (r.relatedDocs.length > 0) {
+      out.push(`Docs: ${r.relatedDocs.map((d) => `[${d.title}](${d.url})`).join(', ')}`, '');
+    }
+  }
+
+  out.push(`## ${keyEventsHeading(report)}`, '');
+  out.push(...(report.keyEvents.length === 0 ? ['_No errors, warnings or phase changes recorded._'] : mdTable(keyEventTable(report))), '');
+
+  out.push('## Vulnerabilities', '');
+  const v = report.vulnerabilities;
+  if (!v) out.push('_No vulnerability report for this session._');
+  else {
+    out.push(...vulnerabilityLines(v).map((l) => `- ${l}`));
+    if (v.topFindings.length > 0) out.push('', ...mdTable(vulnerabilityTable(v)));
+  }
+  out.push('');
+  return out.join('\n');
+}
+
+// ── HTML ───────────────────────────────────────────────────────────────────
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function htmlTable([header, rows]: Table): string {
+  const head = header.map((h) => `<th>${escapeHtml(h)}</th>`).join('');
+  const body = rows.map((r) => `<tr>${r.map((c) => `<td>${escapeHtml(c)}</td>`).join('')}</tr>`).join('\n');
+  return `<table>\n<thead><tr>${head}</tr></thead>\n<tbody>\n${body}\n</tbody>\n</table>`;
+}
+
+function htmlMuted(text: string): string {
+  return `<p class="muted">${escapeHtml(text)}</p>`;
+}
+
+// Docs links come from rule definitions; anything but http(s) is rendered as plain text.
+function htmlLink(title: string, url: string): string {
+  return /^https?:\/\//i.test(url) ? `<a href="${escapeHtml(url)}">${escapeHtml(title)}</a>` : escapeHtml(title);
+}
+
+const HTML_STYLE = [
+  'body{font-family:Segoe UI,Arial,sans-serif;font-size:14px;color:#1f2937;max-width:960px;margin:24px auto;padding:0 16px}',
+  'h1{font-size:20px}h2{font-size:16px;border-bottom:1px solid #e5e7eb;padding-bottom:4px;margin-top:24px}h3{font-size:14px;margin-bottom:4px}',
+  'table{border-collapse:collapse;width:100%;margin:8px 0}th,td{border:1px solid #e5e7eb;padding:4px 8px;text-align:left;vertical-align:top}',
+  'th{background:#f9fafb}.muted{color:#6b7280}code{background:#f3f4f6;padding:0 4px;border-radius:3px}',
+].join('');
+
+export function renderIncidentHtml(report: IncidentReport): string {
+  const parts: string[] = [
+    `<h1>${escapeHtml(report.title)}</h1>`,
+    htmlMuted(`Generated ${formatTime(report.generatedAt)} by Autopilot Monitor`),
+    '<h2>Session</h2>',
+    htmlTable([['Field', 'Value'], report.metadata]),
+    '<h2>Phase timeline</h2>',
+    report.phases.length === 0 ? htmlMuted('No phase events recorded.') : htmlTable(phaseTable(report)),
+    '<h2>Failing apps</h2>',
+    report.failingApps.length === 0 ? htmlMuted('No app ended in a failed install.') : htmlTable(appTable(report)),
+    '<h2>Analysis rules fired</h2>',
+  ];
+  if (report.rules.length === 0) parts.push(htmlMuted('No analysis rules fired.'));
+  for (const r of report.rules) {
+    parts.push(
+      `<h3>[${escapeHtml(r.severity)}] ${escapeHtml(r.title)}</h3>`,
+      `<p class="muted">${[`<code>${escapeHtml(r.ruleId)}</code>`, ...ruleSubtitle(r).map(escapeHtml)].join(' · ')}</p>`,
+    );
+    if (r.explanation) parts.push(`<p>${escapeHtml(r.explanation)}</p>`);
+    for (const rem of r.remediation) {
+      parts.push(`<p><strong>Remediation: ${escapeHtml(rem.title)}</strong></p>`, `<ol>${rem.steps.map((s) => `<li>${escapeHtml(s)}</li>`).join('')}</ol>`);
+    }
+    if (r.relatedDocs.length > 0) parts.push(`<p>Docs: ${r.relatedDocs.map((d) => htmlLink(d.title, d.url)).join(', ')}</p>`);
+  }
+
+  parts.push(
+    `<h2>${escapeHtml(keyEventsHeading(report))}</h2>`,
+    report.keyEvents.length === 0 ? htmlMuted('No errors, warnings or phase changes recorded.') : htmlTable(keyEventTable(report)),
+    '<h2>Vulnerabilities</h2>',
+  );
+  const v = report.vulnerabilities;
+  if (!v) parts.push(htmlMuted('No vulnerability report for this session.'));
+  else {
+    parts.push(`<ul>${vulnerabilityLines(v).map((l) => `<li>${escapeHtml(l)}</li>`).join('')}</ul>`);
+    if (v.topFindings.length > 0) parts.push(htmlTable(vulnerabilityTable(v)));
+  }
+
+  return [
+    '<!DOCTYPE html>',
+    `<html lang="en"><head><meta charset="utf-8"><title>${escapeHtml(report.title)}</title><style>${HTML_STYLE}</style></head>`,
+    '<body>',
+    ...parts,
+    '</body></html>',
+    '',
+  ].join('\n');
+}
@@ -1,23 +1,31 @@
+import { randomUUID } from 'node:crypto';
 import { resolve, dirname } from 'node:path';
 import { readFileSync } from 'node:fs';
 import { fileURLToPath } from 'node:url';
-import express, { type ErrorRequestHandler } from 'express';
+import express, { type ErrorRequestHandler, type Request, type Response } from 'express';
 import compression from 'compression';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
 import { registerTools } from './tools.js';
+import { writeCapabilities } from './tools/write.js';
 import { registerResources } from './resources.js';
 import { registerPrompts } from './prompts.js';
+import { getPromptLibrary, watchPromptLibrary } from './prompt-library.js';
 import { loadKnowledgeDocs } from './knowledge-base.js';
 import { createSearchProvider, resolveBackend } from './search-factory.js';
 import type { SearchBackend, SearchProvider } from './search-provider.js';
 import { MODEL_NAME, VectorSearchProvider, embed } from './vector-search-provider.js';
-import { validatePrecomputedIndex } from './precomputed-index.js';
+import { HybridSearchProvider } from './hybrid-search-provider.js';
+import { seedableEntries, validatePrecomputedIndex } from './precomputed-index.js';
+import { EmbeddingCache } from './embedding-cache.js';
+import { watchKnowledgeBase } from './knowledge-watcher.js';
+import { SessionSubscriptionRegistry } from './session-subscriptions.js';
 import { buildEventTypeSearchDocs } from './resource-catalog.js';
 import { createOAuthRouter } from './oauth.js';
 import { accessGuard } from './access-guard.js';
-import { hasGlobalScope, isGlobalAdmin, isDelegated, getDelegatedTenantIds } from './client.js';
-import { API_BASE_URL } from './config.js';
+import { hasGlobalScope, isGlobalAdmin, isDelegated, getDelegatedTenantIds, getCallerContext } from './client.js';
+import { API_BASE_URL, EMBEDDING_CACHE_PATH, KNOWLEDGE_WATCH, PROMPTS_DIR, PROMPTS_WATCH, RULES_DIR, STATEFUL_SESSIONS, WRITE_TOOLS_ENABLED, parsePositiveInt } from './config.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
@@ -25,7 +33,6 @@ const pkg = JSON.parse(readFileSync(resolve(__dirname, '..', 'package.json'), 'u
 const SERVER_VERSION: string = pkg.version;
 
 const PORT = parseInt(process.env.PORT ?? '8080', 10);
-const RULES_DIR = process.env.RULES_DIR ?? resolve(__dirname, '..', '..', '..', '..', 'rules');
 
 // Surface the MCP_PUBLIC_URL state at boot. In production a missing pin is a
 // hard boot failure (config.ts throws — host-spoofing defense); this dev-only
@@ -50,16 +57,27 @@ console.error('Loading knowledge base documents…');
 const docs = await loadKnowledgeDocs(RULES_DIR);
 const eventTypeDocs = buildEventTypeSearchDocs();
 
-async function buildSearchIndexes(backend?: SearchBackend): Promise<{
+// Content-hash embedding caches (embedding-cache.ts): the knowledge base's may be persisted
+// (EMBEDDING_CACHE_PATH) and is what makes hot reloads re-embed only edited rules; the
+// event-type catalog is code, so its cache stays in memory.
+const kbEmbeddingCache = new EmbeddingCache(MODEL_NAME, EMBEDDING_CACHE_PATH);
+const etEmbeddingCache = new EmbeddingCache(MODEL_NAME);
+const restoredEmbeddings = kbEmbeddingCache.load();
+if (restoredEmbeddings > 0) {
+  console.error(`[startup] Restored ${restoredEmbeddings} cached embeddings from ${EMBEDDING_CACHE_PATH}.`);
+}
+
+async function buildSearchIndexes(backend: SearchBackend): Promise<{
   knowledgeBase: SearchProvider;
   eventTypeIndex: SearchProvider;
 }> {
-  const kb = await createSearchProvider(backend);
+  const kb = await createSearchProvider(backend, { embeddingCache: kbEmbeddingCache });
   await kb.index(docs);
   // Separate tiny provider over the event-type catalog → semantic candidate selection
   // for event search ("app stuck downloading" → download_progress/do_telemetry). Shares
-  // the embedder singleton with the knowledge base, so this adds ~no memory.
-  const et = await createSearchProvider(backend);
+  // the embedder singleton with the knowledge base, so this adds ~no memory. Candidate
+  // selection needs genuine cosines, so hybrid keeps a plain vector index here.
+  const et = await createSearchProvider(backend === 'hybrid' ? 'vector' : backend, { embeddingCache: etEmbeddingCache });
   await et.index(eventTypeDocs);
   return { knowledgeBase: kb, eventTypeIndex: et };
 }
@@ -81,14 +99,23 @@ function tryLoadPrecomputedIndexes(): { knowledgeBase: SearchProvider; eventType
     return null;
   }
   try {
-    const validated = validatePrecomputedIndex(JSON.parse(raw), MODEL_NAME, docs, eventTypeDocs);
+    const parsed: unknown = JSON.parse(raw);
+    const validated = validatePrecomputedIndex(parsed, MODEL_NAME, docs, eventTypeDocs);
     if (!validated.ok) {
-      console.error(`[startup] Precomputed search index rejected (${validated.reason}) — computing embeddings at boot.`);
+      // A stale file (rules edited since the build) still holds valid vectors for every unchanged
+      // rule — seed the caches so boot embeds only the delta.
+      const seed = seedableEntries(parsed, MODEL_NAME);
+      kbEmbeddingCache.seed(seed);
+      etEmbeddingCache.seed(seed);
+      console.error(
+        `[startup] Precomputed search index rejected (${validated.reason}) — computing embeddings at boot` +
+        `${seed.length > 0 ? ` (reusing ${seed.length} cached vectors for unchanged text)` : ''}.`,
+      );
       return null;
     }
-    const kb = new VectorSearchProvider();
+    const kb = new VectorSearchProvider(kbEmbeddingCache);
     kb.indexPrecomputed(validated.knowledgeBase);
-    const et = new VectorSearchProvider();
+    const et = new VectorSearchProvider(etEmbeddingCache);
     et.indexPrecomputed(validated.eventTypes);
     return { knowledgeBase: kb, eventTypeIndex: et };
   } catch (err) {
@@ -106,9 +133,16 @@ function tryLoadPrecomputedIndexes(): { knowledgeBase: SearchProvider; eventType
 console.error(`Initializing search provider (${docs.length} documents)…`);
 let knowledgeBase: SearchProvider;
 let eventTypeIndex: SearchProvider;
-const precomputed = (await resolveBackend()) === 'vector' ? tryLoadPrecomputedIndexes() : null;
+const backend = await resolveBackend();
+const precomputed = backend !== 'fuse' ? tryLoadPrecomputedIndexes() : null;
 if (precomputed) {
   ({ knowledgeBase, eventTypeIndex } = precomputed);
+  if (backend === 'hybrid') {
+    // The precomputed vectors cover the semantic half; the Fuse half indexes in milliseconds.
+    const fuzzy = await createSearchProvider('fuse');
+    await fuzzy.index(docs);
+    knowledgeBase = new HybridSearchProvider(knowledgeBase, fuzzy);
+  }
   // Serving precomputed vectors does not need the embedder — only incoming
   // queries do. Warm it in the background so neither boot nor the readiness
   // probe waits on the model load; a search arriving first awaits the same
@@ -119,7 +153,7 @@ if (precomputed) {
   );
 } else {
   try {
-    ({ knowledgeBase, eventTypeIndex } = await buildSearchIndexes());
+    ({ knowledgeBase, eventTypeIndex } = await buildSearchIndexes(backend));
   } catch (err) {
     console.error('[startup] Search index initialization failed (embedding model unavailable?) — falling back to the keyword (fuse) backend:', err);
     ({ knowledgeBase, eventTypeIndex } = await buildSearchIndexes('fuse'));
@@ -128,6 +162,23 @@ if (precomputed) {
 console.error(`Search provider ready: ${knowledgeBase.name} — ${knowledgeBase.size} documents indexed${precomputed ? ' (precomputed)' : ''}.`);
 console.error(`Event-type index ready: ${eventTypeIndex.name} — ${eventTypeIndex.size} types indexed${precomputed ? ' (precomputed)' : ''}.`);
 
+if (KNOWLEDGE_WATCH) {
+  if (knowledgeBase.reindex) {
+    const watcher = watchKnowledgeBase(RULES_DIR, knowledgeBase);
+    console.error(`[startup] Knowledge watch mode: hot-reloading on changes under ${RULES_DIR} (${watcher.watchedDirs} folders).`);
+  } else {
+    console.error(`[startup] KNOWLEDGE_WATCH is set but ${knowledgeBase.name} cannot reindex — watch mode disabled.`);
+  }
+}
+
+// Prompt library: validated now so a broken prompt file stops the boot instead of failing the first
+// prompts/list (PromptLibraryError lists every problem).
+console.error(`[startup] Prompt library: ${getPromptLibrary().prompts.length} prompts from ${PROMPTS_DIR}.`);
+if (PROMPTS_WATCH) {
+  watchPromptLibrary(PROMPTS_DIR);
+  console.error(`[startup] Prompt watch mode: hot-reloading on changes under ${PROMPTS_DIR}.`);
+}
+
 // Server-level guidance. The host surfaces this once per connection, so it is
 // the right home for cross-cutting strategy that would otherwise be duplicated
 // into every tool description (and re-sent on every tools/list). Keep it short:
@@ -147,14 +198,35 @@ function buildInstructions(ga: boolean, delegated: boolean, managedTenants: stri
       ? 'Scope: you are a delegated (MSP) administrator. Every query MUST name one of your managed tenants via ' +
         `tenantId — there is no cross-tenant aggregate. Your managed tenants: ${managedTenants.join(', ')}.`
       : 'Scope: all queries are automatically limited to your tenant.';
+  // Write tools are opt-in per deployment and role-gated (tools/write.ts); the read-only framing
+  // stays for every caller who has none of them.
+  const can = WRITE_TOOLS_ENABLED ? writeCapabilities(getCallerContext()) : undefined;
+  const writes = can !== undefined && (can.sessionActions || can.blockDevice);
   return [
-    'Autopilot-Monitor is a READ-ONLY telemetry server for Windows Autopilot enrollment sessions.',
+    writes
+      ? 'Autopilot-Monitor is a telemetry server for Windows Autopilot enrollment sessions — read-only apart from the triage write tools.'
+      : 'Autopilot-Monitor is a READ-ONLY telemetry server for Windows Autopilot enrollment sessions.',
     '',
     'Investigating one session: call get_session_summary FIRST (status, filtered timeline, stats, rule analysis in one call), then drill in.',
+    'Ticket text for a session: call get_session_incident_report (format="markdown" or "html") and hand the report over as-is.',
+    'Fleet-wide failures: call cluster_failures to group a window\'s failed sessions by root-cause fingerprint before drilling into individual sessions.',
+    'Is it getting worse: call get_enrollment_trends for bucketed failure-rate / duration / app-failure series with anomalies flagged against a baseline and their top contributing models, agent versions and apps.',
+    'Authoring analyze rules: call dry_run_analyze_rule with the draft JSON to see its schema errors, hit rate and example evidence on real sessions before proposing it.',
     'Searching events: use search_events (hybrid keyword+semantic ranking; depth="fast" then "deep" for exhaustive recall) for ranked hits, or get_session_events / query_raw_events for the raw unranked stream.',
-    'Counting / aggregating: pass a lean `fields=` projection and use `agentVersionPrefix=`/`imeAgentVersionPrefix=` sweeps to stay under the per-response size cap.',
+    ...(ga || delegated
+      ? ['Comparing tenants with their peers: call benchmark_tenants (model-mix adjusted success rate, median time, ESP timeouts, top failing apps); keep anonymize=true for anything shared outside your organization.']
+      : []),
+    'Counting / aggregating: call aggregate_sessions (groupBy + count / success rate / duration percentiles, paged server-side) instead of paging and counting yourself; for raw rows pass a lean `fields=` projection and use `agentVersionPrefix=`/`imeAgentVersionPrefix=` sweeps to stay under the per-response size cap.',
     'Pagination: when a response carries `nextLink`, pass that whole string back as `continuation`; stop when it is absent. Results are never silently truncated.',
     'Catalogs: call get_resource(name="event_types"|"device_properties") to discover valid eventType strings and deviceProperties keys before filtering.',
+    ...(writes
+      ? ['Write actions (mark_session_failed / mark_session_succeeded, reanalyze_session, rescan_session_vulnerabilities' +
+        (can.blockDevice ? ', block_device' : '') + '): call WITHOUT confirm first, show the user the dry-run preview, and ' +
+        'pass confirm=true only after they explicitly agree. Never chain a confirmed write the user did not ask for.']
+      : []),
+    ...(STATEFUL_SESSIONS
+      ? ['Watching a live enrollment: subscribe to the resource session://{sessionId}/timeline and re-read it on each update notification instead of polling get_session_events.']
+      : []),
     scopeLine,
   ].join('\n');
 }
@@ -165,16 +237,24 @@ function buildInstructions(ga: boolean, delegated: boolean, managedTenants: stri
  * role: a non-Global-Admin never sees GA-only tools or any cross-tenant / GA
  * wording — reducing both confusion and attack surface.
  */
-function createMcpServer(ga: boolean, strictGa: boolean, delegated: boolean, managedTenants: string[]): McpServer {
+function createMcpServer(
+  ga: boolean,
+  strictGa: boolean,
+  delegated: boolean,
+  managedTenants: string[],
+  subscriptions?: SessionSubscriptionRegistry,
+): McpServer {
   const s = new McpServer(
     { name: 'Autopilot-Monitor', version: SERVER_VERSION },
     { instructions: buildInstructions(ga, delegated, managedTenants) },
   );
   registerTools(s, knowledgeBase, eventTypeIndex, ga, strictGa, delegated);
-  registerResources(s);
+  registerResources(s, subscriptions);
   // A delegated caller has no platform scope, so prompts get the tenant-user surface (ga=false) —
-  // the cross-tenant prompt wording would be misleading for a tenant-bounded MSP user.
-  registerPrompts(s, ga);
+  // the cross-tenant prompt wording would be misleading for a tenant-bounded MSP user. Tenant-specific
+  // playbooks match the caller's home tenant or, for an MSP, any managed tenant.
+  const homeTenant = getCallerContext()?.tenantId;
+  registerPrompts(s, ga, homeTenant ? [homeTenant, ...managedTenants] : managedTenants);
   return s;
 }
 
@@ -195,8 +275,11 @@ app.set('trust proxy', 1);
 // 1 KB threshold means small handshakes/errors are sent uncompressed, so the
 // cost lands only on the large query results where the egress/transfer win is
 // large. Requires the transport's enableJsonResponse (set below) — gzip over an
-// SSE (text/event-stream) frame would risk breaking stream framing.
-app.use(compression());
+// SSE (text/event-stream) frame would risk breaking stream framing, so the
+// stateful mode's GET /mcp notification stream is never compressed.
+app.use(compression({
+  filter: (req, res) => !(req.method === 'GET' && req.path === '/mcp') && compression.filter(req, res),
+}));
 
 // Tight body-size limit for /oauth/register, registered BEFORE the global
 // parser so the smaller limit wins (the global parser's body-already-parsed
@@ -231,7 +314,7 @@ app.get('/health', (_req, res) => {
 // Access guard for /mcp — validates JWT, checks backend whitelist, enforces rate limits
 app.use('/mcp', accessGuard);
 
-// MCP Streamable HTTP endpoint — STATELESS mode.
+// MCP Streamable HTTP endpoint — STATELESS mode (default).
 //
 // Sessions are intentionally NOT tracked server-side. Rationale:
 //   - The Container App runs with minReplicas=0 and scales to zero on idle
@@ -239,15 +322,22 @@ app.use('/mcp', accessGuard);
 //     on SIGTERM, so clients that paused between tool calls would see
 //     "Session expired" errors on their next POST — even though they were
 //     still actively using the server.
-//   - This MCP server exposes only request/response tool calls; it emits no
-//     server→client notifications, resource subscriptions, or log streams,
-//     so per-connection state has no purpose.
+//   - Tool calls are plain request/response; the only server→client
+//     notifications (resource subscriptions) live in the opt-in stateful mode
+//     below, so the hosted deployment needs no per-connection state.
 //   - Stateless mode (sessionIdGenerator: undefined) makes every POST a
 //     self-contained request. No Mcp-Session-Id header is issued, no state
 //     survives the response, scale-to-zero is free of side effects.
 //
 // GET/DELETE on /mcp have no meaning without sessions → respond 405.
+//
+// MCP_STATEFUL_SESSIONS=1 (single-replica / self-hosted) switches to session-bound
+// transports instead — see handleStatefulRequest.
 app.all('/mcp', async (req, res) => {
+  if (STATEFUL_SESSIONS) {
+    await handleStatefulRequest(req, res);
+    return;
+  }
   if (req.method !== 'POST') {
     res.status(405).json({
       jsonrpc: '2.0',
@@ -260,7 +350,7 @@ app.all('/mcp', async (req, res) => {
     sessionIdGenerator: undefined, // stateless: no session tracking
     // Return a single buffered application/json response instead of an SSE
     // (text/event-stream) frame. This server is stateless request/response and
-    // emits NO server→client notifications (see the rationale below), so SSE
+    // emits NO server→client notifications (see the rationale above), so SSE
     // buys nothing — and a plain JSON body is what lets the compression
     // middleware gzip large tool results (SSE would have to be left uncompressed
     // to avoid breaking stream framing). Spec-compatible: the client already must
@@ -303,6 +393,116 @@ app.all('/mcp', async (req, res) => {
   }
 });
 
+// --- Stateful mode (MCP_STATEFUL_SESSIONS=1) ---
+//
+// One transport + McpServer per MCP session (Mcp-Session-Id), kept in memory, so the
+// server can push notifications/resources/updated for session timeline subscriptions
+// over the client's GET /mcp SSE stream. POST responses stay buffered JSON (gzip-able).
+// A session is bound to the UPN that initialized it: the session id alone never
+// grants access, every request still passes accessGuard, and a different user
+// presenting someone else's session id is refused. Each request refreshes the
+// caller context that subscription polls run under (fresh token, current roles).
+// Idle sessions without live subscriptions are evicted; the map is capped.
+
+const SESSION_IDLE_MS = parsePositiveInt(process.env.MCP_SESSION_IDLE_MS, 30 * 60_000);
+const MAX_STATEFUL_SESSIONS = parsePositiveInt(process.env.MCP_MAX_SESSIONS, 200);
+
+interface StatefulSession {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  owner: string;
+  lastSeen: number;
+}
+
+const subscriptions = STATEFUL_SESSIONS ? new SessionSubscriptionRegistry() : undefined;
+const statefulSessions = new Map<string, StatefulSession>();
+
+function closeStatefulSession(id: string): void {
+  const entry = statefulSessions.get(id);
+  statefulSessions.delete(id);
+  subscriptions?.detach(id);
+  if (!entry) return;
+  entry.transport.close().catch(() => {});
+  entry.server.close().catch(() => {});
+}
+
+if (STATEFUL_SESSIONS) {
+  console.error(`[startup] Stateful MCP sessions enabled (resource subscriptions; idle TTL ${SESSION_IDLE_MS} ms, cap ${MAX_STATEFUL_SESSIONS}).`);
+  setInterval(() => {
+    const cutoff = Date.now() - SESSION_IDLE_MS;
+    for (const [id, entry] of statefulSessions) {
+      if (entry.lastSeen < cutoff && subscriptions!.countFor(id) === 0) closeStatefulSession(id);
+    }
+  }, 60_000).unref();
+}
+
+function rpcError(res: Response, status: number, code: number, message: string): void {
+  res.status(status).json({ jsonrpc: '2.0', error: { code, message }, id: null });
+}
+
+async function handleStatefulRequest(req: Request, res: Response): Promise<void> {
+  const caller = getCallerContext();
+  const owner = caller?.upn;
+  if (!caller || !owner) {
+    rpcError(res, 401, -32001, 'Unauthorized');
+    return;
+  }
+  const sessionId = req.header('mcp-session-id');
+
+  try {
+    if (sessionId) {
+      const entry = statefulSessions.get(sessionId);
+      if (!entry) {
+        // Per spec: 404 tells the client to start a new session (expired, evicted or restarted).
+        rpcError(res, 404, -32001, 'Session not found. Re-initialize.');
+        return;
+      }
+      if (entry.owner !== owner) {
+        rpcError(res, 403, -32001, 'Session belongs to a different user.');
+        return;
+      }
+      entry.lastSeen = Date.now();
+      subscriptions!.updateCaller(sessionId, caller);
+      await entry.transport.handleRequest(req, res, req.body);
+      if (req.method === 'DELETE') closeStatefulSession(sessionId);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(req.body)) {
+      rpcError(res, 400, -32000, 'Bad Request: missing Mcp-Session-Id (only initialize may start a session).');
+      return;
+    }
+    if (statefulSessions.size >= MAX_STATEFUL_SESSIONS) {
+      rpcError(res, 503, -32000, 'Too many open MCP sessions — retry later.');
+      return;
+    }
+
+    const ga = hasGlobalScope();
+    const delegated = !ga && isDelegated();
+    const managedTenants = delegated ? (getDelegatedTenantIds() ?? []) : [];
+    const server = createMcpServer(ga, isGlobalAdmin(), delegated, managedTenants, subscriptions);
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      enableJsonResponse: true,
+      onsessioninitialized: (id) => {
+        statefulSessions.set(id, { transport, server, owner, lastSeen: Date.now() });
+        subscriptions!.attach(id, caller, (uri) => server.server.sendResourceUpdated({ uri }));
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) closeStatefulSession(transport.sessionId);
+    };
+    transport.onerror = (error: Error) => {
+      console.error(`[mcp] Transport error: ${error.message}`);
+    };
+    await server.connect(transport);
+    await transport.handleRequest(req, res, req.body);
+  } catch (err) {
+    console.error('[mcp] Request handling failed:', err);
+    if (!res.headersSent) rpcError(res, 500, -32603, 'Internal server error');
+  }
+}
+
 // Body-parse error handler — registered after the routes so Express routes the
 // parser errors (express.json throws BEFORE the route handler runs) here rather
 // than to its built-in handler, which emits an HTML error page. For the
@@ -351,6 +551,8 @@ async function gracefulShutdown(signal: string) {
   console.error(`[mcp] Received ${signal}, shutting down gracefully…`);
   // Stateless mode: no long-lived transports to close. Just stop accepting
   // new connections and let in-flight requests drain via their own res.on('close').
+  // Stateful mode: close every session so open SSE streams end and the server can drain.
+  for (const id of [...statefulSessions.keys()]) closeStatefulSession(id);
   server.close(() => {
     console.error('[mcp] HTTP server closed');
     process.exit(0);
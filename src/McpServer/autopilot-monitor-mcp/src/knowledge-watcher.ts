@@ -0,0 +1,117 @@
+/**
+ * Watch mode for the knowledge base: hot-reload the search index when rule files change, so rule
+ * authors iterating on rule text see `search_knowledge` reflect an edit without restarting the
+ * server. Opt-in via KNOWLEDGE_WATCH=1 — the hosted image bakes rules/ in and never edits it.
+ *
+ * Editors and `git checkout` emit bursts of events (temp file, rename, chmod) per save, so changes
+ * are debounced and reloads are serialized: at most one reindex runs at a time, and a burst during
+ * a running reindex triggers exactly one follow-up. Only the changed documents are re-embedded
+ * (SearchProvider.reindex + embedding-cache.ts). A failed or empty reload keeps the current
+ * index — a half-saved file must never blank out search.
+ */
+
+import { watch, type FSWatcher } from 'node:fs';
+import { join } from 'node:path';
+import { loadKnowledgeDocs } from './knowledge-base.js';
+import type { ReindexStats, SearchDocument, SearchProvider } from './search-provider.js';
+
+/** The rules/ subfolders loadKnowledgeDocs reads. */
+const KNOWLEDGE_DIRS = ['analyze', 'gather', 'ime-log-patterns'];
+const DEFAULT_DEBOUNCE_MS = 500;
+
+export interface KnowledgeWatchOptions {
+  debounceMs?: number;
+  /** Corpus loader — defaults to loadKnowledgeDocs. */
+  load?: (rulesRoot: string) => Promise<SearchDocument[]>;
+  onReload?: (stats: ReindexStats) => void;
+}
+
+export interface KnowledgeWatcher {
+  /** Number of rules/ subfolders actually being watched. */
+  readonly watchedDirs: number;
+  /**
+   * Reload now, or — while a reload is running — join the single follow-up queued behind it.
+   * Resolves null when the reload was skipped or failed.
+   */
+  reloadNow(): Promise<ReindexStats | null>;
+  close(): void;
+}
+
+export function watchKnowledgeBase(
+  rulesRoot: string,
+  provider: SearchProvider,
+  options: KnowledgeWatchOptions = {},
+): KnowledgeWatcher {
+  const reindex = provider.reindex?.bind(provider);
+  if (!reindex) throw new Error(`[knowledge-watch] search backend ${provider.name} does not support reindex`);
+  const debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+  const load = options.load ?? loadKnowledgeDocs;
+
+  const reload = async (): Promise<ReindexStats | null> => {
+    const started = Date.now();
+    try {
+      const docs = await load(rulesRoot);
+      if (docs.length === 0) {
+        console.error('[knowledge-watch] Rules folder yielded no documents — keeping the current index.');
+        return null;
+      }
+      const stats = await reindex(docs);
+      console.error(
+        `[knowledge-watch] Reindexed ${stats.total} documents in ${Date.now() - started} ms ` +
+        `(${stats.embedded} embedded, ${stats.reused} reused, ${stats.removed} removed).`,
+      );
+      options.onReload?.(stats);
+      return stats;
+    } catch (err) {
+      console.error('[knowledge-watch] Reload failed — keeping the current index:', err);
+      return null;
+    }
+  };
+
+  // reload() never rejects, so neither promise needs a catch.
+  let running: Promise<ReindexStats | null> | undefined;
+  let queued: Promise<ReindexStats | null> | undefined;
+  const reloadNow = (): Promise<ReindexStats | null> => {
+    if (!running) {
+      running = reload().finally(() => { running = undefined; });
+      return running;
+    }
+    // Every request made during a reload shares one follow-up, which reads the files as they are
+    // once the current reload is done.
+    queued ??= running.then(() => {
+      queued = undefined;
+      return reloadNow();
+    });
+    return queued;
+  };
+
+  let timer: NodeJS.Timeout | undefined;
+  const schedule = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => void reloadNow(), debounceMs);
+  };
+
+  const watchers: FSWatcher[] = [];
+  for (const dir of KNOWLEDGE_DIRS) {
+    try {
+      const w = watch(join(rulesRoot, dir), (_event, filename) => {
+        // Editor swap/backup files are noise; a null filename (platform-dependent) reloads to be safe.
+        if (filename && !filename.endsWith('.json')) return;
+        schedule();
+      });
+      w.on('error', (err) => console.error(`[knowledge-watch] Watcher for ${dir}/ failed:`, err));
+      watchers.push(w);
+    } catch {
+      // Missing subfolder — nothing to watch there (loadKnowledgeDocs tolerates it the same way).
+    }
+  }
+
+  return {
+    watchedDirs: watchers.length,
+    reloadNow,
+    close() {
+      clearTimeout(timer);
+      for (const w of watchers) w.close();
+    },
+  };
+}
@@ -0,0 +1,832 @@
+/**
+ * Settings and administration routes the web app uses, backed by the in-memory MockState: tenant
+ * configuration and feature flags, tenant members, bootstrap codes, rules, notifications, feedback,
+ * device / version blocks and the platform lists (preview whitelist, MCP users, delegated admins,
+ * tenant groups, global configuration), plus health and the realtime group calls.
+ *
+ * Role checks follow EndpointAccessPolicyCatalog: tenant writes need the tenant's Admin or a Global
+ * Admin, platform reads a platform role, platform writes a Global Admin. Granting a delegated admin
+ * or MCP access changes the lists only — the fixture users' own scope stays as seeded.
+ *
+ * Features that only exist against Azure (backups, customs archive, deletion manifests, ops events,
+ * distress and session reports, Graph consent, vulnerability feeds, SignalR) list as empty, and
+ * their actions answer 503 instead of pretending to have run.
+ */
+import { randomBytes } from 'node:crypto';
+import type express from 'express';
+import type { Request, RequestHandler } from 'express';
+import type { MockUser } from './fixtures.js';
+import { callerOf, hasPlatformScope, MockHttpError, queryOf, tenantScope } from './http.js';
+import {
+  audit,
+  createFromTemplate,
+  createRule,
+  deleteRule,
+  rulesFor,
+  updateRule,
+  type MockState,
+  type Row,
+  type RuleKind,
+} from './state.js';
+
+const PLAN_TIERS = [
+  { name: 'Free', dailyRequestLimit: 100, monthlyRequestLimit: 1000, description: 'Evaluation use' },
+  { name: 'Standard', dailyRequestLimit: 1000, monthlyRequestLimit: 20000, description: 'Day-to-day operations' },
+  { name: 'Unlimited', dailyRequestLimit: 0, monthlyRequestLimit: 0, description: 'No request limits' },
+];
+
+const bodyOf = (req: Request): Row => (req.body && typeof req.body === 'object' ? req.body as Row : {});
+
+const now = () => new Date().toISOString();
+
+// ── Role guards ──────────────────────────────────────────────────────────────
+
+const isGlobalAdmin = (caller: MockUser) => caller.globalRole === 'GlobalAdmin';
+
+function requireTenantAdmin(caller: MockUser, tenantId: string): void {
+  if (isGlobalAdmin(caller) || (tenantId === caller.tenantId && caller.memberRole === 'Admin')) return;
+  throw new MockHttpError(403, 'Tenant Admin or Global Admin role required');
+}
+
+/** Tenant admin of `tenantId`, or read-only platform scope (config / Graph status reads). */
+function requireTenantAdminOrReader(caller: MockUser, tenantId: string): void {
+  if (hasPlatformScope(caller)) return;
+  requireTenantAdmin(caller, tenantId);
+}
+
+function requirePlatformRead(caller: MockUser): void {
+  if (!hasPlatformScope(caller)) throw new MockHttpError(403, 'Global Admin or Global Reader role required');
+}
+
+function requireGlobalAdmin(caller: MockUser): void {
+  if (!isGlobalAdmin(caller)) throw new MockHttpError(403, 'Global Admin role required');
+}
+
+/** A route whose work happens in Azure storage or an external service the mock doesn't have. */
+const azureOnly = (what: string): RequestHandler => () => {
+  throw new MockHttpError(503, `Needs the Azure backend, not available against the mock backend: ${what}`);
+};
+
+function find<T extends Row>(rows: T[], predicate: (row: T) => boolean, what: string): T {
+  const row = rows.find(predicate);
+  if (!row) throw new MockHttpError(404, `${what} not found`);
+  return row;
+}
+
+function remove<T>(rows: T[], predicate: (row: T) => boolean, what: string): void {
+  const index = rows.findIndex(predicate);
+  if (index < 0) throw new MockHttpError(404, `${what} not found`);
+  rows.splice(index, 1);
+}
+
+export function registerAdminRoutes(app: express.Express, state: MockState): void {
+  const tenantParam = (req: Request) => String(req.params.tenantId).toLowerCase();
+  const configOf = (tenantId: string): Row => {
+    const config = state.configs.get(tenantId);
+    if (!config) throw new MockHttpError(404, `Tenant ${tenantId} not found`);
+    return config;
+  };
+
+  // ── Tenant configuration ──
+  // /all and /latest-versions first: they would otherwise match /api/config/:tenantId.
+  app.get('/api/config/all', (_req, res) => {
+    const caller = callerOf(res);
+    const configs = [...state.configs.values()];
+    if (hasPlatformScope(caller)) return void res.json(configs);
+    if (!caller.delegatedTenantIds?.length) throw new MockHttpError(403, 'Global Admin or Global Reader role required');
+    res.json(configs.filter((c) => caller.delegatedTenantIds!.includes(String(c.tenantId))));
+  });
+
+  app.get('/api/config/latest-versions', (_req, res) => {
+    res.json({
+      latestAgentVersion: state.globalConfig.latestAgentVersion,
+      latestBootstrapScriptVersion: state.globalConfig.latestBootstrapScriptVersion,
+      fetchedAtUtc: now(),
+    });
+  });
+
+  app.get('/api/config/:tenantId', (req, res) => {
+    const tenantId = tenantParam(req);
+    requireTenantAdminOrReader(callerOf(res), tenantId);
+    res.json(configOf(tenantId));
+  });
+
+  const saveConfig: RequestHandler = (req, res) => {
+    const caller = callerOf(res);
+    const tenantId = tenantParam(req);
+    requireTenantAdmin(caller, tenantId);
+    const config = Object.assign(configOf(tenantId), bodyOf(req), { tenantId, lastUpdated: now(), updatedBy: caller.upn });
+    audit(state, caller, tenantId, 'UPDATE', 'TenantConfiguration', tenantId);
+    res.json({ success: true, message: 'Configuration updated', config });
+  };
+  app.put('/api/config/:tenantId', saveConfig);
+  app.post('/api/config/:tenantId', saveConfig);
+
+  app.get('/api/config/:tenantId/feature-flags', (req, res) => {
+    const config = configOf(tenantScope(callerOf(res), tenantParam(req)));
+    res.json({
+      bootstrapTokenEnabled: config.bootstrapTokenEnabled,
+      validateAutopilotDevice: config.validateAutopilotDevice,
+      showScriptOutput: config.showScriptOutput ?? true,
+      enableSoftwareInventoryAnalyzer: config.enableSoftwareInventoryAnalyzer ?? false,
+      enableIntegrityBypassAnalyzer: config.enableIntegrityBypassAnalyzer ?? true,
+      unrestrictedMode: config.unrestrictedMode ?? false,
+    });
+  });
+
+  app.get('/api/config/:tenantId/autopilot-device-validation/access-check', (req, res) => {
+    requireTenantAdmin(callerOf(res), tenantParam(req));
+    res.json({ accessPresent: false, isTransient: false });
+  });
+  app.get('/api/config/:tenantId/autopilot-device-validation/consent-status', (req, res) => {
+    requireTenantAdmin(callerOf(res), tenantParam(req));
+    res.json({ isConsented: false, message: 'The mock backend has no Entra ID app to consent to.' });
+  });
+  app.get('/api/config/:tenantId/autopilot-device-validation/consent-url', azureOnly('Admin consent'));
+  app.post('/api/config/:tenantId/autopilot-device-validation/consent-success', azureOnly('Admin consent'));
+  app.post('/api/config/:tenantId/autopilot-device-validation/consent-failure', azureOnly('Admin consent'));
+  app.post('/api/config/:tenantId/test-notification', azureOnly('Sending a test notification'));
+
+  // ── Tenant members ──
+  const membersOf = (tenantId: string) => state.admins.filter((a) => a.tenantId === tenantId);
+  const memberOf = (req: Request) => {
+    const tenantId = tenantParam(req);
+    const upn = String(req.params.adminUpn).toLowerCase();
+    return find(state.admins, (a) => a.tenantId === tenantId && a.upn === upn, `Member ${upn}`);
+  };
+
+  app.get('/api/tenants/:tenantId/admins', (req, res) => {
+    const tenantId = tenantParam(req);
+    requireTenantAdmin(callerOf(res), tenantId);
+    res.json(membersOf(tenantId));
+  });
+
+  app.post('/api/tenants/:tenantId/admins', (req, res) => {
+    const caller = callerOf(res);
+    const tenantId = tenantParam(req);
+    requireTenantAdmin(caller, tenantId);
+    const body = bodyOf(req);
+    const upn = String(body.upn ?? '').trim().toLowerCase();
+    if (!upn.includes('@')) throw new MockHttpError(400, 'A valid UPN is required');
+    if (membersOf(tenantId).some((a) => a.upn === upn)) throw new MockHttpError(409, `${upn} is already a member`);
+    const role = String(body.role ?? 'Admin');
+    const member = { tenantId, upn, isEnabled: true, addedDate: now(), addedBy: caller.upn, role, canManageBootstrapTokens: role === 'Admin' };
+    state.admins.push(member);
+    audit(state, caller, tenantId, 'CREATE', 'TenantAdmin', upn, `Role: ${role}`);
+    res.json(member);
+  });
+
+  app.delete('/api/tenants/:tenantId/admins/:adminUpn', (req, res) => {
+    const caller = callerOf(res);
+    requireTenantAdmin(caller, tenantParam(req));
+    const member = memberOf(req);
+    state.admins.splice(state.admins.indexOf(member), 1);
+    audit(state, caller, String(member.tenantId), 'DELETE', 'TenantAdmin', String(member.upn));
+    res.json({ success: true, message: 'Member removed' });
+  });
+
+  // /permissions before /:action, which would take it for an action name.
+  app.patch('/api/tenants/:tenantId/admins/:adminUpn/permissions', (req, res) => {
+    const caller = callerOf(res);
+    requireTenantAdmin(caller, tenantParam(req));
+    const member = memberOf(req);
+    const body = bodyOf(req);
+    if (typeof body.role === 'string') member.role = body.role;
+    if (typeof body.canManageBootstrapTokens === 'boolean') member.canManageBootstrapTokens = body.canManageBootstrapTokens;
+    audit(state, caller, String(member.tenantId), 'UPDATE', 'TenantAdmin', String(member.upn), `Role: ${member.role}`);
+    res.json(member);
+  });
+
+  app.patch('/api/tenants/:tenantId/admins/:adminUpn/:action', (req, res) => {
+    const caller = callerOf(res);
+    requireTenantAdmin(caller, tenantParam(req));
+    const action = String(req.params.action);
+    if (action !== 'enable' && action !== 'disable') throw new MockHttpError(400, `Unknown action '${action}'`);
+    const member = memberOf(req);
+    member.isEnabled = action === 'enable';
+    audit(state, caller, String(member.tenantId), 'UPDATE', 'TenantAdmin', String(member.upn), action);
+    res.json(member);
+  });
+
+  app.delete('/api/tenants/:tenantId/offboard', azureOnly('Tenant offboarding'));
+  app.post('/api/tenants/:tenantId/offboard/feedback', azureOnly('Tenant offboarding'));
+
+  app.get('/api/tenants/:tenantId/graph-permissions/status', (req, res) => {
+    requireTenantAdminOrReader(callerOf(res), tenantParam(req));
+    res.json({ clientId: 'mock-backend', isTransient: false, grantedRoles: [], features: [] });
+  });
+  app.post('/api/tenants/:tenantId/graph-permissions/refresh', azureOnly('Refreshing Graph permissions'));
+
+  app.post('/api/tenants/:tenantId/scripts/display-names', (req, res) => {
+    tenantScope(callerOf(res), tenantParam(req));
+    res.json({ refs: {} });
+  });
+
+  // ── Bootstrap codes ──
+  const requireBootstrapManager = (caller: MockUser, tenantId: string) => {
+    if (isGlobalAdmin(caller)) return;
+    const member = state.admins.find((a) => a.tenantId === tenantId && a.upn === caller.upn && a.isEnabled);
+    if (tenantId === caller.tenantId && (member?.role === 'Admin' || member?.canManageBootstrapTokens === true)) return;
+    throw new MockHttpError(403, 'Bootstrap token management permission required');
+  };
+
+  app.get('/api/bootstrap/sessions', (req, res) => {
+    const caller = callerOf(res);
+    const tenantId = queryOf(req).tenantId?.toLowerCase() ?? caller.tenantId;
+    requireBootstrapManager(caller, tenantId);
+    const sessions = state.bootstrapSessions
+      .filter((s) => s.tenantId === tenantId)
+      .map((s) => ({ ...s, isExpired: String(s.expiresAt) < now() }));
+    res.json({ sessions });
+  });
+
+  app.post('/api/bootstrap/sessions', (req, res) => {
+    const caller = callerOf(res);
+    const body = bodyOf(req);
+    const tenantId = String(body.tenantId ?? caller.tenantId).toLowerCase();
+    requireBootstrapManager(caller, tenantId);
+    const validityHours = Number(body.validityHours ?? 24);
+    if (!Number.isFinite(validityHours) || validityHours < 1 || validityHours > 720) {
+      throw new MockHttpError(400, 'validityHours must be between 1 and 720');
+    }
+    const shortCode = randomBytes(4).toString('hex');
+    const session = {
+      tenantId,
+      shortCode,
+      label: String(body.label ?? ''),
+      createdAt: now(),
+      expiresAt: new Date(Date.now() + validityHours * 3_600_000).toISOString(),
+      createdByUpn: caller.upn,
+      isRevoked: false,
+      usageCount: 0,
+    };
+    state.bootstrapSessions.unshift(session);
+    audit(state, caller, tenantId, 'CREATE', 'BootstrapSession', shortCode);
+    res.json({ success: true, ...session, bootstrapUrl: `${req.protocol}://${req.get('host')}/go/${shortCode}` });
+  });
+
+  app.delete('/api/bootstrap/sessions/:code', (req, res) => {
+    const caller = callerOf(res);
+    const tenantId = queryOf(req).tenantId?.toLowerCase() ?? caller.tenantId;
+    requireBootstrapManager(caller, tenantId);
+    const session = find(state.bootstrapSessions, (s) => s.tenantId === tenantId && s.shortCode === req.params.code, 'Bootstrap session');
+    session.isRevoked = true;
+    audit(state, caller, tenantId, 'DELETE', 'BootstrapSession', String(session.shortCode));
+    res.json({ success: true, message: 'Bootstrap session revoked' });
+  });
+
+  // ── Rules ──
+  const ruleRoutes = (kind: RuleKind, path: string, listKey: 'rules' | 'patterns') => {
+    const store = state.rules[kind];
+    app.get(`/api/${path}`, (req, res) => {
+      const tenantId = tenantScope(callerOf(res), queryOf(req).tenantId);
+      res.json({ success: true, [listKey]: rulesFor(store, tenantId) });
+    });
+    if (kind === 'ime') return;
+
+    app.post(`/api/${path}`, (req, res) => {
+      const caller = callerOf(res);
+      requireTenantAdmin(caller, caller.tenantId);
+      const rule = createRule(store, caller.tenantId, bodyOf(req));
+      audit(state, caller, caller.tenantId, 'CREATE', `${kind}Rule`, String(rule.ruleId));
+      res.json({ success: true, message: 'Rule created' });
+    });
+    app.put(`/api/${path}/:ruleId`, (req, res) => {
+      const caller = callerOf(res);
+      requireTenantAdmin(caller, caller.tenantId);
+      updateRule(store, caller.tenantId, String(req.params.ruleId), bodyOf(req));
+      audit(state, caller, caller.tenantId, 'UPDATE', `${kind}Rule`, String(req.params.ruleId));
+      res.json({ success: true, message: 'Rule updated' });
+    });
+    app.delete(`/api/${path}/:ruleId`, (req, res) => {
+      const caller = callerOf(res);
+      requireTenantAdmin(caller, caller.tenantId);
+      deleteRule(store, caller.tenantId, String(req.params.ruleId));
+      audit(state, caller, caller.tenantId, 'DELETE', `${kind}Rule`, String(req.params.ruleId));
+      res.json({ success: true, message: 'Rule deleted' });
+    });
+    app.get(`/api/global/${path}`, (req, res) => {
+      const caller = callerOf(res);
+      requirePlatformRead(caller);
+      res.json({ success: true, rules: rulesFor(store, queryOf(req).tenantId?.toLowerCase() ?? caller.tenantId) });
+    });
+  };
+  ruleRoutes('analyze', 'rules/analyze', 'rules');
+  ruleRoutes('gather', 'rules/gather', 'rules');
+  ruleRoutes('ime', 'rules/ime-log-patterns', 'patterns');
+
+  app.post('/api/rules/analyze/:ruleId/create-from-template', (req, res) => {
+    const caller = callerOf(res);
+    requireTenantAdmin(caller, caller.tenantId);
+    const rule = createFromTemplate(state.rules.analyze, caller.tenantId, String(req.params.ruleId), bodyOf(req));
+    audit(state, caller, caller.tenantId, 'CREATE', 'analyzeRule', String(rule.ruleId), `From template ${req.params.ruleId}`);
+    res.json({ success: true, rule, message: 'Custom rule created from template' });
+  });
+
+  // IME patterns are global definitions: a Global Admin edits the built-in pattern itself.
+  app.put('/api/rules/ime-log-patterns/:patternId', (req, res) => {
+    const caller = callerOf(res);
+    if (queryOf(req).global !== 'true') throw new MockHttpError(403, 'IME log pattern edits require ?global=true');
+    requireGlobalAdmin(caller);
+    const patternId = String(req.params.patternId);
+    const pattern = find(state.rules.ime.builtIn, (p) => p.patternId === patternId, `Pattern '${patternId}'`);
+    Object.assign(pattern, bodyOf(req), { patternId });
+    audit(state, caller, caller.tenantId, 'UPDATE', 'ImeLogPattern', patternId);
+    res.json({ success: true, message: 'Global pattern updated' });
+  });
+
+  app.post('/api/rules/reseed-from-github', azureOnly('Reseeding rules from GitHub'));
+
+  // ── Notifications ──
+  const notificationRoutes = (base: string, scope: (caller: MockUser) => string | null) => {
+    const visible = (caller: MockUser) => {
+      const tenantId = scope(caller);
+      return state.notifications.filter((n) => n.tenantId === tenantId && !n.dismissed);
+    };
+    app.get(base, (_req, res) => {
+      res.json({ notifications: visible(callerOf(res)) });
+    });
+    app.post(`${base}/dismiss-all`, (_req, res) => {
+      for (const n of visible(callerOf(res))) n.dismissed = true;
+      res.json({ success: true });
+    });
+    app.post(`${base}/:id/dismiss`, (req, res) => {
+      find(visible(callerOf(res)), (n) => n.id === req.params.id, 'Notification').dismissed = true;
+      res.json({ success: true });
+    });
+  };
+  notificationRoutes('/api/notifications', (caller) => caller.tenantId);
+  // Platform notifications carry no tenant.
+  notificationRoutes('/api/global/notifications', (caller) => {
+    requirePlatformRead(caller);
+    return null;
+  });
+
+  // ── Feedback ──
+  app.get('/api/feedback/status', (_req, res) => {
+    const caller = callerOf(res);
+    res.json({ eligible: !state.feedback.some((f) => f.upn === caller.upn) });
+  });
+
+  app.post('/api/feedback', (req, res) => {
+    const caller = callerOf(res);
+    const body = bodyOf(req);
+    const dismissed = body.dismissed === true;
+    state.feedback.unshift({
+      type: 'feedback',
+      upn: caller.upn,
+      tenantId: caller.tenantId,
+      displayName: caller.displayName,
+      rating: dismissed ? null : Number(body.rating ?? 0) || null,
+      comment: String(body.comment ?? ''),
+      dismissed,
+      submitted: !dismissed,
+      interactedAt: now(),
+      historyRowKey: `feedback-${state.feedback.length + 1}`,
+      domainName: state.configs.get(caller.tenantId)?.domainName ?? '',
+    });
+    res.json({ success: true });
+  });
+
+  app.get('/api/feedback/all', (_req, res) => {
+    requirePlatformRead(callerOf(res));
+    res.json({ feedback: state.feedback });
+  });
+
+  // ── Device & version blocks ──
+  const blockedDevices = (tenantId: string | undefined) =>
+    state.blockedDevices.filter((b) => (!tenantId || b.tenantId === tenantId) && (!b.unblockAt || String(b.unblockAt) > now()));
+
+  app.get('/api/devices/blocked', (req, res) => {
+    requirePlatformRead(callerOf(res));
+    res.json({ blocked: blockedDevices(queryOf(req).tenantId?.toLowerCase()) });
+  });
+  app.get('/api/global/devices/blocked', (_req, res) => {
+    requirePlatformRead(callerOf(res));
+    res.json({ blocked: blockedDevices(undefined) });
+  });
+
+  app.post('/api/devices/block', (req, res) => {
+    const caller = callerOf(res);
+    requireGlobalAdmin(caller);
+    const body = bodyOf(req);
+    const tenantId = String(body.tenantId ?? '').toLowerCase();
+    const serialNumber = String(body.serialNumber ?? '').trim();
+    if (!tenantId || !serialNumber) throw new MockHttpError(400, 'tenantId and serialNumber are required');
+    const durationHours = Number(body.durationHours ?? 12);
+    state.blockedDevices = state.blockedDevices.filter((b) => !(b.tenantId === tenantId && b.serialNumber === serialNumber));
+    state.blockedDevices.unshift({
+      tenantId,
+      serialNumber,
+      blockedAt: now(),
+      unblockAt: new Date(Date.now() + durationHours * 3_600_000).toISOString(),
+      blockedByEmail: caller.upn,
+      durationHours,
+      reason: String(body.reason ?? ''),
+      action: String(body.action ?? 'Block'),
+    });
+    audit(state, caller, tenantId, 'CREATE', 'BlockedDevice', serialNumber);
+    res.json({ success: true, message: `Device ${serialNumber} blocked for ${durationHours}h` });
+  });
+
+  app.delete('/api/devices/block/:serialNumber', (req, res) => {
+    const caller = callerOf(res);
+    requireGlobalAdmin(caller);
+    const tenantId = queryOf(req).tenantId?.toLowerCase();
+    const serialNumber = String(req.params.serialNumber);
+    remove(state.blockedDevices, (b) => b.serialNumber === serialNumber && (!tenantId || b.tenantId === tenantId), `Blocked device ${serialNumber}`);
+    audit(state, caller, tenantId ?? caller.tenantId, 'DELETE', 'BlockedDevice', serialNumber);
+    res.json({ success: true, message: `Device ${serialNumber} unblocked` });
+  });
+
+  app.get('/api/versions/blocked', (_req, res) => {
+    requirePlatformRead(callerOf(res));
+    res.json({ rules: state.blockedVersions });
+  });
+
+  app.post('/api/versions/block', (req, res) => {
+    const caller = callerOf(res);
+    requireGlobalAdmin(caller);
+    const body = bodyOf(req);
+    const versionPattern = String(body.versionPattern ?? '').trim();
+    if (!versionPattern) throw new MockHttpError(400, 'versionPattern is required');
+    state.blockedVersions = state.blockedVersions.filter((v) => v.versionPattern !== versionPattern);
+    state.blockedVersions.unshift({ versionPattern, action: String(body.action ?? 'Block'), createdByEmail: caller.upn, createdAt: now(), reason: String(body.reason ?? '') });
+    audit(state, caller, caller.tenantId, 'CREATE', 'BlockedVersion', versionPattern);
+    res.json({ success: true, message: `Version pattern ${versionPattern} blocked` });
+  });
+
+  app.delete('/api/versions/block/:pattern', (req, res) => {
+    const caller = callerOf(res);
+    requireGlobalAdmin(caller);
+    const versionPattern = String(req.params.pattern);
+    remove(state.blockedVersions, (v) => v.versionPattern === versionPattern, `Version pattern ${versionPattern}`);
+    audit(state, caller, caller.tenantId, 'DELETE', 'BlockedVersion', versionPattern);
+    res.json({ success: true, message: `Version pattern ${versionPattern} unblocked` });
+  });
+
+  // ── Preview whitelist ──
+  app.get('/api/preview/whitelist', (_req, res) => {
+    requirePlatformRead(callerOf(res));
+    res.json({ tenants: state.previewWhitelist });
+  });
+
+  app.post('/api/preview/whitelist/:tenantId', (req, res) => {
+    const caller = callerOf(res);
+    requireGlobalAdmin(caller);
+    const tenantId = tenantParam(req);
+    if (!state.previewWhitelist.some((t) => t.partitionKey === tenantId)) {
+      state.previewWhitelist.push({ partitionKey: tenantId, rowKey: 'whitelist', approvedAt: now(), approvedBy: caller.upn });
+    }
+    res.json({ success: true, message: `Tenant ${tenantId} approved` });
+  });
+
+  app.delete('/api/preview/whitelist/:tenantId', (req, res) => {
+    requireGlobalAdmin(callerOf(res));
+    const tenantId = tenantParam(req);
+    remove(state.previewWhitelist, (t) => t.partitionKey === tenantId, `Tenant ${tenantId}`);
+    res.json({ success: true, message: `Tenant ${tenantId} removed from the whitelist` });
+  });
+
+  app.put('/api/preview/notification-email', (req, res) => {
+    const email = String(bodyOf(req).email ?? '').trim();
+    if (!email.includes('@')) throw new MockHttpError(400, 'A valid email address is required');
+    state.previewEmails.set(callerOf(res).tenantId, email);
+    res.json({ success: true });
+  });
+
+  app.get('/api/preview/notification-email/:tenantId', (req, res) => {
+    requirePlatformRead(callerOf(res));
+    res.json({ email: state.previewEmails.get(tenantParam(req)) ?? null });
+  });
+
+  app.post('/api/preview/send-welcome-email/:tenantId', azureOnly('Sending email'));
+
+  // ── Global configuration ──
+  app.get('/api/global/config', (_req, res) => {
+    requirePlatformRead(callerOf(res));
+    res.json(state.globalConfig);
+  });
+
+  app.put('/api/global/config', (req, res) => {
+    const caller = callerOf(res);
+    requireGlobalAdmin(caller);
+    Object.assign(state.globalConfig, bodyOf(req), { partitionKey: 'GlobalConfig', lastUpdated: now(), updatedBy: caller.upn });
+    audit(state, caller, caller.tenantId, 'UPDATE', 'AdminConfiguration', 'GlobalConfig');
+    res.json({ success: true, config: state.globalConfig });
+  });
+
+  // /plan-tiers before /:tenantId.
+  app.get('/api/global/config/plan-tiers', (_req, res) => {
+    requirePlatformRead(callerOf(res));
+    res.json({ tiers: PLAN_TIERS });
+  });
+
+  app.get('/api/global/config/:tenantId', (req, res) => {
+    requirePlatformRead(callerOf(res));
+    res.json(configOf(tenantParam(req)));
+  });
+
+  app.put('/api/global/config/:tenantId', (req, res) => {
+    const caller = callerOf(res);
+    requireGlobalAdmin(caller);
+    const tenantId = tenantParam(req);
+    const config = Object.assign(configOf(tenantId), bodyOf(req), { tenantId, lastUpdated: now(), updatedBy: caller.upn });
+    audit(state, caller, tenantId, 'UPDATE', 'TenantConfiguration', tenantId, 'Global Admin override');
+    res.json({ success: true, config });
+  });
+
+  // ── MCP users ──
+  const mcpUser = (req: Request) => {
+    const upn = String(req.params.upn).toLowerCase();
+    return find(state.mcpUsers, (u) => u.upn === upn, `MCP user ${upn}`);
+  };
+
+  app.get('/api/global/mcp-users', (_req, res) => {
+    requirePlatformRead(callerOf(res));
+    res.json({ users: state.mcpUsers, policy: 'WhitelistOnly' });
+  });
+
+  app.get('/api/global/mcp-users/check', (req, res) => {
+    const upn = String(queryOf(req).upn ?? callerOf(res).upn).toLowerCase();
+    const user = state.mcpUsers.find((u) => u.upn === upn);
+    res.json({ upn, allowed: !!user?.isEnabled, policy: 'WhitelistOnly' });
+  });
+
+  app.post('/api/global/mcp-users', (req, res) => {
+    const caller = callerOf(res);
+    requireGlobalAdmin(caller);
+    const upn = String(bodyOf(req).upn ?? '').trim().toLowerCase();
+    if (!upn.includes('@')) throw new MockHttpError(400, 'A valid UPN is required');
+    if (state.mcpUsers.some((u) => u.upn === upn)) throw new MockHttpError(409, `${upn} already has MCP access`);
+    const user = { upn, isEnabled: true, addedAt: now(), addedBy: caller.upn, usagePlan: null };
+    state.mcpUsers.push(user);
+    res.json(user);
+  });
+
+  app.delete('/api/global/mcp-users/:upn', (req, res) => {
+    requireGlobalAdmin(callerOf(res));
+    const user = mcpUser(req);
+    state.mcpUsers.splice(state.mcpUsers.indexOf(user), 1);
+    res.json({ success: true });
+  });
+
+  app.patch('/api/global/mcp-users/:upn/usage-plan', (req, res) => {
+    requireGlobalAdmin(callerOf(res));
+    const user = mcpUser(req);
+    const usagePlan = bodyOf(req).usagePlan ?? null;
+    if (usagePlan !== null && !PLAN_TIERS.some((t) => t.name === usagePlan)) throw new MockHttpError(400, `Unknown usage plan '${String(usagePlan)}'`);
+    user.usagePlan = usagePlan;
+    res.json(user);
+  });
+
+  app.patch('/api/global/mcp-users/:upn/:action', (req, res) => {
+    requireGlobalAdmin(callerOf(res));
+    const action = String(req.params.action);
+    if (action !== 'enable' && action !== 'disable') throw new MockHttpError(400, `Unknown action '${action}'`);
+    const user = mcpUser(req);
+    user.isEnabled = action === 'enable';
+    res.json(user);
+  });
+
+  // ── MCP usage (the mock keeps no usage records) ──
+  app.get('/api/metrics/mcp-usage/me', (_req, res) => {
+    const caller = callerOf(res);
+    res.json({ records: [], usagePlan: state.mcpUsers.find((u) => u.upn === caller.upn)?.usagePlan ?? null, upn: caller.upn });
+  });
+  app.get('/api/metrics/mcp-usage/user/:userId', (_req, res) => {
+    const caller = callerOf(res);
+    requireTenantAdminOrReader(caller, caller.tenantId);
+    res.json({ records: [] });
+  });
+  app.get('/api/global/metrics/mcp-usage', (_req, res) => {
+    requirePlatformRead(callerOf(res));
+    res.json({ records: [] });
+  });
+  app.get('/api/global/metrics/mcp-usage/daily', (_req, res) => {
+    requirePlatformRead(callerOf(res));
+    res.json({ summaries: [] });
+  });
+
+  // ── Delegated admins ──
+  const assignment = (req: Request) => {
+    const upn = String(req.params.upn).toLowerCase();
+    const tenantId = tenantParam(req);
+    return find(state.delegatedAdmins, (a) => a.upn === upn && a.tenantId === tenantId, `Assignment ${upn} → ${tenantId}`);
+  };
+
+  app.get('/api/global/delegated-admins', (_req, res) => {
+    requirePlatformRead(callerOf(res));
+    res.json({ assignments: state.delegatedAdmins });
+  });
+
+  app.post('/api/global/delegated-admins', (req, res) => {
+    const caller = callerOf(res);
+    requireGlobalAdmin(caller);
+    const body = bodyOf(req);
+    const upn = String(body.upn ?? '').trim().toLowerCase();
+    const tenantId = String(body.tenantId ?? '').trim().toLowerCase();
+    if (!upn.includes('@') || !tenantId) throw new MockHttpError(400, 'upn and tenantId are required');
+    configOf(tenantId);
+    if (state.delegatedAdmins.some((a) => a.upn === upn && a.tenantId === tenantId)) {
+      throw new MockHttpError(409, `${upn} already manages ${tenantId}`);
+    }
+    const grant = {
+      upn,
+      tenantId,
+      role: String(body.role ?? 'DelegatedReader'),
+      isEnabled: true,
+      status: 'Active',
+      source: 'OperatorGranted',
+      grantedAt: now(),
+      grantedBy: caller.upn,
+    };
+    state.delegatedAdmins.push(grant);
+    audit(state, caller, tenantId, 'CREATE', 'DelegatedAdmin', upn);
+    res.json(grant);
+  });
+
+  app.delete('/api/global/delegated-admins/:upn/:tenantId', (req, res) => {
+    const caller = callerOf(res);
+    requireGlobalAdmin(caller);
+    const grant = assignment(req);
+    state.delegatedAdmins.splice(state.delegatedAdmins.indexOf(grant), 1);
+    audit(state, caller, String(grant.tenantId), 'DELETE', 'DelegatedAdmin', String(grant.upn));
+    res.json({ success: true });
+  });
+
+  app.patch('/api/global/delegated-admins/:upn/:tenantId/:action', (req, res) => {
+    requireGlobalAdmin(callerOf(res));
+    const action = String(req.params.action);
+    if (action !== 'enable' && action !== 'disable') throw new MockHttpError(400, `Unknown action '${action}'`);
+    const grant = assignment(req);
+    grant.isEnabled = action === 'enable';
+    grant.status = grant.isEnabled ? 'Active' : 'Disabled';
+    res.json(grant);
+  });
+
+  // ── Tenant groups ──
+  const groupOf = (req: Request) => find(state.tenantGroups, (g) => g.groupId === req.params.groupId, 'Tenant group');
+  const groupView = (g: Row) => ({ ...g, assigneeCount: (g.assignees as Row[]).length });
+  const groupRoute = (handler: (group: Row, req: Request, caller: MockUser) => void): RequestHandler => (req, res) => {
+    const caller = callerOf(res);
+    requireGlobalAdmin(caller);
+    const group = groupOf(req);
+    handler(group, req, caller);
+    res.json({ success: true, group: groupView(group) });
+  };
+
+  app.get('/api/global/tenant-groups', (_req, res) => {
+    requirePlatformRead(callerOf(res));
+    res.json({ groups: state.tenantGroups.map(groupView) });
+  });
+
+  app.post('/api/global/tenant-groups', (req, res) => {
+    const caller = callerOf(res);
+    requireGlobalAdmin(caller);
+    const name = String(bodyOf(req).name ?? '').trim();
+    if (!name) throw new MockHttpError(400, 'name is required');
+    const group = { groupId: randomBytes(8).toString('hex'), name, createdBy: caller.upn, createdAt: now(), tenantIds: [] as string[], assignees: [] as Row[] };
+    state.tenantGroups.push(group);
+    res.json({ success: true, group: groupView(group) });
+  });
+
+  app.patch('/api/global/tenant-groups/:groupId', groupRoute((group, req) => {
+    const name = String(bodyOf(req).name ?? '').trim();
+    if (!name) throw new MockHttpError(400, 'name is required');
+    group.name = name;
+  }));
+
+  app.delete('/api/global/tenant-groups/:groupId', (req, res) => {
+    requireGlobalAdmin(callerOf(res));
+    remove(state.tenantGroups, (g) => g.groupId === req.params.groupId, 'Tenant group');
+    res.json({ success: true });
+  });
+
+  app.post('/api/global/tenant-groups/:groupId/tenants', groupRoute((group, req) => {
+    const tenantId = String(bodyOf(req).tenantId ?? '').toLowerCase();
+    configOf(tenantId);
+    const tenantIds = group.tenantIds as string[];
+    if (!tenantIds.includes(tenantId)) tenantIds.push(tenantId);
+  }));
+
+  app.delete('/api/global/tenant-groups/:groupId/tenants/:tenantId', groupRoute((group, req) => {
+    remove(group.tenantIds as string[], (t) => t === tenantParam(req), 'Tenant');
+  }));
+
+  app.post('/api/global/tenant-groups/:groupId/assignees', groupRoute((group, req) => {
+    const body = bodyOf(req);
+    const upn = String(body.upn ?? '').trim().toLowerCase();
+    if (!upn.includes('@')) throw new MockHttpError(400, 'A valid UPN is required');
+    const assignees = group.assignees as Row[];
+    if (assignees.some((a) => a.upn === upn)) throw new MockHttpError(409, `${upn} is already assigned`);
+    assignees.push({ upn, role: String(body.role ?? 'DelegatedReader'), isEnabled: true });
+  }));
+
+  app.delete('/api/global/tenant-groups/:groupId/assignees/:upn', groupRoute((group, req) => {
+    remove(group.assignees as Row[], (a) => a.upn === String(req.params.upn).toLowerCase(), 'Assignee');
+  }));
+
+  // ── Health & presence ──
+  app.get('/api/health/detailed', (_req, res) => {
+    const check = (name: string, description: string) => ({ name, description, status: 'healthy', message: 'Served by the mock backend' });
+    res.json({
+      service: 'Autopilot Monitor mock backend',
+      timestamp: now(),
+      overallStatus: 'healthy',
+      checks: [check('Storage', 'In-memory fixture dataset'), check('Rules', `${state.rules.analyze.builtIn.length} analyze rules loaded`)],
+      version: 'mock',
+    });
+  });
+
+  app.get('/api/health/mcp', (_req, res) => {
+    res.json({ check: { name: 'MCP Server', description: 'AI query interface availability', status: 'unknown', message: 'Not probed by the mock backend' } });
+  });
+
+  app.get('/api/global/presence', (_req, res) => {
+    requirePlatformRead(callerOf(res));
+    res.json({ success: true, windowMinutes: 5, activeCount: 0, users: [] });
+  });
+
+  // ── Realtime: no SignalR service, so the web app falls back to its polling refreshes ──
+  app.post('/api/realtime/negotiate', azureOnly('Live updates (SignalR)'));
+  app.post('/api/realtime/groups/join', (_req, res) => void res.json({ success: true }));
+  app.post('/api/realtime/groups/leave', (_req, res) => void res.json({ success: true }));
+
+  // ── Vulnerability correlation: no CVE feeds, so nothing correlates ──
+  const vulnerabilityMetrics = (global: boolean): RequestHandler => (req, res) => {
+    const caller = callerOf(res);
+    if (global) requirePlatformRead(caller);
+    else tenantScope(caller, queryOf(req).tenantId);
+    res.json({
+      windowDays: Number(queryOf(req).days ?? 30),
+      totalAffectedSessions: 0,
+      totalAffectedTenants: 0,
+      distinctCves: 0,
+      kevCves: 0,
+      severityBreakdown: { critical: 0, high: 0, medium: 0, low: 0 },
+      topCves: [],
+      truncated: false,
+    });
+  };
+  app.get('/api/metrics/vulnerability', vulnerabilityMetrics(false));
+  app.get('/api/global/metrics/vulnerability', vulnerabilityMetrics(true));
+
+  const softwareInventory = (global: boolean): RequestHandler => (req, res) => {
+    const caller = callerOf(res);
+    if (global) requirePlatformRead(caller);
+    const tenantId = global ? queryOf(req).tenantId?.toLowerCase() ?? null : tenantScope(caller, queryOf(req).tenantId);
+    res.json({ success: true, tenantId, total: 0, matched: 0, unmatched: 0, inventory: [] });
+  };
+  app.get('/api/metrics/software-inventory', softwareInventory(false));
+  app.get('/api/vulnerability/software-inventory', softwareInventory(true));
+
+  const platformList = (body: Row): RequestHandler => (_req, res) => {
+    requirePlatformRead(callerOf(res));
+    res.json(body);
+  };
+  app.get('/api/vulnerability/sync-status', platformList({
+    kevCatalogEntries: 0, msrcIndexedCves: 0, msrcCoveredDocuments: 0, syncedAt: null, cpeSeedEntries: 0, cpeCommunityEntries: 0,
+  }));
+  app.get('/api/vulnerability/cpe-mappings', platformList({ mappings: [] }));
+  app.get('/api/vulnerability/unmatched-software', platformList({ software: [], total: 0 }));
+  app.get('/api/vulnerability/ignored-software', platformList({ items: [] }));
+  for (const path of ['sync', 'sync-msrc', 'cpe-mapping', 'cpe-mapping/auto-resolve', 'ignored-software']) {
+    app.post(`/api/vulnerability/${path}`, azureOnly('Vulnerability feed maintenance'));
+  }
+  app.delete('/api/vulnerability/cpe-mapping', azureOnly('Vulnerability feed maintenance'));
+  app.delete('/api/vulnerability/ignored-software', azureOnly('Vulnerability feed maintenance'));
+
+  // ── Operations backed by Azure storage ──
+  app.get('/api/global/backups', platformList({ backupIds: [] }));
+  app.post('/api/global/backups/trigger', azureOnly('Backups'));
+  app.get('/api/global/backups/jobs/:jobId', azureOnly('Backups'));
+  app.get('/api/global/backups/:backupId', azureOnly('Backups'));
+  app.post('/api/global/backups/:backupId/restore-row', azureOnly('Backups'));
+  app.post('/api/maintenance/trigger', azureOnly('Maintenance runs'));
+
+  app.get('/api/global/customs-archive', platformList({ success: true, count: 0, runs: [] }));
+  app.get('/api/global/customs-archive/:tenantId/:historyRowKey', azureOnly('The customs archive'));
+  app.get('/api/global/customs-archive/:tenantId/:historyRowKey/:archiveRowKey', azureOnly('The customs archive'));
+
+  app.get('/api/global/session-deletions', (req, res) => {
+    requirePlatformRead(callerOf(res));
+    const q = queryOf(req);
+    res.json({ success: true, state: q.state ?? 'Running', strandedSinceMinutes: Number(q.strandedSinceMinutes ?? 0), count: 0, sessions: [] });
+  });
+  app.get('/api/global/tenants-with-deletion-manifests', platformList({ success: true, count: 0, tenantIds: [] }));
+  app.get('/api/global/tenants/:tenantId/deletion-manifests', (req, res) => {
+    requirePlatformRead(callerOf(res));
+    res.json({ success: true, tenantId: tenantParam(req), sessionCount: 0, manifestCount: 0, sessions: [] });
+  });
+  app.get('/api/global/sessions/:sessionId/deletion-manifest', azureOnly('Deletion manifests'));
+  app.get('/api/global/sessions/:sessionId/delete/preview', azureOnly('Deletion manifests'));
+  app.post('/api/global/sessions/:sessionId/restore', azureOnly('Session restore'));
+
+  app.get('/api/global/ops-events', platformList({ events: [], nextLink: null }));
+  app.get('/api/global/distress-reports', platformList({ reports: [], nextLink: null }));
+  app.get('/api/global/session-reports', platformList({ reports: [], nextLink: null }));
+  app.get('/api/global/session-reports/download-url', azureOnly('Session report downloads'));
+  app.patch('/api/global/session-reports/:reportId/note', azureOnly('Session report notes'));
+  app.post('/api/diag-files-reports', azureOnly('Submitting diagnostics files'));
+}
@@ -0,0 +1,299 @@
+/**
+ * Seeded fixture data for the mock backend: tenants, users, enrollment sessions and their events.
+ *
+ * Everything is derived from one PRNG seed and one `now`, so two runs with the same inputs produce
+ * byte-identical sessions, IDs and timestamps — tests can pin exact counts and a demo looks the
+ * same every time. Tenant, user and device names are obviously fake (`*.example`, `MOCK-` serials);
+ * nothing here resembles a real customer.
+ *
+ * Shapes follow the backend's wire format: sessions and events are the camelCase objects the
+ * enriched endpoints return; `toRawSessionRow` / `toRawEventRow` give the PascalCase table-entity
+ * view the /api/raw/* endpoints return.
+ */
+
+export interface MockTenant {
+  tenantId: string;
+  name: string;
+  domain: string;
+}
+
+export interface MockUser {
+  upn: string;
+  displayName: string;
+  tenantId: string;
+  /** Platform role: cross-tenant visibility on the /api/global/* routes. */
+  globalRole?: 'GlobalAdmin' | 'GlobalReader';
+  /** Role inside the home tenant; absent for a caller with no membership there. */
+  memberRole?: 'Admin' | 'Operator' | 'Viewer';
+  /** Delegated (MSP) scope: other tenants this caller may read via the /api/global/* routes. */
+  delegatedTenantIds?: string[];
+}
+
+export type MockSession = Record<string, unknown> & {
+  sessionId: string;
+  tenantId: string;
+  serialNumber: string;
+  status: string;
+  startedAt: string;
+};
+
+export type MockEvent = Record<string, unknown> & {
+  eventId: string;
+  sessionId: string;
+  tenantId: string;
+  eventType: string;
+  timestamp: string;
+  sequence: number;
+};
+
+export interface MockDataset {
+  tenants: MockTenant[];
+  users: MockUser[];
+  /** Newest first, like every backend session list. */
+  sessions: MockSession[];
+  /** Events per sessionId, in sequence order. */
+  events: Map<string, MockEvent[]>;
+}
+
+export interface SeedOptions {
+  seed?: number;
+  sessionsPerTenant?: number;
+  /** Anchor for every relative timestamp (sessions spread over the 30 days before it). */
+  now?: number;
+}
+
+export const MOCK_TENANTS: MockTenant[] = [
+  { tenantId: '7d1b5a8e-0c41-4f0a-9a55-2b6f0c1e9a01', name: 'Contoso (mock)', domain: 'contoso.example' },
+  { tenantId: '7d1b5a8e-0c41-4f0a-9a55-2b6f0c1e9a02', name: 'Fabrikam (mock)', domain: 'fabrikam.example' },
+  { tenantId: '7d1b5a8e-0c41-4f0a-9a55-2b6f0c1e9a03', name: 'Northwind (mock)', domain: 'northwind.example' },
+];
+
+const [CONTOSO, FABRIKAM, NORTHWIND] = MOCK_TENANTS.map((t) => t.tenantId);
+
+export const MOCK_USERS: MockUser[] = [
+  { upn: 'admin@contoso.example', displayName: 'Contoso Admin', tenantId: CONTOSO, memberRole: 'Admin' },
+  { upn: 'viewer@northwind.example', displayName: 'Northwind Viewer', tenantId: NORTHWIND, memberRole: 'Viewer' },
+  { upn: 'ga@fabrikam.example', displayName: 'Platform Admin', tenantId: FABRIKAM, globalRole: 'GlobalAdmin', memberRole: 'Admin' },
+  { upn: 'msp@fabrikam.example', displayName: 'MSP Technician', tenantId: FABRIKAM, delegatedTenantIds: [CONTOSO, NORTHWIND] },
+];
+
+/** mulberry32 — tiny, fast and good enough for fixture variety. */
+function prng(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function uuid(rand: () => number): string {
+  const hex = Array.from({ length: 32 }, () => Math.floor(rand() * 16).toString(16)).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(13, 16)}-a${hex.slice(17, 20)}-${hex.slice(20)}`;
+}
+
+const pick = <T>(rand: () => number, items: readonly T[]): T => items[Math.floor(rand() * items.length)];
+
+const HARDWARE = [
+  { manufacturer: 'Microsoft Corporation', model: 'Surface Laptop 5' },
+  { manufacturer: 'Microsoft Corporation', model: 'Surface Pro 9' },
+  { manufacturer: 'Dell Inc.', model: 'Latitude 7440' },
+  { manufacturer: 'HP', model: 'EliteBook 840 G10' },
+  { manufacturer: 'LENOVO', model: 'ThinkPad T14 Gen 4' },
+] as const;
+const AGENT_VERSIONS = ['2.0.598', '2.0.612', '2.0.626'] as const;
+const OS_BUILDS = [
+  { osBuild: '22631.4317', osDisplayVersion: '23H2' },
+  { osBuild: '26100.2161', osDisplayVersion: '24H2' },
+] as const;
+const GEO = [
+  { geoCountry: 'DE', geoCity: 'Berlin' },
+  { geoCountry: 'US', geoCity: 'Seattle' },
+  { geoCountry: 'GB', geoCity: 'London' },
+] as const;
+const APPS = ['Company Portal', 'Microsoft 365 Apps', 'Microsoft Teams', 'Contoso VPN Client', '7-Zip'] as const;
+
+/** How a seeded session ends. Failure kinds each leave their own signature event. */
+type Outcome = 'succeeded' | 'app_failure' | 'esp_timeout' | 'hello_timeout' | 'in_progress';
+
+function drawOutcome(rand: () => number, ageMs: number): Outcome {
+  // Only the last few hours can still be running; anything older has resolved.
+  if (ageMs < 3 * 3_600_000 && rand() < 0.5) return 'in_progress';
+  const r = rand();
+  if (r < 0.78) return 'succeeded';
+  if (r < 0.9) return 'app_failure';
+  if (r < 0.96) return 'esp_timeout';
+  return 'hello_timeout';
+}
+
+const SEVERITY = { Debug: 0, Info: 1, Warning: 2, Error: 3, Critical: 4 } as const;
+
+/** Builds one session and its event stream. Phases follow the v1 numbering (0 start … 6 complete). */
+function seedSession(rand: () => number, tenant: MockTenant, index: number, now: number): { session: MockSession; events: MockEvent[] } {
+  const sessionId = uuid(rand);
+  // At least ten minutes old, so even a session still running has reported its first events.
+  const ageMs = 600_000 + Math.floor(rand() * 30 * 86_400_000);
+  const startedMs = now - ageMs;
+  const hw = pick(rand, HARDWARE);
+  const os = pick(rand, OS_BUILDS);
+  const geo = pick(rand, GEO);
+  const agentVersion = pick(rand, AGENT_VERSIONS);
+  const outcome = drawOutcome(rand, ageMs);
+  // Company Portal is always assigned; the rest vary per device.
+  const apps = APPS.filter((_, i) => i === 0 || rand() < 0.6);
+  const failingApp = pick(rand, apps);
+
+  const events: MockEvent[] = [];
+  let t = startedMs;
+  const emit = (eventType: string, phase: number, severity: keyof typeof SEVERITY, message: string, source = 'AutopilotMonitor.Agent', data: Record<string, unknown> = {}) => {
+    t += 5_000 + Math.floor(rand() * 90_000);
+    if (outcome === 'in_progress' && t > now) return;
+    events.push({
+      eventId: uuid(rand),
+      sessionId,
+      tenantId: tenant.tenantId,
+      eventType,
+      severity,
+      source,
+      phase,
+      message,
+      sequence: events.length,
+      timestamp: new Date(t).toISOString(),
+      data,
+    });
+  };
+
+  emit('agent_started', 0, 'Info', `Agent ${agentVersion} started`, 'AutopilotMonitor.Agent', { agentVersion });
+  emit('esp_phase_changed', 1, 'Info', 'ESP phase=DeviceSetup', 'EspAndHelloTracker', { espPhase: 'DeviceSetup' });
+  for (const app of apps) {
+    emit('app_install_started', 2, 'Info', `Installing ${app}`, app);
+    if (outcome === 'app_failure' && app === failingApp) {
+      emit('app_install_failed', 2, 'Error', `${app} installation failed with exit code 0x87D1041C`, app, { appName: app, errorCode: '0x87D1041C', detectionResult: 'NotDetected' });
+      break;
+    }
+    emit('app_install_completed', 2, 'Info', `${app} installed`, app);
+  }
+  if (outcome === 'esp_timeout') {
+    emit('esp_failure', 2, 'Error', 'ESP timed out waiting for device setup to complete (0x800705B4)', 'EspAndHelloTracker', { errorCode: '0x800705B4' });
+  }
+  if (outcome === 'succeeded' || outcome === 'hello_timeout' || outcome === 'in_progress') {
+    emit('esp_phase_changed', 3, 'Info', 'ESP phase=AccountSetup', 'EspAndHelloTracker', { espPhase: 'AccountSetup' });
+    emit('hello_policy_detected', 4, 'Info', 'Windows Hello for Business policy detected', 'EspAndHelloTracker');
+  }
+  if (outcome === 'hello_timeout') {
+    emit('hello_wait_timeout', 4, 'Error', 'Timed out waiting for the Windows Hello provisioning wizard', 'EspAndHelloTracker');
+  }
+  if (outcome === 'succeeded') {
+    emit('desktop_arrived', 5, 'Info', 'User desktop arrived', 'DesktopArrivalDetector');
+    emit('enrollment_complete', 6, 'Info', 'Enrollment completed successfully', 'AutopilotMonitor.Agent');
+  }
+  const failureReason = {
+    app_failure: `App install failed: ${failingApp} (0x87D1041C)`,
+    esp_timeout: 'ESP timeout during device setup (0x800705B4)',
+    hello_timeout: 'Windows Hello provisioning timed out',
+  }[outcome as 'app_failure' | 'esp_timeout' | 'hello_timeout'];
+  if (failureReason) emit('enrollment_failed', 6, 'Critical', failureReason, 'AutopilotMonitor.Agent', { reason: failureReason });
+
+  const last = events[events.length - 1];
+  const finished = outcome !== 'in_progress';
+  const session: MockSession = {
+    sessionId,
+    tenantId: tenant.tenantId,
+    serialNumber: `MOCK-${tenant.domain.slice(0, 3).toUpperCase()}-${String(index).padStart(5, '0')}`,
+    deviceName: `${tenant.domain.slice(0, 3).toUpperCase()}-PC-${String(index).padStart(4, '0')}`,
+    manufacturer: hw.manufacturer,
+    model: hw.model,
+    startedAt: new Date(startedMs).toISOString(),
+    completedAt: finished ? last.timestamp : undefined,
+    status: outcome === 'succeeded' ? 'Succeeded' : finished ? 'Failed' : 'InProgress',
+    currentPhase: last.phase,
+    eventCount: events.length,
+    durationSeconds: finished ? Math.round((Date.parse(last.timestamp) - startedMs) / 1000) : undefined,
+    rebootCount: Math.floor(rand() * 3),
+    failureReason: failureReason ?? '',
+    failureSource: '',
+    enrollmentType: 'v1',
+    lastEventAt: last.timestamp,
+    isPreProvisioned: false,
+    isHybridJoin: rand() < 0.15,
+    isUserDriven: true,
+    isSelfDeployingProfile: false,
+    agentVersion,
+    osName: 'Windows 11 Enterprise',
+    osBuild: os.osBuild,
+    osDisplayVersion: os.osDisplayVersion,
+    osEdition: 'Enterprise',
+    osLanguage: 'en-US',
+    geoCountry: geo.geoCountry,
+    geoCity: geo.geoCity,
+  };
+  return { session, events };
+}
+
+/** Generates the full dataset. Defaults: seed 42, 120 sessions per tenant, anchored at the current hour. */
+export function seedFixtures(opts: SeedOptions = {}): MockDataset {
+  const rand = prng(opts.seed ?? 42);
+  const perTenant = opts.sessionsPerTenant ?? 120;
+  // Anchor to the hour so restarting the server within the hour reproduces the same data.
+  const now = opts.now ?? Math.floor(Date.now() / 3_600_000) * 3_600_000;
+
+  const sessions: MockSession[] = [];
+  const events = new Map<string, MockEvent[]>();
+  for (const tenant of MOCK_TENANTS) {
+    for (let i = 1; i <= perTenant; i++) {
+      const seeded = seedSession(rand, tenant, i, now);
+      sessions.push(seeded.session);
+      events.set(seeded.session.sessionId, seeded.events);
+    }
+  }
+  sessions.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  return { tenants: MOCK_TENANTS, users: MOCK_USERS, sessions, events };
+}
+
+const pascal = (key: string) => key.charAt(0).toUpperCase() + key.slice(1);
+
+/** Sessions-table entity view (PartitionKey = tenant, RowKey = session). */
+export function toRawSessionRow(session: MockSession): Record<string, unknown> {
+  const row: Record<string, unknown> = { PartitionKey: session.tenantId, RowKey: session.sessionId };
+  for (const [key, value] of Object.entries(session)) if (value !== undefined) row[pascal(key)] = value;
+  return row;
+}
+
+/** Events-table entity view: int Severity, DataJson string, `{tenant}_{session}` partition. */
+export function toRawEventRow(event: MockEvent): Record<string, unknown> {
+  return {
+    PartitionKey: `${event.tenantId}_${event.sessionId}`,
+    RowKey: `${event.timestamp.replace(/[^0-9]/g, '')}_${String(event.sequence).padStart(6, '0')}`,
+    EventId: event.eventId,
+    SessionId: event.sessionId,
+    TenantId: event.tenantId,
+    EventType: event.eventType,
+    Severity: SEVERITY[event.severity as keyof typeof SEVERITY] ?? 1,
+    Source: event.source,
+    Phase: event.phase,
+    Message: event.message,
+    Sequence: event.sequence,
+    Timestamp: event.timestamp,
+    DataJson: JSON.stringify(event.data ?? {}),
+  };
+}
+
+/**
+ * Mints an UNSIGNED bearer token for a fixture user. The MCP server and the mock both decode
+ * JWT claims without verifying signatures, so this is all local development needs — and it is
+ * useless against a real backend, which validates the signature.
+ */
+export function mintMockToken(user: MockUser, ttlSeconds = 8 * 3600): string {
+  const enc = (obj: object) => Buffer.from(JSON.stringify(obj)).toString('base64url');
+  const claims = {
+    upn: user.upn,
+    preferred_username: user.upn,
+    name: user.displayName,
+    tid: user.tenantId,
+    oid: `mock-${user.upn}`,
+    exp: Math.floor(Date.now() / 1000) + ttlSeconds,
+  };
+  return `${enc({ alg: 'none', typ: 'JWT' })}.${enc(claims)}.mock`;
+}
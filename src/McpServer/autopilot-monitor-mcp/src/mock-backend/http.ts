@@ -0,0 +1,132 @@
+/**
+ * Request plumbing shared by every mock-backend route module: the error type, the caller and
+ * tenant-scope guards, and the backend-style nextLink pagination. See server.ts for the contracts.
+ */
+import { createHash } from 'node:crypto';
+import type { Request, RequestHandler, Response } from 'express';
+import { extractTokenClaims } from '../auth.js';
+import type { MockDataset, MockUser } from './fixtures.js';
+
+export class MockHttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'MockHttpError';
+  }
+}
+
+export type Query = Record<string, string>;
+
+export const SESSION_PAGE = { defaultSize: 50, maxSize: 1000 };
+export const RAW_PAGE = { defaultSize: 100, maxSize: 1000 };
+
+export function queryOf(req: Request): Query {
+  const out: Query = {};
+  for (const [key, value] of Object.entries(req.query)) {
+    if (typeof value === 'string' && value !== '') out[key] = value;
+  }
+  return out;
+}
+
+// ── Caller & tenant scope ────────────────────────────────────────────────────
+
+export function callerOf(res: Response): MockUser {
+  return res.locals.caller as MockUser;
+}
+
+export const hasPlatformScope = (caller: MockUser) => caller.globalRole === 'GlobalAdmin' || caller.globalRole === 'GlobalReader';
+
+export function authenticate(dataset: MockDataset): RequestHandler {
+  return (req, res, next) => {
+    const header = req.headers.authorization ?? '';
+    const claims = header.startsWith('Bearer ') ? extractTokenClaims(header.slice(7)) as Record<string, unknown> | null : null;
+    const upn = String(claims?.upn ?? claims?.preferred_username ?? '').toLowerCase();
+    if (!upn) throw new MockHttpError(401, 'Missing or undecodable bearer token');
+    const caller = dataset.users.find((u) => u.upn === upn);
+    if (!caller) throw new MockHttpError(403, `${upn} is not a fixture user of the mock backend`);
+    res.locals.caller = caller;
+    next();
+  };
+}
+
+/** Tenant routes: the caller's own tenant, or an explicit `tenantId` the caller may read. */
+export function tenantScope(caller: MockUser, requested: string | undefined): string {
+  const tenantId = requested?.toLowerCase();
+  if (!tenantId || tenantId === caller.tenantId) return caller.tenantId;
+  if (hasPlatformScope(caller) || caller.delegatedTenantIds?.includes(tenantId)) return tenantId;
+  throw new MockHttpError(403, `Access to tenant ${tenantId} denied`);
+}
+
+/** Global routes: optional tenant filter for platform roles; a managed tenant is mandatory for delegated callers. */
+export function globalScope(caller: MockUser, requested: string | undefined): string | undefined {
+  const tenantId = requested?.toLowerCase();
+  if (hasPlatformScope(caller)) return tenantId;
+  if (caller.delegatedTenantIds?.length) {
+    if (tenantId && caller.delegatedTenantIds.includes(tenantId)) return tenantId;
+    throw new MockHttpError(403, tenantId ? `Tenant ${tenantId} is not in your delegated scope` : 'tenantId is required for delegated access');
+  }
+  throw new MockHttpError(403, 'Global Admin or Global Reader role required');
+}
+
+export function requireWriteRole(caller: MockUser, tenantId: string): void {
+  if (caller.globalRole === 'GlobalAdmin') return;
+  if (tenantId === caller.tenantId && (caller.memberRole === 'Admin' || caller.memberRole === 'Operator')) return;
+  throw new MockHttpError(403, 'Admin or Operator role required');
+}
+
+// ── Pagination ───────────────────────────────────────────────────────────────
+
+const PAGING_KEYS = new Set(['pageSize', 'continuation', 'limit']);
+
+function fingerprint(basePath: string, callerTenant: string, query: Query): string {
+  const filters = Object.entries(query).filter(([k]) => !PAGING_KEYS.has(k)).sort(([a], [b]) => a.localeCompare(b));
+  return createHash('sha256').update(JSON.stringify([basePath, callerTenant, filters])).digest('base64url').slice(0, 16);
+}
+
+/**
+ * Slices `items` per `pageSize` / `continuation` and builds the backend-style nextLink. With
+ * `optional`, a request without pageSize gets everything unpaged (the session events contract).
+ */
+export function paginate<T>(
+  items: T[],
+  query: Query,
+  basePath: string,
+  callerTenant: string,
+  limits: { defaultSize: number; maxSize: number },
+  optional = false,
+): { page: T[]; nextLink: string | null } {
+  if (optional && !query.pageSize && !query.continuation) return { page: items, nextLink: null };
+
+  const pageSize = query.pageSize ? Number(query.pageSize) : limits.defaultSize;
+  if (!Number.isInteger(pageSize)) throw new MockHttpError(400, 'pageSize must be an integer');
+  if (pageSize < 1 || pageSize > limits.maxSize) throw new MockHttpError(400, `pageSize must be between 1 and ${limits.maxSize}`);
+
+  const fp = fingerprint(basePath, callerTenant, query);
+  let offset = 0;
+  if (query.continuation) {
+    let token: { o?: unknown; fp?: unknown };
+    try {
+      token = JSON.parse(Buffer.from(query.continuation, 'base64url').toString('utf-8')) as typeof token;
+    } catch {
+      throw new MockHttpError(400, 'Invalid continuation token (malformed). Restart pagination from the first page.');
+    }
+    if (token.fp !== fp) throw new MockHttpError(400, 'Invalid continuation token (fingerprint mismatch). Restart pagination from the first page.');
+    offset = Number(token.o) || 0;
+  }
+
+  const page = items.slice(offset, offset + pageSize);
+  if (offset + pageSize >= items.length) return { page, nextLink: null };
+
+  const wire = Buffer.from(JSON.stringify({ o: offset + pageSize, fp })).toString('base64url');
+  const rest = Object.entries(query)
+    .filter(([k]) => !PAGING_KEYS.has(k))
+    .map(([k, v]) => `&${encodeURIComponent(k)}=${encodeURIComponent(v)}`)
+    .join('');
+  return { page, nextLink: `${basePath}?pageSize=${pageSize}&continuation=${encodeURIComponent(wire)}${rest}` };
+}
+
+/** Keeps only the listed keys (case-insensitive), like the backend's `fields=` projection. */
+export function project(rows: Record<string, unknown>[], fields: string | undefined): Record<string, unknown>[] {
+  if (!fields) return rows;
+  const wanted = new Set(fields.split(',').map((f) => f.trim().toLowerCase()).filter(Boolean));
+  return rows.map((row) => Object.fromEntries(Object.entries(row).filter(([k]) => wanted.has(k.toLowerCase()))));
+}
@@ -0,0 +1,34 @@
+/**
+ * CLI entry point: `npm run mock-backend`.
+ *
+ * Listens on MOCK_BACKEND_PORT (default 7071, the local Functions host port) and prints a
+ * ready-to-use bearer token per fixture user. Point the MCP server at it with
+ * AUTOPILOT_API_URL=http://127.0.0.1:7071, and the web app with NEXT_PUBLIC_API_BASE_URL set to the
+ * same URL plus NEXT_PUBLIC_DEV_AUTH_UPN set to one of the fixture users (see the web README).
+ *
+ *   MOCK_SEED                  fixture seed (default 42)
+ *   MOCK_SESSIONS_PER_TENANT   sessions generated per tenant (default 120)
+ */
+import { parsePositiveInt } from '../config.js';
+import { mintMockToken } from './fixtures.js';
+import { startMockBackend } from './server.js';
+
+const port = parsePositiveInt(process.env.MOCK_BACKEND_PORT, 7071);
+const backend = await startMockBackend(port, {
+  seed: parsePositiveInt(process.env.MOCK_SEED, 42),
+  sessionsPerTenant: parsePositiveInt(process.env.MOCK_SESSIONS_PER_TENANT, 120),
+});
+
+console.error(`[mock-backend] Listening on ${backend.url} — ${backend.dataset.sessions.length} sessions across ${backend.dataset.tenants.length} tenants.`);
+for (const tenant of backend.dataset.tenants) console.error(`  tenant ${tenant.tenantId}  ${tenant.name}`);
+console.error('[mock-backend] Bearer tokens (valid 8h):');
+for (const user of backend.dataset.users) {
+  const role = user.globalRole ?? (user.delegatedTenantIds ? 'Delegated' : user.memberRole);
+  console.error(`  ${user.upn} (${role})\n    ${mintMockToken(user)}`);
+}
+
+const shutdown = () => {
+  backend.close().finally(() => process.exit(0));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,355 @@
+/**
+ * Offline backend: a local stand-in for the Azure Functions backend, for offline development,
+ * demos and end-to-end tests of the web app and the MCP tools without a cloud tenant.
+ *
+ * Serves the API from seeded fixtures (see fixtures.ts) plus in-memory state (see state.ts):
+ *   - auth:     /api/auth/me (web), /api/auth/mcp (MCP access guard)
+ *   - sessions: /api/sessions, /api/global/sessions, /api/sessions/{id}[/events|/analysis],
+ *               mark-failed / mark-succeeded / DELETE, /api/search/quick
+ *   - search:   /api/[global/]search/sessions, /api/[global/]search/sessions-by-event
+ *   - raw:      /api/[global/]raw/sessions, /api/[global/]raw/events
+ *   - web:      dashboards, progress portal and metrics (web-routes.ts); settings, rules and
+ *               platform administration (admin-routes.ts)
+ * Any other /api route answers 501 naming the route, so a missing handler is obvious rather than
+ * masquerading as an empty result.
+ *
+ * It mirrors the backend contracts the clients depend on, not just the payload shapes:
+ *   - Tenant scoping. Tenant routes are bound to the caller's `tid`; a foreign `tenantId` needs a
+ *     platform role or a delegated assignment. /api/global/* routes need a platform role, or a
+ *     delegated assignment plus an explicit managed `tenantId` (the backend's delegated rescue).
+ *   - Pagination. Paged lists return a server-built `nextLink` (`pageSize` + opaque `continuation`
+ *     + the original filters). The continuation is bound to route, caller tenant and filters; a
+ *     token replayed against different ones is rejected with 400, like the backend's fingerprint.
+ *   - Analysis runs the real rules/analyze definitions through the MCP rule evaluator, honouring
+ *     the tenant's rule toggles and custom rules.
+ *
+ * Tokens are decoded, never verified — use fixtures.mintMockToken for a known fixture user (the web
+ * app mints the same token when NEXT_PUBLIC_DEV_AUTH_UPN is set).
+ */
+import type { AddressInfo } from 'node:net';
+import express, { type ErrorRequestHandler, type RequestHandler } from 'express';
+import { RULES_DIR } from '../config.js';
+import { registerAdminRoutes } from './admin-routes.js';
+import {
+  seedFixtures,
+  toRawEventRow,
+  toRawSessionRow,
+  type MockDataset,
+  type MockSession,
+  type SeedOptions,
+} from './fixtures.js';
+import {
+  authenticate,
+  callerOf,
+  globalScope,
+  hasPlatformScope,
+  MockHttpError,
+  paginate,
+  project,
+  queryOf,
+  RAW_PAGE,
+  requireWriteRole,
+  SESSION_PAGE,
+  tenantScope,
+  type Query,
+} from './http.js';
+import { analyzeSession, createMockState } from './state.js';
+import { registerWebRoutes } from './web-routes.js';
+
+export { MockHttpError } from './http.js';
+
+export interface MockBackendOptions extends SeedOptions {
+  /** Pre-built dataset (e.g. a test tailoring fixtures); otherwise seeded from the options. */
+  dataset?: MockDataset;
+  /** Rules root with analyze/, gather/ and ime-log-patterns/ folders; defaults to RULES_DIR. */
+  rulesDir?: string;
+}
+
+// ── Filters ──────────────────────────────────────────────────────────────────
+
+const STRING_FILTERS = ['status', 'serialNumber', 'deviceName', 'manufacturer', 'model', 'osBuild', 'enrollmentType', 'geoCountry', 'agentVersion', 'imeAgentVersion'];
+const BOOL_FILTERS = ['isPreProvisioned', 'isHybridJoin', 'isSelfDeployingProfile'];
+
+function matchesSessionFilter(s: MockSession, q: Query): boolean {
+  for (const key of STRING_FILTERS) {
+    if (q[key] && String(s[key] ?? '').toLowerCase() !== q[key].toLowerCase()) return false;
+  }
+  for (const key of BOOL_FILTERS) {
+    if (q[key] && String(s[key] === true) !== q[key].toLowerCase()) return false;
+  }
+  if (q.agentVersionPrefix && !String(s.agentVersion ?? '').startsWith(q.agentVersionPrefix)) return false;
+  if (q.imeAgentVersionPrefix && !String(s.imeAgentVersion ?? '').startsWith(q.imeAgentVersionPrefix)) return false;
+  if (q.startedAfter && s.startedAt < new Date(q.startedAfter).toISOString()) return false;
+  if (q.startedBefore && s.startedAt > new Date(q.startedBefore).toISOString()) return false;
+  const reboots = Number(s.rebootCount ?? 0);
+  if (q.rebootCountMin && reboots < Number(q.rebootCountMin)) return false;
+  if (q.rebootCountMax && reboots > Number(q.rebootCountMax)) return false;
+  return true;
+}
+
+function withinDays(s: MockSession, days: string | undefined, now: number): boolean {
+  const n = Number(days);
+  return !days || !Number.isFinite(n) || Date.parse(s.startedAt) >= now - n * 86_400_000;
+}
+
+/** Routes whose backend functions report failures as `{ error }` rather than `{ success: false, message }`. */
+const ERROR_FIELD_ROUTES = /^\/api\/(global\/)?(raw|tenants|bootstrap|mcp-users|delegated-admins|tenant-groups|preview|config\/plan-tiers)(\/|$)/;
+
+// ── App ──────────────────────────────────────────────────────────────────────
+
+export function createMockBackend(opts: MockBackendOptions = {}): { app: express.Express; dataset: MockDataset } {
+  const dataset = opts.dataset ?? seedFixtures(opts);
+  const state = createMockState(dataset, opts.rulesDir ?? RULES_DIR);
+  const app = express();
+  app.use(express.json());
+
+  // Browser-based clients (an MCP inspector, ad-hoc fetches from a dev page) run on another origin.
+  app.use((req, res, next) => {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, X-Client-Source');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
+    if (req.method === 'OPTIONS') {
+      res.status(204).end();
+      return;
+    }
+    next();
+  });
+  app.use('/api', authenticate(dataset));
+
+  const findSession = (sessionId: string, tenantId: string): MockSession => {
+    const session = dataset.sessions.find((s) => s.sessionId === sessionId && s.tenantId === tenantId);
+    if (!session) throw new MockHttpError(404, 'Session not found');
+    return session;
+  };
+  const sessionsIn = (tenantId: string | undefined) =>
+    tenantId ? dataset.sessions.filter((s) => s.tenantId === tenantId) : dataset.sessions;
+
+  // ── Auth ──
+  app.get('/api/auth/me', (_req, res) => {
+    const caller = callerOf(res);
+    const member = state.admins.find((a) => a.tenantId === caller.tenantId && a.upn === caller.upn);
+    const config = state.configs.get(caller.tenantId);
+    res.json({
+      upn: caller.upn,
+      displayName: caller.displayName,
+      tenantId: caller.tenantId,
+      objectId: `mock-${caller.upn}`,
+      isGlobalAdmin: caller.globalRole === 'GlobalAdmin',
+      isGlobalReader: caller.globalRole === 'GlobalReader',
+      isTenantAdmin: caller.memberRole === 'Admin',
+      isDelegated: !!caller.delegatedTenantIds?.length,
+      delegatedTenantIds: caller.delegatedTenantIds ?? [],
+      role: caller.memberRole ?? null,
+      canManageBootstrapTokens: member?.canManageBootstrapTokens === true,
+      hasMcpAccess: state.mcpUsers.some((u) => u.upn === caller.upn && u.isEnabled),
+      bootstrapTokenEnabled: config?.bootstrapTokenEnabled === true,
+      unrestrictedModeEnabled: config?.unrestrictedModeEnabled === true,
+    });
+  });
+
+  app.get('/api/auth/mcp', (_req, res) => {
+    const caller = callerOf(res);
+    res.json({
+      allowed: true,
+      accessGrant: 'mock-backend',
+      isGlobalAdmin: caller.globalRole === 'GlobalAdmin',
+      globalRole: caller.globalRole,
+      delegatedTenantIds: caller.delegatedTenantIds,
+      delegatedRole: caller.delegatedTenantIds?.length ? 'Viewer' : undefined,
+    });
+  });
+
+  // ── Session lists (web) ──
+  const listSessions = (basePath: string, global: boolean): RequestHandler => (req, res) => {
+    const q = queryOf(req);
+    const caller = callerOf(res);
+    const tenantId = global ? globalScope(caller, q.tenantId) : tenantScope(caller, q.tenantId);
+    const rows = sessionsIn(tenantId).filter((s) => withinDays(s, q.days, Date.now()));
+    const { page, nextLink } = paginate(rows, q, basePath, caller.tenantId, SESSION_PAGE);
+    res.json({ success: true, count: page.length, sessions: page, nextLink });
+  };
+  app.get('/api/sessions', listSessions('/api/sessions', false));
+  app.get('/api/global/sessions', listSessions('/api/global/sessions', true));
+
+  // ── Search ──
+  const searchSessions = (basePath: string, global: boolean): RequestHandler => (req, res) => {
+    const q = queryOf(req);
+    const caller = callerOf(res);
+    const tenantId = global ? globalScope(caller, q.tenantId) : caller.tenantId;
+    const rows = sessionsIn(tenantId).filter((s) => matchesSessionFilter(s, q));
+    const { page, nextLink } = paginate(rows, q, basePath, caller.tenantId, SESSION_PAGE);
+    res.json({ success: true, count: page.length, sessions: project(page, q.fields), nextLink });
+  };
+  app.get('/api/search/sessions', searchSessions('/api/search/sessions', false));
+  app.get('/api/global/search/sessions', searchSessions('/api/global/search/sessions', true));
+
+  const searchSessionsByEvent = (basePath: string, global: boolean): RequestHandler => (req, res) => {
+    const q = queryOf(req);
+    const caller = callerOf(res);
+    if (!q.eventType) throw new MockHttpError(400, 'eventType is required');
+    const tenantId = global ? globalScope(caller, q.tenantId) : caller.tenantId;
+    const rows = sessionsIn(tenantId).filter((s) =>
+      dataset.events.get(s.sessionId)?.some((e) => e.eventType === q.eventType));
+    const { page, nextLink } = paginate(rows, q, basePath, caller.tenantId, SESSION_PAGE);
+    res.json({ success: true, count: page.length, sessions: page, nextLink });
+  };
+  app.get('/api/search/sessions-by-event', searchSessionsByEvent('/api/search/sessions-by-event', false));
+  app.get('/api/global/search/sessions-by-event', searchSessionsByEvent('/api/global/search/sessions-by-event', true));
+
+  app.get('/api/search/quick', (req, res) => {
+    const needle = String(req.query.q ?? '').trim().toLowerCase();
+    if (needle.length < 2) throw new MockHttpError(400, "Query parameter 'q' must be at least 2 characters.");
+    const caller = callerOf(res);
+    const results = sessionsIn(hasPlatformScope(caller) ? undefined : caller.tenantId)
+      .filter((s) => [s.sessionId, s.serialNumber, s.deviceName].some((v) => String(v ?? '').toLowerCase().includes(needle)))
+      .slice(0, 10);
+    res.json({ success: true, count: results.length, results });
+  });
+
+  // ── Raw ──
+  const rawSessions = (basePath: string, global: boolean): RequestHandler => (req, res) => {
+    const q = queryOf(req);
+    const caller = callerOf(res);
+    const tenantId = global ? globalScope(caller, q.tenantId) : caller.tenantId;
+    const rows = sessionsIn(tenantId).filter((s) => matchesSessionFilter(s, q));
+    const { page, nextLink } = paginate(rows, q, basePath, caller.tenantId, RAW_PAGE);
+    res.json({ tenantId: tenantId ?? null, count: page.length, sessions: project(page.map(toRawSessionRow), q.fields), nextLink });
+  };
+  app.get('/api/raw/sessions', rawSessions('/api/raw/sessions', false));
+  app.get('/api/global/raw/sessions', rawSessions('/api/global/raw/sessions', true));
+
+  const rawEvents = (basePath: string, global: boolean): RequestHandler => (req, res) => {
+    const q = queryOf(req);
+    const caller = callerOf(res);
+    if (!q.sessionId && !q.eventType) throw new MockHttpError(400, 'Either sessionId or eventType is required for raw event queries');
+    const tenantId = global ? globalScope(caller, q.tenantId) : caller.tenantId;
+    const sessions = q.sessionId ? sessionsIn(tenantId).filter((s) => s.sessionId === q.sessionId) : sessionsIn(tenantId);
+    const after = q.startedAfter ? new Date(q.startedAfter).toISOString() : undefined;
+    const before = q.startedBefore ? new Date(q.startedBefore).toISOString() : undefined;
+    const rows = sessions
+      .flatMap((s) => dataset.events.get(s.sessionId) ?? [])
+      .filter((e) =>
+        (!q.eventType || e.eventType === q.eventType) &&
+        (!q.severity || String(e.severity).toLowerCase() === q.severity.toLowerCase()) &&
+        (!q.source || String(e.source ?? '').toLowerCase().includes(q.source.toLowerCase())) &&
+        (!after || e.timestamp >= after) &&
+        (!before || e.timestamp <= before))
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp) || a.sequence - b.sequence);
+    const { page, nextLink } = paginate(rows, q, basePath, caller.tenantId, RAW_PAGE);
+    res.json({ tenantId: tenantId ?? null, count: page.length, events: project(page.map(toRawEventRow), q.fields), nextLink });
+  };
+  app.get('/api/raw/events', rawEvents('/api/raw/events', false));
+  app.get('/api/global/raw/events', rawEvents('/api/global/raw/events', true));
+
+  // ── Single session ──
+  app.get('/api/sessions/:sessionId', (req, res) => {
+    const tenantId = tenantScope(callerOf(res), queryOf(req).tenantId);
+    res.json({ success: true, session: findSession(String(req.params.sessionId), tenantId) });
+  });
+
+  app.get('/api/sessions/:sessionId/events', (req, res) => {
+    const q = queryOf(req);
+    const caller = callerOf(res);
+    const session = findSession(String(req.params.sessionId), tenantScope(caller, q.tenantId));
+    const events = dataset.events.get(session.sessionId) ?? [];
+    const { page, nextLink } = paginate(events, q, `/api/sessions/${session.sessionId}/events`, caller.tenantId, RAW_PAGE, true);
+    res.json({ success: true, sessionId: session.sessionId, count: page.length, events: page, ...(nextLink ? { nextLink } : {}) });
+  });
+
+  app.get('/api/sessions/:sessionId/analysis', (req, res) => {
+    const session = findSession(String(req.params.sessionId), tenantScope(callerOf(res), queryOf(req).tenantId));
+    const lastEventAt = Date.parse(String(session.lastEventAt ?? session.startedAt));
+    const results = analyzeSession(state, session).map(({ rule, evaluation: e }) => ({
+      resultId: `${session.sessionId}_${rule.ruleId}`,
+      sessionId: session.sessionId,
+      tenantId: session.tenantId,
+      ruleId: rule.ruleId,
+      ruleTitle: rule.title,
+      severity: rule.severity ?? 'warning',
+      category: rule.category ?? '',
+      confidenceScore: e.confidence,
+      explanation: rule.explanation ?? '',
+      remediation: rule.remediation ?? [],
+      relatedDocs: rule.relatedDocs ?? [],
+      matchedConditions: e.matchedConditions,
+      detectedAt: new Date(lastEventAt).toISOString(),
+    }));
+    res.json({
+      success: true,
+      sessionId: session.sessionId,
+      results,
+      totalIssues: results.length,
+      criticalCount: results.filter((r) => r.severity === 'critical').length,
+      highCount: results.filter((r) => r.severity === 'high').length,
+      warningCount: results.filter((r) => r.severity === 'warning').length,
+      persistFailureCount: 0,
+      persistFailureRuleIds: null,
+    });
+  });
+
+  const markSession = (status: 'Failed' | 'Succeeded'): RequestHandler => (req, res) => {
+    const caller = callerOf(res);
+    const session = findSession(String(req.params.sessionId), tenantScope(caller, queryOf(req).tenantId));
+    requireWriteRole(caller, session.tenantId);
+    session.status = status;
+    session.adminMarkedAction = status;
+    if (status === 'Failed') {
+      session.failureSource = 'manual';
+      session.failureReason = String((req.body as { reason?: unknown } | undefined)?.reason ?? 'Marked as failed by administrator');
+    } else {
+      session.failureSource = '';
+      session.failureReason = '';
+    }
+    session.completedAt ??= new Date().toISOString();
+    res.json({ success: true, sessionId: session.sessionId, status });
+  };
+  app.post('/api/sessions/:sessionId/mark-failed', markSession('Failed'));
+  app.post('/api/sessions/:sessionId/mark-succeeded', markSession('Succeeded'));
+
+  app.delete('/api/sessions/:sessionId', (req, res) => {
+    const caller = callerOf(res);
+    const session = findSession(String(req.params.sessionId), tenantScope(caller, queryOf(req).tenantId));
+    requireWriteRole(caller, session.tenantId);
+    dataset.sessions.splice(dataset.sessions.indexOf(session), 1);
+    dataset.events.delete(session.sessionId);
+    res.json({ success: true, message: 'Session deleted', sessionId: session.sessionId });
+  });
+
+  registerWebRoutes(app, state);
+  registerAdminRoutes(app, state);
+
+  app.use('/api', (req) => {
+    throw new MockHttpError(501, `Not implemented by the mock backend: ${req.method} ${req.baseUrl}${req.path}`);
+  });
+
+  const onError: ErrorRequestHandler = (err, req, res, _next) => {
+    const status = err instanceof MockHttpError ? err.status : 500;
+    const message = err instanceof MockHttpError ? err.message : 'Internal server error';
+    if (status === 500) console.error('[mock-backend] Unhandled error:', err);
+    // The backend's `{ error }` routes answer that shape; everything else the `{ success: false, message }` envelope.
+    res.status(status).json(ERROR_FIELD_ROUTES.test(req.path) ? { error: message } : { success: false, message });
+  };
+  app.use(onError);
+
+  return { app, dataset };
+}
+
+export interface RunningMockBackend {
+  url: string;
+  dataset: MockDataset;
+  close(): Promise<void>;
+}
+
+/** Starts the mock on `port` (0 = ephemeral) bound to loopback. */
+export async function startMockBackend(port = 0, opts: MockBackendOptions = {}): Promise<RunningMockBackend> {
+  const { app, dataset } = createMockBackend(opts);
+  const server = await new Promise<ReturnType<typeof app.listen>>((resolve, reject) => {
+    const s = app.listen(port, '127.0.0.1', (err?: Error) => (err ? reject(err) : resolve(s)));
+  });
+  const { port: bound } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${bound}`,
+    dataset,
+    close: () => new Promise<void>((resolve, reject) => server.close((err) => (err ? reject(err) : resolve()))),
+  };
+}
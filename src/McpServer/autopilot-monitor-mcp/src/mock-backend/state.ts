@@ -0,0 +1,292 @@
+/**
+ * Mutable mock-backend state beyond the seeded dataset: tenant configuration, admins, rules,
+ * blocks, bootstrap codes, notifications, feedback and the audit trail the web app's settings and
+ * admin pages read and write. Everything lives in memory and resets on restart.
+ *
+ * Defaults mirror the backend's: tenant configuration from TenantConfiguration.CreateDefault,
+ * rules from the rules/ tree (built-in, with per-tenant enabled / markSessionAsFailed overrides
+ * and tenant-custom rules on top), tenant members from the fixture users.
+ */
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { evaluateAnalyzeRules, type EvaluableRule, type RuleEvaluation } from '../rule-evaluator.js';
+import type { MockDataset, MockSession, MockUser } from './fixtures.js';
+import { MockHttpError } from './http.js';
+
+export type Row = Record<string, unknown>;
+
+export type RuleKind = 'analyze' | 'gather' | 'ime';
+
+/** Built-in definitions plus each tenant's overrides and custom rules, for one rule kind. */
+export interface RuleStore {
+  idKey: 'ruleId' | 'patternId';
+  builtIn: Row[];
+  /** tenantId → ruleId → override fields (enabled, markSessionAsFailed). */
+  overrides: Map<string, Map<string, Row>>;
+  /** tenantId → custom rules. */
+  custom: Map<string, Row[]>;
+}
+
+export interface MockState {
+  dataset: MockDataset;
+  rules: Record<RuleKind, RuleStore>;
+  configs: Map<string, Row>;
+  admins: Row[];
+  bootstrapSessions: Row[];
+  blockedDevices: Row[];
+  blockedVersions: Row[];
+  notifications: Row[];
+  feedback: Row[];
+  auditLogs: Row[];
+  mcpUsers: Row[];
+  delegatedAdmins: Row[];
+  tenantGroups: Row[];
+  previewWhitelist: Row[];
+  /** tenantId → the waitlist notification address a signed-in user left on the preview page. */
+  previewEmails: Map<string, string>;
+  globalConfig: Row;
+}
+
+// ── Rules ────────────────────────────────────────────────────────────────────
+
+/** Reads every rule file in `dir` (single-rule files or `{ rules: [...] }` bundles), disabled ones included. */
+export function loadRuleFiles(dir: string): Row[] {
+  try {
+    return readdirSync(dir)
+      .filter((f) => f.endsWith('.json'))
+      .flatMap((f) => {
+        const parsed = JSON.parse(readFileSync(join(dir, f), 'utf-8')) as Row & { rules?: Row[] };
+        return Array.isArray(parsed.rules) ? parsed.rules : [parsed];
+      })
+      .map(({ $schema: _schema, ...rule }) => rule);
+  } catch (err) {
+    console.error(`[mock-backend] No rules loaded from ${dir}:`, err);
+    return [];
+  }
+}
+
+const ruleStore = (idKey: RuleStore['idKey'], builtIn: Row[]): RuleStore =>
+  ({ idKey, builtIn, overrides: new Map(), custom: new Map() });
+
+/** The tenant's view of one rule kind, shaped like the backend's rule lists. */
+export function rulesFor(store: RuleStore, tenantId: string): Row[] {
+  const overrides = store.overrides.get(tenantId);
+  const builtIn = store.builtIn.map((rule) => ({
+    ...rule,
+    enabled: rule.enabled !== false,
+    isBuiltIn: true,
+    isCommunity: false,
+    markSessionAsFailedDefault: rule.markSessionAsFailed ?? false,
+    markSessionAsFailed: null,
+    createdAt: '2025-01-01T00:00:00Z',
+    updatedAt: '2025-01-01T00:00:00Z',
+    ...overrides?.get(String(rule[store.idKey])),
+  }));
+  return [...builtIn, ...(store.custom.get(tenantId) ?? [])];
+}
+
+/** The rules that fire in a tenant's analysis: the tenant's enabled analyze rules. */
+export function enabledAnalyzeRules(state: MockState, tenantId: string): EvaluableRule[] {
+  return rulesFor(state.rules.analyze, tenantId).filter((r) => r.enabled !== false) as unknown as EvaluableRule[];
+}
+
+/** Runs the session's tenant rules over its events, as of its last event; fired rules only. */
+export function analyzeSession(state: MockState, session: MockSession): Array<{ rule: EvaluableRule; evaluation: RuleEvaluation }> {
+  const rules = enabledAnalyzeRules(state, session.tenantId);
+  const events = state.dataset.events.get(session.sessionId) ?? [];
+  const lastEventAt = Date.parse(String(session.lastEventAt ?? session.startedAt));
+  return evaluateAnalyzeRules(rules, events, { now: lastEventAt })
+    .filter((evaluation) => evaluation.fired)
+    .map((evaluation) => ({ rule: rules.find((r) => r.ruleId === evaluation.ruleId)!, evaluation }));
+}
+
+/**
+ * Applies a PUT to a rule. Built-in rules only take the per-tenant state (enabled and, for
+ * analyze rules, markSessionAsFailed); a custom rule is replaced by the body.
+ */
+export function updateRule(store: RuleStore, tenantId: string, ruleId: string, body: Row): Row {
+  const custom = store.custom.get(tenantId) ?? [];
+  const index = custom.findIndex((r) => r[store.idKey] === ruleId);
+  if (index >= 0) {
+    custom[index] = { ...custom[index], ...body, [store.idKey]: ruleId, isBuiltIn: false, updatedAt: new Date().toISOString() };
+    return custom[index];
+  }
+  if (!store.builtIn.some((r) => r[store.idKey] === ruleId)) throw new MockHttpError(404, `Rule '${ruleId}' not found`);
+  const overrides = store.overrides.get(tenantId) ?? new Map<string, Row>();
+  const override = { ...overrides.get(ruleId) };
+  if (typeof body.enabled === 'boolean') override.enabled = body.enabled;
+  if ('markSessionAsFailed' in body) override.markSessionAsFailed = body.markSessionAsFailed ?? null;
+  overrides.set(ruleId, override);
+  store.overrides.set(tenantId, overrides);
+  return rulesFor(store, tenantId).find((r) => r[store.idKey] === ruleId)!;
+}
+
+export function createRule(store: RuleStore, tenantId: string, body: Row): Row {
+  const ruleId = String(body[store.idKey] ?? '').trim();
+  if (!ruleId) throw new MockHttpError(400, `${store.idKey} is required`);
+  if (rulesFor(store, tenantId).some((r) => r[store.idKey] === ruleId)) throw new MockHttpError(409, `Rule '${ruleId}' already exists`);
+  const now = new Date().toISOString();
+  const rule = { enabled: true, ...body, [store.idKey]: ruleId, isBuiltIn: false, isCommunity: false, createdAt: now, updatedAt: now };
+  store.custom.set(tenantId, [...(store.custom.get(tenantId) ?? []), rule]);
+  return rule;
+}
+
+export function deleteRule(store: RuleStore, tenantId: string, ruleId: string): void {
+  const custom = store.custom.get(tenantId) ?? [];
+  const index = custom.findIndex((r) => r[store.idKey] === ruleId);
+  if (index < 0) {
+    throw store.builtIn.some((r) => r[store.idKey] === ruleId)
+      ? new MockHttpError(400, 'Built-in rules cannot be deleted; disable them instead')
+      : new MockHttpError(404, `Rule '${ruleId}' not found`);
+  }
+  custom.splice(index, 1);
+}
+
+/** The backend's create-from-template: a `{id}-CUSTOM` copy with the variables substituted, template disabled. */
+export function createFromTemplate(store: RuleStore, tenantId: string, templateId: string, values: Row): Row {
+  const template = rulesFor(store, tenantId).find((r) => r.ruleId === templateId);
+  if (!template) throw new MockHttpError(404, `Rule '${templateId}' not found.`);
+  const variables = (template.templateVariables ?? []) as Array<{ name: string; conditionIndex: number; field?: string }>;
+  if (!variables.length) throw new MockHttpError(400, `Rule '${templateId}' is not a template rule.`);
+  const conditions = structuredClone(template.conditions ?? []) as Row[];
+  for (const tv of variables) {
+    const value = String(values[tv.name] ?? '').trim();
+    if (!value) throw new MockHttpError(400, `Missing required value for template variable '${tv.name}'.`);
+    const condition = conditions[tv.conditionIndex];
+    const field = { value: 'value', eventtype: 'eventType', datafield: 'dataField', eventafiltervalue: 'eventAFilterValue' }[String(tv.field).toLowerCase()];
+    if (condition && field) condition[field] = value;
+  }
+  const rule = createRule(store, tenantId, {
+    ...template,
+    ruleId: `${templateId}-CUSTOM`,
+    conditions,
+    templateVariables: [],
+    derivedFromTemplateRuleId: templateId,
+    enabled: true,
+  });
+  updateRule(store, tenantId, templateId, { enabled: false });
+  return rule;
+}
+
+// ── Tenants ──────────────────────────────────────────────────────────────────
+
+/** TenantConfiguration.CreateDefault, plus the display fields the admin tenant list shows. */
+function defaultTenantConfig(tenantId: string, domainName: string): Row {
+  return {
+    tenantId,
+    domainName,
+    lastUpdated: '2025-01-01T00:00:00Z',
+    updatedBy: 'System',
+    disabled: false,
+    manufacturerWhitelist: 'Dell*,HP*,Lenovo*,Microsoft Corporation',
+    modelWhitelist: '*',
+    validateAutopilotDevice: false,
+    validateCorporateIdentifier: false,
+    validateDeviceAssociation: false,
+    allowInsecureAgentRequests: false,
+    dataRetentionDays: 90,
+    sessionTimeoutHours: 5,
+    enablePerformanceCollector: true,
+    performanceCollectorIntervalSeconds: 30,
+    selfDestructOnComplete: true,
+    keepLogFile: false,
+    rebootOnComplete: false,
+    rebootDelaySeconds: 10,
+    enableGeoLocation: true,
+    enableImeMatchLog: false,
+    logLevel: 'Info',
+    webhookProviderType: 0,
+    webhookUrl: '',
+    webhookNotifyOnSuccess: true,
+    webhookNotifyOnFailure: true,
+    webhookNotifyOnHardwareRejection: false,
+    showEnrollmentSummary: false,
+    showScriptOutput: true,
+    enableSoftwareInventoryAnalyzer: false,
+    enableIntegrityBypassAnalyzer: true,
+    bootstrapTokenEnabled: false,
+    unrestrictedModeEnabled: false,
+    unrestrictedMode: false,
+    slaTargetSuccessRate: 95,
+    slaTargetMaxDurationMinutes: 60,
+    slaTargetAppInstallSuccessRate: 98,
+    rateLimitRequestsPerMinute: 100,
+  };
+}
+
+export function createMockState(dataset: MockDataset, rulesDir: string): MockState {
+  const seededAt = '2025-01-01T00:00:00Z';
+  const configs = new Map(dataset.tenants.map((t) => [t.tenantId, defaultTenantConfig(t.tenantId, t.domain)]));
+  const members = dataset.users.filter((u): u is MockUser & { memberRole: string } => !!u.memberRole);
+  return {
+    dataset,
+    rules: {
+      analyze: ruleStore('ruleId', loadRuleFiles(join(rulesDir, 'analyze'))),
+      gather: ruleStore('ruleId', loadRuleFiles(join(rulesDir, 'gather'))),
+      ime: ruleStore('patternId', loadRuleFiles(join(rulesDir, 'ime-log-patterns'))),
+    },
+    configs,
+    admins: members.map((u) => ({
+      tenantId: u.tenantId,
+      upn: u.upn,
+      isEnabled: true,
+      addedDate: seededAt,
+      addedBy: 'System',
+      role: u.memberRole,
+      canManageBootstrapTokens: u.memberRole === 'Admin',
+    })),
+    bootstrapSessions: [],
+    blockedDevices: [],
+    blockedVersions: [],
+    notifications: [],
+    feedback: [],
+    auditLogs: [],
+    mcpUsers: dataset.users.map((u) => ({ upn: u.upn, isEnabled: true, addedAt: seededAt, addedBy: 'System', usagePlan: null })),
+    delegatedAdmins: dataset.users.flatMap((u) => (u.delegatedTenantIds ?? []).map((tenantId) => ({
+      upn: u.upn,
+      tenantId,
+      role: 'DelegatedReader',
+      isEnabled: true,
+      status: 'Active',
+      source: 'OperatorGranted',
+      grantedAt: seededAt,
+      grantedBy: 'System',
+    }))),
+    tenantGroups: [],
+    previewWhitelist: dataset.tenants.map((t) => ({ partitionKey: t.tenantId, rowKey: 'whitelist', approvedAt: seededAt, approvedBy: 'System' })),
+    previewEmails: new Map(),
+    globalConfig: {
+      partitionKey: 'GlobalConfig',
+      rowKey: 'config',
+      lastUpdated: seededAt,
+      updatedBy: 'System',
+      globalRateLimitRequestsPerMinute: 1000,
+      collectorIdleTimeoutMinutes: 15,
+      desktopDetectorNoCandidateTimeoutMinutes: 10,
+      maxSessionWindowHours: 24,
+      maintenanceBlockDurationHours: 12,
+      opsEventRetentionDays: 30,
+      diagnosticsGlobalLogPathsJson: '[]',
+      vulnerabilityCorrelationEnabled: false,
+      allowAgentDowngrade: false,
+      latestAgentVersion: '2.0.626',
+      latestBootstrapScriptVersion: '1.0.0',
+    },
+  };
+}
+
+/** Appends an audit entry for a mock mutation, newest first like the backend's audit query. */
+export function audit(state: MockState, caller: MockUser, tenantId: string, action: string, entityType: string, entityId: string, details = ''): void {
+  state.auditLogs.unshift({
+    id: `audit-${state.auditLogs.length + 1}`,
+    tenantId,
+    action,
+    entityType,
+    entityId,
+    performedBy: caller.upn,
+    timestamp: new Date().toISOString(),
+    details,
+  });
+}
+
+export const isTerminal = (s: MockSession) => s.status === 'Succeeded' || s.status === 'Failed';
@@ -0,0 +1,654 @@
+/**
+ * Dashboard and metrics routes the web app loads, computed from the seeded sessions and events:
+ * session stats, the progress portal, apps, fleet health, geographic, SLA and usage metrics, rule
+ * stats, audit logs, plus the per-session extras (Inspector, vulnerability report, report upload).
+ *
+ * Numbers are derived, not canned, so they stay consistent with the session lists: a session marked
+ * failed in the UI moves the success rate on the next load. Data the agent collects but the
+ * fixtures don't model (delivery optimization, download sizes, software inventory, CVEs, Inspector
+ * signals) comes back as well-formed empty values.
+ */
+import type express from 'express';
+import type { RequestHandler, Response, Request } from 'express';
+import type { MockEvent, MockSession } from './fixtures.js';
+import { callerOf, globalScope, MockHttpError, paginate, queryOf, tenantScope, type Query } from './http.js';
+import { analyzeSession, isTerminal, type MockState, type Row } from './state.js';
+
+const DAY_MS = 86_400_000;
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+const pct = (part: number, total: number) => (total ? round1((part / total) * 100) : 0);
+const avg = (values: number[]) => (values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+
+function percentile(values: number[], p: number): number {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+const durationMinutes = (sessions: MockSession[]) =>
+  sessions.filter((s) => typeof s.durationSeconds === 'number').map((s) => Number(s.durationSeconds) / 60);
+
+/** Tenant route (own or readable `tenantId`) or global route (optional / delegated tenant filter). */
+function scopeOf(req: Request, res: Response, global: boolean): { q: Query; tenantId: string | undefined } {
+  const q = queryOf(req);
+  const caller = callerOf(res);
+  return { q, tenantId: global ? globalScope(caller, q.tenantId) : tenantScope(caller, q.tenantId) };
+}
+
+// ── App installs ─────────────────────────────────────────────────────────────
+
+interface AppInstall {
+  appName: string;
+  session: MockSession;
+  status: 'succeeded' | 'failed' | 'in_progress';
+  startedAt: string;
+  durationSeconds: number | null;
+  errorCode: string | null;
+  message: string;
+}
+
+/** One record per app_install_started, resolved by the next completed / failed event of that app. */
+function appInstalls(events: MockEvent[], session: MockSession): AppInstall[] {
+  const installs: AppInstall[] = [];
+  for (const e of events) {
+    const appName = String(e.source);
+    if (e.eventType === 'app_install_started') {
+      installs.push({ appName, session, status: 'in_progress', startedAt: e.timestamp, durationSeconds: null, errorCode: null, message: '' });
+      continue;
+    }
+    if (e.eventType !== 'app_install_completed' && e.eventType !== 'app_install_failed') continue;
+    const open = installs.find((i) => i.appName === appName && i.status === 'in_progress');
+    if (!open) continue;
+    open.status = e.eventType === 'app_install_completed' ? 'succeeded' : 'failed';
+    open.durationSeconds = Math.round((Date.parse(e.timestamp) - Date.parse(open.startedAt)) / 1000);
+    open.errorCode = open.status === 'failed' ? String((e.data as Row | undefined)?.errorCode ?? '') : null;
+    open.message = String(e.message ?? '');
+  }
+  return installs;
+}
+
+function summarizeApp(appName: string, installs: AppInstall[]) {
+  const failed = installs.filter((i) => i.status === 'failed');
+  const durations = installs.flatMap((i) => (i.durationSeconds === null ? [] : [i.durationSeconds]));
+  const codes = new Map<string, number>();
+  for (const i of failed) codes.set(i.errorCode ?? '', (codes.get(i.errorCode ?? '') ?? 0) + 1);
+  return {
+    appName,
+    totalInstalls: installs.length,
+    succeeded: installs.filter((i) => i.status === 'succeeded').length,
+    failed: failed.length,
+    failureRate: pct(failed.length, installs.length),
+    avgDurationSeconds: Math.round(avg(durations)),
+    maxDurationSeconds: durations.length ? Math.max(...durations) : 0,
+    avgDownloadBytes: 0,
+    topFailureCodes: [...codes.entries()].map(([code, count]) => ({ code, count })).sort((a, b) => b.count - a.count),
+  };
+}
+
+export function registerWebRoutes(app: express.Express, state: MockState): void {
+  const { dataset } = state;
+  const sessionsIn = (tenantId: string | undefined) =>
+    tenantId ? dataset.sessions.filter((s) => s.tenantId === tenantId) : dataset.sessions;
+  const inWindow = (tenantId: string | undefined, days: string | undefined, fallbackDays: number) => {
+    const n = Number(days);
+    const from = Date.now() - (Number.isFinite(n) && n > 0 ? n : fallbackDays) * DAY_MS;
+    return sessionsIn(tenantId).filter((s) => Date.parse(s.startedAt) >= from);
+  };
+  const installsOf = (sessions: MockSession[]) =>
+    sessions.flatMap((s) => appInstalls(dataset.events.get(s.sessionId) ?? [], s));
+  const findSession = (sessionId: string, tenantId: string): MockSession => {
+    const session = dataset.sessions.find((s) => s.sessionId === sessionId && s.tenantId === tenantId);
+    if (!session) throw new MockHttpError(404, 'Session not found');
+    return session;
+  };
+
+  // ── Session stats (dashboard tiles, fleet overview) ──
+  const sessionStats = (global: boolean): RequestHandler => (req, res) => {
+    const { q, tenantId } = scopeOf(req, res, global);
+    const days = Number(q.days) > 0 ? Number(q.days) : 30;
+    const recent = inWindow(tenantId, String(days), days);
+    const today = new Date().toISOString().slice(0, 10);
+    const succeeded = recent.filter((s) => s.status === 'Succeeded').length;
+    const failed = recent.filter((s) => s.status === 'Failed').length;
+    res.json({
+      success: true,
+      stats: {
+        days,
+        activeCount: sessionsIn(tenantId).filter((s) => s.status === 'InProgress').length,
+        totalLastNDays: recent.length,
+        succeededLastNDays: succeeded,
+        failedLastNDays: failed,
+        successRatePct: pct(succeeded, succeeded + failed),
+        avgDurationMinutes: round1(avg(durationMinutes(recent))),
+        totalToday: recent.filter((s) => s.startedAt.startsWith(today)).length,
+        failedToday: recent.filter((s) => s.startedAt.startsWith(today) && s.status === 'Failed').length,
+        computedAt: new Date().toISOString(),
+      },
+    });
+  };
+  app.get('/api/stats/sessions', sessionStats(false));
+  app.get('/api/global/stats/sessions', sessionStats(true));
+
+  // ── Progress portal ──
+  app.get('/api/progress/sessions', (_req, res) => {
+    const sessions = sessionsIn(callerOf(res).tenantId).slice(0, 100);
+    res.json({ success: true, count: sessions.length, sessions });
+  });
+
+  app.get('/api/progress/sessions/:sessionId/events', (req, res) => {
+    const q = queryOf(req);
+    if (!q.tenantId) throw new MockHttpError(400, 'tenantId query parameter is required');
+    const session = findSession(String(req.params.sessionId), tenantScope(callerOf(res), q.tenantId));
+    const events = dataset.events.get(session.sessionId) ?? [];
+    res.json({ success: true, sessionId: session.sessionId, count: events.length, events });
+  });
+
+  // ── App metrics (fleet health page, MCP app tools) ──
+  const appMetrics = (global: boolean): RequestHandler => (req, res) => {
+    const { q, tenantId } = scopeOf(req, res, global);
+    const byApp = new Map<string, AppInstall[]>();
+    for (const i of installsOf(inWindow(tenantId, q.days, 30))) byApp.set(i.appName, [...(byApp.get(i.appName) ?? []), i]);
+    const apps = [...byApp.entries()].map(([appName, installs]) => summarizeApp(appName, installs));
+    res.json({
+      success: true,
+      totalApps: apps.length,
+      totalInstalls: apps.reduce((n, a) => n + a.totalInstalls, 0),
+      slowestApps: [...apps].sort((a, b) => b.avgDurationSeconds - a.avgDurationSeconds).slice(0, 10),
+      topFailingApps: apps
+        .filter((a) => a.failed > 0)
+        .sort((a, b) => b.failed - a.failed || a.appName.localeCompare(b.appName)),
+    });
+  };
+  app.get('/api/metrics/app', appMetrics(false));
+  app.get('/api/global/metrics/app', appMetrics(true));
+
+  // ── Apps dashboard ──
+  const appsList = (global: boolean): RequestHandler => (req, res) => {
+    const { q, tenantId } = scopeOf(req, res, global);
+    const windowDays = Number(q.days) > 0 ? Number(q.days) : 30;
+    const installs = installsOf(inWindow(tenantId, String(windowDays), windowDays));
+    const names = [...new Set(installs.map((i) => i.appName))].sort();
+    const apps = names.map((appName) => {
+      const own = installs.filter((i) => i.appName === appName);
+      const summary = summarizeApp(appName, own);
+      return {
+        appName,
+        appType: 'Win32',
+        totalInstalls: summary.totalInstalls,
+        succeeded: summary.succeeded,
+        failed: summary.failed,
+        failureRate: summary.failureRate,
+        avgDurationSeconds: summary.avgDurationSeconds,
+        maxDurationSeconds: summary.maxDurationSeconds,
+        avgDownloadBytes: 0,
+        trend: 'stable',
+        trendDelta: 0,
+        lastSeenAt: own.map((i) => i.startedAt).sort().at(-1) ?? null,
+      };
+    });
+    res.json({ success: true, totalApps: apps.length, totalInstalls: installs.length, windowDays, apps });
+  };
+  app.get('/api/apps/list', appsList(false));
+  app.get('/api/global/apps/list', appsList(true));
+
+  const appAnalytics = (global: boolean): RequestHandler => (req, res) => {
+    const { q, tenantId } = scopeOf(req, res, global);
+    const appName = String(req.params.appName);
+    const windowDays = Number(q.days) > 0 ? Number(q.days) : 30;
+    const installs = installsOf(inWindow(tenantId, String(windowDays), windowDays)).filter((i) => i.appName === appName);
+    const summary = summarizeApp(appName, installs);
+    const durations = installs.flatMap((i) => (i.durationSeconds === null ? [] : [i.durationSeconds]));
+    const byDay = new Map<string, AppInstall[]>();
+    for (const i of installs) byDay.set(i.startedAt.slice(0, 10), [...(byDay.get(i.startedAt.slice(0, 10)) ?? []), i]);
+    const byModel = new Map<string, AppInstall[]>();
+    for (const i of installs) byModel.set(`${i.session.manufacturer}|${i.session.model}`, [...(byModel.get(`${i.session.manufacturer}|${i.session.model}`) ?? []), i]);
+    res.json({
+      success: true,
+      appName,
+      appType: 'Win32',
+      windowDays,
+      bucket: 'day',
+      summary: {
+        totalInstalls: summary.totalInstalls,
+        succeeded: summary.succeeded,
+        failed: summary.failed,
+        failureRate: summary.failureRate,
+        avgDurationSeconds: summary.avgDurationSeconds,
+        p95DurationSeconds: percentile(durations, 95),
+        avgDownloadBytes: 0,
+        trend: 'stable',
+        trendDelta: 0,
+        flakinessScore: 0,
+      },
+      timeSeries: [...byDay.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([day, own]) => {
+        const s = summarizeApp(appName, own);
+        return { bucketStart: `${day}T00:00:00Z`, installs: s.totalInstalls, succeeded: s.succeeded, failed: s.failed, failureRate: s.failureRate, avgDurationSeconds: s.avgDurationSeconds };
+      }),
+      versionBreakdown: [],
+      installerPhaseBreakdown: summary.failed ? [{ phase: 'Install', failed: summary.failed }] : [],
+      topFailureCodes: summary.topFailureCodes.map(({ code, count }) => ({
+        code,
+        exitCode: null,
+        count,
+        sampleMessage: installs.find((i) => i.errorCode === code)?.message ?? '',
+      })),
+      detectionLiesCount: 0,
+      deviceModelBreakdown: [...byModel.values()].map((own) => ({
+        manufacturer: own[0].session.manufacturer,
+        model: own[0].session.model,
+        installs: own.length,
+        failed: own.filter((i) => i.status === 'failed').length,
+        failureRate: pct(own.filter((i) => i.status === 'failed').length, own.length),
+        liftVsBaseline: round1(pct(own.filter((i) => i.status === 'failed').length, own.length) - summary.failureRate),
+      })),
+    });
+  };
+  app.get('/api/apps/:appName/analytics', appAnalytics(false));
+  app.get('/api/global/apps/:appName/analytics', appAnalytics(true));
+
+  const appSessions = (global: boolean): RequestHandler => (req, res) => {
+    const { q, tenantId } = scopeOf(req, res, global);
+    const offset = Math.max(0, Number(q.offset) || 0);
+    const limit = Math.min(200, Math.max(1, Number(q.limit) || 50));
+    const items = installsOf(inWindow(tenantId, q.days, 30))
+      .filter((i) =>
+        i.appName === String(req.params.appName) &&
+        (!q.status || q.status === 'all' || i.status === q.status) &&
+        (!q.model || i.session.model === q.model))
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+      .map((i) => ({
+        sessionId: i.session.sessionId,
+        tenantId: i.session.tenantId,
+        deviceName: i.session.deviceName,
+        manufacturer: i.session.manufacturer,
+        model: i.session.model,
+        appVersion: null,
+        status: i.status,
+        installerPhase: i.status === 'failed' ? 'Install' : null,
+        failureCode: i.errorCode,
+        exitCode: null,
+        attemptNumber: 1,
+        startedAt: i.startedAt,
+        durationSeconds: i.durationSeconds,
+      }));
+    res.json({ success: true, total: items.length, offset, limit, items: items.slice(offset, offset + limit) });
+  };
+  app.get('/api/apps/:appName/sessions', appSessions(false));
+  app.get('/api/global/apps/:appName/sessions', appSessions(true));
+
+  // ── Fleet health ──
+  const fleetHealth = (global: boolean): RequestHandler => (req, res) => {
+    const { q, tenantId } = scopeOf(req, res, global);
+    const days = Number(q.days) > 0 ? Number(q.days) : 7;
+    const sessions = inWindow(tenantId, String(days), days);
+    const succeeded = sessions.filter((s) => s.status === 'Succeeded');
+    const failed = sessions.filter((s) => s.status === 'Failed');
+    const count = <K>(items: MockSession[], key: (s: MockSession) => K) => {
+      const m = new Map<K, MockSession[]>();
+      for (const s of items) m.set(key(s), [...(m.get(key(s)) ?? []), s]);
+      return m;
+    };
+    const daily = count(sessions, (s) => s.startedAt.slice(0, 10));
+    const models = [...count(sessions, (s) => String(s.model)).entries()];
+    res.json({
+      success: true,
+      days,
+      stats: {
+        total: sessions.length,
+        succeeded: succeeded.length,
+        failed: failed.length,
+        inProgress: sessions.filter((s) => s.status === 'InProgress').length,
+        successRate: pct(succeeded.length, succeeded.length + failed.length),
+        avgDurationMinutes: round1(avg(durationMinutes(sessions))),
+      },
+      dailyData: [...daily.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([date, own]) => ({
+        date,
+        success: own.filter((s) => s.status === 'Succeeded').length,
+        failed: own.filter((s) => s.status === 'Failed').length,
+      })),
+      failureReasons: [...count(failed, (s) => String(s.failureReason || 'Unknown')).entries()]
+        .map(([reason, own]) => ({ reason, count: own.length }))
+        .sort((a, b) => b.count - a.count),
+      modelHealth: models.map(([model, own]) => ({ model, total: own.length, succeeded: own.filter((s) => s.status === 'Succeeded').length })),
+      slowestModels: models
+        .map(([model, own]) => ({ model, avgMinutes: round1(avg(durationMinutes(own))), count: own.length }))
+        .sort((a, b) => b.avgMinutes - a.avgMinutes),
+      topFailingModels: models
+        .map(([model, own]) => {
+          const f = own.filter((s) => s.status === 'Failed').length;
+          return { model, failed: f, total: own.length, failureRate: pct(f, own.length) };
+        })
+        .filter((m) => m.failed > 0)
+        .sort((a, b) => b.failed - a.failed),
+      computedAt: new Date().toISOString(),
+    });
+  };
+  app.get('/api/metrics/fleet-health', fleetHealth(false));
+  app.get('/api/global/metrics/fleet-health', fleetHealth(true));
+
+  // ── Geographic ──
+  const PLACES: Record<string, { region: string; loc: string }> = {
+    Berlin: { region: 'Berlin', loc: '52.5200,13.4050' },
+    Seattle: { region: 'Washington', loc: '47.6062,-122.3321' },
+    London: { region: 'England', loc: '51.5074,-0.1278' },
+  };
+  const locationKeyOf = (s: MockSession, groupBy: string | undefined) => {
+    const city = String(s.geoCity ?? '');
+    const parts = [String(s.geoCountry ?? ''), PLACES[city]?.region ?? '', city];
+    return parts.slice(0, groupBy === 'country' ? 1 : groupBy === 'region' ? 2 : 3).join('|');
+  };
+
+  const geographic = (global: boolean): RequestHandler => (req, res) => {
+    const { q, tenantId } = scopeOf(req, res, global);
+    const sessions = inWindow(tenantId, q.days, 30).filter((s) => s.geoCountry);
+    const allMinutes = durationMinutes(sessions);
+    const globalAvg = avg(allMinutes);
+    const groups = new Map<string, MockSession[]>();
+    for (const s of sessions) groups.set(locationKeyOf(s, q.groupBy), [...(groups.get(locationKeyOf(s, q.groupBy)) ?? []), s]);
+    const locations = [...groups.entries()].map(([locationKey, own]) => {
+      const minutes = durationMinutes(own);
+      const succeeded = own.filter((s) => s.status === 'Succeeded').length;
+      const failed = own.filter((s) => s.status === 'Failed').length;
+      const apps = own.map((s) => installsOf([s]).length);
+      const avgMinutes = avg(minutes);
+      const [country, region = '', city = ''] = locationKey.split('|');
+      return {
+        locationKey,
+        country,
+        region,
+        city,
+        loc: PLACES[city]?.loc ?? '',
+        sessionCount: own.length,
+        succeeded,
+        failed,
+        successRate: pct(succeeded, succeeded + failed),
+        avgDurationMinutes: round1(avgMinutes),
+        medianDurationMinutes: round1(percentile(minutes, 50)),
+        p95DurationMinutes: round1(percentile(minutes, 95)),
+        avgAppCount: round1(avg(apps)),
+        minutesPerApp: round1(avg(apps) ? avgMinutes / avg(apps) : 0),
+        appLoadScore: round1(avg(apps)),
+        avgThroughputBytesPerSec: 0,
+        totalDownloadBytes: 0,
+        durationVsGlobalPct: globalAvg ? round1(((avgMinutes - globalAvg) / globalAvg) * 100) : 0,
+        throughputVsGlobalPct: 0,
+        isOutlier: false,
+        outlierDirection: null,
+        doSessionCount: 0,
+        avgDoPercentPeerCaching: 0,
+        totalDoBytesFromPeers: 0,
+        totalDoBytesFromHttp: 0,
+        totalDoBytesFromLanPeers: 0,
+        totalDoBytesFromGroupPeers: 0,
+        totalDoBytesFromInternetPeers: 0,
+      };
+    });
+    const mean = avg(allMinutes);
+    res.json({
+      success: true,
+      locations,
+      globalAverages: {
+        avgDurationMinutes: round1(mean),
+        medianDurationMinutes: round1(percentile(allMinutes, 50)),
+        avgMinutesPerApp: 0,
+        avgThroughputBytesPerSec: 0,
+        stdDevDurationMinutes: round1(Math.sqrt(avg(allMinutes.map((m) => (m - mean) ** 2)))),
+        avgDoPercentPeerCaching: 0,
+        totalDoBytesFromPeers: 0,
+        totalDoBytesFromHttp: 0,
+      },
+      computedAt: new Date().toISOString(),
+      totalSessions: sessions.length,
+      locationsWithData: locations.length,
+      geoLocationEnabled: true,
+    });
+  };
+  app.get('/api/metrics/geographic', geographic(false));
+  app.get('/api/global/metrics/geographic', geographic(true));
+
+  const geographicSessions = (global: boolean): RequestHandler => (req, res) => {
+    const { q, tenantId } = scopeOf(req, res, global);
+    const sessions = inWindow(tenantId, q.days, 30).filter((s) => s.geoCountry && locationKeyOf(s, q.groupBy) === q.locationKey);
+    res.json({ success: true, sessions, totalCount: sessions.length });
+  };
+  app.get('/api/metrics/geographic/sessions', geographicSessions(false));
+  app.get('/api/global/metrics/geographic/sessions', geographicSessions(true));
+
+  // ── SLA ──
+  const isoWeek = (iso: string) => {
+    const d = new Date(iso.slice(0, 10) + 'T00:00:00Z');
+    d.setUTCDate(d.getUTCDate() + 4 - (d.getUTCDay() || 7));
+    const week = Math.ceil(((d.getTime() - Date.UTC(d.getUTCFullYear(), 0, 1)) / DAY_MS + 1) / 7);
+    return `${d.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+  };
+
+  const sla = (global: boolean): RequestHandler => (req, res) => {
+    const { q, tenantId } = scopeOf(req, res, global);
+    if (global && !tenantId) throw new MockHttpError(400, 'tenantId is required');
+    const config = state.configs.get(tenantId ?? callerOf(res).tenantId) ?? {};
+    const targetSuccessRate = Number(config.slaTargetSuccessRate ?? 95);
+    const targetMaxDurationMinutes = Number(config.slaTargetMaxDurationMinutes ?? 60);
+    const targetAppInstallSuccessRate = Number(config.slaTargetAppInstallSuccessRate ?? 98);
+    const months = Number(q.months) > 0 ? Number(q.months) : 3;
+    const completed = inWindow(tenantId, String(months * 30), 90).filter(isTerminal);
+
+    const weekStats = (week: string, own: MockSession[]) => {
+      const succeeded = own.filter((s) => s.status === 'Succeeded').length;
+      const minutes = durationMinutes(own);
+      const installs = installsOf(own);
+      const successRate = pct(succeeded, own.length);
+      const p95DurationMinutes = round1(percentile(minutes, 95));
+      const appInstallSuccessRate = pct(installs.filter((i) => i.status === 'succeeded').length, installs.length);
+      return {
+        week,
+        totalCompleted: own.length,
+        succeeded,
+        failed: own.length - succeeded,
+        successRate,
+        avgDurationMinutes: round1(avg(minutes)),
+        p95DurationMinutes,
+        durationViolationCount: minutes.filter((m) => m > targetMaxDurationMinutes).length,
+        successRateMet: successRate >= targetSuccessRate,
+        durationTargetMet: p95DurationMinutes <= targetMaxDurationMinutes,
+        appInstallSuccessRate,
+        appInstallTargetMet: appInstallSuccessRate >= targetAppInstallSuccessRate,
+      };
+    };
+    const weeks = new Map<string, MockSession[]>();
+    for (const s of completed) weeks.set(isoWeek(s.startedAt), [...(weeks.get(isoWeek(s.startedAt)) ?? []), s]);
+    const weeklyTrend = [...weeks.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([week, own]) => weekStats(week, own));
+    const current = weekStats(isoWeek(new Date().toISOString()), weeks.get(isoWeek(new Date().toISOString())) ?? []);
+    const installs = installsOf(completed);
+    const byApp = new Map<string, AppInstall[]>();
+    for (const i of installs) byApp.set(i.appName, [...(byApp.get(i.appName) ?? []), i]);
+    const appSucceeded = installs.filter((i) => i.status === 'succeeded').length;
+
+    res.json({
+      targetSuccessRate,
+      targetMaxDurationMinutes,
+      targetAppInstallSuccessRate,
+      currentWeek: {
+        week: current.week,
+        totalCompleted: current.totalCompleted,
+        succeeded: current.succeeded,
+        failed: current.failed,
+        successRate: current.successRate,
+        avgDurationMinutes: current.avgDurationMinutes,
+        p95DurationMinutes: current.p95DurationMinutes,
+        durationViolationCount: current.durationViolationCount,
+        successRateMet: current.successRateMet,
+        durationTargetMet: current.durationTargetMet,
+      },
+      weeklyTrend: weeklyTrend.map(({ week, successRate, p95DurationMinutes, appInstallSuccessRate, totalCompleted, successRateMet, durationTargetMet, appInstallTargetMet }) =>
+        ({ week, successRate, p95DurationMinutes, appInstallSuccessRate, totalCompleted, successRateMet, durationTargetMet, appInstallTargetMet })),
+      violators: completed
+        .filter((s) => s.status === 'Failed' || Number(s.durationSeconds ?? 0) / 60 > targetMaxDurationMinutes)
+        .slice(0, 50)
+        .map((s) => ({
+          sessionId: s.sessionId,
+          tenantId: s.tenantId,
+          deviceName: s.deviceName,
+          serialNumber: s.serialNumber,
+          startedAt: s.startedAt,
+          completedAt: s.completedAt ?? null,
+          durationSeconds: s.durationSeconds ?? null,
+          // The backend serializes SessionStatus as its enum value: 3 Succeeded, 4 Failed.
+          status: s.status === 'Failed' ? 4 : 3,
+          failureReason: s.failureReason || null,
+          violationType: s.status === 'Failed' ? 'Failed' : 'Duration',
+        })),
+      appInstallSla: installs.length
+        ? {
+          totalInstalls: installs.length,
+          succeeded: appSucceeded,
+          failed: installs.filter((i) => i.status === 'failed').length,
+          successRate: pct(appSucceeded, installs.length),
+          targetMet: pct(appSucceeded, installs.length) >= targetAppInstallSuccessRate,
+          topFailingApps: [...byApp.entries()]
+            .map(([appName, own]) => ({
+              appName,
+              failCount: own.filter((i) => i.status === 'failed').length,
+              totalCount: own.length,
+              successRate: pct(own.filter((i) => i.status === 'succeeded').length, own.length),
+            }))
+            .filter((a) => a.failCount > 0)
+            .sort((a, b) => b.failCount - a.failCount),
+        }
+        : null,
+      computedAt: new Date().toISOString(),
+      fromCache: false,
+      computeDurationMs: 0,
+    });
+  };
+  app.get('/api/metrics/sla', sla(false));
+  app.get('/api/global/metrics/sla', sla(true));
+
+  // ── Usage ──
+  const usage = (global: boolean): RequestHandler => (req, res) => {
+    const { tenantId } = scopeOf(req, res, global);
+    const all = sessionsIn(tenantId);
+    const now = Date.now();
+    const since = (days: number) => all.filter((s) => Date.parse(s.startedAt) >= now - days * DAY_MS);
+    const succeeded = all.filter((s) => s.status === 'Succeeded').length;
+    const failed = all.filter((s) => s.status === 'Failed').length;
+    const minutes = durationMinutes(all);
+    const top = (key: 'manufacturer' | 'model') => {
+      const m = new Map<string, number>();
+      for (const s of all) m.set(String(s[key]), (m.get(String(s[key])) ?? 0) + 1);
+      return [...m.entries()].map(([name, count]) => ({ name, count, percentage: pct(count, all.length) })).sort((a, b) => b.count - a.count);
+    };
+    const activeTenants = (days: number) => new Set(since(days).map((s) => s.tenantId)).size;
+    const whiteGlove = all.filter((s) => s.isPreProvisioned === true).length;
+    res.json({
+      sessions: {
+        total: all.length,
+        today: since(1).length,
+        last7Days: since(7).length,
+        last30Days: since(30).length,
+        succeeded,
+        failed,
+        inProgress: all.filter((s) => s.status === 'InProgress').length,
+        successRate: pct(succeeded, succeeded + failed),
+      },
+      tenants: { total: tenantId ? 1 : dataset.tenants.length, active7Days: activeTenants(7), active30Days: activeTenants(30) },
+      users: {
+        total: dataset.users.filter((u) => !tenantId || u.tenantId === tenantId).length,
+        dailyLogins: 0,
+        active7Days: 0,
+        active30Days: 0,
+        note: 'The mock backend does not track sign-ins.',
+      },
+      performance: {
+        avgDurationMinutes: round1(avg(minutes)),
+        medianDurationMinutes: round1(percentile(minutes, 50)),
+        p95DurationMinutes: round1(percentile(minutes, 95)),
+        p99DurationMinutes: round1(percentile(minutes, 99)),
+      },
+      hardware: { topManufacturers: top('manufacturer'), topModels: top('model') },
+      deploymentTypes: {
+        userDriven: all.length - whiteGlove,
+        whiteGlove,
+        userDrivenPercentage: pct(all.length - whiteGlove, all.length),
+        whiteGlovePercentage: pct(whiteGlove, all.length),
+      },
+      computedAt: new Date().toISOString(),
+      computeDurationMs: 0,
+      fromCache: false,
+    });
+  };
+  app.get('/api/metrics/usage', usage(false));
+  app.get('/api/global/metrics/usage', usage(true));
+
+  // ── Rule stats: how often each enabled analyze rule fires across the sessions in scope ──
+  const ruleStats = (global: boolean): RequestHandler => (req, res) => {
+    const { tenantId } = scopeOf(req, res, global);
+    const sessions = sessionsIn(tenantId);
+    const fired = new Map<string, number>();
+    for (const s of sessions) {
+      for (const { rule } of analyzeSession(state, s)) fired.set(rule.ruleId, (fired.get(rule.ruleId) ?? 0) + 1);
+    }
+    res.json({
+      success: true,
+      rules: [...fired.entries()].map(([ruleId, fireCount]) => ({ ruleId, fireCount, hitRate: pct(fireCount, sessions.length) })),
+    });
+  };
+  app.get('/api/metrics/rule-stats', ruleStats(false));
+  app.get('/api/global/metrics/rule-stats', ruleStats(true));
+
+  // ── Audit ──
+  const auditLogs = (basePath: string, global: boolean): RequestHandler => (req, res) => {
+    const { q, tenantId } = scopeOf(req, res, global);
+    const from = q.dateFrom ? new Date(q.dateFrom).toISOString() : undefined;
+    const to = q.dateTo ? new Date(q.dateTo).toISOString() : undefined;
+    const logs = state.auditLogs.filter((l) =>
+      (!tenantId || l.tenantId === tenantId) &&
+      (!from || String(l.timestamp) >= from) &&
+      (!to || String(l.timestamp) <= to) &&
+      (q.excludeDeletions !== 'true' || l.action !== 'DELETE'));
+    const { page, nextLink } = paginate(logs, q, basePath, callerOf(res).tenantId, { defaultSize: 100, maxSize: 500 });
+    res.json({ success: true, count: page.length, logs: page, nextLink });
+  };
+  app.get('/api/audit/logs', auditLogs('/api/audit/logs', false));
+  app.get('/api/global/audit/logs', auditLogs('/api/global/audit/logs', true));
+
+  const distressInsights: RequestHandler = (_req, res) => {
+    res.json({ success: true, aggregated: [], totalRawReports: 0, dataQualityNotice: 'The mock backend receives no distress reports.' });
+  };
+  app.get('/api/audit/hardware-rejected', distressInsights);
+  app.get('/api/audit/device-not-registered', distressInsights);
+
+  // ── Session extras ──
+  app.get('/api/sessions/:sessionId/signals', (req, res) => {
+    const session = findSession(String(req.params.sessionId), tenantScope(callerOf(res), queryOf(req).tenantId));
+    res.json({ success: true, sessionId: session.sessionId, count: 0, truncated: false, signals: [] });
+  });
+
+  app.get('/api/sessions/:sessionId/decision-graph', (req, res) => {
+    const session = findSession(String(req.params.sessionId), tenantScope(callerOf(res), queryOf(req).tenantId));
+    res.json({
+      success: true,
+      truncated: false,
+      graph: { tenantId: session.tenantId, sessionId: session.sessionId, nodes: [], edges: [], reducerVersion: 'mock' },
+    });
+  });
+
+  app.get('/api/sessions/:sessionId/reducer-verification', (req, res) => {
+    const session = findSession(String(req.params.sessionId), tenantScope(callerOf(res), queryOf(req).tenantId));
+    res.json({ success: true, sessionId: session.sessionId, verified: true, mismatches: [] });
+  });
+
+  app.get('/api/sessions/:sessionId/vulnerability-report', (req, res) => {
+    findSession(String(req.params.sessionId), tenantScope(callerOf(res), queryOf(req).tenantId));
+    res.json({ success: true, report: null });
+  });
+
+  app.post('/api/sessions/:sessionId/report', (req, res) => {
+    const session = findSession(String(req.params.sessionId), tenantScope(callerOf(res), queryOf(req).tenantId));
+    res.json({ success: true, message: 'Report received (mock backend: not stored)', reportId: `mock-${session.sessionId}` });
+  });
+
+  app.get('/api/diagnostics/download-url', () => {
+    throw new MockHttpError(404, 'The mock backend holds no diagnostics packages');
+  });
+}
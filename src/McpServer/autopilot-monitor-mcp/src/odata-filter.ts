@@ -0,0 +1,718 @@
+/**
+ * Validating parser and builder for the OData `$filter` subset Azure Table Storage accepts.
+ *
+ * query_table forwards `filter` to Table Storage verbatim, and the mistakes a model makes there
+ * either come back as an opaque 400 (`Status == "Failed"`, `contains(...)`) or — worse — silently
+ * match nothing (`Sequence gt 5` against an Int64 column, `StartedAt ge '2026-01-01'`, a
+ * lower-cased column name). {@link prepareFilter} parses the expression, checks column names and
+ * literal types against table-schemas.ts, rewrites the common mistakes it can fix unambiguously
+ * (reporting each rewrite), and throws an {@link ODataFilterError} naming the position and the fix
+ * for the ones it cannot — all before anything reaches the backend.
+ *
+ * Supported: comparisons (eq ne gt ge lt le), and / or / not, parentheses, and string, integer,
+ * Int64 (`5L`), double, boolean, `datetime'…'` and `guid'…'` literals. Rewritten: symbolic
+ * operators (`==`, `!=`, `>=`, `&&`, …), upper-case keywords, double-quoted strings, bare or
+ * quoted ISO dates against DateTime columns, numeric/boolean strings, enum names for integer-coded
+ * columns (Severity 'Error' → 3), column-name case, `startswith(Col,'x')` (→ a key range),
+ * `Col in ('a','b')` (→ or-chain), bare boolean columns and literal-first comparisons.
+ *
+ * The same structured form ({@link FilterClause}) lets a caller skip OData syntax entirely, and
+ * {@link matchesFilter} evaluates a prepared expression against a row for endpoints that take no
+ * OData filter (query_raw_events filters its pages client-side).
+ */
+import { findTableSchema, SYSTEM_COLUMNS, type ColumnSchema, type EdmType, type TableSchema } from './table-schemas.js';
+
+/** A filter the validator rejected. The message names the position (or clause) and the fix. */
+export class ODataFilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ODataFilterError';
+  }
+}
+
+export type CompareOp = 'eq' | 'ne' | 'gt' | 'ge' | 'lt' | 'le';
+
+export type Literal =
+  | { type: 'String'; value: string }
+  | { type: 'Int32' | 'Int64' | 'Double'; value: number }
+  | { type: 'Boolean'; value: boolean }
+  | { type: 'DateTime'; value: string }
+  | { type: 'Guid'; value: string }
+  | { type: 'Binary'; value: string };
+
+export type FilterExpr =
+  | { kind: 'compare'; column: string; op: CompareOp; value: Literal }
+  | { kind: 'and' | 'or'; left: FilterExpr; right: FilterExpr }
+  | { kind: 'not'; operand: FilterExpr };
+
+/** One condition of the structured form; a `where` list is AND-ed. */
+export interface FilterClause {
+  column: string;
+  op: CompareOp | 'startsWith' | 'in';
+  /** A list for `in`; a string prefix for `startsWith`. */
+  value: string | number | boolean | Array<string | number | boolean>;
+}
+
+export interface PreparedFilter {
+  /** Normalized OData text, ready to send. */
+  filter: string;
+  expression: FilterExpr;
+  /** Human-readable note per rewrite applied, empty when the input was already valid as sent. */
+  rewrites: string[];
+  /** Canonical names of the columns the filter reads. */
+  columns: string[];
+}
+
+/** Azure Table Storage rejects filters with more discrete comparisons than this. */
+export const MAX_COMPARISONS = 15;
+
+const COMPARE_OPS: ReadonlySet<string> = new Set(['eq', 'ne', 'gt', 'ge', 'lt', 'le']);
+const SYMBOLIC_OPS: Record<string, CompareOp | 'and' | 'or' | 'not'> = {
+  '==': 'eq', '=': 'eq', '!=': 'ne', '<>': 'ne', '>': 'gt', '>=': 'ge', '<': 'lt', '<=': 'le',
+  '&&': 'and', '||': 'or', '!': 'not',
+};
+const FLIPPED: Record<CompareOp, CompareOp> = { eq: 'eq', ne: 'ne', gt: 'lt', ge: 'le', lt: 'gt', le: 'ge' };
+/** OData functions Table Storage does not implement, with what to do instead. */
+const UNSUPPORTED_FUNCTIONS: Record<string, string> = {
+  contains: 'there is no substring search — narrow by key or exact value and filter the rows yourself, or use search_events / search_sessions',
+  substringof: 'there is no substring search — narrow by key or exact value and filter the rows yourself, or use search_events / search_sessions',
+  endswith: 'there is no suffix match — filter the rows yourself',
+  tolower: 'comparisons are case-sensitive and cannot be case-folded — compare against the stored casing',
+  toupper: 'comparisons are case-sensitive and cannot be case-folded — compare against the stored casing',
+  length: 'there are no string functions',
+  indexof: 'there are no string functions',
+  substring: 'there are no string functions',
+  trim: 'there are no string functions',
+  year: 'compare against a datetime range instead, e.g. StartedAt ge datetime\'2026-01-01T00:00:00Z\' and StartedAt lt datetime\'2027-01-01T00:00:00Z\'',
+  month: 'compare against a datetime range instead',
+  day: 'compare against a datetime range instead',
+};
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?/;
+const GUID = /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/;
+const INT32_MIN = -2_147_483_648;
+const INT32_MAX = 2_147_483_647;
+
+// ── Tokenizer ────────────────────────────────────────────────
+
+type Token =
+  | { t: 'ident'; v: string; pos: number }
+  | { t: 'string'; v: string; quote: '\'' | '"'; pos: number }
+  | { t: 'typed'; prefix: 'datetime' | 'guid' | 'binary'; v: string; pos: number }
+  | { t: 'number'; raw: string; pos: number }
+  | { t: 'date'; v: string; pos: number }
+  | { t: 'op'; v: string; pos: number }
+  | { t: '(' | ')' | ','; pos: number }
+  | { t: 'end'; pos: number };
+
+/** Error with the input echoed and a caret under `pos`. */
+function syntaxError(input: string, pos: number, message: string): ODataFilterError {
+  return new ODataFilterError(`Invalid OData filter at position ${pos}: ${message}\n  ${input}\n  ${' '.repeat(pos)}^`);
+}
+
+function readQuoted(input: string, start: number): { value: string; end: number } {
+  const quote = input[start];
+  let value = '';
+  for (let i = start + 1; i < input.length; i++) {
+    if (input[i] !== quote) { value += input[i]; continue; }
+    if (input[i + 1] === quote) { value += quote; i++; continue; }
+    return { value, end: i + 1 };
+  }
+  throw syntaxError(input, start, `unterminated string literal — close it with ${quote}, and double an embedded quote ('O''Brien').`);
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < input.length) {
+    const c = input[i];
+    if (/\s/.test(c)) { i++; continue; }
+    if (c === '(' || c === ')' || c === ',') { tokens.push({ t: c, pos: i }); i++; continue; }
+    if (c === '\'' || c === '"') {
+      const { value, end } = readQuoted(input, i);
+      tokens.push({ t: 'string', v: value, quote: c, pos: i });
+      i = end;
+      continue;
+    }
+    const date = ISO_DATE.exec(input.slice(i));
+    if (date && !/[\w]/.test(input[i + date[0].length] ?? '')) {
+      tokens.push({ t: 'date', v: date[0], pos: i });
+      i += date[0].length;
+      continue;
+    }
+    const num = /^-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?[LlDdMmFf]?/.exec(input.slice(i));
+    if (num) {
+      tokens.push({ t: 'number', raw: num[0], pos: i });
+      i += num[0].length;
+      continue;
+    }
+    const ident = /^[A-Za-z_][A-Za-z0-9_]*/.exec(input.slice(i));
+    if (ident) {
+      const word = ident[0];
+      const next = i + word.length;
+      const prefix = word.toLowerCase();
+      if (input[next] === '\'' && ['datetime', 'datetimeoffset', 'guid', 'x', 'binary'].includes(prefix)) {
+        const { value, end } = readQuoted(input, next);
+        const kind = prefix.startsWith('datetime') ? 'datetime' : prefix === 'guid' ? 'guid' : 'binary';
+        tokens.push({ t: 'typed', prefix: kind, v: value, pos: i });
+        i = end;
+        continue;
+      }
+      tokens.push({ t: 'ident', v: word, pos: i });
+      i = next;
+      continue;
+    }
+    const op = ['==', '!=', '<>', '>=', '<=', '&&', '||', '=', '>', '<', '!'].find((o) => input.startsWith(o, i));
+    if (op) { tokens.push({ t: 'op', v: op, pos: i }); i += op.length; continue; }
+    throw syntaxError(input, i, `unexpected character "${c}".`);
+  }
+  tokens.push({ t: 'end', pos: input.length });
+  return tokens;
+}
+
+// ── Parser ───────────────────────────────────────────────────
+
+/** Parsed comparison before column/type resolution. `at` locates it for error messages. */
+type RawExpr =
+  /** `at` locates the column (unknown-column errors); `valueAt`, where known, the literal (type errors). */
+  | { kind: 'compare'; column: string; op: CompareOp; value: Literal; at: Locator; valueAt?: Locator }
+  | { kind: 'and' | 'or'; left: RawExpr; right: RawExpr }
+  | { kind: 'not'; operand: RawExpr };
+
+interface Locator {
+  /** Renders `message` with the location (caret or clause index). */
+  error(message: string): ODataFilterError;
+}
+
+class Parser {
+  private i = 0;
+  constructor(private readonly input: string, private readonly tokens: Token[], private readonly notes: Set<string>) {}
+
+  parse(): RawExpr {
+    const expr = this.orExpr();
+    const tok = this.peek();
+    if (tok.t !== 'end') throw this.fail(tok, `unexpected ${describeToken(tok)} — expected "and", "or" or the end of the filter.`);
+    return expr;
+  }
+
+  private peek(): Token { return this.tokens[this.i]; }
+  private next(): Token { return this.tokens[this.i++]; }
+  private fail(tok: Token, message: string): ODataFilterError { return syntaxError(this.input, tok.pos, message); }
+  private locator(pos: number): Locator { return { error: (m) => syntaxError(this.input, pos, m) }; }
+
+  /** The keyword a token stands for (and / or / not / a comparison operator), normalizing case and symbols. */
+  private keyword(tok: Token): string | undefined {
+    if (tok.t === 'op') {
+      const kw = SYMBOLIC_OPS[tok.v];
+      this.notes.add(`"${tok.v}" → "${kw}" (OData operators are words)`);
+      return kw;
+    }
+    if (tok.t !== 'ident') return undefined;
+    const lower = tok.v.toLowerCase();
+    if (!COMPARE_OPS.has(lower) && !['and', 'or', 'not', 'in'].includes(lower)) return undefined;
+    if (lower !== tok.v) this.notes.add(`"${tok.v}" → "${lower}" (OData keywords are lower-case)`);
+    return lower;
+  }
+
+  private orExpr(): RawExpr {
+    let left = this.andExpr();
+    while (this.keyword(this.peek()) === 'or') {
+      this.next();
+      left = { kind: 'or', left, right: this.andExpr() };
+    }
+    return left;
+  }
+
+  private andExpr(): RawExpr {
+    let left = this.unary();
+    while (this.keyword(this.peek()) === 'and') {
+      this.next();
+      left = { kind: 'and', left, right: this.unary() };
+    }
+    return left;
+  }
+
+  private unary(): RawExpr {
+    if (this.keyword(this.peek()) === 'not') {
+      this.next();
+      return { kind: 'not', operand: this.unary() };
+    }
+    return this.primary();
+  }
+
+  private primary(): RawExpr {
+    const tok = this.peek();
+    if (tok.t === '(') {
+      this.next();
+      const inner = this.orExpr();
+      const close = this.next();
+      if (close.t !== ')') throw this.fail(close, `expected ")" to close the "(" at position ${tok.pos}, found ${describeToken(close)}.`);
+      return inner;
+    }
+    if (tok.t === 'ident' && this.tokens[this.i + 1]?.t === '(') return this.call();
+    return this.comparison();
+  }
+
+  private call(): RawExpr {
+    const name = this.next() as Extract<Token, { t: 'ident' }>;
+    const fn = name.v.toLowerCase();
+    if (fn !== 'startswith') {
+      const advice = UNSUPPORTED_FUNCTIONS[fn];
+      throw this.fail(name, advice
+        ? `${name.v}() is not supported by Azure Table Storage: ${advice}.`
+        : `${name.v}() is not a supported function. Table Storage filters support only comparisons; startswith(Column,'prefix') is accepted and rewritten into a range.`);
+    }
+    this.next(); // (
+    const column = this.next();
+    if (column.t !== 'ident') throw this.fail(column, 'startswith() takes a column name first: startswith(Column,\'prefix\').');
+    const comma = this.next();
+    if (comma.t !== ',') throw this.fail(comma, 'expected "," — startswith(Column,\'prefix\').');
+    const prefixTok = this.next();
+    if (prefixTok.t !== 'string') throw this.fail(prefixTok, 'startswith() needs a quoted string prefix.');
+    this.noteQuote(prefixTok);
+    const close = this.next();
+    if (close.t !== ')') throw this.fail(close, 'expected ")" after the startswith() prefix.');
+    // A trailing "eq true" is redundant once the call is a range.
+    const value = this.tokens[this.i + 1];
+    if (this.keyword(this.peek()) === 'eq' && value?.t === 'ident' && value.v.toLowerCase() === 'true') this.i += 2;
+    return prefixRange(column.v, prefixTok.v, this.locator(name.pos), this.notes);
+  }
+
+  private comparison(): RawExpr {
+    const leftTok = this.peek();
+    const left = this.operand();
+    const opTok = this.peek();
+    const kw = this.keyword(opTok);
+
+    if (kw === 'in') {
+      if (left.kind !== 'column') throw this.fail(leftTok, '"in" needs a column on its left: Column in (\'a\',\'b\').');
+      this.next();
+      return this.inList(left.name, leftTok.pos);
+    }
+    if (!kw || !COMPARE_OPS.has(kw)) {
+      // A bare boolean column ("IsHybridJoin and …") means "eq true".
+      if (left.kind === 'column' && (opTok.t === 'end' || opTok.t === ')' || kw === 'and' || kw === 'or')) {
+        this.notes.add(`bare ${left.name} → "${left.name} eq true" (Table Storage needs an explicit comparison)`);
+        return { kind: 'compare', column: left.name, op: 'eq', value: { type: 'Boolean', value: true }, at: this.locator(leftTok.pos) };
+      }
+      throw this.fail(opTok, `expected a comparison operator (eq, ne, gt, ge, lt, le) after ${describeToken(leftTok)}, found ${describeToken(opTok)}.`);
+    }
+    this.next();
+    const rightTok = this.peek();
+    const right = this.operand();
+    const op = kw as CompareOp;
+
+    if (left.kind === 'column' && right.kind === 'literal') {
+      return { kind: 'compare', column: left.name, op, value: right.value, at: this.locator(leftTok.pos), valueAt: this.locator(rightTok.pos) };
+    }
+    if (left.kind === 'literal' && right.kind === 'column') {
+      this.notes.add(`literal-first comparison flipped to "${right.name} ${FLIPPED[op]} …"`);
+      return { kind: 'compare', column: right.name, op: FLIPPED[op], value: left.value, at: this.locator(rightTok.pos), valueAt: this.locator(leftTok.pos) };
+    }
+    if (left.kind === 'column') {
+      throw this.fail(rightTok, `Table Storage cannot compare two columns (${left.name} ${op} ${describeToken(rightTok)}) — compare a column against a literal.`);
+    }
+    throw this.fail(leftTok, 'a comparison needs a column name on one side.');
+  }
+
+  private inList(column: string, pos: number): RawExpr {
+    const open = this.next();
+    if (open.t !== '(') throw this.fail(open, `expected "(" after "in" — ${column} in ('a','b').`);
+    const values: Array<{ value: Literal; pos: number }> = [];
+    for (;;) {
+      const tok = this.peek();
+      const operand = this.operand();
+      if (operand.kind !== 'literal') throw this.fail(tok, '"in" lists take literals only.');
+      values.push({ value: operand.value, pos: tok.pos });
+      const sep = this.next();
+      if (sep.t === ')') break;
+      if (sep.t !== ',') throw this.fail(sep, 'expected "," or ")" in the "in" list.');
+    }
+    this.notes.add(`"${column} in (…)" → or-chain of "eq" comparisons (Table Storage has no "in")`);
+    const at = this.locator(pos);
+    return values
+      .map(({ value, pos: valuePos }): RawExpr => ({ kind: 'compare', column, op: 'eq', value, at, valueAt: this.locator(valuePos) }))
+      .reduce((left, right) => ({ kind: 'or', left, right }));
+  }
+
+  private operand(): { kind: 'column'; name: string } | { kind: 'literal'; value: Literal } {
+    const tok = this.next();
+    switch (tok.t) {
+      case 'ident': {
+        const lower = tok.v.toLowerCase();
+        if (lower === 'true' || lower === 'false') return { kind: 'literal', value: { type: 'Boolean', value: lower === 'true' } };
+        if (lower === 'null') {
+          throw this.fail(tok, 'Table Storage does not support null comparisons — an entity without the property never matches a comparison on it. Filter on a property every row has, then check the column in the returned rows.');
+        }
+        if (this.keyword(tok)) throw this.fail(tok, `expected a column or a literal, found the keyword "${tok.v}".`);
+        return { kind: 'column', name: tok.v };
+      }
+      case 'string':
+        this.noteQuote(tok);
+        return { kind: 'literal', value: { type: 'String', value: tok.v } };
+      case 'number':
+        return { kind: 'literal', value: this.number(tok) };
+      case 'date':
+        this.notes.add(`unquoted date ${tok.v} → datetime'…' literal`);
+        return { kind: 'literal', value: { type: 'DateTime', value: normalizeDate(tok.v, this.locator(tok.pos), this.notes) } };
+      case 'typed':
+        return { kind: 'literal', value: this.typed(tok) };
+      default:
+        throw this.fail(tok, `expected a column or a literal, found ${describeToken(tok)}.`);
+    }
+  }
+
+  private noteQuote(tok: Extract<Token, { t: 'string' }>): void {
+    if (tok.quote === '"') this.notes.add('double-quoted strings → single quotes (OData string literals use \'…\')');
+  }
+
+  private number(tok: Extract<Token, { t: 'number' }>): Literal {
+    const suffix = tok.raw.slice(-1).toLowerCase();
+    const body = /[ldmf]/.test(suffix) ? tok.raw.slice(0, -1) : tok.raw;
+    const value = Number(body);
+    if (suffix === 'l') {
+      if (!Number.isInteger(value)) throw this.fail(tok, `${tok.raw} is not an integer — the L suffix marks an Int64.`);
+      return { type: 'Int64', value };
+    }
+    if (/[dmf]/.test(suffix) || /[.eE]/.test(body)) return { type: 'Double', value };
+    if (!Number.isSafeInteger(value)) throw this.fail(tok, `${tok.raw} is outside the exactly representable integer range.`);
+    return { type: value < INT32_MIN || value > INT32_MAX ? 'Int64' : 'Int32', value };
+  }
+
+  private typed(tok: Extract<Token, { t: 'typed' }>): Literal {
+    if (tok.prefix === 'datetime') return { type: 'DateTime', value: normalizeDate(tok.v, this.locator(tok.pos), this.notes) };
+    if (tok.prefix === 'guid') {
+      if (!GUID.test(tok.v)) throw this.fail(tok, `guid'${tok.v}' is not a GUID (8-4-4-4-12 hex digits).`);
+      return { type: 'Guid', value: tok.v };
+    }
+    if (!/^(?:[0-9a-fA-F]{2})*$/.test(tok.v)) throw this.fail(tok, `X'${tok.v}' is not an even-length hex string.`);
+    return { type: 'Binary', value: tok.v };
+  }
+}
+
+function describeToken(tok: Token): string {
+  switch (tok.t) {
+    case 'end': return 'the end of the filter';
+    case 'ident': return `"${tok.v}"`;
+    case 'string': return `the string '${tok.v}'`;
+    case 'number': return `the number ${tok.raw}`;
+    case 'date': return `the date ${tok.v}`;
+    case 'typed': return `the ${tok.prefix} literal`;
+    case 'op': return `"${tok.v}"`;
+    default: return `"${tok.t}"`;
+  }
+}
+
+/** Full UTC ISO form Table Storage expects; date-only and zone-less inputs are completed. */
+function normalizeDate(raw: string, at: Locator, notes: Set<string>): string {
+  const m = ISO_DATE.exec(raw);
+  if (!m || m[0] !== raw || Number.isNaN(Date.parse(raw))) {
+    throw at.error(`"${raw}" is not an ISO 8601 date/time — use datetime'2026-01-15T00:00:00Z'.`);
+  }
+  let full = raw.includes('T') ? raw : `${raw}T00:00:00`;
+  if (/T\d{2}:\d{2}$/.test(full)) full += ':00';
+  if (!/(?:Z|[+-]\d{2}:?\d{2})$/.test(full)) {
+    full += 'Z';
+    notes.add(`datetime without a time zone read as UTC (${full})`);
+  }
+  return new Date(Date.parse(full)).toISOString().replace('.000Z', 'Z');
+}
+
+/** startswith(Column,'abc') as the key range Column ge 'abc' and Column lt 'abd'. */
+function prefixRange(column: string, prefix: string, at: Locator, notes: Set<string>): RawExpr {
+  if (prefix.length === 0) throw at.error('startswith() with an empty prefix matches everything — drop the condition.');
+  const upper = prefix.slice(0, -1) + String.fromCharCode(prefix.charCodeAt(prefix.length - 1) + 1);
+  notes.add(`startswith(${column},'${prefix}') → "${column} ge '${prefix}' and ${column} lt '${upper}'" (Table Storage has no startswith)`);
+  return {
+    kind: 'and',
+    left: { kind: 'compare', column, op: 'ge', value: { type: 'String', value: prefix }, at },
+    right: { kind: 'compare', column, op: 'lt', value: { type: 'String', value: upper }, at },
+  };
+}
+
+// ── Structured form ──────────────────────────────────────────
+
+function clauseLiteral(value: string | number | boolean): Literal {
+  if (typeof value === 'boolean') return { type: 'Boolean', value };
+  if (typeof value === 'number') {
+    if (!Number.isInteger(value)) return { type: 'Double', value };
+    return { type: value < INT32_MIN || value > INT32_MAX ? 'Int64' : 'Int32', value };
+  }
+  return { type: 'String', value };
+}
+
+function fromClauses(where: FilterClause[], notes: Set<string>): RawExpr {
+  const exprs = where.map((clause, n): RawExpr => {
+    const at: Locator = { error: (m) => new ODataFilterError(`Invalid where[${n}] (${clause.column} ${clause.op}): ${m}`) };
+    const { column, op, value } = clause;
+    if (op === 'in') {
+      const values = Array.isArray(value) ? value : [value];
+      if (values.length === 0) throw at.error('"in" needs at least one value.');
+      return values
+        .map((v): RawExpr => ({ kind: 'compare', column, op: 'eq', value: clauseLiteral(v), at }))
+        .reduce((left, right) => ({ kind: 'or', left, right }));
+    }
+    if (Array.isArray(value)) throw at.error(`a list value needs op "in", not "${op}".`);
+    if (op === 'startsWith') {
+      if (typeof value !== 'string') throw at.error('startsWith needs a string prefix.');
+      return prefixRange(column, value, at, notes);
+    }
+    return { kind: 'compare', column, op, value: clauseLiteral(value), at };
+  });
+  return exprs.reduce((left, right) => ({ kind: 'and', left, right }));
+}
+
+// ── Column + type resolution ─────────────────────────────────
+
+interface Resolver {
+  table?: { name: string; schema: TableSchema };
+  notes: Set<string>;
+  columns: Set<string>;
+}
+
+function resolveColumn(name: string, at: Locator, r: Resolver): { name: string; column?: ColumnSchema } {
+  const known: Record<string, ColumnSchema> = { ...SYSTEM_COLUMNS, ...r.table?.schema.columns };
+  if (known[name]) return { name, column: known[name] };
+  const caseMatch = Object.keys(known).find((c) => c.toLowerCase() === name.toLowerCase());
+  if (caseMatch) {
+    r.notes.add(`${name} → ${caseMatch} (column names are case-sensitive)`);
+    return { name: caseMatch, column: known[caseMatch] };
+  }
+  if (!r.table) return { name };
+  const dynamic = r.table.schema.dynamicPrefixes?.find((p) => name.startsWith(p));
+  if (dynamic) return { name, column: { type: 'String' } };
+  const lower = name.toLowerCase();
+  const suggestions = Object.keys(known)
+    .filter((c) => c.toLowerCase().includes(lower) || lower.includes(c.toLowerCase()) || editDistance(c.toLowerCase(), lower) <= 2)
+    .slice(0, 5);
+  const hint = suggestions.length > 0 ? ` Did you mean: ${suggestions.join(', ')}?` : '';
+  throw at.error(`${r.table.name} has no column "${name}".${hint} Columns: ${Object.keys(known).join(', ')}.`);
+}
+
+function editDistance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+const describeLiteral = (l: Literal) => (l.type === 'String' ? `'${l.value}'` : literalText(l));
+
+/** Converts `lit` to the column's EDM type where that is unambiguous; throws where it is not. */
+function coerce(column: string, schema: ColumnSchema | undefined, op: CompareOp, lit: Literal, at: Locator, notes: Set<string>): Literal {
+  if (!schema) return lit;
+  const want = schema.type;
+  if (lit.type === want) return lit;
+  const rewrite = (to: Literal, why: string): Literal => {
+    notes.add(`${column} ${describeLiteral(lit)} → ${describeLiteral(to)} (${why})`);
+    return to;
+  };
+  const mismatch = () => at.error(`${column} is ${withArticle(want)} column; ${describeLiteral(lit)} is ${withArticle(lit.type)}. ${literalExample(column, want, schema, op, lit)}`);
+
+  switch (want) {
+    case 'String':
+      if (lit.type === 'Int32' || lit.type === 'Int64' || lit.type === 'Double') return rewrite({ type: 'String', value: String(lit.value) }, `${column} is stored as a string`);
+      if (lit.type === 'Guid') return rewrite({ type: 'String', value: lit.value }, `${column} is stored as a string, not a Guid`);
+      throw mismatch();
+    case 'Int32':
+    case 'Int64': {
+      if (lit.type === 'Int32' || lit.type === 'Int64') {
+        if (want === 'Int32' && (lit.value < INT32_MIN || lit.value > INT32_MAX)) throw at.error(`${lit.value} is outside ${column}'s Int32 range.`);
+        return want === 'Int64'
+          ? rewrite({ type: 'Int64', value: lit.value }, `${column} is an Int64 — without the L suffix it would match nothing`)
+          : { type: 'Int32', value: lit.value };
+      }
+      if (lit.type === 'Double' && Number.isInteger(lit.value)) return rewrite({ type: want, value: lit.value }, `${column} is an integer column`);
+      if (lit.type === 'String') {
+        const trimmed = lit.value.trim();
+        if (/^-?\d+$/.test(trimmed)) return rewrite({ type: want, value: Number(trimmed) }, `${column} is an integer column`);
+        const named = schema.enumValues && Object.entries(schema.enumValues).find(([k]) => k.toLowerCase() === trimmed.toLowerCase().replace(/[\s_]/g, ''));
+        if (named) return rewrite({ type: want, value: named[1] }, `${column} is stored as an integer code`);
+        if (schema.enumValues) {
+          throw at.error(`${column} is an integer code; '${lit.value}' is not one of ${Object.entries(schema.enumValues).map(([k, v]) => `${k}=${v}`).join(', ')}.`);
+        }
+      }
+      throw mismatch();
+    }
+    case 'Double':
+      if (lit.type === 'Int32' || lit.type === 'Int64') return { type: 'Double', value: lit.value };
+      if (lit.type === 'String' && /^-?\d+(?:\.\d+)?$/.test(lit.value.trim())) return rewrite({ type: 'Double', value: Number(lit.value) }, `${column} is a Double column`);
+      throw mismatch();
+    case 'Boolean':
+      if (lit.type === 'String' && /^(true|false)$/i.test(lit.value.trim())) return rewrite({ type: 'Boolean', value: lit.value.trim().toLowerCase() === 'true' }, `${column} is a Boolean column`);
+      if ((lit.type === 'Int32' || lit.type === 'Int64') && (lit.value === 0 || lit.value === 1)) return rewrite({ type: 'Boolean', value: lit.value === 1 }, `${column} is a Boolean column`);
+      throw mismatch();
+    case 'DateTime':
+      if (lit.type === 'String' && ISO_DATE.test(lit.value.trim())) {
+        return rewrite({ type: 'DateTime', value: normalizeDate(lit.value.trim(), at, notes) }, `${column} is a DateTime — a quoted date compares as a string and matches nothing`);
+      }
+      throw mismatch();
+    case 'Guid':
+      if (lit.type === 'String' && GUID.test(lit.value.trim())) return rewrite({ type: 'Guid', value: lit.value.trim() }, `${column} is a Guid column`);
+      throw mismatch();
+  }
+}
+
+const withArticle = (type: string) => `${/^[AEIOU]/i.test(type) ? 'an' : 'a'} ${type}`;
+
+/**
+ * The integer an integer column needs in place of a fractional literal, rounded the way that keeps
+ * the comparison's meaning: `gt 100.5` is `gt 100`, `ge 100.5` is `ge 101`. eq / ne can never hold
+ * exactly, so they get the nearest integer.
+ */
+function integerFor(op: CompareOp, value: number): number {
+  switch (op) {
+    case 'gt':
+    case 'le': return Math.floor(value);
+    case 'ge':
+    case 'lt': return Math.ceil(value);
+    default: return Math.round(value);
+  }
+}
+
+function literalExample(column: string, type: EdmType, schema: ColumnSchema, op: CompareOp, lit: Literal): string {
+  const integer = lit.type === 'Double' ? integerFor(op, lit.value) : 5;
+  switch (type) {
+    case 'String': return `Quote it: ${column} eq 'value'.`;
+    case 'Int32': return schema.enumValues ? `Use the integer code, e.g. ${column} eq ${Object.values(schema.enumValues)[2] ?? 1}.` : `Use an integer: ${column} ${lit.type === 'Double' ? op : 'gt'} ${integer}.`;
+    case 'Int64': return `Use an Int64 literal: ${column} ${lit.type === 'Double' ? op : 'gt'} ${integer}L.`;
+    case 'Double': return `Use a number: ${column} gt 0.5.`;
+    case 'Boolean': return `Use ${column} eq true / false.`;
+    case 'DateTime': return `Use ${column} ge datetime'2026-01-15T00:00:00Z'.`;
+    case 'Guid': return `Use ${column} eq guid'00000000-0000-0000-0000-000000000000'.`;
+  }
+}
+
+function resolve(expr: RawExpr, r: Resolver): FilterExpr {
+  switch (expr.kind) {
+    case 'compare': {
+      const { name, column } = resolveColumn(expr.column, expr.at, r);
+      r.columns.add(name);
+      if (expr.value.type === 'Binary' && column && column.type !== 'String') throw expr.at.error(`${name} is not a binary column.`);
+      return { kind: 'compare', column: name, op: expr.op, value: coerce(name, column, expr.op, expr.value, expr.valueAt ?? expr.at, r.notes) };
+    }
+    case 'not':
+      return { kind: 'not', operand: resolve(expr.operand, r) };
+    default:
+      return { kind: expr.kind, left: resolve(expr.left, r), right: resolve(expr.right, r) };
+  }
+}
+
+// ── Serialization ────────────────────────────────────────────
+
+export function literalText(l: Literal): string {
+  switch (l.type) {
+    case 'String': return `'${l.value.replace(/'/g, '\'\'')}'`;
+    case 'Int32': return String(l.value);
+    case 'Int64': return `${l.value}L`;
+    case 'Double': return Number.isInteger(l.value) ? `${l.value}.0` : String(l.value);
+    case 'Boolean': return String(l.value);
+    case 'DateTime': return `datetime'${l.value}'`;
+    case 'Guid': return `guid'${l.value}'`;
+    case 'Binary': return `X'${l.value}'`;
+  }
+}
+
+const PRECEDENCE = { or: 1, and: 2, not: 3, compare: 4 } as const;
+
+export function serializeFilter(expr: FilterExpr): string {
+  const wrap = (child: FilterExpr, parent: number) => {
+    const text = serializeFilter(child);
+    return PRECEDENCE[child.kind] < parent ? `(${text})` : text;
+  };
+  switch (expr.kind) {
+    case 'compare': return `${expr.column} ${expr.op} ${literalText(expr.value)}`;
+    case 'not': return `not (${serializeFilter(expr.operand)})`;
+    default: return `${wrap(expr.left, PRECEDENCE[expr.kind])} ${expr.kind} ${wrap(expr.right, PRECEDENCE[expr.kind])}`;
+  }
+}
+
+function countComparisons(expr: FilterExpr): number {
+  if (expr.kind === 'compare') return 1;
+  if (expr.kind === 'not') return countComparisons(expr.operand);
+  return countComparisons(expr.left) + countComparisons(expr.right);
+}
+
+// ── Entry points ─────────────────────────────────────────────
+
+/**
+ * Validates and normalizes an OData `filter` and/or structured `where` clauses (AND-ed together)
+ * for `table`. Unlisted tables get syntax and literal checks but no column check. Returns
+ * undefined when neither is given; throws {@link ODataFilterError} for anything unfixable.
+ */
+export function prepareFilter(input: { table: string; filter?: string; where?: FilterClause[] }): PreparedFilter | undefined {
+  const notes = new Set<string>();
+  const parts: RawExpr[] = [];
+  const text = input.filter?.trim();
+  if (text) parts.push(new Parser(text, tokenize(text), notes).parse());
+  if (input.where && input.where.length > 0) parts.push(fromClauses(input.where, notes));
+  if (parts.length === 0) return undefined;
+
+  const resolver: Resolver = { table: findTableSchema(input.table), notes, columns: new Set() };
+  const expression = resolve(parts.reduce((left, right) => ({ kind: 'and', left, right })), resolver);
+  const comparisons = countComparisons(expression);
+  if (comparisons > MAX_COMPARISONS) {
+    throw new ODataFilterError(
+      `Filter has ${comparisons} comparisons (after expanding in/startswith); Azure Table Storage allows at most ${MAX_COMPARISONS}. ` +
+      'Split it into several queries or narrow with partitionKey / rowKeyPrefix.',
+    );
+  }
+  return { filter: serializeFilter(expression), expression, rewrites: [...notes], columns: [...resolver.columns] };
+}
+
+function compareValues(actual: unknown, lit: Literal): number | undefined {
+  if (actual === undefined || actual === null) return undefined;
+  switch (lit.type) {
+    case 'Int32':
+    case 'Int64':
+    case 'Double': {
+      const n = typeof actual === 'number' ? actual : Number(actual);
+      return Number.isNaN(n) ? undefined : Math.sign(n - lit.value);
+    }
+    case 'Boolean': {
+      const b = typeof actual === 'boolean' ? actual : String(actual).toLowerCase() === 'true';
+      return b === lit.value ? 0 : b ? 1 : -1;
+    }
+    case 'DateTime': {
+      const t = Date.parse(String(actual));
+      return Number.isNaN(t) ? undefined : Math.sign(t - Date.parse(lit.value));
+    }
+    case 'Guid': {
+      const a = String(actual).toLowerCase();
+      const b = lit.value.toLowerCase();
+      return a === b ? 0 : a < b ? -1 : 1;
+    }
+    default: {
+      const a = String(actual);
+      return a === lit.value ? 0 : a < lit.value ? -1 : 1;
+    }
+  }
+}
+
+/**
+ * Evaluates a prepared expression against one row, with Table Storage semantics: ordinal string
+ * comparison, and a comparison on a property the row lacks is false.
+ */
+export function matchesFilter(expr: FilterExpr, row: Record<string, unknown>): boolean {
+  switch (expr.kind) {
+    case 'and': return matchesFilter(expr.left, row) && matchesFilter(expr.right, row);
+    case 'or': return matchesFilter(expr.left, row) || matchesFilter(expr.right, row);
+    case 'not': return !matchesFilter(expr.operand, row);
+    case 'compare': {
+      const c = compareValues(row[expr.column], expr.value);
+      if (c === undefined) return false;
+      switch (expr.op) {
+        case 'eq': return c === 0;
+        case 'ne': return c !== 0;
+        case 'gt': return c > 0;
+        case 'ge': return c >= 0;
+        case 'lt': return c < 0;
+        case 'le': return c <= 0;
+      }
+    }
+  }
+}
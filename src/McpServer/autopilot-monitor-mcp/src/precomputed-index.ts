@@ -100,3 +100,18 @@ export function validatePrecomputedIndex(
   if (etError) return { ok: false, reason: etError };
   return { ok: true, knowledgeBase: file.knowledgeBase!.entries, eventTypes: file.eventTypes!.entries };
 }
+
+/**
+ * Embeddings from a precomputed file that FAILED validation only because the corpus changed, for
+ * seeding the content-hash embedding cache: unchanged rule text then reuses its build-time vector
+ * and only the edited documents are embedded at boot. Model mismatch or malformed entries yield
+ * nothing — vectors from another model are never reused.
+ */
+export function seedableEntries(parsed: unknown, expectedModel: string): PrecomputedDocument[] {
+  if (parsed === null || typeof parsed !== 'object') return [];
+  const file = parsed as Partial<PrecomputedIndexFile>;
+  if (file.model !== expectedModel) return [];
+  return [file.knowledgeBase?.entries, file.eventTypes?.entries]
+    .flatMap((entries) => (Array.isArray(entries) ? entries : []))
+    .filter((e) => typeof e?.text === 'string' && Array.isArray(e.embedding) && e.embedding.length > 0);
+}
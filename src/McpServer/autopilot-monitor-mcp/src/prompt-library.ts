@@ -0,0 +1,386 @@
+/**
+ * Declarative MCP prompt library: every prompt the server offers is a YAML or JSON file in
+ * PROMPTS_DIR — name, version, typed arguments, GA-only / tenant-specific visibility, and a
+ * templated intro, tool-plan steps and report paragraph. Adding a playbook (e.g. "hybrid join
+ * triage") is a new file, not a code change; prompts.ts turns the definitions into MCP prompts.
+ *
+ * Every file is validated against prompts/schema/prompt.schema.json, and then semantically: unique
+ * names, well-formed templates that only reference declared arguments (or the built-in `ga`
+ * flag), sane argument constraints. One bad file fails the whole load with every problem listed —
+ * at startup that stops the server; during a hot reload (watchPromptLibrary) the current library
+ * stays in place, so a half-saved file never removes prompts.
+ *
+ * Templates are a small mustache subset: {{arg}} inserts a value (the argument's default when the
+ * caller omitted it), {{#arg}}…{{/arg}} renders only when arg is set (non-empty and not "false"),
+ * {{^arg}}…{{/arg}} only when it is not. Sections nest. Values are inserted verbatim.
+ */
+import { readdirSync, readFileSync, watch, type FSWatcher } from 'node:fs';
+import { extname, join } from 'node:path';
+import { Ajv2020, type ErrorObject, type ValidateFunction } from 'ajv/dist/2020.js';
+import { parse as parseYaml } from 'yaml';
+import { PROMPTS_DIR } from './config.js';
+
+export type PromptArgumentType = 'string' | 'integer' | 'boolean' | 'enum';
+
+export interface PromptArgumentDef {
+  name: string;
+  type: PromptArgumentType;
+  required: boolean;
+  description: string;
+  gaDescription?: string;
+  default?: string | number | boolean;
+  pattern?: string;
+  min?: number;
+  max?: number;
+  values?: string[];
+}
+
+export interface PromptStepDef {
+  text: string;
+  tools: string[];
+  gaOnly: boolean;
+}
+
+export interface PromptDef {
+  name: string;
+  version: number;
+  title: string;
+  description: string;
+  gaOnly: boolean;
+  /** Lowercased; undefined = offered to every tenant. */
+  tenantIds?: string[];
+  arguments: PromptArgumentDef[];
+  intro: string;
+  steps: PromptStepDef[];
+  report?: string;
+  /** File name within the library folder. */
+  file: string;
+}
+
+export interface PromptLibrary {
+  dir: string;
+  /** Sorted by name. */
+  prompts: PromptDef[];
+}
+
+/** A library folder that failed validation; `problems` holds one "file: path: message" line each. */
+export class PromptLibraryError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid prompt library (${problems.length} problem${problems.length === 1 ? '' : 's'}):\n  ${problems.join('\n  ')}`);
+    this.name = 'PromptLibraryError';
+  }
+}
+
+const PROMPT_EXTENSIONS = new Set(['.yaml', '.yml', '.json']);
+const SCHEMA_FILE = join('schema', 'prompt.schema.json');
+/** Template flag every prompt may test without declaring it: the caller has platform scope. */
+const BUILTIN_FLAGS = new Set(['ga']);
+
+// ── Templates ────────────────────────────────────────────────────────────────
+
+type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'value'; name: string }
+  | { kind: 'section'; name: string; inverted: boolean; children: TemplateNode[] };
+
+const TAG = /\{\{\s*([#^/]?)\s*([A-Za-z][A-Za-z0-9]*)\s*\}\}/g;
+
+/** Parse a template into a node tree; throws on unbalanced or mismatched sections. */
+export function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: Array<{ name: string; children: TemplateNode[] }> = [{ name: '', children: root }];
+  let last = 0;
+  for (const match of source.matchAll(TAG)) {
+    const [tag, sigil, name] = match;
+    const top = stack[stack.length - 1];
+    if (match.index > last) top.children.push({ kind: 'text', text: source.slice(last, match.index) });
+    last = match.index + tag.length;
+    if (sigil === '#' || sigil === '^') {
+      const children: TemplateNode[] = [];
+      top.children.push({ kind: 'section', name, inverted: sigil === '^', children });
+      stack.push({ name, children });
+    } else if (sigil === '/') {
+      if (stack.length === 1 || top.name !== name) {
+        throw new Error(`{{/${name}}} closes ${stack.length === 1 ? 'no open section' : `{{#${top.name}}}`}`);
+      }
+      stack.pop();
+    } else {
+      top.children.push({ kind: 'value', name });
+    }
+  }
+  if (stack.length > 1) throw new Error(`{{#${stack[stack.length - 1].name}}} is never closed`);
+  if (last < source.length) root.push({ kind: 'text', text: source.slice(last) });
+  return root;
+}
+
+function templateNames(nodes: TemplateNode[], out = new Set<string>()): Set<string> {
+  for (const node of nodes) {
+    if (node.kind === 'value') out.add(node.name);
+    if (node.kind === 'section') {
+      out.add(node.name);
+      templateNames(node.children, out);
+    }
+  }
+  return out;
+}
+
+const isSet = (value: string | undefined) => value !== undefined && value !== '' && value.toLowerCase() !== 'false';
+
+function renderNodes(nodes: TemplateNode[], values: Record<string, string | undefined>): string {
+  let out = '';
+  for (const node of nodes) {
+    if (node.kind === 'text') out += node.text;
+    else if (node.kind === 'value') out += values[node.name] ?? '';
+    else if (isSet(values[node.name]) !== node.inverted) out += renderNodes(node.children, values);
+  }
+  return out;
+}
+
+export function renderTemplate(source: string, values: Record<string, string | undefined>): string {
+  return renderNodes(parseTemplate(source), values);
+}
+
+// ── Rendering ────────────────────────────────────────────────────────────────
+
+/**
+ * The prompt text for one invocation: intro, the numbered tool plan (GA-only steps dropped for
+ * other callers), then the report paragraph. Omitted arguments take their declared default.
+ */
+export function renderPrompt(def: PromptDef, args: Record<string, string | undefined>, ga: boolean): string {
+  const values: Record<string, string | undefined> = { ga: ga ? 'true' : undefined };
+  for (const arg of def.arguments) {
+    const given = args[arg.name];
+    values[arg.name] = given !== undefined && given !== '' ? given : arg.default === undefined ? undefined : String(arg.default);
+  }
+  const steps = def.steps
+    .filter((s) => ga || !s.gaOnly)
+    .map((s, i) => `${i + 1}. ${renderTemplate(s.text, values).trim()}`);
+  return [
+    renderTemplate(def.intro, values).trim(),
+    steps.join('\n'),
+    def.report ? renderTemplate(def.report, values).trim() : '',
+  ].filter(Boolean).join('\n\n');
+}
+
+// ── Loading ──────────────────────────────────────────────────────────────────
+
+const validators = new Map<string, ValidateFunction>();
+
+function promptValidator(dir: string): ValidateFunction {
+  const cached = validators.get(dir);
+  if (cached) return cached;
+  const schema = JSON.parse(readFileSync(join(dir, SCHEMA_FILE), 'utf-8')) as object;
+  // strict=false tolerates the editor-only annotations (defaults, descriptions on $defs).
+  const validator = new Ajv2020({ allErrors: true, strict: false }).compile(schema);
+  validators.set(dir, validator);
+  return validator;
+}
+
+function formatSchemaError(file: string, e: ErrorObject): string {
+  const at = e.instancePath || '(prompt)';
+  if (e.keyword === 'additionalProperties') {
+    return `${file}: ${at}: unknown property "${String((e.params as { additionalProperty?: string }).additionalProperty)}"`;
+  }
+  if (e.keyword === 'enum') {
+    return `${file}: ${at}: ${e.message} (${((e.params as { allowedValues?: unknown[] }).allowedValues ?? []).join(', ')})`;
+  }
+  return `${file}: ${at}: ${e.message ?? e.keyword}`;
+}
+
+type RawPrompt = Omit<PromptDef, 'file' | 'arguments' | 'steps' | 'gaOnly'> & {
+  gaOnly?: boolean;
+  arguments?: Array<Omit<PromptArgumentDef, 'type' | 'required'> & { type?: PromptArgumentType; required?: boolean }>;
+  steps?: Array<{ text: string; tools?: string[]; gaOnly?: boolean }>;
+};
+
+/** Semantic checks the schema cannot express. Returns problem lines; empty = valid. */
+function checkPrompt(file: string, def: PromptDef): string[] {
+  const problems: string[] = [];
+  const declared = new Set<string>();
+  for (const arg of def.arguments) {
+    const at = `${file}: argument "${arg.name}"`;
+    if (BUILTIN_FLAGS.has(arg.name)) problems.push(`${at}: "${arg.name}" is reserved for the built-in flag`);
+    if (declared.has(arg.name)) problems.push(`${at}: declared twice`);
+    declared.add(arg.name);
+    if (arg.type === 'enum' && !arg.values) problems.push(`${at}: an enum argument needs values`);
+    if (arg.type !== 'enum' && arg.values) problems.push(`${at}: values only apply to enum arguments`);
+    if (arg.type !== 'integer' && (arg.min !== undefined || arg.max !== undefined)) problems.push(`${at}: min/max only apply to integer arguments`);
+    if (arg.min !== undefined && arg.max !== undefined && arg.min > arg.max) problems.push(`${at}: min is greater than max`);
+    if (arg.pattern !== undefined) {
+      if (arg.type !== 'string') problems.push(`${at}: pattern only applies to string arguments`);
+      try {
+        new RegExp(arg.pattern);
+      } catch (err) {
+        problems.push(`${at}: invalid pattern (${err instanceof Error ? err.message : String(err)})`);
+      }
+    }
+    if (arg.required && arg.default !== undefined) problems.push(`${at}: a required argument cannot have a default`);
+    if (arg.default !== undefined) {
+      const problem = checkArgumentValue(arg, String(arg.default));
+      if (problem) problems.push(`${at}: default ${problem}`);
+    }
+  }
+  const templates: Array<[string, string]> = [['intro', def.intro], ...def.steps.map((s, i): [string, string] => [`steps/${i}`, s.text])];
+  if (def.report !== undefined) templates.push(['report', def.report]);
+  for (const [where, source] of templates) {
+    try {
+      for (const name of templateNames(parseTemplate(source))) {
+        if (!declared.has(name) && !BUILTIN_FLAGS.has(name)) problems.push(`${file}: ${where}: {{${name}}} is not a declared argument`);
+      }
+    } catch (err) {
+      problems.push(`${file}: ${where}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * Validate one wire value (MCP prompt arguments are always strings) against its declaration.
+ * Returns a problem description, or null when the value is acceptable. Shared by the load-time
+ * default check and the argument schemas prompts.ts builds.
+ */
+export function checkArgumentValue(arg: PromptArgumentDef, value: string): string | null {
+  switch (arg.type) {
+    case 'integer': {
+      if (!/^-?\d+$/.test(value)) return 'must be an integer';
+      const n = Number(value);
+      if (arg.min !== undefined && n < arg.min) return `must be at least ${arg.min}`;
+      if (arg.max !== undefined && n > arg.max) return `must be at most ${arg.max}`;
+      return null;
+    }
+    case 'boolean':
+      return value === 'true' || value === 'false' ? null : 'must be "true" or "false"';
+    case 'enum':
+      return arg.values?.includes(value) ? null : `must be one of ${(arg.values ?? []).join(', ')}`;
+    default:
+      return arg.pattern !== undefined && !new RegExp(arg.pattern).test(value) ? `must match ${arg.pattern}` : null;
+  }
+}
+
+function normalize(file: string, raw: RawPrompt): PromptDef {
+  return {
+    name: raw.name,
+    version: raw.version,
+    title: raw.title,
+    description: raw.description.trim(),
+    gaOnly: raw.gaOnly ?? false,
+    tenantIds: raw.tenantIds?.map((t) => t.toLowerCase()),
+    arguments: (raw.arguments ?? []).map((a) => ({ ...a, type: a.type ?? 'string', required: a.required ?? false })),
+    intro: raw.intro,
+    steps: (raw.steps ?? []).map((s) => ({ text: s.text, tools: s.tools ?? [], gaOnly: s.gaOnly ?? false })),
+    report: raw.report,
+    file,
+  };
+}
+
+/**
+ * Load and validate every prompt file in `dir`. Throws PromptLibraryError listing all problems
+ * (parse errors, schema violations, semantic errors, duplicate names) when any file is invalid.
+ */
+export function loadPromptLibrary(dir: string = PROMPTS_DIR): PromptLibrary {
+  const validate = promptValidator(dir);
+  const files = readdirSync(dir).filter((f) => PROMPT_EXTENSIONS.has(extname(f).toLowerCase())).sort();
+  const problems: string[] = [];
+  const prompts: PromptDef[] = [];
+  const seen = new Map<string, string>();
+
+  for (const file of files) {
+    let raw: unknown;
+    try {
+      const text = readFileSync(join(dir, file), 'utf-8');
+      raw = extname(file).toLowerCase() === '.json' ? JSON.parse(text) : parseYaml(text);
+    } catch (err) {
+      problems.push(`${file}: ${err instanceof Error ? err.message : String(err)}`);
+      continue;
+    }
+    if (!validate(raw)) {
+      problems.push(...(validate.errors ?? []).map((e) => formatSchemaError(file, e)));
+      continue;
+    }
+    const def = normalize(file, raw as RawPrompt);
+    const fileProblems = checkPrompt(file, def);
+    problems.push(...fileProblems);
+    const clash = seen.get(def.name);
+    if (clash) problems.push(`${file}: prompt name "${def.name}" is already defined in ${clash}`);
+    seen.set(def.name, file);
+    if (fileProblems.length === 0 && !clash) prompts.push(def);
+  }
+
+  if (problems.length > 0) throw new PromptLibraryError(problems);
+  if (prompts.length === 0) throw new PromptLibraryError([`${dir}: no prompt files (*.yaml, *.yml, *.json)`]);
+  prompts.sort((a, b) => a.name.localeCompare(b.name));
+  return { dir, prompts };
+}
+
+// ── Active library + hot reload ──────────────────────────────────────────────
+
+let active: PromptLibrary | undefined;
+
+/** The library new MCP servers register from — loaded from PROMPTS_DIR on first use. */
+export function getPromptLibrary(): PromptLibrary {
+  active ??= loadPromptLibrary(PROMPTS_DIR);
+  return active;
+}
+
+/** Replace the active library (hot reload, tests). */
+export function setPromptLibrary(library: PromptLibrary | undefined): void {
+  active = library;
+}
+
+const DEFAULT_DEBOUNCE_MS = 500;
+
+export interface PromptWatchOptions {
+  debounceMs?: number;
+  onReload?: (library: PromptLibrary) => void;
+}
+
+export interface PromptLibraryWatcher {
+  /** Reload immediately. Returns null when the reload failed and the current library was kept. */
+  reloadNow(): PromptLibrary | null;
+  close(): void;
+}
+
+/**
+ * Hot reload for the prompt library, the counterpart of knowledge-watcher.ts: file events under
+ * `dir` are debounced into one reload, and only a fully valid library replaces the active one.
+ * Servers are built per request, so the next request lists the new prompts; an already open
+ * stateful session keeps the set it was created with.
+ */
+export function watchPromptLibrary(dir: string, options: PromptWatchOptions = {}): PromptLibraryWatcher {
+  const debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+
+  const reloadNow = (): PromptLibrary | null => {
+    try {
+      const library = loadPromptLibrary(dir);
+      setPromptLibrary(library);
+      console.error(`[prompt-watch] Reloaded ${library.prompts.length} prompts from ${dir}.`);
+      options.onReload?.(library);
+      return library;
+    } catch (err) {
+      console.error('[prompt-watch] Reload failed — keeping the current prompts:', err instanceof Error ? err.message : err);
+      return null;
+    }
+  };
+
+  let timer: NodeJS.Timeout | undefined;
+  let watcher: FSWatcher | undefined;
+  try {
+    watcher = watch(dir, (_event, filename) => {
+      // Editor swap/backup files are noise; a null filename (platform-dependent) reloads to be safe.
+      if (filename && !PROMPT_EXTENSIONS.has(extname(filename).toLowerCase())) return;
+      clearTimeout(timer);
+      timer = setTimeout(reloadNow, debounceMs);
+    });
+    watcher.on('error', (err) => console.error('[prompt-watch] Watcher failed:', err));
+  } catch (err) {
+    console.error(`[prompt-watch] Cannot watch ${dir}:`, err);
+  }
+
+  return {
+    reloadNow,
+    close() {
+      clearTimeout(timer);
+      watcher?.close();
+    },
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * Records the search_events golden-set cassettes against a live backend.
+ *
+ * Runs every case of the golden set through the real search_events tool with a recording cassette
+ * (cassette.ts) and writes the scrubbed responses next to the golden file. With --update-golden the
+ * cases' `expectedTop` is rewritten from the fresh ranking as well — review that diff: it is the
+ * new ranking baseline.
+ *
+ * The checked-in cassettes were recorded against `npm run mock-backend` (AUTOPILOT_API_URL pointed at
+ * it, one of its fixture tokens as the bearer), so they are synthetic. Recording against a real
+ * tenant needs the golden set's `description` updated and `expectedTop` reviewed by hand.
+ *
+ * The caller's platform role (from /api/auth/mcp) must match the golden set's `caller`, otherwise
+ * the recorded routes (/api vs /api/global) would not be the ones replay asks for.
+ *
+ * Usage: AUTOPILOT_API_TOKEN=<bearer> [AUTOPILOT_API_URL=…] npm run record-cassettes -- [goldenFile] [--update-golden]
+ *   goldenFile  default src/__tests__/cassettes/search-golden.json
+ */
+import { writeFileSync } from 'node:fs';
+import { extractTokenClaims } from './auth.js';
+import { Cassette } from './cassette.js';
+import { API_BASE_URL } from './config.js';
+import { buildGoldenEventTypeIndex, cassettePath, loadGoldenSet, runGoldenCase } from './search-golden.js';
+
+const args = process.argv.slice(2);
+const updateGolden = args.includes('--update-golden');
+const goldenFile = args.find((a) => !a.startsWith('--')) ?? 'src/__tests__/cassettes/search-golden.json';
+const token = process.env.AUTOPILOT_API_TOKEN;
+if (!token) {
+  console.error('usage: AUTOPILOT_API_TOKEN=<bearer> npm run record-cassettes -- [goldenFile] [--update-golden]');
+  process.exit(2);
+}
+
+const set = loadGoldenSet(goldenFile);
+const authRes = await fetch(`${API_BASE_URL}/api/auth/mcp`, { headers: { Authorization: `Bearer ${token}` } });
+if (!authRes.ok) {
+  console.error(`[record-cassettes] ${API_BASE_URL}/api/auth/mcp answered ${authRes.status} — is the token valid for this backend?`);
+  process.exit(1);
+}
+const auth = await authRes.json() as { isGlobalAdmin?: boolean };
+if (Boolean(auth.isGlobalAdmin) !== set.caller.isGlobalAdmin) {
+  console.error(`[record-cassettes] golden set expects isGlobalAdmin=${set.caller.isGlobalAdmin}, token has ${Boolean(auth.isGlobalAdmin)} — refusing to record.`);
+  process.exit(1);
+}
+
+// The caller's own tenant is scrubbed even where no response names it.
+const homeTenant = extractTokenClaims(token)?.tid;
+const eventTypeIndex = await buildGoldenEventTypeIndex();
+const source = new URL(API_BASE_URL).host;
+
+for (const c of set.cases) {
+  const cassette = Cassette.recorder(source, homeTenant ? [homeTenant] : []);
+  const top = await runGoldenCase(set, c, cassette, eventTypeIndex, token);
+  const file = cassettePath(goldenFile, c);
+  cassette.save(file);
+  console.error(`[record-cassettes] ${c.name}: ${cassette.interactions.length} interactions → ${file}`);
+  if (updateGolden) {
+    // Session IDs are not tenant-identifying, but run them through the same scrubber for consistency
+    // with what replay will see.
+    c.expectedTop = top.map((hit) => ({ eventType: hit.eventType, sessionId: cassette.scrub(hit.sessionId) }));
+  }
+}
+
+if (updateGolden) {
+  writeFileSync(goldenFile, `${JSON.stringify(set, null, 2)}\n`);
+  console.error(`[record-cassettes] expectedTop rewritten in ${goldenFile}`);
+}
@@ -1,14 +1,28 @@
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ErrorCode, McpError, SubscribeRequestSchema, UnsubscribeRequestSchema } from '@modelcontextprotocol/sdk/types.js';
 import { EVENT_TYPES_CATALOG, DEVICE_PROPERTIES_CATALOG } from './resource-catalog.js';
 import { DIAG_ZIP_MAP } from './diag-zip-map.js';
+import { enforceDelegatedTenant } from './client.js';
+import {
+  SESSION_TIMELINE_TEMPLATE,
+  SESSION_TIMELINE_TENANT_TEMPLATE,
+  SubscriptionError,
+  parseTimelineUri,
+  readSessionTimeline,
+  type SessionSubscriptionRegistry,
+} from './session-subscriptions.js';
 
 /**
  * MCP-protocol resources. Note that some clients (e.g. Claude Code's HTTP-MCP
  * bridge in stateless mode) do not expose `resources/list` correctly — for
  * those clients, use the `get_resource(name)` tool which returns the same
  * data via a regular tool call.
+ *
+ * `subscriptions` is passed only in stateful transport mode (MCP_STATEFUL_SESSIONS): it advertises
+ * `resources.subscribe` and wires resources/subscribe + unsubscribe for session timelines. The
+ * stateless default still serves the timeline resource for plain reads.
  */
-export function registerResources(server: McpServer): void {
+export function registerResources(server: McpServer, subscriptions?: SessionSubscriptionRegistry): void {
   server.registerResource(
     'event_types',
     'autopilot://event-types',
@@ -71,4 +85,67 @@ export function registerResources(server: McpServer): void {
       ],
     })
   );
+
+  const readTimeline = async (uri: URL) => {
+    const parsed = parseTimelineUri(uri.href);
+    if (!parsed) throw new McpError(ErrorCode.InvalidParams, `Not a valid session timeline URI: ${uri.href}`);
+    const tenantId = enforceDelegatedTenant(parsed.tenantId);
+    const timeline = await readSessionTimeline(parsed.sessionId, tenantId);
+    return {
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: 'application/json',
+          text: JSON.stringify(timeline, null, 2),
+        },
+      ],
+    };
+  };
+  const timelineDescription =
+    'Live view of one enrollment session: status, current phase, minutes since the last event, a stall ' +
+    'flag and the most recent events. Subscribe (where the server advertises resources.subscribe) to be ' +
+    'notified when new events arrive, the session stalls or it finishes — instead of polling get_session_events.';
+
+  server.registerResource(
+    'session_timeline',
+    new ResourceTemplate(SESSION_TIMELINE_TEMPLATE, { list: undefined }),
+    { title: 'Live Session Timeline', mimeType: 'application/json', description: timelineDescription },
+    readTimeline
+  );
+
+  server.registerResource(
+    'session_timeline_tenant',
+    new ResourceTemplate(SESSION_TIMELINE_TENANT_TEMPLATE, { list: undefined }),
+    {
+      title: 'Live Session Timeline (tenant-qualified)',
+      mimeType: 'application/json',
+      description: `${timelineDescription} Delegated (MSP) callers must use this form and name a managed tenant.`,
+    },
+    readTimeline
+  );
+
+  if (!subscriptions) return;
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+    const { uri } = request.params;
+    const parsed = parseTimelineUri(uri);
+    if (!parsed) {
+      throw new McpError(ErrorCode.InvalidParams, `Only session timelines (${SESSION_TIMELINE_TEMPLATE}) support subscriptions.`);
+    }
+    if (!extra.sessionId) throw new McpError(ErrorCode.InvalidRequest, 'Subscriptions require an MCP session.');
+    try {
+      const tenantId = enforceDelegatedTenant(parsed.tenantId);
+      await subscriptions.subscribe(extra.sessionId, uri, parsed.sessionId, tenantId);
+    } catch (err) {
+      if (err instanceof McpError) throw err;
+      const message = err instanceof Error ? err.message : String(err);
+      throw new McpError(err instanceof SubscriptionError ? ErrorCode.InvalidRequest : ErrorCode.InvalidParams, message);
+    }
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request, extra) => {
+    if (extra.sessionId) subscriptions.unsubscribe(extra.sessionId, request.params.uri);
+    return {};
+  });
 }
@@ -0,0 +1,136 @@
+/**
+ * Draft-rule validation + dry-run aggregation — the engine behind `dry_run_analyze_rule`.
+ * Rule authors can't see how often a new ANALYZE rule would fire before enabling it; this
+ * validates the draft against rules/schema/analyze-rule.schema.json, replays it over a
+ * sample of real sessions with the offline evaluator (rule-evaluator.ts), and condenses the
+ * per-session verdicts into hit rate, confidence distribution and interpolated examples.
+ *
+ * The schema is read from RULES_DIR once per process and compiled lazily, so a server that
+ * never receives a dry-run never pays for it.
+ */
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { Ajv2020, type ErrorObject, type ValidateFunction } from 'ajv/dist/2020.js';
+import { RULES_DIR } from './config.js';
+import type { EvaluableRule, RuleEvaluation, RuleOutcome } from './rule-evaluator.js';
+import { interpolateRuleTemplate } from './interpolate-rule-template.js';
+
+const SCHEMA_FILE = join('schema', 'analyze-rule.schema.json');
+const MAX_MATCHED_SESSIONS = 50;
+const MAX_EXAMPLES = 3;
+/** Confidence buckets reported in the distribution (lower bound inclusive). */
+const CONFIDENCE_BUCKETS = [0, 40, 50, 60, 70, 80, 90] as const;
+
+let validator: ValidateFunction | undefined;
+
+function analyzeRuleValidator(rulesRoot: string): ValidateFunction {
+  if (validator) return validator;
+  const schema = JSON.parse(readFileSync(join(rulesRoot, SCHEMA_FILE), 'utf-8')) as { $id: string };
+  // validateFormats=false: the schema's uri/regex formats are authoring hints, and ajv-formats
+  // is not a dependency. strict=false tolerates the editor-only annotations ($schema, defaults).
+  const ajv = new Ajv2020({ allErrors: true, strict: false, validateFormats: false });
+  ajv.addSchema(schema);
+  // Validate against the single-rule definition, not the top-level oneOf (single | bundle):
+  // oneOf failures report every branch and bury the one error the author needs.
+  validator = ajv.getSchema(`${schema.$id}#/$defs/analyzeRule`);
+  if (!validator) throw new Error(`analyzeRule definition not found in ${SCHEMA_FILE}`);
+  return validator;
+}
+
+function formatSchemaError(e: ErrorObject): string {
+  const at = e.instancePath || '(rule)';
+  if (e.keyword === 'additionalProperties') {
+    return `${at}: unknown property "${String((e.params as { additionalProperty?: string }).additionalProperty)}"`;
+  }
+  if (e.keyword === 'enum') {
+    return `${at}: ${e.message} (${((e.params as { allowedValues?: unknown[] }).allowedValues ?? []).join(', ')})`;
+  }
+  return `${at}: ${e.message ?? e.keyword}`;
+}
+
+/**
+ * Validate a draft analyze rule against the repo schema. Returns human-readable error lines
+ * (JSON-pointer path + message); an empty array means the draft is schema-valid.
+ */
+export function validateAnalyzeRule(rule: unknown, rulesRoot: string = RULES_DIR): string[] {
+  const validate = analyzeRuleValidator(rulesRoot);
+  if (validate(rule)) return [];
+  return (validate.errors ?? []).map(formatSchemaError);
+}
+
+export interface DryRunSessionResult {
+  sessionId: string;
+  tenantId?: string;
+  model?: string;
+  status?: string;
+  evaluation: RuleEvaluation;
+}
+
+export interface DryRunSummary {
+  sessionsEvaluated: number;
+  fired: number;
+  /** fired / sessionsEvaluated, 3 decimals (0 when nothing was evaluated). */
+  hitRate: number;
+  outcomes: Record<RuleOutcome, number>;
+  /** How often each condition matched across the sample — spots dead or always-true conditions. */
+  conditionMatchCounts: Record<string, number>;
+  confidenceDistribution: Array<{ range: string; count: number }>;
+  matchedSessions: Array<{ sessionId: string; tenantId?: string; model?: string; status?: string; confidence: number | null }>;
+  matchedSessionsTruncated: boolean;
+  examples: Array<{ sessionId: string; confidence: number | null; explanation: string; matchedConditions: Record<string, unknown> }>;
+}
+
+function bucketLabel(lower: number, i: number): string {
+  const upper = i + 1 < CONFIDENCE_BUCKETS.length ? CONFIDENCE_BUCKETS[i + 1] - 1 : 100;
+  return `${lower}-${upper}`;
+}
+
+/** Fold per-session evaluations into the dry-run report. */
+export function summarizeDryRun(rule: EvaluableRule, results: DryRunSessionResult[]): DryRunSummary {
+  const outcomes: Record<RuleOutcome, number> = {
+    fired: 0,
+    skipped_by_precondition: 0,
+    required_condition_failed: 0,
+    no_condition_matched: 0,
+    below_threshold: 0,
+  };
+  const conditionMatchCounts: Record<string, number> = Object.fromEntries(rule.conditions.map((c) => [c.signal, 0]));
+  const bucketCounts = CONFIDENCE_BUCKETS.map(() => 0);
+  const fired = results.filter((r) => r.evaluation.fired);
+
+  for (const { evaluation } of results) {
+    outcomes[evaluation.outcome]++;
+    for (const c of evaluation.conditions) if (c.matched) conditionMatchCounts[c.signal] = (conditionMatchCounts[c.signal] ?? 0) + 1;
+    if (evaluation.fired && evaluation.confidence != null) {
+      let idx = 0;
+      CONFIDENCE_BUCKETS.forEach((lower, i) => { if (evaluation.confidence! >= lower) idx = i; });
+      bucketCounts[idx]++;
+    }
+  }
+
+  return {
+    sessionsEvaluated: results.length,
+    fired: fired.length,
+    hitRate: results.length ? Math.round((fired.length / results.length) * 1000) / 1000 : 0,
+    outcomes,
+    conditionMatchCounts,
+    confidenceDistribution: CONFIDENCE_BUCKETS
+      .map((lower, i) => ({ range: bucketLabel(lower, i), count: bucketCounts[i] }))
+      .filter((b) => b.count > 0),
+    matchedSessions: fired.slice(0, MAX_MATCHED_SESSIONS).map((r) => ({
+      sessionId: r.sessionId,
+      tenantId: r.tenantId,
+      model: r.model,
+      status: r.status,
+      confidence: r.evaluation.confidence,
+    })),
+    matchedSessionsTruncated: fired.length > MAX_MATCHED_SESSIONS,
+    // Explanations rendered exactly as the portal would show them for this firing.
+    examples: fired.slice(0, MAX_EXAMPLES).map((r) => ({
+      sessionId: r.sessionId,
+      confidence: r.evaluation.confidence,
+      explanation: interpolateRuleTemplate(rule.explanation, r.evaluation.matchedConditions),
+      matchedConditions: r.evaluation.matchedConditions,
+    })),
+  };
+}
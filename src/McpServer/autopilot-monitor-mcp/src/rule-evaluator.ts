@@ -0,0 +1,842 @@
+/**
+ * MCP-side mirror of the web's `lib/analyzeRuleEvaluator.ts`: an offline evaluator
+ * for analyze rules (`rules/analyze/*.json`, schema `rules/schema/analyze-rule.schema.json`),
+ * ported from the backend `RuleEngine` (RuleEngine.cs + RuleEngine.ConditionEvaluators.cs).
+ * Lets the server re-run a rule against a session's events and explain exactly which
+ * precondition, condition and confidence factor matched — not just the stored verdict.
+ *
+ * Input events are the camelCase `get_session_events` shape (also the web's
+ * `SessionExportEvent`). Only eventId / eventType / timestamp / sequence / message /
+ * data are read.
+ *
+ * Keep the semantics in lock-step with the backend and the web copy:
+ *   - Preconditions gate first (AND, silent skip).
+ *   - Conditions run in order; the first unmatched REQUIRED condition stops
+ *     evaluation (later conditions are reported as not evaluated).
+ *   - No matched condition at all → no result (no vacuous firing).
+ *   - Confidence = baseConfidence + weights of matched factors, capped at 100,
+ *     then compared against confidenceThreshold.
+ *   - Data values are stringified like .NET `ToString()` (booleans → "True" /
+ *     "False"); all string operators are case-insensitive.
+ * Deliberate deviations: nested objects/arrays stringify as JSON (the backend
+ * yields a CLR type name), and a .NET-only regex construct the JS engine cannot
+ * compile counts as "no match" — the same as the backend's invalid-regex path.
+ */
+
+export interface EvaluatorEvent {
+  eventId?: string;
+  eventType?: string;
+  timestamp?: string;
+  sequence?: number;
+  message?: string;
+  data?: Record<string, unknown> | null;
+}
+
+export interface EvaluatorCondition {
+  signal: string;
+  source: string;
+  eventType?: string;
+  dataField?: string;
+  itemField?: string;
+  operator?: string;
+  value?: string;
+  required?: boolean;
+  correlateEventType?: string;
+  joinField?: string;
+  timeWindowSeconds?: number | null;
+  suppressByEvent?: { eventType: string; joinField: string } | null;
+  eventAFilterField?: string;
+  eventAFilterOperator?: string;
+  eventAFilterValue?: string;
+}
+
+export interface EvaluatorPrecondition {
+  source?: string;
+  eventType?: string;
+  dataField?: string;
+  operator?: string;
+  value?: string;
+  description?: string;
+}
+
+export interface EvaluatorConfidenceFactor {
+  signal: string;
+  condition: string;
+  weight: number;
+}
+
+/** Rule definition as stored in `rules/analyze/*.json` — schema defaults apply to omitted fields. */
+export interface EvaluableRule {
+  ruleId: string;
+  title: string;
+  severity?: string;
+  category?: string;
+  explanation?: string;
+  remediation?: { title: string; steps: string[] }[];
+  relatedDocs?: { title: string; url: string }[];
+  preconditions?: EvaluatorPrecondition[];
+  conditions: EvaluatorCondition[];
+  baseConfidence?: number;
+  confidenceFactors?: EvaluatorConfidenceFactor[];
+  confidenceThreshold?: number;
+}
+
+export interface PreconditionTrace {
+  index: number;
+  eventType: string | null;
+  dataField: string | null;
+  operator: string | null;
+  value: string | null;
+  passed: boolean;
+}
+
+export interface ConditionTrace {
+  signal: string;
+  source: string;
+  required: boolean;
+  /** False when an earlier required condition already failed (backend short-circuit). */
+  evaluated: boolean;
+  matched: boolean;
+  /** Evidence on a match, or the backend's "why not" note / counters on a miss. */
+  evidence: unknown;
+}
+
+export interface ConfidenceFactorTrace {
+  signal: string;
+  condition: string;
+  weight: number;
+  matched: boolean;
+  /** False for condition expressions the backend does not understand (they never match). */
+  supported: boolean;
+}
+
+export type RuleOutcome =
+  | 'fired'
+  | 'skipped_by_precondition'
+  | 'required_condition_failed'
+  | 'no_condition_matched'
+  | 'below_threshold';
+
+export interface RuleEvaluation {
+  ruleId: string;
+  fired: boolean;
+  outcome: RuleOutcome;
+  /** Final confidence (null when evaluation stopped before scoring). */
+  confidence: number | null;
+  baseConfidence: number;
+  confidenceThreshold: number;
+  preconditions: PreconditionTrace[];
+  conditions: ConditionTrace[];
+  confidenceFactors: ConfidenceFactorTrace[];
+  /** Same shape as a stored RuleResult's matchedConditions (incl. `factor_<signal>` flags). */
+  matchedConditions: Record<string, unknown>;
+}
+
+export interface EvaluateOptions {
+  /**
+   * Clock for a phase that is still active at the end of the stream (backend: UtcNow).
+   * Defaults to Date.now(); pass the last event's time to replay a closed export reproducibly.
+   */
+  now?: number;
+}
+
+const DEFAULT_BASE_CONFIDENCE = 50;
+const DEFAULT_CONFIDENCE_THRESHOLD = 40;
+const MAX_ARRAY_SAMPLES = 10;
+const MAX_CORRELATION_MATCHES = 10;
+/** Backend AddDataFieldsToEvidence whitelist — short identifiers only. */
+const EVIDENCE_FIELDS = ['appId', 'appName', 'errorPatternId', 'errorCode', 'exitCode', 'status'];
+
+interface NormalizedEvent {
+  eventId: string;
+  eventType: string;
+  timestamp: string;
+  time: number;
+  sequence: number;
+  message: string | null;
+  data: Record<string, unknown> | null;
+}
+
+type Evidence = Record<string, unknown>;
+type ConditionResult = { matched: boolean; evidence: unknown };
+
+// ===== Normalization =====
+
+/**
+ * Copy, backfill and order the events the way the backend reads them (storage RowKey =
+ * Timestamp_Sequence). Mirrors BackfillDerivedEventFields: esp_provisioning_status events
+ * from older agents get a synthesized `failedSubcategories` from their failed transitions.
+ */
+function normalizeEvents(events: EvaluatorEvent[]): NormalizedEvent[] {
+  const out = events.map((e): NormalizedEvent => {
+    const data = e.data && typeof e.data === 'object' ? { ...e.data } : null;
+    if (data && equalsIgnoreCase(e.eventType, 'esp_provisioning_status') && !('failedSubcategories' in data)) {
+      const transitions = data.transitions;
+      if (Array.isArray(transitions)) {
+        const failed = transitions
+          .filter((t): t is Record<string, unknown> => !!t && typeof t === 'object')
+          .filter((t) => equalsIgnoreCase(t.newState == null ? null : String(t.newState), 'failed'))
+          .map((t) => (t.subcategory == null ? '' : String(t.subcategory)))
+          .filter((s) => s.trim().length > 0);
+        if (failed.length > 0) data.failedSubcategories = failed.join(',');
+      }
+    }
+    const time = Date.parse(e.timestamp ?? '');
+    return {
+      eventId: e.eventId ?? '',
+      eventType: e.eventType ?? '',
+      timestamp: e.timestamp ?? '',
+      time: Number.isNaN(time) ? 0 : time,
+      sequence: Number(e.sequence ?? 0) || 0,
+      message: e.message ?? null,
+      data,
+    };
+  });
+  return out.sort((a, b) => a.time - b.time || a.sequence - b.sequence);
+}
+
+// ===== Helpers (mirror of the backend HELPERS region) =====
+
+function equalsIgnoreCase(a: string | null | undefined, b: string | null | undefined): boolean {
+  if (a == null || b == null) return a == b;
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/** .NET `object.ToString()` for the value shapes a deserialized event payload can hold. */
+function clrString(value: unknown): string | null {
+  if (value == null) return null;
+  if (typeof value === 'string') return value;
+  if (typeof value === 'boolean') return value ? 'True' : 'False';
+  if (typeof value === 'number' || typeof value === 'bigint') return String(value);
+  return JSON.stringify(value);
+}
+
+function matchesEventType(evt: NormalizedEvent, eventType: string | undefined): boolean {
+  if (!eventType) return false;
+  return equalsIgnoreCase(evt.eventType, eventType);
+}
+
+function lookupKey(obj: Record<string, unknown>, key: string): { found: boolean; value: unknown } {
+  if (Object.prototype.hasOwnProperty.call(obj, key)) return { found: true, value: obj[key] };
+  const lower = key.toLowerCase();
+  const hit = Object.keys(obj).find((k) => k.toLowerCase() === lower);
+  return hit === undefined ? { found: false, value: undefined } : { found: true, value: obj[hit] };
+}
+
+/** Dot-path walk through nested objects, case-insensitive per segment. */
+function resolveDotPathRaw(root: Record<string, unknown>, path: string): unknown {
+  let current: unknown = root;
+  for (const part of path.split('.')) {
+    if (!current || typeof current !== 'object' || Array.isArray(current)) return null;
+    const { found, value } = lookupKey(current as Record<string, unknown>, part);
+    if (!found) return null;
+    current = value;
+  }
+  return current;
+}
+
+/**
+ * Stringified data-field lookup: `message` reads the event message; otherwise a flat key
+ * (incl. legacy keys containing a literal dot) wins over dot-path traversal.
+ */
+function getDataFieldValue(evt: NormalizedEvent, dataField: string | undefined): string | null {
+  if (!evt.data || !dataField) return null;
+  if (dataField.toLowerCase() === 'message') return evt.message;
+  const flat = lookupKey(evt.data, dataField);
+  if (flat.found) return clrString(flat.value);
+  if (dataField.includes('.')) return clrString(resolveDotPathRaw(evt.data, dataField));
+  return null;
+}
+
+function getDataFieldRaw(data: Record<string, unknown>, field: string | undefined): unknown {
+  if (!field) return null;
+  const flat = lookupKey(data, field);
+  if (flat.found) return flat.value;
+  if (field.includes('.')) return resolveDotPathRaw(data, field);
+  return null;
+}
+
+function getItemFieldValue(element: unknown, itemField: string | undefined): string | null {
+  if (element == null) return null;
+  const isObject = typeof element === 'object' && !Array.isArray(element);
+  if (!itemField) return isObject ? null : clrString(element);
+  if (!isObject) return null;
+  const { value } = lookupKey(element as Record<string, unknown>, itemField);
+  return clrString(value);
+}
+
+/** .NET `double.TryParse` — rejects empty / whitespace input that `Number()` would read as 0. */
+function parseDouble(s: string | null | undefined): number | null {
+  if (s == null || s.trim() === '') return null;
+  const n = Number(s.trim());
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Compile a rule regex case-insensitively. The backend uses .NET Regex with IgnoreCase; a
+ * leading inline `(?i)` is redundant here and JS cannot parse it, so it is stripped.
+ */
+function compileRegex(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern.replace(/^\(\?i\)/, ''), 'i');
+  } catch {
+    return null;
+  }
+}
+
+function matchesInList(fieldValue: string, compareValue: string): boolean {
+  if (!fieldValue || !compareValue) return false;
+  return compareValue
+    .split(',')
+    .map((entry) => entry.trim())
+    .some((entry) => entry.length > 0 && equalsIgnoreCase(fieldValue, entry));
+}
+
+/** Operator vocabulary shared by conditions, preconditions and correlation filters. */
+export function matchesOperator(fieldValue: string, op: string | undefined, compareValue: string | undefined): boolean {
+  const value = compareValue ?? '';
+  const numeric = (cmp: (a: number, b: number) => boolean) => {
+    const a = parseDouble(fieldValue);
+    const b = parseDouble(value);
+    return a != null && b != null && cmp(a, b);
+  };
+  switch (op?.toLowerCase()) {
+    case 'equals':
+      return equalsIgnoreCase(fieldValue, value);
+    case 'not_equals':
+      return !equalsIgnoreCase(fieldValue, value);
+    case 'contains':
+      return fieldValue.toLowerCase().includes(value.toLowerCase());
+    case 'not_contains':
+      return !fieldValue.toLowerCase().includes(value.toLowerCase());
+    case 'regex': {
+      const re = compileRegex(value);
+      return re ? re.test(fieldValue) : false;
+    }
+    case 'not_regex': {
+      const re = compileRegex(value);
+      return re ? !re.test(fieldValue) : false;
+    }
+    case 'gt':
+      return numeric((a, b) => a > b);
+    case 'lt':
+      return numeric((a, b) => a < b);
+    case 'gte':
+      return numeric((a, b) => a >= b);
+    case 'lte':
+      return numeric((a, b) => a <= b);
+    case 'exists':
+      return fieldValue !== '';
+    case 'not_exists':
+      return fieldValue === '';
+    case 'in':
+      return matchesInList(fieldValue, value);
+    case 'not_in':
+      return !matchesInList(fieldValue, value);
+    default:
+      return false;
+  }
+}
+
+function addDataFieldsToEvidence(evidence: Evidence, evt: NormalizedEvent, prefix: string): void {
+  if (!evt.data) return;
+  for (const field of EVIDENCE_FIELDS) {
+    const val = getDataFieldValue(evt, field);
+    if (val != null) evidence[`${prefix}${field}`] = val;
+  }
+}
+
+function isSuppressedByEvent(
+  matched: NormalizedEvent,
+  config: EvaluatorCondition['suppressByEvent'],
+  events: NormalizedEvent[],
+): boolean {
+  if (!config?.eventType || !config.joinField) return false;
+  const joinValue = getDataFieldValue(matched, config.joinField);
+  if (!joinValue) return false;
+  return events.some((e) =>
+    matchesEventType(e, config.eventType) && equalsIgnoreCase(getDataFieldValue(e, config.joinField), joinValue));
+}
+
+function formatDuration(totalSeconds: number): string {
+  const s = Math.floor(totalSeconds);
+  const hours = Math.floor(s / 3600);
+  const minutes = Math.floor((s % 3600) / 60);
+  const seconds = s % 60;
+  if (hours >= 1) return `${hours}h ${minutes}m ${seconds}s`;
+  if (minutes >= 1) return `${minutes}m ${seconds}s`;
+  return `${seconds}s`;
+}
+
+// ===== Preconditions =====
+
+function evaluatePrecondition(pre: EvaluatorPrecondition, events: NormalizedEvent[]): boolean {
+  if (!equalsIgnoreCase(pre.source ?? 'event_data', 'event_data')) return false;
+  if (!pre.eventType) return false;
+
+  const matching = events.filter((e) => matchesEventType(e, pre.eventType));
+  const op = pre.operator?.toLowerCase() ?? '';
+
+  // No dataField → pure event-type presence gate (exists / not_exists only).
+  if (!pre.dataField) {
+    if (op === 'not_exists') return matching.length === 0;
+    if (op === 'exists') return matching.length > 0;
+    return false;
+  }
+
+  if (op === 'not_exists') {
+    if (matching.length === 0) return true;
+    return matching.every((e) => !getDataFieldValue(e, pre.dataField));
+  }
+  if (matching.length === 0) return false;
+  if (op === 'exists') return matching.some((e) => !!getDataFieldValue(e, pre.dataField));
+
+  return matching.some((e) => {
+    const v = getDataFieldValue(e, pre.dataField);
+    return v != null && matchesOperator(v, pre.operator, pre.value);
+  });
+}
+
+// ===== Conditions =====
+
+function evaluateEventTypeCondition(c: EvaluatorCondition, events: NormalizedEvent[]): ConditionResult {
+  let matching = events.filter((e) => matchesEventType(e, c.eventType));
+  if (matching.length === 0) return { matched: false, evidence: 'no matching events' };
+
+  if (c.dataField) {
+    for (const evt of matching) {
+      const fieldValue = getDataFieldValue(evt, c.dataField);
+      if (fieldValue == null || !matchesOperator(fieldValue, c.operator, c.value)) continue;
+      if (isSuppressedByEvent(evt, c.suppressByEvent, events)) continue;
+      const evidence: Evidence = {
+        eventId: evt.eventId,
+        sequence: evt.sequence,
+        timestamp: evt.timestamp,
+        eventType: evt.eventType,
+        field: c.dataField,
+        value: fieldValue,
+      };
+      addDataFieldsToEvidence(evidence, evt, '');
+      return { matched: true, evidence };
+    }
+    return { matched: false, evidence: 'data field not matched' };
+  }
+
+  if (c.suppressByEvent) {
+    matching = matching.filter((e) => !isSuppressedByEvent(e, c.suppressByEvent, events));
+    if (matching.length === 0) return { matched: false, evidence: 'all matches suppressed by resolving events' };
+  }
+
+  const first = matching[0];
+  const evidence: Evidence = {
+    eventId: first.eventId,
+    sequence: first.sequence,
+    timestamp: first.timestamp,
+    eventType: c.eventType,
+    count: matching.length,
+  };
+  addDataFieldsToEvidence(evidence, first, '');
+  return { matched: true, evidence };
+}
+
+function evaluateEventDataCondition(c: EvaluatorCondition, events: NormalizedEvent[]): ConditionResult {
+  for (const evt of events) {
+    if (!matchesEventType(evt, c.eventType)) continue;
+    const fieldValue = getDataFieldValue(evt, c.dataField);
+    if (fieldValue == null || !matchesOperator(fieldValue, c.operator, c.value)) continue;
+    const evidence: Evidence = {
+      eventId: evt.eventId,
+      sequence: evt.sequence,
+      timestamp: evt.timestamp,
+      field: c.dataField,
+      value: fieldValue,
+    };
+    addDataFieldsToEvidence(evidence, evt, '');
+    return { matched: true, evidence };
+  }
+  return { matched: false, evidence: 'no matching data' };
+}
+
+function evaluateEventDataArrayCondition(c: EvaluatorCondition, events: NormalizedEvent[]): ConditionResult {
+  for (const evt of events) {
+    if (!matchesEventType(evt, c.eventType) || !evt.data) continue;
+    const items = getDataFieldRaw(evt.data, c.dataField);
+    if (!Array.isArray(items)) continue;
+
+    const matchedValues: string[] = [];
+    for (const element of items) {
+      const itemValue = getItemFieldValue(element, c.itemField);
+      if (itemValue != null && matchesOperator(itemValue, c.operator, c.value)) matchedValues.push(itemValue);
+    }
+    if (matchedValues.length === 0) continue;
+
+    return {
+      matched: true,
+      evidence: {
+        eventId: evt.eventId,
+        sequence: evt.sequence,
+        timestamp: evt.timestamp,
+        eventType: evt.eventType,
+        field: c.itemField || 'item',
+        value: matchedValues[0],
+        matchCount: matchedValues.length,
+        matchedItems: matchedValues.slice(0, MAX_ARRAY_SAMPLES),
+        matchedItemsTruncated: matchedValues.length > MAX_ARRAY_SAMPLES,
+      },
+    };
+  }
+  return { matched: false, evidence: 'no array element matched' };
+}
+
+/** Backend `int.TryParse` — integral strings only. */
+function parseInt32(s: string | undefined): number | null {
+  if (s == null || !/^\s*[+-]?\d+\s*$/.test(s)) return null;
+  return Number.parseInt(s, 10);
+}
+
+function evaluateEventCountCondition(c: EvaluatorCondition, events: NormalizedEvent[]): ConditionResult {
+  const matching = events.filter((e) => matchesEventType(e, c.eventType));
+
+  const groupThreshold = parseInt32(c.value);
+  if (c.operator === 'count_per_group_gte' && c.dataField && groupThreshold != null) {
+    const groups = new Map<string, NormalizedEvent[]>();
+    for (const e of matching) {
+      const key = getDataFieldValue(e, c.dataField);
+      if (!key) continue;
+      const existing = [...groups.keys()].find((k) => equalsIgnoreCase(k, key)) ?? key;
+      groups.set(existing, [...(groups.get(existing) ?? []), e]);
+    }
+    const qualifying = [...groups.entries()].filter(([, g]) => g.length >= groupThreshold);
+    if (qualifying.length > 0) {
+      const [groupKey, worst] = qualifying.reduce((best, cur) => (cur[1].length > best[1].length ? cur : best));
+      const firstEvent = worst[0];
+      return {
+        matched: true,
+        evidence: {
+          eventId: firstEvent.eventId,
+          sequence: firstEvent.sequence,
+          timestamp: firstEvent.timestamp,
+          groupKey,
+          appName: getDataFieldValue(firstEvent, 'appName') ?? groupKey,
+          count: worst.length,
+          threshold: groupThreshold,
+        },
+      };
+    }
+    const distinct = new Set(
+      matching.map((e) => getDataFieldValue(e, c.dataField)).filter((k): k is string => k != null).map((k) => k.toLowerCase()),
+    );
+    return { matched: false, evidence: { totalEvents: matching.length, distinctApps: distinct.size } };
+  }
+
+  const count = matching.length;
+  const threshold = parseInt32(c.value);
+  if (c.operator === 'count_gte' && threshold != null && count >= threshold && count > 0) {
+    const first = matching[0];
+    return {
+      matched: true,
+      evidence: { eventId: first.eventId, sequence: first.sequence, timestamp: first.timestamp, count, threshold },
+    };
+  }
+  return { matched: false, evidence: { count } };
+}
+
+function evaluatePhaseDurationCondition(c: EvaluatorCondition, events: NormalizedEvent[], now: number): ConditionResult {
+  const phaseEvents = events.filter((e) => e.eventType === 'esp_phase_changed');
+  if (phaseEvents.length === 0) return { matched: false, evidence: 'no phase events' };
+
+  const targetPhase = c.value ?? '';
+  const lookupField = c.dataField || 'espPhase';
+  for (let i = 0; i < phaseEvents.length; i++) {
+    const evt = phaseEvents[i];
+    const currentPhase = evt.data && lookupField in evt.data ? clrString(evt.data[lookupField]) : null;
+    if (!equalsIgnoreCase(currentPhase, targetPhase)) continue;
+
+    const next = phaseEvents[i + 1];
+    const phaseEnd = next ? next.time : now;
+    const durationSeconds = (phaseEnd - evt.time) / 1000;
+    return {
+      matched: true,
+      evidence: {
+        eventId: evt.eventId,
+        sequence: evt.sequence,
+        phaseStartTimestamp: evt.timestamp,
+        phaseEndEventId: next ? next.eventId : '(still active)',
+        phase: targetPhase,
+        durationSeconds,
+        durationFormatted: formatDuration(durationSeconds),
+      },
+    };
+  }
+  return { matched: false, evidence: 'phase not found' };
+}
+
+function evaluateAppInstallDurationCondition(c: EvaluatorCondition, events: NormalizedEvent[]): ConditionResult {
+  const completionTypes = c.eventType?.trim() ? [c.eventType] : ['app_install_completed', 'app_install_failed'];
+  const completions = events.filter((e) => completionTypes.some((t) => equalsIgnoreCase(e.eventType, t)));
+
+  for (const done of completions) {
+    const appId = getDataFieldValue(done, 'appId');
+    const appName = getDataFieldValue(done, 'appName');
+    const appKey = appId?.trim() ? appId : appName;
+    if (!appKey?.trim()) continue;
+
+    const start = [...events].reverse().find((e) =>
+      (equalsIgnoreCase(e.eventType, 'app_install_started') || equalsIgnoreCase(e.eventType, 'app_install_start')) &&
+      e.time <= done.time &&
+      equalsIgnoreCase(getDataFieldValue(e, 'appId') ?? getDataFieldValue(e, 'appName'), appKey));
+    if (!start) continue;
+
+    const durationSeconds = Math.max(0, (done.time - start.time) / 1000);
+    if (!matchesOperator(String(durationSeconds), c.operator, c.value)) continue;
+
+    return {
+      matched: true,
+      evidence: {
+        eventId: done.eventId,
+        sequence: done.sequence,
+        startEventId: start.eventId,
+        startTimestamp: start.timestamp,
+        endTimestamp: done.timestamp,
+        eventType: done.eventType,
+        appId: appId ?? '',
+        appName: appName ?? appKey,
+        durationSeconds,
+        durationFormatted: formatDuration(durationSeconds),
+      },
+    };
+  }
+  return { matched: false, evidence: 'no app install duration matched' };
+}
+
+/**
+ * Event A → Event B pairs sharing a joinField value, A strictly before B (sequence breaks
+ * timestamp ties), optionally within timeWindowSeconds. One pair per join value; the primary
+ * (first) pair carries totalMatches and a capped allMatches list.
+ */
+function evaluateEventCorrelationCondition(c: EvaluatorCondition, events: NormalizedEvent[]): ConditionResult {
+  if (!c.eventType || !c.correlateEventType || !c.joinField) {
+    return { matched: false, evidence: 'event_correlation requires EventType, CorrelateEventType, and JoinField' };
+  }
+  const joinField = c.joinField;
+
+  const eventAList = events.filter((e) => {
+    if (!matchesEventType(e, c.eventType)) return false;
+    if (!c.eventAFilterField) return true;
+    const v = getDataFieldValue(e, c.eventAFilterField);
+    return v != null && matchesOperator(v, c.eventAFilterOperator || 'exists', c.eventAFilterValue ?? '');
+  });
+  const eventBList = events.filter((e) => {
+    if (!matchesEventType(e, c.correlateEventType)) return false;
+    if (!c.dataField) return true;
+    const v = getDataFieldValue(e, c.dataField);
+    return v != null && matchesOperator(v, c.operator || 'exists', c.value ?? '');
+  });
+  if (eventAList.length === 0 || eventBList.length === 0) {
+    return { matched: false, evidence: 'no matching event pairs found' };
+  }
+
+  const aByKey = new Map<string, NormalizedEvent[]>();
+  for (const a of eventAList) {
+    const key = getDataFieldValue(a, joinField);
+    if (!key) continue;
+    const k = key.toLowerCase();
+    aByKey.set(k, [...(aByKey.get(k) ?? []), a]);
+  }
+
+  const pairs: Evidence[] = [];
+  const seenKeys = new Set<string>();
+  const window = c.timeWindowSeconds ?? 0;
+  for (const b of eventBList) {
+    const bKey = getDataFieldValue(b, joinField);
+    if (!bKey || !aByKey.has(bKey.toLowerCase())) continue;
+
+    const candidates = aByKey.get(bKey.toLowerCase())!
+      .filter((a) => a.time < b.time || (a.time === b.time && a.sequence < b.sequence))
+      .filter((a) => window <= 0 || (b.time - a.time) / 1000 <= window)
+      .sort((x, y) => y.time - x.time || y.sequence - x.sequence);
+    const a = candidates[0];
+    if (!a) continue;
+
+    if (seenKeys.has(bKey.toLowerCase())) continue;
+    seenKeys.add(bKey.toLowerCase());
+
+    const pair: Evidence = {
+      joinField,
+      joinValue: bKey,
+      eventA_eventId: a.eventId,
+      eventA_eventType: a.eventType,
+      eventA_timestamp: a.timestamp,
+      eventA_sequence: a.sequence,
+      eventB_eventId: b.eventId,
+      eventB_eventType: b.eventType,
+      eventB_timestamp: b.timestamp,
+      eventB_sequence: b.sequence,
+      timeDeltaSeconds: (b.time - a.time) / 1000,
+    };
+    addDataFieldsToEvidence(pair, a, 'eventA_');
+    addDataFieldsToEvidence(pair, b, 'eventB_');
+    pairs.push(pair);
+  }
+
+  if (pairs.length === 0) return { matched: false, evidence: 'no correlated event pairs found' };
+
+  const primary: Evidence = { ...pairs[0], totalMatches: pairs.length };
+  if (pairs.length > 1) {
+    primary.allMatches = pairs.slice(0, MAX_CORRELATION_MATCHES).map((p) => ({ ...p }));
+    primary.matchesTruncated = pairs.length > MAX_CORRELATION_MATCHES;
+  }
+  return { matched: true, evidence: primary };
+}
+
+function evaluateCondition(c: EvaluatorCondition, events: NormalizedEvent[], now: number): ConditionResult {
+  switch (c.source) {
+    case 'event_type':
+      return evaluateEventTypeCondition(c, events);
+    case 'event_data':
+      return evaluateEventDataCondition(c, events);
+    case 'event_data_array':
+      return evaluateEventDataArrayCondition(c, events);
+    case 'event_count':
+      return evaluateEventCountCondition(c, events);
+    case 'phase_duration':
+      return evaluatePhaseDurationCondition(c, events, now);
+    case 'app_install_duration':
+      return evaluateAppInstallDurationCondition(c, events);
+    case 'event_correlation':
+      return evaluateEventCorrelationCondition(c, events);
+    default:
+      return { matched: false, evidence: 'unknown source' };
+  }
+}
+
+// ===== Confidence factors =====
+
+/**
+ * The backend understands exactly three factor expressions: `phase_duration > N` (against the
+ * first matched evidence carrying durationSeconds), `exists` (the factor's signal matched as a
+ * condition) and `count >= N` (events whose type equals the factor's signal). Anything else
+ * never matches and is reported as unsupported.
+ */
+function evaluateConfidenceFactor(
+  factor: EvaluatorConfidenceFactor,
+  events: NormalizedEvent[],
+  matched: Record<string, unknown>,
+): { matched: boolean; supported: boolean } {
+  const cond = factor.condition ?? '';
+  if (cond.startsWith('phase_duration >')) {
+    const threshold = parseInt32(cond.replace('phase_duration >', '').trim());
+    if (threshold == null) return { matched: false, supported: false };
+    for (const mc of Object.values(matched)) {
+      if (mc && typeof mc === 'object' && 'durationSeconds' in mc) {
+        return { matched: Number((mc as Evidence).durationSeconds) > threshold, supported: true };
+      }
+    }
+    return { matched: false, supported: true };
+  }
+  if (cond === 'exists') return { matched: factor.signal in matched, supported: true };
+  if (cond.startsWith('count >=')) {
+    const threshold = parseInt32(cond.replace('count >=', '').trim());
+    if (threshold == null) return { matched: false, supported: false };
+    return { matched: events.filter((e) => e.eventType === factor.signal).length >= threshold, supported: true };
+  }
+  return { matched: false, supported: false };
+}
+
+// ===== Entry point =====
+
+function evaluateNormalized(rule: EvaluableRule, events: NormalizedEvent[], now: number): RuleEvaluation {
+  const baseConfidence = rule.baseConfidence ?? DEFAULT_BASE_CONFIDENCE;
+  const confidenceThreshold = rule.confidenceThreshold ?? DEFAULT_CONFIDENCE_THRESHOLD;
+
+  const evaluation: RuleEvaluation = {
+    ruleId: rule.ruleId,
+    fired: false,
+    outcome: 'skipped_by_precondition',
+    confidence: null,
+    baseConfidence,
+    confidenceThreshold,
+    preconditions: [],
+    conditions: [],
+    confidenceFactors: [],
+    matchedConditions: {},
+  };
+
+  // Preconditions: AND-gate, evaluation stops at the first failure (silent skip).
+  const preconditions = rule.preconditions ?? [];
+  for (let i = 0; i < preconditions.length; i++) {
+    const pre = preconditions[i];
+    const passed = evaluatePrecondition(pre, events);
+    evaluation.preconditions.push({
+      index: i,
+      eventType: pre.eventType ?? null,
+      dataField: pre.dataField ?? null,
+      operator: pre.operator ?? null,
+      value: pre.value ?? null,
+      passed,
+    });
+    if (!passed) return evaluation;
+  }
+
+  let requiredFailed = false;
+  for (const c of rule.conditions ?? []) {
+    const required = c.required ?? false;
+    if (requiredFailed) {
+      evaluation.conditions.push({ signal: c.signal, source: c.source, required, evaluated: false, matched: false, evidence: null });
+      continue;
+    }
+    const { matched, evidence } = evaluateCondition(c, events, now);
+    evaluation.conditions.push({ signal: c.signal, source: c.source, required, evaluated: true, matched, evidence });
+    if (required && !matched) requiredFailed = true;
+    else if (matched) evaluation.matchedConditions[c.signal] = evidence;
+  }
+
+  if (requiredFailed) {
+    evaluation.outcome = 'required_condition_failed';
+    return evaluation;
+  }
+  if (Object.keys(evaluation.matchedConditions).length === 0) {
+    evaluation.outcome = 'no_condition_matched';
+    return evaluation;
+  }
+
+  let confidence = baseConfidence;
+  for (const factor of rule.confidenceFactors ?? []) {
+    const { matched, supported } = evaluateConfidenceFactor(factor, events, evaluation.matchedConditions);
+    evaluation.confidenceFactors.push({ signal: factor.signal, condition: factor.condition, weight: factor.weight, matched, supported });
+    if (matched) {
+      confidence += factor.weight;
+      evaluation.matchedConditions[`factor_${factor.signal}`] = true;
+    }
+  }
+  confidence = Math.min(confidence, 100);
+  evaluation.confidence = confidence;
+
+  if (confidence < confidenceThreshold) {
+    evaluation.outcome = 'below_threshold';
+    return evaluation;
+  }
+  evaluation.fired = true;
+  evaluation.outcome = 'fired';
+  return evaluation;
+}
+
+/** Evaluate one analyze rule against a session's events and explain the verdict step by step. */
+export function evaluateAnalyzeRule(
+  rule: EvaluableRule,
+  events: EvaluatorEvent[],
+  options: EvaluateOptions = {},
+): RuleEvaluation {
+  return evaluateNormalized(rule, normalizeEvents(events), options.now ?? Date.now());
+}
+
+/** Evaluate several rules (e.g. a rules file or the whole rules/analyze folder) against one session. */
+export function evaluateAnalyzeRules(
+  rules: EvaluableRule[],
+  events: EvaluatorEvent[],
+  options: EvaluateOptions = {},
+): RuleEvaluation[] {
+  const normalized = normalizeEvents(events);
+  const now = options.now ?? Date.now();
+  return rules.map((rule) => evaluateNormalized(rule, normalized, now));
+}
@@ -0,0 +1,75 @@
+/**
+ * Search relevance evaluation CLI: `npm run search-eval`.
+ *
+ * Scores search_knowledge and search_events on their labelled query sets for each provider and
+ * prints a Markdown table (precision@k, recall@k, nDCG@k) with deltas against the committed
+ * baseline — run it before and after touching a provider or a ranking constant and paste the table
+ * into the PR. search_events runs against an in-process mock backend (same seed as the labels).
+ *
+ * Usage: npm run search-eval -- [--providers fuse,vector] [--k 5] [--baseline <file>] [--update-baseline] [--json <file>]
+ *   --providers        comma-separated backends (fuse | vector | hybrid), default fuse,vector
+ *   --k                cutoff for every metric, default 5
+ *   --baseline         report to compare against, default src/__tests__/search-eval/baseline.json
+ *   --update-baseline  write this run into the baseline (unavailable providers keep their old rows)
+ *   --json             also write the full per-query report
+ *
+ * The vector provider downloads its embedding model on first use; offline it is reported as
+ * unavailable rather than failing the run.
+ */
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { parsePositiveInt, RULES_DIR } from './config.js';
+import { MOCK_USERS, mintMockToken } from './mock-backend/fixtures.js';
+import { startMockBackend } from './mock-backend/server.js';
+import {
+  EVAL_MOCK_FIXTURE, evaluateSuite, formatScoreTable, loadQuerySet, mergeBaseline, type EvalReport, type ProviderScore,
+} from './search-eval.js';
+import type { SearchBackend } from './search-provider.js';
+
+const EVAL_DIR = 'src/__tests__/search-eval';
+
+const argv = process.argv.slice(2);
+const option = (name: string) => {
+  const i = argv.indexOf(name);
+  return i >= 0 ? argv[i + 1] : undefined;
+};
+
+const providers = (option('--providers') ?? 'fuse,vector').split(',').map((p) => p.trim()) as SearchBackend[];
+const unknown = providers.filter((p) => !['fuse', 'vector', 'hybrid'].includes(p));
+if (unknown.length > 0) {
+  console.error(`unknown provider(s): ${unknown.join(', ')} — expected fuse, vector or hybrid`);
+  process.exit(2);
+}
+const k = parsePositiveInt(option('--k'), 5);
+const baselineFile = option('--baseline') ?? `${EVAL_DIR}/baseline.json`;
+const baseline = existsSync(baselineFile) ? JSON.parse(readFileSync(baselineFile, 'utf-8')) as EvalReport : undefined;
+
+const sets = [loadQuerySet(`${EVAL_DIR}/knowledge-queries.json`), loadQuerySet(`${EVAL_DIR}/event-queries.json`)];
+const backend = await startMockBackend(0, EVAL_MOCK_FIXTURE);
+const globalAdmin = MOCK_USERS.find((u) => u.globalRole === 'GlobalAdmin')!;
+
+const report: EvalReport = { k, suites: {} };
+try {
+  for (const set of sets) {
+    const scores: ProviderScore[] = [];
+    for (const provider of providers) {
+      console.error(`[search-eval] ${set.suite} × ${provider} (${set.queries.length} queries)…`);
+      scores.push(await evaluateSuite(set, provider, k, {
+        rulesDir: RULES_DIR,
+        api: { url: backend.url, token: mintMockToken(globalAdmin) },
+      }));
+    }
+    report.suites[set.suite] = scores;
+  }
+} finally {
+  await backend.close();
+}
+
+console.log(formatScoreTable(report, baseline));
+if (baseline && baseline.k !== k) console.error(`[search-eval] baseline is @${baseline.k}, this run is @${k} — no deltas.`);
+
+const jsonFile = option('--json');
+if (jsonFile) writeFileSync(jsonFile, `${JSON.stringify(report, null, 2)}\n`);
+if (argv.includes('--update-baseline')) {
+  writeFileSync(baselineFile, `${JSON.stringify(mergeBaseline(baseline, report), null, 2)}\n`);
+  console.error(`[search-eval] baseline updated: ${baselineFile}`);
+}
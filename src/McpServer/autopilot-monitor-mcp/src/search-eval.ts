@@ -0,0 +1,251 @@
+/**
+ * Relevance evaluation for search_knowledge and search_events.
+ *
+ * Each suite is a labelled query set (src/__tests__/search-eval/*-queries.json): a query plus the
+ * documents that answer it, graded 1-3. The real tool runs every query against an index built by
+ * the provider under test, and its ranking is scored with
+ *   - precision@k — share of the top k that is labelled relevant;
+ *   - recall@k    — share of the labelled relevant set found in the top k;
+ *   - nDCG@k      — graded gain (2^grade − 1) discounted by log2(rank + 1), over the ideal ordering
+ *                   of the labels.
+ * search_knowledge is ranked by rule/pattern id. search_events ranks events, so its ranking is the
+ * distinct event types in hit order — the granularity the labels (and the ranking constants in
+ * tools/search.ts: FIELD_WEIGHTS, prioritizeFailureTypes, semantic floors) operate at. It runs
+ * against the seeded mock backend, so the event data is identical on every run.
+ *
+ * run-search-eval.ts is the CLI: it prints the score table with deltas against the committed
+ * baseline, which is how a ranking change shows its before/after.
+ */
+import { readFileSync } from 'node:fs';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { runWithCaller } from './client.js';
+import { API_BASE_URL } from './config.js';
+import { loadKnowledgeDocs } from './knowledge-base.js';
+import { buildEventTypeSearchDocs } from './resource-catalog.js';
+import { createSearchProvider } from './search-factory.js';
+import type { SearchBackend, SearchProvider } from './search-provider.js';
+import { invokeRegisteredTool, registerTools } from './tools.js';
+
+export type EvalSuiteName = 'search_knowledge' | 'search_events';
+
+export interface LabelledQuery {
+  query: string;
+  /** Relevant document id (rule/pattern id, or event type) → grade 1-3. Unlisted ids grade 0. */
+  relevant: Record<string, number>;
+}
+
+export interface LabelledQuerySet {
+  suite: EvalSuiteName;
+  description: string;
+  queries: LabelledQuery[];
+}
+
+export interface Metrics {
+  precision: number;
+  recall: number;
+  ndcg: number;
+}
+
+export interface QueryScore extends Metrics {
+  query: string;
+  ranked: string[];
+}
+
+export type ProviderScore =
+  | ({ provider: SearchBackend } & Metrics & { queries: QueryScore[] })
+  | { provider: SearchBackend; unavailable: string };
+
+export interface EvalReport {
+  k: number;
+  suites: Partial<Record<EvalSuiteName, ProviderScore[]>>;
+}
+
+/** Where the search_events suite's backend calls go (the mock backend) and who they run as. */
+export interface EvalBackend {
+  url: string;
+  token: string;
+}
+
+/** Mock backend fixture the search_events labels were written against (see event-queries.json). */
+export const EVAL_MOCK_FIXTURE = { seed: 42, sessionsPerTenant: 30, now: Date.parse('2026-03-02T12:00:00Z') };
+
+export function loadQuerySet(path: string): LabelledQuerySet {
+  return JSON.parse(readFileSync(path, 'utf-8')) as LabelledQuerySet;
+}
+
+// ── Metrics ──────────────────────────────────────────────────
+
+export function precisionAtK(ranked: string[], relevant: Record<string, number>, k: number): number {
+  return ranked.slice(0, k).filter((id) => (relevant[id] ?? 0) > 0).length / k;
+}
+
+export function recallAtK(ranked: string[], relevant: Record<string, number>, k: number): number {
+  const total = Object.values(relevant).filter((g) => g > 0).length;
+  if (total === 0) return 0;
+  return ranked.slice(0, k).filter((id) => (relevant[id] ?? 0) > 0).length / total;
+}
+
+const dcg = (grades: number[]) => grades.reduce((sum, g, i) => sum + (2 ** g - 1) / Math.log2(i + 2), 0);
+
+export function ndcgAtK(ranked: string[], relevant: Record<string, number>, k: number): number {
+  const ideal = dcg(Object.values(relevant).filter((g) => g > 0).sort((a, b) => b - a).slice(0, k));
+  if (ideal === 0) return 0;
+  return dcg(ranked.slice(0, k).map((id) => relevant[id] ?? 0)) / ideal;
+}
+
+const round3 = (x: number) => Math.round(x * 1000) / 1000;
+
+export function scoreQuery(q: LabelledQuery, ranked: string[], k: number): QueryScore {
+  return {
+    query: q.query,
+    precision: round3(precisionAtK(ranked, q.relevant, k)),
+    recall: round3(recallAtK(ranked, q.relevant, k)),
+    ndcg: round3(ndcgAtK(ranked, q.relevant, k)),
+    ranked: ranked.slice(0, k),
+  };
+}
+
+function mean(scores: QueryScore[], metric: keyof Metrics): number {
+  return scores.length === 0 ? 0 : round3(scores.reduce((sum, s) => sum + s[metric], 0) / scores.length);
+}
+
+// ── Running the tools ────────────────────────────────────────
+
+type ToolData = Record<string, unknown>;
+
+async function callTool(server: McpServer, name: string, args: Record<string, unknown>, token: string): Promise<ToolData> {
+  const result = await runWithCaller({ token, isGlobalAdmin: true }, () => invokeRegisteredTool(server, name, args));
+  const first = result.content[0];
+  const text = first?.type === 'text' ? first.text : '';
+  if (result.isError) throw new Error(`${name} failed for "${String(args.query)}": ${text}`);
+  return JSON.parse(text) as ToolData;
+}
+
+/**
+ * The tools' client is bound to API_BASE_URL at import, so the search_events suite points it at the
+ * mock backend by rewriting fetch URLs for the duration of the run. Restores the original fetch.
+ */
+async function withBackendAt<T>(url: string, fn: () => Promise<T>): Promise<T> {
+  const realFetch = globalThis.fetch;
+  globalThis.fetch = ((input: string | URL | Request, init?: RequestInit) =>
+    realFetch(typeof input === 'string' || input instanceof URL ? String(input).replace(API_BASE_URL, url) : input, init)) as typeof fetch;
+  try {
+    return await fn();
+  } finally {
+    globalThis.fetch = realFetch;
+  }
+}
+
+async function buildProvider(backend: SearchBackend, docs: Parameters<SearchProvider['index']>[0]): Promise<SearchProvider> {
+  const provider = await createSearchProvider(backend);
+  await provider.index(docs);
+  return provider;
+}
+
+async function rankKnowledge(set: LabelledQuerySet, backend: SearchBackend, k: number, rulesDir: string): Promise<QueryScore[]> {
+  const knowledgeBase = await buildProvider(backend, await loadKnowledgeDocs(rulesDir));
+  const server = new McpServer({ name: 'search-eval', version: '0.0.0' });
+  registerTools(server, knowledgeBase, undefined, true);
+  const scores: QueryScore[] = [];
+  for (const q of set.queries) {
+    const data = await callTool(server, 'search_knowledge', { query: q.query, topK: k }, 'search-eval');
+    scores.push(scoreQuery(q, (data.results as Array<{ id: string }>).map((r) => r.id), k));
+  }
+  return scores;
+}
+
+async function rankEvents(set: LabelledQuerySet, backend: SearchBackend, k: number, api: EvalBackend): Promise<QueryScore[]> {
+  // Candidate selection needs genuine cosines, so hybrid evaluates with a plain vector type index
+  // — the same choice the server makes at boot.
+  const eventTypeIndex = await buildProvider(backend === 'hybrid' ? 'vector' : backend, buildEventTypeSearchDocs());
+  const server = new McpServer({ name: 'search-eval', version: '0.0.0' });
+  registerTools(server, undefined, eventTypeIndex, true);
+  return withBackendAt(api.url, async () => {
+    const scores: QueryScore[] = [];
+    for (const q of set.queries) {
+      // topK 50 (the max) leaves room for k distinct types behind repeated hits of the strongest one.
+      const data = await callTool(server, 'search_events', { query: q.query, topK: 50, guaranteedTopRanked: 0 }, api.token);
+      const types = [...new Set((data.results as Array<{ eventType: string }>).map((r) => r.eventType))];
+      scores.push(scoreQuery(q, types, k));
+    }
+    return scores;
+  });
+}
+
+/**
+ * Scores one suite for one provider. A provider that cannot be built here (e.g. the vector model
+ * is not downloadable offline) is reported as unavailable instead of failing the whole run.
+ */
+export async function evaluateSuite(
+  set: LabelledQuerySet,
+  backend: SearchBackend,
+  k: number,
+  env: { rulesDir: string; api: EvalBackend },
+): Promise<ProviderScore> {
+  let queries: QueryScore[];
+  try {
+    queries = set.suite === 'search_knowledge'
+      ? await rankKnowledge(set, backend, k, env.rulesDir)
+      : await rankEvents(set, backend, k, env.api);
+  } catch (err: unknown) {
+    return { provider: backend, unavailable: err instanceof Error ? err.message : String(err) };
+  }
+  return {
+    provider: backend,
+    precision: mean(queries, 'precision'),
+    recall: mean(queries, 'recall'),
+    ndcg: mean(queries, 'ndcg'),
+    queries,
+  };
+}
+
+// ── Reporting ────────────────────────────────────────────────
+
+function findScore(report: EvalReport | undefined, suite: EvalSuiteName, provider: SearchBackend): ProviderScore | undefined {
+  return report?.suites[suite]?.find((s) => s.provider === provider);
+}
+
+function cell(value: number, before: number | undefined): string {
+  if (before === undefined) return value.toFixed(3);
+  const delta = round3(value - before);
+  return `${value.toFixed(3)} (${delta >= 0 ? '+' : ''}${delta.toFixed(3)})`;
+}
+
+/** Markdown score table; with a baseline every metric carries its delta against it. */
+export function formatScoreTable(report: EvalReport, baseline?: EvalReport): string {
+  const k = report.k;
+  const lines = [
+    `| suite | provider | P@${k} | R@${k} | nDCG@${k} |`,
+    '|---|---|---|---|---|',
+  ];
+  for (const [suite, scores] of Object.entries(report.suites) as Array<[EvalSuiteName, ProviderScore[]]>) {
+    for (const score of scores) {
+      if ('unavailable' in score) {
+        lines.push(`| ${suite} | ${score.provider} | — | — | — (unavailable: ${score.unavailable.split('\n')[0]}) |`);
+        continue;
+      }
+      const before = baseline && baseline.k === k ? findScore(baseline, suite, score.provider) : undefined;
+      const prior = before && !('unavailable' in before) ? before : undefined;
+      lines.push(`| ${suite} | ${score.provider} | ${cell(score.precision, prior?.precision)} | ${cell(score.recall, prior?.recall)} | ${cell(score.ndcg, prior?.ndcg)} |`);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Merges `report` into `baseline`: evaluated providers replace their entries, providers that were
+ * unavailable in this run keep their previous baseline (so an offline run never erases the vector
+ * numbers recorded by an online one).
+ */
+export function mergeBaseline(baseline: EvalReport | undefined, report: EvalReport): EvalReport {
+  if (!baseline || baseline.k !== report.k) return report;
+  const merged: EvalReport = { k: report.k, suites: { ...baseline.suites } };
+  for (const [suite, scores] of Object.entries(report.suites) as Array<[EvalSuiteName, ProviderScore[]]>) {
+    const kept = new Map((merged.suites[suite] ?? []).map((s) => [s.provider, s] as const));
+    for (const score of scores) {
+      if (!('unavailable' in score) || !kept.has(score.provider)) kept.set(score.provider, score);
+    }
+    merged.suites[suite] = [...kept.values()];
+  }
+  return merged;
+}
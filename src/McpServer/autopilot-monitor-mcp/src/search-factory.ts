@@ -2,16 +2,19 @@
  * Factory for creating SearchProvider instances.
  *
  * Selection logic:
- *   1. Explicit env var SEARCH_BACKEND=vector|fuse  →  use that
+ *   1. Explicit env var SEARCH_BACKEND=vector|fuse|hybrid  →  use that
  *   2. Auto-detect: try to load @huggingface/transformers
  *      - available  →  vector
  *      - missing    →  fuse (graceful fallback)
  *
  * This allows running the MCP server without the ~23 MB model download
  * by setting SEARCH_BACKEND=fuse or simply not installing @huggingface/transformers.
+ * `hybrid` is opt-in: it runs vector + fuse and fuses their rankings (hybrid-search-provider.ts),
+ * so it needs the model too.
  */
 
 import type { SearchBackend, SearchProvider } from './search-provider.js';
+import type { EmbeddingCache } from './embedding-cache.js';
 
 async function isTransformersAvailable(): Promise<boolean> {
   try {
@@ -24,21 +27,35 @@ async function isTransformersAvailable(): Promise<boolean> {
 
 export async function resolveBackend(): Promise<SearchBackend> {
   const explicit = process.env.SEARCH_BACKEND?.toLowerCase();
-  if (explicit === 'vector' || explicit === 'fuse') return explicit;
+  if (explicit === 'vector' || explicit === 'fuse' || explicit === 'hybrid') return explicit;
 
   return (await isTransformersAvailable()) ? 'vector' : 'fuse';
 }
 
+export interface SearchProviderOptions {
+  /** Shared content-hash embedding cache for vector-backed providers (see embedding-cache.ts). */
+  embeddingCache?: EmbeddingCache;
+}
+
 /**
  * Create a new SearchProvider instance.
  * Pass a backend explicitly, or let it auto-detect.
  */
-export async function createSearchProvider(backend?: SearchBackend): Promise<SearchProvider> {
+export async function createSearchProvider(backend?: SearchBackend, options: SearchProviderOptions = {}): Promise<SearchProvider> {
   const resolved = backend ?? await resolveBackend();
 
+  if (resolved === 'hybrid') {
+    const [{ HybridSearchProvider }, semantic, fuzzy] = await Promise.all([
+      import('./hybrid-search-provider.js'),
+      createSearchProvider('vector', options),
+      createSearchProvider('fuse'),
+    ]);
+    return new HybridSearchProvider(semantic, fuzzy);
+  }
+
   if (resolved === 'vector') {
     const { VectorSearchProvider } = await import('./vector-search-provider.js');
-    return new VectorSearchProvider();
+    return new VectorSearchProvider(options.embeddingCache);
   }
 
   const { FuseSearchProvider } = await import('./fuse-search-provider.js');
@@ -0,0 +1,83 @@
+/**
+ * Golden set for search_events ranking: agent-style queries, each with a cassette of the backend responses
+ * it produced and the top hits it is expected to rank. The recorder (record-cassettes.ts) fills the
+ * cassettes; search-golden.test.ts replays them, so a ranking change in tools/search.ts (field
+ * weights, prioritizeFailureTypes, semantic floors) shows up as a diff against `expectedTop`
+ * instead of a shift nobody notices.
+ *
+ * The checked-in set is recorded against the mock backend's seeded fixtures, so it pins ranking
+ * behaviour, not ranking quality on real tenant data — see the set's `description`.
+ *
+ * The event-type index is the fuse provider over the static catalog — deterministic and free of a
+ * model download, so recording and replay select the same candidate types.
+ */
+import { readFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { runWithCaller } from './client.js';
+import { runWithCassette, type Cassette } from './cassette.js';
+import { buildEventTypeSearchDocs } from './resource-catalog.js';
+import { createSearchProvider } from './search-factory.js';
+import type { SearchProvider } from './search-provider.js';
+import { invokeRegisteredTool, registerTools } from './tools.js';
+
+export interface GoldenHit {
+  eventType: string;
+  sessionId: string;
+}
+
+export interface SearchGoldenCase {
+  name: string;
+  /** search_events arguments, as an agent would send them. */
+  args: Record<string, unknown>;
+  /** Cassette file, relative to the golden-set file. */
+  cassette: string;
+  expectedTop: GoldenHit[];
+}
+
+export interface SearchGoldenSet {
+  /** Where the cassettes came from and what `expectedTop` does (and doesn't) vouch for. */
+  description?: string;
+  /** Platform role the cassettes were recorded with — it decides /api vs /api/global routing. */
+  caller: { isGlobalAdmin: boolean };
+  /** How many leading hits each case pins. */
+  topN: number;
+  cases: SearchGoldenCase[];
+}
+
+export function loadGoldenSet(path: string): SearchGoldenSet {
+  return JSON.parse(readFileSync(path, 'utf-8')) as SearchGoldenSet;
+}
+
+export function cassettePath(goldenFile: string, c: SearchGoldenCase): string {
+  return resolve(dirname(goldenFile), c.cassette);
+}
+
+export async function buildGoldenEventTypeIndex(): Promise<SearchProvider> {
+  const index = await createSearchProvider('fuse');
+  await index.index(buildEventTypeSearchDocs());
+  return index;
+}
+
+/**
+ * Runs search_events for one case with every backend call going through `cassette` (recording or
+ * replaying) and returns its leading hits. `token` is only sent when recording.
+ */
+export async function runGoldenCase(
+  set: SearchGoldenSet,
+  c: SearchGoldenCase,
+  cassette: Cassette,
+  eventTypeIndex: SearchProvider,
+  token = 'cassette-replay',
+): Promise<GoldenHit[]> {
+  const { isGlobalAdmin } = set.caller;
+  const server = new McpServer({ name: 'search-golden', version: '0.0.0' });
+  registerTools(server, undefined, eventTypeIndex, isGlobalAdmin, isGlobalAdmin, false);
+  const result = await runWithCassette(cassette, () =>
+    runWithCaller({ token, isGlobalAdmin }, () => invokeRegisteredTool(server, 'search_events', c.args)));
+  const first = result.content[0];
+  const text = first?.type === 'text' ? first.text : '';
+  if (result.isError) throw new Error(`search_events failed for "${c.name}": ${text}`);
+  const data = JSON.parse(text) as { results: GoldenHit[] };
+  return data.results.slice(0, set.topN).map((r) => ({ eventType: r.eventType, sessionId: r.sessionId }));
+}
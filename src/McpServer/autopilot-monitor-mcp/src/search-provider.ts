@@ -20,6 +20,19 @@ export interface SearchResult {
   metadata: Record<string, unknown>;
   /** Relevance score — always normalized to 0..1 regardless of backend. */
   score: number;
+  /** Per-backend breakdown of `score` — set only by fusing providers (hybrid). */
+  contributions?: BackendContribution[];
+}
+
+export interface BackendContribution {
+  /** Contributing ranking: a provider name, or "error-code" for the literal lexicalMatch list. */
+  backend: string;
+  /** 1-based rank of the document in that backend's result list. */
+  rank: number;
+  /** The backend's own score (cosine, inverted Fuse score, or 1.0 for a literal hit) — NOT comparable across backends. */
+  backendScore: number;
+  /** This backend's share of the fused score (contributions sum to `score`). */
+  share: number;
 }
 
 export interface SearchOptions {
@@ -27,6 +40,17 @@ export interface SearchOptions {
   minScore?: number;
 }
 
+export interface ReindexStats {
+  /** Documents indexed after the swap. */
+  total: number;
+  /** Documents whose embedding had to be computed (new or changed text). 0 for non-embedding backends. */
+  embedded: number;
+  /** Documents whose embedding was reused from the content-hash cache. */
+  reused: number;
+  /** Previously indexed ids no longer in the corpus. */
+  removed: number;
+}
+
 // ── Provider contract ────────────────────────────────────────
 
 export interface SearchProvider {
@@ -52,6 +76,14 @@ export interface SearchProvider {
    */
   index(docs: SearchDocument[]): Promise<void>;
 
+  /**
+   * Replace the indexed corpus with `docs` (hot reload after rule edits). Embedding backends reuse
+   * vectors for unchanged text and embed only the delta; the swap is atomic, so a search running
+   * concurrently sees either the old or the new corpus, never a half-built one. Optional — a
+   * provider without it can only be rebuilt by restarting the server.
+   */
+  reindex?(docs: SearchDocument[]): Promise<ReindexStats>;
+
   /**
    * Search indexed documents by a natural-language query string.
    * Returns results sorted by descending relevance.
@@ -87,6 +119,31 @@ export function scanLexical(documents: SearchDocument[], needles: string[]): Sea
   return hits;
 }
 
+/**
+ * Pull opaque error-code tokens (HRESULT / Win32 / NTSTATUS hex) out of a query. These embed
+ * poorly — to a sentence-transformer "0x87D1041C" is near-random noise — so a semantic search can
+ * rank a rule that names the code verbatim below the default minScore (0.3) and drop it (observed:
+ * the TPM rule scored 0.259 for an error-code query). The returned needles are the lowercased hex
+ * cores with any `0x` prefix stripped, so a single case-insensitive substring scan matches whether
+ * the query or the indexed doc wrote the prefix (query "87D1041C" still finds doc "0x87D1041C").
+ *
+ * Bare (un-prefixed) hex must contain at least one a-f letter and be 6-8 chars, so plain decimal
+ * numbers — dates, counts, build numbers — never trigger the fallback. `0x`-prefixed tokens are
+ * always codes, so those accept 4-8 digits (covers short Win32 HRESULTs like 0x801c03ed).
+ */
+export function extractErrorCodeNeedles(query: string): string[] {
+  const needles = new Set<string>();
+  // 0x-prefixed hex (0x80070002, 0x87D1041C). The `x` is not in [0-9a-f], so the bare-hex pass
+  // below can never re-match the same digits — no double counting.
+  for (const m of query.matchAll(/\b0x([0-9a-f]{4,8})\b/gi)) needles.add(m[1].toLowerCase());
+  // Bare HRESULT-shaped hex: 6-8 chars with at least one a-f letter (87D1041C) — the letter
+  // requirement excludes pure decimals that aren't error codes.
+  for (const m of query.matchAll(/\b([0-9a-f]{6,8})\b/gi)) {
+    if (/[a-f]/i.test(m[1])) needles.add(m[1].toLowerCase());
+  }
+  return [...needles];
+}
+
 // ── Provider identifiers ─────────────────────────────────────
 
-export type SearchBackend = 'vector' | 'fuse';
+export type SearchBackend = 'vector' | 'fuse' | 'hybrid';
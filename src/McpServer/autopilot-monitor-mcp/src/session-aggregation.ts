@@ -0,0 +1,141 @@
+/**
+ * Group-by aggregation over session rows — the engine behind the `aggregate_sessions` tool.
+ * Counting questions ("success rate per model last month", "p90 duration by agent version") used
+ * to mean the model paging search_sessions with a lean projection and tallying in its head; this
+ * module does the tally over every page the tool drained.
+ *
+ * Pure and backend-free: the tool pages through the sessions matching the filters and hands the
+ * rows in. Missing dimension values group under `null` rather than being dropped, so group counts
+ * always add up to the number of sessions scanned.
+ */
+import { normalizeFailureReason } from './failure-clusters.js';
+
+type Row = Record<string, unknown>;
+
+export const AGGREGATE_DIMENSIONS = ['status', 'model', 'agentVersion', 'osBuild', 'geoCountry', 'failureReason', 'week'] as const;
+export type AggregateDimension = (typeof AGGREGATE_DIMENSIONS)[number];
+
+export const AGGREGATE_METRICS = ['count', 'successRate', 'durationP50', 'durationP90', 'meanReboots'] as const;
+export type AggregateMetric = (typeof AGGREGATE_METRICS)[number];
+
+/** Lean projection with exactly the fields the dimensions and metrics read. */
+export const AGGREGATE_SESSION_FIELDS =
+  'sessionId,status,model,agentVersion,osBuild,geoCountry,failureReason,startedAt,completedAt,durationSeconds,rebootCount';
+
+export interface AggregateGroup {
+  key: Partial<Record<AggregateDimension, string | null>>;
+  count: number;
+  /** Succeeded / (Succeeded + Failed); null when the group has no finished session. */
+  successRate?: number | null;
+  durationP50Seconds?: number | null;
+  durationP90Seconds?: number | null;
+  meanReboots?: number | null;
+}
+
+export interface AggregateResult {
+  groupBy: AggregateDimension[];
+  metrics: AggregateMetric[];
+  sessionsAggregated: number;
+  groupCount: number;
+  groups: AggregateGroup[];
+  /** Groups beyond maxGroups, folded into one row so totals still add up. */
+  otherGroups: AggregateGroup | null;
+}
+
+const str = (v: unknown): string | null => (v == null || v === '' ? null : String(v));
+
+/** ISO-8601 week label ("2026-W09") of a timestamp, or null when unparsable. */
+export function isoWeek(value: unknown): string | null {
+  const ms = Date.parse(String(value ?? ''));
+  if (Number.isNaN(ms)) return null;
+  const d = new Date(ms);
+  const day = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+  // The week's Thursday decides the ISO year.
+  day.setUTCDate(day.getUTCDate() + 4 - (day.getUTCDay() || 7));
+  const year = day.getUTCFullYear();
+  const week = Math.ceil(((day.getTime() - Date.UTC(year, 0, 1)) / 86_400_000 + 1) / 7);
+  return `${year}-W${String(week).padStart(2, '0')}`;
+}
+
+function dimensionValue(row: Row, dim: AggregateDimension): string | null {
+  switch (dim) {
+    case 'failureReason': return normalizeFailureReason(row.failureReason);
+    case 'week': return isoWeek(row.startedAt);
+    default: return str(row[dim]);
+  }
+}
+
+/** Duration in seconds: durationSeconds when present, else completedAt - startedAt. Unfinished sessions have none. */
+export function sessionDurationSeconds(row: Row): number | null {
+  const d = Number(row.durationSeconds);
+  if (row.durationSeconds != null && Number.isFinite(d) && d >= 0) return d;
+  const start = Date.parse(String(row.startedAt ?? ''));
+  const end = Date.parse(String(row.completedAt ?? ''));
+  if (Number.isNaN(start) || Number.isNaN(end) || end < start) return null;
+  return Math.round((end - start) / 1000);
+}
+
+/** Nearest-rank percentile of an ascending-sorted list. */
+export function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+const round = (n: number, digits: number) => Math.round(n * 10 ** digits) / 10 ** digits;
+
+function summarize(key: AggregateGroup['key'], rows: Row[], metrics: AggregateMetric[]): AggregateGroup {
+  const group: AggregateGroup = { key, count: rows.length };
+  if (metrics.includes('successRate')) {
+    const succeeded = rows.filter((r) => r.status === 'Succeeded').length;
+    const finished = succeeded + rows.filter((r) => r.status === 'Failed').length;
+    group.successRate = finished ? round(succeeded / finished, 4) : null;
+  }
+  if (metrics.includes('durationP50') || metrics.includes('durationP90')) {
+    const durations = rows.map(sessionDurationSeconds).filter((d): d is number => d !== null).sort((a, b) => a - b);
+    if (metrics.includes('durationP50')) group.durationP50Seconds = percentile(durations, 50);
+    if (metrics.includes('durationP90')) group.durationP90Seconds = percentile(durations, 90);
+  }
+  if (metrics.includes('meanReboots')) {
+    // rebootCount is only populated for v2 enrollments; sessions without it are left out of the mean.
+    const reboots = rows.map((r) => Number(r.rebootCount)).filter((n, i) => rows[i].rebootCount != null && Number.isFinite(n));
+    group.meanReboots = reboots.length ? round(reboots.reduce((a, b) => a + b, 0) / reboots.length, 2) : null;
+  }
+  return group;
+}
+
+export function aggregateSessions(
+  rows: Row[],
+  groupBy: AggregateDimension[],
+  metrics: AggregateMetric[],
+  maxGroups: number,
+): AggregateResult {
+  const buckets = new Map<string, { key: AggregateGroup['key']; rows: Row[] }>();
+  for (const row of rows) {
+    const key = Object.fromEntries(groupBy.map((d) => [d, dimensionValue(row, d)])) as AggregateGroup['key'];
+    const id = JSON.stringify(groupBy.map((d) => key[d]));
+    let bucket = buckets.get(id);
+    if (!bucket) {
+      bucket = { key, rows: [] };
+      buckets.set(id, bucket);
+    }
+    bucket.rows.push(row);
+  }
+
+  // Week buckets read best chronologically; everything else largest-first.
+  const ordered = [...buckets.values()].sort((a, b) =>
+    groupBy.length === 1 && groupBy[0] === 'week'
+      ? String(a.key.week ?? '').localeCompare(String(b.key.week ?? ''))
+      : b.rows.length - a.rows.length);
+  const kept = ordered.slice(0, maxGroups);
+  const rest = ordered.slice(maxGroups);
+
+  return {
+    groupBy,
+    metrics,
+    sessionsAggregated: rows.length,
+    groupCount: buckets.size,
+    groups: kept.map((b) => summarize(b.key, b.rows, metrics)),
+    otherGroups: rest.length ? summarize({}, rest.flatMap((b) => b.rows), metrics) : null,
+  };
+}
@@ -0,0 +1,264 @@
+/**
+ * Structured side-by-side diff of two enrollment sessions — the engine behind the
+ * `compare_sessions` tool. The "works on one laptop, fails on the other" triage used to
+ * mean pulling both summaries + event streams into the chat and diffing them by eye; this
+ * module does the diff deterministically so the model only has to explain it.
+ *
+ * Pure and backend-free: the tool fetches session, events and analysis for both sides and
+ * hands the raw payloads in. Every input shape is read defensively (enriched camelCase
+ * events as returned by /api/sessions/{id}/events), so a partial payload degrades to an
+ * empty section rather than throwing.
+ */
+
+type Row = Record<string, unknown>;
+
+/** Device-property event types whose payloads are diffed key by key. */
+export const DEVICE_PROPERTY_EVENT_TYPES = ['hardware_spec', 'tpm_status'] as const;
+
+/** Session metadata fields compared in the overview section. */
+const OVERVIEW_FIELDS = [
+  'status', 'failureReason', 'durationSeconds', 'currentPhase', 'enrollmentType',
+  'isPreProvisioned', 'isHybridJoin', 'isUserDriven', 'isSelfDeployingProfile',
+  'manufacturer', 'model', 'osBuild', 'osEdition', 'agentVersion', 'imeAgentVersion', 'geoCountry',
+] as const;
+
+/** Caps per list section so a noisy pair can't blow the small-response budget. */
+const MAX_EVENT_TYPE_DIFFS = 40;
+const MAX_APP_DIFFS = 60;
+
+export interface PhaseDurationDiff {
+  phase: string;
+  aSeconds: number | null;
+  bSeconds: number | null;
+  deltaSeconds: number | null;
+}
+
+export interface AppOutcomeDiff {
+  app: string;
+  a: string | null;
+  b: string | null;
+}
+
+export interface EventTypeDiff {
+  eventType: string;
+  aCount: number;
+  bCount: number;
+}
+
+export interface ValueDiff {
+  key: string;
+  a: unknown;
+  b: unknown;
+}
+
+export interface RuleDiffEntry {
+  ruleId: string;
+  ruleTitle: unknown;
+  severity: unknown;
+}
+
+export interface SessionComparison {
+  overviewDifferences: ValueDiff[];
+  phaseDurations: PhaseDurationDiff[];
+  appInstalls: { differing: AppOutcomeDiff[]; identicalCount: number; truncated: boolean };
+  eventTypes: { onlyInA: EventTypeDiff[]; onlyInB: EventTypeDiff[]; countDiffers: EventTypeDiff[]; truncated: boolean };
+  deviceProperties: ValueDiff[];
+  rules: { onlyInA: RuleDiffEntry[]; onlyInB: RuleDiffEntry[]; inBoth: string[] };
+}
+
+export interface SessionSide {
+  session: Row;
+  events: Row[];
+  /** Raw /analysis payload (`{ results: [...] }`) or null when none exists yet. */
+  analysis: Row | null;
+}
+
+const ts = (e: Row): number => Date.parse(String(e.timestamp ?? ''));
+
+function phaseLabel(e: Row): string {
+  if (typeof e.phaseName === 'string' && e.phaseName) return e.phaseName;
+  return e.phase == null ? 'Unknown' : String(e.phase);
+}
+
+/**
+ * Seconds spent per phase, derived from the event stream: events are walked in time order
+ * and each contiguous run of one phase is a segment ending where the next phase's first event
+ * begins (the last segment ends at the final event). A revisited phase sums its segments.
+ */
+export function computePhaseDurations(events: Row[]): Map<string, number> {
+  const timed = events.filter((e) => !Number.isNaN(ts(e))).sort((a, b) => ts(a) - ts(b));
+  const out = new Map<string, number>();
+  let segPhase: string | null = null;
+  let segStart = 0;
+  for (const e of timed) {
+    const p = phaseLabel(e);
+    if (p === segPhase) continue;
+    if (segPhase !== null) out.set(segPhase, (out.get(segPhase) ?? 0) + (ts(e) - segStart) / 1000);
+    segPhase = p;
+    segStart = ts(e);
+  }
+  if (segPhase !== null) {
+    out.set(segPhase, (out.get(segPhase) ?? 0) + (ts(timed[timed.length - 1]) - segStart) / 1000);
+  }
+  return out;
+}
+
+/** Display name for an app-install event: appName → appId → source. */
+function appKey(e: Row): string | undefined {
+  const d = (e.data ?? {}) as Row;
+  const name = d.appName ?? d.appId ?? e.source;
+  return typeof name === 'string' && name ? name : undefined;
+}
+
+const APP_OUTCOMES: Record<string, string> = {
+  app_install_started: 'started',
+  app_install_completed: 'completed',
+  app_install_failed: 'failed',
+  app_install_skipped: 'skipped',
+};
+
+/**
+ * Final outcome per app. A terminal outcome (completed/failed/skipped) is never overwritten by a
+ * later `started` retry signal, but a later terminal outcome wins — a failed-then-succeeded retry
+ * reads as completed, matching what the session ultimately delivered.
+ */
+export function computeAppOutcomes(events: Row[]): Map<string, string> {
+  const out = new Map<string, string>();
+  const ordered = [...events].sort((a, b) => (ts(a) || 0) - (ts(b) || 0));
+  for (const e of ordered) {
+    const outcome = APP_OUTCOMES[String(e.eventType ?? '')];
+    if (!outcome) continue;
+    const app = appKey(e);
+    if (!app) continue;
+    const prev = out.get(app);
+    if (outcome === 'started' && prev && prev !== 'started') continue;
+    out.set(app, outcome);
+  }
+  return out;
+}
+
+function countEventTypes(events: Row[]): Map<string, number> {
+  const m = new Map<string, number>();
+  for (const e of events) {
+    const et = String(e.eventType ?? '');
+    if (et) m.set(et, (m.get(et) ?? 0) + 1);
+  }
+  return m;
+}
+
+/**
+ * Flattened `eventType.key` → value map from the LATEST hardware_spec / tpm_status event's data
+ * payload — the same dot notation as the deviceProperties search filter, so a difference found
+ * here can be fed straight back into search_sessions.
+ */
+export function extractDeviceProperties(events: Row[]): Map<string, unknown> {
+  const out = new Map<string, unknown>();
+  for (const type of DEVICE_PROPERTY_EVENT_TYPES) {
+    const latest = events
+      .filter((e) => e.eventType === type && e.data && typeof e.data === 'object')
+      .sort((a, b) => (ts(b) || 0) - (ts(a) || 0))[0];
+    if (!latest) continue;
+    for (const [k, v] of Object.entries(latest.data as Row)) out.set(`${type}.${k}`, v);
+  }
+  return out;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function diffMaps(a: Map<string, unknown>, b: Map<string, unknown>): ValueDiff[] {
+  const keys = [...new Set([...a.keys(), ...b.keys()])].sort();
+  return keys
+    .filter((k) => !sameValue(a.get(k), b.get(k)))
+    .map((k) => ({ key: k, a: a.get(k) ?? null, b: b.get(k) ?? null }));
+}
+
+function ruleResults(analysis: Row | null): Map<string, RuleDiffEntry> {
+  const out = new Map<string, RuleDiffEntry>();
+  const results = Array.isArray(analysis?.results) ? (analysis!.results as Row[]) : [];
+  for (const r of results) {
+    const ruleId = typeof r.ruleId === 'string' ? r.ruleId : undefined;
+    if (!ruleId) continue;
+    out.set(ruleId, { ruleId, ruleTitle: r.ruleTitle ?? r.title, severity: r.severity });
+  }
+  return out;
+}
+
+/** Build the structured diff between two sessions (A = typically the failing one, B = the healthy reference). */
+export function compareSessions(a: SessionSide, b: SessionSide): SessionComparison {
+  // Overview.
+  const overviewDifferences: ValueDiff[] = [];
+  for (const f of OVERVIEW_FIELDS) {
+    const av = a.session[f] ?? null;
+    const bv = b.session[f] ?? null;
+    if (!sameValue(av, bv)) overviewDifferences.push({ key: f, a: av, b: bv });
+  }
+
+  // Phase durations — every phase either side visited, in first-seen order of A then B.
+  const pa = computePhaseDurations(a.events);
+  const pb = computePhaseDurations(b.events);
+  const round = (n: number | undefined) => (n == null ? null : Math.round(n));
+  const phaseDurations = [...new Set([...pa.keys(), ...pb.keys()])].map((phase) => {
+    const aSeconds = round(pa.get(phase));
+    const bSeconds = round(pb.get(phase));
+    return {
+      phase,
+      aSeconds,
+      bSeconds,
+      deltaSeconds: aSeconds != null && bSeconds != null ? aSeconds - bSeconds : null,
+    };
+  });
+
+  // App installs — only apps whose outcome differs (incl. present on one side only).
+  const aa = computeAppOutcomes(a.events);
+  const ab = computeAppOutcomes(b.events);
+  const apps = [...new Set([...aa.keys(), ...ab.keys()])].sort();
+  const differingApps = apps
+    .filter((app) => aa.get(app) !== ab.get(app))
+    .map((app) => ({ app, a: aa.get(app) ?? null, b: ab.get(app) ?? null }))
+    // Failures first — they are what the triage is looking for.
+    .sort((x, y) => Number(y.a === 'failed' || y.b === 'failed') - Number(x.a === 'failed' || x.b === 'failed'));
+
+  // Event types — presence and count differences.
+  const ca = countEventTypes(a.events);
+  const cb = countEventTypes(b.events);
+  const onlyInA: EventTypeDiff[] = [];
+  const onlyInB: EventTypeDiff[] = [];
+  const countDiffers: EventTypeDiff[] = [];
+  for (const et of [...new Set([...ca.keys(), ...cb.keys()])].sort()) {
+    const entry = { eventType: et, aCount: ca.get(et) ?? 0, bCount: cb.get(et) ?? 0 };
+    if (entry.bCount === 0) onlyInA.push(entry);
+    else if (entry.aCount === 0) onlyInB.push(entry);
+    else if (entry.aCount !== entry.bCount) countDiffers.push(entry);
+  }
+  countDiffers.sort((x, y) => Math.abs(y.aCount - y.bCount) - Math.abs(x.aCount - x.bCount));
+  const eventTypesTruncated =
+    onlyInA.length > MAX_EVENT_TYPE_DIFFS || onlyInB.length > MAX_EVENT_TYPE_DIFFS || countDiffers.length > MAX_EVENT_TYPE_DIFFS;
+
+  // Rules fired.
+  const ra = ruleResults(a.analysis);
+  const rb = ruleResults(b.analysis);
+
+  return {
+    overviewDifferences,
+    phaseDurations,
+    appInstalls: {
+      differing: differingApps.slice(0, MAX_APP_DIFFS),
+      identicalCount: apps.length - differingApps.length,
+      truncated: differingApps.length > MAX_APP_DIFFS,
+    },
+    eventTypes: {
+      onlyInA: onlyInA.slice(0, MAX_EVENT_TYPE_DIFFS),
+      onlyInB: onlyInB.slice(0, MAX_EVENT_TYPE_DIFFS),
+      countDiffers: countDiffers.slice(0, MAX_EVENT_TYPE_DIFFS),
+      truncated: eventTypesTruncated,
+    },
+    deviceProperties: diffMaps(extractDeviceProperties(a.events), extractDeviceProperties(b.events)),
+    rules: {
+      onlyInA: [...ra.values()].filter((r) => !rb.has(r.ruleId)),
+      onlyInB: [...rb.values()].filter((r) => !ra.has(r.ruleId)),
+      inBoth: [...ra.keys()].filter((id) => rb.has(id)).sort(),
+    },
+  };
+}
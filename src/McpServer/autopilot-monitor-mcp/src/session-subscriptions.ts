@@ -0,0 +1,247 @@
+/**
+ * Live session resources: `session://{sessionId}/timeline` and MCP resource subscriptions on it.
+ *
+ * Reading the resource works in every transport mode (it is a plain resources/read). Subscribing
+ * needs server→client notifications, which only exist in the opt-in stateful transport mode
+ * (MCP_STATEFUL_SESSIONS — see index.ts); the default stateless server never advertises
+ * `resources.subscribe`.
+ *
+ * A subscription is a per-MCP-session poll of the session RECORD only (status, phase, eventCount,
+ * lastEventAt — one small GET), not the event stream. When its fingerprint changes — new events,
+ * a phase/status change, or the session crossing the stall threshold — the subscriber gets
+ * `notifications/resources/updated` and re-reads the resource for the actual timeline. Polling
+ * stops by itself once the session reaches a terminal status (after the final notification).
+ *
+ * Polls run long after the subscribing request returned, so they re-enter the caller's context
+ * explicitly (runWithCaller). The context is refreshed on every request the MCP session makes, so
+ * a client that keeps its token fresh keeps its subscriptions alive; a 401/403/404 ends the poll.
+ */
+
+import { UriTemplate } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import { ApiError, apiFetch, buildQuery, runWithCaller, type CallerContext } from './client.js';
+import { parsePositiveInt } from './config.js';
+import { phaseName } from './tools/sessions.js';
+import { SessionIdSchema } from './tools/shared.js';
+
+export const SESSION_TIMELINE_TEMPLATE = 'session://{sessionId}/timeline';
+/**
+ * Tenant-qualified form (required for delegated callers, optional routing for platform scope). A
+ * separate template because RFC 6570 query expansions are not optional when matching.
+ */
+export const SESSION_TIMELINE_TENANT_TEMPLATE = 'session://{sessionId}/timeline{?tenantId}';
+const timelineTemplates = [new UriTemplate(SESSION_TIMELINE_TEMPLATE), new UriTemplate(SESSION_TIMELINE_TENANT_TEMPLATE)];
+
+/** How often each subscription polls the session record. */
+const SUBSCRIPTION_POLL_MS = parsePositiveInt(process.env.MCP_SUBSCRIPTION_POLL_MS, 30_000);
+/** Per-MCP-session cap — every subscription is a recurring backend call. */
+const MAX_SUBSCRIPTIONS_PER_SESSION = parsePositiveInt(process.env.MCP_MAX_SUBSCRIPTIONS_PER_SESSION, 10);
+/** An in-progress session with no new event for this long is reported as stalled. */
+const STALL_AFTER_MINUTES = parsePositiveInt(process.env.MCP_SESSION_STALL_MINUTES, 15);
+/** Events included in the resource body (newest last); the full stream stays with get_session_events. */
+const TIMELINE_RECENT_EVENTS = 100;
+const TERMINAL_STATUSES = new Set(['Succeeded', 'Failed']);
+
+export interface SessionLiveness {
+  status: string;
+  terminal: boolean;
+  stalled: boolean;
+  minutesSinceLastEvent: number | null;
+}
+
+/** Status + stall assessment from a session record. `Stalled` is also a backend status (maintenance sweep). */
+export function assessLiveness(session: Record<string, unknown>, now = Date.now()): SessionLiveness {
+  const status = String(session.status ?? 'Unknown');
+  const terminal = TERMINAL_STATUSES.has(status);
+  const lastEventMs = Date.parse(String(session.lastEventAt ?? session.startedAt ?? ''));
+  const minutesSinceLastEvent = Number.isNaN(lastEventMs) ? null : Math.max(0, Math.floor((now - lastEventMs) / 60_000));
+  const stalled = status === 'Stalled' || (!terminal && minutesSinceLastEvent !== null && minutesSinceLastEvent >= STALL_AFTER_MINUTES);
+  return { status, terminal, stalled, minutesSinceLastEvent };
+}
+
+/** What a subscriber is notified about: any change here means "re-read the resource". */
+export function timelineFingerprint(session: Record<string, unknown>, now = Date.now()): string {
+  const { status, stalled } = assessLiveness(session, now);
+  return JSON.stringify([status, session.currentPhase ?? null, session.eventCount ?? null, session.lastEventAt ?? null, stalled]);
+}
+
+/** Parse a timeline URI. Returns null for anything that is not a well-formed session timeline URI. */
+export function parseTimelineUri(uri: string): { sessionId: string; tenantId: string | undefined } | null {
+  const vars = timelineTemplates.map((t) => t.match(uri)).find((v) => v !== null);
+  const sessionId = typeof vars?.sessionId === 'string' ? vars.sessionId : undefined;
+  if (!sessionId || !SessionIdSchema.safeParse(sessionId).success) return null;
+  const tenantId = typeof vars?.tenantId === 'string' && vars.tenantId ? vars.tenantId : undefined;
+  return { sessionId, tenantId };
+}
+
+async function fetchSessionRecord(sessionId: string, tenantId: string | undefined): Promise<Record<string, unknown>> {
+  const resp = await apiFetch(`/api/sessions/${sessionId}${buildQuery({ tenantId } as Record<string, string | undefined>)}`) as Record<string, unknown>;
+  // The backend wraps the session in a { success, session } envelope; accept the raw object too.
+  return (resp.session ?? resp) as Record<string, unknown>;
+}
+
+/** The resource body: live status, stall assessment and the most recent events. */
+export async function readSessionTimeline(sessionId: string, tenantId: string | undefined): Promise<Record<string, unknown>> {
+  const q = buildQuery({ tenantId } as Record<string, string | undefined>);
+  const [session, eventsResp] = await Promise.all([
+    fetchSessionRecord(sessionId, tenantId),
+    apiFetch(`/api/sessions/${sessionId}/events${q}`) as Promise<{ events?: Array<Record<string, unknown>> }>,
+  ]);
+  const events = [...(eventsResp?.events ?? [])].sort((a, b) =>
+    String(a.timestamp ?? '').localeCompare(String(b.timestamp ?? '')) || Number(a.sequence ?? 0) - Number(b.sequence ?? 0));
+  const recent = events.slice(-TIMELINE_RECENT_EVENTS);
+  return {
+    sessionId,
+    tenantId: session.tenantId ?? tenantId ?? null,
+    ...assessLiveness(session),
+    stallThresholdMinutes: STALL_AFTER_MINUTES,
+    currentPhase: phaseName(session.currentPhase, session.enrollmentType),
+    startedAt: session.startedAt ?? null,
+    completedAt: session.completedAt ?? null,
+    failureReason: session.failureReason ?? null,
+    lastEventAt: session.lastEventAt ?? recent.at(-1)?.timestamp ?? null,
+    eventCount: events.length,
+    recentEventsTruncated: events.length > recent.length,
+    recentEvents: recent.map((e) => ({
+      timestamp: e.timestamp,
+      eventType: e.eventType,
+      severity: e.severity,
+      phase: e.phaseName ?? phaseName(e.phase, session.enrollmentType),
+      message: typeof e.message === 'string' && e.message.length > 300 ? `${e.message.slice(0, 300)}…` : e.message,
+    })),
+  };
+}
+
+export class SubscriptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SubscriptionError';
+  }
+}
+
+interface Subscription {
+  sessionId: string;
+  tenantId: string | undefined;
+  fingerprint: string;
+  timer: NodeJS.Timeout;
+  polling: boolean;
+}
+
+interface SubscriberSession {
+  caller: CallerContext;
+  notify: (uri: string) => Promise<void>;
+  subscriptions: Map<string, Subscription>;
+}
+
+export interface SubscriptionRegistryOptions {
+  pollMs?: number;
+  maxPerSession?: number;
+  /** Session record fetcher — defaults to GET /api/sessions/{id}. Runs inside the subscriber's caller context. */
+  fetchSession?: (sessionId: string, tenantId: string | undefined) => Promise<Record<string, unknown>>;
+}
+
+/** Subscriptions of every live MCP session (stateful transport mode only). */
+export class SessionSubscriptionRegistry {
+  private readonly sessions = new Map<string, SubscriberSession>();
+  private readonly pollMs: number;
+  private readonly maxPerSession: number;
+  private readonly fetchSession: NonNullable<SubscriptionRegistryOptions['fetchSession']>;
+
+  constructor(options: SubscriptionRegistryOptions = {}) {
+    this.pollMs = options.pollMs ?? SUBSCRIPTION_POLL_MS;
+    this.maxPerSession = options.maxPerSession ?? MAX_SUBSCRIPTIONS_PER_SESSION;
+    this.fetchSession = options.fetchSession ?? fetchSessionRecord;
+  }
+
+  get size(): number {
+    let n = 0;
+    for (const s of this.sessions.values()) n += s.subscriptions.size;
+    return n;
+  }
+
+  /** Live subscriptions of one MCP session — a session with any is never evicted as idle. */
+  countFor(mcpSessionId: string): number {
+    return this.sessions.get(mcpSessionId)?.subscriptions.size ?? 0;
+  }
+
+  /** Register an MCP session and how to push `notifications/resources/updated` to it. */
+  attach(mcpSessionId: string, caller: CallerContext, notify: (uri: string) => Promise<void>): void {
+    this.sessions.set(mcpSessionId, { caller, notify, subscriptions: new Map() });
+  }
+
+  /** Refresh the caller context (fresh token) polls run under — called on every request of the session. */
+  updateCaller(mcpSessionId: string, caller: CallerContext): void {
+    const s = this.sessions.get(mcpSessionId);
+    if (s) s.caller = caller;
+  }
+
+  /**
+   * Subscribe after one access-checked read: a caller can only watch a session it may read, and
+   * a bad session id fails the subscribe request instead of a silent dead poll. `tenantId` must
+   * already be enforced for delegated callers.
+   */
+  async subscribe(mcpSessionId: string, uri: string, sessionId: string, tenantId: string | undefined): Promise<void> {
+    const s = this.sessions.get(mcpSessionId);
+    if (!s) throw new SubscriptionError('Unknown MCP session.');
+    if (s.subscriptions.has(uri)) return;
+    if (s.subscriptions.size >= this.maxPerSession) {
+      throw new SubscriptionError(`Subscription limit reached (${this.maxPerSession} per session) — unsubscribe from a finished session first.`);
+    }
+    const session = await runWithCaller(s.caller, () => this.fetchSession(sessionId, tenantId));
+    if (assessLiveness(session).terminal) {
+      throw new SubscriptionError(`Session ${sessionId} has already finished (${String(session.status)}) — read the resource instead.`);
+    }
+    const sub: Subscription = {
+      sessionId,
+      tenantId,
+      fingerprint: timelineFingerprint(session),
+      polling: false,
+      timer: setInterval(() => void this.poll(mcpSessionId, uri), this.pollMs),
+    };
+    // Polls must never keep a draining process alive.
+    sub.timer.unref();
+    s.subscriptions.set(uri, sub);
+  }
+
+  unsubscribe(mcpSessionId: string, uri: string): void {
+    const s = this.sessions.get(mcpSessionId);
+    const sub = s?.subscriptions.get(uri);
+    if (!s || !sub) return;
+    clearInterval(sub.timer);
+    s.subscriptions.delete(uri);
+  }
+
+  /** Drop an MCP session and stop all its polls (transport closed / session evicted). */
+  detach(mcpSessionId: string): void {
+    const s = this.sessions.get(mcpSessionId);
+    if (!s) return;
+    for (const sub of s.subscriptions.values()) clearInterval(sub.timer);
+    this.sessions.delete(mcpSessionId);
+  }
+
+  /** One poll tick. Exposed for tests; overlapping ticks (slow backend) are skipped. */
+  async poll(mcpSessionId: string, uri: string): Promise<void> {
+    const s = this.sessions.get(mcpSessionId);
+    const sub = s?.subscriptions.get(uri);
+    if (!s || !sub || sub.polling) return;
+    sub.polling = true;
+    try {
+      const session = await runWithCaller(s.caller, () => this.fetchSession(sub.sessionId, sub.tenantId));
+      const fingerprint = timelineFingerprint(session);
+      const terminal = assessLiveness(session).terminal;
+      if (terminal) this.unsubscribe(mcpSessionId, uri);
+      if (fingerprint !== sub.fingerprint) {
+        sub.fingerprint = fingerprint;
+        await s.notify(uri);
+      }
+    } catch (err) {
+      if (err instanceof ApiError && [401, 403, 404].includes(err.status)) {
+        console.error(`[subscriptions] Ending ${uri}: backend answered ${err.status}.`);
+        this.unsubscribe(mcpSessionId, uri);
+      } else {
+        console.error(`[subscriptions] Poll of ${uri} failed (will retry):`, err instanceof Error ? err.message : err);
+      }
+    } finally {
+      sub.polling = false;
+    }
+  }
+}
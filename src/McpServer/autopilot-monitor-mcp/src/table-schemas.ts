@@ -0,0 +1,108 @@
+/**
+ * Column schemas of the Azure Table Storage tables agents query most through query_table and
+ * query_raw_events. Table Storage is schemaless and case-sensitive, and a filter on a misspelled
+ * column or with a literal of the wrong EDM type (Int32 vs Int64, a quoted datetime) is not an
+ * error there — it silently matches nothing. odata-filter.ts checks filters against these
+ * schemas before they reach the backend.
+ *
+ * Column sets mirror what the backend writes (TableStorageService.*.cs). Tables not listed here
+ * are still parsed and type-checked, only their column names are not. Table names are checked
+ * against C# `Constants.TableNames` by __tests__/odata-filter.test.ts.
+ */
+
+export type EdmType = 'String' | 'Int32' | 'Int64' | 'Double' | 'Boolean' | 'DateTime' | 'Guid';
+
+export interface ColumnSchema {
+  type: EdmType;
+  /**
+   * Names the model may use for an integer-coded column (e.g. Severity 'Error' → 3); the
+   * validator rewrites them to the stored integer.
+   */
+  enumValues?: Record<string, number>;
+}
+
+export interface TableSchema {
+  columns: Record<string, ColumnSchema>;
+  /** Dynamic column families (e.g. DeviceSnapshot's `Props_{eventType}`), all String. */
+  dynamicPrefixes?: string[];
+}
+
+/** System columns every entity has. */
+export const SYSTEM_COLUMNS: Record<string, ColumnSchema> = {
+  PartitionKey: { type: 'String' },
+  RowKey: { type: 'String' },
+  Timestamp: { type: 'DateTime' },
+};
+
+// Mirrors EnrollmentEvent.EventSeverity and EnrollmentPhase (Shared).
+const SEVERITY_VALUES = { Trace: -1, Debug: 0, Info: 1, Warning: 2, Error: 3, Critical: 4 };
+const PHASE_VALUES = {
+  Unknown: -1, Start: 0, DevicePreparation: 1, DeviceSetup: 2, AppsDevice: 3,
+  AccountSetup: 4, AppsUser: 5, FinalizingSetup: 6, Complete: 7, Failed: 99,
+};
+
+const s: ColumnSchema = { type: 'String' };
+const i32: ColumnSchema = { type: 'Int32' };
+const i64: ColumnSchema = { type: 'Int64' };
+const bool: ColumnSchema = { type: 'Boolean' };
+const date: ColumnSchema = { type: 'DateTime' };
+
+// Sessions (PK=TenantId, RK=SessionId) and SessionsIndex (PK=TenantId, RK=inverted start time)
+// carry the same session columns.
+const SESSION_COLUMNS: Record<string, ColumnSchema> = {
+  SessionId: s, TenantId: s, SerialNumber: s, DeviceName: s, Manufacturer: s, Model: s,
+  StartedAt: date, CompletedAt: date, LastEventAt: date, ResumedAt: date, StalledAt: date,
+  Status: s, CurrentPhase: { type: 'Int32', enumValues: PHASE_VALUES }, CurrentPhaseDetail: s,
+  EventCount: i32, DurationSeconds: i32, EnrollmentType: s,
+  IsPreProvisioned: bool, IsHybridJoin: bool, IsUserDriven: bool, IsSelfDeployingProfile: bool,
+  AgentVersion: s, ImeAgentVersion: s, OsName: s, OsBuild: s, OsDisplayVersion: s, OsEdition: s, OsLanguage: s,
+  GeoCountry: s, GeoRegion: s, GeoCity: s, GeoLoc: s,
+  PlatformScriptCount: i32, RemediationScriptCount: i32, RebootCount: i32,
+  ExcessiveEventsAlerted: bool, ExcessiveEventsAutoActioned: bool,
+  FailureReason: s, FailureSource: s, FailureSnapshotJson: s, AdminMarkedAction: s,
+  DiagnosticsBlobName: s, DiagnosticsBlobDestination: s, IndexRowKey: s,
+  DeletionState: s, PendingDeletionManifestId: s, PendingActionsJson: s, PendingActionsQueuedAt: date,
+};
+
+export const TABLE_SCHEMAS: Record<string, TableSchema> = {
+  Sessions: { columns: SESSION_COLUMNS },
+  SessionsIndex: { columns: SESSION_COLUMNS },
+  // PK = {TenantId}_{SessionId}, RK = {yyyyMMddHHmmssfff}_{Sequence:D10}.
+  Events: {
+    columns: {
+      EventId: s, SessionId: s, TenantId: s, EventType: s,
+      Severity: { type: 'Int32', enumValues: SEVERITY_VALUES }, Source: s,
+      Phase: { type: 'Int32', enumValues: PHASE_VALUES }, Message: s, Sequence: i64, DataJson: s,
+      ReceivedAt: date, OriginalTimestamp: date, TimestampClamped: bool,
+      CausedByTransitionStepIndex: i32, CausedBySignalOrdinal: i64,
+    },
+  },
+  // PK = {TenantId}_{SessionId}, RK = RuleId. Severity here is the rule's string severity.
+  RuleResults: {
+    columns: {
+      ResultId: s, SessionId: s, TenantId: s, RuleId: s, RuleTitle: s, Severity: s, Category: s,
+      ConfidenceScore: i32, Explanation: s, RemediationJson: s, RelatedDocsJson: s,
+      MatchedConditionsJson: s, DetectedAt: date,
+    },
+  },
+  // PK = TenantId, RK = {SessionId}_{AppName}.
+  AppInstallSummaries: {
+    columns: {
+      AppName: s, SessionId: s, TenantId: s, Status: s, DurationSeconds: i32,
+      DownloadBytes: i64, DownloadDurationSeconds: i32, FailureCode: s, FailureMessage: s,
+      StartedAt: date, CompletedAt: date,
+      DoFileSize: i64, DoTotalBytesDownloaded: i64, DoBytesFromPeers: i64, DoBytesFromHttp: i64,
+      DoPercentPeerCaching: i32, DoDownloadMode: i32, DoDownloadDuration: s,
+      DoBytesFromLanPeers: i64, DoBytesFromGroupPeers: i64, DoBytesFromInternetPeers: i64,
+      DoBytesFromLinkLocalPeers: i64, DoBytesFromCacheServer: i64, DoCacheHost: s,
+      AppVersion: s, AppType: s, AttemptNumber: i32, InstallerPhase: s, ExitCode: i32, DetectionResult: s,
+    },
+  },
+  DeviceSnapshot: { columns: { SessionId: s, TenantId: s }, dynamicPrefixes: ['Props_'] },
+};
+
+/** Schema for `table` (case-insensitive), with its canonical name; undefined for unlisted tables. */
+export function findTableSchema(table: string): { name: string; schema: TableSchema } | undefined {
+  const name = Object.keys(TABLE_SCHEMAS).find((t) => t.toLowerCase() === table.toLowerCase());
+  return name ? { name, schema: TABLE_SCHEMAS[name] } : undefined;
+}
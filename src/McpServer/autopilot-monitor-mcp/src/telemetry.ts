@@ -1,4 +1,5 @@
-import { runWithToolName } from './client.js';
+import { getCallerContext, runWithToolName } from './client.js';
+import { runAccountedToolCall, type UsageSubject } from './usage-accounting.js';
 
 const toolLoggingEnabled = process.env.MCP_TOOL_LOGGING === 'true';
 
@@ -6,18 +7,23 @@ const toolLoggingEnabled = process.env.MCP_TOOL_LOGGING === 'true';
  * Wraps an MCP tool handler to:
  * 1. Always: propagate the tool name via AsyncLocalStorage so apiFetch sends
  *    the X-MCP-Tool-Name header to the backend (tracked in App Insights).
- * 2. Optionally (MCP_TOOL_LOGGING=true): emit structured JSON to stderr,
+ * 2. Always: book the call in the usage ledger (usage-accounting.ts) and enforce the
+ *    caller's daily quotas — a call over quota throws before the handler runs.
+ * 3. Optionally (MCP_TOOL_LOGGING=true): emit structured JSON to stderr,
  *    queryable via Container App Logs in Azure Monitor.
  */
 export async function withToolTelemetry<T>(toolName: string, fn: () => T | Promise<T>): Promise<T> {
+  const caller = getCallerContext();
+  const subject: UsageSubject | undefined = caller?.upn ? { upn: caller.upn, homeTenantId: caller.tenantId } : undefined;
+  const accounted = () => runAccountedToolCall(subject, toolName, async () => fn());
   if (!toolLoggingEnabled) {
-    return runWithToolName(toolName, fn) as Promise<T>;
+    return runWithToolName(toolName, accounted) as Promise<T>;
   }
 
   const start = Date.now();
   let isError = false;
   try {
-    return await runWithToolName(toolName, fn);
+    return await runWithToolName(toolName, accounted);
   } catch (err) {
     isError = true;
     throw err;
@@ -1,8 +1,12 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { ZodTypeAny } from 'zod';
 import type { SearchProvider } from './search-provider.js';
 import { registerSessionTools } from './tools/sessions.js';
 import { registerSearchTools } from './tools/search.js';
 import { registerAdminTools } from './tools/admin.js';
+import { registerWriteTools } from './tools/write.js';
+import { WRITE_TOOLS_ENABLED } from './config.js';
 
 /**
  * Registers the tool catalog for a single request, tailored to the caller's role.
@@ -21,6 +25,9 @@ import { registerAdminTools } from './tools/admin.js';
  * express on its own: hiding the one ungated platform-only tool (get_ime_version_history) and exposing a
  * required `tenantId` selector on get_software_inventory. A caller that is BOTH platform AND delegated is
  * treated as platform (ga=true ⇒ delegated=false at the call site), so this never strips a GA's tools.
+ *
+ * `writeTools` adds the opt-in triage write tools (MCP_WRITE_TOOLS, see tools/write.ts), which gate
+ * themselves further on the caller's role.
  */
 export function registerTools(
   server: McpServer,
@@ -29,10 +36,12 @@ export function registerTools(
   ga: boolean,
   strictGa: boolean = ga,
   delegated: boolean = false,
+  writeTools: boolean = WRITE_TOOLS_ENABLED,
 ): void {
   registerSessionTools(server, ga, delegated);
   registerSearchTools(server, knowledgeBase, eventTypeIndex, ga, delegated);
   registerAdminTools(server, ga, strictGa, delegated);
+  if (writeTools) registerWriteTools(server, ga, delegated);
   sortToolCatalog(server);
 }
 
@@ -51,8 +60,9 @@ export function registerTools(
  * so behaviour is unchanged.
  *
  * Note: `_registeredTools` is an SDK-internal field with no public reorder API.
- * Touching it is contained to this one helper and is stable across SDK versions
- * (it is the core tool registry, a plain insertion-ordered object).
+ * Touching it is contained to this module (this helper and invokeRegisteredTool)
+ * and is stable across SDK versions (it is the core tool registry, a plain
+ * insertion-ordered object).
  */
 function sortToolCatalog(server: McpServer): void {
   const internal = server as unknown as { _registeredTools: Record<string, unknown> };
@@ -64,3 +74,21 @@ function sortToolCatalog(server: McpServer): void {
   }
   internal._registeredTools = sorted;
 }
+
+type RegisteredTool = {
+  handler: (args: Record<string, unknown>, extra: unknown) => Promise<CallToolResult>;
+  inputSchema?: ZodTypeAny;
+};
+
+/**
+ * Calls a registered tool's handler in-process, with no transport — for offline harnesses (the
+ * search golden set and relevance evaluation) that drive real tools. The input schema is applied
+ * first, as the SDK would, so schema defaults (e.g. `depth: 'fast'`) reach the handler. Runs in the
+ * caller's async context: wrap it in runWithCaller.
+ */
+export async function invokeRegisteredTool(server: McpServer, name: string, args: Record<string, unknown>): Promise<CallToolResult> {
+  const tool = (server as unknown as { _registeredTools: Record<string, RegisteredTool | undefined> })._registeredTools[name];
+  if (!tool) throw new Error(`Tool ${name} is not registered for this caller`);
+  const parsed = (tool.inputSchema ? tool.inputSchema.parse(args) : args) as Record<string, unknown>;
+  return tool.handler(parsed, { signal: new AbortController().signal });
+}
@@ -1,7 +1,9 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
-import { apiFetch, buildQuery, enforceDelegatedTenant, enforceDelegatedTenantForPage, followNextLink, pickGlobalOrTenantPath, scanUntilMatch } from '../client.js';
+import { apiFetch, buildQuery, DEFAULT_SCAN_BUDGET, enforceDelegatedTenant, enforceDelegatedTenantForPage, followNextLink, getCallerContext, pickGlobalOrTenantPath, scanUntilMatch, type PageFetcher } from '../client.js';
+import { matchesFilter, prepareFilter, type FilterExpr, type PreparedFilter } from '../odata-filter.js';
 import { withToolTelemetry } from '../telemetry.js';
+import { USAGE_RETENTION_DAYS, buildTenantUsageReport, buildUserUsageReport, usageLedger } from '../usage-accounting.js';
 import { getResourceContent, assertKnownEventType } from '../resource-catalog.js';
 import { READ_ONLY, READ_ONLY_OPEN, MAX_RESULT_SIZE_CHARS, toolResultText, SessionIdSchema, tenantIdDescription } from './shared.js';
 import { toolError } from './error-handler.js';
@@ -166,6 +168,45 @@ export function paginateInventory(
   };
 }
 
+/**
+ * `fields` widened by the columns a client-side filter reads, so the backend projection cannot
+ * drop them before the filter runs. Undefined `fields` (full rows) stays undefined.
+ */
+export function projectionWith(fields: string | undefined, prepared: PreparedFilter | undefined): string | undefined {
+  if (!fields || !prepared) return fields;
+  const requested = fields.split(',').map((f) => f.trim()).filter(Boolean);
+  const lower = new Set(requested.map((f) => f.toLowerCase()));
+  return [...requested, ...prepared.columns.filter((c) => !lower.has(c.toLowerCase()))].join(',');
+}
+
+/**
+ * Page fetcher for query_raw_events' `filter`/`where`: the events endpoint takes no OData, so
+ * each page is filtered here before scanUntilMatch sees it (an emptied page scans on, like the
+ * backend's own post-filters). Columns added only for the filter are stripped again when the
+ * caller asked for a `fields` projection.
+ */
+export function clientFilteredPages(expression: FilterExpr, fields?: string, fetchPage: PageFetcher = (path) => apiFetch(path) as Promise<Record<string, unknown>>): PageFetcher {
+  const keep = fields
+    ? new Set(fields.split(',').map((f) => f.trim().toLowerCase()).filter(Boolean).concat(['partitionkey', 'rowkey']))
+    : undefined;
+  return async (path) => {
+    const page = await fetchPage(path);
+    if (!Array.isArray(page.events)) return page;
+    const events = (page.events as Record<string, unknown>[])
+      .filter((row) => matchesFilter(expression, row))
+      .map((row) => (keep ? Object.fromEntries(Object.entries(row).filter(([k]) => keep.has(k.toLowerCase()))) : row));
+    return { ...page, events, count: events.length };
+  };
+}
+
+/** Response fields telling the model what filter actually ran and what was rewritten on the way. */
+function filterReport(prepared: PreparedFilter): Record<string, unknown> {
+  return {
+    appliedFilter: prepared.filter,
+    ...(prepared.rewrites.length > 0 ? { filterRewrites: prepared.rewrites } : {}),
+  };
+}
+
 export function registerAdminTools(server: McpServer, ga: boolean, strictGa: boolean = ga, delegated: boolean = false): void {
   // Tool 11: get_api_usage — Global Admin only; not registered for normal users
   // (the `if (ga)` guards the whole single server.registerTool(...) statement).
@@ -633,6 +674,15 @@ export function registerAdminTools(server: McpServer, ga: boolean, strictGa: boo
 
   // ── Raw Data Tools ────────────────────────────────────────────────────
 
+  // Structured alternative to an OData filter string, shared by query_raw_events and query_table.
+  const whereSchema = z.array(z.object({
+    column: z.string().describe('Stored column name (PascalCase, e.g. "Status", "Severity", "StartedAt")'),
+    op: z.enum(['eq', 'ne', 'gt', 'ge', 'lt', 'le', 'startsWith', 'in']),
+    value: z.union([z.string(), z.number(), z.boolean(), z.array(z.union([z.string(), z.number(), z.boolean()]))])
+      .describe('Plain JSON value — the column type decides the literal (dates as ISO strings, enum names like "Error" for Severity). A list for "in".'),
+  })).optional()
+    .describe('Conditions AND-ed together, as an alternative to writing OData. Combined with "filter" (AND) when both are given.');
+
   // Tool 18: query_raw_events
   server.registerTool(
     'query_raw_events',
@@ -662,6 +712,9 @@ export function registerAdminTools(server: McpServer, ga: boolean, strictGa: boo
         'a pure pass-through over the real column names that drops the heavy `DataJson` payload (a single ' +
         'app_install_failed event can be tens of KB), so responses stay small; PartitionKey + RowKey are always ' +
         'kept. ' +
+        'For conditions the named parameters do not cover (Phase, Sequence ranges, Message equality, …) pass an OData ' +
+        '"filter" or structured "where" over the stored columns; it is validated and type-checked up front and applied ' +
+        'to each page here (auto-scanning forward like the other filters) — re-send it with "continuation". ' +
         (ga ? 'When querying by sessionId you may omit tenantId — it is auto-resolved from the session (Global Admin).' : ''),
       inputSchema: {
         tenantId: z.string().optional().describe(tenantIdDescription(ga, delegated, 'Tenant ID. Omit for cross-tenant search, or to auto-resolve from a sessionId query (Global Admin only).', 'Optional tenant ID. Defaults to your tenant.')),
@@ -673,6 +726,9 @@ export function registerAdminTools(server: McpServer, ga: boolean, strictGa: boo
         startedBefore: z.string().optional().describe('ISO 8601 datetime — only events before this'),
         fields: z.string().optional()
           .describe('Comma-separated pass-through projection over the literal stored column names (case-insensitive); narrows the row but never drops a real column. PartitionKey + RowKey are always kept. Stored columns: PartitionKey, RowKey, Timestamp, EventId, SessionId, EventType, Severity (int), Source, Phase (int), Message, Sequence, DataJson (raw string), ReceivedAt, OriginalTimestamp, TimestampClamped, CausedByTransitionStepIndex, CausedBySignalOrdinal. Omit for the full raw row.'),
+        filter: z.string().optional()
+          .describe('OData filter over the stored Events columns (e.g. "Phase eq 3 and Severity ge 2"), applied to each page client-side. Common mistakes (==, double quotes, enum names like Severity \'Error\') are rewritten and reported.'),
+        where: whereSchema,
         pageSize: z.coerce.number().int().min(1).max(1000).optional().default(200)
           .describe('Page size (1-1000, default 200). Controls index-scan depth per call; follow nextLink for more.'),
         continuation: z.string().optional()
@@ -682,19 +738,22 @@ export function registerAdminTools(server: McpServer, ga: boolean, strictGa: boo
     },
     async (args) => withToolTelemetry('query_raw_events', async () => {
       try {
-        const { tenantId: rawTenantId, sessionId, eventType, severity, source, startedAfter, startedBefore, fields, pageSize, continuation } = args;
+        const { tenantId: rawTenantId, sessionId, eventType, severity, source, startedAfter, startedBefore, fields, filter, where, pageSize, continuation } = args;
         const tenantId = enforceDelegatedTenantForPage(rawTenantId, continuation);
         if (eventType) assertKnownEventType(eventType);
+        const prepared = prepareFilter({ table: 'Events', filter, where });
         const basePath = pickGlobalOrTenantPath('/api/global/raw/events', '/api/raw/events');
         const path = followNextLink(
           basePath,
-          { tenantId, sessionId, eventType, severity, source, startedAfter, startedBefore, fields, pageSize },
+          { tenantId, sessionId, eventType, severity, source, startedAfter, startedBefore, fields: projectionWith(fields, prepared), pageSize },
           continuation,
         );
         // severity/source (and eventType/time on the single-session path) are post-filtered
         // in-memory, so a page can be empty while matches sit further ahead. Auto-exhaust
         // forward so the model isn't misled by an empty-but-continuable page.
-        const data = await scanUntilMatch(path, basePath);
+        const data = prepared
+          ? { ...await scanUntilMatch(path, basePath, DEFAULT_SCAN_BUDGET, clientFilteredPages(prepared.expression, fields)), ...filterReport(prepared) }
+          : await scanUntilMatch(path, basePath);
         return toolResultText(data, MAX_RESULT_SIZE_CHARS.events);
       } catch (error: unknown) {
         return toolError('query_raw_events', args, error);
@@ -814,7 +873,12 @@ export function registerAdminTools(server: McpServer, ga: boolean, strictGa: boo
         tableName: z.string().describe('Table name (e.g. "Sessions", "Events", "RuleResults", "TenantConfiguration")'),
         partitionKey: z.string().optional().describe('Filter by exact partition key (usually TenantId)'),
         rowKeyPrefix: z.string().optional().describe('Filter by row key prefix'),
-        filter: z.string().optional().describe('OData filter expression (e.g. "Status eq \'Failed\'")'),
+        filter: z.string().optional()
+          .describe('OData filter expression (e.g. "Status eq \'Failed\' and StartedAt ge datetime\'2026-01-15T00:00:00Z\'"). ' +
+                    'Validated before it is sent: column names are checked against the known table schemas (Sessions, ' +
+                    'SessionsIndex, Events, RuleResults, AppInstallSummaries, DeviceSnapshot), literals are type-checked, ' +
+                    'and common mistakes (==, double quotes, quoted dates, startswith, in) are rewritten and reported.'),
+        where: whereSchema,
         fields: z.string().optional()
           .describe('Comma-separated column names to keep (e.g. "PartitionKey,RowKey,Status"). Other columns are dropped ' +
                     'client-side after fetch. Useful for aggregation/counting on wide tables. Always includes PartitionKey ' +
@@ -828,11 +892,12 @@ export function registerAdminTools(server: McpServer, ga: boolean, strictGa: boo
     },
     async (args) => withToolTelemetry('query_table', async () => {
       try {
-        const { tableName, partitionKey, rowKeyPrefix, filter, fields, pageSize, continuation } = args;
+        const { tableName, partitionKey, rowKeyPrefix, filter, where, fields, pageSize, continuation } = args;
+        const prepared = prepareFilter({ table: tableName, filter, where });
         const basePath = `/api/global/raw/tables/${encodeURIComponent(tableName)}`;
         const path = followNextLink(
           basePath,
-          { partitionKey, rowKeyPrefix, filter, pageSize },
+          { partitionKey, rowKeyPrefix, filter: prepared?.filter, pageSize },
           continuation,
         );
         const data = await apiFetch(path) as { table?: string; count?: number; entities?: Record<string, unknown>[]; nextLink?: string | null };
@@ -852,7 +917,7 @@ export function registerAdminTools(server: McpServer, ga: boolean, strictGa: boo
             return projected;
           });
         }
-        return toolResultText(data, MAX_RESULT_SIZE_CHARS.rawTable);
+        return toolResultText(prepared ? { ...data, ...filterReport(prepared) } : data, MAX_RESULT_SIZE_CHARS.rawTable);
       } catch (error: unknown) {
         return toolError('query_table', args, error);
       }
@@ -1101,6 +1166,41 @@ export function registerAdminTools(server: McpServer, ga: boolean, strictGa: boo
     })
   );
 
+  // Tool: get_my_usage — the caller's own accounting (usage-accounting.ts). Served from the in-process
+  // ledger, never the backend, and exempt from quotas so an over-quota user can still see why.
+  server.registerTool(
+    'get_my_usage',
+    {
+      title: 'My Usage and Quotas',
+      description:
+        'Shows your MCP usage on this server: tool calls, backend pages fetched, backend bytes read and response ' +
+        'bytes — today against your daily quotas (with remaining budget and reset time), plus a per-day history ' +
+        'split by tool and by the tenant each backend request was for' +
+        (delegated ? ' (i.e. which managed customer your investigations spent the budget on)' : '') + '. ' +
+        (ga ? 'scope="tenants" instead lists every tenant\'s spend with its top users and tenant-quota standing. ' : '') +
+        'Always allowed, even when a quota is exhausted.',
+      inputSchema: {
+        days: z.number().int().min(1).max(USAGE_RETENTION_DAYS).optional()
+          .describe(`Days of history including today (1-${USAGE_RETENTION_DAYS}). Defaults to 1.`),
+        ...(ga ? { scope: z.enum(['me', 'tenants']).optional().describe('"me" (default): your own usage. "tenants": per-tenant spend across all users.') } : {}),
+      },
+      annotations: READ_ONLY,
+    },
+    async (args) => withToolTelemetry('get_my_usage', async () => {
+      try {
+        const caller = getCallerContext();
+        if (!caller?.upn) throw new Error('Usage is tracked per signed-in user; no user identity is available for this request.');
+        const days = args.days ?? 1;
+        const data = ga && (args as { scope?: string }).scope === 'tenants'
+          ? buildTenantUsageReport(usageLedger, days)
+          : buildUserUsageReport(usageLedger, { upn: caller.upn, homeTenantId: caller.tenantId }, days);
+        return toolResultText(data, MAX_RESULT_SIZE_CHARS.small);
+      } catch (error: unknown) {
+        return toolError('get_my_usage', args, error);
+      }
+    })
+  );
+
   // Tool: get_resource — returns the same content as the MCP `resources` would,
   // but via a regular tool call. Workaround for clients (e.g. Claude Code's HTTP-MCP
   // bridge in stateless mode) that don't expose `resources/list` reliably.
@@ -2,7 +2,7 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import { apiFetch, buildQuery, enforceDelegatedTenant, followNextLink, pickGlobalOrTenantPath } from '../client.js';
 import { withToolTelemetry } from '../telemetry.js';
-import type { SearchProvider } from '../search-provider.js';
+import { extractErrorCodeNeedles, type SearchProvider } from '../search-provider.js';
 import { READ_ONLY, MAX_RESULT_SIZE_CHARS, toolResultText, SessionIdSchema, isBenignHealthDetectionReport, tenantIdDescription } from './shared.js';
 import { toolError } from './error-handler.js';
 import { ALL_EVENT_TYPES } from '../resource-catalog.js';
@@ -528,30 +528,9 @@ export function resolveQueryKeywords(query: string, callerKeywords?: string[]):
 
 // ── Error-code fallback ─────────────────────────────────────────────────
 
-/**
- * Pull opaque error-code tokens (HRESULT / Win32 / NTSTATUS hex) out of a query. These embed
- * poorly — to a sentence-transformer "0x87D1041C" is near-random noise — so a semantic search can
- * rank a rule that names the code verbatim below the default minScore (0.3) and drop it (observed:
- * the TPM rule scored 0.259 for an error-code query). The returned needles are the lowercased hex
- * cores with any `0x` prefix stripped, so a single case-insensitive substring scan matches whether
- * the query or the indexed doc wrote the prefix (query "87D1041C" still finds doc "0x87D1041C").
- *
- * Bare (un-prefixed) hex must contain at least one a-f letter and be 6-8 chars, so plain decimal
- * numbers — dates, counts, build numbers — never trigger the fallback. `0x`-prefixed tokens are
- * always codes, so those accept 4-8 digits (covers short Win32 HRESULTs like 0x801c03ed).
- */
-export function extractErrorCodeNeedles(query: string): string[] {
-  const needles = new Set<string>();
-  // 0x-prefixed hex (0x80070002, 0x87D1041C). The `x` is not in [0-9a-f], so the bare-hex pass
-  // below can never re-match the same digits — no double counting.
-  for (const m of query.matchAll(/\b0x([0-9a-f]{4,8})\b/gi)) needles.add(m[1].toLowerCase());
-  // Bare HRESULT-shaped hex: 6-8 chars with at least one a-f letter (87D1041C) — the letter
-  // requirement excludes pure decimals that aren't error codes.
-  for (const m of query.matchAll(/\b([0-9a-f]{6,8})\b/gi)) {
-    if (/[a-f]/i.test(m[1])) needles.add(m[1].toLowerCase());
-  }
-  return [...needles];
-}
+// extractErrorCodeNeedles lives next to scanLexical in search-provider.ts (the hybrid provider
+// needs it too); re-exported here for existing importers.
+export { extractErrorCodeNeedles };
 
 // ── Weighted keyword scoring ────────────────────────────────────────────
 
@@ -1089,7 +1068,7 @@ export function registerSearchTools(
     })
   );
 
-  // Tool 10: search_knowledge (unchanged — vector, pre-indexed at startup)
+  // Tool 10: search_knowledge (vector, fuse or hybrid — pre-indexed at startup)
   server.registerTool(
     'search_knowledge',
     {
@@ -1101,7 +1080,9 @@ export function registerSearchTools(
         'Great for finding remediation steps, understanding error patterns, or discovering relevant diagnostic rules. ' +
         'ERROR CODES: a query containing an HRESULT/Win32 hex code (e.g. "0x87D1041C", "0x80070002") also triggers a ' +
         'literal substring fallback — any rule that names the code verbatim is returned regardless of minScore, since ' +
-        'such opaque codes embed poorly and the semantic score alone would miss them. Those hits are flagged `matchType: "error-code"`.',
+        'such opaque codes embed poorly and the semantic score alone would miss them. Those hits are flagged `matchType: "error-code"`. ' +
+        'When the server runs the hybrid backend (searchBackend "hybrid(…)"), scores are rank-fused across vector + fuzzy search ' +
+        'and each result carries `contributions` (per-backend rank, raw score and share of the fused score).',
       inputSchema: {
         query: z.string().describe('Natural language search query (e.g. "app download timeout", "TPM not ready", "ESP stuck")'),
         topK: z.coerce.number().min(1).max(20).optional().default(5).describe('Number of results to return (1-20, default 5)'),
@@ -1161,6 +1142,8 @@ export function registerSearchTools(
           metadata: r.metadata,
           // Surfaced by literal error-code match rather than (or in addition to) semantic similarity.
           matchType: errorCodeHitIds.has(r.id) ? ('error-code' as const) : undefined,
+          // Hybrid backend only: which rankings (vector / fuse / error-code) produced the fused score.
+          contributions: r.contributions,
         }));
 
         return toolResultText({
@@ -1,13 +1,26 @@
+import { readFile, realpath } from 'node:fs/promises';
+import { isAbsolute, relative, resolve } from 'node:path';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
-import { apiFetch, ApiError, buildQuery, enforceDelegatedTenant, enforceDelegatedTenantForPage, followNextLink, pickGlobalOrTenantPath, scanUntilMatch } from '../client.js';
+import { apiFetch, ApiError, buildQuery, drainPages, enforceDelegatedTenant, enforceDelegatedTenantForPage, followNextLink, getDelegatedTenantIds, pickGlobalOrTenantPath, scanUntilMatch, type ScanBudget } from '../client.js';
 import { withToolTelemetry } from '../telemetry.js';
 import { READ_ONLY, MAX_RESULT_SIZE_CHARS, toolResultText, SessionIdSchema, isBenignHealthDetectionReport, tenantIdDescription } from './shared.js';
 import { toolError } from './error-handler.js';
 import { assertKnownEventType, assertKnownDevicePropertyKeys } from '../resource-catalog.js';
 import { interpolateAnalysisResults } from '../interpolate-rule-template.js';
-import { API_BASE_URL } from '../config.js';
+import { API_BASE_URL, DIAG_ZIP_LOCAL_DIR, RULES_DIR } from '../config.js';
 import { DIAG_ZIP_MAP } from '../diag-zip-map.js';
+import { DEFAULT_MAX_TIMELINE_ENTRIES } from '../diag-zip-parser.js';
+import { parseDiagnosticsZipInWorker } from '../diag-zip-worker.js';
+import { getCompiledImeLogPatterns } from '../ime-log-patterns.js';
+import { compareSessions, type SessionSide } from '../session-diff.js';
+import { buildIncidentReport, renderIncidentHtml, renderIncidentMarkdown, type IncidentReportEvent, type IncidentReportRuleResult, type IncidentReportSession } from '../incident-report.js';
+import { clusterFailures, type FailedSessionSample } from '../failure-clusters.js';
+import { TREND_APP_EVENT_FIELDS, TREND_SESSION_FIELDS, buildEnrollmentTrends } from '../enrollment-trends.js';
+import { AGGREGATE_DIMENSIONS, AGGREGATE_METRICS, AGGREGATE_SESSION_FIELDS, aggregateSessions, type AggregateMetric } from '../session-aggregation.js';
+import { computeTenantBenchmark, type BenchmarkAppFailures, type BenchmarkSession, type BenchmarkTenantInput } from '../tenant-benchmark.js';
+import { evaluateAnalyzeRule, type EvaluableRule, type EvaluatorEvent } from '../rule-evaluator.js';
+import { summarizeDryRun, validateAnalyzeRule, type DryRunSessionResult } from '../rule-dry-run.js';
 
 // ── Session summary constants ───────────────────────────────────────────
 
@@ -53,12 +66,240 @@ const V1_PHASE_NAMES: Record<number, string> = {
   4: 'Account Setup', 5: 'Apps (User)', 6: 'Finalizing Setup', 7: 'Complete', 99: 'Failed',
 };
 const V2_PHASE_NAMES: Record<number, string> = { ...V1_PHASE_NAMES, 3: 'App Installation' };
-const phaseName = (phase: unknown, enrollmentType: unknown): string => {
+export const phaseName = (phase: unknown, enrollmentType: unknown): string => {
   const map = enrollmentType === 'v2' ? V2_PHASE_NAMES : V1_PHASE_NAMES;
   const n = Number(phase);
   return map[n] ?? String(phase ?? 'Unknown');
 };
 
+/**
+ * Per-call budget for walking ONE session's full event stream server-side (compare_sessions,
+ * dry_run_analyze_rule, get_session_incident_report, cluster_failures).
+ * At pageSize=1000 this covers 10k events — beyond every real enrollment — while the wall-clock
+ * keeps two parallel walks under the client's tool-call timeout.
+ */
+const SESSION_EVENTS_BUDGET: ScanBudget = { maxPages: 10, wallClockMs: 40_000 };
+
+/**
+ * Fetch session metadata, its whole event stream and its rule analysis for one compare side
+ * (also the input of get_session_incident_report). Analysis 404 (not computed yet) is tolerated as null; any other failure surfaces.
+ */
+async function fetchSessionForCompare(
+  sessionId: string,
+  tenantId: string | undefined,
+): Promise<SessionSide & { eventsTruncated: boolean }> {
+  const q = buildQuery({ tenantId } as Record<string, string | undefined>);
+  const eventsBase = `/api/sessions/${sessionId}/events`;
+  const [sessionResp, drained, analysis] = await Promise.all([
+    apiFetch(`/api/sessions/${sessionId}${q}`) as Promise<Record<string, unknown>>,
+    drainPages(followNextLink(eventsBase, { tenantId, pageSize: 1000 }, undefined), eventsBase, SESSION_EVENTS_BUDGET),
+    apiFetch(`/api/sessions/${sessionId}/analysis${q}`).catch((err: unknown) => {
+      if (err instanceof ApiError && err.status === 404) return null;
+      throw err;
+    }) as Promise<Record<string, unknown> | null>,
+  ]);
+  return {
+    session: (sessionResp.session ?? sessionResp) as Record<string, unknown>,
+    events: drained.items as Array<Record<string, unknown>>,
+    analysis,
+    eventsTruncated: drained.truncated,
+  };
+}
+
+/**
+ * Resolve a session's diagnostics blob and mint a short-lived download ticket for it. MemberRead +
+ * cross-tenant scoping are enforced backend-side; ?tenantId= is the GA filter / tenant-user
+ * validation. `available: false` = no package was uploaded (not an error).
+ */
+async function mintDiagnosticsTicket(sessionId: string, tenantId: string | undefined): Promise<
+  | { available: false }
+  | {
+    available: true;
+    blobName: string;
+    resolvedTenantId: string | undefined;
+    downloadUrl: string;
+    ticket: { url?: string; expiresAt?: string; blobName?: string; destination?: string; sizeBytes?: number | null };
+  }
+> {
+  const q = buildQuery({ tenantId } as Record<string, string | undefined>);
+  // The backend wraps the session in a { success, session } envelope (GetSessionFunction);
+  // fall back to the raw object so both shapes work (mirrors get_session_summary).
+  const sessionResp = await apiFetch(`/api/sessions/${sessionId}${q}`) as Record<string, unknown>;
+  const session = (sessionResp.session ?? sessionResp) as Record<string, unknown>;
+
+  const blobName = typeof session.diagnosticsBlobName === 'string' ? session.diagnosticsBlobName : '';
+  if (!blobName) return { available: false };
+  // tenantId for the ticket: explicit arg → session's tenantId → (tenant user) JWT default.
+  const resolvedTenantId = tenantId
+    ?? (typeof session.tenantId === 'string' ? session.tenantId : undefined);
+
+  // blobName travels in the body.
+  const ticketPath = `/api/diagnostics/download-ticket${buildQuery({ tenantId: resolvedTenantId } as Record<string, string | undefined>)}`;
+  const ticket = await apiFetch(ticketPath, {
+    method: 'POST',
+    body: JSON.stringify({ blobName }),
+  }) as { url?: string; expiresAt?: string; blobName?: string; destination?: string; sizeBytes?: number | null };
+
+  if (!ticket?.url) {
+    throw new Error('Backend did not return a download URL for the diagnostics ticket.');
+  }
+  const downloadUrl = ticket.url.startsWith('http') ? ticket.url : `${API_BASE_URL}${ticket.url}`;
+  return { available: true, blobName, resolvedTenantId, downloadUrl, ticket };
+}
+
+/** Largest diagnostics ZIP parse_diagnostics_zip will hold in memory (download, upload or local file). */
+const MAX_DIAG_ZIP_BYTES = 200 * 1024 * 1024;
+const DIAG_ZIP_DOWNLOAD_TIMEOUT_MS = 60_000;
+
+/** Fetch the ZIP behind a signed diagnostics ticket (no auth header — the ticket is the credential). */
+async function downloadDiagnosticsZip(url: string): Promise<Buffer> {
+  const res = await fetch(url, { signal: AbortSignal.timeout(DIAG_ZIP_DOWNLOAD_TIMEOUT_MS) });
+  if (!res.ok) throw new Error(`Diagnostics download failed with HTTP ${res.status}.`);
+  const declared = Number(res.headers.get('content-length') ?? 0);
+  if (declared > MAX_DIAG_ZIP_BYTES) {
+    throw new Error(`Diagnostics ZIP is ${declared} bytes — over the ${MAX_DIAG_ZIP_BYTES}-byte server-side parse limit. Use get_session_diagnostics and analyze it locally.`);
+  }
+  const buf = Buffer.from(await res.arrayBuffer());
+  if (buf.length > MAX_DIAG_ZIP_BYTES) throw new Error('Diagnostics ZIP exceeds the server-side parse limit.');
+  return buf;
+}
+
+/** Read a ZIP from DIAG_ZIP_LOCAL_DIR, refusing anything that resolves (incl. via symlink) outside it. */
+async function readLocalDiagnosticsZip(path: string): Promise<Buffer> {
+  if (!DIAG_ZIP_LOCAL_DIR) {
+    throw new Error('Local path input is disabled on this server (DIAG_ZIP_LOCAL_DIR is not set). Pass sessionId or zipBase64 instead.');
+  }
+  const root = await realpath(DIAG_ZIP_LOCAL_DIR);
+  const full = await realpath(resolve(root, path));
+  const rel = relative(root, full);
+  if (rel.startsWith('..') || isAbsolute(rel)) {
+    throw new Error('path must stay inside the configured diagnostics directory.');
+  }
+  const buf = await readFile(full);
+  if (buf.length > MAX_DIAG_ZIP_BYTES) throw new Error('Diagnostics ZIP exceeds the server-side parse limit.');
+  return buf;
+}
+
+/**
+ * Budget for paging a session list (cluster_failures, dry_run_analyze_rule) or get_enrollment_trends'
+ * app_install_failed walk. Pages are 200 lean rows; callers add `maxItems: maxSessions` so the walk
+ * stops as soon as the sample is full.
+ */
+const SESSION_SWEEP_BUDGET: ScanBudget = { maxPages: 10, wallClockMs: 20_000 };
+/**
+ * Budget for aggregate_sessions / get_enrollment_trends: 1000-row lean pages, so up to 20k sessions
+ * per call. Larger windows come back truncated (most recent first) rather than timing out.
+ */
+const AGGREGATE_BUDGET: ScanBudget = { maxPages: 20, wallClockMs: 40_000 };
+/**
+ * EventTypeIndex rows (≈ sessions with an app failure) per raw-events page in get_enrollment_trends —
+ * the backend reads each session's events per row, so pages stay at search.ts' size.
+ */
+const TREND_APP_EVENTS_PAGE_SIZE = 200;
+/** Parallel per-session event fetches in the sweep tools — keeps the backend fan-out polite. */
+const EVENT_FETCH_CONCURRENCY = 5;
+/** Lean projection for the failed-session sweep — exactly the fields the fingerprint and facets read. */
+const CLUSTER_SESSION_FIELDS =
+  'sessionId,tenantId,status,model,agentVersion,failureReason,currentPhase,enrollmentType,startedAt';
+
+/**
+ * Budget for benchmark_tenants, PER TENANT: up to 5k sessions each, tenants fetched a few at a time.
+ * A tenant beyond it is benchmarked on its most recent sessions and flagged truncated.
+ */
+const BENCHMARK_TENANT_BUDGET: ScanBudget = { maxPages: 5, wallClockMs: 20_000 };
+const BENCHMARK_TENANT_CONCURRENCY = 4;
+/** Lean projection for benchmark_tenants — model mix, outcome, duration, ESP-timeout reason. */
+const BENCHMARK_SESSION_FIELDS = 'sessionId,status,manufacturer,model,durationSeconds,failureReason';
+
+/** Lean projection for the dry-run session sweep — identity plus the fields matchedSessions echoes. */
+const DRY_RUN_SESSION_FIELDS = 'sessionId,tenantId,status,model,startedAt';
+/**
+ * Wall clock for a sweep tool's per-session event walks (cluster_failures, dry_run_analyze_rule).
+ * Each session's walk is also clipped to what is left of it, so hundreds of sessions at full
+ * SESSION_EVENTS_BUDGET can't outlast the client's tool-call timeout; sessions not started by then
+ * are reported (not evaluated / events unavailable).
+ */
+const EVENT_SWEEP_MS = 45_000;
+
+/** Map over items with at most `limit` promises in flight; result order matches input order. */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const out = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      out[i] = await fn(items[i]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return out;
+}
+
+/**
+ * search_sessions filter fields, shared verbatim by every tool that selects sessions the same way
+ * (dry_run_analyze_rule) so a filter that works in one works in the other. Turn the parsed
+ * values into query params with sessionFilterQueryParams.
+ */
+const SESSION_FILTER_SHAPE = {
+  status: z.enum(['InProgress', 'Pending', 'Stalled', 'Succeeded', 'Failed']).optional()
+    .describe('Enrollment status filter. Pending = White Glove pre-provisioning done, awaiting user enrollment; ' +
+              'Stalled = no progress for a while (non-terminal, can heal back to InProgress).'),
+  serialNumber: z.string().optional().describe('Device serial number (exact match)'),
+  deviceName: z.string().optional().describe('Device name (prefix match, e.g. "DESKTOP-")'),
+  manufacturer: z.string().optional().describe('Hardware manufacturer (e.g. "Microsoft", "Dell", "HP")'),
+  model: z.string().optional().describe('Hardware model (e.g. "Surface Pro 9")'),
+  osBuild: z.string().optional().describe('OS build number prefix (e.g. "26100")'),
+  enrollmentType: z.enum(['v1', 'v2']).optional().describe('Autopilot enrollment type'),
+  isPreProvisioned: z.boolean().optional().describe('Filter by White Glove / pre-provisioned enrollment'),
+  isHybridJoin: z.boolean().optional().describe('Filter by Hybrid Azure AD Join'),
+  isSelfDeployingProfile: z.boolean().optional().describe(
+    'Filter by self-deploying/kiosk Autopilot profile (CloudAssignedOobeConfig bits 0x20|0x40, agent-detected at registration)'),
+  geoCountry: z.string().optional().describe('Country of enrollment (2-letter ISO code, e.g. "DE", "US")'),
+  startedAfter: IsoDateString.optional().describe('ISO 8601 datetime — only sessions started after this'),
+  startedBefore: IsoDateString.optional().describe('ISO 8601 datetime — only sessions started before this'),
+  agentVersion: z.string().optional().describe('Monitor Agent version (exact match, e.g. "2.0.626")'),
+  agentVersionPrefix: z.string().optional()
+    .describe('Monitor Agent version prefix (e.g. "2.0." matches every 2.0.x build). Mutually exclusive with agentVersion (exact wins).'),
+  imeAgentVersion: z.string().optional().describe('IME Agent version (exact match, e.g. "1.23.456.789")'),
+  imeAgentVersionPrefix: z.string().optional()
+    .describe('IME Agent version prefix (e.g. "1.23." matches every 1.23.x build). Mutually exclusive with imeAgentVersion.'),
+  rebootCountMin: z.coerce.number().int().min(0).optional()
+    .describe('Minimum number of reboots observed during enrollment (>=). Use to find "machines with many reboots", ' +
+              'e.g. rebootCountMin=5. Only populated for v2 enrollments; sessions that predate the field are excluded.'),
+  rebootCountMax: z.coerce.number().int().min(0).optional()
+    .describe('Maximum number of reboots observed during enrollment (<=).'),
+  deviceProperties: z.record(z.string(), z.string()).optional().describe(
+    'Dynamic device property filters. Keys use "eventType.propertyName" dot notation. ' +
+    'See the device_properties catalog (call get_resource(name="device_properties")) for all available keys and types. ' +
+    'Values: exact match by default. Prefix with >=, <=, >, < for numeric ranges (e.g. ">=8"). ' +
+    'Trailing "*" is a prefix wildcard (e.g. {"hardware_spec.cpuArchitecture": "ARM*"} matches ARM + ARM64). ' +
+    'Booleans: use "True" or "False". Arrays: substring match in any element.'
+  ),
+};
+
+type SessionFilterArgs = {
+  [K in keyof typeof SESSION_FILTER_SHAPE]?: z.infer<(typeof SESSION_FILTER_SHAPE)[K]>;
+};
+
+/**
+ * Flatten parsed SESSION_FILTER_SHAPE values into session-search query params. followNextLink
+ * handles the plain fields; deviceProperties have to be layered in as `prop.<key>` params, which
+ * followNextLink doesn't know about.
+ */
+function sessionFilterQueryParams(filters: SessionFilterArgs): Record<string, string | number | boolean | undefined | null> {
+  const { deviceProperties, ...rest } = filters;
+  const queryParams: Record<string, string | number | boolean | undefined | null> = { ...rest };
+  if (deviceProperties) {
+    // Reject typo'd key prefixes (e.g. "tmp_status.x") so a bad filter is a
+    // clear error, not a silent count:0 indistinguishable from a real miss.
+    assertKnownDevicePropertyKeys(Object.keys(deviceProperties));
+    for (const [key, value] of Object.entries(deviceProperties)) {
+      queryParams[`prop.${key}`] = value;
+    }
+  }
+  return queryParams;
+}
+
 // ── Registration ────────────────────────────────────────────────────────
 
 export function registerSessionTools(server: McpServer, ga: boolean, delegated: boolean = false): void {
@@ -75,7 +316,8 @@ export function registerSessionTools(server: McpServer, ga: boolean, delegated:
         'Consult the device_properties catalog (call get_resource(name="device_properties")) for available keys. ' +
         'Examples: {"tpm_status.specVersion": "2.0"}, {"hardware_spec.ramTotalGB": ">=8"}, {"secureboot_status.uefiSecureBootEnabled": "True"}. ' +
         'Array values are searched as substring match (e.g. disks containing "NVMe"). ' +
-        'For COUNTING / AGGREGATION queries (e.g. "how many V2 enrollments?", "how many failed in last 7 days?") pass ' +
+        'For COUNTING / AGGREGATION queries prefer aggregate_sessions (same filters, grouped counts and rates in one call). ' +
+        'If you do need raw rows for a count (e.g. "how many V2 enrollments?", "how many failed in last 7 days?") pass ' +
         '`fields=sessionId,status,agentVersion,startedAt` (or a similar lean subset): full SessionSummary objects are ~1.5KB ' +
         'each and can trip the response cap before pagination would normally deliver the answer. With projection a 100-session ' +
         'aggregate fits in <10KB. ' +
@@ -90,46 +332,13 @@ export function registerSessionTools(server: McpServer, ga: boolean, delegated:
         'query params round-trip correctly.',
       inputSchema: {
         tenantId: z.string().optional().describe(tenantIdDescription(ga, delegated, 'Tenant ID. Omit for cross-tenant search (Global Admin only).', 'Optional tenant ID. Defaults to your tenant.')),
-        status: z.enum(['InProgress', 'Pending', 'Stalled', 'Succeeded', 'Failed']).optional()
-          .describe('Enrollment status filter. Pending = White Glove pre-provisioning done, awaiting user enrollment; ' +
-                    'Stalled = no progress for a while (non-terminal, can heal back to InProgress).'),
-        serialNumber: z.string().optional().describe('Device serial number (exact match)'),
-        deviceName: z.string().optional().describe('Device name (prefix match, e.g. "DESKTOP-")'),
-        manufacturer: z.string().optional().describe('Hardware manufacturer (e.g. "Microsoft", "Dell", "HP")'),
-        model: z.string().optional().describe('Hardware model (e.g. "Surface Pro 9")'),
-        osBuild: z.string().optional().describe('OS build number prefix (e.g. "26100")'),
-        enrollmentType: z.enum(['v1', 'v2']).optional().describe('Autopilot enrollment type'),
-        isPreProvisioned: z.boolean().optional().describe('Filter by White Glove / pre-provisioned enrollment'),
-        isHybridJoin: z.boolean().optional().describe('Filter by Hybrid Azure AD Join'),
-        isSelfDeployingProfile: z.boolean().optional().describe(
-          'Filter by self-deploying/kiosk Autopilot profile (CloudAssignedOobeConfig bits 0x20|0x40, agent-detected at registration)'),
-        geoCountry: z.string().optional().describe('Country of enrollment (2-letter ISO code, e.g. "DE", "US")'),
-        startedAfter: IsoDateString.optional().describe('ISO 8601 datetime — only sessions started after this'),
-        startedBefore: IsoDateString.optional().describe('ISO 8601 datetime — only sessions started before this'),
-        agentVersion: z.string().optional().describe('Monitor Agent version (exact match, e.g. "2.0.626")'),
-        agentVersionPrefix: z.string().optional()
-          .describe('Monitor Agent version prefix (e.g. "2.0." matches every 2.0.x build). Mutually exclusive with agentVersion (exact wins).'),
-        imeAgentVersion: z.string().optional().describe('IME Agent version (exact match, e.g. "1.23.456.789")'),
-        imeAgentVersionPrefix: z.string().optional()
-          .describe('IME Agent version prefix (e.g. "1.23." matches every 1.23.x build). Mutually exclusive with imeAgentVersion.'),
-        rebootCountMin: z.coerce.number().int().min(0).optional()
-          .describe('Minimum number of reboots observed during enrollment (>=). Use to find "machines with many reboots", ' +
-                    'e.g. rebootCountMin=5. Only populated for v2 enrollments; sessions that predate the field are excluded.'),
-        rebootCountMax: z.coerce.number().int().min(0).optional()
-          .describe('Maximum number of reboots observed during enrollment (<=).'),
+        ...SESSION_FILTER_SHAPE,
         fields: z.string().optional()
           .describe('Comma-separated lean projection (e.g. "sessionId,status,agentVersion,startedAt"). ' +
                     'Use for counting / aggregation to avoid the response cap. Available: sessionId, tenantId, status, ' +
                     'serialNumber, manufacturer, model, deviceName, osBuild, osName, startedAt, completedAt, ' +
                     'durationSeconds, currentPhase, failureReason, eventCount, enrollmentType, isPreProvisioned, ' +
                     'isUserDriven, isHybridJoin, isSelfDeployingProfile, agentVersion, imeAgentVersion, geoCountry, rebootCount.'),
-        deviceProperties: z.record(z.string(), z.string()).optional().describe(
-          'Dynamic device property filters. Keys use "eventType.propertyName" dot notation. ' +
-          'See the device_properties catalog (call get_resource(name="device_properties")) for all available keys and types. ' +
-          'Values: exact match by default. Prefix with >=, <=, >, < for numeric ranges (e.g. ">=8"). ' +
-          'Trailing "*" is a prefix wildcard (e.g. {"hardware_spec.cpuArchitecture": "ARM*"} matches ARM + ARM64). ' +
-          'Booleans: use "True" or "False". Arrays: substring match in any element.'
-        ),
         pageSize: z.coerce.number().int().min(1).max(1000).optional().default(200)
           .describe('Page size (1-1000, default 200). Returns this many sessions per call; follow nextLink to fetch more.'),
         continuation: z.string().optional()
@@ -139,25 +348,15 @@ export function registerSessionTools(server: McpServer, ga: boolean, delegated:
     },
     async (args) => withToolTelemetry('search_sessions', async () => {
       try {
-        const { deviceProperties, tenantId: rawTenantId, pageSize, continuation, ...rest } = args;
+        const { tenantId: rawTenantId, pageSize, continuation, fields, ...filters } = args;
         // Delegated (MSP): require a managed tenantId (no aggregate); a page-2 call carries it inside the
         // continuation nextLink. No-op for GA/Reader/tenant users.
         const tenantId = enforceDelegatedTenantForPage(rawTenantId, continuation);
         // GA → /api/global/search/sessions (tenantId is filter); Tenant-Admin → /api/search/sessions (JWT-bound).
         const basePath = pickGlobalOrTenantPath('/api/global/search/sessions', '/api/search/sessions');
-        // followNextLink handles full nextLink paths verbatim. For first-page calls
-        // we still need to layer in deviceProperties as `prop.<key>` query params,
-        // which followNextLink doesn't know about — so build the param record and
-        // delegate the URL assembly to it.
-        const queryParams: Record<string, string | number | boolean | undefined | null> = { ...rest, tenantId, pageSize };
-        if (deviceProperties) {
-          // Reject typo'd key prefixes (e.g. "tmp_status.x") so a bad filter is a
-          // clear error, not a silent count:0 indistinguishable from a real miss.
-          assertKnownDevicePropertyKeys(Object.keys(deviceProperties));
-          for (const [key, value] of Object.entries(deviceProperties)) {
-            queryParams[`prop.${key}`] = value;
-          }
-        }
+        // followNextLink handles full nextLink paths verbatim; first-page calls get the filter params
+        // (including deviceProperties as `prop.<key>`) built up front.
+        const queryParams = { ...sessionFilterQueryParams(filters), fields, tenantId, pageSize };
         const path = followNextLink(basePath, queryParams, continuation);
         // deviceProperties + scan-path filters (serial, geo, time, …) are post-filtered
         // in-memory by the backend, so a page can be empty yet still carry a nextLink.
@@ -270,8 +469,8 @@ export function registerSessionTools(server: McpServer, ga: boolean, delegated:
         'enrollment went wrong: correlate the on-device agent log against the backend Events table.\n\n' +
         'CLIENT REQUIREMENT: this needs a client that can download files and run local file/shell tools ' +
         '(e.g. Claude Code or another agentic client). A pure chat client (Claude Desktop, claude.ai web) ' +
-        'has no local filesystem and CANNOT unzip the binary archive — there this tool only yields a ' +
-        'download link a human could open manually, not an automated analysis.\n\n' +
+        'has no local filesystem and CANNOT unzip the binary archive — there call parse_diagnostics_zip ' +
+        'with the sessionId instead, which parses the archive server-side into a normalized timeline.\n\n' +
         'HOW TO USE: download the ZIP from "downloadUrl" — NO auth header needed, it is a short-lived ' +
         'signed ticket (~10 min) — then unzip and analyze it LOCALLY. The backend never unzips or parses ' +
         'it; you process it on your side and enrich with get_session_events / query_raw_events / ' +
@@ -291,18 +490,8 @@ export function registerSessionTools(server: McpServer, ga: boolean, delegated:
       try {
         const { sessionId, tenantId: rawTenantId } = args;
         const tenantId = enforceDelegatedTenant(rawTenantId);
-        const q = buildQuery({ tenantId } as Record<string, string | undefined>);
-        // The backend wraps the session in a { success, session } envelope (GetSessionFunction);
-        // fall back to the raw object so both shapes work (mirrors get_session_summary).
-        const sessionResp = await apiFetch(`/api/sessions/${sessionId}${q}`) as Record<string, unknown>;
-        const session = (sessionResp.session ?? sessionResp) as Record<string, unknown>;
-
-        const blobName = typeof session.diagnosticsBlobName === 'string' ? session.diagnosticsBlobName : '';
-        // tenantId for the ticket: explicit arg → session's tenantId → (tenant user) JWT default.
-        const resolvedTenantId = tenantId
-          ?? (typeof session.tenantId === 'string' ? session.tenantId : undefined);
-
-        if (!blobName) {
+        const resolved = await mintDiagnosticsTicket(sessionId, tenantId);
+        if (!resolved.available) {
           return toolResultText({
             available: false,
             sessionId,
@@ -312,21 +501,7 @@ export function registerSessionTools(server: McpServer, ga: boolean, delegated:
               'Proceed with backend telemetry (get_session_summary / get_session_events).',
           }, MAX_RESULT_SIZE_CHARS.small);
         }
-
-        // Mint a download ticket. MemberRead + cross-tenant scoping enforced backend-side;
-        // ?tenantId= is the GA filter / tenant-user validation. blobName travels in the body.
-        const ticketPath = `/api/diagnostics/download-ticket${buildQuery({ tenantId: resolvedTenantId } as Record<string, string | undefined>)}`;
-        const ticket = await apiFetch(ticketPath, {
-          method: 'POST',
-          body: JSON.stringify({ blobName }),
-        }) as { url?: string; expiresAt?: string; blobName?: string; destination?: string; sizeBytes?: number | null };
-
-        if (!ticket?.url) {
-          return toolError('get_session_diagnostics', args,
-            new Error('Backend did not return a download URL for the diagnostics ticket.'));
-        }
-
-        const downloadUrl = ticket.url.startsWith('http') ? ticket.url : `${API_BASE_URL}${ticket.url}`;
+        const { ticket, blobName, resolvedTenantId, downloadUrl } = resolved;
 
         return toolResultText({
           available: true,
@@ -352,6 +527,89 @@ export function registerSessionTools(server: McpServer, ga: boolean, delegated:
     })
   );
 
+  // Tool 3c: parse_diagnostics_zip
+  server.registerTool(
+    'parse_diagnostics_zip',
+    {
+      title: 'Parse Diagnostics ZIP (Server-Side)',
+      description:
+        'Parses an agent DIAGNOSTICS ZIP on the server and returns a normalized, chronologically merged timeline — ' +
+        'the agent-side root-cause workflow for clients WITHOUT local shell/file tools (chat-only hosts). ' +
+        'Pass exactly one source: sessionId (the server fetches the session\'s uploaded package itself), ' +
+        'zipBase64 (an uploaded archive, bounded by the request size limit)' +
+        (DIAG_ZIP_LOCAL_DIR ? ', or path (a ZIP inside the server\'s configured diagnostics folder)' : '') + '. ' +
+        'Files are classified against the zipMap layout (see get_resource(name="diag_zip_layout")): agent log lines ' +
+        '(source "agent", filtered by agentLogMinLevel), IME log entries that match a rules/ime-log-patterns regex ' +
+        '(source "ime", with patternId, action and named groups — falls back to the agent\'s ime_pattern_matches.log when ' +
+        'the raw IME logs were dropped), DecisionCore journal transitions ("journal") and ingested signals ("signal"). ' +
+        'final-status.json and sessioninfo.txt come back as structured fields; files lists every entry with its zipMap ' +
+        'slot, and missingExpected the layout files the archive lacks. IME timestamps are device-local — pass ' +
+        'imeUtcOffsetMinutes (e.g. 60 for CET) so they line up with the UTC agent log. "timelineTruncated": true means ' +
+        'more entries matched than maxEntries — narrow with from/to or sources. Correlate with get_session_events.',
+      inputSchema: {
+        sessionId: SessionIdSchema.optional().describe('Session UUID whose uploaded diagnostics package should be parsed'),
+        tenantId: z.string().optional().describe(tenantIdDescription(ga, delegated, 'Tenant ID for sessionId. If omitted, auto-resolved from the session (Global Admin can access any tenant).', 'Tenant ID for sessionId. If omitted, auto-resolved from the session.')),
+        zipBase64: z.string().optional().describe('The diagnostics ZIP itself, base64-encoded (upload).'),
+        ...(DIAG_ZIP_LOCAL_DIR
+          ? { path: z.string().optional().describe('ZIP file path relative to the server\'s diagnostics folder.') }
+          : {}),
+        agentLogMinLevel: z.enum(['TRACE', 'VERBOSE', 'DEBUG', 'INFO', 'WARN', 'ERROR']).optional().default('WARN')
+          .describe('Lowest agent-log level kept in the timeline (default WARN; INFO gives the full client chronology).'),
+        sources: z.array(z.enum(['agent', 'ime', 'journal', 'signal'])).optional()
+          .describe('Timeline sources to include (default all).'),
+        from: IsoDateString.optional().describe('ISO 8601 datetime — drop timeline entries before this'),
+        to: IsoDateString.optional().describe('ISO 8601 datetime — drop timeline entries after this'),
+        imeUtcOffsetMinutes: z.coerce.number().int().min(-840).max(840).optional().default(0)
+          .describe('Device UTC offset in minutes applied to IME (CMTrace, device-local) timestamps. Default 0.'),
+        maxEntries: z.coerce.number().int().min(1).max(2000).optional().default(DEFAULT_MAX_TIMELINE_ENTRIES)
+          .describe(`Maximum timeline entries returned (1-2000, default ${DEFAULT_MAX_TIMELINE_ENTRIES}), earliest first.`),
+      },
+      annotations: READ_ONLY,
+    },
+    async (args) => withToolTelemetry('parse_diagnostics_zip', async () => {
+      try {
+        const { sessionId, tenantId: rawTenantId, zipBase64, agentLogMinLevel, sources, from, to, imeUtcOffsetMinutes, maxEntries } = args;
+        const path = (args as { path?: string }).path;
+        const given = [sessionId, zipBase64, path].filter((v) => v !== undefined).length;
+        if (given !== 1) {
+          throw new Error('Pass exactly one of sessionId, zipBase64' + (DIAG_ZIP_LOCAL_DIR ? ' or path' : '') + '.');
+        }
+
+        let zip: Buffer;
+        if (sessionId) {
+          const tenantId = enforceDelegatedTenant(rawTenantId);
+          const resolved = await mintDiagnosticsTicket(sessionId, tenantId);
+          if (!resolved.available) {
+            return toolResultText({
+              available: false,
+              sessionId,
+              reason: 'No diagnostics package was uploaded for this session — parse nothing, continue with backend telemetry.',
+            }, MAX_RESULT_SIZE_CHARS.small);
+          }
+          zip = await downloadDiagnosticsZip(resolved.downloadUrl);
+        } else if (zipBase64 !== undefined) {
+          zip = Buffer.from(zipBase64, 'base64');
+        } else {
+          zip = await readLocalDiagnosticsZip(path!);
+        }
+
+        const { patterns, invalid } = await getCompiledImeLogPatterns(RULES_DIR);
+        const result = await parseDiagnosticsZipInWorker(zip, patterns, { agentLogMinLevel, sources, from, to, imeUtcOffsetMinutes, maxEntries });
+        return toolResultText({
+          ...(sessionId ? { sessionId } : {}),
+          zipBytes: zip.length,
+          imePatternsLoaded: patterns.length,
+          ...(invalid.length ? { imePatternsInvalid: invalid } : {}),
+          ...result,
+        }, MAX_RESULT_SIZE_CHARS.events);
+      } catch (error: unknown) {
+        // Never echo the upload back — the parameter summary would repeat the whole archive.
+        const echoed = args.zipBase64 ? { ...args, zipBase64: `<${args.zipBase64.length} base64 chars>` } : args;
+        return toolError('parse_diagnostics_zip', echoed, error);
+      }
+    })
+  );
+
   // Tool 4: get_session_events
   server.registerTool(
     'get_session_events',
@@ -597,6 +855,617 @@ export function registerSessionTools(server: McpServer, ga: boolean, delegated:
     })
   );
 
+  // Tool 5a: get_session_incident_report
+  server.registerTool(
+    'get_session_incident_report',
+    {
+      title: 'Get Session Incident Report',
+      description:
+        'Render a ready-to-paste incident report for ONE enrollment session, in the same fixed layout the portal\'s ' +
+        'Report Session dialog produces: session metadata, phase timeline (start, end, duration, errors per phase), ' +
+        'failing apps (final outcome failed, with error code and attempts), fired analysis rules with remediation steps ' +
+        'and docs, a key-event excerpt (errors first, then phase changes and warnings; chronological) and the ' +
+        'vulnerability summary. format="markdown" (default) suits tickets and chat; format="html" is a standalone page ' +
+        'to attach. Use when a user asks for a report or ticket text for a session; for your own analysis prefer ' +
+        'get_session_summary (structured JSON).',
+      inputSchema: {
+        sessionId: SessionIdSchema.describe('Session UUID'),
+        tenantId: z.string().optional().describe(tenantIdDescription(ga, delegated, 'Tenant ID. If omitted, auto-resolved from the session (Global Admin can access any tenant).', 'Tenant ID. If omitted, auto-resolved from the session.')),
+        format: z.enum(['markdown', 'html']).optional().default('markdown').describe('Output format (default markdown).'),
+        keyEventLimit: z.number().int().min(5).max(100).optional().default(25).describe('Maximum key events in the excerpt (default 25).'),
+      },
+      annotations: READ_ONLY,
+    },
+    async (args) => withToolTelemetry('get_session_incident_report', async () => {
+      try {
+        const { sessionId, format, keyEventLimit } = args;
+        const tenantId = enforceDelegatedTenant(args.tenantId);
+        const q = buildQuery({ tenantId } as Record<string, string | undefined>);
+        const [side, vulnerabilityReport] = await Promise.all([
+          fetchSessionForCompare(sessionId, tenantId),
+          // The vulnerability section is optional: a session without a stored report (or a
+          // failing report endpoint) still gets the rest of the report.
+          (apiFetch(`/api/sessions/${sessionId}/vulnerability-report${q}`) as Promise<{ report?: unknown }>)
+            .then((r) => r.report ?? null, () => null),
+        ]);
+        const report = buildIncidentReport({
+          session: { ...side.session, sessionId } as unknown as IncidentReportSession,
+          events: side.events as unknown as IncidentReportEvent[],
+          ruleResults: ((side.analysis?.results ?? []) as unknown as IncidentReportRuleResult[]),
+          vulnerabilityReport,
+          generatedAt: new Date().toISOString(),
+          keyEventLimit,
+        });
+        return toolResultText({
+          sessionId,
+          title: report.title,
+          format,
+          eventsTruncated: side.eventsTruncated,
+          report: format === 'html' ? renderIncidentHtml(report) : renderIncidentMarkdown(report),
+        }, MAX_RESULT_SIZE_CHARS.small);
+      } catch (error: unknown) {
+        return toolError('get_session_incident_report', args, error);
+      }
+    })
+  );
+
+  // Tool 5b: compare_sessions
+  server.registerTool(
+    'compare_sessions',
+    {
+      title: 'Compare Sessions',
+      description:
+        'Structured side-by-side diff of TWO enrollment sessions — the "works on one laptop, fails on the other" ' +
+        'triage in one call. Pass the problem session as sessionIdA and a healthy reference (ideally the same model) ' +
+        'as sessionIdB. Returns: overviewDifferences (status, duration, OS/agent versions, enrollment config), ' +
+        'phaseDurations (seconds per phase on each side + delta), appInstalls (apps whose final outcome differs, ' +
+        'failures first), eventTypes (types present in only one session + count differences), deviceProperties ' +
+        '(hardware_spec / tpm_status keys that differ, in the same "eventType.key" notation as the search_sessions ' +
+        'deviceProperties filter) and rules (analyze rules that fired in only one session). ' +
+        'Each session\'s full event stream is walked internally; `eventsTruncated` flags a side whose stream hit ' +
+        'the scan budget (diff computed over the first pages only). Drill into a difference with get_session_events.',
+      inputSchema: {
+        sessionIdA: SessionIdSchema.describe('Session UUID of the problem session (side A)'),
+        sessionIdB: SessionIdSchema.describe('Session UUID of the reference session (side B)'),
+        tenantId: z.string().optional().describe(tenantIdDescription(ga, delegated, 'Tenant ID applied to both sessions. If omitted, auto-resolved per session (Global Admin can compare across tenants).', 'Tenant ID. If omitted, auto-resolved from the sessions.')),
+      },
+      annotations: READ_ONLY,
+    },
+    async (args) => withToolTelemetry('compare_sessions', async () => {
+      try {
+        const { sessionIdA, sessionIdB, tenantId: rawTenantId } = args;
+        const tenantId = enforceDelegatedTenant(rawTenantId);
+        if (sessionIdA.toLowerCase() === sessionIdB.toLowerCase()) {
+          throw new Error('sessionIdA and sessionIdB are the same session — pass two different sessions to compare.');
+        }
+        const [a, b] = await Promise.all([
+          fetchSessionForCompare(sessionIdA, tenantId),
+          fetchSessionForCompare(sessionIdB, tenantId),
+        ]);
+        const overview = (id: string, side: typeof a) => ({
+          sessionId: id,
+          status: side.session.status,
+          model: side.session.model,
+          serialNumber: side.session.serialNumber,
+          startedAt: side.session.startedAt,
+          eventCount: side.events.length,
+          eventsTruncated: side.eventsTruncated,
+        });
+        return toolResultText({
+          a: overview(sessionIdA, a),
+          b: overview(sessionIdB, b),
+          diff: compareSessions(a, b),
+        }, MAX_RESULT_SIZE_CHARS.small);
+      } catch (error: unknown) {
+        return toolError('compare_sessions', args, error);
+      }
+    })
+  );
+
+  // Tool 5c: cluster_failures
+  server.registerTool(
+    'cluster_failures',
+    {
+      title: 'Cluster Failures',
+      description:
+        'Group the FAILED enrollment sessions of a time window into ranked failure clusters — the one-call answer to ' +
+        '"why did 40 devices fail this week". Each failed session is fingerprinted by normalized failure reason, last ' +
+        'phase reached, first failing app, and first error event type + error code; sessions sharing a fingerprint form ' +
+        'a cluster. Returns clusters largest-first with count, share, example session IDs (feed them to ' +
+        'get_session_summary / compare_sessions) and the top affected models and agent versions. ' +
+        (ga ? 'Omit tenantId for a cross-tenant sweep (Global Admin). ' : '') +
+        'The failed-session list is paged server-side within a fixed budget and capped at maxSessions; ' +
+        '"truncated": true means more failures exist in the window than were clustered — narrow the window or add a ' +
+        'model / agentVersion filter. Each session\'s full event stream is read within a time budget; sessions whose ' +
+        'events could not be read in time count in eventsUnavailable and cluster on their session fields, and ' +
+        'sessionsWithTruncatedEvents counts streams cut off by the per-session page budget. Set includeEvents=false ' +
+        'for a fast session-field-only clustering (failingApp and firstError then stay null).',
+      inputSchema: {
+        tenantId: z.string().optional().describe(tenantIdDescription(ga, delegated, 'Tenant ID. Omit for cross-tenant clustering (Global Admin only).', 'Optional tenant ID. Defaults to your tenant.')),
+        startedAfter: IsoDateString.optional()
+          .describe('ISO 8601 datetime — only sessions started after this. Defaults to 7 days ago.'),
+        startedBefore: IsoDateString.optional().describe('ISO 8601 datetime — only sessions started before this'),
+        model: z.string().optional().describe('Hardware model filter (e.g. "Surface Pro 9")'),
+        manufacturer: z.string().optional().describe('Hardware manufacturer filter (e.g. "Dell")'),
+        agentVersion: z.string().optional().describe('Monitor Agent version filter (exact match)'),
+        enrollmentType: z.enum(['v1', 'v2']).optional().describe('Autopilot enrollment type'),
+        maxSessions: z.coerce.number().int().min(1).max(500).optional().default(100)
+          .describe('Maximum failed sessions to cluster (1-500, default 100). Most recent pages first.'),
+        maxClusters: z.coerce.number().int().min(1).max(50).optional().default(15)
+          .describe('Maximum clusters returned (1-50, default 15). Smaller clusters beyond this are counted in omittedClusters.'),
+        includeEvents: z.boolean().optional().default(true)
+          .describe('Fetch each session\'s events to derive failing app and first error (default true). ' +
+                    'false = cluster on failure reason + phase only, much faster.'),
+      },
+      annotations: READ_ONLY,
+    },
+    async (args) => withToolTelemetry('cluster_failures', async () => {
+      try {
+        const { tenantId: rawTenantId, maxSessions, maxClusters, includeEvents, startedAfter, ...filters } = args;
+        const tenantId = enforceDelegatedTenant(rawTenantId);
+        const windowStart = startedAfter ?? new Date(Date.now() - 7 * 86_400_000).toISOString();
+        const basePath = pickGlobalOrTenantPath('/api/global/search/sessions', '/api/search/sessions');
+        const firstPath = followNextLink(basePath, {
+          ...filters,
+          tenantId,
+          status: 'Failed',
+          startedAfter: windowStart,
+          fields: CLUSTER_SESSION_FIELDS,
+          pageSize: 200,
+        }, undefined);
+        const drained = await drainPages(firstPath, basePath, { ...SESSION_SWEEP_BUDGET, maxItems: maxSessions });
+        const sessions = drained.items as Array<Record<string, unknown>>;
+
+        const deadline = Date.now() + EVENT_SWEEP_MS;
+        let eventsTruncated = 0;
+        let eventsUnavailable = 0;
+        const samples: FailedSessionSample[] = includeEvents
+          ? await mapWithConcurrency(sessions, EVENT_FETCH_CONCURRENCY, async (session) => {
+            // The whole stream, not just its first page: lastPhase is read from the LAST phased event.
+            // Out of time, or unreadable, the session clusters on its fields (currentPhase stands in).
+            const remainingMs = deadline - Date.now();
+            if (remainingMs <= 0) {
+              eventsUnavailable++;
+              return { session, events: null };
+            }
+            const eventsBase = `/api/sessions/${session.sessionId}/events`;
+            const sessionTenant = String(session.tenantId ?? tenantId ?? '') || undefined;
+            try {
+              const events = await drainPages(
+                followNextLink(eventsBase, { tenantId: sessionTenant, pageSize: 1000 }, undefined),
+                eventsBase,
+                { ...SESSION_EVENTS_BUDGET, wallClockMs: Math.min(SESSION_EVENTS_BUDGET.wallClockMs, remainingMs) },
+              );
+              if (events.truncated) eventsTruncated++;
+              return { session, events: events.items as Array<Record<string, unknown>> };
+            } catch {
+              eventsUnavailable++;
+              return { session, events: null };
+            }
+          })
+          : sessions.map((session) => ({ session, events: null }));
+
+        const result = clusterFailures(samples, maxClusters, phaseName);
+        return toolResultText({
+          window: { startedAfter: windowStart, startedBefore: filters.startedBefore ?? null },
+          sessionsClustered: samples.length,
+          eventsUnavailable,
+          sessionsWithTruncatedEvents: eventsTruncated,
+          truncated: drained.truncated,
+          scannedPages: drained.scannedPages,
+          ...result,
+        }, MAX_RESULT_SIZE_CHARS.small);
+      } catch (error: unknown) {
+        return toolError('cluster_failures', args, error);
+      }
+    })
+  );
+
+  // Tool 5d: dry_run_analyze_rule
+  server.registerTool(
+    'dry_run_analyze_rule',
+    {
+      title: 'Dry-Run Analyze Rule',
+      description:
+        'Preview how a DRAFT analyze rule would behave before it is enabled. The rule JSON is validated against ' +
+        'rules/schema/analyze-rule.schema.json (schema errors are returned, nothing is evaluated), then replayed ' +
+        'offline over the full event streams of sessions selected with the same filters as search_sessions. ' +
+        'Returns hitRate, outcome counts (fired / skipped_by_precondition / required_condition_failed / ' +
+        'no_condition_matched / below_threshold), per-condition match counts (spot dead or always-true conditions), ' +
+        'the confidence distribution of firings, matched session IDs and up to 3 examples with the explanation ' +
+        'rendered exactly as the portal would show it. ' +
+        (ga ? 'Omit tenantId for a cross-tenant sample (Global Admin). ' : '') +
+        'The evaluator mirrors the backend rule engine; nothing is written. "truncated": true means more sessions ' +
+        'matched the filters than were evaluated — more matches than maxSessions, a session\'s events hit the scan ' +
+        'budget, a session\'s events could not be read (sessionsWithUnavailableEvents) or the sweep ran out of time ' +
+        '(sessionsNotEvaluated) — narrow the filters for an exact rate.',
+      inputSchema: {
+        rule: z.union([z.string(), z.record(z.string(), z.unknown())])
+          .describe('The draft analyze rule — a JSON object or a JSON string, in the same shape as the files under rules/analyze.'),
+        tenantId: z.string().optional().describe(tenantIdDescription(ga, delegated, 'Tenant ID. Omit for a cross-tenant sample (Global Admin only).', 'Optional tenant ID. Defaults to your tenant.')),
+        ...SESSION_FILTER_SHAPE,
+        maxSessions: z.coerce.number().int().min(1).max(200).optional().default(50)
+          .describe('Maximum sessions to evaluate (1-200, default 50). Most recent pages first.'),
+      },
+      annotations: READ_ONLY,
+    },
+    async (args) => withToolTelemetry('dry_run_analyze_rule', async () => {
+      try {
+        const { rule: rawRule, tenantId: rawTenantId, maxSessions, ...filters } = args;
+        const tenantId = enforceDelegatedTenant(rawTenantId);
+        let rule: unknown = rawRule;
+        if (typeof rawRule === 'string') {
+          try {
+            rule = JSON.parse(rawRule);
+          } catch (e) {
+            throw new Error(`rule is not valid JSON: ${(e as Error).message}`);
+          }
+        }
+        const schemaErrors = validateAnalyzeRule(rule);
+        if (schemaErrors.length > 0) {
+          return toolResultText({ valid: false, schemaErrors }, MAX_RESULT_SIZE_CHARS.small);
+        }
+        const draft = rule as EvaluableRule;
+
+        const basePath = pickGlobalOrTenantPath('/api/global/search/sessions', '/api/search/sessions');
+        const firstPath = followNextLink(basePath, {
+          ...sessionFilterQueryParams(filters),
+          tenantId,
+          fields: DRY_RUN_SESSION_FIELDS,
+          pageSize: 200,
+        }, undefined);
+        const drained = await drainPages(firstPath, basePath, { ...SESSION_SWEEP_BUDGET, maxItems: maxSessions });
+        const sessions = drained.items as Array<Record<string, unknown>>;
+
+        const deadline = Date.now() + EVENT_SWEEP_MS;
+        let eventsTruncated = 0;
+        let eventsUnavailable = 0;
+        let notEvaluated = 0;
+        const evaluated = await mapWithConcurrency(sessions, EVENT_FETCH_CONCURRENCY, async (session): Promise<DryRunSessionResult | null> => {
+          const remainingMs = deadline - Date.now();
+          if (remainingMs <= 0) {
+            notEvaluated++;
+            return null;
+          }
+          const eventsBase = `/api/sessions/${session.sessionId}/events`;
+          const sessionTenant = String(session.tenantId ?? tenantId ?? '') || undefined;
+          let events;
+          try {
+            events = await drainPages(
+              followNextLink(eventsBase, { tenantId: sessionTenant, pageSize: 1000 }, undefined),
+              eventsBase,
+              { ...SESSION_EVENTS_BUDGET, wallClockMs: Math.min(SESSION_EVENTS_BUDGET.wallClockMs, remainingMs) },
+            );
+          } catch {
+            // A deleted / forbidden session or a timeout drops that session, not the whole dry run.
+            eventsUnavailable++;
+            return null;
+          }
+          if (events.truncated) eventsTruncated++;
+          const stream = events.items as EvaluatorEvent[];
+          // Phases still open at the end of the stream are measured to the last event, not to
+          // "now" — a finished session replayed next week must not grow a week-long phase.
+          const lastTs = stream.reduce((max, e) => Math.max(max, Date.parse(String(e.timestamp)) || 0), 0);
+          return {
+            sessionId: String(session.sessionId),
+            tenantId: session.tenantId as string | undefined,
+            model: session.model as string | undefined,
+            status: session.status as string | undefined,
+            evaluation: evaluateAnalyzeRule(draft, stream, lastTs ? { now: lastTs } : {}),
+          };
+        });
+        const results = evaluated.filter((r): r is DryRunSessionResult => r !== null);
+
+        return toolResultText({
+          valid: true,
+          ruleId: draft.ruleId,
+          truncated: drained.truncated || eventsTruncated > 0 || eventsUnavailable > 0 || notEvaluated > 0,
+          sessionsWithTruncatedEvents: eventsTruncated,
+          sessionsWithUnavailableEvents: eventsUnavailable,
+          sessionsNotEvaluated: notEvaluated,
+          scannedPages: drained.scannedPages,
+          ...summarizeDryRun(draft, results),
+        }, MAX_RESULT_SIZE_CHARS.small);
+      } catch (error: unknown) {
+        return toolError('dry_run_analyze_rule', args, error);
+      }
+    })
+  );
+
+  // Tool 5e: aggregate_sessions
+  server.registerTool(
+    'aggregate_sessions',
+    {
+      title: 'Aggregate Sessions',
+      description:
+        'Count and summarize the sessions matching search_sessions-style filters, grouped by up to two dimensions ' +
+        '(status, model, agentVersion, osBuild, geoCountry, failureReason, week) — the one-call answer to ' +
+        '"success rate per model last month" or "p90 enrollment time by agent version". Use this INSTEAD of paging ' +
+        'search_sessions and counting: the tool walks every page server-side and returns a compact table. Metrics: ' +
+        'count (always), successRate (Succeeded / (Succeeded + Failed), in-flight sessions excluded), durationP50 / ' +
+        'durationP90 (seconds, finished sessions only), meanReboots (v2 sessions that report it). failureReason is ' +
+        'normalized (GUIDs / timestamps masked) so variants group together; week is the ISO week of startedAt. ' +
+        (ga ? 'Omit tenantId for a cross-tenant aggregate (Global Admin). ' : '') +
+        'Paging stops at a fixed budget; "truncated": true means the window holds more sessions than were counted ' +
+        '(the groups cover only the most recent ones) — narrow startedAfter/startedBefore or add a filter for exact numbers.',
+      inputSchema: {
+        tenantId: z.string().optional().describe(tenantIdDescription(ga, delegated, 'Tenant ID. Omit for a cross-tenant aggregate (Global Admin only).', 'Optional tenant ID. Defaults to your tenant.')),
+        ...SESSION_FILTER_SHAPE,
+        groupBy: z.array(z.enum(AGGREGATE_DIMENSIONS)).min(1).max(2).optional().default(['status'])
+          .describe('One or two grouping dimensions (default ["status"]). Two dimensions group by their combination.'),
+        metrics: z.array(z.enum(AGGREGATE_METRICS)).min(1).optional()
+          .describe('Metrics per group (default: all). count is always included.'),
+        maxGroups: z.coerce.number().int().min(1).max(200).optional().default(50)
+          .describe('Maximum groups returned (1-200, default 50). The remainder is folded into otherGroups so totals still add up.'),
+      },
+      annotations: READ_ONLY,
+    },
+    async (args) => withToolTelemetry('aggregate_sessions', async () => {
+      try {
+        const { tenantId: rawTenantId, groupBy, metrics, maxGroups, ...filters } = args;
+        const tenantId = enforceDelegatedTenant(rawTenantId);
+        const basePath = pickGlobalOrTenantPath('/api/global/search/sessions', '/api/search/sessions');
+        const firstPath = followNextLink(basePath, {
+          ...sessionFilterQueryParams(filters),
+          tenantId,
+          fields: AGGREGATE_SESSION_FIELDS,
+          pageSize: 1000,
+        }, undefined);
+        const drained = await drainPages(firstPath, basePath, AGGREGATE_BUDGET);
+        const selected: AggregateMetric[] = metrics ? [...new Set<AggregateMetric>(['count', ...metrics])] : [...AGGREGATE_METRICS];
+        return toolResultText({
+          truncated: drained.truncated,
+          scannedPages: drained.scannedPages,
+          ...aggregateSessions(drained.items as Array<Record<string, unknown>>, groupBy, selected, maxGroups),
+        }, MAX_RESULT_SIZE_CHARS.small);
+      } catch (error: unknown) {
+        return toolError('aggregate_sessions', args, error);
+      }
+    })
+  );
+
+  // Tool 5f: get_enrollment_trends
+  server.registerTool(
+    'get_enrollment_trends',
+    {
+      title: 'Enrollment Trends and Anomalies',
+      description:
+        'Daily or hourly time series of failure rate, median enrollment duration and per-app install failures ' +
+        '(app_install_failed events per started session), with every bucket scored against a rolling baseline of ' +
+        'PRIOR buckets — the one-call answer to "what changed this week?". method="zscore" compares with the ' +
+        'preceding buckets; method="seasonal" compares with the same weekday (daily) or hour-of-day (hourly) in ' +
+        'earlier weeks/days and is robust to weekly rhythms. Each anomaly lists the top contributing models, apps ' +
+        'and agent versions (count vs. the count expected from their baseline share) — feed those into ' +
+        'aggregate_sessions / cluster_failures / search_sessions to drill in. Buckets with fewer than minSessions ' +
+        'sessions are left unscored (value null). ' +
+        (ga ? 'Omit tenantId for a cross-tenant view (Global Admin). ' : '') +
+        'Sessions and app events are paged server-side within a fixed budget; when "truncated" is true the series ' +
+        'start at "coveredFrom" (the oldest fully covered bucket) rather than at the requested window start.' +
+        (ga ? ' A truncated cross-tenant app-event walk covers only some tenants, so its app series undercount across the whole window.' : ''),
+      inputSchema: {
+        tenantId: z.string().optional().describe(tenantIdDescription(ga, delegated, 'Tenant ID. Omit for a cross-tenant view (Global Admin only).', 'Optional tenant ID. Defaults to your tenant.')),
+        bucket: z.enum(['day', 'hour']).optional().default('day').describe('Series resolution (default "day").'),
+        startedAfter: IsoDateString.optional()
+          .describe('ISO 8601 window start. Defaults to 28 days ago (day) or 7 days ago (hour) — enough history for a baseline.'),
+        startedBefore: IsoDateString.optional().describe('ISO 8601 window end. Defaults to now.'),
+        method: z.enum(['zscore', 'seasonal']).optional().default('zscore').describe('Baseline method (default "zscore").'),
+        baselineBuckets: z.coerce.number().int().min(3).max(60).optional()
+          .describe('Baseline length: prior buckets for zscore (default 7 days / 24 hours), prior seasons (weeks / days) for seasonal (default 4).'),
+        threshold: z.coerce.number().min(1).max(10).optional().default(3)
+          .describe('|score| at or above which a bucket is flagged (default 3).'),
+        minSessions: z.coerce.number().int().min(1).max(1000).optional().default(5)
+          .describe('Minimum sessions for a bucket\'s rates to be computed and scored (default 5).'),
+        model: z.string().optional().describe('Hardware model filter (e.g. "Surface Pro 9")'),
+        manufacturer: z.string().optional().describe('Hardware manufacturer filter (e.g. "Dell")'),
+        agentVersion: z.string().optional().describe('Monitor Agent version filter (exact match)'),
+        enrollmentType: z.enum(['v1', 'v2']).optional().describe('Autopilot enrollment type'),
+        includeApps: z.boolean().optional().default(true)
+          .describe('Also page app_install_failed events for per-app series and app attribution (default true).'),
+        maxApps: z.coerce.number().int().min(1).max(20).optional().default(5)
+          .describe('Apps with the most failures tracked as their own series (1-20, default 5).'),
+      },
+      annotations: READ_ONLY,
+    },
+    async (args) => withToolTelemetry('get_enrollment_trends', async () => {
+      try {
+        const { tenantId: rawTenantId, bucket, method, baselineBuckets, threshold, minSessions, includeApps, maxApps, startedAfter, startedBefore, ...filters } = args;
+        const tenantId = enforceDelegatedTenant(rawTenantId);
+        const to = startedBefore ? Date.parse(startedBefore) : Date.now();
+        const from = startedAfter ? Date.parse(startedAfter) : to - (bucket === 'day' ? 28 : 7) * 86_400_000;
+        if (from >= to) throw new Error('startedAfter must be before startedBefore.');
+        const window = { startedAfter: new Date(from).toISOString(), startedBefore: new Date(to).toISOString() };
+
+        const sessionsBase = pickGlobalOrTenantPath('/api/global/search/sessions', '/api/search/sessions');
+        const sessions = await drainPages(
+          followNextLink(sessionsBase, { ...filters, tenantId, ...window, fields: TREND_SESSION_FIELDS, pageSize: 1000 }, undefined),
+          sessionsBase,
+          AGGREGATE_BUDGET,
+        );
+        const eventsBase = pickGlobalOrTenantPath('/api/global/raw/events', '/api/raw/events');
+        // A tenant's index partition runs newest session first, and a session's failures never
+        // precede its start, so once in-window rows have come back, the first empty page (the
+        // backend drops out-of-window events per page) means every later session started before
+        // the window. A cross-tenant walk goes tenant by tenant and has no such point.
+        const crossTenant = eventsBase.startsWith('/api/global/') && !tenantId;
+        let seenInWindow = false;
+        const pastWindow = (page: unknown[]) => {
+          if (page.length > 0) seenInWindow = true;
+          return seenInWindow && page.length === 0;
+        };
+        const appEvents = includeApps
+          ? await drainPages(
+            followNextLink(eventsBase, {
+              tenantId, eventType: 'app_install_failed', ...window, fields: TREND_APP_EVENT_FIELDS, pageSize: TREND_APP_EVENTS_PAGE_SIZE,
+            }, undefined),
+            eventsBase,
+            crossTenant ? SESSION_SWEEP_BUDGET : { ...SESSION_SWEEP_BUDGET, stopAfterPage: pastWindow },
+          )
+          : { items: [], scannedPages: 0, truncated: false };
+
+        // Both walks run newest first: a truncated one covers only the tail of the window, so the
+        // series start at the oldest session it actually reached instead of reporting a fake drop.
+        // App rows carry no session start, so they take it from the session list (the index key),
+        // falling back to the event time. A truncated cross-tenant app walk skipped whole tenants,
+        // not a time range — the app series undercount everywhere and the window stays as is.
+        const rows = (items: unknown[]) => items as Array<Record<string, unknown>>;
+        const startedAtById = new Map(rows(sessions.items).map((r) => [String(r.sessionId ?? '').toLowerCase(), r.startedAt]));
+        // With nothing seen the start is unknown, not past the window: keep `from`.
+        const oldest = (items: unknown[], key: (r: Record<string, unknown>) => unknown) => {
+          const min = rows(items).reduce((acc, r) => {
+            const ms = Date.parse(String(key(r) ?? ''));
+            return Number.isNaN(ms) ? acc : Math.min(acc, ms);
+          }, Infinity);
+          return Number.isFinite(min) ? min : from;
+        };
+        let coveredFrom = from;
+        if (sessions.truncated) coveredFrom = Math.max(coveredFrom, oldest(sessions.items, (r) => r.startedAt));
+        if (appEvents.truncated && !crossTenant) {
+          coveredFrom = Math.max(coveredFrom, oldest(appEvents.items,
+            (r) => startedAtById.get(String(r.SessionId ?? r.sessionId ?? '').toLowerCase()) ?? r.Timestamp ?? r.timestamp));
+        }
+        if (coveredFrom > from) {
+          const size = bucket === 'day' ? 86_400_000 : 3_600_000;
+          coveredFrom = Math.min(to - size, Math.ceil(coveredFrom / size) * size);
+        }
+
+        const result = buildEnrollmentTrends(
+          sessions.items as Array<Record<string, unknown>>,
+          appEvents.items as Array<Record<string, unknown>>,
+          {
+            bucket,
+            method,
+            from: coveredFrom,
+            to,
+            baselineBuckets: baselineBuckets ?? (method === 'seasonal' ? 4 : bucket === 'day' ? 7 : 24),
+            threshold,
+            minSessions,
+            maxApps,
+          },
+        );
+        return toolResultText({
+          window,
+          truncated: sessions.truncated || appEvents.truncated,
+          coveredFrom: new Date(coveredFrom).toISOString(),
+          sessionsScanned: sessions.items.length,
+          appFailureEventsScanned: appEvents.items.length,
+          scannedPages: sessions.scannedPages + appEvents.scannedPages,
+          ...result,
+        }, MAX_RESULT_SIZE_CHARS.adminStream);
+      } catch (error: unknown) {
+        return toolError('get_enrollment_trends', args, error);
+      }
+    })
+  );
+
+  // Tool 5g: benchmark_tenants — cross-tenant by nature, so only for callers that see more than one
+  // tenant: a platform GA (any tenants it names) or a delegated MSP admin (bounded to its managed set).
+  if (ga || delegated) server.registerTool(
+    'benchmark_tenants',
+    {
+      title: 'Benchmark Tenants',
+      description:
+        'Rank several tenants against each other on enrollment success rate, median enrollment time, ESP timeouts ' +
+        '(failure reason 0x800705B4 / "ESP timeout") and top failing apps — for an MSP showing a customer where it ' +
+        'stands relative to its peers. Raw rates mostly reflect hardware, so each metric is also reported MODEL-MIX ' +
+        'ADJUSTED: the tenant\'s value is compared with what the peer pool achieves on the same device models ' +
+        '(expectedSuccessRatePct), and that difference is applied to the pool rate (adjustedSuccessRatePct, ' +
+        'adjustedMedianDurationMinutes via durationIndex, adjustedEspTimeoutRatePct). Ranking uses the adjusted success ' +
+        'rate; tenants with fewer than minSessions finished sessions are listed but unranked. pool.models lists the ' +
+        'per-model baselines behind the adjustment. ' +
+        'anonymize (default true) replaces every tenant except focusTenantId with "Peer N" and drops its tenantId — ' +
+        'use it for anything that leaves your organization. ' +
+        (delegated ? 'Omit tenantIds to benchmark all of your managed tenants. ' : 'Name 2-50 tenants in tenantIds. ') +
+        'Sessions are paged per tenant within a fixed budget; a tenant with "truncated": true is benchmarked on its ' +
+        'most recent sessions only.',
+      inputSchema: {
+        tenantIds: z.array(z.string()).min(2).max(50).optional()
+          .describe(delegated
+            ? 'Tenants to compare (2-50, each one of your managed tenants). Defaults to all of your managed tenants.'
+            : 'Tenants to compare (2-50). Required.'),
+        days: z.coerce.number().int().min(1).max(90).optional().default(30)
+          .describe('Window in days (1-90, default 30), counted back from now by session start.'),
+        focusTenantId: z.string().optional()
+          .describe('The customer the benchmark is prepared for: highlighted (isFocus) and never anonymized. Must be one of the compared tenants.'),
+        anonymize: z.boolean().optional().default(true)
+          .describe('Replace all tenants except focusTenantId with "Peer N" labels and drop their IDs (default true). ' +
+                    'The tenant\'s own domain label is also redacted from its app names.'),
+        minSessions: z.coerce.number().int().min(1).max(1000).optional().default(10)
+          .describe('Minimum finished (Succeeded + Failed) sessions for a tenant to be ranked (default 10).'),
+        topApps: z.coerce.number().int().min(0).max(10).optional().default(3)
+          .describe('Failing apps listed per tenant (0-10, default 3).'),
+      },
+      annotations: READ_ONLY,
+    },
+    async (args) => withToolTelemetry('benchmark_tenants', async () => {
+      try {
+        const { tenantIds: rawTenantIds, days, focusTenantId, anonymize, minSessions, topApps } = args;
+        const requested = rawTenantIds ?? getDelegatedTenantIds();
+        if (!requested) throw new Error('tenantIds is required: name 2-50 tenants to compare.');
+        const tenantIds = [...new Set(requested.map((id) => enforceDelegatedTenant(id)!.toLowerCase()))];
+        if (tenantIds.length < 2) throw new Error('Benchmarking needs at least two distinct tenants.');
+        const focus = focusTenantId?.toLowerCase();
+        if (focus && !tenantIds.includes(focus)) {
+          throw new Error(`focusTenantId ${focusTenantId} is not one of the compared tenants.`);
+        }
+        const startedAfter = new Date(Date.now() - days * 86_400_000).toISOString();
+
+        // Names are cosmetic: a failed lookup falls back to tenant IDs instead of failing the benchmark.
+        const names = new Map<string, string>();
+        try {
+          const data = await apiFetch(followNextLink('/api/config/all', { pageSize: 1000, fields: 'tenantId,domainName' }, undefined)) as { tenants?: Array<{ tenantId?: string; domainName?: string }> };
+          for (const t of data?.tenants ?? []) {
+            if (t.tenantId && t.domainName) names.set(t.tenantId.toLowerCase(), t.domainName);
+          }
+        } catch {
+          // fall through with IDs only
+        }
+
+        const sessionsBase = '/api/global/search/sessions';
+        const skipped: Array<{ tenantId: string; error: string }> = [];
+        const fetched = await mapWithConcurrency(tenantIds, BENCHMARK_TENANT_CONCURRENCY, async (tenantId): Promise<BenchmarkTenantInput | null> => {
+          const [sessionsRes, appsRes] = await Promise.allSettled([
+            drainPages(
+              followNextLink(sessionsBase, { tenantId, startedAfter, fields: BENCHMARK_SESSION_FIELDS, pageSize: 1000 }, undefined),
+              sessionsBase,
+              BENCHMARK_TENANT_BUDGET,
+            ),
+            apiFetch(`/api/global/metrics/app${buildQuery({ days, tenantId })}`),
+          ]);
+          // A tenant whose sessions cannot be read drops out of the peer pool rather than skewing it;
+          // missing app metrics only blank that one column.
+          if (sessionsRes.status === 'rejected') {
+            skipped.push({ tenantId, error: sessionsRes.reason instanceof Error ? sessionsRes.reason.message : String(sessionsRes.reason) });
+            return null;
+          }
+          const apps = appsRes.status === 'fulfilled'
+            ? ((appsRes.value as { topFailingApps?: BenchmarkAppFailures[] })?.topFailingApps ?? [])
+            : null;
+          return {
+            tenantId,
+            name: names.get(tenantId) ?? null,
+            sessions: sessionsRes.value.items as BenchmarkSession[],
+            failingApps: apps,
+            truncated: sessionsRes.value.truncated,
+          };
+        });
+        const inputs = fetched.filter((t): t is BenchmarkTenantInput => t !== null);
+        if (inputs.length === 0 && skipped.length > 0) throw new Error(`No tenant could be read: ${skipped[0].error}`);
+
+        const result = computeTenantBenchmark(inputs, { anonymize, focusTenantId: focus, minSessions, topApps });
+        return toolResultText({
+          window: { days, startedAfter },
+          anonymized: anonymize,
+          ...result,
+          ...(skipped.length
+            ? { skippedTenants: anonymize ? skipped.map(({ error }) => ({ error })) : skipped }
+            : {}),
+        }, MAX_RESULT_SIZE_CHARS.small);
+      } catch (error: unknown) {
+        return toolError('benchmark_tenants', args, error);
+      }
+    })
+  );
+
   // Tool 6: get_metrics
   server.registerTool(
     'get_metrics',
@@ -80,6 +80,25 @@ export const READ_ONLY_OPEN: ToolAnnotations = {
   openWorldHint: true,
 };
 
+/**
+ * Opt-in triage write (tools/write.ts) that overwrites backend state — session status, stored rule
+ * results, the stored vulnerability report. Repeating it converges on the same state.
+ */
+export const WRITE_IDEMPOTENT: ToolAnnotations = {
+  readOnlyHint: false,
+  destructiveHint: true,
+  idempotentHint: true,
+  openWorldHint: false,
+};
+
+/** Opt-in triage write whose repetition is not a no-op (block_device re-arms the block window). */
+export const WRITE_DESTRUCTIVE: ToolAnnotations = {
+  readOnlyHint: false,
+  destructiveHint: true,
+  idempotentHint: false,
+  openWorldHint: false,
+};
+
 /**
  * Calibrated maximum response size (in characters) per tool. Communicated to
  * the MCP client via the per-response <c>_meta.anthropic/maxResultSizeChars</c>
@@ -0,0 +1,341 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { ApiError, apiFetch, buildQuery, enforceDelegatedTenant, getCallerContext, type CallerContext } from '../client.js';
+import { withToolTelemetry } from '../telemetry.js';
+import { writeAuditLog, type WriteAuditEntry } from '../write-audit.js';
+import { READ_ONLY, WRITE_DESTRUCTIVE, WRITE_IDEMPOTENT, MAX_RESULT_SIZE_CHARS, toolResultText, SessionIdSchema, tenantIdDescription } from './shared.js';
+import { toolError } from './error-handler.js';
+
+/**
+ * Which write tools a caller gets. The backend stays the authority (it re-checks every write against
+ * the token); this only keeps tools a role can never use out of tools/list:
+ *   - Global Admin: everything, including block_device (a GlobalAdminOnly endpoint).
+ *   - Global Reader / Delegated Reader: nothing — read-only tiers.
+ *   - Delegated Admin: the session actions, on its managed tenants.
+ *   - Tenant user: the session actions; the backend requires the tenant Admin/Operator role, so a
+ *     Viewer gets the backend's 403 back.
+ */
+export interface WriteCapabilities {
+  sessionActions: boolean;
+  blockDevice: boolean;
+}
+
+export function writeCapabilities(caller: CallerContext | undefined): WriteCapabilities {
+  if (!caller) return { sessionActions: false, blockDevice: false };
+  if (caller.isGlobalAdmin) return { sessionActions: true, blockDevice: true };
+  if (caller.isGlobalReader) return { sessionActions: false, blockDevice: false };
+  if (caller.delegatedTenantIds?.length) {
+    return { sessionActions: caller.delegatedRole === 'DelegatedAdmin', blockDevice: false };
+  }
+  return { sessionActions: true, blockDevice: false };
+}
+
+const CONFIRM = z.boolean().optional().default(false)
+  .describe('false (default): DRY RUN — show the target\'s current state and what would change, change nothing. ' +
+    'true: perform the action. Only pass true after the user has seen the preview and explicitly agreed.');
+
+const DRY_RUN_NOTE = 'Dry run — nothing was changed. Show this preview to the user; call again with confirm: true only once they agree.';
+
+interface SessionRow {
+  sessionId?: string;
+  tenantId?: string;
+  status?: string;
+  failureReason?: string;
+  deviceName?: string;
+  serialNumber?: string;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+interface AnalysisResponse {
+  results?: Array<{ ruleId?: string; ruleTitle?: string; severity?: string }>;
+  totalIssues?: number;
+  criticalCount?: number;
+  highCount?: number;
+  warningCount?: number;
+  persistFailureRuleIds?: string[];
+}
+
+/** Loads the session a write targets — resolves its tenant for GA callers and is the preview's "before". */
+async function loadSession(sessionId: string, tenantId: string | undefined): Promise<{ session: SessionRow; tenantId?: string }> {
+  const data = await apiFetch(`/api/sessions/${sessionId}${buildQuery({ tenantId })}`) as { session?: SessionRow };
+  const session = data.session ?? {};
+  return { session, tenantId: tenantId ?? session.tenantId };
+}
+
+function sessionState(s: SessionRow): Record<string, unknown> {
+  return {
+    status: s.status,
+    failureReason: s.failureReason,
+    deviceName: s.deviceName,
+    serialNumber: s.serialNumber,
+    startedAt: s.startedAt,
+    completedAt: s.completedAt,
+  };
+}
+
+function analysisSummary(a: AnalysisResponse): Record<string, unknown> {
+  return {
+    totalIssues: a.totalIssues ?? a.results?.length ?? 0,
+    criticalCount: a.criticalCount ?? 0,
+    highCount: a.highCount ?? 0,
+    warningCount: a.warningCount ?? 0,
+    ruleIds: (a.results ?? []).map((r) => r.ruleId).filter(Boolean),
+  };
+}
+
+/** Findings / CVE totals of a stored vulnerability report (`report: null` ⇒ none stored). */
+export function vulnerabilityReportSummary(report: unknown): Record<string, unknown> {
+  if (!report || typeof report !== 'object') return { present: false };
+  const findings = (report as { findings?: unknown }).findings;
+  const list = Array.isArray(findings) ? findings as Array<{ cves?: unknown[]; vulnerabilities?: unknown[] }> : [];
+  return {
+    present: true,
+    findingCount: list.length,
+    cveCount: list.reduce((n, f) => n + (f.cves ?? f.vulnerabilities ?? []).length, 0),
+  };
+}
+
+/**
+ * Runs one write: always records an audit entry, and only touches the backend's write path when
+ * `confirm` is true. `preview` returns the target's current state; `execute` performs the action
+ * and returns what the backend reported.
+ */
+async function runWrite(
+  tool: string,
+  request: string,
+  target: WriteAuditEntry['target'],
+  confirm: boolean,
+  steps: { current: Record<string, unknown>; effect: string; execute: () => Promise<Record<string, unknown>> },
+): Promise<Record<string, unknown>> {
+  const caller = getCallerContext();
+  const base = { upn: caller?.upn, homeTenantId: caller?.tenantId, tool, request, target };
+  if (!confirm) {
+    writeAuditLog.record({ ...base, mode: 'dry-run', outcome: 'previewed' });
+    return { dryRun: true, action: tool, request, target, current: steps.current, effect: steps.effect, note: DRY_RUN_NOTE };
+  }
+  try {
+    const result = await steps.execute();
+    writeAuditLog.record({ ...base, mode: 'execute', outcome: 'succeeded' });
+    return { dryRun: false, action: tool, request, target, before: steps.current, ...result };
+  } catch (error: unknown) {
+    writeAuditLog.record({
+      ...base,
+      mode: 'execute',
+      outcome: 'failed',
+      status: error instanceof ApiError ? error.status : undefined,
+      error: error instanceof Error ? error.message.slice(0, 300) : String(error),
+    });
+    throw error;
+  }
+}
+
+/**
+ * Registers the opt-in write tools (MCP_WRITE_TOOLS=1) the caller's role can use, plus
+ * get_write_audit_log. Every write defaults to a dry run; see runWrite.
+ */
+export function registerWriteTools(server: McpServer, ga: boolean, delegated: boolean): void {
+  const can = writeCapabilities(getCallerContext());
+  if (!can.sessionActions && !can.blockDevice) return;
+
+  const sessionTarget = {
+    sessionId: SessionIdSchema.describe('Session ID (UUID)'),
+    tenantId: z.string().optional().describe(tenantIdDescription(ga, delegated, 'Tenant ID. If omitted, resolved from the session.', 'Tenant ID. If omitted, resolved from the session.')),
+  };
+
+  if (can.sessionActions) {
+    for (const [tool, status, route] of [
+      ['mark_session_failed', 'Failed', 'mark-failed'],
+      ['mark_session_succeeded', 'Succeeded', 'mark-succeeded'],
+    ] as const) {
+      server.registerTool(
+        tool,
+        {
+          title: status === 'Failed' ? 'Mark Session Failed' : 'Mark Session Succeeded',
+          description:
+            `WRITE: set an enrollment session's status to ${status} (the portal's "Mark as ${status.toLowerCase()}"), e.g. ` +
+            (status === 'Failed'
+              ? 'a stalled session the agent never closed, so it counts in failure reporting. '
+              : 'a session that actually completed but was recorded as failed or stuck. ') +
+            'Requires the tenant Admin/Operator role. Defaults to a DRY RUN showing the current status; pass confirm=true ' +
+            'only after the user approves. Audited under the calling user.',
+          inputSchema: { ...sessionTarget, confirm: CONFIRM },
+          annotations: WRITE_IDEMPOTENT,
+        },
+        async (args) => withToolTelemetry(tool, async () => {
+          try {
+            const { sessionId, confirm } = args;
+            const { session, tenantId } = await loadSession(sessionId, enforceDelegatedTenant(args.tenantId));
+            const request = `POST /api/sessions/${sessionId}/${route}`;
+            const effect = session.status === status
+              ? `Session is already ${status}; confirming re-applies it as an administrator action.`
+              : `Status ${session.status ?? 'unknown'} → ${status}.`;
+            const data = await runWrite(tool, request, { sessionId, tenantId }, confirm, {
+              current: sessionState(session),
+              effect,
+              execute: async () => {
+                const res = await apiFetch(`/api/sessions/${sessionId}/${route}${buildQuery({ tenantId })}`, { method: 'POST' }) as { message?: string };
+                // The backend answers with a message only — re-read the session so `after` is what is stored.
+                const { session: updated } = await loadSession(sessionId, tenantId);
+                return { after: sessionState(updated), message: res.message };
+              },
+            });
+            return toolResultText(data, MAX_RESULT_SIZE_CHARS.small);
+          } catch (error: unknown) {
+            return toolError(tool, args, error);
+          }
+        }),
+      );
+    }
+
+    server.registerTool(
+      'reanalyze_session',
+      {
+        title: 'Re-run Session Analysis',
+        description:
+          'WRITE: re-run the analyze rules over a session and replace its stored rule results — use after rules changed or ' +
+          'late events arrived. Defaults to a DRY RUN showing the currently stored results; with confirm=true returns the ' +
+          'new results and which rules were added or cleared. Audited under the calling user.',
+        inputSchema: { ...sessionTarget, confirm: CONFIRM },
+        annotations: WRITE_IDEMPOTENT,
+      },
+      async (args) => withToolTelemetry('reanalyze_session', async () => {
+        try {
+          const { sessionId, confirm } = args;
+          const tenantId = enforceDelegatedTenant(args.tenantId);
+          const stored = await apiFetch(`/api/sessions/${sessionId}/analysis${buildQuery({ tenantId })}`) as AnalysisResponse;
+          const before = analysisSummary(stored);
+          const request = `GET /api/sessions/${sessionId}/analysis?reanalyze=true`;
+          const data = await runWrite('reanalyze_session', request, { sessionId, tenantId }, confirm, {
+            current: before,
+            effect: 'Stored rule results are replaced by a fresh evaluation of the current rules over the session\'s events.',
+            execute: async () => {
+              const fresh = await apiFetch(`/api/sessions/${sessionId}/analysis${buildQuery({ tenantId, reanalyze: true })}`) as AnalysisResponse;
+              const after = analysisSummary(fresh);
+              const beforeIds = new Set(before.ruleIds as string[]);
+              const afterIds = after.ruleIds as string[];
+              return {
+                after,
+                addedRuleIds: afterIds.filter((id) => !beforeIds.has(id)),
+                clearedRuleIds: [...beforeIds].filter((id) => !afterIds.includes(id)),
+                persistFailureRuleIds: fresh.persistFailureRuleIds?.length ? fresh.persistFailureRuleIds : undefined,
+              };
+            },
+          });
+          return toolResultText(data, MAX_RESULT_SIZE_CHARS.small);
+        } catch (error: unknown) {
+          return toolError('reanalyze_session', args, error);
+        }
+      }),
+    );
+
+    server.registerTool(
+      'rescan_session_vulnerabilities',
+      {
+        title: 'Rescan Session Vulnerabilities',
+        description:
+          'WRITE: re-correlate a session\'s software inventory against current CVE data and replace its stored vulnerability ' +
+          'report (a rescan with no findings deletes the stored report). Defaults to a DRY RUN showing the stored report\'s ' +
+          'totals; with confirm=true returns the new totals. Audited under the calling user.',
+        inputSchema: { ...sessionTarget, confirm: CONFIRM },
+        annotations: WRITE_IDEMPOTENT,
+      },
+      async (args) => withToolTelemetry('rescan_session_vulnerabilities', async () => {
+        try {
+          const { sessionId, confirm } = args;
+          const tenantId = enforceDelegatedTenant(args.tenantId);
+          const stored = await apiFetch(`/api/sessions/${sessionId}/vulnerability-report${buildQuery({ tenantId })}`) as { report?: unknown };
+          const request = `GET /api/sessions/${sessionId}/vulnerability-report?rescan=true`;
+          const data = await runWrite('rescan_session_vulnerabilities', request, { sessionId, tenantId }, confirm, {
+            current: vulnerabilityReportSummary(stored.report),
+            effect: 'The stored vulnerability report is replaced by a fresh correlation (or deleted if nothing matches).',
+            execute: async () => {
+              const fresh = await apiFetch(`/api/sessions/${sessionId}/vulnerability-report${buildQuery({ tenantId, rescan: true })}`) as { report?: unknown; message?: string };
+              return { after: vulnerabilityReportSummary(fresh.report), message: fresh.message };
+            },
+          });
+          return toolResultText(data, MAX_RESULT_SIZE_CHARS.small);
+        } catch (error: unknown) {
+          return toolError('rescan_session_vulnerabilities', args, error);
+        }
+      }),
+    );
+  }
+
+  if (can.blockDevice) {
+    server.registerTool(
+      'block_device',
+      {
+        title: 'Block Device',
+        description:
+          'WRITE (Global Admin): block a device by serial number so the agent stops sending telemetry for durationHours ' +
+          '(the portal\'s device block; the remote-kill variant stays portal-only). Defaults to a DRY RUN that shows whether ' +
+          'the device is already blocked; pass confirm=true only after the user approves. Blocking again re-arms the window. ' +
+          'Audited under the calling user; undo it in the portal (Admin → Device blocks).',
+        inputSchema: {
+          serialNumber: z.string().min(1).describe('Device serial number'),
+          tenantId: z.string().describe('Tenant ID the device enrolls into'),
+          durationHours: z.coerce.number().int().min(1).max(720).optional().default(24)
+            .describe('Block duration in hours (1-720, default 24)'),
+          reason: z.string().max(500).optional().describe('Why the device is blocked — shown in the portal and the audit log'),
+          sessionId: SessionIdSchema.optional().describe('Session that prompted the block, recorded with it'),
+          confirm: CONFIRM,
+        },
+        annotations: WRITE_DESTRUCTIVE,
+      },
+      async (args) => withToolTelemetry('block_device', async () => {
+        try {
+          const { serialNumber, tenantId, durationHours, reason, sessionId, confirm } = args;
+          const blocked = await apiFetch(`/api/devices/blocked${buildQuery({ tenantId })}`) as {
+            blocked?: Array<{ serialNumber?: string; unblockAt?: string; action?: string; reason?: string }>;
+          };
+          const existing = (blocked.blocked ?? []).find((d) => d.serialNumber?.toLowerCase() === serialNumber.toLowerCase());
+          const data = await runWrite('block_device', 'POST /api/devices/block', { serialNumber, tenantId, sessionId }, confirm, {
+            current: existing
+              ? { blocked: true, action: existing.action, unblockAt: existing.unblockAt, reason: existing.reason }
+              : { blocked: false },
+            effect: existing
+              ? `Already blocked until ${existing.unblockAt}; confirming replaces it with a ${durationHours}h block from now.`
+              : `Device ${serialNumber} is blocked for ${durationHours}h.`,
+            execute: async () => {
+              const res = await apiFetch('/api/devices/block', {
+                method: 'POST',
+                body: JSON.stringify({ tenantId, serialNumber, durationHours, reason, action: 'Block', blockedSessionId: sessionId }),
+              }) as { message?: string; unblockAt?: string };
+              return { message: res.message, unblockAt: res.unblockAt };
+            },
+          });
+          return toolResultText(data, MAX_RESULT_SIZE_CHARS.small);
+        } catch (error: unknown) {
+          return toolError('block_device', args, error);
+        }
+      }),
+    );
+  }
+
+  server.registerTool(
+    'get_write_audit_log',
+    {
+      title: 'Get Write Audit Log',
+      description:
+        'Recent write-tool actions (dry runs and executions) made through this MCP server: who, which tool, target, ' +
+        'outcome. Shows your own actions' + (ga ? '; Global Admins can pass allUsers=true' : '') + '. Per server replica ' +
+        'and reset on restart — the backend audit log is the durable record.',
+      inputSchema: {
+        limit: z.coerce.number().int().min(1).max(200).optional().default(20).describe('Entries to return, newest first (1-200, default 20)'),
+        ...(can.blockDevice ? { allUsers: z.boolean().optional().default(false).describe('Include every caller\'s actions (Global Admin)') } : {}),
+      },
+      annotations: READ_ONLY,
+    },
+    async (args) => withToolTelemetry('get_write_audit_log', async () => {
+      try {
+        const caller = getCallerContext();
+        const allUsers = (args as { allUsers?: boolean }).allUsers === true && caller?.isGlobalAdmin === true;
+        const entries = writeAuditLog.list({ upn: allUsers ? undefined : (caller?.upn ?? ''), limit: args.limit });
+        return toolResultText({ count: entries.length, scope: allUsers ? 'all users' : 'you', entries }, MAX_RESULT_SIZE_CHARS.small);
+      } catch (error: unknown) {
+        return toolError('get_write_audit_log', args, error);
+      }
+    }),
+  );
+}
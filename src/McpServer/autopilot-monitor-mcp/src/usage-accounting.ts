@@ -0,0 +1,383 @@
+/**
+ * Per-user and per-tenant usage accounting with optional daily quotas.
+ *
+ * Every tool call is counted against the calling UPN; every backend request it makes (a "page")
+ * and the bytes it reads are counted against the TENANT the request was for. Attribution follows
+ * the request, not the caller: a delegated (MSP) admin investigating customer A and then customer B
+ * books A's pages on A and B's on B, so an MSP can see which customer's investigations consume the
+ * backend budget. A request without a tenantId is booked on the caller's home tenant (tenant-scoped
+ * /api/* routes) or on `*` (a platform-scope cross-tenant /api/global/* query).
+ *
+ * Quotas are per UTC day and off unless configured (MCP_DAILY_*_QUOTA per user,
+ * MCP_TENANT_DAILY_*_QUOTA per tenant). The tool-call quota is checked before a tool runs; the
+ * page/byte quotas before each backend request, so a long drain stops at the boundary instead of
+ * overshooting it. get_my_usage is always allowed — a user who hit a quota must still be able to
+ * see why.
+ *
+ * The ledger is in-memory and per replica (the same trade-off as the rate buckets in
+ * access-guard.ts): it resets on restart/scale-to-zero and is a budget guard, not a billing record.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { parsePositiveInt } from './config.js';
+
+export interface UsageCounters {
+  toolCalls: number;
+  toolErrors: number;
+  backendPages: number;
+  backendBytes: number;
+  responseBytes: number;
+}
+
+/** Daily limits; 0 = unlimited. */
+export interface UsageQuotas {
+  toolCalls: number;
+  backendPages: number;
+  backendBytes: number;
+}
+
+export const USER_QUOTAS: UsageQuotas = {
+  toolCalls: parsePositiveInt(process.env.MCP_DAILY_TOOL_CALL_QUOTA, 0),
+  backendPages: parsePositiveInt(process.env.MCP_DAILY_BACKEND_PAGE_QUOTA, 0),
+  backendBytes: parsePositiveInt(process.env.MCP_DAILY_BACKEND_BYTES_QUOTA, 0),
+};
+
+export const TENANT_QUOTAS: UsageQuotas = {
+  toolCalls: 0, // tool calls are a per-user budget; a tenant's spend is its pages/bytes
+  backendPages: parsePositiveInt(process.env.MCP_TENANT_DAILY_BACKEND_PAGE_QUOTA, 0),
+  backendBytes: parsePositiveInt(process.env.MCP_TENANT_DAILY_BACKEND_BYTES_QUOTA, 0),
+};
+
+/** Days of history kept for get_my_usage. */
+export const USAGE_RETENTION_DAYS = 7;
+/** Ledger keys per day (users and tenants each) — bounds memory against a flood of distinct UPNs. */
+const MAX_KEYS_PER_DAY = parsePositiveInt(process.env.MCP_USAGE_MAX_KEYS_PER_DAY, 10_000);
+/** Tool that reports usage and is therefore never blocked by a quota. */
+const QUOTA_EXEMPT_TOOLS = new Set(['get_my_usage']);
+/** Attribution key for cross-tenant (platform-scope, no tenantId) backend requests. */
+export const CROSS_TENANT_KEY = '*';
+
+export class QuotaExceededError extends Error {
+  constructor(
+    readonly scope: 'user' | 'tenant',
+    readonly subject: string,
+    readonly metric: keyof UsageQuotas,
+    readonly limit: number,
+  ) {
+    super(
+      `Daily ${metric} quota exceeded for ${scope} ${subject} (limit ${limit}). ` +
+      `Quotas reset at ${nextUtcMidnight().toISOString()}; call get_my_usage to see current usage.`,
+    );
+    this.name = 'QuotaExceededError';
+  }
+}
+
+/** The identity a usage record is booked against (from the caller context). */
+export interface UsageSubject {
+  upn: string;
+  homeTenantId?: string;
+}
+
+const emptyCounters = (): UsageCounters => ({ toolCalls: 0, toolErrors: 0, backendPages: 0, backendBytes: 0, responseBytes: 0 });
+
+function add(target: UsageCounters, delta: Partial<UsageCounters>): void {
+  for (const [k, v] of Object.entries(delta) as Array<[keyof UsageCounters, number]>) target[k] += v;
+}
+
+export interface UserDayUsage {
+  totals: UsageCounters;
+  byTenant: Map<string, UsageCounters>;
+  byTool: Map<string, UsageCounters>;
+}
+
+export interface TenantDayUsage {
+  totals: UsageCounters;
+  byUser: Map<string, UsageCounters>;
+}
+
+interface DayLedger {
+  users: Map<string, UserDayUsage>;
+  tenants: Map<string, TenantDayUsage>;
+}
+
+export function utcDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+export function nextUtcMidnight(now = Date.now()): Date {
+  const d = new Date(now);
+  return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() + 1));
+}
+
+/** Tenant a backend path is for: its tenantId query param, else `*` on /api/global, else the caller's home tenant. */
+export function attributeTenant(path: string, homeTenantId: string | undefined): string {
+  const q = path.indexOf('?');
+  const tenantId = q === -1 ? null : new URLSearchParams(path.slice(q + 1)).get('tenantId');
+  if (tenantId) return tenantId.toLowerCase();
+  if (path.startsWith('/api/global/')) return CROSS_TENANT_KEY;
+  return homeTenantId?.toLowerCase() ?? 'unknown';
+}
+
+/** Per-tool-call scratch state: which tenants the call touched, for attributing the call itself. */
+interface ToolCallFrame {
+  pagesByTenant: Map<string, number>;
+}
+
+const frameStore = new AsyncLocalStorage<ToolCallFrame>();
+
+export class UsageLedger {
+  private readonly days = new Map<string, DayLedger>();
+
+  constructor(
+    private readonly userQuotas: UsageQuotas = USER_QUOTAS,
+    private readonly tenantQuotas: UsageQuotas = TENANT_QUOTAS,
+  ) {}
+
+  get quotas(): { user: UsageQuotas; tenant: UsageQuotas } {
+    return { user: { ...this.userQuotas }, tenant: { ...this.tenantQuotas } };
+  }
+
+  private day(now: number): DayLedger {
+    const key = utcDay(now);
+    let d = this.days.get(key);
+    if (!d) {
+      d = { users: new Map(), tenants: new Map() };
+      this.days.set(key, d);
+      const cutoff = utcDay(now - (USAGE_RETENTION_DAYS - 1) * 86_400_000);
+      for (const k of this.days.keys()) if (k < cutoff) this.days.delete(k);
+    }
+    return d;
+  }
+
+  private user(d: DayLedger, upn: string): UserDayUsage | undefined {
+    let u = d.users.get(upn);
+    if (!u) {
+      if (d.users.size >= MAX_KEYS_PER_DAY) return undefined;
+      u = { totals: emptyCounters(), byTenant: new Map(), byTool: new Map() };
+      d.users.set(upn, u);
+    }
+    return u;
+  }
+
+  private tenant(d: DayLedger, tenantId: string): TenantDayUsage | undefined {
+    let t = d.tenants.get(tenantId);
+    if (!t) {
+      if (d.tenants.size >= MAX_KEYS_PER_DAY) return undefined;
+      t = { totals: emptyCounters(), byUser: new Map() };
+      d.tenants.set(tenantId, t);
+    }
+    return t;
+  }
+
+  private book(subject: UsageSubject, tenantId: string, tool: string | undefined, delta: Partial<UsageCounters>, now: number): void {
+    const d = this.day(now);
+    const u = this.user(d, subject.upn);
+    if (u) {
+      add(u.totals, delta);
+      if (!u.byTenant.has(tenantId)) u.byTenant.set(tenantId, emptyCounters());
+      add(u.byTenant.get(tenantId)!, delta);
+      if (tool) {
+        if (!u.byTool.has(tool)) u.byTool.set(tool, emptyCounters());
+        add(u.byTool.get(tool)!, delta);
+      }
+    }
+    const t = this.tenant(d, tenantId);
+    if (t) {
+      add(t.totals, delta);
+      if (!t.byUser.has(subject.upn)) t.byUser.set(subject.upn, emptyCounters());
+      add(t.byUser.get(subject.upn)!, delta);
+    }
+  }
+
+  /** Throws QuotaExceededError when the user may not start another tool call today. */
+  assertToolCallAllowed(subject: UsageSubject, tool: string, now = Date.now()): void {
+    if (QUOTA_EXEMPT_TOOLS.has(tool)) return;
+    const totals = this.day(now).users.get(subject.upn)?.totals;
+    if (!totals) return;
+    for (const metric of ['toolCalls', 'backendPages', 'backendBytes'] as const) {
+      const limit = this.userQuotas[metric];
+      if (limit > 0 && totals[metric] >= limit) throw new QuotaExceededError('user', subject.upn, metric, limit);
+    }
+  }
+
+  /** Throws QuotaExceededError when a backend request for `tenantId` would exceed a user or tenant quota. */
+  assertBackendCallAllowed(subject: UsageSubject, tenantId: string, tool: string | undefined, now = Date.now()): void {
+    if (tool && QUOTA_EXEMPT_TOOLS.has(tool)) return;
+    const d = this.day(now);
+    const checks: Array<['user' | 'tenant', string, UsageCounters | undefined, UsageQuotas]> = [
+      ['user', subject.upn, d.users.get(subject.upn)?.totals, this.userQuotas],
+      ['tenant', tenantId, d.tenants.get(tenantId)?.totals, this.tenantQuotas],
+    ];
+    for (const [scope, key, totals, quotas] of checks) {
+      if (!totals) continue;
+      for (const metric of ['backendPages', 'backendBytes'] as const) {
+        const limit = quotas[metric];
+        if (limit > 0 && totals[metric] >= limit) throw new QuotaExceededError(scope, key, metric, limit);
+      }
+    }
+  }
+
+  recordBackendCall(subject: UsageSubject, tenantId: string, tool: string | undefined, bytes: number, now = Date.now()): void {
+    this.book(subject, tenantId, tool, { backendPages: 1, backendBytes: bytes }, now);
+    const frame = frameStore.getStore();
+    if (frame) frame.pagesByTenant.set(tenantId, (frame.pagesByTenant.get(tenantId) ?? 0) + 1);
+  }
+
+  /** Book a finished tool call on the tenant it spent most of its pages on (home tenant when it made none). */
+  recordToolCall(
+    subject: UsageSubject,
+    tool: string,
+    outcome: { isError: boolean; responseBytes: number; pagesByTenant?: Map<string, number> },
+    now = Date.now(),
+  ): void {
+    let tenantId = subject.homeTenantId?.toLowerCase() ?? 'unknown';
+    let most = 0;
+    for (const [t, pages] of outcome.pagesByTenant ?? []) {
+      if (pages > most) {
+        most = pages;
+        tenantId = t;
+      }
+    }
+    this.book(subject, tenantId, tool, { toolCalls: 1, toolErrors: outcome.isError ? 1 : 0, responseBytes: outcome.responseBytes }, now);
+  }
+
+  /** A user's usage per day, newest first, for the last `days` days. */
+  userUsage(upn: string, days: number, now = Date.now()): Array<{ day: string; usage: UserDayUsage | undefined }> {
+    return this.lastDays(days, now).map((day) => ({ day, usage: this.days.get(day)?.users.get(upn) }));
+  }
+
+  /** Every tenant's usage on each of the last `days` days, newest first. */
+  tenantUsage(days: number, now = Date.now()): Array<{ day: string; tenants: Map<string, TenantDayUsage> }> {
+    return this.lastDays(days, now).map((day) => ({ day, tenants: this.days.get(day)?.tenants ?? new Map() }));
+  }
+
+  private lastDays(days: number, now: number): string[] {
+    const n = Math.min(Math.max(1, days), USAGE_RETENTION_DAYS);
+    return Array.from({ length: n }, (_, i) => utcDay(now - i * 86_400_000));
+  }
+}
+
+/** Process-wide ledger shared by every request on this replica. */
+export const usageLedger = new UsageLedger();
+
+/**
+ * Run one tool call inside an accounting frame: enforces the tool-call quota up front, then books
+ * the call (with its response size) on the tenant it mostly worked against.
+ */
+export async function runAccountedToolCall<T>(
+  subject: UsageSubject | undefined,
+  tool: string,
+  fn: () => Promise<T>,
+  ledger: UsageLedger = usageLedger,
+): Promise<T> {
+  if (!subject) return fn();
+  ledger.assertToolCallAllowed(subject, tool);
+  const frame: ToolCallFrame = { pagesByTenant: new Map() };
+  let isError = false;
+  let responseBytes = 0;
+  try {
+    const result = await frameStore.run(frame, fn);
+    isError = (result as { isError?: boolean } | undefined)?.isError === true;
+    responseBytes = resultBytes(result);
+    return result;
+  } catch (err) {
+    isError = true;
+    throw err;
+  } finally {
+    ledger.recordToolCall(subject, tool, { isError, responseBytes, pagesByTenant: frame.pagesByTenant });
+  }
+}
+
+/** UTF-8 size of the text content blocks of a tool result. */
+function resultBytes(result: unknown): number {
+  const content = (result as { content?: Array<{ text?: unknown }> } | undefined)?.content;
+  if (!Array.isArray(content)) return 0;
+  let bytes = 0;
+  for (const c of content) if (typeof c?.text === 'string') bytes += Buffer.byteLength(c.text);
+  return bytes;
+}
+
+// ── Reporting (get_my_usage) ──────────────────────────────────────────────
+
+const sumCounters = (list: Iterable<UsageCounters>): UsageCounters => {
+  const total = emptyCounters();
+  for (const c of list) add(total, c);
+  return total;
+};
+
+const rankByPages = <K extends string>(key: K, m: Map<string, UsageCounters>, limit?: number) =>
+  [...m.entries()]
+    .sort((a, b) => b[1].backendPages - a[1].backendPages || b[1].toolCalls - a[1].toolCalls)
+    .slice(0, limit)
+    .map(([k, c]) => ({ [key]: k, ...c }) as Record<K, string> & UsageCounters);
+
+function quotaStanding(quotas: UsageQuotas, today: UsageCounters): Record<string, { limit: number; used: number; remaining: number }> {
+  const out: Record<string, { limit: number; used: number; remaining: number }> = {};
+  for (const metric of ['toolCalls', 'backendPages', 'backendBytes'] as const) {
+    const limit = quotas[metric];
+    if (limit > 0) out[metric] = { limit, used: today[metric], remaining: Math.max(0, limit - today[metric]) };
+  }
+  return out;
+}
+
+/** The caller's own usage: today's quota standing plus per-day totals split by tenant and tool. */
+export function buildUserUsageReport(ledger: UsageLedger, subject: UsageSubject, days: number, now = Date.now()): Record<string, unknown> {
+  const history = ledger.userUsage(subject.upn, days, now);
+  const today = history[0]?.usage?.totals ?? emptyCounters();
+  const window = history.map((h) => h.usage);
+  const byTenant = new Map<string, UsageCounters>();
+  for (const u of window) {
+    for (const [t, c] of u?.byTenant ?? []) {
+      if (!byTenant.has(t)) byTenant.set(t, emptyCounters());
+      add(byTenant.get(t)!, c);
+    }
+  }
+  return {
+    upn: subject.upn,
+    homeTenantId: subject.homeTenantId ?? null,
+    resetsAt: nextUtcMidnight(now).toISOString(),
+    quotas: quotaStanding(ledger.quotas.user, today),
+    windowTotals: sumCounters(window.map((u) => u?.totals ?? emptyCounters())),
+    // "Which customer's investigations consume the budget": the MSP view, summed over the window.
+    byTenant: rankByPages('tenantId', byTenant),
+    days: history.map(({ day, usage }) => ({
+      day,
+      totals: usage?.totals ?? emptyCounters(),
+      byTool: usage ? rankByPages('tool', usage.byTool) : [],
+    })),
+    note: `Counted per server replica since its last start; "${CROSS_TENANT_KEY}" is cross-tenant (no tenantId) platform queries.`,
+  };
+}
+
+/** Platform view: every tenant's spend over the window with its top users and tenant-quota standing. */
+export function buildTenantUsageReport(ledger: UsageLedger, days: number, topUsers = 5, now = Date.now()): Record<string, unknown> {
+  const history = ledger.tenantUsage(days, now);
+  const totals = new Map<string, UsageCounters>();
+  const users = new Map<string, Map<string, UsageCounters>>();
+  for (const { tenants } of history) {
+    for (const [t, usage] of tenants) {
+      if (!totals.has(t)) {
+        totals.set(t, emptyCounters());
+        users.set(t, new Map());
+      }
+      add(totals.get(t)!, usage.totals);
+      const perUser = users.get(t)!;
+      for (const [upn, c] of usage.byUser) {
+        if (!perUser.has(upn)) perUser.set(upn, emptyCounters());
+        add(perUser.get(upn)!, c);
+      }
+    }
+  }
+  const todayTenants = history[0]?.tenants ?? new Map<string, TenantDayUsage>();
+  return {
+    resetsAt: nextUtcMidnight(now).toISOString(),
+    days: history.map((h) => h.day),
+    tenantCount: totals.size,
+    tenants: rankByPages('tenantId', totals).map((row) => ({
+      ...row,
+      quotas: quotaStanding(ledger.quotas.tenant, todayTenants.get(row.tenantId)?.totals ?? emptyCounters()),
+      topUsers: rankByPages('upn', users.get(row.tenantId)!, topUsers),
+    })),
+    note: `Counted per server replica since its last start; "${CROSS_TENANT_KEY}" is cross-tenant (no tenantId) platform queries.`,
+  };
+}
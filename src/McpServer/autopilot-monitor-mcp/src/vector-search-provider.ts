@@ -7,8 +7,9 @@
  */
 
 import type { FeatureExtractionPipeline } from '@huggingface/transformers';
-import type { SearchDocument, SearchOptions, SearchProvider, SearchResult } from './search-provider.js';
+import type { ReindexStats, SearchDocument, SearchOptions, SearchProvider, SearchResult } from './search-provider.js';
 import { scanLexical } from './search-provider.js';
+import { EmbeddingCache } from './embedding-cache.js';
 
 export const MODEL_NAME = 'Xenova/all-MiniLM-L6-v2';
 
@@ -108,6 +109,17 @@ export class VectorSearchProvider implements SearchProvider {
   readonly semanticCapable = true;
   private documents: PrecomputedDocument[] = [];
 
+  /**
+   * `cache` supplies embeddings for text already seen (see embedding-cache.ts). Without one the
+   * provider keeps a private in-memory cache, which is still enough for reindex() to re-embed
+   * only the documents that changed since the last (re)index.
+   */
+  constructor(private readonly cache: EmbeddingCache = new EmbeddingCache(MODEL_NAME)) {
+    if (cache.model !== MODEL_NAME) {
+      throw new Error(`[vector-search] embedding cache is bound to ${cache.model}, provider uses ${MODEL_NAME}`);
+    }
+  }
+
   get size(): number {
     return this.documents.length;
   }
@@ -120,6 +132,7 @@ export class VectorSearchProvider implements SearchProvider {
    */
   indexPrecomputed(docs: PrecomputedDocument[]): void {
     this.documents.push(...docs);
+    this.cache.seed(docs);
   }
 
   /** Export the indexed documents with embeddings for build-time serialization. */
@@ -128,22 +141,49 @@ export class VectorSearchProvider implements SearchProvider {
   }
 
   async index(docs: SearchDocument[]): Promise<void> {
-    const model = await getEmbedder();
-    const batchSize = 16;
-    for (let i = 0; i < docs.length; i += batchSize) {
-      const batch = docs.slice(i, i + batchSize);
-      const embeddings = await Promise.all(
-        batch.map(async (d) => {
-          const out = await model(d.text, { pooling: 'mean', normalize: true });
-          const vec = Array.from(out.data as Float32Array);
-          assertUnitNorm(vec, `index:${d.id}`);
-          return vec;
-        })
-      );
-      for (let j = 0; j < batch.length; j++) {
-        this.documents.push({ ...batch[j], embedding: embeddings[j] });
+    const { embeddedDocs } = await this.embedDocs(docs);
+    this.documents.push(...embeddedDocs);
+    this.cache.save();
+  }
+
+  /**
+   * Swap in a new corpus, embedding only text the cache has not seen. The document array is
+   * replaced in one assignment after all embeddings are ready, so concurrent searches never see
+   * a partial index. Cache entries for text no longer in the corpus are dropped.
+   */
+  async reindex(docs: SearchDocument[]): Promise<ReindexStats> {
+    const { embeddedDocs, embedded } = await this.embedDocs(docs);
+    const liveIds = new Set(docs.map((d) => d.id));
+    const removed = this.documents.filter((d) => !liveIds.has(d.id)).length;
+    this.documents = embeddedDocs;
+    this.cache.retain(embeddedDocs.map((d) => d.text));
+    this.cache.save();
+    return { total: embeddedDocs.length, embedded, reused: embeddedDocs.length - embedded, removed };
+  }
+
+  private async embedDocs(docs: SearchDocument[]): Promise<{ embeddedDocs: PrecomputedDocument[]; embedded: number }> {
+    // Unique by text: two docs with identical text share one embedding.
+    const misses = [...new Map(docs.filter((d) => !this.cache.get(d.text)).map((d) => [d.text, d] as const)).values()];
+    if (misses.length > 0) {
+      // Only load the model when something actually needs embedding — a no-op reindex stays model-free.
+      const model = await getEmbedder();
+      const batchSize = 16;
+      for (let i = 0; i < misses.length; i += batchSize) {
+        const batch = misses.slice(i, i + batchSize);
+        await Promise.all(
+          batch.map(async (d) => {
+            const out = await model(d.text, { pooling: 'mean', normalize: true });
+            const vec = Array.from(out.data as Float32Array);
+            assertUnitNorm(vec, `index:${d.id}`);
+            this.cache.set(d.text, vec);
+          })
+        );
       }
     }
+    return {
+      embeddedDocs: docs.map((d) => ({ ...d, embedding: this.cache.get(d.text)! })),
+      embedded: misses.length,
+    };
   }
 
   async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
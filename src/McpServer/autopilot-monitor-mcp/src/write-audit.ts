@@ -0,0 +1,60 @@
+/**
+ * Audit trail for the MCP write tools (tools/write.ts).
+ *
+ * The backend already audits the mutation itself against the user in the bearer token; this trail
+ * adds what only the MCP server knows — that the action came through MCP, from which tool, whether
+ * it was a dry-run preview or a confirmed execution, and how it ended. Every entry is written as one
+ * `[write-audit] {json}` line to stderr (the container log stream, which is retained) and kept in a
+ * bounded in-memory ring so get_write_audit_log can show a caller their recent actions.
+ *
+ * Like the usage ledger, the ring is per replica and resets on restart — the log line is the
+ * durable record.
+ */
+
+import { parsePositiveInt } from './config.js';
+
+export type WriteAuditOutcome = 'previewed' | 'succeeded' | 'failed';
+
+export interface WriteAuditEntry {
+  at: string;
+  /** Caller UPN (lowercased) and home tenant, from the validated token. */
+  upn?: string;
+  homeTenantId?: string;
+  tool: string;
+  /** Backend request the action maps to, e.g. "POST /api/sessions/{id}/mark-failed". */
+  request: string;
+  target: { sessionId?: string; serialNumber?: string; tenantId?: string };
+  mode: 'dry-run' | 'execute';
+  outcome: WriteAuditOutcome;
+  /** Backend HTTP status for a failed execution, when there was one. */
+  status?: number;
+  error?: string;
+}
+
+const MAX_ENTRIES = parsePositiveInt(process.env.MCP_WRITE_AUDIT_MAX_ENTRIES, 1_000);
+
+export class WriteAuditLog {
+  private readonly entries: WriteAuditEntry[] = [];
+
+  constructor(
+    private readonly maxEntries = MAX_ENTRIES,
+    private readonly sink: (line: string) => void = (line) => console.error(line),
+  ) {}
+
+  record(entry: Omit<WriteAuditEntry, 'at'>, now: number = Date.now()): WriteAuditEntry {
+    const full: WriteAuditEntry = { at: new Date(now).toISOString(), ...entry };
+    this.entries.push(full);
+    if (this.entries.length > this.maxEntries) this.entries.shift();
+    this.sink(`[write-audit] ${JSON.stringify(full)}`);
+    return full;
+  }
+
+  /** Newest first; `upn` restricts to one caller (undefined = everyone, for Global Admins). */
+  list(filter: { upn?: string; limit?: number } = {}): WriteAuditEntry[] {
+    const upn = filter.upn?.toLowerCase();
+    const matching = this.entries.filter((e) => upn === undefined || e.upn === upn);
+    return matching.reverse().slice(0, filter.limit ?? matching.length);
+  }
+}
+
+export const writeAuditLog = new WriteAuditLog();
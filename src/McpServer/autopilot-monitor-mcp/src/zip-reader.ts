@@ -0,0 +1,91 @@
+/**
+ * Minimal in-memory ZIP reader for agent diagnostics archives (parse_diagnostics_zip).
+ *
+ * The agent writes plain PKZIP archives via System.IO.Compression — stored or deflated entries,
+ * no encryption, no multi-disk — so reading the central directory and inflating with node:zlib
+ * covers them without a third-party unzip dependency. ZIP64 archives (> 4 GB or > 65535 entries)
+ * are rejected with a clear error; a diagnostics upload never gets close to either limit.
+ */
+import { inflateRawSync } from 'node:zlib';
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+/** EOCD (22 bytes) + the maximum archive comment (65535 bytes). */
+const EOCD_SEARCH_WINDOW = 22 + 0xffff;
+
+export interface ZipEntry {
+  /** Forward-slash path inside the archive (directories end with "/"). */
+  name: string;
+  compressedSize: number;
+  uncompressedSize: number;
+  method: number;
+  localHeaderOffset: number;
+}
+
+export class ZipFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipFormatError';
+  }
+}
+
+function findEndOfCentralDirectory(buf: Buffer): number {
+  const stop = Math.max(0, buf.length - EOCD_SEARCH_WINDOW);
+  for (let i = buf.length - 22; i >= stop; i--) {
+    if (buf.readUInt32LE(i) === EOCD_SIGNATURE) return i;
+  }
+  throw new ZipFormatError('Not a ZIP archive (end-of-central-directory record not found).');
+}
+
+/** List every entry from the central directory (no decompression). */
+export function listZipEntries(buf: Buffer): ZipEntry[] {
+  if (buf.length < 22) throw new ZipFormatError('Not a ZIP archive (too small).');
+  const eocd = findEndOfCentralDirectory(buf);
+  const count = buf.readUInt16LE(eocd + 10);
+  const cdOffset = buf.readUInt32LE(eocd + 16);
+  if (count === 0xffff || cdOffset === 0xffffffff) {
+    throw new ZipFormatError('ZIP64 archives are not supported.');
+  }
+
+  const entries: ZipEntry[] = [];
+  let p = cdOffset;
+  for (let i = 0; i < count; i++) {
+    if (p + 46 > buf.length || buf.readUInt32LE(p) !== CENTRAL_SIGNATURE) {
+      throw new ZipFormatError(`Corrupt central directory at entry ${i}.`);
+    }
+    const nameLen = buf.readUInt16LE(p + 28);
+    const extraLen = buf.readUInt16LE(p + 30);
+    const commentLen = buf.readUInt16LE(p + 32);
+    entries.push({
+      method: buf.readUInt16LE(p + 10),
+      compressedSize: buf.readUInt32LE(p + 20),
+      uncompressedSize: buf.readUInt32LE(p + 24),
+      localHeaderOffset: buf.readUInt32LE(p + 42),
+      // Windows-built archives may carry backslashes; normalize so DIAG_ZIP_MAP paths match.
+      name: buf.toString('utf-8', p + 46, p + 46 + nameLen).replace(/\\/g, '/'),
+    });
+    p += 46 + nameLen + extraLen + commentLen;
+  }
+  return entries;
+}
+
+/**
+ * Decompress one entry. `maxBytes` bounds the inflated size (zlib aborts past it), so a
+ * hostile or mislabelled entry cannot balloon memory beyond the caller's budget.
+ */
+export function readZipEntry(buf: Buffer, entry: ZipEntry, maxBytes: number): Buffer {
+  const p = entry.localHeaderOffset;
+  if (p + 30 > buf.length || buf.readUInt32LE(p) !== LOCAL_SIGNATURE) {
+    throw new ZipFormatError(`Corrupt local header for ${entry.name}.`);
+  }
+  // Sizes in the local header may be zero (data-descriptor mode) — the central directory's are authoritative.
+  const dataStart = p + 30 + buf.readUInt16LE(p + 26) + buf.readUInt16LE(p + 28);
+  const data = buf.subarray(dataStart, dataStart + entry.compressedSize);
+  if (entry.uncompressedSize > maxBytes) {
+    throw new ZipFormatError(`${entry.name} inflates to ${entry.uncompressedSize} bytes (limit ${maxBytes}).`);
+  }
+  if (entry.method === 0) return data;
+  if (entry.method === 8) return inflateRawSync(data, { maxOutputLength: maxBytes });
+  throw new ZipFormatError(`${entry.name} uses unsupported compression method ${entry.method}.`);
+}
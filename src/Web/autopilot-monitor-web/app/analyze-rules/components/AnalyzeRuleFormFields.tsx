@@ -5,6 +5,7 @@ import {
   CATEGORIES, SEVERITIES, TRIGGERS, OPERATORS, SOURCES, PRECONDITION_OPERATORS,
   EMPTY_CONDITION, EMPTY_FACTOR, EMPTY_PRECONDITION,
 } from "../types";
+import RuleTestPanel from "./RuleTestPanel";
 
 interface AnalyzeRuleFormFieldsProps {
   form: RuleForm;
@@ -307,6 +308,8 @@ export default function AnalyzeRuleFormFields({ form, setForm, showRuleId, exist
           </div>
         )}
       </div>
+
+      <RuleTestPanel form={form} />
     </div>
   );
 }
@@ -0,0 +1,150 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { evaluateAnalyzeRule, EvaluableRule, RuleOutcome } from "@/lib/analyzeRuleEvaluator";
+import { parseSessionEventsExport, SessionExportEvent } from "@/utils/sessionExportUtils";
+import { RuleForm } from "../types";
+
+/** Evidence is shown inline per condition — cap it so a correlation dump does not flood the form. */
+const MAX_EVIDENCE_CHARS = 400;
+
+const OUTCOME_LABELS: Record<RuleOutcome, string> = {
+  fired: "Rule fires",
+  skipped_by_precondition: "Skipped — a precondition did not pass",
+  required_condition_failed: "Does not fire — a required condition did not match",
+  no_condition_matched: "Does not fire — no condition matched",
+  below_threshold: "Does not fire — confidence is below the threshold",
+};
+
+/** The rule as it would be saved: same blank-row filtering as the create / save payloads. */
+function formToRule(form: RuleForm): EvaluableRule {
+  return {
+    ruleId: form.ruleId.trim() || "(unsaved rule)",
+    title: form.title.trim(),
+    severity: form.severity,
+    category: form.category,
+    baseConfidence: form.baseConfidence,
+    confidenceThreshold: form.confidenceThreshold,
+    preconditions: form.preconditions.filter(p => p.eventType.trim() && p.operator.trim()),
+    conditions: form.conditions.filter(c => c.signal.trim()),
+    confidenceFactors: form.confidenceFactors.filter(f => f.signal.trim()),
+  };
+}
+
+function formatEvidence(evidence: unknown): string {
+  if (evidence == null) return "";
+  const text = typeof evidence === "string" ? evidence : JSON.stringify(evidence);
+  return text.length > MAX_EVIDENCE_CHARS ? `${text.slice(0, MAX_EVIDENCE_CHARS)}…` : text;
+}
+
+/**
+ * Replays the rule being edited against a saved session export (the CSV from the session page or a
+ * JSON event list such as MCP get_session_events output) and shows which conditions matched.
+ * Everything runs in the browser; the verdict follows the form live as conditions are edited.
+ */
+export default function RuleTestPanel({ form }: { form: RuleForm }) {
+  const [events, setEvents] = useState<SessionExportEvent[] | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    try {
+      setEvents(parseSessionEventsExport(await file.text()));
+      setParseError(null);
+    } catch (err) {
+      setEvents(null);
+      setParseError(err instanceof Error ? err.message : "Could not read the export");
+    }
+  };
+
+  const evaluation = useMemo(() => {
+    if (!events) return null;
+    // Phases still open at the end of the export are measured up to its last event, not to now.
+    const times = events.map(e => Date.parse(e.timestamp)).filter(t => !Number.isNaN(t));
+    const now = times.length > 0 ? Math.max(...times) : Date.now();
+    return evaluateAnalyzeRule(formToRule(form), events, { now });
+  }, [events, form]);
+
+  return (
+    <div className="border-t border-gray-200 pt-5">
+      <label className="block text-sm font-semibold text-gray-700 mb-1">Test Against a Session Export</label>
+      <p className="text-xs text-gray-500 mb-2">
+        Pick a session event export (CSV from the session page, or a JSON event list) to see whether this rule would fire
+        and which conditions matched. The file is read in your browser and not uploaded.
+      </p>
+      <input
+        type="file"
+        accept=".csv,.json"
+        onChange={handleFileUpload}
+        className="w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100"
+      />
+      {parseError && <p className="mt-2 text-xs text-red-600">{fileName}: {parseError}</p>}
+
+      {evaluation && events && (
+        <div className="mt-3 space-y-3">
+          <div className={`rounded-lg border p-3 flex flex-wrap items-center justify-between gap-2 ${evaluation.fired ? "bg-green-50 border-green-200" : "bg-gray-50 border-gray-200"}`}>
+            <span className={`text-sm font-medium ${evaluation.fired ? "text-green-800" : "text-gray-800"}`}>
+              {OUTCOME_LABELS[evaluation.outcome]}
+            </span>
+            <span className="text-xs text-gray-500">
+              {fileName} · {events.length} events
+              {evaluation.confidence !== null && <> · confidence {evaluation.confidence} (threshold {evaluation.confidenceThreshold})</>}
+            </span>
+          </div>
+
+          {evaluation.preconditions.length > 0 && (
+            <ul className="text-xs space-y-1">
+              {evaluation.preconditions.map((p) => (
+                <li key={p.index} className={p.passed ? "text-green-700" : "text-red-700"}>
+                  {p.passed ? "✓" : "✗"} Precondition {p.index + 1}: {p.eventType ?? "any event"}
+                  {p.dataField ? `.${p.dataField}` : ""} {p.operator} {p.value ?? ""}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-xs">
+              <thead className="bg-gray-50 text-gray-500 uppercase">
+                <tr>
+                  <th className="px-3 py-2 text-left">Signal</th>
+                  <th className="px-3 py-2 text-left">Source</th>
+                  <th className="px-3 py-2 text-left">Result</th>
+                  <th className="px-3 py-2 text-left">Evidence</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {evaluation.conditions.map((c, idx) => (
+                  <tr key={idx} className={c.evaluated ? "" : "text-gray-400"}>
+                    <td className="px-3 py-1.5 font-mono">{c.signal}{c.required && <span className="ml-1 text-red-500">*</span>}</td>
+                    <td className="px-3 py-1.5">{c.source}</td>
+                    <td className="px-3 py-1.5">
+                      {!c.evaluated ? "not evaluated" : c.matched
+                        ? <span className="text-green-700 font-medium">matched</span>
+                        : <span className="text-red-700">no match</span>}
+                    </td>
+                    <td className="px-3 py-1.5 font-mono text-gray-600 break-all">{formatEvidence(c.evidence)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {evaluation.confidenceFactors.length > 0 && (
+            <ul className="text-xs space-y-1">
+              {evaluation.confidenceFactors.map((f) => (
+                <li key={f.signal} className={f.matched ? "text-green-700" : "text-gray-500"}>
+                  {f.matched ? "+" : "·"} {f.weight} {f.signal} <span className="font-mono">({f.condition})</span>
+                  {!f.supported && <span className="ml-1 text-amber-700">— not a condition the backend understands</span>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -7,6 +7,8 @@ import { trackEvent } from "@/lib/appInsights";
 import { fuzzyContains } from "@/utils/fuzzy";
 import { buildUniqueValuesByField } from "./uniqueValuesByField";
 import { SessionStatusBadge } from "@/components/SessionStatusBadge";
+import { EnrollmentEtaBadge } from "@/components/EnrollmentEtaBadge";
+import type { EtaBaseline } from "@/lib/enrollmentEta";
 
 // Column definition for the session table
 interface ColumnDef {
@@ -100,6 +102,8 @@ interface SessionTableProps {
    * append `?tenantId=` so a delegated viewer opens the session in the managed tenant's (read-only) context.
    * Receives the whole session because the target tenant is per-row (session.tenantId), not derivable from id. */
   sessionLinkTarget?: (session: Session) => string;
+  /** Phase-median baseline per session for the in-progress ETA under the duration; omitted → no ETA. */
+  etaBaselineFor?: (session: Session) => EtaBaseline | null;
 }
 
 export function SessionTable({
@@ -141,6 +145,7 @@ export function SessionTable({
   fullWidth,
   onToggleFullWidth,
   sessionLinkTarget,
+  etaBaselineFor,
 }: SessionTableProps) {
   const router = useRouter();
   const linkFor = (session: Session) =>
@@ -803,6 +808,7 @@ export function SessionTable({
                     isDeletionPending={pendingDeletions.has(session.sessionId)}
                     onBlockDevice={onBlockDevice}
                     tenantDomainById={tenantDomainById}
+                    etaBaselineFor={etaBaselineFor}
                   />
                 ))}
               </tr>
@@ -860,6 +866,7 @@ function SessionCell({
   isDeletionPending,
   onBlockDevice,
   tenantDomainById,
+  etaBaselineFor,
 }: {
   columnKey: string;
   session: Session;
@@ -872,6 +879,7 @@ function SessionCell({
   isDeletionPending: boolean;
   onBlockDevice: (serialNumber: string, tenantId: string, deviceName?: string) => void;
   tenantDomainById: Map<string, string>;
+  etaBaselineFor?: (session: Session) => EtaBaseline | null;
 }) {
   switch (columnKey) {
     case "device":
@@ -976,6 +984,11 @@ function SessionCell({
       return (
         <td className="px-3 py-4 whitespace-nowrap text-sm text-gray-500">
           {Math.round(session.durationSeconds / 60)} min
+          {etaBaselineFor && session.status === "InProgress" && (
+            <div>
+              <EnrollmentEtaBadge session={session} events={null} baseline={etaBaselineFor(session)} appHistory={null} compact />
+            </div>
+          )}
         </td>
       );
 
@@ -15,6 +15,7 @@ import { SessionTable } from "./components/SessionTable";
 import { DeleteConfirmModal, BlockConfirmModal } from "./components/ConfirmationModals";
 import TipOfTheDay from "./components/TipOfTheDay";
 import { useAdminMode } from "@/hooks/useAdminMode";
+import { useEnrollmentEtaBaselines } from "@/hooks/useEnrollmentEtaBaselines";
 import { useDeleteSession } from "./hooks/useDeleteSession";
 import { useBlockDevice } from "./hooks/useBlockDevice";
 import { useTenantSecurityConfig } from "./hooks/useTenantSecurityConfig";
@@ -142,6 +143,14 @@ function HomeContent() {
     loadMore,
   });
 
+  // ETA for the in-progress rows on screen, with completed samples picked from the loaded list.
+  const etaBaselines = useEnrollmentEtaBaselines({
+    tenantId,
+    sessions: paginatedSessions,
+    candidates: sessions,
+    getAccessToken,
+  });
+
   // Stats cards: server-side aggregation so the numbers don't drift with whatever
   // the client has paginated into view. Refreshes on SignalR newSession/newevents
   // (debounced) and on SignalR reconnect to recover from any missed messages.
@@ -465,6 +474,7 @@ function HomeContent() {
               onBlockDevice={blockDevice}
               fullWidth={fullWidth}
               onToggleFullWidth={toggleFullWidth}
+              etaBaselineFor={etaBaselines.baselineFor}
               sessionLinkTarget={
                 crossTenant
                   ? (s) =>
@@ -201,6 +201,18 @@ export function SectionMcpIntegration() {
                   <td className="py-2 pr-4 font-mono text-xs text-indigo-700">get_session_summary</td>
                   <td className="py-2 text-gray-600">Concise structured summary: overview, key events (noise filtered), rule analysis, and aggregate stats. Best starting point for session investigation.</td>
                 </tr>
+                <tr>
+                  <td className="py-2 pr-4 font-mono text-xs text-indigo-700">get_session_incident_report</td>
+                  <td className="py-2 text-gray-600">Ready-to-paste incident report (Markdown or standalone HTML) for a service desk ticket: session metadata, phase timeline, failing apps, fired rules with remediation, key events and the vulnerability summary. Same layout as the Report Session dialog&apos;s export.</td>
+                </tr>
+                <tr>
+                  <td className="py-2 pr-4 font-mono text-xs text-indigo-700">compare_sessions</td>
+                  <td className="py-2 text-gray-600">Side-by-side diff of two sessions &mdash; e.g. a failing device against a healthy one of the same model: phase durations, app install outcomes, event types seen in only one session, hardware/TPM property differences, and rules that fired in only one.</td>
+                </tr>
+                <tr>
+                  <td className="py-2 pr-4 font-mono text-xs text-indigo-700">parse_diagnostics_zip</td>
+                  <td className="py-2 text-gray-600">Parses a session&apos;s agent diagnostics ZIP on the server and returns one merged timeline of agent log lines, IME log pattern matches (with extracted fields), and decision-engine transitions. Lets chat-only clients without a local shell do agent-side root cause analysis.</td>
+                </tr>
               </tbody>
             </table>
           </div>
@@ -229,6 +241,14 @@ export function SectionMcpIntegration() {
                   <td className="py-2 pr-4 font-mono text-xs text-emerald-700">get_app_install_metrics</td>
                   <td className="py-2 text-gray-600">App-install health over a window: top failing apps with failure rates and their most common failure codes, slowest apps by average install duration, and a Delivery Optimization rollup (bytes from peers / Microsoft Connected Cache vs. CDN, plus peer-offload percentage). 1&ndash;365 day window (default 30).</td>
                 </tr>
+                <tr>
+                  <td className="py-2 pr-4 font-mono text-xs text-emerald-700">benchmark_tenants</td>
+                  <td className="py-2 text-gray-600">Peer ranking across tenants for MSPs (delegated admins) and Global Admins: success rate, median enrollment time, ESP timeouts and top failing apps, each also adjusted for the tenant&apos;s device model mix. Anonymized by default &mdash; every tenant except the one it is prepared for becomes &ldquo;Peer N&rdquo;. Same numbers as the Fleet page&apos;s Benchmark view.</td>
+                </tr>
+                <tr>
+                  <td className="py-2 pr-4 font-mono text-xs text-emerald-700">cluster_failures</td>
+                  <td className="py-2 text-gray-600">Groups the failed sessions of a time window into ranked clusters by failure reason, last phase, failing app, and first error type/code. Each cluster lists its count, example session IDs, and the most affected models and agent versions.</td>
+                </tr>
                 <tr>
                   <td className="py-2 pr-4 font-mono text-xs text-emerald-700">get_geographic_metrics</td>
                   <td className="py-2 text-gray-600">Geographic distribution of enrollments with performance comparisons across locations.</td>
@@ -245,6 +265,10 @@ export function SectionMcpIntegration() {
                   <td className="py-2 pr-4 font-mono text-xs text-emerald-700">get_rule_stats</td>
                   <td className="py-2 text-gray-600">Firing statistics for analyze and gather rules: which rules fire most often, their hit rates (fires/evaluations), and daily trends. Filter by rule type and date window to keep responses lean.</td>
                 </tr>
+                <tr>
+                  <td className="py-2 pr-4 font-mono text-xs text-emerald-700">dry_run_analyze_rule</td>
+                  <td className="py-2 text-gray-600">Previews a draft analyze rule before it is enabled: validates it against the rule schema, replays it over sessions picked with the search_sessions filters, and reports hit rate, confidence distribution, per-condition matches, and example explanations.</td>
+                </tr>
                 <tr>
                   <td className="py-2 pr-4 font-mono text-xs text-emerald-700">get_ime_version_history</td>
                   <td className="py-2 text-gray-600">History of all IME (Intune Management Extension) agent versions seen across enrollments &mdash; first/last seen and session counts per version. A permanent archive that survives data retention, useful for tracking Microsoft IME rollouts.</td>
@@ -0,0 +1,115 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { api } from "@/lib/api";
+import { authenticatedFetch } from "@/lib/authenticatedFetch";
+import { extractContinuation } from "@/lib/paginationLink";
+import type { TenantInfo } from "@/hooks/useTenantList";
+import type { BenchmarkAppFailures, BenchmarkSession, BenchmarkTenantInput } from "../lib/tenantBenchmark";
+
+export interface FleetBenchmarkState {
+  /** One entry per managed tenant whose sessions loaded; empty until the first fan-out finishes. */
+  inputs: BenchmarkTenantInput[];
+  loading: boolean;
+}
+
+// Same bounded fan-out as useFleetSummaries — the benchmark pulls session rows, so keep it polite.
+const CONCURRENCY = 6;
+const PAGE_SIZE = 1000;
+/** Per-tenant page cap; a tenant beyond it is benchmarked on its most recent sessions and flagged truncated. */
+const MAX_PAGES = 10;
+
+/**
+ * Benchmark inputs for the managed tenants: each tenant's session rows for the window (model, status,
+ * duration, failure reason — the model-mix normalization needs per-session rows, not the stats summary)
+ * plus its top failing apps. Like the fleet cards, every request goes through the single-tenant
+ * `?tenantId=` variant of a global endpoint, which the backend bounds to the caller's scope. Only runs
+ * while `enabled` (there is a peer to compare against).
+ */
+export function useFleetBenchmark(tenants: TenantInfo[], days: number, enabled: boolean): FleetBenchmarkState {
+  const { getAccessToken } = useAuth();
+  const [inputs, setInputs] = useState<BenchmarkTenantInput[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const key = tenants.map((t) => t.tenantId).sort().join(",");
+
+  useEffect(() => {
+    if (!enabled || tenants.length === 0) {
+      setInputs([]);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+
+    const fetchSessions = async (tenantId: string): Promise<{ sessions: BenchmarkSession[]; truncated: boolean }> => {
+      const sessions: BenchmarkSession[] = [];
+      let continuation: string | undefined;
+      for (let page = 0; page < MAX_PAGES; page++) {
+        const response = await authenticatedFetch(
+          api.globalSessions.list(tenantId, days, { pageSize: PAGE_SIZE, continuation }),
+          getAccessToken
+        );
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const body = await response.json();
+        sessions.push(...((body?.sessions ?? []) as BenchmarkSession[]));
+        continuation = extractContinuation(body?.nextLink) ?? undefined;
+        if (!continuation) return { sessions, truncated: false };
+      }
+      return { sessions, truncated: true };
+    };
+
+    const fetchApps = async (tenantId: string): Promise<BenchmarkAppFailures[] | null> => {
+      try {
+        const response = await authenticatedFetch(api.metrics.globalApp(days, tenantId), getAccessToken);
+        if (!response.ok) return null;
+        const body = await response.json();
+        return (body?.topFailingApps ?? []) as BenchmarkAppFailures[];
+      } catch {
+        // Apps are one column of the benchmark; the rest still renders without them.
+        return null;
+      }
+    };
+
+    const run = async () => {
+      const queue = [...tenants];
+      const result: BenchmarkTenantInput[] = [];
+
+      const worker = async () => {
+        while (queue.length > 0) {
+          const tenant = queue.pop();
+          if (!tenant) break;
+          try {
+            const [{ sessions, truncated }, failingApps] = await Promise.all([
+              fetchSessions(tenant.tenantId),
+              fetchApps(tenant.tenantId),
+            ]);
+            result.push({ tenantId: tenant.tenantId, name: tenant.domainName || null, sessions, failingApps, truncated });
+          } catch (err) {
+            // A tenant whose sessions cannot be read drops out of the peer pool rather than skewing it.
+            console.error(`Error fetching benchmark data for tenant ${tenant.tenantId}:`, err);
+          }
+        }
+      };
+
+      await Promise.all(
+        Array.from({ length: Math.min(CONCURRENCY, tenants.length) }, worker)
+      );
+
+      if (!cancelled) {
+        setInputs(result);
+        setLoading(false);
+      }
+    };
+
+    run();
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key, days, enabled, getAccessToken]);
+
+  return { inputs, loading };
+}
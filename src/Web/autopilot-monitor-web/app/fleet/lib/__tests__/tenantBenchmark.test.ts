@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import {
+  benchmarkToCsv,
+  computeTenantBenchmark,
+  isEspTimeout,
+  type BenchmarkSession,
+  type BenchmarkTenantInput,
+} from "../tenantBenchmark";
+
+function sessions(model: string, succeeded: number, failed: number, opts: { minutes?: number; reason?: string } = {}): BenchmarkSession[] {
+  const row = (status: string): BenchmarkSession => ({
+    status,
+    manufacturer: "Contoso",
+    model,
+    durationSeconds: (opts.minutes ?? 30) * 60,
+    failureReason: status === "Failed" ? opts.reason ?? "App install failed" : "",
+  });
+  return [
+    ...Array.from({ length: succeeded }, () => row("Succeeded")),
+    ...Array.from({ length: failed }, () => row("Failed")),
+  ];
+}
+
+function tenant(tenantId: string, name: string | null, rows: BenchmarkSession[], apps: BenchmarkTenantInput["failingApps"] = []): BenchmarkTenantInput {
+  return { tenantId, name, sessions: rows, failingApps: apps };
+}
+
+// "Flaky" fails half the time everywhere, "Solid" never does. Tenant A runs only Flaky, tenant B only
+// Solid, tenant C a mix — raw success rates mostly reflect hardware, not how the tenant is run.
+const inputs = [
+  tenant("a", "alpha.example", sessions("Flaky", 10, 10, { minutes: 60 }), [
+    { appName: "Alpha VPN", failed: 6, totalInstalls: 20 },
+    { appName: "Teams", failed: 2, totalInstalls: 20 },
+  ]),
+  tenant("b", "bravo.example", sessions("Solid", 20, 0, { minutes: 20 })),
+  tenant("c", "charlie.example", [
+    ...sessions("Flaky", 6, 4, { minutes: 60, reason: "ESP timeout during device setup (0x800705B4)" }),
+    ...sessions("Solid", 10, 0, { minutes: 30 }),
+  ]),
+];
+
+describe("computeTenantBenchmark", () => {
+  it("computes pool baselines per model", () => {
+    const { pool } = computeTenantBenchmark(inputs);
+    expect(pool).toMatchObject({ tenants: 3, sessions: 60, terminalSessions: 60, successRatePct: 76.7, espTimeoutRatePct: 6.7 });
+    expect(pool.models).toEqual([
+      { model: "Contoso Flaky", terminalSessions: 30, successRatePct: 53.3, medianDurationMinutes: 60 },
+      { model: "Contoso Solid", terminalSessions: 30, successRatePct: 100, medianDurationMinutes: 20 },
+    ]);
+  });
+
+  it("adjusts success rate and duration for the model mix", () => {
+    const byId = Object.fromEntries(computeTenantBenchmark(inputs).tenants.map((t) => [t.tenantId, t]));
+    // A: 50% on a model the pool runs at 53.3% → slightly below par.
+    expect(byId.a).toMatchObject({ successRatePct: 50, expectedSuccessRatePct: 53.3, adjustedSuccessRatePct: 73.3, durationIndex: 1 });
+    // C: 80% raw vs 76.7% expected for its mix.
+    expect(byId.c).toMatchObject({ successRatePct: 80, expectedSuccessRatePct: 76.7, adjustedSuccessRatePct: 80, espTimeouts: 4, espTimeoutRatePct: 20 });
+    // C's Solid devices take 30 min where the pool median for Solid is 20 → slower than par overall,
+    // although its raw median equals the pool's.
+    expect(byId.c).toMatchObject({ medianDurationMinutes: 30, durationIndex: 1.5, adjustedMedianDurationMinutes: 45 });
+  });
+
+  it("ranks by adjusted success rate and leaves small tenants unranked", () => {
+    const result = computeTenantBenchmark([...inputs, tenant("d", "delta.example", sessions("Solid", 3, 0))]);
+    expect(result.tenants.map((t) => [t.tenantId, t.rank, t.percentile])).toEqual([
+      ["c", 1, 100],
+      ["b", 2, 50],
+      ["a", 3, 0],
+      ["d", null, null],
+    ]);
+  });
+
+  it("lists the top failing apps by failure count", () => {
+    const a = computeTenantBenchmark(inputs, { topApps: 1 }).tenants.find((t) => t.tenantId === "a")!;
+    expect(a.topFailingApps).toEqual([{ appName: "Alpha VPN", failed: 6, failureRatePct: 30 }]);
+  });
+
+  it("anonymizes every tenant but the focus one, including names inside app names", () => {
+    const result = computeTenantBenchmark(inputs, { anonymize: true, focusTenantId: "C" });
+    expect(result.tenants.map((t) => [t.label, t.tenantId, t.isFocus])).toEqual([
+      ["charlie.example", "c", true],
+      ["Peer 1", null, false],
+      ["Peer 2", null, false],
+    ]);
+    expect(result.tenants[2].topFailingApps![0].appName).toBe("[tenant] VPN");
+    const csv = benchmarkToCsv(result);
+    expect(csv).not.toMatch(/alpha|bravo/i);
+    expect(csv.split("\n")[3]).toBe("3,0,Peer 2,20,20,1,50,53.3,73.3,60,1,30,0,0,0,[tenant] VPN (6); Teams (2)");
+  });
+});
+
+describe("isEspTimeout", () => {
+  it("recognizes ESP timeouts but not Hello timeouts", () => {
+    expect(isEspTimeout("ESP failed: 0x800705B4 (provisioning timeout)")).toBe(true);
+    expect(isEspTimeout("ESP timed out waiting for device setup")).toBe(true);
+    expect(isEspTimeout("Windows Hello provisioning timed out")).toBe(false);
+    expect(isEspTimeout(null)).toBe(false);
+  });
+});
@@ -0,0 +1,337 @@
+/**
+ * Cross-tenant benchmark for a delegated ("MSP") admin: ranks the managed tenants against each other on
+ * success rate, median enrollment time, ESP timeouts and top failing apps. Pure data; no React.
+ *
+ * Raw rates are not comparable across tenants with different hardware — a tenant rolling out a model that
+ * fails everywhere looks bad regardless of how it is run. Success rate, ESP-timeout rate and duration are
+ * therefore also reported MODEL-MIX ADJUSTED (indirect standardization against the peer pool): each
+ * tenant's value is compared with what the pool's per-model rates predict for that tenant's own model mix,
+ * and the difference is applied to the pool rate. Ranking uses the adjusted success rate.
+ *
+ * The MCP server carries a mirror (`tenant-benchmark.ts`, behind the benchmark_tenants tool) — keep the
+ * metric definitions and anonymization rules in lock-step with that copy.
+ */
+
+/** Session fields the benchmark reads (a subset of SessionSummary). */
+export interface BenchmarkSession {
+  status?: string;
+  manufacturer?: string;
+  model?: string;
+  durationSeconds?: number | null;
+  failureReason?: string | null;
+}
+
+/** One app's install tallies for a tenant (the `topFailingApps` rows of the app metrics endpoint). */
+export interface BenchmarkAppFailures {
+  appName: string;
+  failed: number;
+  totalInstalls: number;
+}
+
+export interface BenchmarkTenantInput {
+  tenantId: string;
+  /** Display name (domain); null when unknown. */
+  name: string | null;
+  sessions: BenchmarkSession[];
+  /** null = app metrics unavailable for this tenant. */
+  failingApps: BenchmarkAppFailures[] | null;
+  /** The session fetch stopped at its page budget, so the tenant is only partially covered. */
+  truncated?: boolean;
+}
+
+export interface BenchmarkOptions {
+  /** Minimum terminal sessions for a tenant to be ranked (default 10). */
+  minSessions?: number;
+  /** Replace tenant names and IDs with "Peer N" labels (the focus tenant keeps its name). */
+  anonymize?: boolean;
+  /** The tenant the benchmark is prepared for; highlighted and never anonymized. */
+  focusTenantId?: string;
+  /** Failing apps listed per tenant (default 3). */
+  topApps?: number;
+}
+
+export interface TenantBenchmark {
+  /** Tenant name, or "Peer N" when anonymized. */
+  label: string;
+  /** null when anonymized. */
+  tenantId: string | null;
+  isFocus: boolean;
+  sessions: number;
+  /** Succeeded + failed — the denominator of every rate. */
+  terminalSessions: number;
+  models: number;
+  successRatePct: number | null;
+  /** What the peer pool's per-model success rates predict for this tenant's model mix. */
+  expectedSuccessRatePct: number | null;
+  adjustedSuccessRatePct: number | null;
+  medianDurationMinutes: number | null;
+  /** Median of (duration / peer median for the same model); 1.00 = on par, 1.25 = 25% slower. */
+  durationIndex: number | null;
+  adjustedMedianDurationMinutes: number | null;
+  espTimeouts: number;
+  espTimeoutRatePct: number | null;
+  adjustedEspTimeoutRatePct: number | null;
+  topFailingApps: { appName: string; failed: number; failureRatePct: number }[] | null;
+  /** 1 = best adjusted success rate; null when below minSessions. */
+  rank: number | null;
+  /** Share of ranked peers this tenant beats (0–100); null when unranked. */
+  percentile: number | null;
+  truncated: boolean;
+}
+
+export interface BenchmarkModelBaseline {
+  model: string;
+  terminalSessions: number;
+  successRatePct: number;
+  medianDurationMinutes: number | null;
+}
+
+export interface BenchmarkResult {
+  pool: {
+    tenants: number;
+    sessions: number;
+    terminalSessions: number;
+    successRatePct: number | null;
+    medianDurationMinutes: number | null;
+    espTimeoutRatePct: number | null;
+    /** Per-model baselines behind the adjustment, largest first (top 10). */
+    models: BenchmarkModelBaseline[];
+  };
+  /** Ranked tenants first (best first), then unranked ones. */
+  tenants: TenantBenchmark[];
+}
+
+/** Models with fewer terminal sessions than this in the whole pool fall back to the pool-wide rates. */
+const MIN_MODEL_SESSIONS = 5;
+const MAX_POOL_MODELS = 10;
+
+/**
+ * ESP timeouts by failure reason: 0x800705B4 is the ESP's own timeout HRESULT, and the agent and
+ * backend phrase the reason as "ESP timeout …" / "ESP failed: … (provisioning timeout)". Windows
+ * Hello timeouts are not ESP timeouts.
+ */
+const ESP_TIMEOUT_PATTERN = /0x800705B4|\bESP\b.*\btim(?:e|ed)\s*out\b|provisioning timeout/i;
+
+export function isEspTimeout(failureReason: string | null | undefined): boolean {
+  return !!failureReason && ESP_TIMEOUT_PATTERN.test(failureReason);
+}
+
+/** Hardware key shared by the pool baselines and the per-tenant mix: "Manufacturer Model". */
+export function modelKey(s: BenchmarkSession): string {
+  const key = [s.manufacturer, s.model].filter(Boolean).join(" ").trim();
+  return key || "Unknown";
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+const clampPct = (n: number) => Math.min(100, Math.max(0, n));
+const isTerminal = (s: BenchmarkSession) => s.status === "Succeeded" || s.status === "Failed";
+const durationOf = (s: BenchmarkSession) =>
+  s.status === "Succeeded" && typeof s.durationSeconds === "number" && s.durationSeconds > 0 ? s.durationSeconds : null;
+
+interface ModelStats {
+  terminal: number;
+  succeeded: number;
+  espTimeouts: number;
+  durations: number[];
+}
+
+function tallyModels(sessions: BenchmarkSession[]): Map<string, ModelStats> {
+  const models = new Map<string, ModelStats>();
+  for (const s of sessions) {
+    const key = modelKey(s);
+    const m = models.get(key) ?? { terminal: 0, succeeded: 0, espTimeouts: 0, durations: [] };
+    if (isTerminal(s)) {
+      m.terminal++;
+      if (s.status === "Succeeded") m.succeeded++;
+      else if (isEspTimeout(s.failureReason)) m.espTimeouts++;
+    }
+    const d = durationOf(s);
+    if (d !== null) m.durations.push(d);
+    models.set(key, m);
+  }
+  return models;
+}
+
+/** The tenant's own domain label ("contoso" of contoso.com) — often part of its app names. */
+function nameToken(name: string | null): string | null {
+  const token = name?.split(".")[0]?.trim();
+  return token && token.length >= 3 ? token : null;
+}
+
+function redact(text: string, token: string | null): string {
+  if (!token) return text;
+  return text.replace(new RegExp(token.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "gi"), "[tenant]");
+}
+
+export function computeTenantBenchmark(inputs: BenchmarkTenantInput[], opts: BenchmarkOptions = {}): BenchmarkResult {
+  const minSessions = opts.minSessions ?? 10;
+  const topApps = opts.topApps ?? 3;
+  const focus = opts.focusTenantId?.toLowerCase();
+
+  // ── Peer pool baselines ──
+  const allSessions = inputs.flatMap((t) => t.sessions);
+  const poolModels = tallyModels(allSessions);
+  let poolTerminal = 0, poolSucceeded = 0, poolEsp = 0;
+  for (const m of poolModels.values()) {
+    poolTerminal += m.terminal;
+    poolSucceeded += m.succeeded;
+    poolEsp += m.espTimeouts;
+  }
+  const poolSuccess = poolTerminal > 0 ? poolSucceeded / poolTerminal : null;
+  const poolEspRate = poolTerminal > 0 ? poolEsp / poolTerminal : null;
+  const poolMedianDuration = median(allSessions.map(durationOf).filter((d): d is number => d !== null));
+
+  // Per-model rates, falling back to the pool where a model is too rare to say anything.
+  const modelSuccess = (key: string) => {
+    const m = poolModels.get(key);
+    return m && m.terminal >= MIN_MODEL_SESSIONS ? m.succeeded / m.terminal : poolSuccess ?? 0;
+  };
+  const modelEsp = (key: string) => {
+    const m = poolModels.get(key);
+    return m && m.terminal >= MIN_MODEL_SESSIONS ? m.espTimeouts / m.terminal : poolEspRate ?? 0;
+  };
+  const modelMedian = (key: string) => {
+    const m = poolModels.get(key);
+    return m && m.durations.length >= MIN_MODEL_SESSIONS ? median(m.durations) : poolMedianDuration;
+  };
+
+  // ── Per tenant ──
+  const rows = inputs.map((t) => {
+    const models = tallyModels(t.sessions);
+    let terminal = 0, succeeded = 0, esp = 0, expectedSuccess = 0, expectedEsp = 0;
+    const ratios: number[] = [];
+    for (const [key, m] of models) {
+      terminal += m.terminal;
+      succeeded += m.succeeded;
+      esp += m.espTimeouts;
+      expectedSuccess += m.terminal * modelSuccess(key);
+      expectedEsp += m.terminal * modelEsp(key);
+      const baseline = modelMedian(key);
+      if (baseline) for (const d of m.durations) ratios.push(d / baseline);
+    }
+    const durations = t.sessions.map(durationOf).filter((d): d is number => d !== null);
+    const rate = terminal > 0 ? succeeded / terminal : null;
+    const espRate = terminal > 0 ? esp / terminal : null;
+    const index = median(ratios);
+    const rawMedian = median(durations);
+    return {
+      input: t,
+      row: {
+        label: t.name ?? t.tenantId,
+        tenantId: t.tenantId,
+        isFocus: t.tenantId.toLowerCase() === focus,
+        sessions: t.sessions.length,
+        terminalSessions: terminal,
+        models: models.size,
+        successRatePct: rate === null ? null : round1(rate * 100),
+        expectedSuccessRatePct: terminal > 0 ? round1((expectedSuccess / terminal) * 100) : null,
+        adjustedSuccessRatePct: rate === null || poolSuccess === null
+          ? null
+          : round1(clampPct((poolSuccess + rate - expectedSuccess / terminal) * 100)),
+        medianDurationMinutes: rawMedian === null ? null : round1(rawMedian / 60),
+        durationIndex: index === null ? null : Math.round(index * 100) / 100,
+        adjustedMedianDurationMinutes: index === null || poolMedianDuration === null ? null : round1((index * poolMedianDuration) / 60),
+        espTimeouts: esp,
+        espTimeoutRatePct: espRate === null ? null : round1(espRate * 100),
+        adjustedEspTimeoutRatePct: espRate === null || poolEspRate === null
+          ? null
+          : round1(clampPct((poolEspRate + espRate - expectedEsp / terminal) * 100)),
+        topFailingApps: t.failingApps === null ? null : [...t.failingApps]
+          .filter((a) => a.failed > 0)
+          .sort((a, b) => b.failed - a.failed || a.appName.localeCompare(b.appName))
+          .slice(0, topApps)
+          .map((a) => ({
+            appName: a.appName,
+            failed: a.failed,
+            failureRatePct: a.totalInstalls > 0 ? round1((a.failed / a.totalInstalls) * 100) : 0,
+          })),
+        rank: null,
+        percentile: null,
+        truncated: t.truncated ?? false,
+      } as TenantBenchmark,
+    };
+  });
+
+  // ── Rank: adjusted success rate, then the faster tenant ──
+  const ranked = rows
+    .filter((r) => r.row.terminalSessions >= minSessions && r.row.adjustedSuccessRatePct !== null)
+    .sort((a, b) =>
+      b.row.adjustedSuccessRatePct! - a.row.adjustedSuccessRatePct!
+      || (a.row.durationIndex ?? Infinity) - (b.row.durationIndex ?? Infinity)
+      || a.row.tenantId!.localeCompare(b.row.tenantId!));
+  ranked.forEach((r, i) => {
+    r.row.rank = i + 1;
+    r.row.percentile = ranked.length > 1 ? Math.round(((ranked.length - 1 - i) / (ranked.length - 1)) * 100) : 100;
+  });
+  const unranked = rows
+    .filter((r) => r.row.rank === null)
+    .sort((a, b) => b.row.terminalSessions - a.row.terminalSessions || a.row.tenantId!.localeCompare(b.row.tenantId!));
+  const ordered = [...ranked, ...unranked];
+
+  // ── Anonymize: labels follow the final order, so they carry no more than the rank already does ──
+  if (opts.anonymize) {
+    let peer = 0;
+    for (const { input, row } of ordered) {
+      if (row.isFocus) continue;
+      row.label = `Peer ${++peer}`;
+      row.tenantId = null;
+      const token = nameToken(input.name);
+      row.topFailingApps = row.topFailingApps?.map((a) => ({ ...a, appName: redact(a.appName, token) })) ?? null;
+    }
+  }
+
+  return {
+    pool: {
+      tenants: inputs.length,
+      sessions: allSessions.length,
+      terminalSessions: poolTerminal,
+      successRatePct: poolSuccess === null ? null : round1(poolSuccess * 100),
+      medianDurationMinutes: poolMedianDuration === null ? null : round1(poolMedianDuration / 60),
+      espTimeoutRatePct: poolEspRate === null ? null : round1(poolEspRate * 100),
+      models: [...poolModels.entries()]
+        .filter(([, m]) => m.terminal > 0)
+        .sort((a, b) => b[1].terminal - a[1].terminal || a[0].localeCompare(b[0]))
+        .slice(0, MAX_POOL_MODELS)
+        .map(([model, m]) => {
+          const d = median(m.durations);
+          return {
+            model,
+            terminalSessions: m.terminal,
+            successRatePct: round1((m.succeeded / m.terminal) * 100),
+            medianDurationMinutes: d === null ? null : round1(d / 60),
+          };
+        }),
+    },
+    tenants: ordered.map((r) => r.row),
+  };
+}
+
+function csvCell(value: string | number | null): string {
+  const text = value === null ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** CSV export of a benchmark — one row per tenant, failing apps joined into one cell. */
+export function benchmarkToCsv(result: BenchmarkResult): string {
+  const header = [
+    "Rank", "Percentile", "Tenant", "Sessions", "Terminal sessions", "Models",
+    "Success rate %", "Expected success rate %", "Adjusted success rate %",
+    "Median duration (min)", "Duration index", "Adjusted median duration (min)",
+    "ESP timeouts", "ESP timeout rate %", "Adjusted ESP timeout rate %", "Top failing apps",
+  ];
+  const rows = result.tenants.map((t) => [
+    t.rank, t.percentile, t.label, t.sessions, t.terminalSessions, t.models,
+    t.successRatePct, t.expectedSuccessRatePct, t.adjustedSuccessRatePct,
+    t.medianDurationMinutes, t.durationIndex, t.adjustedMedianDurationMinutes,
+    t.espTimeouts, t.espTimeoutRatePct, t.adjustedEspTimeoutRatePct,
+    t.topFailingApps?.map((a) => `${a.appName} (${a.failed})`).join("; ") ?? null,
+  ]);
+  return [header, ...rows].map((r) => r.map(csvCell).join(",")).join("\n") + "\n";
+}
@@ -1,11 +1,13 @@
 "use client";
 
-import { useMemo } from "react";
+import { useMemo, useState } from "react";
 import Link from "next/link";
 import { useAuth } from "@/contexts/AuthContext";
 import { useTenantList, type TenantInfo } from "@/hooks/useTenantList";
 import { useFleetSummaries } from "./hooks/useFleetSummaries";
+import { useFleetBenchmark } from "./hooks/useFleetBenchmark";
 import { computeFleetRollup, type FleetSummary } from "./lib/fleetRollup";
+import { benchmarkToCsv, computeTenantBenchmark, type TenantBenchmark } from "./lib/tenantBenchmark";
 
 const DAYS = 30;
 
@@ -17,6 +19,10 @@ const DAYS = 30;
  * out (bounded) over the Phase-2a single-tenant `/global/stats/sessions?tenantId=` endpoint — no all-tenants
  * code path. Cards are triage-ordered (most failures first). This is a pure stats overview; a card drills the
  * tenant into the dashboard (`/dashboard?tenant=<id>`), the cross-tenant bounded session browser.
+ *
+ * The Benchmark view ranks the same tenants against each other (model-mix adjusted, see tenantBenchmark)
+ * so an MSP can show a customer where it stands. On screen the admin sees their own tenants by name; the
+ * CSV export keeps only the selected customer's name and labels everyone else "Peer N".
  */
 export default function FleetPage() {
   const { user } = useAuth();
@@ -33,6 +39,7 @@ export default function FleetPage() {
   );
   const tenantIds = useMemo(() => myTenants.map((t) => t.tenantId), [myTenants]);
 
+  const [view, setView] = useState<"overview" | "benchmark">("overview");
   const { summaries, loading } = useFleetSummaries(tenantIds, DAYS);
   const rollup = useMemo(() => computeFleetRollup(Object.values(summaries)), [summaries]);
 
@@ -64,29 +71,190 @@ export default function FleetPage() {
         </p>
       </div>
 
-      {/* Roll-up */}
-      <div className="mb-6 grid grid-cols-2 gap-3 sm:grid-cols-4">
-        <RollupTile label="Tenants" value={String(myTenants.length)} />
-        <RollupTile label="Active sessions" value={String(rollup.activeCount)} />
-        <RollupTile label="Failed" value={String(rollup.failedLastNDays)} tone={rollup.failedLastNDays > 0 ? "danger" : "default"} />
-        <RollupTile label="Success rate" value={`${rollup.successRatePct}%`} tone={successTone(rollup.successRatePct, rollup.succeededLastNDays + rollup.failedLastNDays)} />
+      <div className="mb-6 inline-flex rounded-md border border-gray-200 dark:border-gray-700">
+        {(["overview", "benchmark"] as const).map((v) => (
+          <button
+            key={v}
+            type="button"
+            onClick={() => setView(v)}
+            className={`px-4 py-1.5 text-sm font-medium capitalize first:rounded-l-md last:rounded-r-md ${
+              view === v
+                ? "bg-blue-600 text-white"
+                : "bg-white text-gray-700 hover:bg-gray-50 dark:bg-gray-800 dark:text-gray-300 dark:hover:bg-gray-700"
+            }`}
+          >
+            {v}
+          </button>
+        ))}
       </div>
 
-      {myTenants.length === 0 ? (
-        <div className="rounded-lg border border-dashed border-gray-300 p-10 text-center text-gray-500 dark:border-gray-700 dark:text-gray-400">
-          No managed tenants yet. Once tenants are delegated to you, they appear here.
-        </div>
+      {view === "benchmark" ? (
+        <BenchmarkView tenants={myTenants} />
       ) : (
-        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
-          {ordered.map((t) => (
-            <FleetCard key={t.tenantId} tenant={t} summary={summaries[t.tenantId]} />
-          ))}
-        </div>
+        <>
+          {/* Roll-up */}
+          <div className="mb-6 grid grid-cols-2 gap-3 sm:grid-cols-4">
+            <RollupTile label="Tenants" value={String(myTenants.length)} />
+            <RollupTile label="Active sessions" value={String(rollup.activeCount)} />
+            <RollupTile label="Failed" value={String(rollup.failedLastNDays)} tone={rollup.failedLastNDays > 0 ? "danger" : "default"} />
+            <RollupTile label="Success rate" value={`${rollup.successRatePct}%`} tone={successTone(rollup.successRatePct, rollup.succeededLastNDays + rollup.failedLastNDays)} />
+          </div>
+
+          {myTenants.length === 0 ? (
+            <div className="rounded-lg border border-dashed border-gray-300 p-10 text-center text-gray-500 dark:border-gray-700 dark:text-gray-400">
+              No managed tenants yet. Once tenants are delegated to you, they appear here.
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {ordered.map((t) => (
+                <FleetCard key={t.tenantId} tenant={t} summary={summaries[t.tenantId]} />
+              ))}
+            </div>
+          )}
+        </>
       )}
     </div>
   );
 }
 
+/**
+ * Peer ranking across the managed tenants. Session rows are only fetched while this view is mounted.
+ * The focus tenant ("prepared for") is highlighted on screen and is the only one named in the export.
+ */
+function BenchmarkView({ tenants }: { tenants: TenantInfo[] }) {
+  const [focusTenantId, setFocusTenantId] = useState("");
+  const { inputs, loading } = useFleetBenchmark(tenants, DAYS, tenants.length >= 2);
+  const result = useMemo(
+    () => computeTenantBenchmark(inputs, { focusTenantId: focusTenantId || undefined }),
+    [inputs, focusTenantId]
+  );
+
+  const exportCsv = () => {
+    const anonymized = computeTenantBenchmark(inputs, { focusTenantId: focusTenantId || undefined, anonymize: true });
+    const blob = new Blob([benchmarkToCsv(anonymized)], { type: "text/csv;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `tenant-benchmark-${new Date().toISOString().slice(0, 10)}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  if (tenants.length < 2) {
+    return (
+      <div className="rounded-lg border border-dashed border-gray-300 p-10 text-center text-gray-500 dark:border-gray-700 dark:text-gray-400">
+        Benchmarking needs at least two managed tenants.
+      </div>
+    );
+  }
+
+  const { pool } = result;
+  return (
+    <div>
+      <div className="mb-4 flex flex-wrap items-center gap-3">
+        <label className="text-sm text-gray-600 dark:text-gray-300">
+          Prepared for{" "}
+          <select
+            value={focusTenantId}
+            onChange={(e) => setFocusTenantId(e.target.value)}
+            className="ml-1 rounded-md border border-gray-300 bg-white px-2 py-1 text-sm dark:border-gray-600 dark:bg-gray-800 dark:text-white"
+          >
+            <option value="">— no customer —</option>
+            {tenants.map((t) => (
+              <option key={t.tenantId} value={t.tenantId}>
+                {t.domainName || t.tenantId}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="button"
+          onClick={exportCsv}
+          disabled={loading || inputs.length === 0}
+          className="rounded-md border border-gray-300 bg-white px-3 py-1 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-200 dark:hover:bg-gray-700"
+        >
+          Export CSV (anonymized)
+        </button>
+        {loading && <span className="text-sm text-gray-400">Loading sessions…</span>}
+      </div>
+
+      <div className="mb-4 grid grid-cols-2 gap-3 sm:grid-cols-4">
+        <RollupTile label="Peer sessions" value={String(pool.terminalSessions)} />
+        <RollupTile label="Pool success rate" value={pct(pool.successRatePct)} />
+        <RollupTile label="Pool median time" value={minutes(pool.medianDurationMinutes)} />
+        <RollupTile label="Pool ESP timeouts" value={pct(pool.espTimeoutRatePct)} />
+      </div>
+
+      <div className="overflow-x-auto rounded-lg border border-gray-200 bg-white dark:border-gray-700 dark:bg-gray-800">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 text-left text-xs uppercase tracking-wider text-gray-500 dark:bg-gray-900 dark:text-gray-400">
+            <tr>
+              <th className="px-3 py-2">Rank</th>
+              <th className="px-3 py-2">Tenant</th>
+              <th className="px-3 py-2 text-right">Sessions</th>
+              <th className="px-3 py-2 text-right" title="Model-mix adjusted (raw in brackets)">Success</th>
+              <th className="px-3 py-2 text-right" title="Model-mix adjusted (raw in brackets)">Median time</th>
+              <th className="px-3 py-2 text-right" title="Model-mix adjusted (raw in brackets)">ESP timeouts</th>
+              <th className="px-3 py-2">Top failing apps</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+            {result.tenants.map((t) => (
+              <BenchmarkRow key={t.tenantId ?? t.label} row={t} />
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="mt-2 text-xs text-gray-400 dark:text-gray-500">
+        Adjusted values compare each tenant with what the peer pool achieves on the same device models.
+        Tenants with fewer than 10 finished sessions are listed but not ranked.
+      </p>
+    </div>
+  );
+}
+
+function BenchmarkRow({ row }: { row: TenantBenchmark }) {
+  return (
+    <tr className={row.isFocus ? "bg-blue-50 dark:bg-blue-900/20" : undefined}>
+      <td className="px-3 py-2 text-gray-900 dark:text-white">
+        {row.rank ?? "—"}
+        {row.percentile != null && <span className="ml-1 text-xs text-gray-400">P{row.percentile}</span>}
+      </td>
+      <td className="px-3 py-2 font-medium text-gray-900 dark:text-white">
+        {row.label}
+        {row.truncated && <span className="ml-1 text-xs text-amber-600" title="Only the most recent sessions were loaded">(partial)</span>}
+      </td>
+      <td className="px-3 py-2 text-right text-gray-700 dark:text-gray-300">{row.terminalSessions}</td>
+      <td className="px-3 py-2 text-right text-gray-700 dark:text-gray-300">
+        {pct(row.adjustedSuccessRatePct)} <span className="text-xs text-gray-400">({pct(row.successRatePct)})</span>
+      </td>
+      <td className="px-3 py-2 text-right text-gray-700 dark:text-gray-300">
+        {minutes(row.adjustedMedianDurationMinutes)} <span className="text-xs text-gray-400">({minutes(row.medianDurationMinutes)})</span>
+      </td>
+      <td className="px-3 py-2 text-right text-gray-700 dark:text-gray-300">
+        {pct(row.adjustedEspTimeoutRatePct)} <span className="text-xs text-gray-400">({row.espTimeouts})</span>
+      </td>
+      <td className="px-3 py-2 text-gray-700 dark:text-gray-300">
+        {row.topFailingApps == null
+          ? "—"
+          : row.topFailingApps.length === 0
+            ? "None"
+            : row.topFailingApps.map((a) => `${a.appName} (${a.failed})`).join(", ")}
+      </td>
+    </tr>
+  );
+}
+
+function pct(value: number | null): string {
+  return value == null ? "—" : `${value}%`;
+}
+
+function minutes(value: number | null): string {
+  return value == null ? "—" : `${value} min`;
+}
+
 type Tone = "default" | "danger";
 
 /**
@@ -2,6 +2,7 @@
 
 import { useEffect, useState, useCallback } from "react";
 import { useRouter } from "next/navigation";
+import Link from "next/link";
 import { ProtectedRoute } from "../../components/ProtectedRoute";
 import { useTenant } from "../../contexts/TenantContext";
 import { useAuth } from "../../contexts/AuthContext";
@@ -211,11 +212,19 @@ export default function ImeLogPatternsPage() {
         {/* Header */}
         <header className="bg-white shadow">
           <div className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
-            <div>
-              <h1 className="text-2xl font-normal text-gray-900">IME Log Patterns</h1>
-              <p className="text-sm text-gray-600 mt-1">
-                Regex patterns used by the agent to parse Intune Management Extension logs during enrollment tracking.
-              </p>
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <h1 className="text-2xl font-normal text-gray-900">IME Log Patterns</h1>
+                <p className="text-sm text-gray-600 mt-1">
+                  Regex patterns used by the agent to parse Intune Management Extension logs during enrollment tracking.
+                </p>
+              </div>
+              <Link
+                href="/ime-log-patterns/test"
+                className="flex-shrink-0 px-4 py-2 text-sm font-medium rounded-md bg-blue-600 text-white hover:bg-blue-700"
+              >
+                Test Against a Log
+              </Link>
             </div>
           </div>
         </header>
@@ -0,0 +1,307 @@
+"use client";
+
+import { useEffect, useMemo, useState, useCallback, useDeferredValue } from "react";
+import Link from "next/link";
+import { ProtectedRoute } from "../../../components/ProtectedRoute";
+import { useTenant } from "../../../contexts/TenantContext";
+import { api } from "@/lib/api";
+import { useAuthenticatedFetch, useNotificationMessages } from "@/hooks";
+import { downloadAsJson } from "@/lib/rulePageHelpers";
+import { StatCard } from "@/components/rules/StatCard";
+import { runImeLogHarness, HarnessLineResult } from "@/lib/imeLogPatternHarness";
+import { ImeLogPattern, ACTION_LABELS, CATEGORY_COLORS, CATEGORY_LABELS } from "../types";
+
+/** Rendering thousands of rows freezes the page — show the first N of the filtered view. */
+const MAX_RENDERED_LINES = 500;
+
+type LineFilter = "all" | "matched" | "unmatched";
+
+export default function ImeLogPatternTestPage() {
+  const { tenantId } = useTenant();
+  const { error, showError } = useNotificationMessages();
+
+  const { data: patterns, loading, execute: fetchPatternsExec } = useAuthenticatedFetch<ImeLogPattern[]>({
+    onError: (err) => showError(err.message),
+    onTokenExpired: (err) => showError(err.message),
+  });
+
+  const [logText, setLogText] = useState("");
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [includeDisabled, setIncludeDisabled] = useState(false);
+  const [lineFilter, setLineFilter] = useState<LineFilter>("all");
+  const [patternFilter, setPatternFilter] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+
+  const fetchPatterns = useCallback(async () => {
+    if (!tenantId) return;
+    await fetchPatternsExec(
+      api.rules.imeLogPatterns(),
+      undefined,
+      { transform: (d) => { const r = d as { success?: boolean; patterns?: ImeLogPattern[] }; return r.success && Array.isArray(r.patterns) ? r.patterns : []; } }
+    );
+  }, [tenantId, fetchPatternsExec]);
+
+  useEffect(() => {
+    fetchPatterns();
+  }, [fetchPatterns]);
+
+  // Re-running every pattern over a large log on each keystroke is expensive — defer it.
+  const deferredLogText = useDeferredValue(logText);
+  const report = useMemo(
+    () => (deferredLogText.trim() ? runImeLogHarness(deferredLogText, patterns || [], { includeDisabled }) : null),
+    [deferredLogText, patterns, includeDisabled]
+  );
+
+  const visibleLines = useMemo(() => {
+    if (!report) return [];
+    const q = searchQuery.toLowerCase();
+    return report.lines.filter((l) => {
+      if (lineFilter === "matched" && l.matches.length === 0) return false;
+      if (lineFilter === "unmatched" && l.matches.length > 0) return false;
+      if (patternFilter && !l.matches.some((m) => m.patternId === patternFilter)) return false;
+      if (q && !l.message.toLowerCase().includes(q)) return false;
+      return true;
+    });
+  }, [report, lineFilter, patternFilter, searchQuery]);
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setLogText(await file.text());
+    setPatternFilter(null);
+  };
+
+  const handleExportCoverage = () => {
+    if (!report) return;
+    downloadAsJson(
+      {
+        source: fileName ?? "pasted log",
+        includeDisabled,
+        totalEntries: report.totalEntries,
+        matchedEntries: report.matchedEntries,
+        multiMatchEntries: report.multiMatchEntries,
+        lineCoveragePercent: report.lineCoveragePercent,
+        actionCounts: report.actionCounts,
+        patterns: report.patterns,
+        unusedPatternIds: report.unusedPatternIds,
+        invalidPatterns: report.invalidPatterns,
+      },
+      `ime-pattern-coverage-${new Date().toISOString().slice(0, 10)}.json`
+    );
+  };
+
+  const renderLine = (l: HarnessLineResult) => (
+    <div key={l.line} className={`px-4 py-2 border-b border-gray-100 ${l.matches.length === 0 ? "bg-amber-50" : ""}`}>
+      <div className="flex items-start gap-3">
+        <span className="text-xs text-gray-400 font-mono w-12 text-right flex-shrink-0 pt-0.5">{l.line}</span>
+        <div className="min-w-0 flex-1">
+          <div className="font-mono text-xs text-gray-800 whitespace-pre-wrap break-all">{l.message}</div>
+          {(l.localTimestamp || l.component) && (
+            <div className="text-xs text-gray-400 mt-0.5">
+              {l.localTimestamp}{l.component ? ` · ${l.component}` : ""}
+            </div>
+          )}
+          {l.matches.map((m) => {
+            const colors = CATEGORY_COLORS[m.category] || { bg: "bg-gray-100", text: "text-gray-700" };
+            return (
+              <div key={m.patternId} className="mt-1.5 flex flex-wrap items-center gap-1.5">
+                <button
+                  onClick={() => setPatternFilter(m.patternId)}
+                  className={`px-2 py-0.5 text-xs font-medium rounded ${colors.bg} ${colors.text} hover:opacity-80`}
+                  title={CATEGORY_LABELS[m.category] || m.category}
+                >
+                  {m.patternId}
+                </button>
+                <span className="px-2 py-0.5 text-xs rounded bg-gray-100 text-gray-700">
+                  {ACTION_LABELS[m.action] || m.action}
+                </span>
+                {Object.entries(m.groups).map(([k, v]) => (
+                  <span key={k} className="px-2 py-0.5 text-xs rounded border border-gray-200 font-mono text-gray-700">
+                    {k}=<span className="text-indigo-700">{v}</span>
+                  </span>
+                ))}
+                {Object.entries(m.parameters).map(([k, v]) => (
+                  <span key={`p-${k}`} className="px-2 py-0.5 text-xs rounded border border-dashed border-gray-300 font-mono text-gray-500" title="Pattern parameter">
+                    {k}: {v}
+                  </span>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gray-50">
+        {/* Header */}
+        <header className="bg-white shadow">
+          <div className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+            <Link href="/ime-log-patterns" className="text-sm text-blue-600 hover:underline">
+              ← IME Log Patterns
+            </Link>
+            <h1 className="text-2xl font-normal text-gray-900 mt-1">IME Log Pattern Tester</h1>
+            <p className="text-sm text-gray-600 mt-1">
+              Run the patterns against an IntuneManagementExtension or AppWorkload log the way the agent does and see which
+              pattern matched each line, the captured groups and the resulting action. Everything runs in your browser — the log is not uploaded.
+            </p>
+          </div>
+        </header>
+
+        {/* Main Content */}
+        <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {loading ? (
+            <div className="bg-white rounded-lg shadow p-8 text-center">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600 mx-auto"></div>
+              <p className="mt-4 text-gray-600">Loading IME log patterns...</p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {/* Error Message */}
+              {error && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-center space-x-3">
+                  <svg className="w-5 h-5 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                  </svg>
+                  <span className="text-red-800">{error}</span>
+                </div>
+              )}
+
+              {/* Log Input */}
+              <div className="bg-white rounded-lg shadow p-6 space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Upload log file</label>
+                  <input
+                    type="file"
+                    accept=".log,.txt"
+                    onChange={handleFileUpload}
+                    className="w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">…or paste log content</label>
+                  <textarea
+                    value={logText}
+                    onChange={(e) => { setLogText(e.target.value); setFileName(null); }}
+                    rows={8}
+                    placeholder='<![LOG[[Win32App] In EspPhase: DeviceSetup]LOG]!><time="10:00:05.1234567" date="2-8-2026" component="AppWorkload" ...>'
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-xs text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input type="checkbox" checked={includeDisabled} onChange={(e) => setIncludeDisabled(e.target.checked)} className="rounded border-gray-300" />
+                  Include disabled patterns (the agent skips them)
+                </label>
+              </div>
+
+              {report && (
+                <>
+                  {/* Summary Stats */}
+                  <div className="grid grid-cols-2 sm:grid-cols-5 gap-4">
+                    <StatCard label="Log Entries" value={report.totalEntries} />
+                    <StatCard label="Matched" value={report.matchedEntries} valueColor="text-emerald-600" />
+                    <StatCard label="Unmatched" value={report.totalEntries - report.matchedEntries} valueColor="text-amber-600" />
+                    <StatCard label="Line Coverage" value={`${report.lineCoveragePercent}%`} valueColor="text-blue-600" />
+                    <StatCard label="Patterns Hit" value={`${report.patterns.length - report.unusedPatternIds.length} / ${report.patterns.length}`} valueColor="text-purple-600" />
+                  </div>
+
+                  {report.invalidPatterns.length > 0 && (
+                    <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+                      <p className="text-sm font-medium text-red-800 mb-1">Patterns that do not compile as JavaScript regex (skipped):</p>
+                      <ul className="text-xs text-red-700 font-mono space-y-0.5">
+                        {report.invalidPatterns.map((p) => <li key={p.patternId}>{p.patternId}: {p.error}</li>)}
+                      </ul>
+                    </div>
+                  )}
+
+                  {/* Line Results */}
+                  <div className="bg-white rounded-lg shadow">
+                    <div className="px-4 py-3 border-b border-gray-200 flex flex-wrap items-center gap-3">
+                      <select
+                        value={lineFilter}
+                        onChange={(e) => setLineFilter(e.target.value as LineFilter)}
+                        className="px-3 py-1.5 border border-gray-300 rounded-md text-sm text-gray-900"
+                      >
+                        <option value="all">All lines</option>
+                        <option value="matched">Matched only</option>
+                        <option value="unmatched">Unmatched only</option>
+                      </select>
+                      <input
+                        type="text"
+                        value={searchQuery}
+                        onChange={(e) => setSearchQuery(e.target.value)}
+                        placeholder="Search log text..."
+                        className="flex-1 min-w-[12rem] px-3 py-1.5 border border-gray-300 rounded-md text-sm text-gray-900"
+                      />
+                      {patternFilter && (
+                        <button onClick={() => setPatternFilter(null)} className="px-2 py-1 text-xs rounded bg-indigo-100 text-indigo-700 hover:bg-indigo-200">
+                          Pattern: {patternFilter} ✕
+                        </button>
+                      )}
+                      <span className="text-xs text-gray-500">
+                        {visibleLines.length > MAX_RENDERED_LINES
+                          ? `Showing first ${MAX_RENDERED_LINES} of ${visibleLines.length} entries`
+                          : `${visibleLines.length} entries`}
+                      </span>
+                    </div>
+                    <div className="max-h-[36rem] overflow-y-auto">
+                      {visibleLines.length === 0 ? (
+                        <p className="px-4 py-6 text-sm text-gray-500 text-center">No entries match the current filter.</p>
+                      ) : (
+                        visibleLines.slice(0, MAX_RENDERED_LINES).map(renderLine)
+                      )}
+                    </div>
+                  </div>
+
+                  {/* Coverage Report */}
+                  <div className="bg-white rounded-lg shadow">
+                    <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+                      <h2 className="text-lg font-medium text-gray-900">Pattern Coverage</h2>
+                      <button onClick={handleExportCoverage} className="px-3 py-1.5 text-sm rounded-md bg-blue-600 text-white hover:bg-blue-700">
+                        Export Coverage
+                      </button>
+                    </div>
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full text-sm">
+                        <thead className="bg-gray-50 text-xs text-gray-500 uppercase">
+                          <tr>
+                            <th className="px-4 py-2 text-left">Pattern</th>
+                            <th className="px-4 py-2 text-left">Category</th>
+                            <th className="px-4 py-2 text-left">Action</th>
+                            <th className="px-4 py-2 text-right">Hits</th>
+                            <th className="px-4 py-2 text-right">First Line</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                          {report.patterns.map((p) => (
+                            <tr
+                              key={p.patternId}
+                              onClick={() => p.hits > 0 && setPatternFilter(p.patternId)}
+                              className={p.hits === 0 ? "text-gray-400" : "cursor-pointer hover:bg-gray-50"}
+                            >
+                              <td className="px-4 py-1.5 font-mono text-xs">
+                                {p.patternId}
+                                {!p.enabled && <span className="ml-2 text-gray-400">(disabled)</span>}
+                              </td>
+                              <td className="px-4 py-1.5">{CATEGORY_LABELS[p.category] || p.category}</td>
+                              <td className="px-4 py-1.5">{ACTION_LABELS[p.action] || p.action}</td>
+                              <td className="px-4 py-1.5 text-right">{p.hits}</td>
+                              <td className="px-4 py-1.5 text-right">{p.firstLine ?? "—"}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+        </main>
+      </div>
+    </ProtectedRoute>
+  );
+}
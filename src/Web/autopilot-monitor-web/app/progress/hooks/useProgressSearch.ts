@@ -5,6 +5,7 @@ import { api } from "@/lib/api";
 import { authenticatedFetch, TokenExpiredError } from "@/lib/authenticatedFetch";
 import { trackEvent } from "@/lib/appInsights";
 import { Session } from "@/types";
+import { findSessionBySerial } from "@/lib/progressWallboard";
 import type { NotificationType } from "@/contexts/NotificationContext";
 
 type AddNotification = (
@@ -74,19 +75,7 @@ export function useProgressSearch({
         const data = await response.json();
         const sessions: Session[] = data.sessions || [];
 
-        const query = serialInput.trim().toLowerCase();
-        const found = sessions
-          .filter(
-            (s) =>
-              s.serialNumber.toLowerCase() === query ||
-              s.serialNumber.toLowerCase().includes(query) ||
-              s.deviceName?.toLowerCase().includes(query),
-          )
-          .sort(
-            (a, b) =>
-              new Date(b.startedAt).getTime() -
-              new Date(a.startedAt).getTime(),
-          )[0];
+        const found = findSessionBySerial(sessions, serialInput);
 
         if (found) {
           setSession(found);
@@ -0,0 +1,128 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { api } from "@/lib/api";
+import { authenticatedFetch, TokenExpiredError } from "@/lib/authenticatedFetch";
+import { Session } from "@/types";
+
+interface SignalRApi {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  on: (event: string, handler: (...args: any[]) => void) => void;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  off: (event: string, handler: (...args: any[]) => void) => void;
+  isConnected: boolean;
+  joinGroup: (group: string) => Promise<void>;
+  leaveGroup: (group: string) => Promise<void>;
+}
+
+interface UseWallboardSessionsParams {
+  tenantId: string;
+  getAccessToken: (forceRefresh?: boolean) => Promise<string | null>;
+  signalR: SignalRApi;
+  enabled: boolean;
+}
+
+export interface UseWallboardSessionsReturn {
+  sessions: Session[];
+  loading: boolean;
+  error: string | null;
+  lastUpdatedAt: number | null;
+  /** Per-session counter bumped on every realtime signal — tiles refetch their events on change. */
+  activity: Record<string, number>;
+}
+
+/** Safety-net refresh for wall screens left running for hours (dropped SignalR, sleeping tabs). */
+const POLL_INTERVAL_MS = 60_000;
+/** With 30-50 devices enrolling, tenant signals arrive continuously — refetch at most this often. */
+const REFETCH_THROTTLE_MS = 3_000;
+
+/**
+ * Owns the wallboard's session list:
+ *  - fetches the tenant's progress sessions, then polls every minute
+ *  - joins the tenant group (which carries `newevents` for every session, so no
+ *    per-session groups are needed) and throttles a refetch on each signal
+ *  - counts signals per session so only tiles with new events refetch them
+ *  - keeps the last good list on errors instead of blanking the board
+ */
+export function useWallboardSessions({
+  tenantId,
+  getAccessToken,
+  signalR,
+  enabled,
+}: UseWallboardSessionsParams): UseWallboardSessionsReturn {
+  const { on, off, isConnected, joinGroup, leaveGroup } = signalR;
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [lastUpdatedAt, setLastUpdatedAt] = useState<number | null>(null);
+  const [activity, setActivity] = useState<Record<string, number>>({});
+  const refetchTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const fetchSessions = useCallback(async () => {
+    if (!tenantId) return;
+    try {
+      const response = await authenticatedFetch(api.progress.sessions(tenantId), getAccessToken);
+      if (response.ok) {
+        const data = await response.json();
+        setSessions(data.sessions || []);
+        setLastUpdatedAt(Date.now());
+        setError(null);
+      } else {
+        setError(`Failed to load sessions: ${response.statusText}`);
+      }
+    } catch (err) {
+      if (err instanceof TokenExpiredError) {
+        setError(err.message);
+      } else {
+        console.error("[Wallboard] Session fetch failed:", err);
+        setError("Backend not reachable — showing the last known state.");
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [tenantId, getAccessToken]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    fetchSessions();
+    const id = setInterval(fetchSessions, POLL_INTERVAL_MS);
+    return () => clearInterval(id);
+  }, [enabled, fetchSessions]);
+
+  useEffect(() => {
+    if (!enabled || !isConnected || !tenantId) return;
+    const group = `tenant-${tenantId}`;
+    joinGroup(group);
+    return () => {
+      leaveGroup(group);
+    };
+  }, [enabled, isConnected, tenantId, joinGroup, leaveGroup]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const handleSignal = (data: { sessionId?: string }) => {
+      if (data?.sessionId) {
+        const sessionId = data.sessionId;
+        setActivity((prev) => ({ ...prev, [sessionId]: (prev[sessionId] ?? 0) + 1 }));
+      }
+      if (refetchTimerRef.current) return;
+      refetchTimerRef.current = setTimeout(() => {
+        refetchTimerRef.current = null;
+        fetchSessions();
+      }, REFETCH_THROTTLE_MS);
+    };
+
+    on("newevents", handleSignal);
+    on("newSession", handleSignal);
+    return () => {
+      off("newevents", handleSignal);
+      off("newSession", handleSignal);
+      if (refetchTimerRef.current) {
+        clearTimeout(refetchTimerRef.current);
+        refetchTimerRef.current = null;
+      }
+    };
+  }, [enabled, on, off, fetchSessions]);
+
+  return { sessions, loading, error, lastUpdatedAt, activity };
+}
@@ -0,0 +1,58 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { api } from "@/lib/api";
+import { authenticatedFetch } from "@/lib/authenticatedFetch";
+import type { BootstrapBatch } from "@/lib/progressWallboard";
+
+interface UseWallboardTargetsParams {
+  tenantId: string;
+  getAccessToken: (forceRefresh?: boolean) => Promise<string | null>;
+}
+
+export interface UseWallboardTargetsReturn {
+  /** Tenant's `slaTargetMaxDurationMinutes`; null when unset or not readable. */
+  tenantSlaMinutes: number | null;
+  /** Bootstrap codes the caller may list; null when the role can't read them. */
+  batches: BootstrapBatch[] | null;
+}
+
+/**
+ * Best-effort reads of the tenant settings the wallboard can default from. Both
+ * endpoints are role-gated (tenant config: admins/readers, bootstrap codes: bootstrap
+ * managers) while the wallboard itself is open to every portal user, so a 403 just
+ * means "not available" — the URL parameters still work.
+ */
+export function useWallboardTargets({ tenantId, getAccessToken }: UseWallboardTargetsParams): UseWallboardTargetsReturn {
+  const [tenantSlaMinutes, setTenantSlaMinutes] = useState<number | null>(null);
+  const [batches, setBatches] = useState<BootstrapBatch[] | null>(null);
+
+  useEffect(() => {
+    if (!tenantId) return;
+    let cancelled = false;
+
+    const load = async () => {
+      const [config, bootstrap] = await Promise.allSettled([
+        authenticatedFetch(api.config.tenant(tenantId), getAccessToken),
+        authenticatedFetch(api.bootstrap.sessions(tenantId), getAccessToken),
+      ]);
+      if (cancelled) return;
+
+      if (config.status === "fulfilled" && config.value.ok) {
+        const data = await config.value.json();
+        if (!cancelled) setTenantSlaMinutes(data.slaTargetMaxDurationMinutes ?? null);
+      }
+      if (bootstrap.status === "fulfilled" && bootstrap.value.ok) {
+        const data = await bootstrap.value.json();
+        if (!cancelled) setBatches(data.sessions || []);
+      }
+    };
+    load().catch((err) => console.error("[Wallboard] Failed to load tenant targets:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tenantId, getAccessToken]);
+
+  return { tenantSlaMinutes, batches };
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { api } from "@/lib/api";
+import { authenticatedFetch } from "@/lib/authenticatedFetch";
+import { EnrollmentEvent, Session } from "@/types";
+
+interface UseWallboardTileEventsParams {
+  session: Session | null;
+  tenantId: string;
+  getAccessToken: (forceRefresh?: boolean) => Promise<string | null>;
+  /** Bumped by realtime signals for this session; a change schedules a refetch. */
+  refreshKey: number;
+}
+
+/**
+ * Trailing debounce for refreshKey bumps — the progress page's scheduleFetchEvents window.
+ * An agent upload arrives as a burst of newevents signals; the tile refetches once after it.
+ */
+const REFETCH_DEBOUNCE_MS = 500;
+
+/**
+ * Events for one wallboard tile. Only in-progress sessions fetch — a finished tile
+ * needs nothing beyond the session summary, which keeps a 50-device board from
+ * pulling 50 event lists. Tiles are mounted only while their page is on screen.
+ */
+export function useWallboardTileEvents({
+  session,
+  tenantId,
+  getAccessToken,
+  refreshKey,
+}: UseWallboardTileEventsParams): EnrollmentEvent[] {
+  const [events, setEvents] = useState<EnrollmentEvent[]>([]);
+  // The refreshKey the current event list was fetched for; lags refreshKey by the debounce.
+  const [fetchedKey, setFetchedKey] = useState(refreshKey);
+  const sessionId = session?.sessionId ?? null;
+  const inProgress = session?.status === "InProgress";
+
+  useEffect(() => {
+    if (!sessionId || !inProgress) {
+      setEvents([]);
+      return;
+    }
+    let cancelled = false;
+    authenticatedFetch(api.progress.sessionEvents(sessionId, tenantId), getAccessToken)
+      .then(async (response) => {
+        if (!response.ok) return;
+        const data = await response.json();
+        if (!cancelled) setEvents(data.events || []);
+      })
+      .catch((err) => console.error(`[Wallboard] Event fetch failed for ${sessionId}:`, err));
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, inProgress, tenantId, getAccessToken, fetchedKey]);
+
+  useEffect(() => {
+    if (refreshKey === fetchedKey) return;
+    const timer = setTimeout(() => setFetchedKey(refreshKey), REFETCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [refreshKey, fetchedKey]);
+
+  return events;
+}
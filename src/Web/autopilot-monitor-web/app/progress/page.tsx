@@ -1,5 +1,7 @@
 "use client";
 
+import { useMemo } from "react";
+import Link from "next/link";
 import { useTenant } from "../../contexts/TenantContext";
 import { useAuth } from "../../contexts/AuthContext";
 import { useNotifications } from "../../contexts/NotificationContext";
@@ -9,6 +11,9 @@ import { useProgressSearch } from "./hooks/useProgressSearch";
 import { useProgressEvents } from "./hooks/useProgressEvents";
 import { useProgressSignalR } from "./hooks/useProgressSignalR";
 import { useProgressDerivedData } from "./hooks/useProgressDerivedData";
+import { effectivePhase, phaseSteps } from "./phaseSteps";
+import { useEnrollmentEtaBaselines } from "@/hooks/useEnrollmentEtaBaselines";
+import { EnrollmentEtaBadge } from "@/components/EnrollmentEtaBadge";
 
 function formatDuration(ms: number): string {
   const seconds = Math.floor(ms / 1000);
@@ -21,16 +26,6 @@ function formatDuration(ms: number): string {
   return `${hours}h ${remainingMinutes}m`;
 }
 
-const phaseSteps = [
-  { id: 0, label: "Setup start", shortLabel: "Start" },
-  { id: 1, label: "Device preparation", shortLabel: "Preparation" },
-  { id: 2, label: "Device setup", shortLabel: "Device" },
-  { id: 3, label: "Installing apps (device)", shortLabel: "Apps (D)" },
-  { id: 4, label: "Account setup", shortLabel: "Account" },
-  { id: 5, label: "Installing apps (user)", shortLabel: "Apps (U)" },
-  { id: 6, label: "Finalizing setup", shortLabel: "Complete" },
-];
-
 export default function ProgressPortalPage() {
   const { tenantId } = useTenant();
   const { getAccessToken } = useAuth();
@@ -73,6 +68,9 @@ export default function ProgressPortalPage() {
   const { appSummary, currentDownload, currentInstall, installElapsedMs, overallProgress } =
     useProgressDerivedData(events, session);
 
+  const etaSessions = useMemo(() => (session ? [session] : []), [session]);
+  const etaBaselines = useEnrollmentEtaBaselines({ tenantId, sessions: etaSessions, withAppHistory: true, getAccessToken });
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === "Enter") searchBySerial();
   };
@@ -168,6 +166,12 @@ export default function ProgressPortalPage() {
                 <p className="text-gray-500">
                   Enter your device serial number to check status
                 </p>
+                <Link
+                  href="/progress/wallboard"
+                  className="mt-2 inline-block text-xs text-blue-600 hover:text-blue-700"
+                >
+                  Staging many devices? Open the deployment wallboard
+                </Link>
               </div>
 
               {/* Search */}
@@ -252,6 +256,16 @@ export default function ProgressPortalPage() {
                     {session.deviceName || session.serialNumber} |{" "}
                     {session.manufacturer} {session.model}
                   </p>
+                  {session.status === "InProgress" && (
+                    <div className="mt-2">
+                      <EnrollmentEtaBadge
+                        session={session}
+                        events={events}
+                        baseline={etaBaselines.baselineFor(session)}
+                        appHistory={etaBaselines.appHistoryFor(session)}
+                      />
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -289,18 +303,15 @@ export default function ProgressPortalPage() {
                 {/* Phase Steps */}
                 <div className="space-y-3 mb-8">
                   {phaseSteps.map((step) => {
-                    const effectivePhase =
-                      session.currentPhase === 99
-                        ? 3
-                        : session.currentPhase;
+                    const currentPhase = effectivePhase(session);
                     const isCompleted =
                       (session.status === "Succeeded" && step.id <= 6) ||
-                      step.id < effectivePhase;
+                      step.id < currentPhase;
                     const isCurrent =
-                      step.id === effectivePhase &&
+                      step.id === currentPhase &&
                       session.status === "InProgress";
                     const isFailed =
-                      step.id === effectivePhase &&
+                      step.id === currentPhase &&
                       session.status === "Failed";
 
                     return (
@@ -0,0 +1,17 @@
+import type { Session } from "@/types";
+
+/** ESP phases shown by the progress portal and the wallboard tiles, in order. */
+export const phaseSteps = [
+  { id: 0, label: "Setup start", shortLabel: "Start" },
+  { id: 1, label: "Device preparation", shortLabel: "Preparation" },
+  { id: 2, label: "Device setup", shortLabel: "Device" },
+  { id: 3, label: "Installing apps (device)", shortLabel: "Apps (D)" },
+  { id: 4, label: "Account setup", shortLabel: "Account" },
+  { id: 5, label: "Installing apps (user)", shortLabel: "Apps (U)" },
+  { id: 6, label: "Finalizing setup", shortLabel: "Complete" },
+];
+
+/** Phase 99 (app install outside a known ESP phase) is displayed as device app install. */
+export function effectivePhase(session: Session): number {
+  return session.currentPhase === 99 ? 3 : session.currentPhase;
+}
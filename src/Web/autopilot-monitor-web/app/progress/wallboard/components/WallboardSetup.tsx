@@ -0,0 +1,171 @@
+"use client";
+
+import { useState } from "react";
+import {
+  MAX_WALLBOARD_SERIALS,
+  WALLBOARD_DEFAULTS,
+  parseSerialList,
+  type BootstrapBatch,
+  type WallboardConfig,
+} from "@/lib/progressWallboard";
+
+interface WallboardSetupProps {
+  initial: WallboardConfig;
+  batches: BootstrapBatch[] | null;
+  tenantSlaMinutes: number | null;
+  onStart: (config: WallboardConfig) => void;
+}
+
+function optionalNumber(raw: string): number | null {
+  const value = Number(raw);
+  return raw.trim() !== "" && Number.isFinite(value) && value > 0 ? value : null;
+}
+
+/** Builds the wallboard URL. Everything lives in the query string so a wall screen can bookmark it. */
+export function WallboardSetup({ initial, batches, tenantSlaMinutes, onStart }: WallboardSetupProps) {
+  const [serialText, setSerialText] = useState(initial.serials.join("\n"));
+  const [batch, setBatch] = useState(initial.batch ?? "");
+  const [sla, setSla] = useState(initial.slaMinutes?.toString() ?? "");
+  const [stall, setStall] = useState(initial.stallMinutes.toString());
+  const [rotate, setRotate] = useState(initial.rotateSeconds.toString());
+  const [tiles, setTiles] = useState(initial.pageSize.toString());
+  const [kiosk, setKiosk] = useState(initial.kiosk);
+
+  const serials = parseSerialList(serialText);
+  const canStart = serials.length > 0 || batch.trim() !== "";
+
+  const start = () =>
+    onStart({
+      serials,
+      batch: batch.trim() || null,
+      slaMinutes: optionalNumber(sla),
+      stallMinutes: optionalNumber(stall) ?? WALLBOARD_DEFAULTS.stallMinutes,
+      rotateSeconds: optionalNumber(rotate) ?? WALLBOARD_DEFAULTS.rotateSeconds,
+      pageSize: optionalNumber(tiles) ?? WALLBOARD_DEFAULTS.pageSize,
+      kiosk,
+    });
+
+  const now = Date.now();
+  const usableBatches = (batches ?? []).filter((b) => new Date(b.createdAt).getTime() <= now);
+
+  return (
+    <div className="mx-auto max-w-2xl px-4 py-8">
+      <h1 className="mb-1 text-2xl font-normal text-gray-900">Deployment Wallboard</h1>
+      <p className="mb-6 text-sm text-gray-500">
+        Track a whole staging run in one tiled view. The board rotates pages on its own and can be left
+        running full-screen — bookmark the link it opens.
+      </p>
+
+      <div className="space-y-5 rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+        <div>
+          <label htmlFor="wallboard-serials" className="mb-1 block text-sm font-medium text-gray-700">
+            Serial numbers or device names
+          </label>
+          <textarea
+            id="wallboard-serials"
+            rows={6}
+            value={serialText}
+            onChange={(e) => setSerialText(e.target.value)}
+            placeholder={"One per line, or separated by commas\n5CG1234ABC\n5CG1234ABD"}
+            className="w-full rounded-lg border border-gray-300 px-3 py-2 font-mono text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            {serials.length} device{serials.length === 1 ? "" : "s"} (max {MAX_WALLBOARD_SERIALS}). Serials without a
+            session yet show as waiting until the device registers.
+          </p>
+        </div>
+
+        <div>
+          <label htmlFor="wallboard-batch" className="mb-1 block text-sm font-medium text-gray-700">
+            Bootstrap batch
+          </label>
+          {batches !== null ? (
+            <select
+              id="wallboard-batch"
+              value={batch}
+              onChange={(e) => setBatch(e.target.value)}
+              className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+            >
+              <option value="">— none —</option>
+              {usableBatches.map((b) => (
+                <option key={b.shortCode} value={b.shortCode}>
+                  {b.label || b.shortCode} ({new Date(b.createdAt).toLocaleString()} –{" "}
+                  {new Date(b.expiresAt).toLocaleString()})
+                </option>
+              ))}
+            </select>
+          ) : (
+            <input
+              id="wallboard-batch"
+              type="text"
+              value={batch}
+              onChange={(e) => setBatch(e.target.value)}
+              placeholder="Bootstrap short code"
+              className="w-full rounded-lg border border-gray-300 px-3 py-2 font-mono text-sm"
+            />
+          )}
+          <p className="mt-1 text-xs text-gray-500">
+            Adds every session that started while the code was valid.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+          <NumberField
+            id="wallboard-sla"
+            label="SLA target (min)"
+            value={sla}
+            onChange={setSla}
+            placeholder={tenantSlaMinutes !== null ? `${tenantSlaMinutes} (tenant)` : "none"}
+          />
+          <NumberField id="wallboard-stall" label="Stalled after (min)" value={stall} onChange={setStall} />
+          <NumberField id="wallboard-rotate" label="Rotate every (s)" value={rotate} onChange={setRotate} />
+          <NumberField id="wallboard-tiles" label="Tiles per page" value={tiles} onChange={setTiles} />
+        </div>
+
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input type="checkbox" checked={kiosk} onChange={(e) => setKiosk(e.target.checked)} />
+          <span>Kiosk mode — hide navigation and cover the whole window</span>
+        </label>
+
+        <button
+          onClick={start}
+          disabled={!canStart}
+          className="w-full rounded-lg bg-blue-600 px-6 py-3 font-medium text-white transition-colors hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Start wallboard
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function NumberField({
+  id,
+  label,
+  value,
+  onChange,
+  placeholder,
+}: {
+  id: string;
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+}) {
+  return (
+    <div>
+      <label htmlFor={id} className="mb-1 block text-xs font-medium text-gray-600">
+        {label}
+      </label>
+      <input
+        id={id}
+        type="number"
+        min={1}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+"use client";
+
+import { formatDuration, formatThroughput } from "@/lib/formatting";
+import { tileHealth, type WallboardEntry } from "@/lib/progressWallboard";
+import { useProgressDerivedData } from "../../hooks/useProgressDerivedData";
+import { useWallboardTileEvents } from "../../hooks/useWallboardTileEvents";
+import { effectivePhase, phaseSteps } from "../../phaseSteps";
+
+interface WallboardTileProps {
+  entry: WallboardEntry;
+  nowMs: number;
+  slaMinutes: number | null;
+  stallMinutes: number;
+  tenantId: string;
+  getAccessToken: (forceRefresh?: boolean) => Promise<string | null>;
+  refreshKey: number;
+}
+
+/** One device on the wallboard: phase progress, current download, elapsed vs SLA and alerts. */
+export function WallboardTile({
+  entry,
+  nowMs,
+  slaMinutes,
+  stallMinutes,
+  tenantId,
+  getAccessToken,
+  refreshKey,
+}: WallboardTileProps) {
+  const { session } = entry;
+  const events = useWallboardTileEvents({ session, tenantId, getAccessToken, refreshKey });
+  const { appSummary, currentDownload, currentInstall } = useProgressDerivedData(events, session);
+
+  if (!session) {
+    return (
+      <div className="flex flex-col justify-center rounded-xl border-2 border-dashed border-gray-300 bg-white p-4">
+        <p className="truncate font-mono text-lg font-semibold text-gray-500">{entry.serial}</p>
+        <p className="mt-1 text-sm text-gray-400">Waiting for device to register…</p>
+      </div>
+    );
+  }
+
+  const health = tileHealth(session, nowMs, slaMinutes, stallMinutes);
+  const phase = effectivePhase(session);
+  const inProgress = session.status === "InProgress";
+  const inAppPhase = inProgress && (phase === 3 || phase === 5);
+
+  const border =
+    health.alert === "failed"
+      ? "border-red-500"
+      : health.alert === "stalled"
+      ? "border-amber-500"
+      : health.alert === "overSla"
+      ? "border-orange-400"
+      : session.status === "Succeeded"
+      ? "border-green-400"
+      : "border-blue-300";
+
+  const appTotal = appSummary?.total ?? currentInstall?.totalCount ?? 0;
+  const appsInstalled = appSummary?.installed ?? currentInstall?.completedCount ?? 0;
+  const downloadPercent =
+    currentDownload?.active && currentDownload.bytesTotal > 0
+      ? Math.min(100, (currentDownload.bytesDownloaded / currentDownload.bytesTotal) * 100)
+      : null;
+
+  return (
+    <div className={`flex flex-col rounded-xl border-2 bg-white p-4 shadow-sm ${border}`}>
+      {/* Device + status */}
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="truncate text-lg font-semibold text-gray-900">{session.deviceName || session.serialNumber}</p>
+          <p className="truncate text-xs text-gray-500">
+            {session.serialNumber} · {session.manufacturer} {session.model}
+          </p>
+        </div>
+        <span
+          className={`flex-shrink-0 rounded-full px-2 py-0.5 text-xs font-semibold ${
+            session.status === "Succeeded"
+              ? "bg-green-100 text-green-800"
+              : session.status === "Failed"
+              ? "bg-red-100 text-red-800"
+              : "bg-blue-100 text-blue-800"
+          }`}
+        >
+          {session.status === "Succeeded" ? "Done" : session.status === "Failed" ? "Failed" : "In progress"}
+        </span>
+      </div>
+
+      {/* Phase steps */}
+      <div className="mt-3">
+        <div className="flex gap-1">
+          {phaseSteps.map((step) => {
+            const done = session.status === "Succeeded" || step.id < phase;
+            const current = step.id === phase && inProgress;
+            const failed = step.id === phase && session.status === "Failed";
+            return (
+              <div
+                key={step.id}
+                title={step.label}
+                className={`h-2 flex-1 rounded-full ${
+                  done
+                    ? "bg-green-500"
+                    : failed
+                    ? "bg-red-500"
+                    : current
+                    ? "animate-pulse bg-blue-500"
+                    : "bg-gray-200"
+                }`}
+              />
+            );
+          })}
+        </div>
+        <p className="mt-1 text-sm text-gray-700">
+          {session.status === "Succeeded"
+            ? "Setup complete"
+            : phaseSteps.find((s) => s.id === phase)?.label ?? `Phase ${phase}`}
+          {inAppPhase && appTotal > 0 && (
+            <span className="text-gray-500">
+              {" "}
+              ({appsInstalled}/{appTotal} apps)
+            </span>
+          )}
+        </p>
+      </div>
+
+      {/* Current download / install */}
+      {inAppPhase && (
+        <div className="mt-2 min-h-[2.5rem] text-xs">
+          {currentDownload?.active && currentDownload.appName ? (
+            <>
+              <div className="flex justify-between gap-2 text-blue-700">
+                <span className="truncate font-medium">↓ {currentDownload.appName}</span>
+                <span className="flex-shrink-0 tabular-nums">
+                  {downloadPercent !== null && `${Math.round(downloadPercent)}%`}
+                  {currentDownload.downloadRateBps > 0 && ` · ${formatThroughput(currentDownload.downloadRateBps)}`}
+                </span>
+              </div>
+              {downloadPercent !== null && (
+                <div className="mt-1 h-1.5 w-full overflow-hidden rounded-full bg-blue-100">
+                  <div
+                    className="h-full rounded-full bg-blue-500 transition-all duration-500"
+                    style={{ width: `${downloadPercent}%` }}
+                  />
+                </div>
+              )}
+            </>
+          ) : currentInstall?.active && currentInstall.appName ? (
+            <p className="truncate text-blue-700">
+              <span className="font-medium">Installing</span> {currentInstall.appName}
+            </p>
+          ) : (
+            <p className="text-gray-400">Processing…</p>
+          )}
+        </div>
+      )}
+
+      {/* Elapsed vs SLA */}
+      <div className="mt-auto pt-3">
+        <div className="flex justify-between text-xs tabular-nums">
+          <span className="text-gray-600">{formatDuration(health.elapsedMs / 1000)}</span>
+          {slaMinutes !== null && (
+            <span className={health.slaRatio !== null && health.slaRatio > 1 ? "font-semibold text-orange-600" : "text-gray-400"}>
+              SLA {slaMinutes}m
+            </span>
+          )}
+        </div>
+        {health.slaRatio !== null && (
+          <div className="mt-1 h-1 w-full overflow-hidden rounded-full bg-gray-100">
+            <div
+              className={`h-full rounded-full ${
+                health.slaRatio > 1 ? "bg-orange-500" : health.slaRatio > 0.8 ? "bg-amber-400" : "bg-gray-400"
+              }`}
+              style={{ width: `${Math.min(100, health.slaRatio * 100)}%` }}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Alert */}
+      {health.alert && (
+        <div
+          className={`mt-3 rounded-md px-2 py-1 text-xs font-semibold ${
+            health.alert === "failed"
+              ? "bg-red-600 text-white"
+              : health.alert === "stalled"
+              ? "bg-amber-500 text-white"
+              : "bg-orange-100 text-orange-800"
+          }`}
+        >
+          {health.alert === "failed" ? (
+            <span className="line-clamp-2">⛔ {session.failureReason || "Setup failed"}</span>
+          ) : health.alert === "stalled" ? (
+            `⚠ Stalled — no events for ${formatDuration((health.idleMs ?? 0) / 1000)}`
+          ) : (
+            "⏱ Over SLA target"
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+"use client";
+
+import { Suspense, useEffect, useMemo, useRef, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useTenant } from "../../../contexts/TenantContext";
+import { useAuth } from "../../../contexts/AuthContext";
+import { useSignalR } from "../../../contexts/SignalRContext";
+import { ProtectedRoute } from "../../../components/ProtectedRoute";
+import { trackEvent } from "@/lib/appInsights";
+import {
+  parseWallboardConfig,
+  selectWallboardEntries,
+  summarizeWallboard,
+  tileHealth,
+  wallboardPage,
+  wallboardPageCount,
+  wallboardSearchParams,
+  type WallboardConfig,
+} from "@/lib/progressWallboard";
+import { useWallboardSessions } from "../hooks/useWallboardSessions";
+import { useWallboardTargets } from "../hooks/useWallboardTargets";
+import { WallboardSetup } from "./components/WallboardSetup";
+import { WallboardTile } from "./components/WallboardTile";
+
+/** Tiles recompute elapsed time / stall state on this clock, independent of incoming events. */
+const CLOCK_TICK_MS = 5_000;
+
+export default function ProgressWallboardPage() {
+  return (
+    <ProtectedRoute>
+      <Suspense
+        fallback={
+          <div className="flex h-screen items-center justify-center">
+            <div className="text-gray-600">Loading...</div>
+          </div>
+        }
+      >
+        <WallboardContent />
+      </Suspense>
+    </ProtectedRoute>
+  );
+}
+
+function WallboardContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { tenantId } = useTenant();
+  const { getAccessToken } = useAuth();
+  const signalR = useSignalR();
+
+  const config = useMemo(() => parseWallboardConfig(new URLSearchParams(searchParams.toString())), [searchParams]);
+  const configured = config.serials.length > 0 || config.batch !== null;
+  const editing = !configured || searchParams.get("edit") === "1";
+
+  const { tenantSlaMinutes, batches } = useWallboardTargets({ tenantId, getAccessToken });
+  const { sessions, loading, error, lastUpdatedAt, activity } = useWallboardSessions({
+    tenantId,
+    getAccessToken,
+    signalR,
+    enabled: !editing,
+  });
+
+  const start = (next: WallboardConfig) => {
+    trackEvent("progress_wallboard_started", { devices: next.serials.length, batch: next.batch !== null });
+    router.push(`/progress/wallboard?${wallboardSearchParams(next).toString()}`);
+  };
+
+  if (editing) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <WallboardSetup initial={config} batches={batches} tenantSlaMinutes={tenantSlaMinutes} onStart={start} />
+      </div>
+    );
+  }
+
+  return (
+    <Board
+      config={config}
+      sessions={sessions}
+      loading={loading}
+      error={error}
+      lastUpdatedAt={lastUpdatedAt}
+      activity={activity}
+      batches={batches}
+      slaMinutes={config.slaMinutes ?? tenantSlaMinutes}
+      live={signalR.isConnected}
+      tenantId={tenantId}
+      getAccessToken={getAccessToken}
+      onEdit={() => {
+        const params = wallboardSearchParams(config);
+        params.set("edit", "1");
+        router.push(`/progress/wallboard?${params.toString()}`);
+      }}
+    />
+  );
+}
+
+interface BoardProps {
+  config: WallboardConfig;
+  sessions: ReturnType<typeof useWallboardSessions>["sessions"];
+  loading: boolean;
+  error: string | null;
+  lastUpdatedAt: number | null;
+  activity: Record<string, number>;
+  batches: ReturnType<typeof useWallboardTargets>["batches"];
+  slaMinutes: number | null;
+  live: boolean;
+  tenantId: string;
+  getAccessToken: (forceRefresh?: boolean) => Promise<string | null>;
+  onEdit: () => void;
+}
+
+function Board({
+  config,
+  sessions,
+  loading,
+  error,
+  lastUpdatedAt,
+  activity,
+  batches,
+  slaMinutes,
+  live,
+  tenantId,
+  getAccessToken,
+  onEdit,
+}: BoardProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [nowMs, setNowMs] = useState(() => Date.now());
+  const [page, setPage] = useState(0);
+  const [fullscreen, setFullscreen] = useState(false);
+
+  useEffect(() => {
+    const id = setInterval(() => setNowMs(Date.now()), CLOCK_TICK_MS);
+    return () => clearInterval(id);
+  }, []);
+
+  useEffect(() => {
+    const onChange = () => setFullscreen(document.fullscreenElement !== null);
+    document.addEventListener("fullscreenchange", onChange);
+    return () => document.removeEventListener("fullscreenchange", onChange);
+  }, []);
+
+  const batch = useMemo(
+    () => (config.batch ? batches?.find((b) => b.shortCode.toLowerCase() === config.batch!.toLowerCase()) ?? null : null),
+    [config.batch, batches],
+  );
+  const entries = useMemo(
+    () => selectWallboardEntries(sessions, config.serials, batch),
+    [sessions, config.serials, batch],
+  );
+  const pageCount = wallboardPageCount(entries.length, config.pageSize);
+
+  useEffect(() => {
+    if (pageCount <= 1) {
+      setPage(0);
+      return;
+    }
+    const id = setInterval(() => setPage((p) => (p + 1) % pageCount), config.rotateSeconds * 1000);
+    return () => clearInterval(id);
+  }, [pageCount, config.rotateSeconds]);
+
+  const currentPage = page % pageCount;
+  const visible = wallboardPage(entries, currentPage, config.pageSize);
+  const summary = summarizeWallboard(entries, nowMs, slaMinutes, config.stallMinutes);
+  // Alerts from every page, so nothing waits for its page to rotate in.
+  const alerts = entries.filter(
+    (e) => e.session && tileHealth(e.session, nowMs, slaMinutes, config.stallMinutes).alert !== null,
+  );
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) document.exitFullscreen();
+    else containerRef.current?.requestFullscreen().catch(() => undefined);
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className={`${config.kiosk || fullscreen ? "fixed inset-0 z-50" : "min-h-screen"} overflow-auto bg-gray-100 p-4`}
+    >
+      {/* Header */}
+      <div className="mb-4 flex flex-wrap items-center gap-x-4 gap-y-2">
+        <h1 className="text-xl font-semibold text-gray-900">
+          Deployment Wallboard
+          {batch && <span className="ml-2 text-sm font-normal text-gray-500">batch {batch.label || batch.shortCode}</span>}
+        </h1>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <SummaryChip label="devices" value={summary.total} className="bg-white text-gray-800" />
+          <SummaryChip label="in progress" value={summary.inProgress} className="bg-blue-100 text-blue-800" />
+          <SummaryChip label="done" value={summary.succeeded} className="bg-green-100 text-green-800" />
+          {summary.failed > 0 && <SummaryChip label="failed" value={summary.failed} className="bg-red-600 text-white" />}
+          {summary.stalled > 0 && <SummaryChip label="stalled" value={summary.stalled} className="bg-amber-500 text-white" />}
+          {summary.overSla > 0 && <SummaryChip label="over SLA" value={summary.overSla} className="bg-orange-100 text-orange-800" />}
+          {summary.waiting > 0 && <SummaryChip label="waiting" value={summary.waiting} className="bg-gray-200 text-gray-700" />}
+        </div>
+        <div className="ml-auto flex items-center gap-3 text-xs text-gray-500">
+          <span className="flex items-center gap-1">
+            <span className={`h-2 w-2 rounded-full ${live ? "bg-green-500" : "bg-gray-400"}`} />
+            {live ? "Live" : "Polling"}
+          </span>
+          {lastUpdatedAt !== null && <span>Updated {new Date(lastUpdatedAt).toLocaleTimeString()}</span>}
+          {pageCount > 1 && (
+            <span className="flex items-center gap-1" aria-label={`Page ${currentPage + 1} of ${pageCount}`}>
+              {Array.from({ length: pageCount }, (_, i) => (
+                <span key={i} className={`h-2 w-2 rounded-full ${i === currentPage ? "bg-blue-600" : "bg-gray-300"}`} />
+              ))}
+            </span>
+          )}
+          <button onClick={toggleFullscreen} className="rounded border border-gray-300 bg-white px-2 py-1 hover:bg-gray-50">
+            {fullscreen ? "Exit full screen" : "Full screen"}
+          </button>
+          <button onClick={onEdit} className="rounded border border-gray-300 bg-white px-2 py-1 hover:bg-gray-50">
+            Edit
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-3 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">{error}</div>
+      )}
+      {config.batch && !batch && (
+        <div className="mb-3 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-900">
+          {batches === null
+            ? `Bootstrap batch "${config.batch}" can't be resolved — listing bootstrap codes requires the bootstrap manager role.`
+            : `Bootstrap code "${config.batch}" not found.`}
+        </div>
+      )}
+
+      {alerts.length > 0 && (
+        <div className="mb-3 flex flex-wrap gap-2">
+          {alerts.map(({ key, session }) => {
+            const { alert } = tileHealth(session!, nowMs, slaMinutes, config.stallMinutes);
+            return (
+              <span
+                key={key}
+                className={`rounded-full px-3 py-1 text-sm font-semibold ${
+                  alert === "failed"
+                    ? "bg-red-600 text-white"
+                    : alert === "stalled"
+                    ? "bg-amber-500 text-white"
+                    : "bg-orange-100 text-orange-800"
+                }`}
+              >
+                {session!.deviceName || session!.serialNumber}:{" "}
+                {alert === "failed" ? "failed" : alert === "stalled" ? "stalled" : "over SLA"}
+              </span>
+            );
+          })}
+        </div>
+      )}
+
+      {loading && sessions.length === 0 ? (
+        <div className="py-24 text-center text-gray-500">Loading devices…</div>
+      ) : entries.length === 0 ? (
+        <div className="py-24 text-center text-gray-500">No devices match this wallboard yet.</div>
+      ) : (
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 2xl:grid-cols-6">
+          {visible.map((entry) => (
+            <WallboardTile
+              key={entry.key}
+              entry={entry}
+              nowMs={nowMs}
+              slaMinutes={slaMinutes}
+              stallMinutes={config.stallMinutes}
+              tenantId={tenantId}
+              getAccessToken={getAccessToken}
+              refreshKey={entry.session ? activity[entry.session.sessionId] ?? 0 : 0}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SummaryChip({ label, value, className }: { label: string; value: number; className: string }) {
+  return (
+    <span className={`rounded-full px-3 py-1 font-semibold ${className}`}>
+      {value} <span className="font-normal">{label}</span>
+    </span>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useRef } from "react";
 import { Session, EnrollmentEvent, RuleResult } from "@/types";
+import { buildIncidentReport, renderIncidentHtml, renderIncidentMarkdown } from "@/lib/incidentReport";
 
 const MAX_AGENT_LOG_SIZE = 5 * 1024 * 1024; // 5 MB
 
@@ -10,6 +11,7 @@ interface ReportSessionModalProps {
   session: Session | null;
   events: EnrollmentEvent[];
   analysisResults: RuleResult[];
+  vulnerabilityReport?: unknown;
   onSubmit: (
     comment: string, email: string,
     screenshotBase64: string | null, screenshotFileName: string | null,
@@ -19,6 +21,16 @@ interface ReportSessionModalProps {
   submitting: boolean;
 }
 
+function downloadFile(content: string, filename: string, mimeType: string) {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
 function formatFileSize(bytes: number): string {
   if (bytes < 1024) return `${bytes} B`;
   if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
@@ -26,7 +38,7 @@ function formatFileSize(bytes: number): string {
 }
 
 export default function ReportSessionModal({
-  show, session, events, analysisResults, onSubmit, onCancel, submitting
+  show, session, events, analysisResults, vulnerabilityReport, onSubmit, onCancel, submitting
 }: ReportSessionModalProps) {
   const [comment, setComment] = useState("");
   const [email, setEmail] = useState("");
@@ -35,6 +47,7 @@ export default function ReportSessionModal({
   const [agentLogError, setAgentLogError] = useState<string | null>(null);
   const [submitResult, setSubmitResult] = useState<'success' | 'error' | null>(null);
   const [submitErrorMessage, setSubmitErrorMessage] = useState<string | null>(null);
+  const [copiedReport, setCopiedReport] = useState(false);
 
   const agentLogInputRef = useRef<HTMLInputElement>(null);
   const screenshotInputRef = useRef<HTMLInputElement>(null);
@@ -148,6 +161,29 @@ export default function ReportSessionModal({
     }
   };
 
+  // Incident report for the customer's own ticketing — built locally, never submitted.
+  const buildReport = () => buildIncidentReport({
+    session,
+    events,
+    ruleResults: analysisResults,
+    vulnerabilityReport,
+    generatedAt: new Date().toISOString(),
+  });
+
+  const copyReportMarkdown = async () => {
+    try {
+      await navigator.clipboard.writeText(renderIncidentMarkdown(buildReport()));
+      setCopiedReport(true);
+      setTimeout(() => setCopiedReport(false), 1400);
+    } catch (err) {
+      console.error('Failed to copy incident report:', err);
+    }
+  };
+
+  const downloadReportHtml = () => {
+    downloadFile(renderIncidentHtml(buildReport()), `incident-report-${session.sessionId}.html`, "text/html");
+  };
+
   const handleClose = () => {
     setSubmitResult(null);
     setSubmitErrorMessage(null);
@@ -329,6 +365,31 @@ export default function ReportSessionModal({
                 )}
               </div>
 
+              {/* Incident report */}
+              <div className="border border-gray-200 dark:border-gray-600 rounded-md p-3 mb-4">
+                <p className="text-sm font-medium text-gray-700 dark:text-gray-300">Incident report</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5 mb-2">
+                  Session details, phase timeline, failing apps, fired rules with remediation, key events and
+                  vulnerability summary &mdash; formatted for your own service desk ticket. Not sent anywhere.
+                </p>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={copyReportMarkdown}
+                    className="px-3 py-1.5 text-xs font-medium bg-blue-50 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300 rounded-md hover:bg-blue-100 dark:hover:bg-blue-900/60 transition-colors"
+                  >
+                    {copiedReport ? "Copied" : "Copy as Markdown"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={downloadReportHtml}
+                    className="px-3 py-1.5 text-xs font-medium bg-blue-50 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300 rounded-md hover:bg-blue-100 dark:hover:bg-blue-900/60 transition-colors"
+                  >
+                    Download HTML
+                  </button>
+                </div>
+              </div>
+
               {/* Data summary */}
               <div className="bg-gray-50 dark:bg-gray-700/50 rounded-md p-3 mb-6 text-xs text-gray-600 dark:text-gray-300">
                 <p className="font-medium mb-1">Data included in report:</p>
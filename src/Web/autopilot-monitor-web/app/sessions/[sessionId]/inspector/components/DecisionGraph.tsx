@@ -12,6 +12,7 @@ import {
 import "@xyflow/react/dist/style.css";
 
 import type { DecisionGraphProjection } from "../types";
+import type { GraphReplayState } from "../lib/signalReplay";
 import {
   buildLayout,
   computeGraphStats,
@@ -23,6 +24,12 @@ import { InspectorEdge } from "./InspectorEdge";
 interface DecisionGraphProps {
   graph: DecisionGraphProjection;
   truncated: boolean;
+  /**
+   * Replay mode: render the graph as it stood at the scrubber position. The
+   * layout stays the one of the full session so stages don't jump around
+   * while playing; steps not applied yet are hidden and counters re-counted.
+   */
+  replay?: GraphReplayState;
 }
 
 const NODE_TYPES = { inspectorNode: InspectorNode } as const;
@@ -33,11 +40,17 @@ type Selection =
   | { kind: "node"; id: string }
   | null;
 
-export function DecisionGraph({ graph, truncated }: DecisionGraphProps) {
+export function DecisionGraph({ graph, truncated, replay }: DecisionGraphProps) {
   const [showInterStageDeadEnds, setShowInterStageDeadEnds] = useState(true);
   const [selection, setSelection] = useState<Selection>(null);
 
-  const stats = useMemo(() => computeGraphStats(graph.edges), [graph.edges]);
+  const stats = useMemo(
+    () =>
+      computeGraphStats(
+        replay ? graph.edges.filter((e) => e.signalOrdinalRef <= replay.ordinal) : graph.edges,
+      ),
+    [graph.edges, replay],
+  );
 
   // Pre-filter edges before layout. Self-loops are stripped inside
   // buildLayout regardless; this toggle controls visibility of
@@ -57,11 +70,31 @@ export function DecisionGraph({ graph, truncated }: DecisionGraphProps) {
 
   const styledNodes = useMemo(
     () =>
-      layout.nodes.map((n) => ({
-        ...n,
-        selected: selection?.kind === "node" && selection.id === n.id,
-      })),
-    [layout.nodes, selection],
+      layout.nodes.map((n) => {
+        const styled = {
+          ...n,
+          selected: selection?.kind === "node" && selection.id === n.id,
+        };
+        if (!replay) return styled;
+        const activity = replay.activity.get(n.id);
+        return {
+          ...styled,
+          data: {
+            ...n.data,
+            entered: activity?.entered ?? 0,
+            internal: activity?.internal ?? 0,
+            blocked: activity?.blocked ?? 0,
+            blockedReasons: activity?.blockedReasons ?? [],
+            replay:
+              replay.stage === n.id
+                ? ("current" as const)
+                : replay.visitedStages.has(n.id)
+                  ? ("visited" as const)
+                  : ("pending" as const),
+          },
+        };
+      }),
+    [layout.nodes, selection, replay],
   );
 
   const styledEdges = useMemo(
@@ -69,8 +102,10 @@ export function DecisionGraph({ graph, truncated }: DecisionGraphProps) {
       layout.edges.map((e) => ({
         ...e,
         selected: selection?.kind === "edge" && selection.id === e.id,
+        hidden: !!replay && !!e.data && e.data.signalOrdinalRef > replay.ordinal,
+        animated: !!replay && !!e.data && e.data.signalOrdinalRef === replay.ordinal,
       })),
-    [layout.edges, selection],
+    [layout.edges, selection, replay],
   );
 
   const onEdgeClick: EdgeMouseHandler = (_evt, edge) => {
@@ -90,9 +125,9 @@ export function DecisionGraph({ graph, truncated }: DecisionGraphProps) {
   const selectedNode = useMemo(
     () =>
       selection?.kind === "node"
-        ? layout.nodes.find((n) => n.id === selection.id) ?? null
+        ? styledNodes.find((n) => n.id === selection.id) ?? null
         : null,
-    [layout.nodes, selection],
+    [styledNodes, selection],
   );
 
   return (
@@ -0,0 +1,321 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  ReactFlow,
+  Background,
+  Controls,
+  MiniMap,
+  type EdgeMouseHandler,
+  type NodeMouseHandler,
+} from "@xyflow/react";
+import "@xyflow/react/dist/style.css";
+
+import type { DecisionGraphProjection } from "../types";
+import type { StageActivity } from "../lib/dagreLayout";
+import {
+  buildDiffLayout,
+  diffDecisionGraphs,
+  type DivergenceBranch,
+  type DivergencePoint,
+  type EdgeGroupDiff,
+  type StageDiff,
+} from "../lib/graphDiff";
+import { InspectorNode } from "./InspectorNode";
+import { InspectorEdge } from "./InspectorEdge";
+
+interface DecisionGraphCompareProps {
+  /** The inspected session. */
+  a: DecisionGraphProjection;
+  /** The session it's compared against. */
+  b: DecisionGraphProjection;
+  truncated: boolean;
+}
+
+const NODE_TYPES = { inspectorNode: InspectorNode } as const;
+const EDGE_TYPES = { inspectorEdge: InspectorEdge } as const;
+
+type Selection =
+  | { kind: "edge"; id: string }
+  | { kind: "node"; id: string }
+  | null;
+
+/**
+ * Overlay of two sessions' decision graphs. Stages and paths present in only
+ * one session are coloured (A rose, B teal); the side panel lists the steps
+ * at which the sessions parted and the guard dead-ends that only one of them
+ * hit — the usual question when a stuck session sits next to a healthy one.
+ */
+export function DecisionGraphCompare({ a, b, truncated }: DecisionGraphCompareProps) {
+  const [onlyDifferences, setOnlyDifferences] = useState(false);
+  const [selection, setSelection] = useState<Selection>(null);
+
+  const diff = useMemo(() => diffDecisionGraphs(a, b), [a, b]);
+  const layout = useMemo(() => buildDiffLayout(a, b, diff), [a, b, diff]);
+
+  const styledNodes = useMemo(
+    () =>
+      layout.nodes.map((n) => ({
+        ...n,
+        selected: selection?.kind === "node" && selection.id === n.id,
+      })),
+    [layout.nodes, selection],
+  );
+
+  const styledEdges = useMemo(
+    () =>
+      layout.edges
+        .filter((e) => !onlyDifferences || e.data?.diff?.side !== "both")
+        .map((e) => ({
+          ...e,
+          selected: selection?.kind === "edge" && selection.id === e.id,
+        })),
+    [layout.edges, onlyDifferences, selection],
+  );
+
+  const onEdgeClick: EdgeMouseHandler = (_evt, edge) => {
+    setSelection({ kind: "edge", id: edge.id });
+  };
+  const onNodeClick: NodeMouseHandler = (_evt, node) => {
+    setSelection({ kind: "node", id: node.id });
+  };
+
+  const selectedGroup =
+    selection?.kind === "edge"
+      ? layout.edges.find((e) => e.id === selection.id)?.data?.diff ?? null
+      : null;
+  const selectedStage =
+    selection?.kind === "node" ? diff.stages.get(selection.id) ?? null : null;
+
+  const differingDeadEnds = diff.edges.filter(
+    (g) => !g.taken && g.deadEndReason !== null && g.side !== "both",
+  );
+  const { summary } = diff;
+
+  return (
+    <div className="grid grid-cols-1 gap-4 lg:grid-cols-[1fr_360px]">
+      <div className="rounded border border-gray-200 bg-white">
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 border-b border-gray-200 p-3 text-sm">
+          <span className="rounded bg-rose-100 px-1.5 py-0.5 text-xs font-medium text-rose-800">
+            A {a.sessionId.substring(0, 8)}
+          </span>
+          <span className="rounded bg-teal-100 px-1.5 py-0.5 text-xs font-medium text-teal-800">
+            B {b.sessionId.substring(0, 8)}
+          </span>
+          <span className="text-gray-400">·</span>
+          <span className="text-gray-700">
+            {diff.divergences.length} divergence point{diff.divergences.length === 1 ? "" : "s"}
+          </span>
+          <span className="text-gray-400">·</span>
+          <span className="text-gray-700" title="Stages reached by only one session (A / B).">
+            stages only in A/B: {summary.stagesOnlyA} / {summary.stagesOnlyB}
+          </span>
+          <span className="text-gray-400">·</span>
+          <span className="text-gray-700" title="Inter-stage transitions taken in only one session (A / B).">
+            transitions: {summary.transitionsOnlyA} / {summary.transitionsOnlyB}
+          </span>
+          <span className="text-gray-400">·</span>
+          <span className="text-amber-700" title="Guard dead-ends hit in only one session (A / B).">
+            dead-ends: {summary.deadEndsOnlyA} / {summary.deadEndsOnlyB}
+          </span>
+          {truncated && <span className="ml-2 text-amber-600">(truncated)</span>}
+          <label className="ml-auto flex items-center gap-1.5 text-xs">
+            <input
+              type="checkbox"
+              checked={onlyDifferences}
+              onChange={(e) => setOnlyDifferences(e.target.checked)}
+            />
+            Only differing paths
+          </label>
+        </div>
+
+        <div style={{ height: "70vh" }}>
+          <ReactFlow
+            nodes={styledNodes}
+            edges={styledEdges}
+            nodeTypes={NODE_TYPES}
+            edgeTypes={EDGE_TYPES}
+            fitView
+            fitViewOptions={{ padding: 0.15 }}
+            proOptions={{ hideAttribution: true }}
+            onEdgeClick={onEdgeClick}
+            onNodeClick={onNodeClick}
+            onPaneClick={() => setSelection(null)}
+          >
+            <Background gap={20} />
+            <Controls />
+            <MiniMap pannable zoomable nodeStrokeWidth={2} />
+          </ReactFlow>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        {selectedGroup ? (
+          <GroupDetailPanel group={selectedGroup} />
+        ) : selectedStage && selection?.kind === "node" ? (
+          <StageDetailPanel stageId={selection.id} stage={selectedStage} />
+        ) : null}
+        <DivergenceList
+          divergences={diff.divergences}
+          onSelect={(d) => setSelection({ kind: "node", id: d.fromStage })}
+        />
+        <DeadEndList groups={differingDeadEnds} />
+      </div>
+    </div>
+  );
+}
+
+function DivergenceList({
+  divergences,
+  onSelect,
+}: {
+  divergences: DivergencePoint[];
+  onSelect: (d: DivergencePoint) => void;
+}) {
+  return (
+    <div className="rounded border border-gray-200 bg-white p-4 text-sm">
+      <h3 className="mb-2 font-semibold">Divergence points</h3>
+      {divergences.length === 0 ? (
+        <p className="text-xs text-gray-500">
+          Wherever both sessions sat in the same stage, they moved on the same way.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {divergences.map((d) => (
+            <li key={d.key}>
+              <button
+                onClick={() => onSelect(d)}
+                className="w-full rounded border border-violet-200 bg-violet-50 px-2 py-1.5 text-left text-xs hover:border-violet-400"
+              >
+                <div className="font-medium text-violet-900">
+                  ⑂ Step {d.stepIndex} · {d.fromStage}
+                </div>
+                <BranchLine label="A" tone="text-rose-700" branch={d.a} />
+                <BranchLine label="B" tone="text-teal-700" branch={d.b} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function BranchLine({
+  label,
+  tone,
+  branch,
+}: {
+  label: string;
+  tone: string;
+  branch: DivergenceBranch | null;
+}) {
+  return (
+    <div className="mt-0.5 grid grid-cols-[16px_1fr] gap-1">
+      <span className={`font-semibold ${tone}`}>{label}</span>
+      {branch ? (
+        <span className="break-all font-mono text-gray-800">
+          {branch.trigger} → {branch.taken ? branch.toStage : `🚫 ${branch.deadEndReason ?? "(unknown)"}`}
+        </span>
+      ) : (
+        <span className="text-gray-500">journal ends here</span>
+      )}
+    </div>
+  );
+}
+
+function DeadEndList({ groups }: { groups: EdgeGroupDiff[] }) {
+  if (groups.length === 0) return null;
+  return (
+    <div className="rounded border border-gray-200 bg-white p-4 text-sm">
+      <h3 className="mb-2 font-semibold">Dead-ends in only one session</h3>
+      <ul className="space-y-1">
+        {groups.map((g) => (
+          <li
+            key={g.key}
+            className="flex items-center justify-between gap-2 rounded border border-amber-200 bg-amber-50 px-2 py-1 text-xs"
+          >
+            <span className="break-all">
+              <span className="font-mono text-amber-900">🚫 {g.deadEndReason}</span>
+              <span className="block text-[10px] text-gray-600">
+                {g.fromStage === g.toStage ? g.fromStage : `${g.fromStage} → ${g.toStage}`}
+              </span>
+            </span>
+            <SideBadge side={g.side} count={g.side === "a" ? g.aSteps.length : g.bSteps.length} />
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function SideBadge({ side, count }: { side: EdgeGroupDiff["side"]; count?: number }) {
+  if (side === "both") return null;
+  const tone = side === "a" ? "bg-rose-200 text-rose-900" : "bg-teal-200 text-teal-900";
+  return (
+    <span className={`shrink-0 rounded px-1.5 py-0.5 text-[10px] font-medium ${tone}`}>
+      only {side.toUpperCase()}
+      {count !== undefined && ` ×${count}`}
+    </span>
+  );
+}
+
+function GroupDetailPanel({ group }: { group: EdgeGroupDiff }) {
+  return (
+    <div className="rounded border border-gray-200 bg-white p-4 text-sm space-y-2">
+      <div className="flex items-baseline justify-between">
+        <h3 className="font-semibold">
+          {group.fromStage} → {group.toStage}
+        </h3>
+        <SideBadge side={group.side} />
+      </div>
+      <KV k="Outcome" v={group.taken ? "taken" : `dead-end · ${group.deadEndReason ?? "(unknown)"}`} mono />
+      <KV k="Steps in A" v={group.aSteps.length > 0 ? group.aSteps.join(", ") : "—"} mono />
+      <KV k="Steps in B" v={group.bSteps.length > 0 ? group.bSteps.join(", ") : "—"} mono />
+    </div>
+  );
+}
+
+function StageDetailPanel({ stageId, stage }: { stageId: string; stage: StageDiff }) {
+  const row = (label: string, pick: (s: StageActivity) => number) => (
+    <tr>
+      <td className="py-0.5 text-gray-500">{label}</td>
+      <td className="py-0.5 text-right font-mono">{stage.a ? pick(stage.a) : "—"}</td>
+      <td className="py-0.5 text-right font-mono">{stage.b ? pick(stage.b) : "—"}</td>
+    </tr>
+  );
+  return (
+    <div className="rounded border border-gray-200 bg-white p-4 text-sm space-y-3">
+      <div className="flex items-baseline justify-between">
+        <h3 className="font-semibold">{stageId}</h3>
+        <SideBadge side={stage.side} />
+      </div>
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-[10px] uppercase tracking-wide text-gray-500">
+            <th className="text-left font-normal">Activity</th>
+            <th className="text-right font-normal text-rose-700">A</th>
+            <th className="text-right font-normal text-teal-700">B</th>
+          </tr>
+        </thead>
+        <tbody>
+          {row("entered", (s) => s.entered)}
+          {row("internal", (s) => s.internal)}
+          {row("blocked", (s) => s.blocked)}
+        </tbody>
+      </table>
+      {stage.divergesAt.length > 0 && (
+        <KV k="Diverges at step" v={stage.divergesAt.join(", ")} mono />
+      )}
+    </div>
+  );
+}
+
+function KV({ k, v, mono = false }: { k: string; v: string; mono?: boolean }) {
+  return (
+    <div className="grid grid-cols-[110px_1fr] gap-2">
+      <span className="text-xs text-gray-500">{k}</span>
+      <span className={`text-xs ${mono ? "font-mono" : ""} break-all text-gray-800`}>{v}</span>
+    </div>
+  );
+}
@@ -2,12 +2,23 @@
 
 import { BaseEdge, EdgeLabelRenderer, getBezierPath, type EdgeProps } from "@xyflow/react";
 import type { InspectorEdgeData } from "../lib/dagreLayout";
+import type { DiffSide } from "../lib/graphDiff";
+
+const DIFF_STROKE: Record<DiffSide, string> = {
+  both: "#9ca3af", // gray-400
+  a: "#f43f5e", // rose-500
+  b: "#14b8a6", // teal-500
+};
 
 /**
  * Custom edge that distinguishes taken vs. dead-end transitions.
  * Dead-ends render dashed + amber, with a 🚫 marker on the label so the
  * Inspector visualises *why* a path was blocked (Plan §M6 — primary
  * use case for 2-stage WhiteGlove modelling).
+ *
+ * In compare mode (`data.diff` set) the colour encodes which session took the
+ * path instead: shared paths grey, A-only rose, B-only teal. Dashing still
+ * marks dead-ends.
  */
 export function InspectorEdge(props: EdgeProps) {
   const {
@@ -34,9 +45,18 @@ export function InspectorEdge(props: EdgeProps) {
     targetPosition,
   });
 
-  const stroke = taken ? "#3b82f6" : "#f59e0b"; // blue-500 / amber-500
+  const diffSide = edgeData?.diff?.side;
+  const stroke = diffSide
+    ? DIFF_STROKE[diffSide]
+    : taken
+      ? "#3b82f6" // blue-500
+      : "#f59e0b"; // amber-500
   const strokeDasharray = taken ? undefined : "6 4";
-  const strokeWidth = selected ? 3 : taken ? 2 : 1.5;
+  const strokeWidth = selected ? 3 : diffSide && diffSide !== "both" ? 2.5 : taken ? 2 : 1.5;
+  const sideLabel = diffSide === "a" ? "A only · " : diffSide === "b" ? "B only · " : "";
+  const counts = edgeData?.diff
+    ? ` · A ×${edgeData.diff.aSteps.length} / B ×${edgeData.diff.bSteps.length}`
+    : "";
 
   return (
     <>
@@ -50,9 +70,10 @@ export function InspectorEdge(props: EdgeProps) {
               pointerEvents: "all",
             }}
             className="rounded border border-amber-400 bg-amber-50 px-1.5 py-0.5 text-[10px] font-medium text-amber-800 shadow-sm"
-            title={`Step ${edgeData.stepIndex} · trigger=${edgeData.trigger} · ${edgeData.deadEndReason}`}
+            title={`Step ${edgeData.stepIndex} · trigger=${edgeData.trigger} · ${edgeData.deadEndReason}${counts}`}
           >
-            🚫 {edgeData.deadEndReason}
+            🚫 {sideLabel}
+            {edgeData.deadEndReason}
           </div>
         </EdgeLabelRenderer>
       )}
@@ -65,8 +86,9 @@ export function InspectorEdge(props: EdgeProps) {
               pointerEvents: "all",
             }}
             className="rounded border border-blue-200 bg-white px-1.5 py-0.5 text-[10px] text-gray-700 shadow-sm"
-            title={`Step ${edgeData.stepIndex} · trigger=${edgeData.trigger}`}
+            title={`Step ${edgeData.stepIndex} · trigger=${edgeData.trigger}${counts}`}
           >
+            {sideLabel}
             {edgeData.trigger}
           </div>
         </EdgeLabelRenderer>
@@ -3,6 +3,7 @@
 import { Handle, Position, type NodeProps } from "@xyflow/react";
 import type { Node } from "@xyflow/react";
 import type { InspectorNodeData } from "../lib/dagreLayout";
+import type { DiffSide } from "../lib/graphDiff";
 
 const STYLE_BY_CATEGORY: Record<
   InspectorNodeData["category"],
@@ -29,17 +30,39 @@ const STYLE_BY_CATEGORY: Record<
   },
 };
 
+/** Replay mode: the current stage is outlined, stages not reached yet fade out. */
+const REPLAY_CLASS: Record<NonNullable<InspectorNodeData["replay"]> | "none", string> = {
+  none: "",
+  visited: "",
+  current: "outline outline-2 outline-offset-4 outline-violet-500",
+  pending: "opacity-30",
+};
+
+/** Compare mode: stages reached by only one session get a dashed outline + badge. */
+const DIFF_STYLE: Record<Exclude<DiffSide, "both">, { border: string; badge: string; label: string }> = {
+  a: { border: "border-2 border-dashed border-rose-500", badge: "bg-rose-100 text-rose-800", label: "only A" },
+  b: { border: "border-2 border-dashed border-teal-500", badge: "bg-teal-100 text-teal-800", label: "only B" },
+};
+
 export function InspectorNode({ data, selected }: NodeProps<Node<InspectorNodeData>>) {
   const style = STYLE_BY_CATEGORY[data.category];
+  if (data.diff) return <InspectorDiffNode data={data} selected={selected} />;
   return (
     <div
       className={`rounded-lg border border-gray-200 ring-2 ${style.ring} ${style.bg} px-3 py-2 shadow-sm ${
         selected ? "ring-4" : ""
-      }`}
+      } ${REPLAY_CLASS[data.replay ?? "none"]}`}
       style={{ width: 200 }}
     >
       <Handle type="target" position={Position.Top} className="!bg-gray-400" />
-      <div className={`text-sm font-medium ${style.text}`}>{data.label}</div>
+      <div className="flex items-center justify-between gap-1">
+        <span className={`truncate text-sm font-medium ${style.text}`}>{data.label}</span>
+        {data.replay === "current" && (
+          <span className="shrink-0 rounded bg-violet-100 px-1 text-[10px] font-medium text-violet-800">
+            ▶ now
+          </span>
+        )}
+      </div>
       <div className="mt-1 flex items-center justify-between text-[10px] text-gray-500">
         <span>{style.label}</span>
         <span title="Inter-stage transitions that landed on this stage (taken).">
@@ -65,3 +88,58 @@ export function InspectorNode({ data, selected }: NodeProps<Node<InspectorNodeDa
     </div>
   );
 }
+
+function InspectorDiffNode({ data, selected }: { data: InspectorNodeData; selected?: boolean }) {
+  const style = STYLE_BY_CATEGORY[data.category];
+  const diff = data.diff!;
+  const sideStyle = diff.side === "both" ? null : DIFF_STYLE[diff.side];
+  const pair = (a: number | undefined, b: number | undefined) => `${a ?? "–"} / ${b ?? "–"}`;
+  const blockedDiffers = (diff.a?.blocked ?? 0) !== (diff.b?.blocked ?? 0);
+  return (
+    <div
+      className={`rounded-lg ring-2 ${style.ring} ${style.bg} px-3 py-2 shadow-sm ${
+        sideStyle ? sideStyle.border : "border border-gray-200"
+      } ${selected ? "ring-4" : ""}`}
+      style={{ width: 200 }}
+    >
+      <Handle type="target" position={Position.Top} className="!bg-gray-400" />
+      <div className="flex items-center justify-between gap-1">
+        <span className={`truncate text-sm font-medium ${style.text}`}>{data.label}</span>
+        {sideStyle && (
+          <span className={`shrink-0 rounded px-1 text-[10px] font-medium ${sideStyle.badge}`}>
+            {sideStyle.label}
+          </span>
+        )}
+      </div>
+      <div className="mt-1 flex items-center justify-between text-[10px] text-gray-500">
+        <span title="Inter-stage transitions that landed on this stage — session A / session B.">
+          entered: {pair(diff.a?.entered, diff.b?.entered)}
+        </span>
+        {diff.divergesAt.length > 0 && (
+          <span
+            className="rounded border border-violet-400 bg-violet-50 px-1 font-medium text-violet-800"
+            title={`Sessions left this stage differently at step ${diff.divergesAt.join(", ")}`}
+          >
+            ⑂ step {diff.divergesAt[0]}
+          </span>
+        )}
+      </div>
+      <div className="mt-0.5 flex items-center justify-between text-[10px] text-gray-500">
+        <span title="Self-loop steps inside this stage — session A / session B.">
+          internal: {pair(diff.a?.internal, diff.b?.internal)}
+        </span>
+        <span
+          className={
+            blockedDiffers
+              ? "rounded border border-amber-400 bg-amber-50 px-1 font-medium text-amber-800"
+              : "text-gray-400"
+          }
+          title="Self-loop dead-ends — session A / session B."
+        >
+          blocked: {pair(diff.a?.blocked, diff.b?.blocked)}
+        </span>
+      </div>
+      <Handle type="source" position={Position.Bottom} className="!bg-gray-400" />
+    </div>
+  );
+}
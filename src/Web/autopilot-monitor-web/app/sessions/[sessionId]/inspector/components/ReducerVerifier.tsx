@@ -0,0 +1,242 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { DecisionGraphProjection, SignalRecord } from "../types";
+import { LATEST_REDUCER_VERSION, REDUCER_VERSIONS } from "../lib/decisionReducer";
+import { verifyReducer, type ComparedField, type TransitionDivergence } from "../lib/reducerVerification";
+
+interface ReducerVerifierProps {
+  graph: DecisionGraphProjection;
+  signals: SignalRecord[];
+  signalsLoading: boolean;
+  signalsError: string | null;
+  truncated: boolean;
+}
+
+/** Divergences rendered in the table; the rest are counted. */
+const MAX_LISTED_DIVERGENCES = 100;
+
+/**
+ * "Verifier Report" tab — re-runs the recorded signal stream through the
+ * TypeScript port of the reducer (see lib/decisionReducer) and lists every
+ * step where the recomputed transition differs from the stored journal.
+ * Replaying a session under the version that produced it should come back
+ * clean; replaying it under a newer version shows what an upgrade would have
+ * decided differently on a real session, before it ships.
+ */
+export function ReducerVerifier({ graph, signals, signalsLoading, signalsError, truncated }: ReducerVerifierProps) {
+  const [version, setVersion] = useState(() =>
+    REDUCER_VERSIONS.includes(graph.reducerVersion) ? graph.reducerVersion : LATEST_REDUCER_VERSION,
+  );
+
+  const result = useMemo(
+    () => (signals.length > 0 ? verifyReducer(graph, signals, version) : null),
+    [graph, signals, version],
+  );
+
+  if (signalsLoading) {
+    return <div className="rounded border border-gray-200 bg-white p-8 text-center text-gray-500">Loading signals…</div>;
+  }
+  if (signalsError) {
+    return (
+      <div className="rounded border border-red-200 bg-red-50 p-4 text-red-700">
+        <strong>Failed to load signals:</strong> {signalsError}
+      </div>
+    );
+  }
+  if (!result) {
+    return (
+      <div className="rounded border border-gray-200 bg-gray-50 p-6 text-sm text-gray-600">
+        No signals recorded for this session — nothing to replay.
+      </div>
+    );
+  }
+
+  const first = result.divergences[0] ?? null;
+  const clean = result.divergences.length === 0 && result.finalStageMatches && result.signalCount === result.storedStepCount;
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded border border-gray-200 bg-white p-3 text-sm space-y-2">
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+          <label htmlFor="reducer-version" className="text-gray-600">
+            Replay with reducer
+          </label>
+          <select
+            id="reducer-version"
+            className="rounded border border-gray-300 px-2 py-1 font-mono text-xs"
+            value={version}
+            onChange={(e) => setVersion(e.target.value)}
+          >
+            {REDUCER_VERSIONS.map((v) => (
+              <option key={v} value={v}>
+                {v}
+                {v === graph.reducerVersion ? " (recorded)" : ""}
+              </option>
+            ))}
+          </select>
+          <span className="text-gray-400">·</span>
+          <span className="text-gray-700">
+            journal recorded by <code className="font-mono">{result.storedReducerVersion}</code>
+          </span>
+          {truncated && <span className="text-amber-600">(truncated — later steps aren&apos;t compared)</span>}
+        </div>
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs">
+          <span
+            className={`rounded px-1.5 py-0.5 font-medium ${
+              clean ? "bg-green-100 text-green-800" : "bg-amber-100 text-amber-900"
+            }`}
+          >
+            {clean ? "✓ matches the journal" : `${result.divergences.length} diverging step${result.divergences.length === 1 ? "" : "s"}`}
+          </span>
+          <span className="text-gray-700">
+            {result.comparedSteps} steps compared · {result.signalCount} signals / {result.storedStepCount} stored steps
+          </span>
+          <span className={result.finalStageMatches ? "text-gray-700" : "text-red-700"}>
+            final stage: replayed <code className="font-mono">{result.replayedFinalStage}</code>, stored{" "}
+            <code className="font-mono">{result.storedFinalStage ?? "—"}</code>
+          </span>
+        </div>
+      </div>
+
+      <Warnings
+        versionDrift={result.versionDrift}
+        storedVersion={result.storedReducerVersion}
+        version={result.reducerVersion}
+        missingOrdinals={result.missingOrdinals}
+        undecodableOrdinals={result.undecodableOrdinals}
+        countMismatch={result.signalCount !== result.storedStepCount}
+      />
+
+      {first && <FirstDivergence divergence={first} />}
+
+      {result.divergences.length > 0 && (
+        <div className="rounded border border-gray-200 bg-white">
+          <div className="border-b border-gray-200 p-3 text-sm font-semibold">Diverging steps</div>
+          <div className="max-h-[60vh] overflow-auto">
+            <table className="w-full text-xs">
+              <thead className="sticky top-0 bg-gray-50 text-[10px] uppercase tracking-wide text-gray-500">
+                <tr>
+                  <th className="px-3 py-1.5 text-left font-normal">Step</th>
+                  <th className="px-3 py-1.5 text-left font-normal">Signal</th>
+                  <th className="px-3 py-1.5 text-left font-normal">Stored</th>
+                  <th className="px-3 py-1.5 text-left font-normal">Replayed</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.divergences.slice(0, MAX_LISTED_DIVERGENCES).map((d) => (
+                  <tr key={d.stepIndex} className="border-t border-gray-100 align-top">
+                    <td className="px-3 py-1.5 font-mono text-gray-500">#{d.stepIndex}</td>
+                    <td className="px-3 py-1.5">
+                      <span className="font-mono text-gray-500">ord={d.signalOrdinal}</span>{" "}
+                      <span className="font-medium">{d.signalKind}</span>
+                    </td>
+                    <td className="px-3 py-1.5">
+                      <TransitionLine t={d.stored} fields={d.fields} />
+                    </td>
+                    <td className="px-3 py-1.5">
+                      <TransitionLine t={d.replayed} fields={d.fields} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {result.divergences.length > MAX_LISTED_DIVERGENCES && (
+            <p className="border-t border-gray-200 p-3 text-xs text-gray-500">
+              … {result.divergences.length - MAX_LISTED_DIVERGENCES} more diverging steps not listed.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Warnings({
+  versionDrift,
+  storedVersion,
+  version,
+  missingOrdinals,
+  undecodableOrdinals,
+  countMismatch,
+}: {
+  versionDrift: boolean;
+  storedVersion: string;
+  version: string;
+  missingOrdinals: number[];
+  undecodableOrdinals: number[];
+  countMismatch: boolean;
+}) {
+  const notes: string[] = [];
+  if (versionDrift) {
+    notes.push(
+      `Replaying a ${storedVersion} journal under ${version}: divergences show what the other reducer would decide differently.`,
+    );
+  }
+  if (missingOrdinals.length > 0) {
+    notes.push(
+      `Signal ordinals missing from the log (${formatOrdinals(missingOrdinals)}) — steps after the gap shift and will diverge.`,
+    );
+  }
+  if (undecodableOrdinals.length > 0) {
+    notes.push(`Payload of signal ${formatOrdinals(undecodableOrdinals)} couldn't be parsed; replayed without payload.`);
+  }
+  if (countMismatch) {
+    notes.push("Signal count differs from stored step count — the reducer should make exactly one step per signal.");
+  }
+  if (notes.length === 0) return null;
+  return (
+    <ul className="space-y-1 rounded border border-amber-200 bg-amber-50 p-3 text-xs text-amber-900">
+      {notes.map((n) => (
+        <li key={n}>⚠ {n}</li>
+      ))}
+    </ul>
+  );
+}
+
+function FirstDivergence({ divergence: d }: { divergence: TransitionDivergence }) {
+  return (
+    <div className="rounded border border-violet-200 bg-violet-50 p-3 text-sm">
+      <div className="font-medium text-violet-900">
+        ⑂ First divergence at step {d.stepIndex} — signal ord={d.signalOrdinal} {d.signalKind}
+      </div>
+      <p className="mt-0.5 text-xs text-violet-800">
+        Later steps replay from a different state, so fix this one first. Differs in: {d.fields.join(", ")}.
+      </p>
+    </div>
+  );
+}
+
+function TransitionLine({
+  t,
+  fields,
+}: {
+  t: Pick<TransitionDivergence["stored"], "trigger" | "fromStage" | "toStage" | "taken" | "deadEndReason" | "stepIndex">;
+  fields: ComparedField[];
+}) {
+  const mark = (field: ComparedField) => (fields.includes(field) ? "bg-rose-100 text-rose-900" : "");
+  return (
+    <div className="font-mono break-all">
+      <span className={mark("trigger")}>{t.trigger}</span>
+      <div>
+        <span className={mark("fromStage")}>{t.fromStage}</span> →{" "}
+        <span className={mark("toStage")}>{t.toStage}</span>
+        {fields.includes("stepIndex") && <span className={`ml-1 ${mark("stepIndex")}`}>#{t.stepIndex}</span>}
+      </div>
+      {t.taken ? (
+        <span className={mark("taken")}>taken</span>
+      ) : (
+        <span className={`${mark("taken")} ${mark("deadEndReason")} text-amber-800`}>
+          🚫 {t.deadEndReason ?? "(unknown)"}
+        </span>
+      )}
+      {t.taken && fields.includes("deadEndReason") && <span className={`ml-1 ${mark("deadEndReason")}`}>(no dead-end)</span>}
+    </div>
+  );
+}
+
+function formatOrdinals(ordinals: number[]): string {
+  const shown = ordinals.slice(0, 5).join(", ");
+  return ordinals.length > 5 ? `${shown}, … +${ordinals.length - 5}` : shown;
+}
@@ -0,0 +1,229 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import type { EnrollmentEvent } from "@/types";
+import type { DecisionGraphProjection, SignalRecord } from "../types";
+import {
+  REPLAY_SPEEDS,
+  graphStateAt,
+  replayIntervalMs,
+  replayOrder,
+  replaySnapshots,
+  snapshotAt,
+  type ReplaySpeed,
+} from "../lib/signalReplay";
+import { DecisionGraph } from "./DecisionGraph";
+import { DecisionStateCard } from "./DecisionStateCard";
+
+interface SignalReplayProps {
+  graph: DecisionGraphProjection;
+  truncated: boolean;
+  signals: SignalRecord[];
+  signalsLoading: boolean;
+  signalsError: string | null;
+  /** Lifecycle-anchor events carrying `data.decisionState` (see useSessionAnchorEvents). */
+  anchors: EnrollmentEvent[];
+}
+
+/**
+ * "Replay" tab — scrubs through the session signal by signal. The graph is
+ * cut at the scrubber's signal ordinal (steps produced by later signals are
+ * hidden, the steps this signal produced animate), and the DecisionState card
+ * shows the latest anchor snapshot the agent had emitted by then. Answers
+ * "when did the reducer's state go wrong?" instead of only showing the end
+ * result.
+ */
+export function SignalReplay({
+  graph,
+  truncated,
+  signals,
+  signalsLoading,
+  signalsError,
+  anchors,
+}: SignalReplayProps) {
+  const ordered = useMemo(() => replayOrder(signals), [signals]);
+  const snapshots = useMemo(() => replaySnapshots(anchors), [anchors]);
+  const [index, setIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState<ReplaySpeed>(1);
+
+  const last = ordered.length - 1;
+  const position = Math.min(index, Math.max(last, 0));
+  const signal = ordered[position] ?? null;
+
+  useEffect(() => {
+    if (!playing) return;
+    if (position >= last) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setIndex(position + 1), replayIntervalMs(speed));
+    return () => clearTimeout(timer);
+  }, [playing, position, last, speed]);
+
+  const replay = useMemo(
+    () => (signal ? graphStateAt(graph, signal.sessionSignalOrdinal) : undefined),
+    [graph, signal],
+  );
+  const snapshot = useMemo(
+    () => (signal ? snapshotAt(snapshots, signal.sessionSignalOrdinal) : null),
+    [snapshots, signal],
+  );
+
+  if (signalsLoading) {
+    return <div className="rounded border border-gray-200 bg-white p-8 text-center text-gray-500">Loading signals…</div>;
+  }
+  if (signalsError) {
+    return (
+      <div className="rounded border border-red-200 bg-red-50 p-4 text-red-700">
+        <strong>Failed to load signals:</strong> {signalsError}
+      </div>
+    );
+  }
+  if (!signal || !replay) {
+    return (
+      <div className="rounded border border-gray-200 bg-gray-50 p-6 text-sm text-gray-600">
+        No signals recorded for this session — nothing to replay.
+      </div>
+    );
+  }
+
+  const seek = (i: number) => setIndex(Math.max(0, Math.min(last, i)));
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded border border-gray-200 bg-white p-3 text-sm space-y-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <ControlButton label="⏮" title="First signal" onClick={() => seek(0)} disabled={position === 0} />
+          <ControlButton label="◀" title="Previous signal" onClick={() => seek(position - 1)} disabled={position === 0} />
+          <ControlButton
+            label={playing ? "⏸" : "▶"}
+            title={playing ? "Pause" : "Play"}
+            onClick={() => {
+              // Playing from the end restarts the replay.
+              if (!playing && position >= last) seek(0);
+              setPlaying((p) => !p);
+            }}
+            disabled={last === 0}
+          />
+          <ControlButton label="▶|" title="Next signal" onClick={() => seek(position + 1)} disabled={position >= last} />
+          <ControlButton label="⏭" title="Last signal" onClick={() => seek(last)} disabled={position >= last} />
+          <select
+            className="rounded border border-gray-300 px-2 py-1 text-xs"
+            value={speed}
+            onChange={(e) => setSpeed(Number(e.target.value) as ReplaySpeed)}
+            aria-label="Playback speed"
+          >
+            {REPLAY_SPEEDS.map((s) => (
+              <option key={s} value={s}>
+                {s}×
+              </option>
+            ))}
+          </select>
+          <span className="ml-auto text-xs text-gray-600">
+            Signal {position + 1} of {ordered.length}
+            {truncated && <span className="ml-1 text-amber-600">(truncated)</span>}
+          </span>
+        </div>
+        <input
+          type="range"
+          min={0}
+          max={Math.max(last, 0)}
+          value={position}
+          onChange={(e) => {
+            setPlaying(false);
+            seek(Number(e.target.value));
+          }}
+          className="w-full"
+          aria-label="Replay position"
+        />
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs">
+          <span className="font-mono text-gray-500">ord={signal.sessionSignalOrdinal}</span>
+          <span className="font-mono">{signal.occurredAtUtc}</span>
+          <span className="font-medium">{signal.kind}</span>
+          <span className="text-gray-600">{signal.sourceOrigin}</span>
+          <span className="text-gray-400">·</span>
+          <span className="text-gray-700">
+            stage=<code className="font-mono">{replay.stage ?? "—"}</code> · step=
+            <code className="font-mono">{replay.stepIndex ?? "—"}</code>
+          </span>
+        </div>
+      </div>
+
+      <DecisionGraph graph={graph} truncated={truncated} replay={replay} />
+
+      <div className="grid grid-cols-1 items-start gap-4 lg:grid-cols-2">
+        <div className="rounded border border-gray-200 bg-white p-4 text-sm">
+          <h3 className="mb-2 font-semibold">Steps from this signal</h3>
+          {replay.firedEdges.length === 0 ? (
+            <p className="text-xs text-gray-500">The reducer took no step on this signal.</p>
+          ) : (
+            <ul className="space-y-1">
+              {replay.firedEdges.map((e) => (
+                <li
+                  key={e.stepIndex}
+                  className={`rounded border px-2 py-1 text-xs ${
+                    e.taken ? "border-blue-200 bg-blue-50" : "border-amber-200 bg-amber-50"
+                  }`}
+                >
+                  <span className="font-mono text-gray-500">#{e.stepIndex}</span>{" "}
+                  <span className="font-mono">{e.trigger}</span>:{" "}
+                  {e.fromStage === e.toStage ? e.fromStage : `${e.fromStage} → ${e.toStage}`}
+                  {!e.taken && (
+                    <span className="ml-1 font-mono text-amber-800">🚫 {e.deadEndReason ?? "(unknown)"}</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {snapshot ? (
+          <div className="space-y-1">
+            {!snapshot.exact && (
+              <p className="text-xs text-gray-500">
+                Latest snapshot before this signal — taken after ordinal{" "}
+                {snapshot.lastAppliedSignalOrdinal}. Snapshots are only emitted on lifecycle anchors.
+              </p>
+            )}
+            <DecisionStateCard
+              key={`${snapshot.lastAppliedSignalOrdinal}-${snapshot.eventType}`}
+              snapshot={snapshot.snapshot}
+              title={`Snapshot at ${snapshot.eventType}`}
+            />
+          </div>
+        ) : (
+          <div className="rounded border border-gray-200 bg-gray-50 p-4 text-xs text-gray-500">
+            No DecisionState snapshot had been emitted yet at this signal.
+            {snapshots.length === 0 && " This session carries no lifecycle-anchor snapshots."}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ControlButton({
+  label,
+  title,
+  onClick,
+  disabled,
+}: {
+  label: string;
+  title: string;
+  onClick: () => void;
+  disabled?: boolean;
+}) {
+  return (
+    <button
+      type="button"
+      title={title}
+      aria-label={title}
+      onClick={onClick}
+      disabled={disabled}
+      className="rounded border border-gray-300 px-2 py-1 text-xs hover:bg-gray-50 disabled:opacity-40"
+    >
+      {label}
+    </button>
+  );
+}
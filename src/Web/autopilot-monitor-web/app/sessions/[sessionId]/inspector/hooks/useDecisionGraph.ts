@@ -23,6 +23,9 @@ export interface UseDecisionGraphReturn {
  * Loads the pre-projected DecisionGraph for the session. The Inspector treats
  * an empty Nodes list as the "this session has no V2 decision data" lineage
  * signal — V1-agent sessions return a 200 with `nodes: []`.
+ *
+ * An empty `sessionId` loads nothing and is not "loading" — compare mode uses
+ * that for its second graph until a session to compare against is picked.
  */
 export function useDecisionGraph({
   sessionId,
@@ -31,12 +34,18 @@ export function useDecisionGraph({
 }: UseDecisionGraphParams): UseDecisionGraphReturn {
   const [graph, setGraph] = useState<DecisionGraphProjection | null>(null);
   const [truncated, setTruncated] = useState(false);
-  const [loading, setLoading] = useState(true);
+  const [loading, setLoading] = useState(Boolean(sessionId));
   const [error, setError] = useState<string | null>(null);
   const [reloadCounter, setReloadCounter] = useState(0);
 
   useEffect(() => {
-    if (!sessionId) return;
+    if (!sessionId) {
+      setGraph(null);
+      setTruncated(false);
+      setError(null);
+      setLoading(false);
+      return;
+    }
     let aborted = false;
 
     setLoading(true);
@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEADLINES,
+  LATEST_REDUCER_VERSION,
+  REDUCER_TABLES,
+  decodeSignal,
+  initialReducerState,
+  reduce,
+  type ReducerSignal,
+  type ReducerState,
+  type ReducerTransition,
+} from "../decisionReducer";
+import type { SignalRecord } from "../../types";
+
+const T0 = Date.parse("2026-04-27T10:00:00Z");
+const table = REDUCER_TABLES[LATEST_REDUCER_VERSION];
+
+const sig = (ordinal: number, kind: string, payload: Record<string, string> | null = null, atSeconds = ordinal): ReducerSignal => ({
+  ordinal,
+  kind,
+  kindSchemaVersion: 1,
+  occurredAtUtc: T0 + atSeconds * 1000,
+  payload,
+});
+
+function run(signals: ReducerSignal[], start: ReducerState = initialReducerState()) {
+  let state = start;
+  const transitions: ReducerTransition[] = [];
+  for (const signal of signals) {
+    const step = reduce(table, state, signal);
+    state = step.state;
+    transitions.push(step.transition);
+  }
+  return { state, transitions };
+}
+
+const classic = [
+  sig(0, "SessionStarted"),
+  sig(1, "EspPhaseChanged", { phase: "DeviceSetup" }),
+  sig(2, "EspPhaseChanged", { phase: "AccountSetup" }),
+  sig(3, "AccountSetupProvisioningComplete"),
+  sig(4, "EspExiting"),
+  sig(5, "HelloResolved", { outcome: "Success" }),
+  sig(6, "DesktopArrived"),
+  sig(11, "DeadlineFired", { deadline: DEADLINES.finalizingGrace }),
+];
+
+describe("reduce", () => {
+  it("walks a classic user-driven enrollment to Completed", () => {
+    const { state, transitions } = run(classic);
+    expect(transitions.map((t) => `${t.fromStage}->${t.toStage}`)).toEqual([
+      "SessionStarted->SessionStarted",
+      "SessionStarted->EspDeviceSetup",
+      "EspDeviceSetup->EspAccountSetup",
+      "EspAccountSetup->EspAccountSetup",
+      "EspAccountSetup->AwaitingHello",
+      "AwaitingHello->AwaitingDesktop",
+      "AwaitingDesktop->Finalizing",
+      "Finalizing->Completed",
+    ]);
+    expect(transitions.map((t) => t.stepIndex)).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    expect(transitions.every((t) => t.taken)).toBe(true);
+    expect(transitions[7].trigger).toBe("DeadlineFired:finalizing_grace");
+    expect(state.stage).toBe("Completed");
+    expect(state.deadlines).toEqual([]);
+    expect(state.lastAppliedSignalOrdinal).toBe(11);
+  });
+
+  it("arms the hello-safety deadline from the signal time on EspExiting", () => {
+    const { state } = run(classic.slice(0, 5));
+    expect(state.deadlines).toEqual([{ name: DEADLINES.helloSafety, dueAtUtc: T0 + 4000 + 5 * 60_000 }]);
+  });
+
+  it("floors deadline bases at the agent boot anchor", () => {
+    const boot = T0 + 60_000;
+    const { state } = run(classic.slice(0, 5), initialReducerState(boot));
+    expect(state.deadlines[0].dueAtUtc).toBe(boot + 5 * 60_000);
+  });
+
+  it("dead-ends signals after a terminal stage except InformationalEvent", () => {
+    const { transitions } = run([...classic, sig(12, "DesktopArrived"), sig(13, "InformationalEvent")]);
+    expect(transitions[8]).toMatchObject({
+      taken: false,
+      fromStage: "Completed",
+      toStage: "Completed",
+      deadEndReason: "signal_after_terminal:Completed",
+    });
+    expect(transitions[9].deadEndReason).not.toBe("signal_after_terminal:Completed");
+  });
+
+  it("dead-ends unknown kinds and schema versions", () => {
+    const { transitions } = run([sig(0, "SessionStarted"), sig(1, "SomethingNew"), { ...sig(2, "EspExiting"), kindSchemaVersion: 2 }]);
+    expect(transitions[1].deadEndReason).toBe("unhandled_signal_kind:SomethingNew:v1");
+    expect(transitions[2].deadEndReason).toBe("unhandled_signal_kind:EspExiting:v2");
+    expect(transitions[2].stepIndex).toBe(3);
+  });
+
+  it("dead-ends a deadline firing without a name", () => {
+    const { transitions } = run([sig(0, "SessionStarted"), sig(1, "DeadlineFired")]);
+    expect(transitions[1]).toMatchObject({ taken: false, deadEndReason: "deadline_fired_without_name" });
+  });
+
+  it("lets a version override a single handler", () => {
+    const patched = {
+      kinds: { ...table.kinds, DesktopArrived: table.kinds.SessionAborted },
+      deadlines: table.deadlines,
+    };
+    const step = reduce(patched, run(classic.slice(0, 6)).state, sig(6, "DesktopArrived"));
+    expect(step.transition).toMatchObject({ trigger: "SessionAborted", toStage: "Failed" });
+  });
+});
+
+describe("decodeSignal", () => {
+  const record = (payloadJson: string): SignalRecord => ({
+    tenantId: "t1",
+    sessionId: "s1",
+    sessionSignalOrdinal: 7,
+    sessionTraceOrdinal: 7,
+    kind: "EspPhaseChanged",
+    kindSchemaVersion: 1,
+    occurredAtUtc: "2026-04-27T10:00:07Z",
+    sourceOrigin: "EspTracker",
+    payloadJson,
+  });
+
+  it("reads the PascalCase Payload dictionary as strings", () => {
+    const { signal, undecodable } = decodeSignal(record('{"Kind":"EspPhaseChanged","Payload":{"phase":"DeviceSetup","n":3}}'));
+    expect(undecodable).toBe(false);
+    expect(signal).toMatchObject({ ordinal: 7, occurredAtUtc: T0 + 7000, payload: { phase: "DeviceSetup", n: "3" } });
+  });
+
+  it("flags payloads that aren't JSON", () => {
+    const { signal, undecodable } = decodeSignal(record("{oops"));
+    expect(undecodable).toBe(true);
+    expect(signal.payload).toBeNull();
+  });
+});
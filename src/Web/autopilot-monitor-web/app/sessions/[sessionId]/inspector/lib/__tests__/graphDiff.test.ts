@@ -0,0 +1,160 @@
+import { describe, expect, it } from "vitest";
+import { buildDiffLayout, diffDecisionGraphs } from "../graphDiff";
+import type { DecisionGraphEdge, DecisionGraphProjection } from "../../types";
+
+const edge = (
+  stepIndex: number,
+  fromStage: string,
+  toStage: string,
+  trigger: string,
+  taken = true,
+  deadEndReason: string | null = null,
+): DecisionGraphEdge => ({
+  stepIndex,
+  fromStage,
+  toStage,
+  trigger,
+  taken,
+  deadEndReason,
+  signalOrdinalRef: stepIndex,
+  occurredAtUtc: "2026-04-27T00:00:00.000Z",
+  classifierVerdictId: null,
+  classifierHypothesisLevel: null,
+});
+
+const graph = (sessionId: string, edges: DecisionGraphEdge[], terminal: Record<string, string> = {}): DecisionGraphProjection => {
+  const ids = Array.from(new Set(edges.flatMap((e) => [e.fromStage, e.toStage])));
+  return {
+    tenantId: "t1",
+    sessionId,
+    nodes: ids.map((id) => ({
+      id,
+      isTerminal: id in terminal,
+      terminalOutcome: terminal[id] ?? null,
+      visitCount: 1,
+    })),
+    edges,
+    reducerVersion: "1.0.0",
+  };
+};
+
+// Both sessions wait in AwaitingHybridJoin. The healthy one (b) sees the join
+// complete at step 3 and finishes; the stuck one (a) keeps getting blocked by
+// the hybrid-join guard until the ESP times out.
+const stuck = graph(
+  "stuck",
+  [
+    edge(1, "Started", "AwaitingHybridJoin", "agent_started"),
+    edge(2, "AwaitingHybridJoin", "AwaitingHybridJoin", "esp_progress"),
+    edge(3, "AwaitingHybridJoin", "EspDeviceSetup", "esp_progress", false, "guard:hybrid_join_pending"),
+    edge(4, "AwaitingHybridJoin", "AwaitingHybridJoin", "esp_progress", false, "guard:hybrid_join_pending"),
+    edge(5, "AwaitingHybridJoin", "Failed", "esp_timeout"),
+  ],
+  { Failed: "Failed" },
+);
+const healthy = graph(
+  "healthy",
+  [
+    edge(1, "Started", "AwaitingHybridJoin", "agent_started"),
+    edge(2, "AwaitingHybridJoin", "AwaitingHybridJoin", "esp_progress"),
+    edge(3, "AwaitingHybridJoin", "EspDeviceSetup", "hybrid_join_completed"),
+    edge(4, "EspDeviceSetup", "Completed", "esp_completed"),
+  ],
+  { Completed: "Succeeded" },
+);
+
+describe("diffDecisionGraphs", () => {
+  it("reports identical graphs as fully shared", () => {
+    const diff = diffDecisionGraphs(healthy, healthy);
+    expect(diff.divergences).toEqual([]);
+    expect(diff.edges.every((g) => g.side === "both")).toBe(true);
+    expect(diff.summary).toEqual({
+      stagesOnlyA: 0,
+      stagesOnlyB: 0,
+      transitionsOnlyA: 0,
+      transitionsOnlyB: 0,
+      deadEndsOnlyA: 0,
+      deadEndsOnlyB: 0,
+    });
+  });
+
+  it("marks stages reached by only one session", () => {
+    const diff = diffDecisionGraphs(stuck, healthy);
+    const sides = Object.fromEntries(Array.from(diff.stages, ([id, s]) => [id, s.side]));
+    expect(sides).toEqual({
+      Started: "both",
+      AwaitingHybridJoin: "both",
+      EspDeviceSetup: "both",
+      Failed: "a",
+      Completed: "b",
+    });
+    expect(diff.stages.get("Failed")?.b).toBeNull();
+    expect(diff.stages.get("AwaitingHybridJoin")?.a).toMatchObject({ internal: 1, blocked: 1 });
+    expect(diff.stages.get("AwaitingHybridJoin")?.b).toMatchObject({ internal: 1, blocked: 0 });
+  });
+
+  it("groups edges by path and outcome, not by step", () => {
+    const diff = diffDecisionGraphs(stuck, healthy);
+    const byKey = Object.fromEntries(diff.edges.map((g) => [g.key, [g.side, g.aSteps, g.bSteps]]));
+    expect(byKey["Started→AwaitingHybridJoin|taken"]).toEqual(["both", [1], [1]]);
+    expect(byKey["AwaitingHybridJoin→EspDeviceSetup|taken"]).toEqual(["b", [], [3]]);
+    expect(byKey["AwaitingHybridJoin→EspDeviceSetup|blocked:guard:hybrid_join_pending"]).toEqual(["a", [3], []]);
+    expect(diff.summary).toMatchObject({
+      stagesOnlyA: 1,
+      stagesOnlyB: 1,
+      transitionsOnlyA: 1,
+      transitionsOnlyB: 2,
+      deadEndsOnlyA: 2,
+      deadEndsOnlyB: 0,
+    });
+  });
+
+  it("finds divergence points only where both sessions share the source stage", () => {
+    const diff = diffDecisionGraphs(stuck, healthy);
+    // Step 4 is not a divergence: the sessions already sit in different stages.
+    expect(diff.divergences).toEqual([
+      {
+        key: "3:esp_progress:hybrid_join_completed",
+        stepIndex: 3,
+        fromStage: "AwaitingHybridJoin",
+        a: { trigger: "esp_progress", toStage: "EspDeviceSetup", taken: false, deadEndReason: "guard:hybrid_join_pending" },
+        b: { trigger: "hybrid_join_completed", toStage: "EspDeviceSetup", taken: true, deadEndReason: null },
+      },
+    ]);
+    expect(diff.stages.get("AwaitingHybridJoin")?.divergesAt).toEqual([3]);
+  });
+
+  it("reports where a journal ends while the other continues from the same stage", () => {
+    const cutShort = graph("short", healthy.edges.slice(0, 2));
+    const diff = diffDecisionGraphs(cutShort, healthy);
+    expect(diff.divergences).toHaveLength(1);
+    expect(diff.divergences[0]).toMatchObject({ stepIndex: 3, fromStage: "AwaitingHybridJoin", a: null });
+    expect(diff.divergences[0].b?.trigger).toBe("hybrid_join_completed");
+  });
+});
+
+describe("buildDiffLayout", () => {
+  it("overlays the union of stages with one edge per inter-stage group", () => {
+    const diff = diffDecisionGraphs(stuck, healthy);
+    const layout = buildDiffLayout(stuck, healthy, diff);
+    expect(layout.nodes.map((n) => n.id).sort()).toEqual(
+      ["AwaitingHybridJoin", "Completed", "EspDeviceSetup", "Failed", "Started"],
+    );
+    const ids = layout.edges.map((e) => e.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    // Self-loops stay off the canvas, as in the single-session layout.
+    expect(layout.edges.every((e) => e.source !== e.target)).toBe(true);
+    const blocked = layout.edges.find((e) => e.data?.diff?.key === "AwaitingHybridJoin→EspDeviceSetup|blocked:guard:hybrid_join_pending");
+    expect(blocked?.data).toMatchObject({ taken: false, deadEndReason: "guard:hybrid_join_pending" });
+    expect(blocked?.data?.diff?.side).toBe("a");
+  });
+
+  it("keeps session A's counters on the node and both sides in the diff", () => {
+    const diff = diffDecisionGraphs(stuck, healthy);
+    const node = buildDiffLayout(stuck, healthy, diff).nodes.find((n) => n.id === "Completed")!;
+    expect(node.data.category).toBe("terminal-success");
+    expect(node.data.entered).toBe(0);
+    expect(node.data.diff?.side).toBe("b");
+    expect(node.data.diff?.b?.entered).toBe(1);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { LATEST_REDUCER_VERSION } from "../decisionReducer";
+import { replaySignals, verifyReducer } from "../reducerVerification";
+import type { DecisionGraphEdge, DecisionGraphProjection, SignalRecord } from "../../types";
+
+const signal = (ordinal: number, kind: string, payload: Record<string, string> = {}): SignalRecord => ({
+  tenantId: "t1",
+  sessionId: "s1",
+  sessionSignalOrdinal: ordinal,
+  sessionTraceOrdinal: ordinal,
+  kind,
+  kindSchemaVersion: 1,
+  occurredAtUtc: new Date(Date.parse("2026-04-27T10:00:00Z") + ordinal * 1000).toISOString(),
+  sourceOrigin: "Agent",
+  payloadJson: JSON.stringify({ Kind: kind, Payload: payload }),
+});
+
+const signals = [
+  signal(0, "SessionStarted"),
+  signal(1, "EspPhaseChanged", { phase: "DeviceSetup" }),
+  signal(2, "EspPhaseChanged", { phase: "AccountSetup" }),
+  signal(3, "AccountSetupProvisioningComplete"),
+  signal(4, "EspExiting"),
+];
+
+const edge = (
+  stepIndex: number,
+  signalOrdinalRef: number,
+  trigger: string,
+  fromStage: string,
+  toStage: string,
+): DecisionGraphEdge => ({
+  stepIndex,
+  fromStage,
+  toStage,
+  trigger,
+  taken: true,
+  deadEndReason: null,
+  signalOrdinalRef,
+  occurredAtUtc: "2026-04-27T10:00:00.000Z",
+  classifierVerdictId: null,
+  classifierHypothesisLevel: null,
+});
+
+const storedEdges = [
+  edge(1, 0, "SessionStarted", "SessionStarted", "SessionStarted"),
+  edge(2, 1, "EspPhaseChanged", "SessionStarted", "EspDeviceSetup"),
+  edge(3, 2, "EspPhaseChanged", "EspDeviceSetup", "EspAccountSetup"),
+  edge(4, 3, "AccountSetupProvisioningComplete", "EspAccountSetup", "EspAccountSetup"),
+  edge(5, 4, "EspExiting", "EspAccountSetup", "AwaitingHello"),
+];
+
+const graph = (edges: DecisionGraphEdge[], reducerVersion = LATEST_REDUCER_VERSION): DecisionGraphProjection => ({
+  tenantId: "t1",
+  sessionId: "s1",
+  nodes: [],
+  edges,
+  reducerVersion,
+});
+
+describe("replaySignals", () => {
+  it("replays in ordinal order and reports gaps", () => {
+    const result = replaySignals([signals[4], signals[0], signals[1], signals[0]], LATEST_REDUCER_VERSION);
+    expect(result.transitions.map((t) => t.signalOrdinalRef)).toEqual([0, 1, 4]);
+    expect(result.missingOrdinals).toEqual([2, 3]);
+  });
+
+  it("rejects versions that have no port", () => {
+    expect(() => replaySignals(signals, "9.9.9.9")).toThrow(/No ported reducer/);
+  });
+});
+
+describe("verifyReducer", () => {
+  it("reports no divergence when the journal matches the replay", () => {
+    const result = verifyReducer(graph(storedEdges), signals, LATEST_REDUCER_VERSION);
+    expect(result.divergences).toEqual([]);
+    expect(result.comparedSteps).toBe(5);
+    expect(result.finalStageMatches).toBe(true);
+    expect(result.versionDrift).toBe(false);
+  });
+
+  it("lists the fields a diverging step differs in", () => {
+    const tampered = storedEdges.map((e) =>
+      e.stepIndex === 5 ? { ...e, toStage: "AwaitingDesktop", taken: false, deadEndReason: "guard" } : e,
+    );
+    const result = verifyReducer(graph([...tampered].reverse()), signals, LATEST_REDUCER_VERSION);
+    expect(result.divergences).toHaveLength(1);
+    expect(result.divergences[0]).toMatchObject({
+      stepIndex: 5,
+      signalOrdinal: 4,
+      signalKind: "EspExiting",
+      fields: ["toStage", "taken", "deadEndReason"],
+    });
+    expect(result.finalStageMatches).toBe(false);
+  });
+
+  it("treats a missing dead-end reason like an empty one", () => {
+    const withEmptyReason = storedEdges.map((e) => ({ ...e, deadEndReason: "" }));
+    expect(verifyReducer(graph(withEmptyReason), signals, LATEST_REDUCER_VERSION).divergences).toEqual([]);
+  });
+
+  it("flags replays under a different version than the journal's", () => {
+    const result = verifyReducer(graph(storedEdges, "1.9.0.0"), signals, LATEST_REDUCER_VERSION);
+    expect(result.versionDrift).toBe(true);
+    expect(result.storedReducerVersion).toBe("1.9.0.0");
+  });
+
+  it("compares only the overlapping steps when counts differ", () => {
+    const result = verifyReducer(graph(storedEdges.slice(0, 3)), signals, LATEST_REDUCER_VERSION);
+    expect(result.comparedSteps).toBe(3);
+    expect(result.signalCount).toBe(5);
+    expect(result.storedStepCount).toBe(3);
+    expect(result.divergences).toEqual([]);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import type { EnrollmentEvent } from "@/types";
+import {
+  graphStateAt,
+  replayIntervalMs,
+  replayOrder,
+  replaySnapshots,
+  snapshotAt,
+} from "../signalReplay";
+import type { DecisionGraphEdge, DecisionGraphProjection, SignalRecord } from "../../types";
+
+const edge = (
+  stepIndex: number,
+  signalOrdinalRef: number,
+  fromStage: string,
+  toStage: string,
+  taken = true,
+  deadEndReason: string | null = null,
+): DecisionGraphEdge => ({
+  stepIndex,
+  fromStage,
+  toStage,
+  trigger: `trigger_${stepIndex}`,
+  taken,
+  deadEndReason,
+  signalOrdinalRef,
+  occurredAtUtc: "2026-04-27T00:00:00.000Z",
+  classifierVerdictId: null,
+  classifierHypothesisLevel: null,
+});
+
+const graph: DecisionGraphProjection = {
+  tenantId: "t1",
+  sessionId: "s1",
+  nodes: ["Started", "EspDeviceSetup", "Completed"].map((id) => ({
+    id,
+    isTerminal: id === "Completed",
+    terminalOutcome: id === "Completed" ? "Succeeded" : null,
+    visitCount: 1,
+  })),
+  edges: [
+    edge(1, 1, "Started", "EspDeviceSetup"),
+    edge(2, 2, "EspDeviceSetup", "EspDeviceSetup"),
+    edge(3, 4, "EspDeviceSetup", "Completed", false, "guard:hello_pending"),
+    edge(4, 4, "EspDeviceSetup", "EspDeviceSetup", false, "guard:hello_pending"),
+    edge(5, 6, "EspDeviceSetup", "Completed"),
+  ],
+  reducerVersion: "1.0.0",
+};
+
+const anchor = (sequence: number, eventType: string, decisionState: Record<string, unknown> | null): EnrollmentEvent => ({
+  eventId: `e${sequence}`,
+  sessionId: "s1",
+  timestamp: "2026-04-27T00:00:00Z",
+  eventType,
+  severity: "Info",
+  source: "Agent",
+  phase: -1,
+  message: "",
+  sequence,
+  data: decisionState ? { decisionState } : {},
+});
+
+describe("graphStateAt", () => {
+  it("starts in the journal's first stage before any step", () => {
+    const state = graphStateAt(graph, 0);
+    expect(state.stage).toBe("Started");
+    expect(state.stepIndex).toBeNull();
+    expect(state.appliedSteps).toBe(0);
+    expect([...state.visitedStages]).toEqual(["Started"]);
+  });
+
+  it("applies every step produced up to the signal", () => {
+    const state = graphStateAt(graph, 4);
+    // The blocked transition to Completed does not move the session.
+    expect(state.stage).toBe("EspDeviceSetup");
+    expect(state.stepIndex).toBe(4);
+    expect(state.visitedStages.has("Completed")).toBe(false);
+    expect(state.activity.get("EspDeviceSetup")).toMatchObject({ entered: 1, internal: 1, blocked: 1 });
+    expect(state.firedEdges.map((e) => e.stepIndex)).toEqual([3, 4]);
+  });
+
+  it("reports no fired steps for a signal the reducer ignored", () => {
+    const state = graphStateAt(graph, 5);
+    expect(state.firedEdges).toEqual([]);
+    expect(state.stepIndex).toBe(4);
+  });
+
+  it("reaches the final projection at the last signal", () => {
+    const state = graphStateAt(graph, 6);
+    expect(state.stage).toBe("Completed");
+    expect(state.appliedSteps).toBe(graph.edges.length);
+  });
+});
+
+describe("snapshots", () => {
+  const anchors = [
+    anchor(1, "esp_phase_changed", { stage: "EspDeviceSetup", lastAppliedSignalOrdinal: 2 }),
+    anchor(2, "legacy_anchor", { stage: "EspDeviceSetup" }),
+    anchor(3, "desktop_arrived", { stage: "Completed", lastAppliedSignalOrdinal: 6 }),
+    anchor(4, "no_snapshot", null),
+  ];
+
+  it("keeps only snapshots that can be placed on the signal axis", () => {
+    expect(replaySnapshots(anchors).map((s) => s.eventType)).toEqual(["esp_phase_changed", "desktop_arrived"]);
+  });
+
+  it("picks the latest snapshot at or before the ordinal", () => {
+    const snapshots = replaySnapshots(anchors);
+    expect(snapshotAt(snapshots, 1)).toBeNull();
+    expect(snapshotAt(snapshots, 2)).toMatchObject({ eventType: "esp_phase_changed", exact: true });
+    expect(snapshotAt(snapshots, 5)).toMatchObject({ eventType: "esp_phase_changed", exact: false });
+    expect(snapshotAt(snapshots, 9)?.snapshot.stage).toBe("Completed");
+  });
+});
+
+describe("replay helpers", () => {
+  it("orders signals by session ordinal", () => {
+    const signal = (ordinal: number) => ({ sessionSignalOrdinal: ordinal }) as SignalRecord;
+    expect(replayOrder([signal(3), signal(1), signal(2)]).map((s) => s.sessionSignalOrdinal)).toEqual([1, 2, 3]);
+  });
+
+  it("scales the step interval with the speed", () => {
+    expect(replayIntervalMs(1)).toBe(500);
+    expect(replayIntervalMs(4)).toBe(125);
+    expect(replayIntervalMs(0.5)).toBe(1000);
+  });
+});
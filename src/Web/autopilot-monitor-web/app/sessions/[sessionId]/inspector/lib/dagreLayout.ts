@@ -1,6 +1,7 @@
 import dagre from "dagre";
 import type { Edge, Node } from "@xyflow/react";
 import type { DecisionGraphNode, DecisionGraphEdge } from "../types";
+import type { EdgeGroupDiff, StageDiff } from "./graphDiff";
 
 /** Logical category of a graph node — drives renderer + colour. */
 export type NodeCategory = "stage" | "terminal-success" | "terminal-failed" | "terminal-paused";
@@ -28,6 +29,10 @@ export interface InspectorNodeData {
   /** Aggregated dead-end reasons for self-loop blocks (sorted by count desc). */
   blockedReasons: BlockedReason[];
   terminalOutcome: string | null;
+  /** Compare mode only — how this stage differs between the two sessions. */
+  diff?: StageDiff;
+  /** Replay mode only — whether the session had reached this stage at the scrubber position. */
+  replay?: "current" | "visited" | "pending";
   [key: string]: unknown;
 }
 
@@ -40,9 +45,19 @@ export interface InspectorEdgeData {
   classifierHypothesisLevel: string | null;
   signalOrdinalRef: number;
   occurredAtUtc: string;
+  /** Compare mode only — the edge stands for a group of equal transitions across both sessions. */
+  diff?: EdgeGroupDiff;
   [key: string]: unknown;
 }
 
+/** Per-stage activity projected from a session's edge list (see InspectorNodeData). */
+export interface StageActivity {
+  entered: number;
+  internal: number;
+  blocked: number;
+  blockedReasons: BlockedReason[];
+}
+
 const NODE_WIDTH = 200;
 // Node height grows when blocked > 0 (extra row for the badge). Layout uses
 // the larger value so dagre reserves room either way; the renderer paints the
@@ -72,34 +87,8 @@ export function buildLayout(
   nodes: DecisionGraphNode[],
   edges: DecisionGraphEdge[],
 ): { nodes: Node<InspectorNodeData>[]; edges: Edge<InspectorEdgeData>[] } {
-  // Per-stage counters projected from the edge list before we touch dagre.
-  const enteredByStage = new Map<string, number>();
-  const internalByStage = new Map<string, number>();
-  const blockedByStage = new Map<string, Map<string, number>>(); // stage → reason → count
-
-  const interStageEdges: DecisionGraphEdge[] = [];
-
-  for (const e of edges) {
-    const isSelfLoop = e.fromStage === e.toStage;
-    if (isSelfLoop) {
-      if (e.taken) {
-        internalByStage.set(e.fromStage, (internalByStage.get(e.fromStage) ?? 0) + 1);
-      } else {
-        const reason = e.deadEndReason ?? "(unknown)";
-        let inner = blockedByStage.get(e.fromStage);
-        if (!inner) {
-          inner = new Map<string, number>();
-          blockedByStage.set(e.fromStage, inner);
-        }
-        inner.set(reason, (inner.get(reason) ?? 0) + 1);
-      }
-      continue;
-    }
-    interStageEdges.push(e);
-    if (e.taken) {
-      enteredByStage.set(e.toStage, (enteredByStage.get(e.toStage) ?? 0) + 1);
-    }
-  }
+  const activity = countStageActivity(edges);
+  const interStageEdges = edges.filter((e) => e.fromStage !== e.toStage);
 
   // Layout only on the inter-stage edges — keeps the canvas readable.
   const g = new dagre.graphlib.Graph();
@@ -116,13 +105,7 @@ export function buildLayout(
 
   const layoutNodes: Node<InspectorNodeData>[] = nodes.map((n) => {
     const pos = g.node(n.id);
-    const blockedMap = blockedByStage.get(n.id);
-    const blockedReasons: BlockedReason[] = blockedMap
-      ? Array.from(blockedMap.entries())
-          .map(([reason, count]) => ({ reason, count }))
-          .sort((a, b) => b.count - a.count)
-      : [];
-    const blocked = blockedReasons.reduce((acc, r) => acc + r.count, 0);
+    const stage = activity.get(n.id);
 
     return {
       id: n.id,
@@ -134,10 +117,10 @@ export function buildLayout(
         label: n.id,
         stageId: n.id,
         category: classifyNode(n),
-        entered: enteredByStage.get(n.id) ?? 0,
-        internal: internalByStage.get(n.id) ?? 0,
-        blocked,
-        blockedReasons,
+        entered: stage?.entered ?? 0,
+        internal: stage?.internal ?? 0,
+        blocked: stage?.blocked ?? 0,
+        blockedReasons: stage?.blockedReasons ?? [],
         terminalOutcome: n.terminalOutcome,
       },
     };
@@ -167,6 +150,53 @@ export function buildLayout(
   return { nodes: layoutNodes, edges: layoutEdges };
 }
 
+/**
+ * Per-stage counters: taken inter-stage transitions count as `entered` on the
+ * target, self-loops as `internal` (taken) or `blocked` (dead-end, aggregated
+ * by reason) on the stage itself. Stages without any activity are absent.
+ */
+export function countStageActivity(edges: DecisionGraphEdge[]): Map<string, StageActivity> {
+  const enteredByStage = new Map<string, number>();
+  const internalByStage = new Map<string, number>();
+  const blockedByStage = new Map<string, Map<string, number>>(); // stage → reason → count
+
+  for (const e of edges) {
+    if (e.fromStage === e.toStage) {
+      if (e.taken) {
+        internalByStage.set(e.fromStage, (internalByStage.get(e.fromStage) ?? 0) + 1);
+      } else {
+        const reason = e.deadEndReason ?? "(unknown)";
+        let inner = blockedByStage.get(e.fromStage);
+        if (!inner) {
+          inner = new Map<string, number>();
+          blockedByStage.set(e.fromStage, inner);
+        }
+        inner.set(reason, (inner.get(reason) ?? 0) + 1);
+      }
+    } else if (e.taken) {
+      enteredByStage.set(e.toStage, (enteredByStage.get(e.toStage) ?? 0) + 1);
+    }
+  }
+
+  const stages = new Set([...enteredByStage.keys(), ...internalByStage.keys(), ...blockedByStage.keys()]);
+  const result = new Map<string, StageActivity>();
+  for (const stage of stages) {
+    const blockedMap = blockedByStage.get(stage);
+    const blockedReasons: BlockedReason[] = blockedMap
+      ? Array.from(blockedMap.entries())
+          .map(([reason, count]) => ({ reason, count }))
+          .sort((a, b) => b.count - a.count)
+      : [];
+    result.set(stage, {
+      entered: enteredByStage.get(stage) ?? 0,
+      internal: internalByStage.get(stage) ?? 0,
+      blocked: blockedReasons.reduce((acc, r) => acc + r.count, 0),
+      blockedReasons,
+    });
+  }
+  return result;
+}
+
 function classifyNode(n: DecisionGraphNode): NodeCategory {
   if (!n.isTerminal) return "stage";
   switch (n.terminalOutcome) {
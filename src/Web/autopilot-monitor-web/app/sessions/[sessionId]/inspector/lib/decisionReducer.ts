@@ -0,0 +1,911 @@
+import type { SignalRecord } from "../types";
+
+/**
+ * TypeScript port of the decision reducer's transition table
+ * (`AutopilotMonitor.DecisionCore/Engine/DecisionEngine.*.cs`).
+ *
+ * Only what decides a transition is ported: the stage machine, the facts its
+ * guards read, the armed deadlines (name + due time) and the scenario-profile
+ * bits the SelfDeploying / WhiteGlove guards consult. Effects (timeline
+ * entries, audit trails, classifier runs) are left out — the Inspector only
+ * compares Trigger / FromStage / ToStage / Taken / DeadEndReason / StepIndex,
+ * exactly what the backend `ReducerVerifier` compares.
+ *
+ * Deadlines are never simulated: the agent journals every firing as a
+ * `DeadlineFired` signal, so replaying the recorded stream replays them too.
+ *
+ * Reducer versions live in {@link REDUCER_TABLES}. To validate an upgrade,
+ * add an entry that spreads the previous table and overrides the handlers the
+ * C# change touches, then re-run real sessions against it in the Inspector.
+ */
+
+// ============================================================ wire → signal
+
+export interface ReducerSignal {
+  ordinal: number;
+  kind: string;
+  kindSchemaVersion: number;
+  /** Epoch milliseconds. */
+  occurredAtUtc: number;
+  /** `DecisionSignal.Payload` (string → string), null when absent. */
+  payload: Record<string, string> | null;
+}
+
+/**
+ * Decode a stored signal row. Kind, schema version and timestamp come from
+ * the row; the payload dictionary from the agent-serialized `payloadJson`
+ * (Newtonsoft, PascalCase). Returns `payload: null` plus `undecodable: true`
+ * when the blob isn't valid JSON — the reducer then sees a payload-less signal.
+ */
+export function decodeSignal(record: SignalRecord): { signal: ReducerSignal; undecodable: boolean } {
+  let payload: Record<string, string> | null = null;
+  let undecodable = false;
+  if (record.payloadJson) {
+    try {
+      const raw = (JSON.parse(record.payloadJson) as { Payload?: unknown }).Payload;
+      if (raw && typeof raw === "object") {
+        payload = {};
+        for (const [k, v] of Object.entries(raw as Record<string, unknown>)) {
+          if (typeof v === "string") payload[k] = v;
+          else if (v !== null && v !== undefined) payload[k] = String(v);
+        }
+      }
+    } catch {
+      undecodable = true;
+    }
+  }
+  return {
+    signal: {
+      ordinal: record.sessionSignalOrdinal,
+      kind: record.kind,
+      kindSchemaVersion: record.kindSchemaVersion || 1,
+      occurredAtUtc: Date.parse(record.occurredAtUtc),
+      payload,
+    },
+    undecodable,
+  };
+}
+
+// ============================================================ state
+
+/** `SessionStage` values the reducer moves between. */
+export type SessionStage =
+  | "Unknown"
+  | "SessionStarted"
+  | "AwaitingEspPhaseChange"
+  | "EspDeviceSetup"
+  | "EspAccountSetup"
+  | "AwaitingHello"
+  | "AwaitingDesktop"
+  | "DesktopArrivedEspBlocking"
+  | "Finalizing"
+  | "AwaitingDeviceSetupProvisioning"
+  | "AwaitingDeviceOnlyEsp"
+  | "WhiteGloveCandidate"
+  | "WhiteGloveSealed"
+  | "Completed"
+  | "Failed";
+
+/** `DeadlineNames` wire values. */
+export const DEADLINES = {
+  helloSafety: "hello_safety",
+  deviceOnlyEspDetection: "device_only_esp_detection",
+  classifierTick: "classifier_tick",
+  finalizingGrace: "finalizing_grace",
+  realmJoinTimeout: "realmjoin_timeout",
+  advisoryCompletion: "advisory_completion",
+} as const;
+
+const MINUTE = 60_000;
+const WINDOWS: Record<string, number> = {
+  [DEADLINES.helloSafety]: 5 * MINUTE,
+  [DEADLINES.deviceOnlyEspDetection]: 5 * MINUTE,
+  [DEADLINES.classifierTick]: 30_000,
+  [DEADLINES.finalizingGrace]: 5_000,
+  [DEADLINES.realmJoinTimeout]: 60 * MINUTE,
+  [DEADLINES.advisoryCompletion]: 30 * MINUTE,
+};
+
+type EnrollmentMode = "Unknown" | "Classic" | "DevicePreparation" | "SelfDeploying" | "WhiteGlove";
+
+/** `ProfileConfidence` — numeric so `Max` compares like the C# enum. */
+const LOW = 0;
+const MEDIUM = 1;
+const HIGH = 2;
+
+/** `HypothesisLevel` names by enum value (C# compares the underlying ints). */
+const HYPOTHESIS_LEVELS = ["Unknown", "Weak", "Strong", "Confirmed", "Rejected", "Inconclusive"] as const;
+const STRONG = 2;
+const CONFIRMED = 3;
+
+export interface ReducerState {
+  stage: SessionStage;
+  stepIndex: number;
+  lastAppliedSignalOrdinal: number;
+  /** Replay-safety floor for deadline bases (`DecisionState.AgentBootUtc`). */
+  agentBootUtc: number | null;
+  deviceSetupEnteredUtc: number | null;
+  accountSetupEnteredUtc: number | null;
+  finalizingEnteredUtc: number | null;
+  accountSetupProvisioningSucceededUtc: number | null;
+  deviceSetupResolvedUtc: number | null;
+  espFinalExitUtc: number | null;
+  espAdvisoryFailureRecordedUtc: number | null;
+  desktopArrivedUtc: number | null;
+  helloResolvedUtc: number | null;
+  helloOutcome: string | null;
+  helloPolicyEnabled: boolean | null;
+  imeUserSessionCompletedUtc: number | null;
+  systemRebootUtc: number | null;
+  deadlines: { name: string; dueAtUtc: number }[];
+  profile: { mode: EnrollmentMode; confidence: number; espConfigKnown: boolean };
+  observations: {
+    skipUserEsp: boolean | null;
+    skipDeviceEsp: boolean | null;
+    espAllowContinueAnyway: boolean | null;
+    aadUserJoinWithUser: boolean | null;
+    shellCoreWhiteGloveSuccessSeen: boolean;
+    whiteGloveSealingPatternSeen: boolean;
+  };
+  /** `ClassifierOutcomes.DeviceOnlyDeployment`. */
+  deviceOnlyDeployment: { level: number; reason: string | null };
+  realmJoin: {
+    detectedUtc: number | null;
+    resolvedUtc: number | null;
+    outcome: "Resolved" | "Timeout" | null;
+    selfDeployingDeferred: boolean;
+  };
+}
+
+/** `DecisionState.CreateInitial` — the seed every replay starts from. */
+export function initialReducerState(agentBootUtc: number | null = null): ReducerState {
+  return {
+    stage: "SessionStarted",
+    stepIndex: 0,
+    lastAppliedSignalOrdinal: -1,
+    agentBootUtc,
+    deviceSetupEnteredUtc: null,
+    accountSetupEnteredUtc: null,
+    finalizingEnteredUtc: null,
+    accountSetupProvisioningSucceededUtc: null,
+    deviceSetupResolvedUtc: null,
+    espFinalExitUtc: null,
+    espAdvisoryFailureRecordedUtc: null,
+    desktopArrivedUtc: null,
+    helloResolvedUtc: null,
+    helloOutcome: null,
+    helloPolicyEnabled: null,
+    imeUserSessionCompletedUtc: null,
+    systemRebootUtc: null,
+    deadlines: [],
+    profile: { mode: "Unknown", confidence: LOW, espConfigKnown: false },
+    observations: {
+      skipUserEsp: null,
+      skipDeviceEsp: null,
+      espAllowContinueAnyway: null,
+      aadUserJoinWithUser: null,
+      shellCoreWhiteGloveSuccessSeen: false,
+      whiteGloveSealingPatternSeen: false,
+    },
+    deviceOnlyDeployment: { level: 0, reason: null },
+    realmJoin: { detectedUtc: null, resolvedUtc: null, outcome: null, selfDeployingDeferred: false },
+  };
+}
+
+// ============================================================ transitions
+
+export interface ReducerTransition {
+  stepIndex: number;
+  signalOrdinalRef: number;
+  trigger: string;
+  fromStage: SessionStage;
+  toStage: SessionStage;
+  taken: boolean;
+  deadEndReason: string | null;
+}
+
+export interface ReducerStep {
+  state: ReducerState;
+  transition: ReducerTransition;
+}
+
+/** The table is passed through so `DeadlineFired` dispatches into the same version's sub-table. */
+type Handler = (state: ReducerState, signal: ReducerSignal, table: ReducerTable) => ReducerStep;
+
+/** A reducer version: `(Kind, SchemaVersion 1)` handlers plus the `DeadlineFired` sub-table. */
+export interface ReducerTable {
+  kinds: Partial<Record<string, Handler>>;
+  deadlines: Partial<Record<string, Handler>>;
+}
+
+/** `BumpStepBookkeeping` — a fresh copy with the step consumed. */
+function bump(state: ReducerState, signal: ReducerSignal): ReducerState {
+  return { ...state, stepIndex: state.stepIndex + 1, lastAppliedSignalOrdinal: signal.ordinal };
+}
+
+function taken(before: ReducerState, next: ReducerState, signal: ReducerSignal, trigger: string): ReducerStep {
+  return {
+    state: next,
+    transition: {
+      stepIndex: next.stepIndex,
+      signalOrdinalRef: signal.ordinal,
+      trigger,
+      fromStage: before.stage,
+      toStage: next.stage,
+      taken: true,
+      deadEndReason: null,
+    },
+  };
+}
+
+function deadEnd(
+  before: ReducerState,
+  next: ReducerState,
+  signal: ReducerSignal,
+  trigger: string,
+  reason: string,
+): ReducerStep {
+  return {
+    state: next,
+    transition: {
+      stepIndex: next.stepIndex,
+      signalOrdinalRef: signal.ordinal,
+      trigger,
+      fromStage: before.stage,
+      toStage: before.stage,
+      taken: false,
+      deadEndReason: reason,
+    },
+  };
+}
+
+/** A taken self-transition that only records bookkeeping (diagnostic / fact-only signals). */
+function record(trigger?: string): Handler {
+  return (state, signal) => taken(state, bump(state, signal), signal, trigger ?? signal.kind);
+}
+
+// ============================================================ helpers
+
+function payloadValue(signal: ReducerSignal, key: string): string | undefined {
+  return signal.payload?.[key];
+}
+
+/** `bool.TryParse` — case-insensitive, whitespace-tolerant. */
+function parseBool(raw: string | undefined): boolean | null {
+  const v = raw?.trim().toLowerCase();
+  return v === "true" ? true : v === "false" ? false : null;
+}
+
+function hasDeadline(state: ReducerState, name: string): boolean {
+  return state.deadlines.some((d) => d.name === name);
+}
+
+function cancelDeadline(state: ReducerState, name: string): void {
+  state.deadlines = state.deadlines.filter((d) => d.name !== name);
+}
+
+/** Replace-if-same-name, like `DecisionStateBuilder.AddDeadline`. */
+function armDeadline(state: ReducerState, name: string, dueAtUtc: number): void {
+  state.deadlines = hasDeadline(state, name)
+    ? state.deadlines.map((d) => (d.name === name ? { name, dueAtUtc } : d))
+    : [...state.deadlines, { name, dueAtUtc }];
+}
+
+/** `EffectiveDeadlineBase` — floors historical signal times at the agent boot anchor. */
+function deadlineBase(state: ReducerState, signal: ReducerSignal): number {
+  return state.agentBootUtc !== null && signal.occurredAtUtc < state.agentBootUtc
+    ? state.agentBootUtc
+    : signal.occurredAtUtc;
+}
+
+function armFrom(state: ReducerState, before: ReducerState, signal: ReducerSignal, name: string): void {
+  armDeadline(state, name, deadlineBase(before, signal) + WINDOWS[name]);
+}
+
+function isTerminal(stage: SessionStage): boolean {
+  return stage === "Completed" || stage === "Failed" || stage === "WhiteGloveSealed";
+}
+
+function shouldTransitionToAwaitingHello(state: ReducerState): boolean {
+  return state.accountSetupProvisioningSucceededUtc !== null || state.observations.skipUserEsp === true;
+}
+
+function realmJoinGateOpen(state: ReducerState): boolean {
+  const rj = state.realmJoin;
+  return rj.detectedUtc === null || rj.resolvedUtc !== null || rj.outcome !== null;
+}
+
+function hasHighConfidenceSelfDeployingProfile(state: ReducerState): boolean {
+  return state.profile.mode === "SelfDeploying" && state.profile.confidence === HIGH;
+}
+
+function accountSetupEntryVetoesSelfDeploying(state: ReducerState): boolean {
+  return (
+    state.accountSetupEnteredUtc !== null &&
+    !(hasHighConfidenceSelfDeployingProfile(state) && state.accountSetupProvisioningSucceededUtc === null)
+  );
+}
+
+function monotonicModeConflict(state: ReducerState): boolean {
+  return (
+    state.profile.confidence === HIGH &&
+    state.profile.mode !== "Unknown" &&
+    state.profile.mode !== "SelfDeploying"
+  );
+}
+
+function applySelfDeployingConfirmed(profile: ReducerState["profile"]): ReducerState["profile"] {
+  if (profile.confidence === HIGH && profile.mode !== "SelfDeploying" && profile.mode !== "Unknown") return profile;
+  return { ...profile, mode: "SelfDeploying", confidence: HIGH };
+}
+
+/** `TransitionToFinalizing` — enter Finalizing and arm the grace deadline. */
+function toFinalizing(before: ReducerState, next: ReducerState, signal: ReducerSignal, trigger: string): ReducerStep {
+  next.stage = "Finalizing";
+  armFrom(next, before, signal, DEADLINES.finalizingGrace);
+  return taken(before, next, signal, trigger);
+}
+
+/** `CompleteThroughFinalizingOrDefer` — the completion gates read the pre-signal state. */
+function completeOrDefer(before: ReducerState, next: ReducerState, signal: ReducerSignal, trigger: string): ReducerStep {
+  if (realmJoinGateOpen(before)) return toFinalizing(before, next, signal, trigger);
+  next.stage = before.stage;
+  return taken(before, next, signal, `${trigger}:RealmJoinGateClosed`);
+}
+
+function markHelloSkipped(next: ReducerState, signal: ReducerSignal): void {
+  if (next.helloResolvedUtc !== null) return;
+  next.helloResolvedUtc = signal.occurredAtUtc;
+  next.helloOutcome = "Skipped";
+}
+
+/** `WhiteGloveSealingClassifier.Classify` — only the score matters here. */
+function whiteGloveSealingConfirmed(state: ReducerState): boolean {
+  const o = state.observations;
+  let score = 0;
+  if (o.aadUserJoinWithUser === true) score -= 100;
+  if (state.desktopArrivedUtc !== null) score -= 100;
+  if (state.helloResolvedUtc !== null) score -= 100;
+  if (state.accountSetupEnteredUtc !== null) score -= 40;
+  if (o.shellCoreWhiteGloveSuccessSeen) score += 80;
+  if (o.whiteGloveSealingPatternSeen) score += 40;
+  if (state.deviceOnlyDeployment.level >= STRONG && state.deviceOnlyDeployment.reason === "device_only") score += 15;
+  if (state.systemRebootUtc !== null) score += 15;
+  return Math.min(Math.max(score, 0), 100) >= 70;
+}
+
+function sealWhiteGlove(next: ReducerState): void {
+  next.profile = { ...next.profile, mode: "WhiteGlove", confidence: HIGH };
+  next.stage = "WhiteGloveSealed";
+  next.deadlines = [];
+}
+
+/** `AttachWhiteGloveClassifierEffects` — keeps one classifier tick armed. */
+function ensureClassifierTick(next: ReducerState, signal: ReducerSignal): void {
+  if (!hasDeadline(next, DEADLINES.classifierTick)) armFrom(next, next, signal, DEADLINES.classifierTick);
+}
+
+/** `Enum.TryParse<HypothesisLevel>(ignoreCase)` plus its `ToString()`. */
+function parseHypothesisLevel(raw: string): { level: number; name: string } {
+  const trimmed = raw.trim();
+  if (/^[+-]?\d+$/.test(trimmed)) {
+    const level = Number(trimmed);
+    return { level, name: HYPOTHESIS_LEVELS[level] ?? String(level) };
+  }
+  const index = HYPOTHESIS_LEVELS.findIndex((n) => n.toLowerCase() === trimmed.toLowerCase());
+  return index < 0 ? { level: 0, name: "Unknown" } : { level: index, name: HYPOTHESIS_LEVELS[index] };
+}
+
+// ============================================================ lifecycle
+
+const sessionStarted: Handler = (state, signal) => {
+  if (state.stage !== "SessionStarted" && state.stepIndex !== 0) {
+    return deadEnd(state, bump(state, signal), signal, "SessionStarted", `session_started_in_active_state:${state.stage}`);
+  }
+  return taken(state, { ...bump(state, signal), stage: "SessionStarted" }, signal, "SessionStarted");
+};
+
+function failWith(trigger: string): Handler {
+  return (state, signal) => taken(state, { ...bump(state, signal), stage: "Failed", deadlines: [] }, signal, trigger);
+}
+
+const adminPreemptionDetected: Handler = (state, signal) => {
+  const adminOutcome = payloadValue(signal, "adminOutcome") ?? "Failed";
+  const stage: SessionStage = adminOutcome.toLowerCase() === "succeeded" ? "Completed" : "Failed";
+  return taken(state, { ...bump(state, signal), stage, deadlines: [] }, signal, `AdminPreemption:${adminOutcome}`);
+};
+
+const deadlineFired: Handler = (state, signal, table) => {
+  const name = payloadValue(signal, "deadline");
+  if (!name) return deadEnd(state, bump(state, signal), signal, "DeadlineFired", "deadline_fired_without_name");
+  const handler = table.deadlines[name];
+  if (handler) return handler(state, signal, table);
+  // Unknown deadline names are dropped, not dead-ended (DeadlineNames carries retired names).
+  const next = bump(state, signal);
+  cancelDeadline(next, name);
+  return taken(state, next, signal, `DeadlineFired:${name}`);
+};
+
+// ============================================================ classic
+
+function mapEspPhase(raw: string | undefined): string {
+  switch (raw) {
+    case "DeviceSetup":
+    case "AccountSetup":
+    case "FinalizingSetup":
+    case "Complete":
+      return raw;
+    case "Finalizing":
+      return "FinalizingSetup";
+    default:
+      return "Unknown";
+  }
+}
+
+const espPhaseChanged: Handler = (state, signal) => {
+  const phase = mapEspPhase(payloadValue(signal, "phase"));
+  const next = bump(state, signal);
+  if (phase === "DeviceSetup") next.stage = "EspDeviceSetup";
+  else if (phase === "AccountSetup") next.stage = "EspAccountSetup";
+  else if (phase === "FinalizingSetup" && shouldTransitionToAwaitingHello(state)) next.stage = "AwaitingHello";
+
+  if (phase === "DeviceSetup") next.deviceSetupEnteredUtc ??= signal.occurredAtUtc;
+  if (phase === "FinalizingSetup") next.finalizingEnteredUtc ??= signal.occurredAtUtc;
+  if (phase === "AccountSetup") {
+    next.accountSetupEnteredUtc ??= signal.occurredAtUtc;
+    if (next.profile.mode === "Unknown") {
+      next.profile = { ...next.profile, mode: "Classic", confidence: Math.max(next.profile.confidence, MEDIUM) };
+    }
+    // Kiosk waiver: a registry-confirmed self-deploying profile keeps the device-only deadline.
+    if (!hasHighConfidenceSelfDeployingProfile(state)) cancelDeadline(next, DEADLINES.deviceOnlyEspDetection);
+    if (state.stage === "AwaitingHello") cancelDeadline(next, DEADLINES.helloSafety);
+  }
+  return taken(state, next, signal, "EspPhaseChanged");
+};
+
+const espExiting: Handler = (state, signal) => {
+  const next = bump(state, signal);
+  next.espFinalExitUtc = signal.occurredAtUtc;
+  if (!shouldTransitionToAwaitingHello(state)) {
+    if (state.accountSetupEnteredUtc !== null && !hasDeadline(state, DEADLINES.advisoryCompletion)) {
+      armFrom(next, state, signal, DEADLINES.advisoryCompletion);
+    }
+    return taken(state, next, signal, "EspExiting");
+  }
+  next.stage = "AwaitingHello";
+  armFrom(next, state, signal, DEADLINES.helloSafety);
+  return taken(state, next, signal, "EspExiting");
+};
+
+const helloResolved: Handler = (state, signal) => {
+  const next = bump(state, signal);
+  cancelDeadline(next, DEADLINES.helloSafety);
+  next.helloResolvedUtc = signal.occurredAtUtc;
+  next.helloOutcome = payloadValue(signal, "outcome") ?? "Success";
+  if (state.desktopArrivedUtc !== null) return completeOrDefer(state, next, signal, "HelloResolved");
+  next.stage = "AwaitingDesktop";
+  return taken(state, next, signal, "HelloResolved");
+};
+
+const desktopArrived: Handler = (state, signal) => {
+  const next = bump(state, signal);
+  next.desktopArrivedUtc = signal.occurredAtUtc;
+  const helloAlreadyResolved = state.helloResolvedUtc !== null;
+  if (!helloAlreadyResolved && state.helloPolicyEnabled === false && shouldTransitionToAwaitingHello(state)) {
+    markHelloSkipped(next, signal);
+    cancelDeadline(next, DEADLINES.helloSafety);
+    return completeOrDefer(state, next, signal, "DesktopArrived:HelloDisabledFastPath");
+  }
+  if (helloAlreadyResolved) {
+    cancelDeadline(next, DEADLINES.helloSafety);
+    return completeOrDefer(state, next, signal, "DesktopArrived");
+  }
+  return taken(state, next, signal, "DesktopArrived");
+};
+
+const imeUserSessionCompleted: Handler = (state, signal) => {
+  const next = bump(state, signal);
+  next.imeUserSessionCompletedUtc ??= signal.occurredAtUtc;
+  const p = state.profile;
+  if (!(p.confidence === HIGH && p.mode !== "Classic" && p.mode !== "Unknown")) {
+    next.profile = { ...p, mode: "Classic", confidence: HIGH };
+  }
+  return taken(state, next, signal, "ImeUserSessionCompleted");
+};
+
+const aadUserJoinedLate: Handler = (state, signal) => {
+  const next = bump(state, signal);
+  if (state.observations.aadUserJoinWithUser === null) {
+    next.observations = {
+      ...state.observations,
+      aadUserJoinWithUser: parseBool(payloadValue(signal, "aadJoinedWithUser")) === true,
+    };
+  }
+  return taken(state, next, signal, "AadUserJoinedLate");
+};
+
+const helloSafetyFired: Handler = (state, signal) => {
+  const trigger = `DeadlineFired:${DEADLINES.helloSafety}`;
+  const next = bump(state, signal);
+  cancelDeadline(next, DEADLINES.helloSafety);
+  if (state.helloResolvedUtc === null) {
+    next.helloResolvedUtc = signal.occurredAtUtc;
+    next.helloOutcome = "Timeout";
+  }
+  if (state.desktopArrivedUtc !== null) return completeOrDefer(state, next, signal, trigger);
+  next.stage = "AwaitingDesktop";
+  return taken(state, next, signal, trigger);
+};
+
+const finalizingGraceFired: Handler = (state, signal) =>
+  taken(state, { ...bump(state, signal), stage: "Completed", deadlines: [] }, signal, `DeadlineFired:${DEADLINES.finalizingGrace}`);
+
+// ============================================================ shared facts
+
+const espConfigDetected: Handler = (state, signal) => {
+  const next = bump(state, signal);
+  const o = { ...state.observations };
+  o.skipUserEsp ??= parseBool(payloadValue(signal, "skipUserEsp"));
+  o.skipDeviceEsp ??= parseBool(payloadValue(signal, "skipDeviceEsp"));
+  o.espAllowContinueAnyway ??= parseBool(payloadValue(signal, "espAllowContinueAnyway"));
+  next.observations = o;
+  if (!state.profile.espConfigKnown && o.skipUserEsp !== null && o.skipDeviceEsp !== null) {
+    next.profile = { ...state.profile, espConfigKnown: true, confidence: Math.max(state.profile.confidence, MEDIUM) };
+  }
+  return taken(state, next, signal, "EspConfigDetected");
+};
+
+const enrollmentFactsObserved: Handler = (state, signal) => {
+  const next = bump(state, signal);
+  let { mode, confidence } = state.profile;
+  const type = payloadValue(signal, "enrollmentType");
+  if (type && state.profile.mode === "Unknown" && type.toLowerCase() === "v2") {
+    mode = "DevicePreparation";
+    confidence = Math.max(confidence, MEDIUM);
+  }
+  if (parseBool(payloadValue(signal, "isSelfDeployingProfile")) === true && mode === "Unknown") {
+    mode = "SelfDeploying";
+    confidence = Math.max(confidence, HIGH);
+  }
+  next.profile = { ...state.profile, mode, confidence };
+  return taken(state, next, signal, "EnrollmentFactsObserved");
+};
+
+const helloPolicyDetected: Handler = (state, signal) => {
+  const enabled = parseBool(payloadValue(signal, "helloEnabled"));
+  if (enabled === null) {
+    return deadEnd(state, bump(state, signal), signal, "HelloPolicyDetected", "hello_policy_detected_missing_helloEnabled");
+  }
+  if (state.helloPolicyEnabled === enabled) {
+    return taken(state, bump(state, signal), signal, "HelloPolicyDetected:no-op");
+  }
+  return taken(state, { ...bump(state, signal), helloPolicyEnabled: enabled }, signal, "HelloPolicyDetected");
+};
+
+const informationalEvent: Handler = (state, signal) => {
+  for (const key of ["eventType", "source"]) {
+    if (!payloadValue(signal, key)) {
+      return deadEnd(state, bump(state, signal), signal, "InformationalEvent", `informational_event_missing_${key}`);
+    }
+  }
+  return taken(state, bump(state, signal), signal, "InformationalEvent");
+};
+
+const accountSetupProvisioningComplete: Handler = (state, signal) => {
+  const next = bump(state, signal);
+  const alreadyRecorded = state.accountSetupProvisioningSucceededUtc !== null;
+  if (!alreadyRecorded) next.accountSetupProvisioningSucceededUtc = signal.occurredAtUtc;
+
+  const shouldPromote =
+    !alreadyRecorded &&
+    (state.espFinalExitUtc !== null || state.finalizingEnteredUtc !== null) &&
+    (state.stage === "EspDeviceSetup" || state.stage === "EspAccountSetup" || state.stage === "SessionStarted") &&
+    state.observations.skipUserEsp !== true;
+  if (!shouldPromote) return taken(state, next, signal, "AccountSetupProvisioningComplete");
+
+  if (state.desktopArrivedUtc !== null && (state.helloResolvedUtc !== null || state.helloPolicyEnabled === false)) {
+    markHelloSkipped(next, signal);
+    cancelDeadline(next, DEADLINES.helloSafety);
+    return completeOrDefer(state, next, signal, "AccountSetupProvisioningComplete:DeferredCompletion");
+  }
+  next.stage = "AwaitingHello";
+  armFrom(next, state, signal, DEADLINES.helloSafety);
+  return taken(state, next, signal, "AccountSetupProvisioningComplete:DeferredPromote");
+};
+
+function recordReboot(trigger: string): Handler {
+  return (state, signal) => {
+    const next = bump(state, signal);
+    next.systemRebootUtc ??= signal.occurredAtUtc;
+    return taken(state, next, signal, trigger);
+  };
+}
+
+// ============================================================ self-deploying
+
+const deviceSetupProvisioningComplete: Handler = (state, signal) => {
+  const next = bump(state, signal);
+  if (state.deviceSetupResolvedUtc !== null) {
+    return taken(state, next, signal, "DeviceSetupProvisioningComplete:AnchorAlreadySet");
+  }
+  next.deviceSetupResolvedUtc = signal.occurredAtUtc;
+  if (accountSetupEntryVetoesSelfDeploying(state)) {
+    return taken(state, next, signal, "DeviceSetupProvisioningComplete:AccountSetupAlreadyEntered");
+  }
+  armFrom(next, state, signal, DEADLINES.deviceOnlyEspDetection);
+  return taken(state, next, signal, "DeviceSetupProvisioningComplete:DeadlineArmed");
+};
+
+const deviceOnlyEspDetectionFired: Handler = (state, signal) => {
+  const trigger = `DeadlineFired:${DEADLINES.deviceOnlyEspDetection}`;
+  const active = state.deadlines.find((d) => d.name === DEADLINES.deviceOnlyEspDetection);
+  const staleCancelled = (reason: string) => {
+    const next = bump(state, signal);
+    cancelDeadline(next, DEADLINES.deviceOnlyEspDetection);
+    return deadEnd(state, next, signal, trigger, reason);
+  };
+
+  if (state.deviceSetupResolvedUtc === null) return staleCancelled("device_only_esp_detection_stale_no_anchor");
+  if (!active) return deadEnd(state, bump(state, signal), signal, trigger, "device_only_esp_detection_stale_deadline_not_armed");
+  if (active.dueAtUtc !== signal.occurredAtUtc) {
+    return deadEnd(state, bump(state, signal), signal, trigger, "device_only_esp_detection_stale_due_at_mismatch");
+  }
+  if (isTerminal(state.stage)) return staleCancelled("device_only_esp_detection_stage_already_terminal");
+  if (accountSetupEntryVetoesSelfDeploying(state)) return staleCancelled("device_only_esp_detection_account_setup_entered");
+  if (monotonicModeConflict(state)) return staleCancelled("device_only_esp_detection_monotonic_mode_conflict");
+
+  const userPresent =
+    state.observations.aadUserJoinWithUser === true || state.helloResolvedUtc !== null || state.desktopArrivedUtc !== null;
+  const next = bump(state, signal);
+  next.deviceOnlyDeployment = { level: CONFIRMED, reason: userPresent ? "user_present" : "device_only" };
+  if (!realmJoinGateOpen(state)) {
+    cancelDeadline(next, DEADLINES.deviceOnlyEspDetection);
+    next.realmJoin = { ...state.realmJoin, selfDeployingDeferred: true };
+    return taken(state, next, signal, `${trigger}:RealmJoinGateClosed`);
+  }
+  next.stage = "Completed";
+  next.deadlines = [];
+  next.profile = applySelfDeployingConfirmed(state.profile);
+  return taken(state, next, signal, trigger);
+};
+
+// ============================================================ white glove
+
+const whiteGloveShellCoreSuccess: Handler = (state, signal) => {
+  const next = bump(state, signal);
+  next.observations = { ...state.observations, shellCoreWhiteGloveSuccessSeen: true };
+  if (whiteGloveSealingConfirmed(next)) {
+    sealWhiteGlove(next);
+    return taken(state, next, signal, "WhiteGloveShellCoreSuccess:FastPath:Confirmed");
+  }
+  ensureClassifierTick(next, signal);
+  return taken(state, next, signal, "WhiteGloveShellCoreSuccess");
+};
+
+const whiteGloveSealingPatternDetected: Handler = (state, signal) => {
+  const next = bump(state, signal);
+  next.observations = { ...state.observations, whiteGloveSealingPatternSeen: true };
+  ensureClassifierTick(next, signal);
+  return taken(state, next, signal, "WhiteGloveSealingPatternDetected");
+};
+
+const classifierVerdictIssued: Handler = (state, signal) => {
+  const classifier = payloadValue(signal, "classifier") ?? "unknown";
+  const { level, name } = parseHypothesisLevel(payloadValue(signal, "level") ?? "Unknown");
+  const next = bump(state, signal);
+  if (classifier === "whiteglove-sealing" && level === CONFIRMED) {
+    sealWhiteGlove(next);
+    return taken(state, next, signal, `ClassifierVerdictIssued:${classifier}:Confirmed`);
+  }
+  return taken(state, next, signal, `ClassifierVerdictIssued:${classifier}:${name}`);
+};
+
+const classifierTickFired: Handler = (state, signal) => {
+  const next = bump(state, signal);
+  cancelDeadline(next, DEADLINES.classifierTick);
+  if (!isTerminal(state.stage)) armFrom(next, state, signal, DEADLINES.classifierTick);
+  return taken(state, next, signal, `DeadlineFired:${DEADLINES.classifierTick}`);
+};
+
+// ============================================================ edge
+
+const espTerminalFailure: Handler = (state, signal) => {
+  if (state.espAdvisoryFailureRecordedUtc !== null) {
+    const p = signal.payload;
+    const carriesRegistryDetail = !!p && ("errorCode" in p || "failedSubcategory" in p || "category" in p);
+    return carriesRegistryDetail
+      ? taken(state, bump(state, signal), signal, "EspTerminalFailure")
+      : deadEnd(state, bump(state, signal), signal, "EspTerminalFailure", "esp_terminal_failure_advisory_already_recorded");
+  }
+  const next = bump(state, signal);
+  if (state.observations.espAllowContinueAnyway === true && state.accountSetupEnteredUtc !== null) {
+    next.espAdvisoryFailureRecordedUtc = signal.occurredAtUtc;
+    armFrom(next, state, signal, DEADLINES.advisoryCompletion);
+    return taken(state, next, signal, "EspTerminalFailure");
+  }
+  next.stage = "Failed";
+  next.deadlines = [];
+  return taken(state, next, signal, "EspTerminalFailure");
+};
+
+const advisoryCompletionFired: Handler = (state, signal) => {
+  const trigger = `DeadlineFired:${DEADLINES.advisoryCompletion}`;
+  const hasAdvisoryAnchor = state.espAdvisoryFailureRecordedUtc !== null;
+  const hasEspExitAnchor =
+    state.espFinalExitUtc !== null &&
+    state.accountSetupEnteredUtc !== null &&
+    state.espFinalExitUtc >= state.accountSetupEnteredUtc;
+  const staleReason =
+    !hasAdvisoryAnchor && !hasEspExitAnchor
+      ? "advisory_completion_without_anchor"
+      : !hasDeadline(state, DEADLINES.advisoryCompletion)
+        ? "advisory_completion_stale_deadline_not_armed"
+        : state.stage === "Finalizing"
+          ? "advisory_completion_finalizing_already_in_flight"
+          : null;
+  if (staleReason) return deadEnd(state, bump(state, signal), signal, trigger, staleReason);
+
+  const next = bump(state, signal);
+  cancelDeadline(next, DEADLINES.advisoryCompletion);
+  const helloSatisfied = state.helloResolvedUtc !== null || state.helloPolicyEnabled === false;
+  const imeUserSessionGenuine =
+    state.imeUserSessionCompletedUtc !== null &&
+    state.accountSetupEnteredUtc !== null &&
+    state.imeUserSessionCompletedUtc >= state.accountSetupEnteredUtc;
+  if (state.desktopArrivedUtc !== null && helloSatisfied && imeUserSessionGenuine) {
+    markHelloSkipped(next, signal);
+    cancelDeadline(next, DEADLINES.helloSafety);
+    return completeOrDefer(state, next, signal, trigger);
+  }
+  next.stage = "Failed";
+  next.deadlines = [];
+  return taken(state, next, signal, trigger);
+};
+
+// ============================================================ realmjoin
+
+/** `CompleteIfDeferredOrBookkeep` — finish a parked SelfDeploying or Classic completion. */
+function completeIfDeferred(before: ReducerState, next: ReducerState, signal: ReducerSignal, trigger: string): ReducerStep {
+  if (before.realmJoin.selfDeployingDeferred) {
+    if (accountSetupEntryVetoesSelfDeploying(before) || monotonicModeConflict(before)) {
+      next.realmJoin = { ...next.realmJoin, selfDeployingDeferred: false };
+      next.deviceOnlyDeployment = { level: 0, reason: null };
+    } else {
+      next.profile = applySelfDeployingConfirmed(next.profile);
+      next.stage = "Completed";
+      next.deadlines = [];
+      return taken(before, next, signal, `${trigger}:SelfDeployingDeferred`);
+    }
+  }
+  if (before.helloResolvedUtc !== null && before.desktopArrivedUtc !== null) {
+    return toFinalizing(before, next, signal, trigger);
+  }
+  return taken(before, next, signal, trigger);
+}
+
+const realmJoinDetected: Handler = (state, signal) => {
+  const next = bump(state, signal);
+  if (state.realmJoin.detectedUtc === null) {
+    next.realmJoin = { ...state.realmJoin, detectedUtc: signal.occurredAtUtc };
+    armFrom(next, state, signal, DEADLINES.realmJoinTimeout);
+  }
+  return taken(state, next, signal, "RealmJoinDetected");
+};
+
+const realmJoinResolved: Handler = (state, signal) => {
+  const next = bump(state, signal);
+  const rj = state.realmJoin;
+  if (rj.detectedUtc === null) {
+    next.realmJoin = {
+      ...rj,
+      detectedUtc: signal.occurredAtUtc,
+      resolvedUtc: rj.resolvedUtc ?? signal.occurredAtUtc,
+      outcome: rj.resolvedUtc === null ? "Resolved" : rj.outcome,
+    };
+    return taken(state, next, signal, "RealmJoinResolved:WithoutDetected");
+  }
+  cancelDeadline(next, DEADLINES.realmJoinTimeout);
+  if (rj.resolvedUtc === null) next.realmJoin = { ...rj, resolvedUtc: signal.occurredAtUtc, outcome: "Resolved" };
+  return completeIfDeferred(state, next, signal, "RealmJoinResolved");
+};
+
+const realmJoinTimeoutFired: Handler = (state, signal) => {
+  const trigger = `DeadlineFired:${DEADLINES.realmJoinTimeout}`;
+  if (state.realmJoin.outcome !== null) {
+    return deadEnd(state, bump(state, signal), signal, trigger, "realmjoin_timeout_stale_outcome_already_set");
+  }
+  if (!hasDeadline(state, DEADLINES.realmJoinTimeout)) {
+    return deadEnd(state, bump(state, signal), signal, trigger, "realmjoin_timeout_stale_deadline_not_armed");
+  }
+  const next = bump(state, signal);
+  cancelDeadline(next, DEADLINES.realmJoinTimeout);
+  next.realmJoin = { ...state.realmJoin, outcome: "Timeout" };
+  return completeIfDeferred(state, next, signal, trigger);
+};
+
+function realmJoinPackage(kind: string, reason: string): Handler {
+  return (state, signal) =>
+    payloadValue(signal, "packageId")
+      ? taken(state, bump(state, signal), signal, kind)
+      : deadEnd(state, bump(state, signal), signal, kind, reason);
+}
+
+// ============================================================ versions
+
+const V2_0_0_0: ReducerTable = {
+  kinds: {
+    SessionStarted: sessionStarted,
+    SessionAborted: failWith("SessionAborted"),
+    AdminPreemptionDetected: adminPreemptionDetected,
+    DeadlineFired: deadlineFired,
+    EffectInfrastructureFailure: failWith("EffectInfrastructureFailure"),
+    EspPhaseChanged: espPhaseChanged,
+    EspExiting: espExiting,
+    HelloResolved: helloResolved,
+    DesktopArrived: desktopArrived,
+    ImeUserSessionCompleted: imeUserSessionCompleted,
+    AadUserJoinedLate: aadUserJoinedLate,
+    DeviceSetupProvisioningComplete: deviceSetupProvisioningComplete,
+    AccountSetupProvisioningComplete: accountSetupProvisioningComplete,
+    WhiteGloveShellCoreSuccess: whiteGloveShellCoreSuccess,
+    WhiteGloveSealingPatternDetected: whiteGloveSealingPatternDetected,
+    ClassifierVerdictIssued: classifierVerdictIssued,
+    EspResumed: recordReboot("EspResumed"),
+    EspTerminalFailure: espTerminalFailure,
+    SystemRebootObserved: recordReboot("SystemRebootObserved"),
+    DeviceInfoCollected: record(),
+    AutopilotProfileRead: record(),
+    EspConfigDetected: espConfigDetected,
+    HelloPolicyDetected: helloPolicyDetected,
+    EnrollmentFactsObserved: enrollmentFactsObserved,
+    InformationalEvent: informationalEvent,
+    AppInstallCompleted: record(),
+    AppInstallFailed: record(),
+    RealmJoinDetected: realmJoinDetected,
+    RealmJoinResolved: realmJoinResolved,
+    RealmJoinPackageStarted: realmJoinPackage("RealmJoinPackageStarted", "realmjoin_package_started_missing_packageId"),
+    RealmJoinPackageCompleted: realmJoinPackage("RealmJoinPackageCompleted", "realmjoin_package_completed_missing_packageId"),
+  },
+  deadlines: {
+    [DEADLINES.helloSafety]: helloSafetyFired,
+    [DEADLINES.deviceOnlyEspDetection]: deviceOnlyEspDetectionFired,
+    [DEADLINES.classifierTick]: classifierTickFired,
+    [DEADLINES.finalizingGrace]: finalizingGraceFired,
+    [DEADLINES.realmJoinTimeout]: realmJoinTimeoutFired,
+    [DEADLINES.advisoryCompletion]: advisoryCompletionFired,
+  },
+};
+
+/** Ported reducer versions, keyed by `DecisionEngine.ReducerVersion` (the DecisionCore assembly version). */
+export const REDUCER_TABLES: Readonly<Record<string, ReducerTable>> = {
+  "2.0.0.0": V2_0_0_0,
+};
+
+export const REDUCER_VERSIONS = Object.keys(REDUCER_TABLES);
+export const LATEST_REDUCER_VERSION = REDUCER_VERSIONS[REDUCER_VERSIONS.length - 1];
+
+/**
+ * `DecisionEngine.Reduce` — dispatch one signal. Mirrors the C# fall-throughs:
+ * post-terminal signals and unknown `(kind, schemaVersion)` pairs become
+ * dead-ends, and a throwing handler becomes a `reducer_exception` dead-end.
+ */
+export function reduce(table: ReducerTable, state: ReducerState, signal: ReducerSignal): ReducerStep {
+  try {
+    if ((state.stage === "Completed" || state.stage === "Failed") && signal.kind !== "InformationalEvent") {
+      return deadEnd(state, bump(state, signal), signal, signal.kind, `signal_after_terminal:${state.stage}`);
+    }
+    const handler = signal.kindSchemaVersion === 1 ? table.kinds[signal.kind] : undefined;
+    if (!handler) {
+      return deadEnd(
+        state,
+        bump(state, signal),
+        signal,
+        signal.kind,
+        `unhandled_signal_kind:${signal.kind}:v${signal.kindSchemaVersion}`,
+      );
+    }
+    return handler(state, signal, table);
+  } catch {
+    return deadEnd(state, bump(state, signal), signal, signal.kind, "reducer_exception");
+  }
+}
@@ -0,0 +1,265 @@
+import type { Edge, Node } from "@xyflow/react";
+import type { DecisionGraphEdge, DecisionGraphNode, DecisionGraphProjection } from "../types";
+import {
+  buildLayout,
+  countStageActivity,
+  type InspectorEdgeData,
+  type InspectorNodeData,
+  type StageActivity,
+} from "./dagreLayout";
+
+/**
+ * Which session an element of the compare overlay occurs in. "a" is the
+ * inspected session (the one in the URL), "b" the session it's compared
+ * against — typically a stuck session (a) next to a healthy one (b).
+ */
+export type DiffSide = "both" | "a" | "b";
+
+export interface StageDiff {
+  side: DiffSide;
+  /** Activity in each session; null when the session never reached the stage. */
+  a: StageActivity | null;
+  b: StageActivity | null;
+  /** Step indices at which the two sessions left this stage differently. */
+  divergesAt: number[];
+}
+
+/**
+ * One group of equal transitions — same from/to stage, same outcome and (for
+ * dead-ends) same guard reason. Grouping is what makes two sessions
+ * comparable: step indices and timestamps never line up, the paths do.
+ */
+export interface EdgeGroupDiff {
+  key: string;
+  fromStage: string;
+  toStage: string;
+  taken: boolean;
+  deadEndReason: string | null;
+  side: DiffSide;
+  aSteps: number[];
+  bSteps: number[];
+}
+
+/** How one session left the divergence stage. */
+export interface DivergenceBranch {
+  trigger: string;
+  toStage: string;
+  taken: boolean;
+  deadEndReason: string | null;
+}
+
+/**
+ * A step at which both sessions sat in the same stage but moved on
+ * differently — another trigger, another target, or a guard that blocked in
+ * only one of them. A null branch means that session's journal ended there
+ * while the other one kept going.
+ */
+export interface DivergencePoint {
+  /** `${stepIndex}:${triggerA}:${triggerB}` — stable React key. */
+  key: string;
+  stepIndex: number;
+  fromStage: string;
+  a: DivergenceBranch | null;
+  b: DivergenceBranch | null;
+}
+
+export interface DecisionGraphDiff {
+  stages: Map<string, StageDiff>;
+  /** Every edge group of both sessions, self-loops included. */
+  edges: EdgeGroupDiff[];
+  /** Ordered by stepIndex; the first entry is where the sessions first parted. */
+  divergences: DivergencePoint[];
+  summary: {
+    stagesOnlyA: number;
+    stagesOnlyB: number;
+    /** Inter-stage transitions taken in only one session. */
+    transitionsOnlyA: number;
+    transitionsOnlyB: number;
+    /** Dead-end groups (taken=false with a deadEndReason) present in only one session. */
+    deadEndsOnlyA: number;
+    deadEndsOnlyB: number;
+  };
+}
+
+function groupKey(e: DecisionGraphEdge): string {
+  return `${e.fromStage}→${e.toStage}|${e.taken ? "taken" : `blocked:${e.deadEndReason ?? ""}`}`;
+}
+
+function sideOf(inA: boolean, inB: boolean): DiffSide {
+  return inA && inB ? "both" : inA ? "a" : "b";
+}
+
+function branch(e: DecisionGraphEdge): DivergenceBranch {
+  return { trigger: e.trigger, toStage: e.toStage, taken: e.taken, deadEndReason: e.deadEndReason };
+}
+
+function sameBranch(x: DecisionGraphEdge, y: DecisionGraphEdge): boolean {
+  return (
+    x.trigger === y.trigger &&
+    x.toStage === y.toStage &&
+    x.taken === y.taken &&
+    x.deadEndReason === y.deadEndReason
+  );
+}
+
+/**
+ * Walks both journals step by step. Sessions only diverge where they share a
+ * starting stage — once they sit in different stages every later step differs
+ * trivially, so those steps are skipped until the paths meet again.
+ */
+function findDivergences(a: DecisionGraphEdge[], b: DecisionGraphEdge[]): DivergencePoint[] {
+  const byStepA = new Map(a.map((e) => [e.stepIndex, e]));
+  const byStepB = new Map(b.map((e) => [e.stepIndex, e]));
+  const lastA = a.reduce<DecisionGraphEdge | null>((m, e) => (!m || e.stepIndex > m.stepIndex ? e : m), null);
+  const lastB = b.reduce<DecisionGraphEdge | null>((m, e) => (!m || e.stepIndex > m.stepIndex ? e : m), null);
+  const steps = Array.from(new Set([...byStepA.keys(), ...byStepB.keys()])).sort((x, y) => x - y);
+
+  const result: DivergencePoint[] = [];
+  const push = (stepIndex: number, fromStage: string, ea: DecisionGraphEdge | null, eb: DecisionGraphEdge | null) =>
+    result.push({
+      key: `${stepIndex}:${ea?.trigger ?? ""}:${eb?.trigger ?? ""}`,
+      stepIndex,
+      fromStage,
+      a: ea ? branch(ea) : null,
+      b: eb ? branch(eb) : null,
+    });
+
+  let tailReported = false;
+  for (const step of steps) {
+    const ea = byStepA.get(step) ?? null;
+    const eb = byStepB.get(step) ?? null;
+    if (ea && eb) {
+      if (ea.fromStage === eb.fromStage && !sameBranch(ea, eb)) push(step, ea.fromStage, ea, eb);
+      continue;
+    }
+    // One journal ended: report the first step the other took from the very
+    // stage the shorter session stopped in (the "stuck here" case).
+    if (tailReported) continue;
+    const other = ea ?? eb!;
+    const ended = ea ? lastB : lastA;
+    if (!ended || step < ended.stepIndex) continue;
+    tailReported = true;
+    if (ended.toStage === other.fromStage) push(step, other.fromStage, ea, eb);
+  }
+  return result;
+}
+
+/** Pure function — compares two sessions' decision graphs. */
+export function diffDecisionGraphs(
+  a: DecisionGraphProjection,
+  b: DecisionGraphProjection,
+): DecisionGraphDiff {
+  const divergences = findDivergences(a.edges, b.edges);
+
+  const groups = new Map<string, EdgeGroupDiff>();
+  const collect = (edges: DecisionGraphEdge[], which: "aSteps" | "bSteps") => {
+    for (const e of edges) {
+      const key = groupKey(e);
+      let group = groups.get(key);
+      if (!group) {
+        group = {
+          key,
+          fromStage: e.fromStage,
+          toStage: e.toStage,
+          taken: e.taken,
+          deadEndReason: e.deadEndReason,
+          side: "both",
+          aSteps: [],
+          bSteps: [],
+        };
+        groups.set(key, group);
+      }
+      group[which].push(e.stepIndex);
+    }
+  };
+  collect(a.edges, "aSteps");
+  collect(b.edges, "bSteps");
+  const edges = Array.from(groups.values());
+  for (const g of edges) g.side = sideOf(g.aSteps.length > 0, g.bSteps.length > 0);
+
+  const activityA = countStageActivity(a.edges);
+  const activityB = countStageActivity(b.edges);
+  const stageIdsA = new Set(a.nodes.map((n) => n.id));
+  const stageIdsB = new Set(b.nodes.map((n) => n.id));
+  const stages = new Map<string, StageDiff>();
+  for (const id of new Set([...stageIdsA, ...stageIdsB])) {
+    const inA = stageIdsA.has(id);
+    const inB = stageIdsB.has(id);
+    stages.set(id, {
+      side: sideOf(inA, inB),
+      a: inA ? activityA.get(id) ?? { entered: 0, internal: 0, blocked: 0, blockedReasons: [] } : null,
+      b: inB ? activityB.get(id) ?? { entered: 0, internal: 0, blocked: 0, blockedReasons: [] } : null,
+      divergesAt: divergences.filter((d) => d.fromStage === id).map((d) => d.stepIndex),
+    });
+  }
+
+  const count = (pred: (g: EdgeGroupDiff) => boolean, side: DiffSide) =>
+    edges.filter((g) => g.side === side && pred(g)).length;
+  const isTransition = (g: EdgeGroupDiff) => g.taken && g.fromStage !== g.toStage;
+  const isDeadEnd = (g: EdgeGroupDiff) => !g.taken && g.deadEndReason !== null;
+  const stageSides = Array.from(stages.values()).map((s) => s.side);
+
+  return {
+    stages,
+    edges,
+    divergences,
+    summary: {
+      stagesOnlyA: stageSides.filter((s) => s === "a").length,
+      stagesOnlyB: stageSides.filter((s) => s === "b").length,
+      transitionsOnlyA: count(isTransition, "a"),
+      transitionsOnlyB: count(isTransition, "b"),
+      deadEndsOnlyA: count(isDeadEnd, "a"),
+      deadEndsOnlyB: count(isDeadEnd, "b"),
+    },
+  };
+}
+
+/**
+ * Overlay layout for compare mode: the union of both sessions' stages, one
+ * rendered edge per inter-stage group (self-loops stay aggregated on the
+ * node, as in buildLayout). The regular node counters carry session A's
+ * activity; `data.diff` carries both sides for the compare renderer.
+ */
+export function buildDiffLayout(
+  a: DecisionGraphProjection,
+  b: DecisionGraphProjection,
+  diff: DecisionGraphDiff,
+): { nodes: Node<InspectorNodeData>[]; edges: Edge<InspectorEdgeData>[] } {
+  const nodeIdsA = new Set(a.nodes.map((n) => n.id));
+  const nodes: DecisionGraphNode[] = [...a.nodes, ...b.nodes.filter((n) => !nodeIdsA.has(n.id))];
+
+  // One representative edge per group; buildLayout keeps input order, so the
+  // i-th layout edge belongs to the i-th group.
+  const groups = diff.edges.filter((g) => g.fromStage !== g.toStage);
+  const byStep = (edges: DecisionGraphEdge[]) => new Map(edges.map((e) => [e.stepIndex, e]));
+  const stepsA = byStep(a.edges);
+  const stepsB = byStep(b.edges);
+  const representatives = groups.map((g) =>
+    g.aSteps.length > 0 ? stepsA.get(g.aSteps[0])! : stepsB.get(g.bSteps[0])!,
+  );
+
+  const layout = buildLayout(nodes, representatives);
+
+  return {
+    nodes: layout.nodes.map((n) => {
+      const stage = diff.stages.get(n.id);
+      const own = stage?.a ?? null;
+      return {
+        ...n,
+        data: {
+          ...n.data,
+          entered: own?.entered ?? 0,
+          internal: own?.internal ?? 0,
+          blocked: own?.blocked ?? 0,
+          blockedReasons: own?.blockedReasons ?? [],
+          diff: stage,
+        },
+      };
+    }),
+    edges: layout.edges.map((e, i) => ({
+      ...e,
+      id: `d:${groups[i].key}`,
+      data: { ...e.data!, diff: groups[i] },
+    })),
+  };
+}
@@ -0,0 +1,146 @@
+import type { DecisionGraphEdge, DecisionGraphProjection, SignalRecord } from "../types";
+import {
+  REDUCER_TABLES,
+  decodeSignal,
+  initialReducerState,
+  reduce,
+  type ReducerTransition,
+  type SessionStage,
+} from "./decisionReducer";
+import { replayOrder } from "./signalReplay";
+
+/** Fields the backend `ReducerVerifier.TransitionsSemanticallyEqual` compares, in its order. */
+export const COMPARED_FIELDS = ["stepIndex", "trigger", "fromStage", "toStage", "taken", "deadEndReason"] as const;
+export type ComparedField = (typeof COMPARED_FIELDS)[number];
+
+export interface ReplayResult {
+  transitions: ReducerTransition[];
+  finalStage: SessionStage;
+  /** Ordinals whose `payloadJson` couldn't be parsed (replayed without payload). */
+  undecodableOrdinals: number[];
+  /** Ordinals missing between the first and last recorded signal. */
+  missingOrdinals: number[];
+}
+
+/**
+ * Re-run the recorded signal stream through a ported reducer version, from
+ * `DecisionState.CreateInitial`. `agentBootUtc` defaults to none, which bases
+ * deadlines on the signal times the live agent saw; the backend verifier
+ * seeds with the verification time instead.
+ */
+export function replaySignals(
+  signals: SignalRecord[],
+  reducerVersion: string,
+  agentBootUtc: number | null = null,
+): ReplayResult {
+  const table = REDUCER_TABLES[reducerVersion];
+  if (!table) throw new Error(`No ported reducer for version ${reducerVersion}`);
+
+  const ordered = replayOrder(signals);
+  const transitions: ReducerTransition[] = [];
+  const undecodableOrdinals: number[] = [];
+  const missingOrdinals: number[] = [];
+  let state = initialReducerState(agentBootUtc);
+  let previous: number | null = null;
+  for (const record of ordered) {
+    const ordinal = record.sessionSignalOrdinal;
+    // ReducerReplay rejects non-monotonic ordinals; a duplicate row is skipped instead.
+    if (previous !== null && ordinal <= previous) continue;
+    if (previous !== null) {
+      for (let missing = previous + 1; missing < ordinal; missing++) missingOrdinals.push(missing);
+    }
+    previous = ordinal;
+
+    const { signal, undecodable } = decodeSignal(record);
+    if (undecodable) undecodableOrdinals.push(ordinal);
+    const step = reduce(table, state, signal);
+    state = step.state;
+    transitions.push(step.transition);
+  }
+  return { transitions, finalStage: state.stage, undecodableOrdinals, missingOrdinals };
+}
+
+export interface TransitionDivergence {
+  stepIndex: number;
+  signalOrdinal: number;
+  signalKind: string;
+  fields: ComparedField[];
+  stored: DecisionGraphEdge;
+  replayed: ReducerTransition;
+}
+
+export interface ReducerVerification {
+  reducerVersion: string;
+  /** Version that produced the stored journal. */
+  storedReducerVersion: string;
+  /** Replaying under a different version than the journal's — divergences are the point, not a bug. */
+  versionDrift: boolean;
+  comparedSteps: number;
+  divergences: TransitionDivergence[];
+  /** Recorded signals without a stored edge (or vice versa) — one signal should make exactly one step. */
+  signalCount: number;
+  storedStepCount: number;
+  replayedFinalStage: SessionStage;
+  /** `ToStage` of the last stored edge, like the backend's final-stage check. */
+  storedFinalStage: string | null;
+  finalStageMatches: boolean;
+  undecodableOrdinals: number[];
+  missingOrdinals: number[];
+}
+
+export function divergingFields(stored: DecisionGraphEdge, replayed: ReducerTransition): ComparedField[] {
+  return COMPARED_FIELDS.filter((field) =>
+    field === "deadEndReason"
+      ? (stored.deadEndReason ?? "") !== (replayed.deadEndReason ?? "")
+      : stored[field] !== replayed[field],
+  );
+}
+
+/**
+ * Replay the session locally and pair the i-th recomputed transition with the
+ * i-th stored edge (by step index) — the same pairing the backend verifier
+ * uses. Every divergence is reported; the first one is usually the cause and
+ * the rest the state it left behind.
+ */
+export function verifyReducer(
+  graph: DecisionGraphProjection,
+  signals: SignalRecord[],
+  reducerVersion: string,
+  agentBootUtc: number | null = null,
+): ReducerVerification {
+  const replay = replaySignals(signals, reducerVersion, agentBootUtc);
+  const stored = [...graph.edges].sort((a, b) => a.stepIndex - b.stepIndex);
+  const kindByOrdinal = new Map(signals.map((s) => [s.sessionSignalOrdinal, s.kind]));
+
+  const comparedSteps = Math.min(stored.length, replay.transitions.length);
+  const divergences: TransitionDivergence[] = [];
+  for (let i = 0; i < comparedSteps; i++) {
+    const replayed = replay.transitions[i];
+    const fields = divergingFields(stored[i], replayed);
+    if (fields.length === 0) continue;
+    divergences.push({
+      stepIndex: stored[i].stepIndex,
+      signalOrdinal: replayed.signalOrdinalRef,
+      signalKind: kindByOrdinal.get(replayed.signalOrdinalRef) ?? "?",
+      fields,
+      stored: stored[i],
+      replayed,
+    });
+  }
+
+  const storedFinalStage = stored.length > 0 ? stored[stored.length - 1].toStage : null;
+  return {
+    reducerVersion,
+    storedReducerVersion: graph.reducerVersion,
+    versionDrift: graph.reducerVersion !== reducerVersion,
+    comparedSteps,
+    divergences,
+    signalCount: replay.transitions.length,
+    storedStepCount: stored.length,
+    replayedFinalStage: replay.finalStage,
+    storedFinalStage,
+    finalStageMatches: storedFinalStage === replay.finalStage,
+    undecodableOrdinals: replay.undecodableOrdinals,
+    missingOrdinals: replay.missingOrdinals,
+  };
+}
@@ -0,0 +1,110 @@
+import type { EnrollmentEvent } from "@/types";
+import type { DecisionGraphEdge, DecisionGraphProjection, SignalRecord } from "../types";
+import type { DecisionStateSnapshot } from "../components/DecisionStateCard";
+import { countStageActivity, type StageActivity } from "./dagreLayout";
+
+/** Playback speeds offered by the replay scrubber (signals per second at 1×: 2). */
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4, 8] as const;
+export type ReplaySpeed = (typeof REPLAY_SPEEDS)[number];
+
+/** Milliseconds between two signals at the given speed. */
+export function replayIntervalMs(speed: ReplaySpeed): number {
+  return Math.round(500 / speed);
+}
+
+/**
+ * The decision graph as the reducer had built it once the signal with
+ * `ordinal` was applied. Every edge carries the ordinal of the signal that
+ * produced it (`signalOrdinalRef`), so the projection can be cut at any point
+ * without re-running the reducer.
+ */
+export interface GraphReplayState {
+  ordinal: number;
+  /** Stage the session sat in after this signal; null before the first step. */
+  stage: string | null;
+  stepIndex: number | null;
+  visitedStages: Set<string>;
+  /** Per-stage counters over the steps applied so far. */
+  activity: Map<string, StageActivity>;
+  /** Steps produced by exactly this signal — highlighted during playback. */
+  firedEdges: DecisionGraphEdge[];
+  /** Number of steps applied so far. */
+  appliedSteps: number;
+}
+
+export function graphStateAt(graph: DecisionGraphProjection, ordinal: number): GraphReplayState {
+  const applied = graph.edges
+    .filter((e) => e.signalOrdinalRef <= ordinal)
+    .sort((x, y) => x.stepIndex - y.stepIndex);
+
+  // Before the first step the session sits in the stage the journal starts from.
+  const first = graph.edges.reduce<DecisionGraphEdge | null>(
+    (m, e) => (!m || e.stepIndex < m.stepIndex ? e : m),
+    null,
+  );
+  const visitedStages = new Set<string>(first ? [first.fromStage] : []);
+  let stage = first?.fromStage ?? null;
+  for (const e of applied) {
+    if (!e.taken) continue;
+    visitedStages.add(e.toStage);
+    stage = e.toStage;
+  }
+
+  return {
+    ordinal,
+    stage,
+    stepIndex: applied.length > 0 ? applied[applied.length - 1].stepIndex : null,
+    visitedStages,
+    activity: countStageActivity(applied),
+    firedEdges: applied.filter((e) => e.signalOrdinalRef === ordinal),
+    appliedSteps: applied.length,
+  };
+}
+
+/** A lifecycle-anchor snapshot, keyed by the last signal it had applied. */
+export interface ReplaySnapshot {
+  snapshot: DecisionStateSnapshot;
+  lastAppliedSignalOrdinal: number;
+  eventType: string;
+  timestamp: string;
+}
+
+/**
+ * Anchor snapshots ordered by `lastAppliedSignalOrdinal`. Snapshots without
+ * that field (pre-§A schema) can't be placed on the signal axis and are
+ * dropped.
+ */
+export function replaySnapshots(anchors: EnrollmentEvent[]): ReplaySnapshot[] {
+  const result: ReplaySnapshot[] = [];
+  for (const a of anchors) {
+    const snapshot = a.data?.decisionState as DecisionStateSnapshot | undefined;
+    const ordinal = snapshot?.lastAppliedSignalOrdinal;
+    if (!snapshot || typeof ordinal !== "number") continue;
+    result.push({ snapshot, lastAppliedSignalOrdinal: ordinal, eventType: a.eventType, timestamp: a.timestamp });
+  }
+  // Stable sort keeps emit order (anchors arrive sorted by sequence) for equal ordinals.
+  return result.sort((x, y) => x.lastAppliedSignalOrdinal - y.lastAppliedSignalOrdinal);
+}
+
+/**
+ * The most recent snapshot the agent emitted at or before `ordinal`, or null
+ * if none had been emitted yet. Snapshots are edge-triggered, so between two
+ * anchors the card shows the older one — `exact` tells the UI whether it
+ * reflects this very signal.
+ */
+export function snapshotAt(
+  snapshots: ReplaySnapshot[],
+  ordinal: number,
+): (ReplaySnapshot & { exact: boolean }) | null {
+  let found: ReplaySnapshot | null = null;
+  for (const s of snapshots) {
+    if (s.lastAppliedSignalOrdinal > ordinal) break;
+    found = s;
+  }
+  return found ? { ...found, exact: found.lastAppliedSignalOrdinal === ordinal } : null;
+}
+
+/** Signals in replay order — by session ordinal, which is what the reducer consumed. */
+export function replayOrder(signals: SignalRecord[]): SignalRecord[] {
+  return [...signals].sort((a, b) => a.sessionSignalOrdinal - b.sessionSignalOrdinal);
+}
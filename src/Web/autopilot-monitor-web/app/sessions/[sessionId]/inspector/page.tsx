@@ -10,6 +10,7 @@ import { useSessionSignals } from "./hooks/useSessionSignals";
 import { useSessionAnchorEvents } from "./hooks/useSessionAnchorEvents";
 import { SignalStream } from "./components/SignalStream";
 import { LifecycleAnchors } from "./components/LifecycleAnchors";
+import { ReducerVerifier } from "./components/ReducerVerifier";
 
 // @xyflow/react + dagre (~250 kB) are only needed on the "graph" tab. Defer
 // them so opening the inspector on signals/anchors/verifier doesn't pay for
@@ -26,9 +27,35 @@ const DecisionGraph = dynamic(
   },
 );
 
-type Tab = "graph" | "signals" | "anchors" | "verifier";
+// Compare mode overlays a second session's graph; same lazy-loading reason.
+const DecisionGraphCompare = dynamic(
+  () => import("./components/DecisionGraphCompare").then((m) => m.DecisionGraphCompare),
+  {
+    ssr: false,
+    loading: () => (
+      <div className="rounded border border-gray-200 bg-white p-8 text-center text-gray-500">
+        Loading decision graph…
+      </div>
+    ),
+  },
+);
+
+// The replay tab renders the decision graph too, so it's deferred the same way.
+const SignalReplay = dynamic(
+  () => import("./components/SignalReplay").then((m) => m.SignalReplay),
+  {
+    ssr: false,
+    loading: () => (
+      <div className="rounded border border-gray-200 bg-white p-8 text-center text-gray-500">
+        Loading replay…
+      </div>
+    ),
+  },
+);
+
+type Tab = "graph" | "replay" | "signals" | "anchors" | "verifier";
 
-const TAB_IDS: ReadonlySet<Tab> = new Set<Tab>(["graph", "signals", "anchors", "verifier"]);
+const TAB_IDS: ReadonlySet<Tab> = new Set<Tab>(["graph", "replay", "signals", "anchors", "verifier"]);
 
 function isTab(value: string | null): value is Tab {
   return value !== null && (TAB_IDS as Set<string>).has(value);
@@ -48,8 +75,13 @@ export default function InspectorPage() {
     return isTab(fromQuery) ? fromQuery : "graph";
   })();
   const [activeTab, setActiveTab] = useState<Tab>(initialTab);
+  // ?compare=<sessionId> opens the graph tab in compare mode (same read-once rule).
+  const [compareId, setCompareId] = useState(
+    () => searchParams?.get("compare")?.trim() ?? "",
+  );
 
   const decisionGraph = useDecisionGraph({ sessionId, getAccessToken });
+  const compareGraph = useDecisionGraph({ sessionId: compareId, getAccessToken });
   const signalsState = useSessionSignals({ sessionId, getAccessToken });
   const anchorsState = useSessionAnchorEvents({ sessionId, getAccessToken });
 
@@ -99,9 +131,47 @@ export default function InspectorPage() {
           <Tabs activeTab={activeTab} onChange={setActiveTab} />
 
           {activeTab === "graph" && (
-            <DecisionGraph
+            <>
+              <CompareBar
+                sessionId={sessionId}
+                compareId={compareId}
+                onChange={setCompareId}
+              />
+              {!compareId ? (
+                <DecisionGraph
+                  graph={decisionGraph.graph!}
+                  truncated={decisionGraph.truncated}
+                />
+              ) : compareGraph.loading ? (
+                <div className="rounded border border-gray-200 bg-white p-8 text-center text-gray-500">
+                  Loading session {compareId.substring(0, 8)} for comparison…
+                </div>
+              ) : compareGraph.error ? (
+                <div className="rounded border border-red-200 bg-red-50 p-4 text-red-700">
+                  <strong>Failed to load comparison session:</strong> {compareGraph.error}
+                </div>
+              ) : !compareGraph.graph || compareGraph.graph.nodes.length === 0 ? (
+                <div className="rounded border border-amber-200 bg-amber-50 p-4 text-sm text-amber-900">
+                  Session {compareId.substring(0, 8)} has no V2 decision data to compare against.
+                </div>
+              ) : (
+                <DecisionGraphCompare
+                  a={decisionGraph.graph!}
+                  b={compareGraph.graph}
+                  truncated={decisionGraph.truncated || compareGraph.truncated}
+                />
+              )}
+            </>
+          )}
+
+          {activeTab === "replay" && (
+            <SignalReplay
               graph={decisionGraph.graph!}
-              truncated={decisionGraph.truncated}
+              truncated={decisionGraph.truncated || signalsState.truncated}
+              signals={signalsState.signals}
+              signalsLoading={signalsState.loading}
+              signalsError={signalsState.error}
+              anchors={anchorsState.anchors}
             />
           )}
 
@@ -125,9 +195,13 @@ export default function InspectorPage() {
           )}
 
           {activeTab === "verifier" && (
-            <div className="rounded border border-gray-200 bg-white p-8 text-center text-gray-500">
-              VerifierReport — not implemented in v1 (deferred)
-            </div>
+            <ReducerVerifier
+              graph={decisionGraph.graph!}
+              truncated={decisionGraph.truncated || signalsState.truncated}
+              signals={signalsState.signals}
+              signalsLoading={signalsState.loading}
+              signalsError={signalsState.error}
+            />
           )}
         </>
       )}
@@ -144,6 +218,7 @@ function Tabs({
 }) {
   const tabs: { id: Tab; label: string }[] = [
     { id: "graph", label: "Decision Graph" },
+    { id: "replay", label: "Replay" },
     { id: "signals", label: "Signal Stream" },
     { id: "anchors", label: "Lifecycle Anchors" },
     { id: "verifier", label: "Verifier Report" },
@@ -170,6 +245,59 @@ function Tabs({
   );
 }
 
+function CompareBar({
+  sessionId,
+  compareId,
+  onChange,
+}: {
+  sessionId: string;
+  compareId: string;
+  onChange: (id: string) => void;
+}) {
+  const [draft, setDraft] = useState(compareId);
+  const candidate = draft.trim();
+
+  return (
+    <form
+      className="flex flex-wrap items-center gap-2 text-sm"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (candidate && candidate !== sessionId) onChange(candidate);
+      }}
+    >
+      <label htmlFor="compare-session" className="text-gray-600">
+        Compare with session
+      </label>
+      <input
+        id="compare-session"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        placeholder="Session ID (e.g. a healthy run on the same profile)"
+        className="w-96 rounded border border-gray-300 px-2 py-1 font-mono text-xs"
+      />
+      <button
+        type="submit"
+        disabled={!candidate || candidate === sessionId || candidate === compareId}
+        className="rounded bg-blue-600 px-3 py-1 text-xs font-medium text-white disabled:opacity-50"
+      >
+        Compare
+      </button>
+      {compareId && (
+        <button
+          type="button"
+          onClick={() => {
+            setDraft("");
+            onChange("");
+          }}
+          className="rounded border border-gray-300 px-3 py-1 text-xs text-gray-700 hover:bg-gray-50"
+        >
+          Exit compare
+        </button>
+      )}
+    </form>
+  );
+}
+
 function NoV2DataNotice({ sessionId }: { sessionId: string }) {
   return (
     <div className="rounded border border-amber-200 bg-amber-50 p-6 text-amber-900">
@@ -39,6 +39,8 @@ import DeviceDetailsCard from "./components/DeviceDetailsCard";
 import { generateUiExport, generateCsvExport, generateSessionCsvExport, generateRuleResultsCsvExport, SessionExportEvent } from "@/utils/sessionExportUtils";
 import { trackEvent } from "@/lib/appInsights";
 import { useAdminMode } from "@/hooks/useAdminMode";
+import { useEnrollmentEtaBaselines } from "@/hooks/useEnrollmentEtaBaselines";
+import { EnrollmentEtaBadge } from "@/components/EnrollmentEtaBadge";
 
 export default function SessionDetailPage() {
   const params = useParams();
@@ -110,6 +112,8 @@ export default function SessionDetailPage() {
   // Convenience local aliases (keeps the JSX below readable, matches previous names)
   const { session, setSession, sessionTenantId, loading } = detail;
   const events = eventsApi.events;
+  const etaSessions = useMemo(() => (session ? [session] : []), [session]);
+  const etaBaselines = useEnrollmentEtaBaselines({ tenantId, sessions: etaSessions, withAppHistory: true, getAccessToken });
 
   // Cross-tenant read-only view: a delegated ("MSP") admin viewing a MANAGED tenant's session. The backend
   // permits the reads (MemberRead + ?tenantId=, rescued by the delegated scope) but rejects the mutations
@@ -520,7 +524,15 @@ export default function SessionDetailPage() {
                 onClick={() => setPhaseTimelineExpanded(!phaseTimelineExpanded)}
                 className="flex items-center justify-between w-full text-left"
               >
-                <h2 className="text-xl font-semibold text-gray-900">Enrollment Progress</h2>
+                <span className="flex flex-wrap items-center gap-3">
+                  <h2 className="text-xl font-semibold text-gray-900">Enrollment Progress</h2>
+                  <EnrollmentEtaBadge
+                    session={session}
+                    events={events}
+                    baseline={etaBaselines.baselineFor(session)}
+                    appHistory={etaBaselines.appHistoryFor(session)}
+                  />
+                </span>
                 <svg className={`w-5 h-5 text-gray-400 transition-transform duration-200 ${phaseTimelineExpanded ? 'rotate-90' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
                 </svg>
@@ -700,6 +712,7 @@ export default function SessionDetailPage() {
           session={session}
           events={events}
           analysisResults={analysisResults}
+          vulnerabilityReport={vulnerabilityReport}
           onSubmit={handleSubmitReport}
           onCancel={() => setShowReportModal(false)}
           submitting={reportSubmitting}
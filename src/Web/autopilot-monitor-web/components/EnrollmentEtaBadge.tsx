@@ -0,0 +1,80 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  describeEtaBasis,
+  estimateRemaining,
+  formatEtaRemaining,
+  type AppHistory,
+  type EtaBaseline,
+} from "@/lib/enrollmentEta";
+import { EnrollmentEvent, Session } from "@/types";
+
+/** The estimate drifts with wall-clock time between events; re-evaluate on this tick. */
+const ETA_TICK_MS = 30_000;
+
+const CONFIDENCE_STYLE: Record<string, string> = {
+  high: "bg-indigo-50 text-indigo-800 border-indigo-200",
+  medium: "bg-indigo-50 text-indigo-700 border-indigo-100",
+  low: "bg-gray-50 text-gray-600 border-gray-200",
+};
+
+/**
+ * "How much longer?" pill for an in-progress session — remaining time plus the expected
+ * finish clock time, with the estimate's basis in the tooltip. Renders nothing for finished
+ * sessions or while there's nothing to estimate from. `compact` drops the pill chrome and the
+ * finish time for table cells.
+ */
+export function EnrollmentEtaBadge({
+  session,
+  events,
+  baseline,
+  appHistory,
+  compact = false,
+}: {
+  session: Session;
+  /** The session's own events; null where the surface doesn't load them (dashboard table). */
+  events: EnrollmentEvent[] | null;
+  baseline: EtaBaseline | null;
+  appHistory: AppHistory | null;
+  compact?: boolean;
+}) {
+  const [nowMs, setNowMs] = useState(() => Date.now());
+  const inProgress = session.status === "InProgress";
+
+  useEffect(() => {
+    if (!inProgress) return;
+    const id = setInterval(() => setNowMs(Date.now()), ETA_TICK_MS);
+    return () => clearInterval(id);
+  }, [inProgress]);
+
+  const eta = estimateRemaining(session, events, baseline, appHistory, nowMs);
+  if (!eta) return null;
+
+  const remaining = eta.overrun
+    ? `≥ ${formatEtaRemaining(eta.remainingSeconds, false)} left`
+    : `${formatEtaRemaining(eta.remainingSeconds)} left`;
+  const finish = new Date(eta.etaMs).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+  const title = `Estimated finish ${finish} (${eta.confidence} confidence) — ${describeEtaBasis(eta)}`;
+
+  if (compact) {
+    return (
+      <span className={`text-xs ${eta.confidence === "low" ? "text-gray-400" : "text-indigo-600"}`} title={title}>
+        {remaining}
+      </span>
+    );
+  }
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 rounded-full border px-2.5 py-0.5 text-xs font-medium ${CONFIDENCE_STYLE[eta.confidence]}`}
+      title={title}
+    >
+      <svg className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+      </svg>
+      {remaining}
+      <span className="font-normal opacity-75">· ETA {finish}</span>
+    </span>
+  );
+}
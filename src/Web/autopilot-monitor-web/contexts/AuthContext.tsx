@@ -5,6 +5,7 @@ import { PublicClientApplication, AccountInfo, InteractionStatus, InteractionReq
 import { MsalProvider, useMsal, useIsAuthenticated } from '@azure/msal-react';
 import { msalConfig, loginRequest, apiRequest } from '@/lib/msalConfig';
 import { api } from '@/lib/api';
+import { DEV_AUTH_UPN, mintDevToken } from '@/lib/devAuth';
 
 // Initialize MSAL instance
 const msalInstance = new PublicClientApplication(msalConfig);
@@ -113,6 +114,37 @@ interface UserInfo {
   unrestrictedModeEnabled: boolean;
 }
 
+/** Maps an /api/auth/me body to UserInfo, taking identity fields missing from it from `fallback`. */
+function toUserInfo(
+  data: Record<string, unknown>,
+  fallback: Pick<UserInfo, 'displayName' | 'upn' | 'tenantId' | 'objectId'>,
+): UserInfo {
+  return {
+    displayName: (data.displayName as string) || fallback.displayName,
+    upn: (data.upn as string) || fallback.upn,
+    tenantId: (data.tenantId as string) || fallback.tenantId,
+    objectId: (data.objectId as string) || fallback.objectId,
+    isGlobalAdmin: (data.isGlobalAdmin as boolean) || false,
+    isGlobalReader: (data.isGlobalReader as boolean) || false,
+    isTenantAdmin: (data.isTenantAdmin as boolean) || false,
+    isDelegated: (data.isDelegated as boolean) || false,
+    delegatedTenantIds: (data.delegatedTenantIds as string[]) || [],
+    role: (data.role as 'Admin' | 'Operator' | 'Viewer' | null) || null,
+    canManageBootstrapTokens: (data.canManageBootstrapTokens as boolean) || false,
+    hasMcpAccess: (data.hasMcpAccess as boolean) || false,
+    bootstrapTokenEnabled: (data.bootstrapTokenEnabled as boolean) || false,
+    unrestrictedModeEnabled: (data.unrestrictedModeEnabled as boolean) || false,
+  };
+}
+
+/** The identity fallbacks MSAL's account carries, for when /api/auth/me omits them. */
+const accountIdentity = (account: AccountInfo) => ({
+  displayName: account.name || '',
+  upn: account.username || '',
+  tenantId: account.tenantId || '',
+  objectId: account.homeAccountId || '',
+});
+
 interface AuthContextType {
   isAuthenticated: boolean;
   user: UserInfo | null;
@@ -169,22 +201,7 @@ function AuthProviderInternal({ children }: { children: React.ReactNode }) {
         const pending = prefetchedAuthMePromise;
         prefetchedAuthMePromise = null;
         const data = await pending;
-        if (data) return {
-          displayName: (data.displayName as string) || account.name || '',
-          upn: (data.upn as string) || account.username || '',
-          tenantId: (data.tenantId as string) || account.tenantId || '',
-          objectId: (data.objectId as string) || account.homeAccountId || '',
-          isGlobalAdmin: (data.isGlobalAdmin as boolean) || false,
-          isGlobalReader: (data.isGlobalReader as boolean) || false,
-          isTenantAdmin: (data.isTenantAdmin as boolean) || false,
-          isDelegated: (data.isDelegated as boolean) || false,
-          delegatedTenantIds: (data.delegatedTenantIds as string[]) || [],
-          role: (data.role as 'Admin' | 'Operator' | 'Viewer' | null) || null,
-          canManageBootstrapTokens: (data.canManageBootstrapTokens as boolean) || false,
-          hasMcpAccess: (data.hasMcpAccess as boolean) || false,
-          bootstrapTokenEnabled: (data.bootstrapTokenEnabled as boolean) || false,
-          unrestrictedModeEnabled: (data.unrestrictedModeEnabled as boolean) || false,
-        };
+        if (data) return toUserInfo(data, accountIdentity(account));
       }
 
       // Get access token for API
@@ -246,24 +263,7 @@ function AuthProviderInternal({ children }: { children: React.ReactNode }) {
         throw new Error(`Failed to fetch user info: ${response.statusText}`);
       }
 
-      const data = await response.json();
-
-      return {
-        displayName: data.displayName || account.name || '',
-        upn: data.upn || account.username || '',
-        tenantId: data.tenantId || account.tenantId || '',
-        objectId: data.objectId || account.homeAccountId || '',
-        isGlobalAdmin: data.isGlobalAdmin || false,
-        isGlobalReader: data.isGlobalReader || false,
-        isTenantAdmin: data.isTenantAdmin || false,
-        isDelegated: data.isDelegated || false,
-        delegatedTenantIds: data.delegatedTenantIds || [],
-        role: data.role || null,
-        canManageBootstrapTokens: data.canManageBootstrapTokens || false,
-        hasMcpAccess: data.hasMcpAccess || false,
-        bootstrapTokenEnabled: data.bootstrapTokenEnabled || false,
-        unrestrictedModeEnabled: data.unrestrictedModeEnabled || false,
-      };
+      return toUserInfo(await response.json(), accountIdentity(account));
     } catch (error) {
       // If the refresh token is expired or consent is required, redirect to
       // interactive login immediately instead of falling back to stale claims.
@@ -447,9 +447,65 @@ function AuthProviderInternal({ children }: { children: React.ReactNode }) {
 }
 
 /**
- * Main Auth Provider that wraps MsalProvider
+ * Dev sign-in against the offline mock backend (see lib/devAuth.ts): always signed in as the
+ * configured fixture user, with no MSAL involved. The user's roles come from the mock's /api/auth/me.
+ */
+function DevAuthProvider({ upn, children }: { upn: string; children: React.ReactNode }) {
+  const [user, setUser] = useState<UserInfo | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const getAccessToken = useCallback(async (): Promise<string | null> => mintDevToken(upn), [upn]);
+
+  const refreshUserInfo = useCallback(async () => {
+    try {
+      const response = await fetch(api.auth.me(), {
+        headers: { 'Authorization': `Bearer ${mintDevToken(upn)}` },
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to fetch user info: ${response.status} ${response.statusText}`);
+      }
+      setUser(toUserInfo(await response.json(), { displayName: upn, upn, tenantId: '', objectId: '' }));
+    } catch (error) {
+      console.error(`[Auth] Dev sign-in as ${upn} failed — is the mock backend running?`, error);
+      setUser(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [upn]);
+
+  useEffect(() => {
+    refreshUserInfo();
+  }, [refreshUserInfo]);
+
+  const value: AuthContextType = {
+    isAuthenticated: user !== null,
+    user,
+    hasGlobalScope: (user?.isGlobalAdmin || user?.isGlobalReader) ?? false,
+    hasFleetScope: (user?.isGlobalAdmin || user?.isGlobalReader || user?.isDelegated) ?? false,
+    isLoading,
+    isPreviewBlocked: false,
+    previewMessage: '',
+    login: refreshUserInfo,
+    // Nothing to sign out of: the next load signs in as the same fixture user again.
+    logout: async () => {},
+    getAccessToken,
+    refreshUserInfo,
+  };
+
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+/**
+ * Main Auth Provider that wraps MsalProvider, or the dev sign-in when NEXT_PUBLIC_DEV_AUTH_UPN is set
  */
 export function AuthProvider({ children }: { children: React.ReactNode }) {
+  if (DEV_AUTH_UPN) {
+    return <DevAuthProvider upn={DEV_AUTH_UPN}>{children}</DevAuthProvider>;
+  }
   return (
     <MsalProvider instance={msalInstance}>
       <AuthProviderInternal>
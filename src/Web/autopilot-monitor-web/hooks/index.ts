@@ -21,3 +21,6 @@ export type {
   UseNotificationMessagesOptions,
   UseNotificationMessagesReturn,
 } from "./useNotificationMessages";
+
+export { useEnrollmentEtaBaselines } from "./useEnrollmentEtaBaselines";
+export type { UseEnrollmentEtaBaselinesReturn } from "./useEnrollmentEtaBaselines";
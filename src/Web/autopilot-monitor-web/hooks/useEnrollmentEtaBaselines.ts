@@ -0,0 +1,174 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { api } from "@/lib/api";
+import { authenticatedFetch } from "@/lib/authenticatedFetch";
+import {
+  appHistoryFromList,
+  baselineKey,
+  medianPhaseDurations,
+  phaseDurationsFromEvents,
+  selectBaselineSamples,
+  type AppHistory,
+  type EtaBaseline,
+  type PhaseDurations,
+} from "@/lib/enrollmentEta";
+import { Session } from "@/types";
+
+type GetAccessToken = (forceRefresh?: boolean) => Promise<string | null>;
+
+/** Baselines and app history move slowly; a tab left open re-measures them every half hour. */
+const BASELINE_TTL_MS = 30 * 60_000;
+const CANDIDATES_TTL_MS = 5 * 60_000;
+const APP_HISTORY_DAYS = 30;
+
+interface Cached<T> {
+  at: number;
+  promise: Promise<T>;
+}
+
+// Module-level so the dashboard, the detail page and the portal share one set of fetches per
+// browser tab. A completed sample's timeline never changes, so those entries don't expire.
+const sampleCache = new Map<string, Promise<PhaseDurations | null>>();
+const baselineCache = new Map<string, Cached<EtaBaseline>>();
+const appHistoryCache = new Map<string, Cached<AppHistory | null>>();
+const candidatesCache = new Map<string, Cached<Session[]>>();
+
+function cached<T>(cache: Map<string, Cached<T>>, key: string, ttlMs: number, load: () => Promise<T>): Promise<T> {
+  const hit = cache.get(key);
+  if (hit && Date.now() - hit.at < ttlMs) return hit.promise;
+  const promise = load();
+  cache.set(key, { at: Date.now(), promise });
+  return promise;
+}
+
+function loadSample(sample: Session, getAccessToken: GetAccessToken): Promise<PhaseDurations | null> {
+  let pending = sampleCache.get(sample.sessionId);
+  if (!pending) {
+    pending = authenticatedFetch(api.progress.sessionEvents(sample.sessionId, sample.tenantId), getAccessToken)
+      .then(async (res) => (res.ok ? phaseDurationsFromEvents((await res.json()).events || []) : null))
+      .catch(() => null);
+    sampleCache.set(sample.sessionId, pending);
+    // Failures aren't worth pinning for the whole tab lifetime.
+    pending.then((d) => d === null && sampleCache.delete(sample.sessionId));
+  }
+  return pending;
+}
+
+async function loadBaseline(session: Session, candidates: Session[], getAccessToken: GetAccessToken): Promise<EtaBaseline> {
+  const { scope, samples } = selectBaselineSamples(candidates, session);
+  const measured = (await Promise.all(samples.map((s) => loadSample(s, getAccessToken)))).filter(
+    (d): d is PhaseDurations => d !== null && Object.keys(d).length > 0,
+  );
+  if (measured.length === 0) return { scope: "none", sampleSize: 0, phaseMedianSeconds: {} };
+  return { scope, sampleSize: measured.length, phaseMedianSeconds: medianPhaseDurations(measured) };
+}
+
+async function loadAppHistory(tenantId: string, getAccessToken: GetAccessToken): Promise<AppHistory | null> {
+  try {
+    const res = await authenticatedFetch(api.apps.list(tenantId, APP_HISTORY_DAYS), getAccessToken);
+    // Portal-only users lack read access to app analytics — estimate without per-app history.
+    if (!res.ok) return null;
+    return appHistoryFromList((await res.json()).apps || []);
+  } catch {
+    return null;
+  }
+}
+
+async function loadCandidates(tenantId: string, getAccessToken: GetAccessToken): Promise<Session[]> {
+  try {
+    const res = await authenticatedFetch(api.progress.sessions(tenantId), getAccessToken);
+    if (!res.ok) return [];
+    return (await res.json()).sessions || [];
+  } catch {
+    return [];
+  }
+}
+
+interface UseEnrollmentEtaBaselinesParams {
+  /** The signed-in user's tenant — the progress session list is always scoped to it. */
+  tenantId: string;
+  /** Sessions to estimate; only in-progress ones load anything. */
+  sessions: Session[];
+  /**
+   * Session list to pick completed samples from. Surfaces that already hold one (the dashboard)
+   * pass it; otherwise the caller's latest 100 own-tenant sessions are fetched, so a session
+   * viewed cross-tenant gets app-based estimates only.
+   */
+  candidates?: Session[];
+  /** Per-app history only matters with the session's events — the dashboard table skips it. */
+  withAppHistory?: boolean;
+  getAccessToken: GetAccessToken;
+}
+
+export interface UseEnrollmentEtaBaselinesReturn {
+  baselineFor: (session: Session) => EtaBaseline | null;
+  appHistoryFor: (session: Session) => AppHistory | null;
+}
+
+/**
+ * Loads what {@link "@/lib/enrollmentEta".estimateRemaining} needs for each in-progress session:
+ * phase medians measured on recently completed sessions of the same model, and the tenant's
+ * per-app install history. Everything is best-effort — a failed fetch just makes the estimate
+ * coarser (or absent) instead of surfacing an error.
+ */
+export function useEnrollmentEtaBaselines({
+  tenantId,
+  sessions,
+  candidates,
+  withAppHistory = false,
+  getAccessToken,
+}: UseEnrollmentEtaBaselinesParams): UseEnrollmentEtaBaselinesReturn {
+  const [baselines, setBaselines] = useState<Record<string, EtaBaseline>>({});
+  const [appHistories, setAppHistories] = useState<Record<string, AppHistory | null>>({});
+
+  // One representative per baseline key; a string signature keeps SignalR-driven list
+  // refreshes from restarting the effect when nothing relevant changed.
+  const targets = useMemo(() => {
+    const byKey = new Map<string, Session>();
+    for (const s of sessions) {
+      if (s.status === "InProgress" && !byKey.has(baselineKey(s))) byKey.set(baselineKey(s), s);
+    }
+    return byKey;
+  }, [sessions]);
+  const signature = [...targets.keys()].sort().join(",");
+  const hasCandidates = candidates !== undefined;
+  const candidateCount = candidates?.length ?? 0;
+
+  useEffect(() => {
+    // An empty list is the dashboard still loading — don't pin a sample-less baseline for 30 minutes.
+    if (targets.size === 0 || (hasCandidates && candidateCount === 0)) return;
+    let cancelled = false;
+
+    const candidateList = hasCandidates
+      ? Promise.resolve(candidates!)
+      : cached(candidatesCache, tenantId, CANDIDATES_TTL_MS, () => loadCandidates(tenantId, getAccessToken));
+
+    candidateList.then((list) => {
+      for (const [key, session] of targets) {
+        cached(baselineCache, key, BASELINE_TTL_MS, () => loadBaseline(session, list, getAccessToken)).then((baseline) => {
+          if (!cancelled) setBaselines((prev) => (prev[key] === baseline ? prev : { ...prev, [key]: baseline }));
+        });
+      }
+    });
+
+    if (withAppHistory) {
+      for (const owner of new Set([...targets.values()].map((s) => s.tenantId))) {
+        cached(appHistoryCache, owner, BASELINE_TTL_MS, () => loadAppHistory(owner, getAccessToken)).then((history) => {
+          if (!cancelled) setAppHistories((prev) => (prev[owner] === history ? prev : { ...prev, [owner]: history }));
+        });
+      }
+    }
+
+    return () => {
+      cancelled = true;
+    };
+    // `targets` and `candidates` are summarised by `signature` / `candidateCount`.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [signature, tenantId, hasCandidates, candidateCount, withAppHistory, getAccessToken]);
+
+  const baselineFor = useCallback((session: Session) => baselines[baselineKey(session)] ?? null, [baselines]);
+  const appHistoryFor = useCallback((session: Session) => appHistories[session.tenantId] ?? null, [appHistories]);
+
+  return { baselineFor, appHistoryFor };
+}
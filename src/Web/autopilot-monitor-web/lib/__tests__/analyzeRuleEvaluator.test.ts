@@ -0,0 +1,226 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync, readdirSync } from "node:fs";
+import path from "node:path";
+import {
+  evaluateAnalyzeRule,
+  evaluateAnalyzeRules,
+  matchesOperator,
+  type EvaluableRule,
+  type EvaluatorEvent,
+} from "../analyzeRuleEvaluator";
+
+const RULES_DIR = path.resolve(__dirname, "../../../../../rules/analyze");
+const loadRule = (id: string) => JSON.parse(readFileSync(path.join(RULES_DIR, `${id}.json`), "utf8")) as EvaluableRule;
+
+let seq = 0;
+const ev = (timestamp: string, eventType: string, data?: Record<string, unknown>, message = ""): EvaluatorEvent => ({
+  eventId: `e${++seq}`,
+  eventType,
+  timestamp,
+  sequence: seq,
+  message,
+  data: data ?? {},
+});
+
+const baseRule = (overrides: Partial<EvaluableRule>): EvaluableRule => ({
+  ruleId: "ANALYZE-TEST-001",
+  title: "Test rule",
+  conditions: [],
+  ...overrides,
+});
+
+describe("matchesOperator", () => {
+  it("is case-insensitive for string operators", () => {
+    expect(matchesOperator("Proxy-Auth", "equals", "proxy-auth")).toBe(true);
+    expect(matchesOperator("HTTP 407 returned", "contains", "407")).toBe(true);
+    expect(matchesOperator("HTTP 407", "regex", "^http \\d+$")).toBe(true);
+    expect(matchesOperator("abc", "regex", "(?i)ABC")).toBe(true);
+  });
+
+  it("requires both sides numeric for comparisons (empty is not zero)", () => {
+    expect(matchesOperator("8", "gte", "8")).toBe(true);
+    expect(matchesOperator("", "lt", "1")).toBe(false);
+    expect(matchesOperator("4", "lt", "n/a")).toBe(false);
+  });
+
+  it("treats in / not_in as a trimmed comma list", () => {
+    expect(matchesOperator("Dell", "in", "HP, dell ,Lenovo")).toBe(true);
+    expect(matchesOperator("Acer", "not_in", "HP,Dell")).toBe(true);
+  });
+
+  it("never matches an invalid regex, not even for not_regex", () => {
+    expect(matchesOperator("x", "regex", "(")).toBe(false);
+    expect(matchesOperator("x", "not_regex", "(")).toBe(false);
+  });
+});
+
+describe("evaluateAnalyzeRule", () => {
+  it("fires a shipped correlation rule and returns backend-shaped evidence", () => {
+    const rule = loadRule("ANALYZE-APP-012");
+    const events = [
+      ev("2024-01-01T10:00:00Z", "app_install_failed", { appId: "app-1", appName: "Teams", errorPatternId: "IME-ERROR-ENFORCEMENT" }),
+      ev("2024-01-01T10:05:00Z", "app_install_completed", { appId: "app-1", appName: "Teams" }),
+    ];
+    const result = evaluateAnalyzeRule(rule, events);
+
+    expect(result.fired).toBe(true);
+    expect(result.confidence).toBe(80);
+    const evidence = result.matchedConditions.enforcement_error_resolved as Record<string, unknown>;
+    expect(evidence.joinValue).toBe("app-1");
+    expect(evidence.eventA_errorPatternId).toBe("IME-ERROR-ENFORCEMENT");
+    expect(evidence.timeDeltaSeconds).toBe(300);
+    expect(evidence.totalMatches).toBe(1);
+  });
+
+  it("does not correlate when Event B precedes Event A", () => {
+    const rule = loadRule("ANALYZE-APP-012");
+    const result = evaluateAnalyzeRule(rule, [
+      ev("2024-01-01T10:05:00Z", "app_install_completed", { appId: "app-1" }),
+      ev("2024-01-01T10:10:00Z", "app_install_failed", { appId: "app-1", errorPatternId: "IME-ERROR-ENFORCEMENT" }),
+    ]);
+    expect(result.outcome).toBe("required_condition_failed");
+  });
+
+  it("silently skips when a precondition fails and reports which one", () => {
+    const rule = baseRule({
+      preconditions: [{ source: "event_data", eventType: "hardware_spec", dataField: "isVirtualMachine", operator: "equals", value: "false" }],
+      conditions: [{ signal: "err", source: "event_type", eventType: "error_detected", required: true }],
+    });
+    const result = evaluateAnalyzeRule(rule, [
+      ev("2024-01-01T10:00:00Z", "hardware_spec", { isVirtualMachine: true }),
+      ev("2024-01-01T10:01:00Z", "error_detected"),
+    ]);
+    expect(result.outcome).toBe("skipped_by_precondition");
+    expect(result.preconditions).toEqual([expect.objectContaining({ index: 0, passed: false })]);
+    expect(result.conditions).toEqual([]);
+  });
+
+  it("stringifies booleans like .NET so 'True' / 'false' compare case-insensitively", () => {
+    const rule = baseRule({
+      conditions: [{ signal: "sb_off", source: "event_data", eventType: "secureboot_status", dataField: "uefiSecureBootEnabled", operator: "equals", value: "false", required: true }],
+    });
+    const result = evaluateAnalyzeRule(rule, [ev("2024-01-01T10:00:00Z", "secureboot_status", { uefiSecureBootEnabled: false })]);
+    expect(result.fired).toBe(true);
+    expect((result.matchedConditions.sb_off as Record<string, unknown>).value).toBe("False");
+  });
+
+  it("short-circuits after a failed required condition", () => {
+    const rule = baseRule({
+      conditions: [
+        { signal: "a", source: "event_type", eventType: "missing_type", required: true },
+        { signal: "b", source: "event_type", eventType: "error_detected" },
+      ],
+    });
+    const result = evaluateAnalyzeRule(rule, [ev("2024-01-01T10:00:00Z", "error_detected")]);
+    expect(result.outcome).toBe("required_condition_failed");
+    expect(result.conditions.map((c) => [c.signal, c.evaluated, c.matched])).toEqual([["a", true, false], ["b", false, false]]);
+  });
+
+  it("never fires vacuously when only optional conditions exist and none match", () => {
+    const rule = baseRule({ conditions: [{ signal: "opt", source: "event_type", eventType: "nothing_here" }] });
+    expect(evaluateAnalyzeRule(rule, [ev("2024-01-01T10:00:00Z", "agent_started")]).outcome).toBe("no_condition_matched");
+  });
+
+  it("honours suppressByEvent on the joinField", () => {
+    const rule = baseRule({
+      conditions: [{
+        signal: "failed", source: "event_type", eventType: "app_install_failed", required: true,
+        suppressByEvent: { eventType: "app_install_completed", joinField: "appId" },
+      }],
+    });
+    const result = evaluateAnalyzeRule(rule, [
+      ev("2024-01-01T10:00:00Z", "app_install_failed", { appId: "a" }),
+      ev("2024-01-01T10:02:00Z", "app_install_completed", { appId: "A" }),
+    ]);
+    expect(result.outcome).toBe("required_condition_failed");
+    expect(result.conditions[0].evidence).toBe("all matches suppressed by resolving events");
+  });
+
+  it("scores confidence factors, caps at 100 and applies the threshold", () => {
+    const rule = baseRule({
+      baseConfidence: 30,
+      confidenceThreshold: 60,
+      conditions: [
+        { signal: "device_setup", source: "phase_duration", dataField: "espPhase", value: "DeviceSetup", required: true },
+        { signal: "net_error", source: "event_type", eventType: "network_error" },
+      ],
+      confidenceFactors: [
+        { signal: "long_phase", condition: "phase_duration > 600", weight: 40 },
+        { signal: "net_error", condition: "exists", weight: 40 },
+        { signal: "network_error", condition: "count >= 2", weight: 10 },
+        { signal: "custom", condition: "equals:notfound", weight: 50 },
+      ],
+    });
+    const events = [
+      ev("2024-01-01T10:00:00Z", "esp_phase_changed", { espPhase: "DeviceSetup" }),
+      ev("2024-01-01T10:05:00Z", "network_error"),
+      ev("2024-01-01T10:06:00Z", "network_error"),
+      ev("2024-01-01T10:20:00Z", "esp_phase_changed", { espPhase: "AccountSetup" }),
+    ];
+    const result = evaluateAnalyzeRule(rule, events);
+
+    expect(result.fired).toBe(true);
+    expect(result.confidence).toBe(100);
+    expect((result.matchedConditions.device_setup as Record<string, unknown>).durationSeconds).toBe(1200);
+    expect(result.matchedConditions.factor_long_phase).toBe(true);
+    expect(result.confidenceFactors.find((f) => f.signal === "custom")).toEqual(
+      expect.objectContaining({ matched: false, supported: false }),
+    );
+
+    const weak = evaluateAnalyzeRule({ ...rule, confidenceFactors: [] }, events);
+    expect(weak.outcome).toBe("below_threshold");
+    expect(weak.confidence).toBe(30);
+  });
+
+  it("uses the supplied clock for a phase still active at the end of the stream", () => {
+    const rule = baseRule({ conditions: [{ signal: "acct", source: "phase_duration", value: "AccountSetup", required: true }] });
+    const result = evaluateAnalyzeRule(
+      rule,
+      [ev("2024-01-01T10:00:00Z", "esp_phase_changed", { espPhase: "AccountSetup" })],
+      { now: Date.parse("2024-01-01T10:01:30Z") },
+    );
+    const evidence = result.matchedConditions.acct as Record<string, unknown>;
+    expect(evidence.durationSeconds).toBe(90);
+    expect(evidence.durationFormatted).toBe("1m 30s");
+    expect(evidence.phaseEndEventId).toBe("(still active)");
+  });
+
+  it("matches any array element for event_data_array with capped samples", () => {
+    const rule = baseRule({
+      conditions: [{ signal: "ppkg", source: "event_data_array", eventType: "provisioning_package_scan", dataField: "artifacts", itemField: "identity", operator: "not_regex", value: "^Contoso", required: true }],
+    });
+    const result = evaluateAnalyzeRule(rule, [
+      ev("2024-01-01T10:00:00Z", "provisioning_package_scan", { artifacts: [{ identity: "Contoso.Base" }, { identity: "Rogue.Pkg" }] }),
+    ]);
+    expect(result.matchedConditions.ppkg).toEqual(expect.objectContaining({ field: "identity", value: "Rogue.Pkg", matchCount: 1 }));
+  });
+
+  it("counts per group for count_per_group_gte", () => {
+    const rule = baseRule({
+      conditions: [{ signal: "retries", source: "event_count", eventType: "app_install_started", dataField: "appId", operator: "count_per_group_gte", value: "3", required: true }],
+    });
+    const events = [1, 2, 3].map((i) => ev(`2024-01-01T10:0${i}:00Z`, "app_install_started", { appId: "x", appName: "Office" }));
+    expect(evaluateAnalyzeRule(rule, events).matchedConditions.retries).toEqual(
+      expect.objectContaining({ groupKey: "x", appName: "Office", count: 3, threshold: 3 }),
+    );
+  });
+
+  it("backfills failedSubcategories for older esp_provisioning_status events", () => {
+    const rule = baseRule({
+      conditions: [{ signal: "esp", source: "event_data", eventType: "esp_provisioning_status", dataField: "failedSubcategories", operator: "contains", value: "CertificatesCategory", required: true }],
+    });
+    const result = evaluateAnalyzeRule(rule, [
+      ev("2024-01-01T10:00:00Z", "esp_provisioning_status", {
+        transitions: [{ subcategory: "CertificatesCategory", newState: "failed" }, { subcategory: "Apps", newState: "succeeded" }],
+      }),
+    ]);
+    expect(result.fired).toBe(true);
+  });
+
+  it("evaluates every shipped analyze rule without throwing", () => {
+    const rules = readdirSync(RULES_DIR).filter((f) => f.endsWith(".json")).map((f) => loadRule(f.replace(/\.json$/, "")));
+    const results = evaluateAnalyzeRules(rules, [ev("2024-01-01T10:00:00Z", "agent_started")]);
+    expect(results).toHaveLength(rules.length);
+    expect(results.every((r) => typeof r.outcome === "string")).toBe(true);
+  });
+});
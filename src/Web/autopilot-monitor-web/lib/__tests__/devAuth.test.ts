@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { mintDevToken, resolveDevAuthUpn } from "../devAuth";
+
+// The mock backend decodes (never verifies) the bearer token and looks the caller up by UPN, so
+// the minted token must stay in its fixture format: base64url JSON header and claims, ".mock" tail.
+
+const decode = (part: string) =>
+  JSON.parse(Buffer.from(part, "base64url").toString("utf-8")) as Record<string, unknown>;
+
+describe("resolveDevAuthUpn", () => {
+  it("is off in production builds whatever the variable says", () => {
+    expect(resolveDevAuthUpn("production", "admin@contoso.example")).toBeNull();
+  });
+
+  it("normalizes the configured UPN and treats blank as off", () => {
+    expect(resolveDevAuthUpn("development", " Admin@Contoso.example ")).toBe("admin@contoso.example");
+    expect(resolveDevAuthUpn("development", "  ")).toBeNull();
+    expect(resolveDevAuthUpn("test", undefined)).toBeNull();
+  });
+});
+
+describe("mintDevToken", () => {
+  it("mints an unsigned token in the mock backend's fixture format", () => {
+    const nowMs = Date.parse("2026-03-02T12:00:00Z");
+    const [header, claims, signature] = mintDevToken("admin@contoso.example", 3600, nowMs).split(".");
+
+    expect(decode(header)).toEqual({ alg: "none", typ: "JWT" });
+    expect(decode(claims)).toEqual({
+      upn: "admin@contoso.example",
+      preferred_username: "admin@contoso.example",
+      name: "admin@contoso.example",
+      exp: nowMs / 1000 + 3600,
+    });
+    expect(signature).toBe("mock");
+  });
+});
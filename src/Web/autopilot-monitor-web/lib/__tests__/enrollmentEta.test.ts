@@ -0,0 +1,186 @@
+import { describe, it, expect } from "vitest";
+import type { EnrollmentEvent, Session } from "@/types";
+import {
+  DEFAULT_APP_SECONDS,
+  appHistoryFromList,
+  estimateRemaining,
+  formatEtaRemaining,
+  medianPhaseDurations,
+  phaseDurationsFromEvents,
+  selectBaselineSamples,
+  type EtaBaseline,
+} from "../enrollmentEta";
+
+const NOW = Date.parse("2026-05-04T10:00:00Z");
+const minutesAgo = (m: number) => new Date(NOW - m * 60_000).toISOString();
+
+const session = (id: string, overrides: Partial<Session> = {}): Session => ({
+  sessionId: id,
+  tenantId: "t1",
+  serialNumber: `SER-${id}`,
+  deviceName: `PC-${id}`,
+  manufacturer: "Contoso",
+  model: "Book 3",
+  startedAt: minutesAgo(30),
+  status: "InProgress",
+  currentPhase: 3,
+  eventCount: 10,
+  durationSeconds: 0,
+  ...overrides,
+});
+
+let seq = 0;
+const event = (eventType: string, phase: number, minutes: number, data?: Record<string, unknown>): EnrollmentEvent => ({
+  eventId: `e${++seq}`,
+  sessionId: "s",
+  timestamp: minutesAgo(minutes),
+  eventType,
+  severity: "Info",
+  source: "test",
+  phase,
+  message: "",
+  sequence: seq,
+  data,
+});
+
+const baseline = (phaseMedianSeconds: Record<number, number>, scope: EtaBaseline["scope"] = "model"): EtaBaseline => ({
+  scope,
+  sampleSize: 5,
+  phaseMedianSeconds,
+});
+
+describe("phase durations", () => {
+  it("cuts the timeline at each phase's first event and ignores unknown/complete markers", () => {
+    const durations = phaseDurationsFromEvents([
+      event("agent_started", 0, 60),
+      event("x", -1, 59),
+      event("x", 1, 55),
+      event("x", 3, 40),
+      event("x", 1, 35),
+      event("x", 6, 10),
+      event("enrollment_complete", 7, 5),
+    ]);
+    expect(durations).toEqual({ 0: 300, 1: 900, 3: 1800, 6: 300 });
+  });
+
+  it("takes the per-phase median, counting phases a sample skipped as zero", () => {
+    expect(medianPhaseDurations([{ 1: 100, 3: 600 }, { 1: 200, 3: 900 }, { 1: 300, 4: 50 }])).toEqual({ 1: 200, 3: 600 });
+  });
+});
+
+describe("selectBaselineSamples", () => {
+  const done = (id: string, model: string, startedMinutesAgo: number, overrides: Partial<Session> = {}) =>
+    session(id, { model, status: "Succeeded", startedAt: minutesAgo(startedMinutesAgo), ...overrides });
+
+  it("prefers the latest succeeded sessions of the same model", () => {
+    const target = session("t");
+    const { scope, samples } = selectBaselineSamples(
+      [
+        done("a", "Book 3", 300),
+        done("b", "Book 3", 100),
+        done("c", "Book 3", 200),
+        done("d", "Book 3", 50, { status: "Failed" }),
+        done("e", "Book 3", 60, { enrollmentType: "v2" }),
+        done("f", "Other", 10),
+        target,
+      ],
+      target,
+      2,
+    );
+    expect(scope).toBe("model");
+    expect(samples.map((s) => s.sessionId)).toEqual(["b", "c"]);
+  });
+
+  it("widens to the tenant when the model has too few samples", () => {
+    const { scope, samples } = selectBaselineSamples(
+      [done("a", "Book 3", 300), done("b", "Other", 100), done("c", "Other", 200, { tenantId: "t2" })],
+      session("t"),
+    );
+    expect(scope).toBe("tenant");
+    expect(samples.map((s) => s.sessionId)).toEqual(["b", "a"]);
+    expect(selectBaselineSamples([], session("t")).scope).toBe("none");
+  });
+});
+
+describe("estimateRemaining", () => {
+  const medians = { 1: 600, 2: 300, 3: 1200, 4: 300, 6: 240 };
+
+  it("returns null for finished sessions and when there is nothing to go on", () => {
+    expect(estimateRemaining(session("s", { status: "Succeeded" }), [], baseline(medians), null, NOW)).toBeNull();
+    expect(estimateRemaining(session("s"), null, null, null, NOW)).toBeNull();
+  });
+
+  it("infers time in phase from elapsed time when the surface has no events", () => {
+    // 30 min elapsed − 15 min of earlier medians = 15 min into phase 3, 5 min left of its 20 min median.
+    const eta = estimateRemaining(session("s"), null, baseline(medians), null, NOW)!;
+    expect(eta.currentPhaseSeconds).toBe(300);
+    expect(eta.laterPhasesSeconds).toBe(540);
+    expect(eta.remainingSeconds).toBe(840);
+    expect(eta.etaMs).toBe(NOW + 840_000);
+    expect(eta).toMatchObject({ overrun: false, confidence: "high", remainingApps: null });
+  });
+
+  it("flags a phase that already ran past its median", () => {
+    const eta = estimateRemaining(
+      session("s", { currentPhase: 2 }),
+      [event("x", 2, 20)],
+      baseline(medians, "tenant"),
+      null,
+      NOW,
+    )!;
+    expect(eta.currentPhaseSeconds).toBe(0);
+    expect(eta).toMatchObject({ overrun: true, confidence: "low" });
+  });
+
+  it("sums the remaining tracked apps from history, throughput and install progress", () => {
+    const history = appHistoryFromList([
+      { appName: "Office", avgDurationSeconds: 600, avgDownloadBytes: 2_000_000_000 },
+      { appName: "Teams", avgDurationSeconds: 120 },
+      { appName: "Unused", avgDurationSeconds: 0 },
+    ]);
+    const events = [
+      event("x", 3, 10),
+      event("app_install_started", 3, 9, { appName: "Agent" }),
+      event("app_install_completed", 3, 8, { appName: "Agent" }),
+      event("app_install_started", 3, 2, { appName: "Teams" }),
+      event("download_progress", 3, 1, {
+        app_name: "Office",
+        bytes_downloaded: 500_000_000,
+        bytes_total: 1_500_000_000,
+        download_rate_bps: 1_000_000,
+        status: "downloading",
+      }),
+      event("app_tracking_summary", 3, 0, {
+        installingNames: ["Teams"],
+        downloadingNames: ["Office"],
+        pendingNames: ["VPN"],
+      }),
+    ];
+    const eta = estimateRemaining(session("s"), events, baseline({ 3: 1200, 6: 240 }), history, NOW)!;
+    // Teams: 120 s history − 120 s spent = 0. Office: 1 GB left at 1 MB/s = 1000 s > 600 s history.
+    // VPN: no history → this session's own install median (Agent, 60 s).
+    expect(eta.currentPhaseSeconds).toBe(0 + 1000 + 60);
+    expect(eta.remainingSeconds).toBe(1060 + 240);
+    expect(eta).toMatchObject({ remainingApps: 3, appsWithHistory: 2 });
+  });
+
+  it("falls back to the default per-app duration without any history", () => {
+    const eta = estimateRemaining(
+      session("s", { currentPhase: 5 }),
+      [event("app_tracking_summary", 5, 1, { pendingNames: ["A", "B"], installingNames: [], downloadingNames: [] })],
+      null,
+      null,
+      NOW,
+    )!;
+    expect(eta.remainingSeconds).toBe(2 * DEFAULT_APP_SECONDS);
+    expect(eta).toMatchObject({ scope: "none", confidence: "low", remainingApps: 2 });
+  });
+});
+
+describe("formatEtaRemaining", () => {
+  it("rounds to minutes", () => {
+    expect(formatEtaRemaining(20)).toBe("< 1 min");
+    expect(formatEtaRemaining(25 * 60)).toBe("~25 min");
+    expect(formatEtaRemaining(80 * 60, false)).toBe("1h 20m");
+  });
+});
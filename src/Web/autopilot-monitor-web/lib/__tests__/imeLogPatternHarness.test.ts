@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync, readdirSync } from "node:fs";
+import path from "node:path";
+import { runImeLogHarness, splitImeLogEntries, type HarnessPattern } from "../imeLogPatternHarness";
+
+const PATTERNS_DIR = path.resolve(__dirname, "../../../../../rules/ime-log-patterns");
+const shipped: HarnessPattern[] = readdirSync(PATTERNS_DIR)
+  .filter((f) => f.endsWith(".json"))
+  .flatMap((f) => {
+    const parsed = JSON.parse(readFileSync(path.join(PATTERNS_DIR, f), "utf8")) as HarnessPattern | { rules: HarnessPattern[] };
+    return "rules" in parsed ? parsed.rules : [parsed];
+  });
+
+const cmtrace = (message: string, time = "10:00:05.1234567", type = 1) =>
+  `<![LOG[${message}]LOG]!><time="${time}" date="2-8-2026" component="AppWorkload" context="" type="${type}" thread="5" file="">`;
+
+const APP_ID = "a1b2c3d4-0000-1111-2222-333344445555";
+
+describe("splitImeLogEntries", () => {
+  it("reassembles multiline CMTrace entries and keeps raw lines", () => {
+    const text = [
+      cmtrace("single"),
+      "<![LOG[write output done. output = line1",
+      'line2]LOG]!><time="7:01:02.5" date="12-31-2025" component="AgentExecutor" context="" type="3" thread="9" file="">',
+      "plain text line",
+      "",
+    ].join("\r\n");
+    expect(splitImeLogEntries(text)).toEqual([
+      expect.objectContaining({ line: 1, message: "single", localTimestamp: "2026-02-08T10:00:05.123" }),
+      expect.objectContaining({ line: 2, message: "write output done. output = line1\nline2", localTimestamp: "2025-12-31T07:01:02.500", type: 3 }),
+      expect.objectContaining({ line: 4, message: "plain text line", localTimestamp: null }),
+    ]);
+  });
+});
+
+describe("runImeLogHarness", () => {
+  it("compiles every shipped pattern as a JavaScript regex", () => {
+    const report = runImeLogHarness("", shipped, { includeDisabled: true });
+    expect(report.invalidPatterns).toEqual([]);
+    expect(report.patterns.length).toBe(shipped.length);
+  });
+
+  it("reports the matched pattern, named groups and action per line plus unmatched lines", () => {
+    const log = [
+      cmtrace("[Win32App] In EspPhase: DeviceSetup"),
+      cmtrace(`[Win32App] Admin did NOT set mapping for lpExitCode: 1603 of app: ${APP_ID}`, "10:00:09.0", 3),
+      cmtrace("nothing interesting"),
+    ].join("\n");
+    const report = runImeLogHarness(log, shipped);
+
+    expect(report.lines[0].matches).toContainEqual(
+      expect.objectContaining({ patternId: "IME-ESP-PHASE", action: "espPhaseDetected", groups: { espPhase: "DeviceSetup" } })
+    );
+    expect(report.lines[1].matches).toContainEqual(
+      expect.objectContaining({ patternId: "IME-ERROR-UNMAPPED-EXIT", action: "updateStateError", groups: expect.objectContaining({ exitCode: "1603", id: APP_ID }) })
+    );
+    expect(report.lines[2].matches).toEqual([]);
+
+    expect(report.totalEntries).toBe(3);
+    expect(report.matchedEntries).toBe(2);
+    expect(report.lineCoveragePercent).toBe(66.7);
+    expect(report.actionCounts.espPhaseDetected).toBeGreaterThanOrEqual(1);
+    expect(report.patterns.find((p) => p.patternId === "IME-ERROR-UNMAPPED-EXIT")).toEqual(expect.objectContaining({ hits: 1, firstLine: 2 }));
+    expect(report.unusedPatternIds).not.toContain("IME-ESP-PHASE");
+  });
+
+  it("skips disabled patterns unless asked and reports regexes JavaScript rejects", () => {
+    const patterns: HarnessPattern[] = [
+      { patternId: "T-ON", category: "always", pattern: "hello (?<who>\\w+)", action: "imeStarted" },
+      { patternId: "T-OFF", category: "always", pattern: "hello", action: "imeStarted", enabled: false },
+      { patternId: "T-BAD", category: "always", pattern: "(?<x>a)(?<x>b)", action: "imeStarted" },
+    ];
+    const report = runImeLogHarness("HELLO World", patterns);
+    expect(report.lines[0].matches).toEqual([
+      { patternId: "T-ON", category: "always", action: "imeStarted", groups: { who: "World" }, parameters: {} },
+    ]);
+    expect(report.invalidPatterns.map((p) => p.patternId)).toEqual(["T-BAD"]);
+
+    const withDisabled = runImeLogHarness("HELLO World", patterns, { includeDisabled: true });
+    expect(withDisabled.multiMatchEntries).toBe(1);
+    expect(withDisabled.patterns.find((p) => p.patternId === "T-OFF")).toEqual(expect.objectContaining({ enabled: false, hits: 1 }));
+  });
+});
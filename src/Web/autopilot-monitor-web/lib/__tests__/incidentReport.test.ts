@@ -0,0 +1,154 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildIncidentReport,
+  renderIncidentMarkdown,
+  renderIncidentHtml,
+  formatDuration,
+  formatTime,
+  type IncidentReportEvent,
+  type IncidentReportInput,
+} from "../incidentReport";
+
+let seq = 0;
+function ev(timestamp: string, eventType: string, severity: string, phase: number, message: string, data?: Record<string, unknown>): IncidentReportEvent {
+  seq++;
+  return { timestamp, eventType, severity, phase, message, source: "Agent", data: data ?? { seq } };
+}
+
+function input(overrides: Partial<IncidentReportInput> = {}): IncidentReportInput {
+  return {
+    session: {
+      sessionId: "11111111-2222-3333-4444-555555555555",
+      tenantId: "tenant-a",
+      deviceName: "DESKTOP-01",
+      serialNumber: "SN123",
+      manufacturer: "Contoso",
+      model: "Book 14",
+      status: "Failed",
+      failureReason: "ESP app install failed",
+      currentPhase: 3,
+      enrollmentType: "v1",
+      startedAt: "2026-03-01T08:00:00Z",
+      completedAt: "2026-03-01T09:01:05Z",
+      durationSeconds: 3665,
+      isPreProvisioned: false,
+    },
+    events: [
+      ev("2026-03-01T08:00:00Z", "agent_started", "Info", 0, "Agent started"),
+      ev("2026-03-01T08:05:00Z", "esp_phase_changed", "Info", 1, "Device preparation"),
+      ev("2026-03-01T08:20:00Z", "esp_phase_changed", "Info", 3, "Apps (device)"),
+      ev("2026-03-01T08:30:00Z", "app_install_failed", "Error", 3, "Install failed", { appName: "Contoso VPN", errorCode: "0x87D1041C", detectionResult: "NotDetected" }),
+      ev("2026-03-01T08:40:00Z", "app_install_failed", "Error", 3, "Install failed again", { appName: "Contoso VPN", errorCode: "0x80070643" }),
+      ev("2026-03-01T08:35:00Z", "app_install_failed", "Error", 3, "Transient", { appName: "Office" }),
+      ev("2026-03-01T08:45:00Z", "app_install_completed", "Info", 3, "Installed", { appName: "Office" }),
+      ev("2026-03-01T08:50:00Z", "performance_snapshot", "Warning", -1, "CPU high"),
+      ev("2026-03-01T09:01:05Z", "enrollment_failed", "Error", 99, "Enrollment failed"),
+    ],
+    ruleResults: [
+      {
+        ruleId: "ANALYZE-LOW", ruleTitle: "Low rule", severity: "low", confidenceScore: 90, explanation: "Minor",
+      },
+      {
+        ruleId: "ANALYZE-APP-001", ruleTitle: "App install failure", severity: "high", category: "apps", confidenceScore: 80,
+        explanation: "{{appName}} failed with {{errorCode}}",
+        remediation: [{ title: "Fix {{appName}}", steps: ["Check the detection rule", "Redeploy | retry"] }],
+        relatedDocs: [{ title: "Docs", url: "https://learn.microsoft.com/x" }, { title: "Bad", url: "javascript:alert(1)" }],
+        matchedConditions: { failed_app: { field: "appName", value: "Contoso VPN" }, code: { field: "errorCode", value: "0x87D1041C" } },
+      },
+    ],
+    vulnerabilityReport: {
+      findings: [
+        { softwareName: "7-Zip", installedVersion: "19.00", cves: [{ cveId: "CVE-1", cvss: 9.8, kev: true }, { cveId: "CVE-2", severity: "Moderate" }] },
+        { software: "Reader", version: "1.0", vulnerabilities: [{ id: "CVE-2", cvssScore: 5 }] },
+      ],
+    },
+    generatedAt: "2026-03-02T10:00:00.000Z",
+    ...overrides,
+  };
+}
+
+describe("buildIncidentReport", () => {
+  it("builds the phase timeline with durations until the next phase starts", () => {
+    const report = buildIncidentReport(input());
+    expect(report.phases.map((p) => [p.name, p.durationSeconds, p.errorCount])).toEqual([
+      ["Start", 300, 0],
+      ["Device Preparation", 900, 0],
+      ["Apps (Device)", 2465, 3],
+      ["Failed", 0, 1],
+    ]);
+  });
+
+  it("lists only apps whose final outcome is a failure, with the last error code", () => {
+    const [app, ...rest] = buildIncidentReport(input()).failingApps;
+    expect(rest).toEqual([]);
+    expect(app).toMatchObject({ appName: "Contoso VPN", errorCode: "0x80070643", failedAttempts: 2, lastFailureAt: "2026-03-01T08:40:00Z" });
+  });
+
+  it("orders rules by severity and interpolates rule templates", () => {
+    const report = buildIncidentReport(input());
+    expect(report.rules.map((r) => r.ruleId)).toEqual(["ANALYZE-APP-001", "ANALYZE-LOW"]);
+    expect(report.rules[0].explanation).toBe("Contoso VPN failed with 0x87D1041C");
+    expect(report.rules[0].remediation[0].title).toBe("Fix Contoso VPN");
+  });
+
+  it("caps the key-event excerpt by relevance and keeps it chronological", () => {
+    const report = buildIncidentReport(input({ keyEventLimit: 3 }));
+    expect(report.keyEvents.map((e) => e.message)).toEqual(["Install failed", "Transient", "Install failed again"]);
+    // 4 errors + 2 phase changes + 1 warning matched, 3 kept.
+    expect(report.keyEventsOmitted).toBe(4);
+  });
+
+  it("summarizes vulnerabilities with each CVE counted once", () => {
+    const v = buildIncidentReport(input()).vulnerabilities!;
+    expect(v).toMatchObject({ findingCount: 2, cveCount: 2, kevCount: 1 });
+    expect(v.bySeverity).toEqual({ critical: 1, high: 0, medium: 1, low: 0, info: 0 });
+    expect(v.topFindings[0]).toMatchObject({ software: "7-Zip", maxCvss: 9.8, maxSeverity: "critical", kevCount: 1 });
+    expect(buildIncidentReport(input({ vulnerabilityReport: null })).vulnerabilities).toBeNull();
+  });
+});
+
+describe("renderIncidentMarkdown", () => {
+  it("renders every section with escaped table cells", () => {
+    const md = renderIncidentMarkdown(buildIncidentReport(input()));
+    expect(md).toContain("# Incident report: DESKTOP-01 (Failed)");
+    expect(md).toContain("_Generated 2026-03-02 10:00:00 UTC by Autopilot Monitor_");
+    expect(md).toContain("| Status | Failed — ESP app install failed |");
+    expect(md).toContain("| Apps (Device) | 2026-03-01 08:20:00 UTC | 2026-03-01 08:45:00 UTC | 41m 05s | 5 | 3 |");
+    expect(md).toContain("| Contoso VPN | 0x80070643 | — | 2 |");
+    expect(md).toContain("### [high] App install failure");
+    expect(md).toContain("2. Redeploy | retry");
+    expect(md).toContain("- 2 vulnerable software packages, 2 CVEs (1 known exploited)");
+    expect(md).toContain("| 7-Zip | 19.00 | 2 | 1 | 9.8 | critical |");
+  });
+
+  it("says so when a section is empty", () => {
+    const md = renderIncidentMarkdown(buildIncidentReport(input({ events: [], ruleResults: [], vulnerabilityReport: undefined })));
+    expect(md).toContain("_No phase events recorded._");
+    expect(md).toContain("_No app ended in a failed install._");
+    expect(md).toContain("_No analysis rules fired._");
+    expect(md).toContain("_No vulnerability report for this session._");
+  });
+});
+
+describe("renderIncidentHtml", () => {
+  it("escapes content and only links http(s) docs", () => {
+    const report = buildIncidentReport(input());
+    report.failingApps[0].message = "<script>alert('x')</script>";
+    const html = renderIncidentHtml(report);
+    expect(html.startsWith("<!DOCTYPE html>")).toBe(true);
+    expect(html).toContain("&lt;script&gt;alert(&#39;x&#39;)&lt;/script&gt;");
+    expect(html).not.toContain("<script>");
+    expect(html).toContain('<a href="https://learn.microsoft.com/x">Docs</a>');
+    expect(html).not.toContain("javascript:");
+  });
+});
+
+describe("formatting", () => {
+  it("formats durations and UTC times", () => {
+    expect(formatDuration(3723)).toBe("1h 02m 03s");
+    expect(formatDuration(65)).toBe("1m 05s");
+    expect(formatDuration(9)).toBe("9s");
+    expect(formatTime("2026-03-01T08:00:05.123+02:00")).toBe("2026-03-01 06:00:05 UTC");
+    expect(formatTime("not a date")).toBe("not a date");
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect } from "vitest";
+import type { Session } from "@/types";
+import {
+  WALLBOARD_DEFAULTS,
+  findSessionBySerial,
+  parseSerialList,
+  parseWallboardConfig,
+  selectWallboardEntries,
+  summarizeWallboard,
+  tileHealth,
+  wallboardPage,
+  wallboardPageCount,
+  wallboardSearchParams,
+  type BootstrapBatch,
+} from "../progressWallboard";
+
+const NOW = Date.parse("2026-05-04T10:00:00Z");
+const minutesAgo = (m: number) => new Date(NOW - m * 60_000).toISOString();
+
+const session = (id: string, serial: string, overrides: Partial<Session> = {}): Session => ({
+  sessionId: id,
+  tenantId: "t1",
+  serialNumber: serial,
+  deviceName: `PC-${serial}`,
+  manufacturer: "Contoso",
+  model: "Book 3",
+  startedAt: minutesAgo(30),
+  status: "InProgress",
+  currentPhase: 3,
+  eventCount: 10,
+  durationSeconds: 0,
+  lastEventAt: minutesAgo(1),
+  ...overrides,
+});
+
+describe("parseWallboardConfig", () => {
+  it("applies defaults and clamps out-of-range values", () => {
+    const config = parseWallboardConfig(new URLSearchParams("serials=A, b;A\nC&rotate=1&tiles=500&sla=-5"));
+    expect(config).toEqual({
+      serials: ["A", "b", "C"],
+      batch: null,
+      slaMinutes: null,
+      stallMinutes: WALLBOARD_DEFAULTS.stallMinutes,
+      rotateSeconds: 5,
+      pageSize: 48,
+      kiosk: false,
+    });
+  });
+
+  it("round-trips through the search params, omitting defaults", () => {
+    const config = parseWallboardConfig(new URLSearchParams("serials=A,B&batch=XYZ&sla=90&stall=10&kiosk=1"));
+    const params = wallboardSearchParams(config);
+    expect(params.has("rotate")).toBe(false);
+    expect(parseWallboardConfig(params)).toEqual(config);
+  });
+
+  it("dedupes serials case-insensitively", () => {
+    expect(parseSerialList("abc ABC, def")).toEqual(["abc", "def"]);
+  });
+});
+
+describe("selectWallboardEntries", () => {
+  const sessions = [
+    session("s1", "SER-001"),
+    session("s1-old", "SER-001", { startedAt: minutesAgo(600), status: "Failed" }),
+    session("s2", "SER-002", { startedAt: minutesAgo(50) }),
+    session("s3", "SER-003", { startedAt: minutesAgo(200) }),
+  ];
+
+  it("picks the latest session per serial and keeps unmatched serials as waiting tiles", () => {
+    const entries = selectWallboardEntries(sessions, ["ser-001", "SER-999"], null);
+    expect(entries.map((e) => e.key)).toEqual(["s1", "serial:SER-999"]);
+    expect(entries[1].session).toBeNull();
+  });
+
+  it("adds batch sessions by start time without duplicating serial matches", () => {
+    const batch: BootstrapBatch = {
+      shortCode: "ABC",
+      label: "Floor 3",
+      createdAt: minutesAgo(120),
+      expiresAt: minutesAgo(-60),
+    };
+    const entries = selectWallboardEntries(sessions, ["SER-001"], batch);
+    expect(entries.map((e) => e.key)).toEqual(["s1", "s2"]);
+    expect(entries[1].serial).toBeNull();
+  });
+
+  it("matches the portal search on device name", () => {
+    expect(findSessionBySerial(sessions, "pc-ser-003")?.sessionId).toBe("s3");
+    expect(findSessionBySerial(sessions, "  ")).toBeUndefined();
+  });
+});
+
+describe("tileHealth", () => {
+  it("flags in-progress devices without recent events as stalled", () => {
+    const health = tileHealth(session("s", "A", { lastEventAt: minutesAgo(25) }), NOW, 60, 20);
+    expect(health.alert).toBe("stalled");
+    expect(health.idleMs).toBe(25 * 60_000);
+    expect(health.slaRatio).toBeCloseTo(0.5);
+  });
+
+  it("flags devices past the SLA target", () => {
+    const health = tileHealth(session("s", "A", { startedAt: minutesAgo(75) }), NOW, 60, 20);
+    expect(health.alert).toBe("overSla");
+    expect(health.elapsedMs).toBe(75 * 60_000);
+  });
+
+  it("uses the recorded duration once terminal and reports failures first", () => {
+    const failed = tileHealth(
+      session("s", "A", { status: "Failed", durationSeconds: 5400, lastEventAt: minutesAgo(300) }),
+      NOW,
+      60,
+      20,
+    );
+    expect(failed).toMatchObject({ alert: "failed", elapsedMs: 5_400_000, idleMs: null });
+    const done = tileHealth(session("s", "A", { status: "Succeeded", durationSeconds: 5400 }), NOW, 60, 20);
+    expect(done.alert).toBeNull();
+  });
+
+  it("falls back to the start time when no event was seen", () => {
+    const health = tileHealth(session("s", "A", { lastEventAt: undefined }), NOW, null, 20);
+    expect(health).toMatchObject({ alert: "stalled", slaRatio: null });
+  });
+});
+
+describe("summary and paging", () => {
+  it("counts statuses and alerts", () => {
+    const entries = selectWallboardEntries(
+      [
+        session("s1", "SER-1"),
+        session("s2", "SER-2", { lastEventAt: minutesAgo(40) }),
+        session("s3", "SER-3", { status: "Succeeded", durationSeconds: 1200 }),
+        session("s4", "SER-4", { status: "Failed" }),
+      ],
+      ["SER-1", "SER-2", "SER-3", "SER-4", "SER-5"],
+      null,
+    );
+    expect(summarizeWallboard(entries, NOW, null, 20)).toEqual({
+      total: 5,
+      waiting: 1,
+      inProgress: 2,
+      succeeded: 1,
+      failed: 1,
+      stalled: 1,
+      overSla: 0,
+    });
+  });
+
+  it("slices pages and wraps the page index", () => {
+    const items = Array.from({ length: 25 }, (_, i) => i);
+    expect(wallboardPageCount(items.length, 12)).toBe(3);
+    expect(wallboardPageCount(0, 12)).toBe(1);
+    expect(wallboardPage(items, 2, 12)).toEqual([24]);
+    expect(wallboardPage(items, 3, 12)).toEqual(items.slice(0, 12));
+  });
+});
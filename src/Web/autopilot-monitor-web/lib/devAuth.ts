@@ -0,0 +1,35 @@
+/**
+ * Development sign-in against the offline mock backend.
+ *
+ * `npm run mock-backend` in src/McpServer/autopilot-monitor-mcp serves the API from fixtures and
+ * only accepts its own unsigned fixture tokens — an Entra ID token means nothing to it. With
+ * NEXT_PUBLIC_DEV_AUTH_UPN set to one of its fixture users, AuthProvider skips MSAL and signs every
+ * request with a token minted here for that user. Production builds ignore the variable, so a
+ * stray value in a deployed environment can never bypass sign-in.
+ */
+
+/** The fixture UPN to sign in as, or null when dev sign-in is off (always off in production). */
+export function resolveDevAuthUpn(nodeEnv: string | undefined, upn: string | undefined): string | null {
+  if (nodeEnv === "production") return null;
+  return upn?.trim().toLowerCase() || null;
+}
+
+// Both reads must stay literal `process.env.X` so Next.js inlines them into the client bundle.
+export const DEV_AUTH_UPN = resolveDevAuthUpn(process.env.NODE_ENV, process.env.NEXT_PUBLIC_DEV_AUTH_UPN);
+
+const base64Url = (value: object) =>
+  btoa(JSON.stringify(value)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+/**
+ * An unsigned token in the mock backend's fixture format (alg "none", ".mock" signature). The mock
+ * resolves the caller by UPN alone, so the token carries no tenant or object id.
+ */
+export function mintDevToken(upn: string, ttlSeconds = 8 * 3600, nowMs = Date.now()): string {
+  const claims = {
+    upn,
+    preferred_username: upn,
+    name: upn,
+    exp: Math.floor(nowMs / 1000) + ttlSeconds,
+  };
+  return `${base64Url({ alg: "none", typ: "JWT" })}.${base64Url(claims)}.mock`;
+}
@@ -0,0 +1,370 @@
+/**
+ * Enrollment ETA — pure estimator behind the "how much longer?" badge on the session detail
+ * page, the progress portal and the dashboard table.
+ *
+ * The remaining time of an in-progress session is the sum of two parts:
+ *   - the rest of the current phase. In an app phase (3 Apps (Device) / App Installation,
+ *     5 Apps (User)) with an ESP tracking list this is the sum over the apps still pending,
+ *     downloading or installing: each app takes its historical install duration, or longer
+ *     if its remaining bytes at the current download throughput say so. Any other phase
+ *     uses the phase median minus the time already spent in it.
+ *   - the medians of every phase after the current one.
+ *
+ * Phase medians come from a handful of recently completed sessions of the same model and
+ * enrollment type ("model" scope), or of the same enrollment type across the tenant when
+ * the model has too few ("tenant" scope). There's no backend aggregate for per-phase
+ * timings, so the samples' own event timelines are measured — see {@link phaseDurationsFromEvents}.
+ * Per-app durations come from `GET /api/apps/list` (see {@link appHistoryFromList}).
+ */
+
+import type { EnrollmentEvent, Session } from "@/types";
+
+/** Seconds spent per phase id. */
+export type PhaseDurations = Record<number, number>;
+
+export type EtaScope = "model" | "tenant" | "none";
+
+export interface EtaBaseline {
+  scope: EtaScope;
+  /** Completed sessions the phase medians were measured on. */
+  sampleSize: number;
+  phaseMedianSeconds: PhaseDurations;
+}
+
+export interface AppHistoryEntry {
+  seconds: number;
+  downloadBytes: number;
+}
+
+/** Historical install timings keyed by lower-cased app name. */
+export type AppHistory = Map<string, AppHistoryEntry>;
+
+export interface EnrollmentEta {
+  remainingSeconds: number;
+  etaMs: number;
+  /** Remaining seconds of the current phase (app-based in an app phase with a tracking list). */
+  currentPhaseSeconds: number;
+  /** Sum of the medians of every phase after the current one. */
+  laterPhasesSeconds: number;
+  /** Apps still to go in the current phase; null when the estimate isn't app-based. */
+  remainingApps: number | null;
+  /** Remaining apps that had historical timings (the rest used the fallback duration). */
+  appsWithHistory: number;
+  /** The current phase already ran longer than its median — the estimate is a floor. */
+  overrun: boolean;
+  scope: EtaScope;
+  sampleSize: number;
+  confidence: "high" | "medium" | "low";
+}
+
+/** Completed sessions measured per baseline. */
+export const BASELINE_SAMPLE_SIZE = 5;
+/** Below this many same-model samples the baseline widens to the tenant. */
+export const MIN_MODEL_SAMPLES = 3;
+/** Per-app duration when neither app history nor this session's own installs say otherwise. */
+export const DEFAULT_APP_SECONDS = 120;
+
+const APP_PHASES = new Set([3, 5]);
+const COMPLETE_PHASE = 7;
+const FAILED_PHASE = 99;
+
+/** Phase 99 is "Failed"; while still in progress it's shown as the app phase it failed in. */
+function currentPhaseOf(session: Session): number {
+  return session.currentPhase === FAILED_PHASE ? 3 : session.currentPhase;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/** First timestamp (ms) per known phase, ignoring unknown (-1), Failed and Complete markers. */
+function phaseStarts(events: EnrollmentEvent[]): Map<number, number> {
+  const starts = new Map<number, number>();
+  for (const e of events) {
+    if (e.phase < 0 || e.phase === FAILED_PHASE || e.phase === COMPLETE_PHASE) continue;
+    const t = Date.parse(e.timestamp);
+    if (Number.isNaN(t)) continue;
+    const prev = starts.get(e.phase);
+    if (prev === undefined || t < prev) starts.set(e.phase, t);
+  }
+  return starts;
+}
+
+/**
+ * Measures a completed session's timeline: each phase runs from its first event until the
+ * next phase's first event, the last phase until the session's last event. Unlike the
+ * PhaseTimeline card, nested V1 sub-phases (Apps (Device) inside Device Setup) are cut
+ * into contiguous segments so the durations add up to the whole enrollment.
+ */
+export function phaseDurationsFromEvents(events: EnrollmentEvent[]): PhaseDurations {
+  const starts = [...phaseStarts(events).entries()].sort((a, b) => a[1] - b[1]);
+  if (starts.length === 0) return {};
+  let lastMs = 0;
+  for (const e of events) {
+    const t = Date.parse(e.timestamp);
+    if (!Number.isNaN(t) && t > lastMs) lastMs = t;
+  }
+  const durations: PhaseDurations = {};
+  starts.forEach(([phase, start], i) => {
+    const end = i + 1 < starts.length ? starts[i + 1][1] : lastMs;
+    durations[phase] = Math.max(0, (end - start) / 1000);
+  });
+  return durations;
+}
+
+/** Per-phase median across samples; a sample that never entered a phase counts as 0 there. */
+export function medianPhaseDurations(samples: PhaseDurations[]): PhaseDurations {
+  const phases = new Set(samples.flatMap((s) => Object.keys(s).map(Number)));
+  const medians: PhaseDurations = {};
+  for (const phase of phases) {
+    const value = median(samples.map((s) => s[phase] ?? 0));
+    if (value > 0) medians[phase] = value;
+  }
+  return medians;
+}
+
+/** Cache key for a session's baseline — sessions sharing it share their phase medians. */
+export function baselineKey(session: Session): string {
+  return [session.tenantId, session.manufacturer, session.model, session.enrollmentType ?? "v1"]
+    .join("|")
+    .toLowerCase();
+}
+
+/**
+ * Picks the completed sessions to measure for a session's baseline: the latest succeeded
+ * sessions of the same model and enrollment type, widened to the enrollment type across
+ * the tenant when the model has fewer than {@link MIN_MODEL_SAMPLES}.
+ */
+export function selectBaselineSamples(
+  candidates: Session[],
+  session: Session,
+  max = BASELINE_SAMPLE_SIZE,
+): { scope: EtaScope; samples: Session[] } {
+  const enrollmentType = session.enrollmentType ?? "v1";
+  const eligible = candidates
+    .filter(
+      (c) =>
+        c.sessionId !== session.sessionId &&
+        c.status === "Succeeded" &&
+        c.tenantId === session.tenantId &&
+        (c.enrollmentType ?? "v1") === enrollmentType,
+    )
+    .sort((a, b) => Date.parse(b.startedAt) - Date.parse(a.startedAt));
+  const sameModel = eligible.filter(
+    (c) =>
+      (c.model || "").toLowerCase() === (session.model || "").toLowerCase() &&
+      (c.manufacturer || "").toLowerCase() === (session.manufacturer || "").toLowerCase(),
+  );
+  if (sameModel.length >= MIN_MODEL_SAMPLES) return { scope: "model", samples: sameModel.slice(0, max) };
+  if (eligible.length > 0) return { scope: "tenant", samples: eligible.slice(0, max) };
+  return { scope: "none", samples: [] };
+}
+
+/** Rows of `GET /api/apps/list` → lookup by lower-cased app name. Apps without a recorded duration are skipped. */
+export function appHistoryFromList(
+  rows: { appName: string; avgDurationSeconds?: number; avgDownloadBytes?: number }[],
+): AppHistory {
+  const history: AppHistory = new Map();
+  for (const row of rows) {
+    if (!row.appName || !(row.avgDurationSeconds && row.avgDurationSeconds > 0)) continue;
+    history.set(row.appName.toLowerCase(), {
+      seconds: row.avgDurationSeconds,
+      downloadBytes: row.avgDownloadBytes && row.avgDownloadBytes > 0 ? row.avgDownloadBytes : 0,
+    });
+  }
+  return history;
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === "string" && v !== "") : [];
+}
+
+function appNameOf(data: Record<string, unknown> | undefined): string | null {
+  const name = data?.appName ?? data?.app_name ?? data?.appId;
+  return typeof name === "string" && name !== "" ? name : null;
+}
+
+/** Apps still to go per the latest ESP tracking list, or null when the session never sent one. */
+function remainingTrackedApps(events: EnrollmentEvent[]): { downloading: string[]; installing: string[]; pending: string[] } | null {
+  for (let i = events.length - 1; i >= 0; i--) {
+    if (events[i].eventType !== "app_tracking_summary") continue;
+    const d = events[i].data ?? {};
+    return {
+      downloading: stringList(d.downloadingNames),
+      installing: stringList(d.installingNames),
+      pending: stringList(d.pendingNames),
+    };
+  }
+  return null;
+}
+
+/** Latest reported download rate, with the bytes still outstanding per app. */
+function downloadState(events: EnrollmentEvent[]): { rateBps: number; remainingBytes: Map<string, number> } {
+  let rateBps = 0;
+  const remainingBytes = new Map<string, number>();
+  for (const e of events) {
+    if (e.eventType !== "download_progress" || !e.data) continue;
+    const d = e.data;
+    const rate = Number(d.download_rate_bps ?? d.downloadRateBps ?? 0);
+    if (Number.isFinite(rate) && rate > 0) rateBps = rate;
+    const name = d.app_name ?? d.appName ?? d.file_name ?? d.fileName;
+    if (typeof name !== "string" || name === "") continue;
+    const done = Number(d.bytes_downloaded ?? d.bytesDownloaded ?? 0);
+    const total = Number(d.bytes_total ?? d.bytesTotal ?? 0);
+    const finished = d.status === "completed" || d.status === "failed";
+    remainingBytes.set(
+      name.toLowerCase(),
+      finished || !Number.isFinite(total) || total <= 0 ? 0 : Math.max(0, total - (Number.isFinite(done) ? done : 0)),
+    );
+  }
+  return { rateBps, remainingBytes };
+}
+
+/** Start time (ms) of each app install, and the durations of the installs this session already finished. */
+function installTimings(events: EnrollmentEvent[]): { startedAt: Map<string, number>; finishedSeconds: number[] } {
+  const startedAt = new Map<string, number>();
+  const finishedSeconds: number[] = [];
+  for (const e of events) {
+    const name = appNameOf(e.data)?.toLowerCase();
+    if (!name) continue;
+    const t = Date.parse(e.timestamp);
+    if (Number.isNaN(t)) continue;
+    if (e.eventType === "app_install_started") {
+      startedAt.set(name, t);
+    } else if (e.eventType === "app_install_completed") {
+      const start = startedAt.get(name);
+      if (start !== undefined && t > start) finishedSeconds.push((t - start) / 1000);
+      startedAt.delete(name);
+    } else if (e.eventType === "app_install_failed" || e.eventType === "app_install_skipped" || e.eventType === "app_install_postponed") {
+      startedAt.delete(name);
+    }
+  }
+  return { startedAt, finishedSeconds };
+}
+
+/**
+ * Predicts the remaining enrollment time of an in-progress session. `events` are the
+ * session's own events when the surface has them (detail page, progress portal); without
+ * them (dashboard table) the time spent in the current phase is inferred from the elapsed
+ * time minus the medians of the earlier phases, and app phases fall back to the median.
+ *
+ * Returns null for finished sessions and when there's nothing to estimate from.
+ */
+export function estimateRemaining(
+  session: Session,
+  events: EnrollmentEvent[] | null,
+  baseline: EtaBaseline | null,
+  appHistory: AppHistory | null,
+  nowMs: number,
+): EnrollmentEta | null {
+  if (session.status !== "InProgress") return null;
+  const phase = currentPhaseOf(session);
+  const medians = baseline?.phaseMedianSeconds ?? {};
+  const scope = baseline?.scope ?? "none";
+
+  let inPhaseSeconds: number;
+  const ownStart = events ? phaseStarts(events).get(phase) : undefined;
+  if (ownStart !== undefined) {
+    inPhaseSeconds = Math.max(0, (nowMs - ownStart) / 1000);
+  } else {
+    const elapsed = Math.max(0, (nowMs - Date.parse(session.startedAt)) / 1000);
+    const earlier = Object.entries(medians)
+      .filter(([p]) => Number(p) < phase)
+      .reduce((sum, [, s]) => sum + s, 0);
+    inPhaseSeconds = Math.max(0, elapsed - earlier);
+  }
+
+  const tracked = events && APP_PHASES.has(phase) ? remainingTrackedApps(events) : null;
+  let currentPhaseSeconds: number;
+  let remainingApps: number | null = null;
+  let appsWithHistory = 0;
+  let overrun = false;
+
+  if (tracked && events) {
+    const names = [...new Set([...tracked.installing, ...tracked.downloading, ...tracked.pending])];
+    const installing = new Set(tracked.installing.map((n) => n.toLowerCase()));
+    const { rateBps, remainingBytes } = downloadState(events);
+    const { startedAt, finishedSeconds } = installTimings(events);
+    const historyMedian = appHistory && appHistory.size > 0 ? median([...appHistory.values()].map((h) => h.seconds)) : 0;
+    const fallbackSeconds =
+      finishedSeconds.length > 0 ? median(finishedSeconds) : historyMedian > 0 ? historyMedian : DEFAULT_APP_SECONDS;
+
+    currentPhaseSeconds = 0;
+    for (const name of names) {
+      const key = name.toLowerCase();
+      const history = appHistory?.get(key);
+      if (history) appsWithHistory++;
+      let seconds = history?.seconds ?? fallbackSeconds;
+      const bytes = remainingBytes.get(key) ?? history?.downloadBytes ?? 0;
+      if (rateBps > 0 && bytes > 0) seconds = Math.max(seconds, bytes / rateBps);
+      const started = startedAt.get(key);
+      if (installing.has(key) && started !== undefined) {
+        const spent = (nowMs - started) / 1000;
+        if (spent > seconds) overrun = true;
+        seconds = Math.max(0, seconds - spent);
+      }
+      currentPhaseSeconds += seconds;
+    }
+    remainingApps = names.length;
+  } else {
+    const phaseMedian = medians[phase];
+    if (phaseMedian === undefined) {
+      currentPhaseSeconds = 0;
+    } else {
+      overrun = inPhaseSeconds > phaseMedian;
+      currentPhaseSeconds = Math.max(0, phaseMedian - inPhaseSeconds);
+    }
+  }
+
+  const laterPhasesSeconds = Object.entries(medians)
+    .filter(([p]) => Number(p) > phase)
+    .reduce((sum, [, s]) => sum + s, 0);
+
+  if (scope === "none" && remainingApps === null) return null;
+
+  const remainingSeconds = Math.round(currentPhaseSeconds + laterPhasesSeconds);
+  return {
+    remainingSeconds,
+    etaMs: nowMs + remainingSeconds * 1000,
+    currentPhaseSeconds: Math.round(currentPhaseSeconds),
+    laterPhasesSeconds: Math.round(laterPhasesSeconds),
+    remainingApps,
+    appsWithHistory,
+    overrun,
+    scope,
+    sampleSize: baseline?.sampleSize ?? 0,
+    confidence: overrun || scope === "none" ? "low" : scope === "model" ? "high" : "medium",
+  };
+}
+
+/** Compact remaining-time label: "< 1 min", "~25 min", "~1h 20m". `approximate=false` drops the tilde. */
+export function formatEtaRemaining(seconds: number, approximate = true): string {
+  const minutes = Math.round(seconds / 60);
+  const prefix = approximate ? "~" : "";
+  if (minutes < 1) return "< 1 min";
+  if (minutes < 60) return `${prefix}${minutes} min`;
+  return `${prefix}${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+/** One-line explanation of what the estimate is based on, for tooltips. */
+export function describeEtaBasis(eta: EnrollmentEta): string {
+  const parts: string[] = [];
+  if (eta.remainingApps !== null) {
+    parts.push(
+      `${eta.remainingApps} app${eta.remainingApps === 1 ? "" : "s"} left` +
+        (eta.remainingApps > 0 ? ` (${eta.appsWithHistory} with install history)` : ""),
+    );
+  }
+  if (eta.scope === "model") {
+    parts.push(`phase medians from the last ${eta.sampleSize} enrollments of this model`);
+  } else if (eta.scope === "tenant") {
+    parts.push(`phase medians from the last ${eta.sampleSize} enrollments in this tenant (too few of this model)`);
+  } else {
+    parts.push("no completed enrollments to compare against");
+  }
+  if (eta.overrun) parts.push("already slower than usual");
+  return parts.join(" · ");
+}
@@ -0,0 +1,207 @@
+/**
+ * IME log pattern test harness — runs the IME log patterns against a pasted or uploaded
+ * IntuneManagementExtension / AppWorkload log exactly the way the agent's ImeLogTracker does,
+ * so pattern authors can see per line which pattern matched, the named groups it captured and
+ * the action it would trigger, plus the lines nothing matched.
+ *
+ * Agent parity (keep in lock-step with ImeLogTracker / CmTraceLogParser and the MCP mirror
+ * `ime-log-patterns.ts`):
+ *   - CMTrace entries spanning several physical lines are reassembled with "\n" until the
+ *     closing `]LOG]!>`; an entry still open after 100 lines is dropped as corrupt.
+ *   - Non-CMTrace lines are matched raw.
+ *   - `{GUID}` expands to the standard `(?<id>…)` GUID capture.
+ *   - Regexes are case-insensitive and dot-all (RegexOptions.IgnoreCase | Singleline).
+ *   - Every active pattern is tried on every entry — several patterns may fire on one line.
+ *   - Categories gate patterns by the live ESP phase on the device. Offline there is no phase,
+ *     so all categories run and each match reports its category instead.
+ */
+
+const GUID_BODY = "[a-z0-9]{8}-[a-z0-9]{4}-[a-z0-9]{4}-[a-z0-9]{4}-[a-z0-9]{12}";
+const GUID_PATTERN = `(?<id>${GUID_BODY})`;
+const MAX_MULTILINE_LINES = 100;
+/** Positional groups: 1 message, 2 time, 3 date, 4 component, 5 type (the build targets ES2017 — no named groups / `s` flag in literals). */
+const CMTRACE_REGEX =
+  /^<!\[LOG\[([\s\S]*)\]LOG\]!><time="([\d:.]+)"\s+date="([\d-]+)"\s+component="([^"]*)"\s+context="[^"]*"\s+type="(\d+)"\s+thread="\d+"\s+file="[^"]*">/;
+
+export interface HarnessPattern {
+  patternId: string;
+  category: string;
+  pattern: string;
+  action: string;
+  enabled?: boolean;
+  parameters?: Record<string, string>;
+}
+
+export interface ImeLogEntry {
+  /** 1-based physical line where the entry starts. */
+  line: number;
+  /** Text the patterns run against: the CMTrace message, or the whole raw line. */
+  message: string;
+  /** Device-local time from the CMTrace header ("yyyy-MM-ddTHH:mm:ss.fff"); null for raw lines. */
+  localTimestamp: string | null;
+  component: string | null;
+  /** CMTrace type: 1 = Info, 2 = Warning, 3 = Error. */
+  type: number | null;
+}
+
+export interface HarnessMatch {
+  patternId: string;
+  category: string;
+  action: string;
+  groups: Record<string, string>;
+  parameters: Record<string, string>;
+}
+
+export interface HarnessLineResult extends ImeLogEntry {
+  matches: HarnessMatch[];
+}
+
+export interface PatternCoverage {
+  patternId: string;
+  category: string;
+  action: string;
+  enabled: boolean;
+  hits: number;
+  firstLine: number | null;
+}
+
+export interface HarnessReport {
+  lines: HarnessLineResult[];
+  totalEntries: number;
+  matchedEntries: number;
+  /** Entries hit by more than one pattern — usually fine, occasionally an overlap bug. */
+  multiMatchEntries: number;
+  /** matchedEntries / totalEntries, 0..100 with one decimal. */
+  lineCoveragePercent: number;
+  /** One row per tested pattern, hits descending. */
+  patterns: PatternCoverage[];
+  /** Tested patterns that matched nothing in this log. */
+  unusedPatternIds: string[];
+  invalidPatterns: Array<{ patternId: string; error: string }>;
+  actionCounts: Record<string, number>;
+}
+
+export interface HarnessOptions {
+  /** Also run patterns that are disabled (the agent skips them). Default false. */
+  includeDisabled?: boolean;
+}
+
+/**
+ * Expand `{GUID}`. Several patterns wrap it as `(?<id>{GUID})`, which nests two groups named
+ * `id`: .NET accepts the duplicate name, JavaScript rejects the whole regex — so when the
+ * author already names the capture, expand to the bare GUID body instead.
+ */
+function expandGuidPlaceholder(pattern: string): string {
+  return pattern.replaceAll("{GUID}", pattern.includes("(?<id>") ? GUID_BODY : GUID_PATTERN);
+}
+
+/** Compile one pattern string the way the agent does. Throws on an invalid regex. */
+export function compileImePattern(pattern: string): RegExp {
+  return new RegExp(expandGuidPlaceholder(pattern), "is");
+}
+
+/** "M-d-yyyy" + "H:mm:ss.fffffff" → "yyyy-MM-ddTHH:mm:ss.fff" (device-local). */
+function cmTraceLocalTimestamp(date: string, time: string): string | null {
+  const d = /^(\d{1,2})-(\d{1,2})-(\d{4})$/.exec(date);
+  const t = /^(\d{1,2}):(\d{2}):(\d{2})(?:\.(\d+))?$/.exec(time);
+  if (!d || !t) return null;
+  const pad = (v: string) => v.padStart(2, "0");
+  const ms = (t[4] ?? "").slice(0, 3).padEnd(3, "0");
+  return `${d[3]}-${pad(d[1])}-${pad(d[2])}T${pad(t[1])}:${t[2]}:${t[3]}.${ms}`;
+}
+
+/** Split log text into entries, reassembling multiline CMTrace records. */
+export function splitImeLogEntries(text: string): ImeLogEntry[] {
+  const entries: ImeLogEntry[] = [];
+  let buffer: string[] | null = null;
+  let bufferStart = 0;
+
+  const emit = (raw: string, line: number) => {
+    const m = raw.startsWith("<![LOG[") ? CMTRACE_REGEX.exec(raw) : null;
+    if (m) {
+      const [, message, time, date, component, type] = m;
+      if (!message) return;
+      entries.push({
+        line,
+        message,
+        localTimestamp: cmTraceLocalTimestamp(date, time),
+        component,
+        type: Number(type),
+      });
+    } else if (raw) {
+      entries.push({ line, message: raw, localTimestamp: null, component: null, type: null });
+    }
+  };
+
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (buffer) {
+      buffer.push(line);
+      if (line.includes("]LOG]!>")) {
+        emit(buffer.join("\n"), bufferStart);
+        buffer = null;
+      } else if (buffer.length >= MAX_MULTILINE_LINES) {
+        buffer = null;
+      }
+    } else if (line.startsWith("<![LOG[") && !line.includes("]LOG]!>")) {
+      buffer = [line];
+      bufferStart = i + 1;
+    } else {
+      emit(line, i + 1);
+    }
+  });
+  return entries;
+}
+
+/** Run `patterns` over `logText` and build the per-line results plus the coverage report. */
+export function runImeLogHarness(logText: string, patterns: HarnessPattern[], options: HarnessOptions = {}): HarnessReport {
+  const invalidPatterns: HarnessReport["invalidPatterns"] = [];
+  const compiled: Array<{ def: HarnessPattern; regex: RegExp; coverage: PatternCoverage }> = [];
+  for (const def of patterns) {
+    if (def.enabled === false && !options.includeDisabled) continue;
+    try {
+      compiled.push({
+        def,
+        regex: compileImePattern(def.pattern),
+        coverage: { patternId: def.patternId, category: def.category, action: def.action, enabled: def.enabled !== false, hits: 0, firstLine: null },
+      });
+    } catch (e) {
+      invalidPatterns.push({ patternId: def.patternId, error: (e as Error).message });
+    }
+  }
+
+  const actionCounts: Record<string, number> = {};
+  let matchedEntries = 0;
+  let multiMatchEntries = 0;
+  const lines: HarnessLineResult[] = splitImeLogEntries(logText).map((entry) => {
+    const matches: HarnessMatch[] = [];
+    for (const { def, regex, coverage } of compiled) {
+      const m = regex.exec(entry.message);
+      if (!m) continue;
+      const groups: Record<string, string> = {};
+      for (const [k, v] of Object.entries(m.groups ?? {})) if (v !== undefined) groups[k] = v;
+      matches.push({ patternId: def.patternId, category: def.category, action: def.action, groups, parameters: def.parameters ?? {} });
+      coverage.hits++;
+      coverage.firstLine ??= entry.line;
+      actionCounts[def.action] = (actionCounts[def.action] ?? 0) + 1;
+    }
+    if (matches.length > 0) matchedEntries++;
+    if (matches.length > 1) multiMatchEntries++;
+    return { ...entry, matches };
+  });
+
+  const coverage = compiled
+    .map((c) => c.coverage)
+    .sort((a, b) => b.hits - a.hits || a.patternId.localeCompare(b.patternId));
+
+  return {
+    lines,
+    totalEntries: lines.length,
+    matchedEntries,
+    multiMatchEntries,
+    lineCoveragePercent: lines.length ? Math.round((matchedEntries / lines.length) * 1000) / 10 : 0,
+    patterns: coverage,
+    unusedPatternIds: coverage.filter((c) => c.hits === 0).map((c) => c.patternId),
+    invalidPatterns,
+    actionCounts,
+  };
+}
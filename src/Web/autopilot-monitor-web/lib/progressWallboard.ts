@@ -0,0 +1,233 @@
+/**
+ * Progress wallboard — pure selection and health logic behind `/progress/wallboard`, the
+ * kiosk view that tracks a whole staging run (30-50 devices) in one tiled grid instead of
+ * one serial at a time.
+ *
+ * The board is configured entirely through its URL so a wall screen can be pointed at a
+ * bookmarked link and left alone:
+ *   - `serials`  comma/whitespace separated serials or device names (same matching as the
+ *                portal's search box — a serial without a session yet shows as "waiting")
+ *   - `batch`    bootstrap short code; selects the sessions that started while the code was
+ *                valid. Sessions don't record which code they registered with, so this is a
+ *                time window, not an exact join — combine with `serials` when it matters.
+ *   - `sla`      target enrollment duration in minutes (defaults to the tenant's SLA target)
+ *   - `stall`    minutes without a new event before an in-progress device counts as stalled
+ *   - `rotate`   seconds per page when the tiles don't fit on one screen
+ *   - `tiles`    tiles per page
+ *   - `kiosk=1`  cover the app chrome (navbar/sidebar) with the board
+ */
+
+import type { Session } from "@/types";
+
+export interface WallboardConfig {
+  serials: string[];
+  batch: string | null;
+  slaMinutes: number | null;
+  stallMinutes: number;
+  rotateSeconds: number;
+  pageSize: number;
+  kiosk: boolean;
+}
+
+export const WALLBOARD_DEFAULTS = {
+  stallMinutes: 20,
+  rotateSeconds: 20,
+  pageSize: 12,
+} as const;
+
+/** The progress endpoint returns the tenant's latest 100 sessions — more serials can't resolve. */
+export const MAX_WALLBOARD_SERIALS = 100;
+const MIN_ROTATE_SECONDS = 5;
+const MAX_PAGE_SIZE = 48;
+
+/** Bootstrap code validity window, as listed by `GET /api/bootstrap/sessions`. */
+export interface BootstrapBatch {
+  shortCode: string;
+  label: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface WallboardEntry {
+  /** Stable React key — the session id, or `serial:<query>` while waiting. */
+  key: string;
+  /** The configured serial this tile was requested by; null for batch-only tiles. */
+  serial: string | null;
+  session: Session | null;
+}
+
+export type TileAlert = "failed" | "stalled" | "overSla";
+
+export interface TileHealth {
+  elapsedMs: number;
+  /** `elapsed / target`; null without an SLA target. */
+  slaRatio: number | null;
+  /** Time since the last event while in progress; null once terminal. */
+  idleMs: number | null;
+  alert: TileAlert | null;
+}
+
+export interface WallboardSummary {
+  total: number;
+  waiting: number;
+  inProgress: number;
+  succeeded: number;
+  failed: number;
+  stalled: number;
+  overSla: number;
+}
+
+/** Splits a serial list typed or pasted as comma-, semicolon- or whitespace-separated text. */
+export function parseSerialList(raw: string): string[] {
+  const seen = new Set<string>();
+  const serials: string[] = [];
+  for (const part of raw.split(/[\s,;]+/)) {
+    const serial = part.trim();
+    if (!serial || seen.has(serial.toLowerCase())) continue;
+    seen.add(serial.toLowerCase());
+    serials.push(serial);
+  }
+  return serials.slice(0, MAX_WALLBOARD_SERIALS);
+}
+
+function positiveNumber(raw: string | null): number | null {
+  if (raw === null || raw.trim() === "") return null;
+  const value = Number(raw);
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+export function parseWallboardConfig(params: URLSearchParams): WallboardConfig {
+  const pageSize = Math.floor(positiveNumber(params.get("tiles")) ?? WALLBOARD_DEFAULTS.pageSize);
+  return {
+    serials: parseSerialList(params.get("serials") ?? ""),
+    batch: params.get("batch")?.trim() || null,
+    slaMinutes: positiveNumber(params.get("sla")),
+    stallMinutes: positiveNumber(params.get("stall")) ?? WALLBOARD_DEFAULTS.stallMinutes,
+    rotateSeconds: Math.max(MIN_ROTATE_SECONDS, positiveNumber(params.get("rotate")) ?? WALLBOARD_DEFAULTS.rotateSeconds),
+    pageSize: Math.min(MAX_PAGE_SIZE, Math.max(1, pageSize)),
+    kiosk: params.get("kiosk") === "1",
+  };
+}
+
+/** Inverse of `parseWallboardConfig`; defaults are left out to keep the link short. */
+export function wallboardSearchParams(config: WallboardConfig): URLSearchParams {
+  const params = new URLSearchParams();
+  if (config.serials.length > 0) params.set("serials", config.serials.join(","));
+  if (config.batch) params.set("batch", config.batch);
+  if (config.slaMinutes !== null) params.set("sla", String(config.slaMinutes));
+  if (config.stallMinutes !== WALLBOARD_DEFAULTS.stallMinutes) params.set("stall", String(config.stallMinutes));
+  if (config.rotateSeconds !== WALLBOARD_DEFAULTS.rotateSeconds) params.set("rotate", String(config.rotateSeconds));
+  if (config.pageSize !== WALLBOARD_DEFAULTS.pageSize) params.set("tiles", String(config.pageSize));
+  if (config.kiosk) params.set("kiosk", "1");
+  return params;
+}
+
+/**
+ * The portal's serial lookup: exact or partial serial, or partial device name; the most
+ * recently started match wins (a re-imaged device has several sessions).
+ */
+export function findSessionBySerial(sessions: Session[], query: string): Session | undefined {
+  const q = query.trim().toLowerCase();
+  if (!q) return undefined;
+  return sessions
+    .filter(
+      (s) =>
+        s.serialNumber.toLowerCase() === q ||
+        s.serialNumber.toLowerCase().includes(q) ||
+        s.deviceName?.toLowerCase().includes(q),
+    )
+    .sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime())[0];
+}
+
+export function isInBatchWindow(session: Session, batch: BootstrapBatch): boolean {
+  const started = new Date(session.startedAt).getTime();
+  return started >= new Date(batch.createdAt).getTime() && started <= new Date(batch.expiresAt).getTime();
+}
+
+/**
+ * Tiles in board order: the configured serials in the order given, then the batch's
+ * sessions by start time. A session matched by both appears once, at its serial's slot.
+ */
+export function selectWallboardEntries(
+  sessions: Session[],
+  serials: string[],
+  batch: BootstrapBatch | null,
+): WallboardEntry[] {
+  const entries: WallboardEntry[] = [];
+  const placed = new Set<string>();
+  for (const serial of serials) {
+    const session = findSessionBySerial(sessions, serial);
+    if (session && placed.has(session.sessionId)) continue;
+    if (session) placed.add(session.sessionId);
+    entries.push({ key: session ? session.sessionId : `serial:${serial}`, serial, session: session ?? null });
+  }
+  if (batch) {
+    const batchSessions = sessions
+      .filter((s) => !placed.has(s.sessionId) && isInBatchWindow(s, batch))
+      .sort((a, b) => new Date(a.startedAt).getTime() - new Date(b.startedAt).getTime());
+    for (const session of batchSessions) {
+      placed.add(session.sessionId);
+      entries.push({ key: session.sessionId, serial: null, session });
+    }
+  }
+  return entries;
+}
+
+export function tileHealth(
+  session: Session,
+  nowMs: number,
+  slaMinutes: number | null,
+  stallMinutes: number,
+): TileHealth {
+  const startedMs = new Date(session.startedAt).getTime();
+  const inProgress = session.status === "InProgress";
+  const elapsedMs = inProgress ? Math.max(0, nowMs - startedMs) : Math.max(0, session.durationSeconds * 1000);
+  const slaRatio = slaMinutes ? elapsedMs / (slaMinutes * 60_000) : null;
+  const lastActivityMs = session.lastEventAt ? new Date(session.lastEventAt).getTime() : startedMs;
+  const idleMs = inProgress ? Math.max(0, nowMs - lastActivityMs) : null;
+
+  let alert: TileAlert | null = null;
+  if (session.status === "Failed") alert = "failed";
+  else if (idleMs !== null && idleMs >= stallMinutes * 60_000) alert = "stalled";
+  else if (inProgress && slaRatio !== null && slaRatio > 1) alert = "overSla";
+  return { elapsedMs, slaRatio, idleMs, alert };
+}
+
+export function summarizeWallboard(
+  entries: WallboardEntry[],
+  nowMs: number,
+  slaMinutes: number | null,
+  stallMinutes: number,
+): WallboardSummary {
+  const summary: WallboardSummary = {
+    total: entries.length,
+    waiting: 0,
+    inProgress: 0,
+    succeeded: 0,
+    failed: 0,
+    stalled: 0,
+    overSla: 0,
+  };
+  for (const { session } of entries) {
+    if (!session) {
+      summary.waiting++;
+      continue;
+    }
+    if (session.status === "InProgress") summary.inProgress++;
+    else if (session.status === "Succeeded") summary.succeeded++;
+    else if (session.status === "Failed") summary.failed++;
+    const { alert } = tileHealth(session, nowMs, slaMinutes, stallMinutes);
+    if (alert === "stalled") summary.stalled++;
+    if (alert === "overSla") summary.overSla++;
+  }
+  return summary;
+}
+
+export function wallboardPageCount(entryCount: number, pageSize: number): number {
+  return Math.max(1, Math.ceil(entryCount / pageSize));
+}
+
+export function wallboardPage<T>(entries: T[], page: number, pageSize: number): T[] {
+  const safePage = page % wallboardPageCount(entries.length, pageSize);
+  return entries.slice(safePage * pageSize, (safePage + 1) * pageSize);
+}
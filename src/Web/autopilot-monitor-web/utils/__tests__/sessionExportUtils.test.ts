@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { generateCsvExport, parseSessionEventsExport, type SessionExportEvent } from "../sessionExportUtils";
+
+const events: SessionExportEvent[] = [
+  {
+    eventId: "e1", sessionId: "s1", tenantId: "t1", timestamp: "2024-01-01T10:00:00Z",
+    eventType: "app_install_failed", severity: "Error", source: "ImeLogTracker", phase: 3,
+    message: "Install failed, \"exit 1603\"\nsee log", sequence: 7,
+    data: { appId: "a1", errorCode: "1603" },
+  },
+  {
+    eventId: "e2", sessionId: "s1", tenantId: "t1", timestamp: "2024-01-01T09:00:00Z",
+    eventType: "agent_started", severity: "Info", source: "Agent", phase: 0, message: "", sequence: 1,
+  },
+];
+
+describe("parseSessionEventsExport", () => {
+  it("round-trips generateCsvExport (quotes, commas, newlines, DataJson)", () => {
+    const parsed = parseSessionEventsExport(generateCsvExport(events));
+
+    expect(parsed.map((e) => e.eventId)).toEqual(["e2", "e1"]);
+    const failed = parsed[1];
+    expect(failed.message).toBe("Install failed, \"exit 1603\"\nsee log");
+    expect(failed.severity).toBe("Error");
+    expect(failed.phase).toBe(3);
+    expect(failed.sequence).toBe(7);
+    expect(failed.data).toEqual({ appId: "a1", errorCode: "1603" });
+    expect(parsed[0].data).toBeUndefined();
+  });
+
+  it("accepts a JSON array or an { events } payload", () => {
+    expect(parseSessionEventsExport(JSON.stringify(events))).toHaveLength(2);
+    expect(parseSessionEventsExport(JSON.stringify({ events, count: 2 }))).toHaveLength(2);
+  });
+
+  it("rejects a CSV without the event columns", () => {
+    expect(() => parseSessionEventsExport("PartitionKey,RowKey\n\"a\",\"b\"")).toThrow(/EventId, Timestamp, EventType/);
+  });
+});
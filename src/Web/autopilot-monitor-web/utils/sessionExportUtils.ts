@@ -1,6 +1,7 @@
 /**
  * Shared session export utilities.
- * Used by both the admin-config SessionExportSection and the session report modal.
+ * Used by the admin-config SessionExportSection and the session report modal; the analyze-rule
+ * editor's test panel reads exports back with parseSessionEventsExport.
  */
 
 export interface SessionExportEvent {
@@ -78,6 +79,78 @@ export function generateCsvExport(events: SessionExportEvent[]) {
   return "\uFEFF" + header + "\n" + rows.join("\n");
 }
 
+/** Split CSV text into rows of fields (RFC 4180: quoted fields may hold commas, quotes and newlines). */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else field += ch;
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ",") {
+      row.push(field); field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field); field = "";
+      rows.push(row); row = [];
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) { row.push(field); rows.push(row); }
+  return rows.filter(r => r.length > 1 || r[0] !== "");
+}
+
+/**
+ * Read a saved event export back into events — the inverse of generateCsvExport, or a JSON
+ * array of events / `{ events: [...] }` payload (the MCP get_session_events shape). Used to
+ * replay analyze rules offline against a session that is no longer (or not yet) in the portal.
+ */
+export function parseSessionEventsExport(text: string): SessionExportEvent[] {
+  const body = text.replace(/^\uFEFF/, "").trim();
+  if (body.startsWith("[") || body.startsWith("{")) {
+    const parsed = JSON.parse(body) as unknown;
+    const list = Array.isArray(parsed) ? parsed : (parsed as { events?: unknown }).events;
+    if (!Array.isArray(list)) throw new Error("JSON export must be an array of events or an object with an \"events\" array");
+    return list as SessionExportEvent[];
+  }
+
+  const [header, ...rows] = parseCsvRows(body);
+  if (!header) return [];
+  const col = (name: string) => header.indexOf(name);
+  const required = ["EventId", "Timestamp", "EventType"];
+  const missing = required.filter(n => col(n) < 0);
+  if (missing.length > 0) throw new Error(`CSV export is missing column(s): ${missing.join(", ")}`);
+
+  const get = (r: string[], name: string) => (col(name) >= 0 ? r[col(name)] ?? "" : "");
+  return rows.map(r => {
+    const dataJson = get(r, "DataJson");
+    return {
+      eventId: get(r, "EventId"),
+      sessionId: get(r, "SessionId"),
+      tenantId: get(r, "TenantId"),
+      timestamp: get(r, "Timestamp"),
+      eventType: get(r, "EventType"),
+      // generateCsvExport renders severity as "Error (3)" — keep the name only.
+      severity: get(r, "Severity").replace(/\s*\(\d+\)$/, ""),
+      source: get(r, "Source"),
+      phase: Number(get(r, "Phase") || 0),
+      phaseName: get(r, "PhaseName") || undefined,
+      message: get(r, "Message"),
+      sequence: Number(get(r, "Sequence") || 0),
+      rowKey: get(r, "RowKey") || undefined,
+      receivedAt: get(r, "ReceivedAt") || undefined,
+      data: dataJson ? (JSON.parse(dataJson) as Record<string, unknown>) : undefined,
+    };
+  });
+}
+
 export interface SessionCsvData {
   sessionId: string;
   tenantId: string;